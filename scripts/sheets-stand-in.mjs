@@ -0,0 +1,104 @@
+/**
+ * Google Sheets API Stand-in
+ *
+ * Serves the two Sheets API v4 endpoints the member import uses, from JSON
+ * fixtures, so Google Sheets sources can be tried without a Google account:
+ *
+ *   GET /v4/spreadsheets/:id                 sheet names
+ *   GET /v4/spreadsheets/:id/values/:range   values of a whole sheet
+ *
+ * A fixture is scripts/fixtures/sheets/<spreadsheetId>.json:
+ *   { "sheets": { "Members": [["Email", "Joined"], ["ada@example.com", "1/15/2024"]] } }
+ *
+ * Usage: npm run sheets:stand-in, then set
+ *   VITE_GOOGLE_SHEETS_API_URL=http://127.0.0.1:54330
+ * Environment: PORT (default 54330), SHEETS_FIXTURES (fixtures directory)
+ */
+
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT || 54330);
+const FIXTURES =
+  process.env.SHEETS_FIXTURES || join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'sheets');
+
+const ROUTE = /^\/v4\/spreadsheets\/([\w-]+)(?:\/values\/(.+))?$/;
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+function notFound(res) {
+  send(res, 404, {
+    error: { code: 404, message: 'Requested entity was not found.', status: 'NOT_FOUND' },
+  });
+}
+
+async function loadSpreadsheet(id) {
+  try {
+    return JSON.parse(await readFile(join(FIXTURES, `${id}.json`), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// 'Sheet ''A''!A1:Z100' -> Sheet 'A' (cell ranges are ignored; the whole sheet is returned)
+function sheetNameOf(range) {
+  const name = range.replace(/!.*$/, '');
+  return name.startsWith("'") ? name.slice(1, -1).replace(/''/g, "'") : name;
+}
+
+// The API leaves out trailing empty cells and rows
+function trimValues(rows) {
+  const trimmed = rows.map((row) => {
+    let end = row.length;
+    while (end > 0 && (row[end - 1] === null || row[end - 1] === '')) end--;
+    return row.slice(0, end);
+  });
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1].length === 0) trimmed.pop();
+  return trimmed;
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const match = req.method === 'GET' ? ROUTE.exec(url.pathname) : null;
+  if (!match) return notFound(res);
+
+  const [, id, range] = match;
+  const spreadsheet = await loadSpreadsheet(id);
+  if (!spreadsheet) return notFound(res);
+
+  const sheets = spreadsheet.sheets || {};
+
+  if (!range) {
+    return send(res, 200, {
+      spreadsheetId: id,
+      sheets: Object.keys(sheets).map((title, index) => ({
+        properties: { sheetId: index, title, index },
+      })),
+    });
+  }
+
+  const sheetName = sheetNameOf(decodeURIComponent(range));
+  if (!(sheetName in sheets)) {
+    return send(res, 400, {
+      error: { code: 400, message: `Unable to parse range: ${sheetName}`, status: 'INVALID_ARGUMENT' },
+    });
+  }
+
+  send(res, 200, {
+    range: `'${sheetName.replace(/'/g, "''")}'`,
+    majorDimension: 'ROWS',
+    values: trimValues(sheets[sheetName]),
+  });
+});
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Sheets API stand-in on http://127.0.0.1:${PORT} (fixtures: ${FIXTURES})`);
+});
@@ -1,11 +1,24 @@
 import { useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { LoginPage } from './pages/LoginPage';
+import { UnsubscribePage } from './pages/UnsubscribePage';
 import { DashboardPage } from './pages/DashboardPage';
+import { MembersPage } from './pages/MembersPage';
+import { MemberDetailPage } from './pages/MemberDetailPage';
+import { CreateMemberPage } from './pages/CreateMemberPage';
+import { EditMemberPage } from './pages/EditMemberPage';
+import { SitesPage } from './pages/SitesPage';
+import { DataSourcesPage } from './pages/DataSourcesPage';
+import { ImportMembersPage } from './pages/ImportMembersPage';
 import { CampaignsPage } from './pages/CampaignsPage';
 import { CampaignDetailPage } from './pages/CampaignDetailPage';
 import { CreateCampaignPage } from './pages/CreateCampaignPage';
 import { EditCampaignPage } from './pages/EditCampaignPage';
+import { AutomationsPage } from './pages/AutomationsPage';
+import { AutomationDetailPage } from './pages/AutomationDetailPage';
+import { CreateAutomationPage } from './pages/CreateAutomationPage';
+import { EditAutomationPage } from './pages/EditAutomationPage';
+import { PromoCodesPage } from './pages/PromoCodesPage';
 import { AdminUsersPage, AdminSettingsPage } from './pages/admin';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { ErrorBoundary } from './components/ErrorBoundary';
@@ -34,8 +47,9 @@ function App() {
           <ToastProvider position="top-right">
             <BrowserRouter>
               <Routes>
-                {/* Public route */}
+                {/* Public routes */}
                 <Route path="/login" element={<LoginPage />} />
+                <Route path="/unsubscribe" element={<UnsubscribePage />} />
 
                 {/* Protected routes */}
                 <Route
@@ -47,6 +61,68 @@ function App() {
                   }
                 />
 
+                {/* Member routes */}
+                <Route
+                  path="/members"
+                  element={
+                    <ProtectedRoute>
+                      <MembersPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/members/new"
+                  element={
+                    <ProtectedRoute>
+                      <CreateMemberPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/members/:id"
+                  element={
+                    <ProtectedRoute>
+                      <MemberDetailPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/members/:id/edit"
+                  element={
+                    <ProtectedRoute>
+                      <EditMemberPage />
+                    </ProtectedRoute>
+                  }
+                />
+
+                {/* Site routes */}
+                <Route
+                  path="/sites"
+                  element={
+                    <ProtectedRoute>
+                      <SitesPage />
+                    </ProtectedRoute>
+                  }
+                />
+
+                {/* Data source routes */}
+                <Route
+                  path="/data-sources"
+                  element={
+                    <ProtectedRoute>
+                      <DataSourcesPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/data-sources/import"
+                  element={
+                    <ProtectedRoute>
+                      <ImportMembersPage />
+                    </ProtectedRoute>
+                  }
+                />
+
                 {/* Campaign routes */}
                 <Route
                   path="/campaigns"
@@ -81,6 +157,48 @@ function App() {
                   }
                 />
 
+                {/* Automation routes */}
+                <Route
+                  path="/automations"
+                  element={
+                    <ProtectedRoute>
+                      <AutomationsPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/automations/new"
+                  element={
+                    <ProtectedRoute>
+                      <CreateAutomationPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/automations/:id"
+                  element={
+                    <ProtectedRoute>
+                      <AutomationDetailPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/automations/:id/edit"
+                  element={
+                    <ProtectedRoute>
+                      <EditAutomationPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/promo-codes"
+                  element={
+                    <ProtectedRoute>
+                      <PromoCodesPage />
+                    </ProtectedRoute>
+                  }
+                />
+
                 {/* Admin routes - require admin role */}
                 <Route
                   path="/admin/users"
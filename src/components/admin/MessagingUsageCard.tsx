@@ -0,0 +1,119 @@
+/**
+ * MessagingUsageCard Component
+ * This month's SMS and email usage against the monthly limits
+ */
+
+import { useMessagingUsage } from '@/hooks/useProfile';
+import type { MessagingChannel, MessagingUsage } from '@/types/admin';
+import { Card, CardHeader } from '../common/Card';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MessagingUsageCardProps {
+  /** Additional class names */
+  className?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CHANNEL_LABELS: Record<MessagingChannel, { label: string; unit: string }> = {
+  sms: { label: 'SMS', unit: 'segments' },
+  email: { label: 'Email', unit: 'emails' },
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function formatPeriod(periodStart: string): string {
+  // periodStart is a calendar date; format it without shifting timezones
+  const [year, month] = periodStart.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function UsageRow({ usage }: { usage: MessagingUsage }) {
+  const { label, unit } = CHANNEL_LABELS[usage.channel];
+  const percent = usage.monthlyLimit
+    ? Math.min(100, Math.round((usage.unitsUsed / usage.monthlyLimit) * 100))
+    : 0;
+  const barColor =
+    percent >= 100 ? 'bg-[#d32f2f]' : percent >= 80 ? 'bg-[#ed6c02]' : 'bg-[#0353a4]';
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1">
+        <span className="text-sm font-medium text-gray-700">{label}</span>
+        <span className="text-sm text-gray-500">
+          {usage.monthlyLimit !== null
+            ? `${usage.unitsUsed.toLocaleString()} of ${usage.monthlyLimit.toLocaleString()} ${unit}`
+            : `${usage.unitsUsed.toLocaleString()} ${unit} (no limit)`}
+        </span>
+      </div>
+
+      {usage.monthlyLimit !== null && (
+        <div
+          className="h-2 bg-[#f5f5f5] rounded-full overflow-hidden"
+          role="progressbar"
+          aria-label={`${label} usage`}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+        >
+          <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }} />
+        </div>
+      )}
+
+      <p className="mt-1 text-xs text-gray-500">
+        {usage.messagesSent.toLocaleString()} {usage.messagesSent === 1 ? 'message' : 'messages'} sent
+        {usage.remaining !== null && ` · ${usage.remaining.toLocaleString()} ${unit} remaining`}
+      </p>
+    </div>
+  );
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function MessagingUsageCard({ className = '' }: MessagingUsageCardProps) {
+  const { data: usage, isLoading, error } = useMessagingUsage();
+
+  const period = usage?.[0]?.periodStart;
+
+  return (
+    <Card
+      className={className}
+      padding="lg"
+      header={
+        <CardHeader>
+          Messaging Usage{period ? ` · ${formatPeriod(period)}` : ''}
+        </CardHeader>
+      }
+    >
+      {isLoading ? (
+        <div className="text-center text-gray-500">Loading usage...</div>
+      ) : error ? (
+        <div className="text-sm text-[#d32f2f]">Failed to load messaging usage</div>
+      ) : (
+        <div className="space-y-4">
+          {(usage || []).map((channelUsage) => (
+            <UsageRow key={channelUsage.channel} usage={channelUsage} />
+          ))}
+          <p className="text-xs text-gray-500">
+            SMS are counted by segment. Sends are refused once a monthly limit is reached.
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export default MessagingUsageCard;
@@ -0,0 +1,143 @@
+/**
+ * RetentionReportsCard Component
+ * Latest data retention runs with what each removed, and a manual run
+ */
+
+import { useRetentionReports, useRunDataRetention } from '@/hooks/useProfile';
+import { RETENTION_REPORT_LABELS } from '@/types/admin';
+import type { RetentionReport, RetentionReportStatus } from '@/types/admin';
+import { Card, CardHeader } from '../common/Card';
+import { Button } from '../common/Button';
+import { Badge } from '../common/Badge';
+import type { BadgeVariant } from '../common/Badge';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RetentionReportsCardProps {
+  /** Additional class names */
+  className?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const STATUS_BADGES: Record<RetentionReportStatus, { variant: BadgeVariant; label: string }> = {
+  running: { variant: 'info', label: 'Running' },
+  completed: { variant: 'success', label: 'Completed' },
+  failed: { variant: 'danger', label: 'Failed' },
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function Counts({ counts }: { counts: Record<string, number> }) {
+  const entries = Object.entries(counts).filter(([, count]) => count > 0);
+
+  if (entries.length === 0) {
+    return <span className="text-gray-500">Nothing</span>;
+  }
+
+  return (
+    <ul className="space-y-0.5">
+      {entries.map(([key, count]) => (
+        <li key={key}>
+          {RETENTION_REPORT_LABELS[key] ?? key}: {count.toLocaleString()}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ReportRow({ report }: { report: RetentionReport }) {
+  const badge = STATUS_BADGES[report.status];
+
+  return (
+    <li className="py-3 text-sm">
+      <div className="flex items-center gap-2 mb-1">
+        <span className="font-medium text-gray-700">
+          {new Date(report.startedAt).toLocaleString()}
+        </span>
+        <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+        {report.triggerType === 'manual' && <Badge size="sm">Manual</Badge>}
+        {report.dataRetentionDays !== null && (
+          <span className="text-xs text-gray-500">
+            Data {report.dataRetentionDays} days · Audit {report.auditRetentionDays} days
+          </span>
+        )}
+      </div>
+
+      {report.errorMessage && (
+        <p className="text-[#d32f2f] mb-1">{report.errorMessage}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-4 text-gray-600">
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase">Removed</p>
+          <Counts counts={report.removed} />
+        </div>
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase">Kept for legal hold</p>
+          <Counts counts={report.held} />
+        </div>
+      </div>
+    </li>
+  );
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function RetentionReportsCard({ className = '' }: RetentionReportsCardProps) {
+  const { data: reports, isLoading, error } = useRetentionReports();
+  const runRetention = useRunDataRetention();
+
+  return (
+    <Card
+      className={className}
+      padding="lg"
+      header={
+        <CardHeader
+          actions={
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => runRetention.mutate()}
+              loading={runRetention.isPending}
+            >
+              Run now
+            </Button>
+          }
+        >
+          Data Retention Runs
+        </CardHeader>
+      }
+    >
+      {runRetention.error && (
+        <p className="mb-3 text-sm text-[#d32f2f]">{runRetention.error.message}</p>
+      )}
+
+      {isLoading ? (
+        <div className="text-center text-gray-500">Loading retention runs...</div>
+      ) : error ? (
+        <div className="text-sm text-[#d32f2f]">Failed to load retention runs</div>
+      ) : !reports?.length ? (
+        <p className="text-sm text-gray-500">
+          Retention has not run yet. It runs daily with the Data Retention settings.
+        </p>
+      ) : (
+        <ul className="divide-y divide-[#e0e0e0]">
+          {reports.map((report) => (
+            <ReportRow key={report.id} report={report} />
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
+
+export default RetentionReportsCard;
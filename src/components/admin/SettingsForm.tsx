@@ -7,15 +7,22 @@ import { useState, useEffect } from 'react';
 import { useForm, type Resolver } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import type { SettingsSection } from '@/types/admin';
-import { SETTINGS_SECTIONS } from '@/types/admin';
-import { useAppSettings, useUpdateAppSettings, useMessagingStatus } from '@/hooks/useProfile';
+import type { MessagingProvider, ProviderCheckResult, SettingsSection } from '@/types/admin';
+import { MASKED_SECRET, SETTINGS_SECTIONS } from '@/types/admin';
+import {
+  useAppSettings,
+  useUpdateAppSettings,
+  useMessagingStatus,
+  useVerifyProvider,
+  useSendProviderTest,
+} from '@/hooks/useProfile';
 import { Card, CardHeader } from '../common/Card';
 import { Button } from '../common/Button';
 import { Input } from '../common/Input';
 import { Textarea } from '../common/Textarea';
 import { Select } from '../common/Select';
 import { Badge } from '../common/Badge';
+import { Alert } from '../common/Alert';
 
 // =============================================================================
 // Types & Schema
@@ -26,6 +33,8 @@ interface SettingsFormData {
   companyName: string;
   companyAddress?: string | null;
   timezone: string;
+  quietHoursStart: string;
+  quietHoursEnd: string;
   twilioAccountSid?: string | null;
   twilioAuthToken?: string | null;
   twilioPhoneNumber?: string | null;
@@ -38,11 +47,16 @@ interface SettingsFormData {
   auditRetentionDays: number;
 }
 
+// HH:MM, as produced by <input type="time">
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
 const settingsSchema = z.object({
   // General
   companyName: z.string().min(1, 'Company name is required').max(100),
   companyAddress: z.string().max(500).optional().nullable(),
   timezone: z.string().min(1, 'Timezone is required'),
+  quietHoursStart: z.string().regex(TIME_PATTERN, 'Enter a time (HH:MM)'),
+  quietHoursEnd: z.string().regex(TIME_PATTERN, 'Enter a time (HH:MM)'),
   // Twilio
   twilioAccountSid: z.string().max(100).optional().nullable(),
   twilioAuthToken: z.string().max(100).optional().nullable(),
@@ -108,6 +122,97 @@ function NotConfiguredIcon() {
   );
 }
 
+// =============================================================================
+// Provider Check
+// =============================================================================
+
+interface ProviderCheckProps {
+  provider: MessagingProvider;
+  /** Unsaved changes; the checks use the saved credentials */
+  isDirty: boolean;
+}
+
+const TEST_RECIPIENT: Record<MessagingProvider, { label: string; type: string; placeholder: string }> = {
+  twilio: { label: 'Test phone number', type: 'tel', placeholder: '+15551234567' },
+  sendgrid: { label: 'Test email address', type: 'email', placeholder: 'you@yourcompany.com' },
+};
+
+/**
+ * Verify the saved credentials or send a test message, showing the
+ * provider's own error when it fails
+ */
+function ProviderCheck({ provider, isDirty }: ProviderCheckProps) {
+  const [to, setTo] = useState('');
+  const [result, setResult] = useState<ProviderCheckResult | null>(null);
+  const verifyProvider = useVerifyProvider();
+  const sendTest = useSendProviderTest();
+  const recipient = TEST_RECIPIENT[provider];
+  const isChecking = verifyProvider.isPending || sendTest.isPending;
+
+  const handleVerify = async () => {
+    setResult(null);
+    setResult(await verifyProvider.mutateAsync(provider));
+  };
+
+  const handleSendTest = async () => {
+    setResult(null);
+    setResult(await sendTest.mutateAsync({ provider, to: to.trim() }));
+  };
+
+  return (
+    <div className="pt-6 border-t border-[#e0e0e0] space-y-4">
+      <div className="flex items-end gap-3">
+        <div className="flex-1">
+          <label htmlFor={`${provider}TestRecipient`} className="block text-sm font-medium text-gray-700 mb-1">
+            {recipient.label}
+          </label>
+          <Input
+            id={`${provider}TestRecipient`}
+            type={recipient.type}
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            placeholder={recipient.placeholder}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleSendTest}
+          loading={sendTest.isPending}
+          disabled={isChecking || isDirty || !to.trim()}
+        >
+          Send test message
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={handleVerify}
+          loading={verifyProvider.isPending}
+          disabled={isChecking || isDirty}
+        >
+          Verify credentials
+        </Button>
+      </div>
+      <p className="text-sm text-gray-500">
+        {isDirty
+          ? 'Save your changes to check them.'
+          : 'Checks the saved credentials. Test messages count toward the monthly limit.'}
+      </p>
+
+      {result && (
+        <Alert
+          variant={result.success ? 'success' : 'danger'}
+          role={result.success ? 'status' : 'alert'}
+          dismissible
+          onDismiss={() => setResult(null)}
+        >
+          {result.message}
+        </Alert>
+      )}
+    </div>
+  );
+}
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -132,6 +237,8 @@ export function SettingsForm({
       companyName: '',
       companyAddress: '',
       timezone: 'America/New_York',
+      quietHoursStart: '21:00',
+      quietHoursEnd: '08:00',
       twilioAccountSid: '',
       twilioAuthToken: '',
       twilioPhoneNumber: '',
@@ -152,6 +259,8 @@ export function SettingsForm({
         companyName: settings.companyName || '',
         companyAddress: settings.companyAddress || '',
         timezone: settings.timezone || 'America/New_York',
+        quietHoursStart: settings.quietHoursStart?.slice(0, 5) || '21:00',
+        quietHoursEnd: settings.quietHoursEnd?.slice(0, 5) || '08:00',
         twilioAccountSid: settings.twilioAccountSid || '',
         twilioAuthToken: '', // Don't prefill masked value
         twilioPhoneNumber: settings.twilioPhoneNumber || '',
@@ -173,6 +282,8 @@ export function SettingsForm({
         companyName: data.companyName,
         companyAddress: data.companyAddress || null,
         timezone: data.timezone,
+        quietHoursStart: data.quietHoursStart,
+        quietHoursEnd: data.quietHoursEnd,
         monthlySmsLimit: data.monthlySmsLimit,
         monthlyEmailLimit: data.monthlyEmailLimit,
         dataRetentionDays: data.dataRetentionDays,
@@ -286,9 +397,38 @@ export function SettingsForm({
                     {...register('timezone')}
                   />
                   <p className="mt-1 text-sm text-gray-500">
-                    Used for TCPA quiet hours (8 AM - 9 PM)
+                    Used for sites without their own timezone
                   </p>
                 </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="quietHoursStart" className="block text-sm font-medium text-gray-700 mb-1">
+                      Quiet Hours Start
+                    </label>
+                    <Input
+                      id="quietHoursStart"
+                      type="time"
+                      {...register('quietHoursStart')}
+                      error={errors.quietHoursStart?.message}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="quietHoursEnd" className="block text-sm font-medium text-gray-700 mb-1">
+                      Quiet Hours End
+                    </label>
+                    <Input
+                      id="quietHoursEnd"
+                      type="time"
+                      {...register('quietHoursEnd')}
+                      error={errors.quietHoursEnd?.message}
+                    />
+                  </div>
+                </div>
+                <p className="-mt-2 text-sm text-gray-500">
+                  No SMS is sent in this window (recipient local time). Campaign messages are
+                  held until it ends. Sites can override these hours.
+                </p>
               </>
             )}
 
@@ -327,10 +467,10 @@ export function SettingsForm({
                     id="twilioAuthToken"
                     type="password"
                     {...register('twilioAuthToken')}
-                    placeholder={settings?.twilioAuthToken ? '••••••••' : 'Enter auth token'}
+                    placeholder={settings?.twilioAuthToken ? MASKED_SECRET : 'Enter auth token'}
                   />
                   <p className="mt-1 text-sm text-gray-500">
-                    Leave blank to keep existing token
+                    Stored encrypted. Leave blank to keep existing token
                   </p>
                 </div>
 
@@ -344,6 +484,8 @@ export function SettingsForm({
                     placeholder="+15551234567"
                   />
                 </div>
+
+                <ProviderCheck provider="twilio" isDirty={isDirty} />
               </>
             )}
 
@@ -371,10 +513,10 @@ export function SettingsForm({
                     id="sendgridApiKey"
                     type="password"
                     {...register('sendgridApiKey')}
-                    placeholder={settings?.sendgridApiKey ? '••••••••' : 'SG.xxxxxxxx'}
+                    placeholder={settings?.sendgridApiKey ? MASKED_SECRET : 'SG.xxxxxxxx'}
                   />
                   <p className="mt-1 text-sm text-gray-500">
-                    Leave blank to keep existing key
+                    Stored encrypted. Leave blank to keep existing key
                   </p>
                 </div>
 
@@ -401,6 +543,8 @@ export function SettingsForm({
                     placeholder="Your Company"
                   />
                 </div>
+
+                <ProviderCheck provider="sendgrid" isDirty={isDirty} />
               </>
             )}
 
@@ -418,7 +562,7 @@ export function SettingsForm({
                     error={errors.monthlySmsLimit?.message}
                   />
                   <p className="mt-1 text-sm text-gray-500">
-                    Maximum SMS messages per month (0 = unlimited)
+                    Maximum SMS segments per month; sending stops once reached (0 = unlimited)
                   </p>
                 </div>
 
@@ -433,7 +577,7 @@ export function SettingsForm({
                     error={errors.monthlyEmailLimit?.message}
                   />
                   <p className="mt-1 text-sm text-gray-500">
-                    Maximum emails per month (0 = unlimited)
+                    Maximum emails per month; sending stops once reached (0 = unlimited)
                   </p>
                 </div>
               </>
@@ -453,7 +597,8 @@ export function SettingsForm({
                     error={errors.dataRetentionDays?.message}
                   />
                   <p className="mt-1 text-sm text-gray-500">
-                    How long to keep campaign data (7-365 days)
+                    How long to keep message recipients, conversations, sync logs and import
+                    history (7-365 days). Members and campaigns on legal hold are kept.
                   </p>
                 </div>
 
@@ -468,7 +613,8 @@ export function SettingsForm({
                     error={errors.auditRetentionDays?.message}
                   />
                   <p className="mt-1 text-sm text-gray-500">
-                    How long to keep audit logs (7-2555 days for SOC 2 compliance)
+                    How long to keep audit logs (7-2555 days for SOC 2 compliance).
+                    Retention runs daily.
                   </p>
                 </div>
               </>
@@ -4,11 +4,11 @@
  */
 
 import { useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import type { UserRole } from '@/types/admin';
-import { ROLE_LABELS, ROLE_DESCRIPTIONS } from '@/types/admin';
+import type { UserRole, SiteGrantRole } from '@/types/admin';
+import { ROLE_LABELS, ROLE_DESCRIPTIONS, SITE_GRANT_ROLE_LABELS } from '@/types/admin';
 import {
   useProfile,
   useUpdateProfile,
@@ -16,11 +16,16 @@ import {
   useDeactivateUser,
   useReactivateUser,
   useCurrentProfile,
+  useOrganizations,
+  useUpdateUserOrganization,
+  useUserSiteGrants,
+  useSetUserSiteGrants,
 } from '@/hooks/useProfile';
 import { Card, CardHeader } from '../common/Card';
 import { Button } from '../common/Button';
 import { Input } from '../common/Input';
 import { Select } from '../common/Select';
+import { SiteSelector } from '../members/SiteSelector';
 import { RoleBadge } from './RoleBadge';
 
 // =============================================================================
@@ -46,6 +51,13 @@ const userFormSchema = z.object({
   displayName: z.string().min(1, 'Display name is required').max(100),
   phone: z.string().max(20).optional().nullable(),
   role: z.enum(['admin', 'user', 'viewer']),
+  organizationId: z.string(),
+  siteGrants: z.array(
+    z.object({
+      siteId: z.string().min(1, 'Select a site'),
+      role: z.enum(['user', 'viewer']),
+    })
+  ),
 });
 
 type UserFormData = z.infer<typeof userFormSchema>;
@@ -91,12 +103,18 @@ export function UserForm({
   const updateRole = useUpdateUserRole();
   const deactivateUser = useDeactivateUser();
   const reactivateUser = useReactivateUser();
+  const { data: organizations } = useOrganizations();
+  const updateOrganization = useUpdateUserOrganization();
+  const { data: siteGrants } = useUserSiteGrants(userId);
+  const setSiteGrants = useSetUserSiteGrants();
 
   const {
     register,
     handleSubmit,
     reset,
     watch,
+    setValue,
+    control,
     formState: { errors, isDirty, isSubmitting },
   } = useForm<UserFormData>({
     resolver: zodResolver(userFormSchema),
@@ -104,10 +122,19 @@ export function UserForm({
       displayName: '',
       phone: '',
       role: 'viewer',
+      organizationId: '',
+      siteGrants: [],
     },
   });
 
+  const {
+    fields: siteGrantFields,
+    append: appendSiteGrant,
+    remove: removeSiteGrant,
+  } = useFieldArray({ control, name: 'siteGrants' });
+
   const selectedRole = watch('role');
+  const selectedOrganizationId = watch('organizationId');
 
   // Populate form when user data loads
   useEffect(() => {
@@ -116,14 +143,25 @@ export function UserForm({
         displayName: user.displayName || '',
         phone: user.phone || '',
         role: user.role,
+        organizationId: user.organizationId ?? '',
+        siteGrants: (siteGrants ?? []).map((grant) => ({
+          siteId: grant.siteId,
+          role: grant.role,
+        })),
       });
     }
-  }, [user, reset]);
+  }, [user, siteGrants, reset]);
 
   // Check if current user can edit this user
   const isEditingSelf = currentUser?.id === userId;
   const canEditRole = currentUser?.role === 'admin' && !isEditingSelf;
   const canToggleStatus = currentUser?.role === 'admin' && !isEditingSelf;
+  // Admins are never limited, and grants can only name sites of the admin's
+  // own organization (the only sites they can see)
+  const canEditSiteGrants =
+    canEditRole &&
+    selectedRole !== 'admin' &&
+    selectedOrganizationId === currentUser?.organizationId;
 
   // Handle form submission
   const onSubmit = async (data: UserFormData) => {
@@ -145,6 +183,30 @@ export function UserForm({
         });
       }
 
+      // Move to another organization if changed and allowed
+      if (
+        canEditRole &&
+        user &&
+        data.organizationId &&
+        data.organizationId !== user.organizationId
+      ) {
+        await updateOrganization.mutateAsync({
+          userId,
+          organizationId: data.organizationId,
+        });
+      }
+
+      // Replace site grants after any organization move, which clears them
+      if (canEditSiteGrants) {
+        await setSiteGrants.mutateAsync({
+          userId,
+          grants: data.siteGrants.map((grant) => ({
+            siteId: grant.siteId,
+            role: grant.role as SiteGrantRole,
+          })),
+        });
+      }
+
       onSuccess?.();
     } catch (err) {
       console.error('Failed to update user:', err);
@@ -300,6 +362,109 @@ export function UserForm({
             )}
           </div>
 
+          {/* Organization */}
+          <div>
+            <label
+              htmlFor="organizationId"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Organization
+            </label>
+            {canEditRole ? (
+              <>
+                <Select
+                  id="organizationId"
+                  {...register('organizationId')}
+                  options={(organizations ?? []).map((organization) => ({
+                    value: organization.id,
+                    label: organization.name,
+                  }))}
+                  placeholder="Select an organization"
+                  hideLabel
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  Users work on their organization's sites, members and campaigns
+                </p>
+              </>
+            ) : (
+              <div className="py-2 text-sm">
+                <span className="font-medium">
+                  {organizations?.find((organization) => organization.id === user.organizationId)
+                    ?.name ?? 'None'}
+                </span>
+                <p className="mt-1 text-gray-500">
+                  {isEditingSelf
+                    ? 'You cannot change your own organization'
+                    : 'Only administrators can change organizations'}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Site Access */}
+          {canEditSiteGrants && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">
+                Site Access
+              </span>
+              <p className="text-sm text-gray-500 mb-3">
+                {siteGrantFields.length === 0
+                  ? "No site grants: this user works on all of the organization's sites."
+                  : 'This user works only on these sites and the sites below them.'}
+              </p>
+
+              <div className="space-y-2">
+                {siteGrantFields.map((field, index) => (
+                  <div key={field.id} className="flex items-start gap-2">
+                    <SiteSelector
+                      className="flex-1"
+                      size="sm"
+                      value={watch(`siteGrants.${index}.siteId`) || null}
+                      onChange={(siteId) =>
+                        setValue(`siteGrants.${index}.siteId`, siteId || '', { shouldDirty: true })
+                      }
+                      error={errors.siteGrants?.[index]?.siteId?.message}
+                    />
+                    <Select
+                      aria-label="Site role"
+                      size="sm"
+                      fullWidth={false}
+                      {...register(`siteGrants.${index}.role`)}
+                      options={(['user', 'viewer'] as SiteGrantRole[]).map((role) => ({
+                        value: role,
+                        label: SITE_GRANT_ROLE_LABELS[role],
+                      }))}
+                      hideLabel
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeSiteGrant(index)}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="mt-3"
+                onClick={() => appendSiteGrant({ siteId: '', role: 'user' })}
+              >
+                Add Site
+              </Button>
+              {setSiteGrants.error && (
+                <p className="mt-1.5 text-sm text-[#d32f2f]" role="alert">
+                  {setSiteGrants.error.message}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Account Info */}
           <div className="border-t border-[#e0e0e0] pt-6">
             <h3 className="text-sm font-medium text-gray-700 mb-4">
@@ -354,7 +519,13 @@ export function UserForm({
           <Button
             type="submit"
             variant="primary"
-            loading={isSubmitting || updateProfile.isPending || updateRole.isPending}
+            loading={
+              isSubmitting ||
+              updateProfile.isPending ||
+              updateRole.isPending ||
+              updateOrganization.isPending ||
+              setSiteGrants.isPending
+            }
             disabled={!isDirty}
             leftIcon={<CheckIcon />}
           >
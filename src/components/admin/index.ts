@@ -8,6 +8,8 @@ export { UserList } from './UserList';
 export { UserForm } from './UserForm';
 export { SettingsForm } from './SettingsForm';
 export { AuditLogViewer } from './AuditLogViewer';
+export { MessagingUsageCard } from './MessagingUsageCard';
+export { RetentionReportsCard } from './RetentionReportsCard';
 
 // Types
 export type { RoleBadgeProps } from './RoleBadge';
@@ -15,3 +17,5 @@ export type { UserListProps } from './UserList';
 export type { UserFormProps } from './UserForm';
 export type { SettingsFormProps } from './SettingsForm';
 export type { AuditLogViewerProps } from './AuditLogViewer';
+export type { MessagingUsageCardProps } from './MessagingUsageCard';
+export type { RetentionReportsCardProps } from './RetentionReportsCard';
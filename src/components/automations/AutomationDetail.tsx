@@ -0,0 +1,299 @@
+/**
+ * Automation Detail
+ * Automation settings, dry-run preview and execution log
+ */
+
+import { Card } from '../common/Card';
+import { Button } from '../common/Button';
+import { Badge } from '../common/Badge';
+import { Alert } from '../common/Alert';
+import { AutomationExecutionLog } from './AutomationExecutionLog';
+import {
+  useAutomation,
+  useUpdateAutomation,
+  useDeleteAutomation,
+  useAutomationDryRun,
+} from '@/services/automations';
+import {
+  TIME_BASED_TRIGGER_TYPES,
+  TRIGGER_TYPE_LABELS,
+  ACTION_TYPE_LABELS,
+  describeTrigger,
+  describeAction,
+} from '@/types/member';
+import type { AutomationTrigger, AutomationDryRunResult } from '@/types/member';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AutomationDetailProps {
+  triggerId: string;
+  onEdit?: (trigger: AutomationTrigger) => void;
+  onBack?: () => void;
+  onDeleted?: () => void;
+  className?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function AutomationDetail({
+  triggerId,
+  onEdit,
+  onBack,
+  onDeleted,
+  className = '',
+}: AutomationDetailProps) {
+  // Data fetching
+  const { data: trigger, isLoading, error } = useAutomation(triggerId);
+
+  // Mutations
+  const updateMutation = useUpdateAutomation();
+  const deleteMutation = useDeleteAutomation();
+  const dryRunMutation = useAutomationDryRun();
+
+  // Handlers
+  const handleToggleActive = async () => {
+    if (!trigger) return;
+    await updateMutation.mutateAsync({ id: triggerId, input: { isActive: !trigger.isActive } });
+  };
+
+  const handleDelete = async () => {
+    if (window.confirm('Delete this automation and its execution log?')) {
+      await deleteMutation.mutateAsync(triggerId);
+      onDeleted?.();
+    }
+  };
+
+  const handleDryRun = () => {
+    dryRunMutation.mutate(triggerId);
+  };
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/3" />
+          <div className="h-4 bg-gray-200 rounded w-1/2" />
+          <div className="h-32 bg-gray-200 rounded" />
+        </div>
+      </Card>
+    );
+  }
+
+  // Error state
+  if (error || !trigger) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="text-center py-8">
+          <p className="text-[#d32f2f]">Failed to load automation</p>
+          {onBack && (
+            <Button variant="outline" onClick={onBack} className="mt-4">
+              Go Back
+            </Button>
+          )}
+        </div>
+      </Card>
+    );
+  }
+
+  const isTimeBased = TIME_BASED_TRIGGER_TYPES.includes(trigger.triggerType);
+  const runDays =
+    trigger.daysOfWeek.length === 7
+      ? 'every day'
+      : trigger.daysOfWeek.map((day) => DAY_LABELS[day]).join(', ');
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {/* Header */}
+      <Card padding="lg">
+        <div className="flex items-start justify-between">
+          <div className="flex items-start gap-4">
+            {onBack && (
+              <Button variant="ghost" size="sm" onClick={onBack}>
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </Button>
+            )}
+            <div>
+              <div className="flex items-center gap-3">
+                <h1 className="text-2xl font-semibold text-[#003559]">{trigger.name}</h1>
+                <Badge variant={trigger.isActive ? 'success' : 'default'}>
+                  {trigger.isActive ? 'Active' : 'Paused'}
+                </Badge>
+              </div>
+              {trigger.description && (
+                <p className="text-gray-600 mt-2">{trigger.description}</p>
+              )}
+              <div className="flex items-center gap-4 mt-3 text-sm text-gray-500">
+                <span>Created {new Date(trigger.createdAt).toLocaleDateString()}</span>
+                {trigger.lastRunAt && (
+                  <span>Last run {new Date(trigger.lastRunAt).toLocaleString()}</span>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center gap-2">
+            {onEdit && (
+              <Button variant="outline" onClick={() => onEdit(trigger)}>
+                Edit
+              </Button>
+            )}
+            {isTimeBased && (
+              <Button variant="outline" onClick={handleDryRun} loading={dryRunMutation.isPending}>
+                Dry Run
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={handleToggleActive}
+              loading={updateMutation.isPending}
+            >
+              {trigger.isActive ? 'Pause' : 'Activate'}
+            </Button>
+            <Button variant="danger" onClick={handleDelete} loading={deleteMutation.isPending}>
+              Delete
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {/* Dry Run Results */}
+      {dryRunMutation.error && (
+        <Alert variant="danger">{dryRunMutation.error.message}</Alert>
+      )}
+      {dryRunMutation.data && <DryRunResults result={dryRunMutation.data} />}
+
+      {/* Automation Info */}
+      <Card padding="lg">
+        <h3 className="text-lg font-medium text-[#003559] mb-4">Automation Details</h3>
+        <dl className="grid grid-cols-2 gap-4">
+          <div>
+            <dt className="text-sm text-gray-500">Trigger</dt>
+            <dd className="text-sm font-medium">
+              {TRIGGER_TYPE_LABELS[trigger.triggerType]}:{' '}
+              {describeTrigger(trigger.triggerType, trigger.triggerConfig)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500">Action</dt>
+            <dd className="text-sm font-medium">
+              {ACTION_TYPE_LABELS[trigger.actionType]}:{' '}
+              {describeAction(trigger.actionType, trigger.actionConfig)}
+            </dd>
+          </div>
+          {isTimeBased && trigger.triggerType !== 'scheduled' && (
+            <div>
+              <dt className="text-sm text-gray-500">Schedule</dt>
+              <dd className="text-sm font-medium">
+                {trigger.runTime.slice(0, 5)} {trigger.timezone}, {runDays}
+              </dd>
+            </div>
+          )}
+          {isTimeBased && (
+            <div>
+              <dt className="text-sm text-gray-500">Next Run</dt>
+              <dd className="text-sm font-medium">
+                {trigger.isActive && trigger.nextRunAt
+                  ? new Date(trigger.nextRunAt).toLocaleString()
+                  : '-'}
+              </dd>
+            </div>
+          )}
+          <div>
+            <dt className="text-sm text-gray-500">Membership Status</dt>
+            <dd className="text-sm font-medium capitalize">
+              {trigger.membershipStatuses.join(', ') || 'Any'}
+            </dd>
+          </div>
+          {(trigger.requiredTags || trigger.excludedTags) && (
+            <div>
+              <dt className="text-sm text-gray-500">Tags</dt>
+              <dd className="text-sm font-medium">
+                {trigger.requiredTags && <div>Requires: {trigger.requiredTags.join(', ')}</div>}
+                {trigger.excludedTags && <div>Excludes: {trigger.excludedTags.join(', ')}</div>}
+              </dd>
+            </div>
+          )}
+          <div>
+            <dt className="text-sm text-gray-500">Limits</dt>
+            <dd className="text-sm font-medium">
+              {trigger.minIntervalDays > 0
+                ? `At most once every ${trigger.minIntervalDays} days`
+                : 'No minimum interval'}
+              {trigger.maxSendsPerMember !== null &&
+                `, ${trigger.maxSendsPerMember} per member in total`}
+            </dd>
+          </div>
+        </dl>
+      </Card>
+
+      {/* Execution Log */}
+      <AutomationExecutionLog triggerId={triggerId} />
+    </div>
+  );
+}
+
+// =============================================================================
+// Sub-components
+// =============================================================================
+
+function DryRunResults({ result }: { result: AutomationDryRunResult }) {
+  return (
+    <Card padding="none">
+      <div className="p-4 border-b border-[#e0e0e0]">
+        <h3 className="text-lg font-medium text-[#003559]">Dry Run</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          {result.totalTargeted === 0
+            ? 'No members would be targeted today.'
+            : `${result.totalTargeted.toLocaleString()} member${result.totalTargeted === 1 ? '' : 's'} would be targeted today. Nothing has been sent.`}
+          {result.members.length < result.totalTargeted &&
+            ` Showing the first ${result.members.length}.`}
+        </p>
+      </div>
+
+      {result.members.length > 0 && (
+        <ul className="divide-y divide-[#e0e0e0]">
+          {result.members.map((member) => {
+            const name = `${member.firstName || ''} ${member.lastName || ''}`.trim() || 'Unknown';
+            return (
+              <li key={member.memberId} className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <span className="text-sm font-medium text-gray-900">{name}</span>
+                    <span className="text-xs text-gray-500 ml-2">
+                      {member.email || member.phone}
+                    </span>
+                  </div>
+                  <span className="text-xs text-gray-500">{member.description}</span>
+                </div>
+                {member.subject && (
+                  <p className="text-sm font-medium text-gray-700 mt-2">{member.subject}</p>
+                )}
+                {member.body && (
+                  <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap bg-[#f5f5f5] rounded p-3">
+                    {member.body}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+}
+
+export default AutomationDetail;
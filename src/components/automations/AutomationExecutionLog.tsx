@@ -0,0 +1,164 @@
+/**
+ * Automation Execution Log
+ * Table of automation_executions for a trigger: who was targeted and the outcome
+ */
+
+import { useState } from 'react';
+import { Card } from '../common/Card';
+import { Select } from '../common/Select';
+import { Badge } from '../common/Badge';
+import type { BadgeVariant } from '../common/Badge';
+import { useAutomationExecutions } from '@/services/automations';
+import { AUTOMATION_EXECUTION_STATUS_LABELS } from '@/types/member';
+import type { AutomationExecutionStatus, AutomationExecutionWithMember } from '@/types/member';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AutomationExecutionLogProps {
+  triggerId: string;
+  className?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const STATUS_FILTER_OPTIONS = [
+  { value: '', label: 'All Statuses' },
+  ...(Object.keys(AUTOMATION_EXECUTION_STATUS_LABELS) as AutomationExecutionStatus[]).map(
+    (status) => ({ value: status, label: AUTOMATION_EXECUTION_STATUS_LABELS[status] })
+  ),
+];
+
+const STATUS_VARIANTS: Record<AutomationExecutionStatus, BadgeVariant> = {
+  pending: 'info',
+  sent: 'success',
+  delivered: 'success',
+  failed: 'danger',
+  skipped: 'warning',
+};
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function AutomationExecutionLog({ triggerId, className = '' }: AutomationExecutionLogProps) {
+  const [statusFilter, setStatusFilter] = useState<AutomationExecutionStatus | ''>('');
+
+  const { data: executions, isLoading, error } = useAutomationExecutions(triggerId, {
+    status: statusFilter || undefined,
+    limit: 100,
+  });
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="animate-pulse space-y-4">
+          <div className="h-10 bg-gray-200 rounded w-1/4" />
+          <div className="h-64 bg-gray-200 rounded" />
+        </div>
+      </Card>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="text-center py-8">
+          <p className="text-[#d32f2f]">Failed to load execution log</p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className={className} padding="none">
+      {/* Header with filter */}
+      <div className="p-4 border-b border-[#e0e0e0] flex items-center justify-between">
+        <h3 className="text-lg font-medium text-[#003559]">
+          Execution Log ({executions?.length || 0})
+        </h3>
+        <div className="w-48">
+          <Select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as AutomationExecutionStatus | '')}
+            options={STATUS_FILTER_OPTIONS}
+          />
+        </div>
+      </div>
+
+      {/* Table */}
+      {executions && executions.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-[#f5f5f5]">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Member
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Result
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Executed At
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[#e0e0e0]">
+              {executions.map((execution) => (
+                <ExecutionRow key={execution.id} execution={execution} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <p className="text-gray-500">No executions yet</p>
+          <p className="text-sm text-gray-400">
+            Runs will appear here once the automation targets members
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// =============================================================================
+// Sub-components
+// =============================================================================
+
+function ExecutionRow({ execution }: { execution: AutomationExecutionWithMember }) {
+  const memberName = execution.member
+    ? `${execution.member.firstName || ''} ${execution.member.lastName || ''}`.trim() || 'Unknown'
+    : 'Deleted member';
+  const contact = execution.member?.email || execution.member?.phone;
+
+  return (
+    <tr className="hover:bg-[#f5f5f5] transition-colors">
+      <td className="px-4 py-3 text-sm">
+        <div className="text-gray-900">{memberName}</div>
+        {contact && <div className="text-xs text-gray-500">{contact}</div>}
+      </td>
+      <td className="px-4 py-3">
+        <Badge variant={STATUS_VARIANTS[execution.status]}>
+          {AUTOMATION_EXECUTION_STATUS_LABELS[execution.status]}
+        </Badge>
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-500 max-w-md truncate" title={execution.resultMessage ?? undefined}>
+        {execution.resultMessage || '-'}
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-500">
+        {new Date(execution.executedAt).toLocaleString()}
+      </td>
+    </tr>
+  );
+}
+
+export default AutomationExecutionLog;
@@ -0,0 +1,969 @@
+/**
+ * Automation Form
+ * Create/edit an automation trigger with Zod validation. The flat form
+ * values are turned into the TriggerConfig / ActionConfig for the selected
+ * trigger and action type on submit.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Textarea } from '../common/Textarea';
+import { Select } from '../common/Select';
+import { Card } from '../common/Card';
+import { TemplateSelector } from '../campaigns/TemplateSelector';
+import { ContentEditor } from '../campaigns/ContentEditor';
+import { SiteSelector } from '../members/SiteSelector';
+import {
+  useAutomation,
+  useCreateAutomation,
+  useUpdateAutomation,
+} from '@/services/automations';
+import { findUnknownVariables } from '@/utils/templateEngine';
+import {
+  ACTION_TYPE_LABELS,
+  TIME_BASED_TRIGGER_TYPES,
+  TRIGGER_TYPE_LABELS,
+} from '@/types/member';
+import type {
+  ActionConfig,
+  ActionType,
+  AutomationTrigger,
+  MembershipStatus,
+  TriggerConfig,
+  TriggerType,
+} from '@/types/member';
+import type { CampaignTemplate } from '@/types/campaign';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AutomationFormProps {
+  triggerId?: string;
+  siteId?: string;
+  onSuccess?: (trigger: AutomationTrigger) => void;
+  onCancel?: () => void;
+  className?: string;
+}
+
+// =============================================================================
+// Validation Schema
+// =============================================================================
+
+const TRIGGER_TYPES = Object.keys(TRIGGER_TYPE_LABELS) as [TriggerType, ...TriggerType[]];
+const ACTION_TYPES = Object.keys(ACTION_TYPE_LABELS) as [ActionType, ...ActionType[]];
+
+const wholeNumber = (message: string) =>
+  z.number({ message }).int('Use a whole number').min(0, 'Cannot be negative');
+
+const automationSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(255, 'Name too long'),
+    description: z.string().max(500).optional().nullable(),
+    siteId: z.string().optional().nullable(),
+    isActive: z.boolean(),
+    // Trigger
+    triggerType: z.enum(TRIGGER_TYPES),
+    daysBefore: wholeNumber('Enter a number of days').max(365, 'Must be at most 365 days'),
+    days: wholeNumber('Enter a number of days').min(1, 'Must be at least 1 day'),
+    scheduledDate: z.string(),
+    scheduledTime: z.string(),
+    delayHours: wholeNumber('Enter a number of hours').max(720, 'Must be at most 720 hours'),
+    includeImported: z.boolean(),
+    toStatus: z.string(),
+    milestones: z.string(),
+    triggerTag: z.string().max(50),
+    // Schedule
+    runTime: z.string().min(1, 'Run time is required'),
+    timezone: z.string(),
+    daysOfWeek: z.array(z.number()),
+    // Action
+    actionType: z.enum(ACTION_TYPES),
+    templateId: z.string().optional().nullable(),
+    subject: z.string().max(255),
+    message: z.string(),
+    actionTag: z.string().max(50),
+    webhookUrl: z.string(),
+    webhookMethod: z.enum(['GET', 'POST', 'PUT']),
+    webhookHeaders: z.string(),
+    webhookBody: z.string(),
+    updateField: z.enum(['membershipStatus', 'membershipExpiryDate', 'custom']),
+    customFieldKey: z.string(),
+    fieldValue: z.string(),
+    // Audience and limits
+    membershipStatuses: z.array(z.string()),
+    requiredTags: z.string(),
+    excludedTags: z.string(),
+    minIntervalDays: wholeNumber('Enter a number of days'),
+    maxSendsPerMember: z.string().regex(/^\d*$/, 'Use a whole number'),
+  })
+  .superRefine((data, ctx) => {
+    const require = (condition: boolean, path: string, message: string) => {
+      if (!condition) ctx.addIssue({ code: 'custom', message, path: [path] });
+    };
+
+    // Trigger config
+    switch (data.triggerType) {
+      case 'scheduled':
+        require(!!data.scheduledDate, 'scheduledDate', 'Date is required');
+        require(!!data.scheduledTime, 'scheduledTime', 'Time is required');
+        break;
+      case 'visit_milestone':
+      case 'ltv_milestone':
+        require(
+          parseNumberList(data.milestones) !== null,
+          'milestones',
+          'Enter one or more positive numbers separated by commas'
+        );
+        break;
+      case 'tag_added':
+      case 'tag_removed':
+        require(!!data.triggerTag.trim(), 'triggerTag', 'Tag is required');
+        break;
+    }
+
+    if (isScheduled(data.triggerType) && data.triggerType !== 'scheduled') {
+      require(data.daysOfWeek.length > 0, 'daysOfWeek', 'Select at least one day');
+    }
+
+    // Action config
+    switch (data.actionType) {
+      case 'send_sms':
+      case 'send_email': {
+        if (data.actionType === 'send_email') {
+          require(!!data.subject.trim(), 'subject', 'Subject is required for emails');
+        }
+        require(!!data.message.trim(), 'message', 'Message content is required');
+        for (const field of ['message', 'subject'] as const) {
+          const unknown = findUnknownVariables(data[field]);
+          if (unknown.length > 0) {
+            ctx.addIssue({
+              code: 'custom',
+              message: `Unknown variable${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`,
+              path: [field],
+            });
+          }
+        }
+        break;
+      }
+      case 'add_tag':
+      case 'remove_tag':
+        require(!!data.actionTag.trim(), 'actionTag', 'Tag is required');
+        break;
+      case 'webhook':
+        require(/^https:\/\/\S+$/i.test(data.webhookUrl.trim()), 'webhookUrl', 'Enter an https:// URL');
+        require(parseHeaders(data.webhookHeaders) !== null, 'webhookHeaders', 'Use one "Name: value" per line');
+        require(parseJsonObject(data.webhookBody) !== null, 'webhookBody', 'Enter a JSON object');
+        break;
+      case 'update_field':
+        if (data.updateField === 'custom') {
+          require(!!data.customFieldKey.trim(), 'customFieldKey', 'Field name is required');
+        } else {
+          require(!!data.fieldValue.trim(), 'fieldValue', 'Value is required');
+        }
+        break;
+    }
+  });
+
+type AutomationFormData = z.infer<typeof automationSchema>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const TRIGGER_OPTIONS = TRIGGER_TYPES.map((type) => ({
+  value: type,
+  label: `${TRIGGER_TYPE_LABELS[type]}${isScheduled(type) ? '' : ' (event)'}`,
+}));
+
+const ACTION_OPTIONS = ACTION_TYPES.map((type) => ({
+  value: type,
+  label: ACTION_TYPE_LABELS[type],
+}));
+
+const US_TIMEZONES = [
+  { value: 'America/New_York', label: 'Eastern Time (ET)' },
+  { value: 'America/Chicago', label: 'Central Time (CT)' },
+  { value: 'America/Denver', label: 'Mountain Time (MT)' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time (PT)' },
+  { value: 'America/Anchorage', label: 'Alaska Time (AKT)' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii Time (HT)' },
+];
+
+// 0 = Sunday, matching days_of_week
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const STATUS_OPTIONS: Array<{ value: MembershipStatus; label: string }> = [
+  { value: 'active', label: 'Active' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'suspended', label: 'Suspended' },
+  { value: 'pending', label: 'Pending' },
+];
+
+const METHOD_OPTIONS = [
+  { value: 'POST', label: 'POST' },
+  { value: 'PUT', label: 'PUT' },
+  { value: 'GET', label: 'GET' },
+];
+
+const UPDATE_FIELD_OPTIONS = [
+  { value: 'membershipStatus', label: 'Membership status' },
+  { value: 'membershipExpiryDate', label: 'Membership expiry date' },
+  { value: 'custom', label: 'Custom field' },
+];
+
+const CUSTOM_FIELD_PREFIX = 'custom.';
+
+const DEFAULT_VALUES: AutomationFormData = {
+  name: '',
+  description: '',
+  siteId: null,
+  isActive: true,
+  triggerType: 'birthday',
+  daysBefore: 0,
+  days: 30,
+  scheduledDate: '',
+  scheduledTime: '09:00',
+  delayHours: 0,
+  includeImported: false,
+  toStatus: '',
+  milestones: '',
+  triggerTag: '',
+  runTime: '09:00',
+  timezone: 'America/New_York',
+  daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+  actionType: 'send_sms',
+  templateId: null,
+  subject: '',
+  message: '',
+  actionTag: '',
+  webhookUrl: '',
+  webhookMethod: 'POST',
+  webhookHeaders: '',
+  webhookBody: '',
+  updateField: 'membershipStatus',
+  customFieldKey: '',
+  fieldValue: '',
+  membershipStatuses: ['active'],
+  requiredTags: '',
+  excludedTags: '',
+  minIntervalDays: 0,
+  maxSendsPerMember: '',
+};
+
+// =============================================================================
+// Config Helpers
+// =============================================================================
+
+function isScheduled(type: TriggerType): boolean {
+  return TIME_BASED_TRIGGER_TYPES.includes(type);
+}
+
+/** "10, 25, 50" -> [10, 25, 50]; null if empty or invalid */
+function parseNumberList(value: string): number[] | null {
+  const parts = value.split(',').map((part) => part.trim()).filter(Boolean);
+  const numbers = parts.map(Number);
+  if (numbers.length === 0 || numbers.some((n) => !Number.isFinite(n) || n <= 0)) {
+    return null;
+  }
+  return [...new Set(numbers)].sort((a, b) => a - b);
+}
+
+/** One "Name: value" header per line; null if a line is malformed */
+function parseHeaders(value: string): Record<string, string> | null {
+  const headers: Record<string, string> = {};
+  for (const line of value.split('\n').map((l) => l.trim()).filter(Boolean)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return null;
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+/** JSON object text; empty is an empty object, null if invalid */
+function parseJsonObject(value: string): Record<string, unknown> | null {
+  if (!value.trim()) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseTags(value: string): string[] | null {
+  const tags = value.split(',').map((t) => t.trim()).filter(Boolean);
+  return tags.length > 0 ? tags : null;
+}
+
+function buildTriggerConfig(data: AutomationFormData): TriggerConfig {
+  switch (data.triggerType) {
+    case 'birthday':
+    case 'membership_anniversary':
+    case 'membership_expiring':
+      return { daysBefore: data.daysBefore };
+    case 'days_since_visit':
+    case 'days_since_transaction':
+      return { days: data.days };
+    case 'scheduled':
+      return { date: data.scheduledDate, time: data.scheduledTime };
+    case 'new_member':
+      return data.includeImported
+        ? { delayHours: data.delayHours, includeImported: true }
+        : { delayHours: data.delayHours };
+    case 'member_status_change':
+      return data.toStatus ? { toStatus: data.toStatus as MembershipStatus } : {};
+    case 'visit_milestone':
+      return { counts: parseNumberList(data.milestones) ?? [] };
+    case 'ltv_milestone':
+      return { amounts: parseNumberList(data.milestones) ?? [] };
+    case 'tag_added':
+    case 'tag_removed':
+      return { tag: data.triggerTag.trim() };
+  }
+}
+
+function buildActionConfig(data: AutomationFormData): ActionConfig {
+  switch (data.actionType) {
+    case 'send_sms':
+      return { templateId: data.templateId || undefined, message: data.message };
+    case 'send_email':
+      return {
+        templateId: data.templateId || undefined,
+        subject: data.subject,
+        body: data.message,
+      };
+    case 'add_tag':
+    case 'remove_tag':
+      return { tag: data.actionTag.trim() };
+    case 'webhook':
+      return {
+        url: data.webhookUrl.trim(),
+        method: data.webhookMethod,
+        headers: parseHeaders(data.webhookHeaders) ?? {},
+        body: parseJsonObject(data.webhookBody) ?? {},
+      };
+    case 'update_field':
+      return data.updateField === 'custom'
+        ? { field: `${CUSTOM_FIELD_PREFIX}${data.customFieldKey.trim()}`, value: data.fieldValue }
+        : { field: data.updateField, value: data.fieldValue };
+  }
+}
+
+/**
+ * Form values for an existing trigger (the reverse of the build functions)
+ */
+function formValuesFromTrigger(trigger: AutomationTrigger): AutomationFormData {
+  const tc = trigger.triggerConfig as Record<string, unknown>;
+  const ac = trigger.actionConfig as Record<string, unknown>;
+  const field = typeof ac.field === 'string' ? ac.field : '';
+  const isCustomField = field.startsWith(CUSTOM_FIELD_PREFIX);
+  const milestones = (tc.counts ?? tc.amounts) as number[] | undefined;
+
+  return {
+    ...DEFAULT_VALUES,
+    name: trigger.name,
+    description: trigger.description || '',
+    siteId: trigger.siteId,
+    isActive: trigger.isActive,
+    triggerType: trigger.triggerType,
+    daysBefore: Number(tc.daysBefore ?? DEFAULT_VALUES.daysBefore),
+    days: Number(tc.days ?? DEFAULT_VALUES.days),
+    scheduledDate: (tc.date as string) || '',
+    scheduledTime: (tc.time as string) || DEFAULT_VALUES.scheduledTime,
+    delayHours: Number(tc.delayHours ?? DEFAULT_VALUES.delayHours),
+    includeImported: tc.includeImported === true,
+    toStatus: (tc.toStatus as string) || '',
+    milestones: milestones?.join(', ') || '',
+    triggerTag: (tc.tag as string) || '',
+    runTime: trigger.runTime?.slice(0, 5) || DEFAULT_VALUES.runTime,
+    timezone: trigger.timezone || DEFAULT_VALUES.timezone,
+    daysOfWeek: trigger.daysOfWeek,
+    actionType: trigger.actionType,
+    templateId: (ac.templateId as string) || null,
+    subject: (ac.subject as string) || '',
+    message: ((trigger.actionType === 'send_sms' ? ac.message : ac.body) as string) || '',
+    actionTag: (ac.tag as string) || '',
+    webhookUrl: (ac.url as string) || '',
+    webhookMethod: (ac.method as AutomationFormData['webhookMethod']) || 'POST',
+    webhookHeaders: Object.entries((ac.headers as Record<string, string>) || {})
+      .map(([name, value]) => `${name}: ${value}`)
+      .join('\n'),
+    webhookBody:
+      ac.body && typeof ac.body === 'object' && Object.keys(ac.body).length > 0
+        ? JSON.stringify(ac.body, null, 2)
+        : '',
+    updateField: isCustomField
+      ? 'custom'
+      : field === 'membershipExpiryDate'
+        ? 'membershipExpiryDate'
+        : 'membershipStatus',
+    customFieldKey: isCustomField ? field.slice(CUSTOM_FIELD_PREFIX.length) : '',
+    fieldValue: ac.value === undefined || ac.value === null ? '' : String(ac.value),
+    membershipStatuses: trigger.membershipStatuses,
+    requiredTags: trigger.requiredTags?.join(', ') || '',
+    excludedTags: trigger.excludedTags?.join(', ') || '',
+    minIntervalDays: trigger.minIntervalDays,
+    maxSendsPerMember: trigger.maxSendsPerMember?.toString() ?? '',
+  };
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function AutomationForm({
+  triggerId,
+  siteId: defaultSiteId,
+  onSuccess,
+  onCancel,
+  className = '',
+}: AutomationFormProps) {
+  const isEdit = !!triggerId;
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Fetch existing trigger if editing
+  const { data: existingTrigger, isLoading: loadingTrigger } = useAutomation(triggerId || '');
+
+  // Mutations
+  const createMutation = useCreateAutomation();
+  const updateMutation = useUpdateAutomation();
+
+  // Form setup
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    getValues,
+    reset,
+    formState: { errors, isDirty, isSubmitting },
+  } = useForm<AutomationFormData>({
+    resolver: zodResolver(automationSchema),
+    defaultValues: { ...DEFAULT_VALUES, siteId: defaultSiteId || null },
+  });
+
+  const triggerType = watch('triggerType');
+  const actionType = watch('actionType');
+  const updateField = watch('updateField');
+  const daysOfWeek = watch('daysOfWeek');
+  const membershipStatuses = watch('membershipStatuses');
+  const isMessage = actionType === 'send_sms' || actionType === 'send_email';
+  const messageType = actionType === 'send_email' ? 'email' : 'sms';
+
+  // Populate form when editing
+  useEffect(() => {
+    if (existingTrigger && isEdit) {
+      reset(formValuesFromTrigger(existingTrigger));
+    }
+  }, [existingTrigger, isEdit, reset]);
+
+  // Handle template selection: copy its content into the message
+  const handleTemplateSelect = useCallback(
+    (templateId: string | null, template?: CampaignTemplate) => {
+      setValue('templateId', templateId, { shouldDirty: true });
+      if (template) {
+        setValue('message', template.content, { shouldDirty: true });
+        if (template.subject && actionType === 'send_email') {
+          setValue('subject', template.subject, { shouldDirty: true });
+        }
+      }
+    },
+    [setValue, actionType]
+  );
+
+  const toggleDay = useCallback(
+    (day: number, checked: boolean) => {
+      const current = getValues('daysOfWeek');
+      const next = checked ? [...current, day].sort((a, b) => a - b) : current.filter((d) => d !== day);
+      setValue('daysOfWeek', next, { shouldDirty: true, shouldValidate: true });
+    },
+    [getValues, setValue]
+  );
+
+  const toggleStatus = useCallback(
+    (status: string, checked: boolean) => {
+      const current = getValues('membershipStatuses');
+      const next = checked ? [...current, status] : current.filter((s) => s !== status);
+      setValue('membershipStatuses', next, { shouldDirty: true });
+    },
+    [getValues, setValue]
+  );
+
+  // Submit handler
+  const onSubmit = async (data: AutomationFormData) => {
+    setSubmitError(null);
+
+    const input = {
+      name: data.name,
+      description: data.description || null,
+      siteId: data.siteId || null,
+      triggerType: data.triggerType,
+      triggerConfig: buildTriggerConfig(data),
+      actionType: data.actionType,
+      actionConfig: buildActionConfig(data),
+      runTime: data.triggerType === 'scheduled' ? data.scheduledTime : data.runTime,
+      timezone: data.timezone,
+      daysOfWeek: data.daysOfWeek,
+      membershipStatuses: data.membershipStatuses as MembershipStatus[],
+      requiredTags: parseTags(data.requiredTags),
+      excludedTags: parseTags(data.excludedTags),
+      minIntervalDays: data.minIntervalDays,
+      maxSendsPerMember: data.maxSendsPerMember ? Number(data.maxSendsPerMember) : null,
+    };
+
+    try {
+      let result: AutomationTrigger;
+
+      if (isEdit && triggerId) {
+        result = await updateMutation.mutateAsync({
+          id: triggerId,
+          input: { ...input, isActive: data.isActive },
+        });
+      } else {
+        result = await createMutation.mutateAsync(input);
+        if (!data.isActive) {
+          result = await updateMutation.mutateAsync({ id: result.id, input: { isActive: false } });
+        }
+      }
+
+      onSuccess?.(result);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to save automation');
+    }
+  };
+
+  if (loadingTrigger && isEdit) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/3" />
+          <div className="h-10 bg-gray-200 rounded" />
+          <div className="h-10 bg-gray-200 rounded" />
+          <div className="h-32 bg-gray-200 rounded" />
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className={className} padding="lg">
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        {/* Error display */}
+        {submitError && (
+          <div
+            className="p-4 bg-[#d32f2f]/10 border border-[#d32f2f]/20 rounded-lg text-[#d32f2f] text-sm"
+            role="alert"
+          >
+            {submitError}
+          </div>
+        )}
+
+        {/* Basic Info Section */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-700 border-b border-[#e0e0e0] pb-2">
+            Basic Information
+          </h3>
+
+          <Input
+            label="Automation Name *"
+            {...register('name')}
+            placeholder="e.g., Birthday Greeting"
+            error={errors.name?.message}
+          />
+
+          <Textarea
+            label="Description"
+            {...register('description')}
+            placeholder="What this automation is for"
+            rows={2}
+            error={errors.description?.message}
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Site</label>
+            <SiteSelector
+              value={watch('siteId') || null}
+              onChange={(siteId) => setValue('siteId', siteId, { shouldDirty: true })}
+              placeholder="All sites"
+              showAllOption
+              minimumRole="user"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Leave empty to include members from all sites
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="isActive"
+              {...register('isActive')}
+              className="rounded border-[#e0e0e0] text-[#0353a4] focus:ring-[#0353a4]"
+            />
+            <label htmlFor="isActive" className="text-sm text-gray-700">
+              Active (runs automatically)
+            </label>
+          </div>
+        </div>
+
+        {/* Trigger Section */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-700 border-b border-[#e0e0e0] pb-2">
+            Trigger
+          </h3>
+
+          <Select
+            label="When"
+            {...register('triggerType')}
+            options={TRIGGER_OPTIONS}
+            error={errors.triggerType?.message}
+          />
+
+          {(triggerType === 'birthday' ||
+            triggerType === 'membership_anniversary' ||
+            triggerType === 'membership_expiring') && (
+            <div className="max-w-xs">
+              <Input
+                type="number"
+                label="Days before"
+                min={0}
+                {...register('daysBefore', { valueAsNumber: true })}
+                helperText={triggerType === 'membership_expiring' ? undefined : '0 = on the day'}
+                error={errors.daysBefore?.message}
+              />
+            </div>
+          )}
+
+          {(triggerType === 'days_since_visit' || triggerType === 'days_since_transaction') && (
+            <div className="max-w-xs">
+              <Input
+                type="number"
+                label="Days without activity"
+                min={1}
+                {...register('days', { valueAsNumber: true })}
+                helperText="Runs once per lapse, until the member is active again"
+                error={errors.days?.message}
+              />
+            </div>
+          )}
+
+          {triggerType === 'scheduled' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Input
+                type="date"
+                label="Date *"
+                {...register('scheduledDate')}
+                error={errors.scheduledDate?.message}
+              />
+              <Input
+                type="time"
+                label="Time *"
+                {...register('scheduledTime')}
+                error={errors.scheduledTime?.message}
+              />
+            </div>
+          )}
+
+          {triggerType === 'new_member' && (
+            <div className="max-w-xs">
+              <Input
+                type="number"
+                label="Delay (hours)"
+                min={0}
+                {...register('delayHours', { valueAsNumber: true })}
+                helperText="0 = as soon as the member is added"
+                error={errors.delayHours?.message}
+              />
+              <div className="flex items-center gap-2 mt-3">
+                <input
+                  type="checkbox"
+                  id="includeImported"
+                  {...register('includeImported')}
+                  className="rounded border-[#e0e0e0] text-[#0353a4] focus:ring-[#0353a4]"
+                />
+                <label htmlFor="includeImported" className="text-sm text-gray-700">
+                  Include members added by an import
+                </label>
+              </div>
+            </div>
+          )}
+
+          {triggerType === 'member_status_change' && (
+            <div className="max-w-xs">
+              <Select
+                label="New status"
+                {...register('toStatus')}
+                options={[{ value: '', label: 'Any change' }, ...STATUS_OPTIONS]}
+              />
+            </div>
+          )}
+
+          {(triggerType === 'visit_milestone' || triggerType === 'ltv_milestone') && (
+            <Input
+              label={triggerType === 'visit_milestone' ? 'Visit counts *' : 'Lifetime value amounts ($) *'}
+              {...register('milestones')}
+              placeholder={triggerType === 'visit_milestone' ? '10, 25, 50, 100' : '100, 500, 1000'}
+              helperText="Separate milestones with commas"
+              error={errors.milestones?.message}
+            />
+          )}
+
+          {(triggerType === 'tag_added' || triggerType === 'tag_removed') && (
+            <Input
+              label="Tag *"
+              {...register('triggerTag')}
+              placeholder="e.g., vip"
+              error={errors.triggerTag?.message}
+            />
+          )}
+
+          {!isScheduled(triggerType) && (
+            <p className="text-sm text-gray-500">
+              Event automations run when member data changes rather than on a schedule.
+            </p>
+          )}
+
+          {/* Schedule (time-based triggers) */}
+          {isScheduled(triggerType) && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {triggerType !== 'scheduled' && (
+                  <Input
+                    type="time"
+                    label="Run at"
+                    {...register('runTime')}
+                    error={errors.runTime?.message}
+                  />
+                )}
+                <Select label="Timezone" {...register('timezone')} options={US_TIMEZONES} />
+              </div>
+
+              {triggerType !== 'scheduled' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Run on
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {DAY_LABELS.map((label, day) => (
+                      <label
+                        key={label}
+                        className="flex items-center gap-1.5 px-3 py-1.5 border border-[#e0e0e0] rounded-full cursor-pointer hover:bg-[#f5f5f5] transition-colors"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={daysOfWeek.includes(day)}
+                          onChange={(e) => toggleDay(day, e.target.checked)}
+                          className="rounded border-[#e0e0e0] text-[#0353a4] focus:ring-[#0353a4]"
+                        />
+                        <span className="text-sm">{label}</span>
+                      </label>
+                    ))}
+                  </div>
+                  {errors.daysOfWeek?.message && (
+                    <p className="mt-1 text-sm text-[#d32f2f]">{errors.daysOfWeek.message}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Action Section */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-700 border-b border-[#e0e0e0] pb-2">
+            Action
+          </h3>
+
+          <Select
+            label="Then"
+            {...register('actionType')}
+            options={ACTION_OPTIONS}
+            error={errors.actionType?.message}
+          />
+
+          {isMessage && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Start from Template
+                </label>
+                <TemplateSelector
+                  value={watch('templateId') || null}
+                  onChange={handleTemplateSelect}
+                  type={messageType}
+                  placeholder="Select a template (optional)"
+                />
+              </div>
+
+              {actionType === 'send_email' && (
+                <Input
+                  label="Subject Line *"
+                  {...register('subject')}
+                  placeholder="Enter email subject"
+                  error={errors.subject?.message}
+                />
+              )}
+
+              <ContentEditor
+                value={watch('message')}
+                onChange={(value) => setValue('message', value, { shouldDirty: true })}
+                type={messageType}
+                error={errors.message?.message}
+              />
+            </>
+          )}
+
+          {(actionType === 'add_tag' || actionType === 'remove_tag') && (
+            <Input
+              label="Tag *"
+              {...register('actionTag')}
+              placeholder="e.g., at-risk"
+              error={errors.actionTag?.message}
+            />
+          )}
+
+          {actionType === 'webhook' && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                <div className="sm:col-span-3">
+                  <Input
+                    label="URL *"
+                    {...register('webhookUrl')}
+                    placeholder="https://example.com/hooks/members"
+                    error={errors.webhookUrl?.message}
+                  />
+                </div>
+                <Select label="Method" {...register('webhookMethod')} options={METHOD_OPTIONS} />
+              </div>
+              <Textarea
+                label="Headers"
+                {...register('webhookHeaders')}
+                placeholder="Authorization: Bearer ..."
+                rows={2}
+                helperText='One "Name: value" per line'
+                error={errors.webhookHeaders?.message}
+              />
+              <Textarea
+                label="Extra body fields (JSON)"
+                {...register('webhookBody')}
+                placeholder='{ "source": "gimbal" }'
+                rows={3}
+                helperText="The trigger and member details are always included"
+                error={errors.webhookBody?.message}
+              />
+            </>
+          )}
+
+          {actionType === 'update_field' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Select label="Field" {...register('updateField')} options={UPDATE_FIELD_OPTIONS} />
+              {updateField === 'custom' && (
+                <Input
+                  label="Field name *"
+                  {...register('customFieldKey')}
+                  placeholder="e.g., lastOffer"
+                  error={errors.customFieldKey?.message}
+                />
+              )}
+              {updateField === 'membershipStatus' ? (
+                <Select
+                  label="Value *"
+                  {...register('fieldValue')}
+                  options={STATUS_OPTIONS}
+                  placeholder="Select a status"
+                  error={errors.fieldValue?.message}
+                />
+              ) : (
+                <Input
+                  type={updateField === 'membershipExpiryDate' ? 'date' : 'text'}
+                  label={updateField === 'custom' ? 'Value' : 'Value *'}
+                  {...register('fieldValue')}
+                  error={errors.fieldValue?.message}
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Audience Section */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-700 border-b border-[#e0e0e0] pb-2">
+            Audience and Limits
+          </h3>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Membership Status
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {STATUS_OPTIONS.map((status) => (
+                <label
+                  key={status.value}
+                  className="flex items-center gap-1.5 px-3 py-1.5 border border-[#e0e0e0] rounded-full cursor-pointer hover:bg-[#f5f5f5] transition-colors"
+                >
+                  <input
+                    type="checkbox"
+                    checked={membershipStatuses.includes(status.value)}
+                    onChange={(e) => toggleStatus(status.value, e.target.checked)}
+                    className="rounded border-[#e0e0e0] text-[#0353a4] focus:ring-[#0353a4]"
+                  />
+                  <span className="text-sm">{status.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Input
+              label="Required tags"
+              {...register('requiredTags')}
+              placeholder="vip, newsletter"
+              helperText="Members must have all of these"
+            />
+            <Input
+              label="Excluded tags"
+              {...register('excludedTags')}
+              placeholder="do-not-market"
+              helperText="Members with any of these are skipped"
+            />
+            <Input
+              type="number"
+              label="Minimum days between runs per member"
+              min={0}
+              {...register('minIntervalDays', { valueAsNumber: true })}
+              error={errors.minIntervalDays?.message}
+            />
+            <Input
+              type="number"
+              label="Maximum runs per member"
+              min={1}
+              {...register('maxSendsPerMember')}
+              helperText="Leave empty for no limit"
+              error={errors.maxSendsPerMember?.message}
+            />
+          </div>
+        </div>
+
+        {/* Form Actions */}
+        <div className="flex justify-end gap-3 pt-4 border-t border-[#e0e0e0]">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" loading={isSubmitting} disabled={!isDirty && isEdit}>
+            {isEdit ? 'Save Changes' : 'Create Automation'}
+          </Button>
+        </div>
+      </form>
+    </Card>
+  );
+}
+
+export default AutomationForm;
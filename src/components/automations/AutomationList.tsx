@@ -0,0 +1,201 @@
+/**
+ * Automation List
+ * Table view of automation triggers with status and next run
+ */
+
+import { useMemo, useState, useCallback } from 'react';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Card } from '../common/Card';
+import { Badge } from '../common/Badge';
+import { Skeleton } from '../Skeleton';
+import { useAutomations } from '@/services/automations';
+import {
+  ACTION_TYPE_LABELS,
+  TRIGGER_TYPE_LABELS,
+  describeTrigger,
+} from '@/types/member';
+import type { AutomationTrigger } from '@/types/member';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AutomationListProps {
+  siteId?: string;
+  onSelect?: (triggerId: string) => void;
+  onCreate?: () => void;
+  className?: string;
+}
+
+// =============================================================================
+// Sub-components
+// =============================================================================
+
+interface AutomationRowProps {
+  trigger: AutomationTrigger;
+  onSelect?: (id: string) => void;
+}
+
+function AutomationRow({ trigger, onSelect }: AutomationRowProps) {
+  const handleClick = useCallback(() => {
+    onSelect?.(trigger.id);
+  }, [trigger.id, onSelect]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        onSelect?.(trigger.id);
+      }
+    },
+    [trigger.id, onSelect]
+  );
+
+  return (
+    <tr
+      className="hover:bg-[#f5f5f5] transition-colors cursor-pointer"
+      onClick={handleClick}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+    >
+      <td className="px-4 py-3">
+        <div className="font-medium text-[#003559]">{trigger.name}</div>
+        {trigger.description && (
+          <div className="text-xs text-gray-500 truncate max-w-xs">{trigger.description}</div>
+        )}
+      </td>
+      <td className="px-4 py-3 text-sm">
+        <div className="text-gray-700">{TRIGGER_TYPE_LABELS[trigger.triggerType]}</div>
+        <div className="text-xs text-gray-500">
+          {describeTrigger(trigger.triggerType, trigger.triggerConfig)}
+        </div>
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-700">
+        {ACTION_TYPE_LABELS[trigger.actionType]}
+      </td>
+      <td className="px-4 py-3">
+        <Badge variant={trigger.isActive ? 'success' : 'default'}>
+          {trigger.isActive ? 'Active' : 'Paused'}
+        </Badge>
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-500">
+        {trigger.isActive && trigger.nextRunAt
+          ? new Date(trigger.nextRunAt).toLocaleString()
+          : '—'}
+      </td>
+    </tr>
+  );
+}
+
+function TableSkeleton() {
+  return (
+    <tbody>
+      {[...Array(5)].map((_, i) => (
+        <tr key={i}>
+          <td className="px-4 py-3">
+            <Skeleton width={160} height={16} className="mb-1" />
+            <Skeleton width={100} height={12} />
+          </td>
+          <td className="px-4 py-3">
+            <Skeleton width={140} height={16} />
+          </td>
+          <td className="px-4 py-3">
+            <Skeleton width={80} height={16} />
+          </td>
+          <td className="px-4 py-3">
+            <Skeleton width={60} height={24} />
+          </td>
+          <td className="px-4 py-3">
+            <Skeleton width={120} height={16} />
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  );
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function AutomationList({ siteId, onSelect, onCreate, className = '' }: AutomationListProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const { data: triggers, isLoading, error, refetch } = useAutomations(siteId);
+
+  const displayedTriggers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return triggers || [];
+    return (triggers || []).filter((t) => t.name.toLowerCase().includes(term));
+  }, [triggers, searchTerm]);
+
+  // Error state
+  if (error) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="text-center py-8">
+          <p className="text-gray-600 mb-4">Failed to load automations</p>
+          <Button variant="outline" onClick={() => refetch()}>
+            Try Again
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className={className} padding="none">
+      {/* Header with search */}
+      <div className="p-4 border-b border-[#e0e0e0]">
+        <Input
+          type="search"
+          placeholder="Search automations..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full"
+        />
+      </div>
+
+      {/* Table */}
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-[#f5f5f5]">
+            <tr>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Automation</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Trigger</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Action</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Status</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Next Run</th>
+            </tr>
+          </thead>
+
+          {isLoading ? (
+            <TableSkeleton />
+          ) : displayedTriggers.length === 0 ? (
+            <tbody>
+              <tr>
+                <td colSpan={5} className="px-4 py-12 text-center">
+                  <p className="text-gray-500 mb-4">
+                    {searchTerm ? 'No automations match your search' : 'No automations yet'}
+                  </p>
+                  {onCreate && !searchTerm && (
+                    <Button onClick={onCreate}>Create Your First Automation</Button>
+                  )}
+                </td>
+              </tr>
+            </tbody>
+          ) : (
+            <tbody>
+              {displayedTriggers.map((trigger) => (
+                <AutomationRow key={trigger.id} trigger={trigger} onSelect={onSelect} />
+              ))}
+            </tbody>
+          )}
+        </table>
+      </div>
+    </Card>
+  );
+}
+
+export default AutomationList;
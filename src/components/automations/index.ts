@@ -0,0 +1,18 @@
+/**
+ * Automation Components
+ * Centralized exports for automation module components
+ */
+
+// Automation Views
+export { AutomationList } from './AutomationList';
+export { AutomationDetail } from './AutomationDetail';
+export { AutomationForm } from './AutomationForm';
+
+// Execution Tracking
+export { AutomationExecutionLog } from './AutomationExecutionLog';
+
+// Types re-export for convenience
+export type { AutomationListProps } from './AutomationList';
+export type { AutomationDetailProps } from './AutomationDetail';
+export type { AutomationFormProps } from './AutomationForm';
+export type { AutomationExecutionLogProps } from './AutomationExecutionLog';
@@ -7,12 +7,32 @@ import { useState } from 'react';
 import { Card } from '../common/Card';
 import { Button } from '../common/Button';
 import { Badge } from '../common/Badge';
+import { Alert } from '../common/Alert';
 import { CampaignStatusBadge } from './CampaignStatusBadge';
 import { CampaignTypeIcon } from './CampaignTypeIcon';
 import { CampaignMetrics } from './CampaignMetrics';
 import { MessageList } from './MessageList';
-import { useCampaign, useCampaignMetrics, useScheduleCampaign, useCancelCampaign } from '@/services/campaigns';
-import type { Campaign } from '@/types/campaign';
+import {
+  useCampaign,
+  useCampaignMetrics,
+  useCampaignDeferredStats,
+  useCampaignVariants,
+  useCampaignAcquisition,
+  useScheduleCampaign,
+  useCancelCampaign,
+  useResumeCampaign,
+  useFinalizeCampaign,
+  useSetCampaignLegalHold,
+} from '@/services/campaigns';
+import { useCurrentRole } from '@/hooks/useProfile';
+import { hasMinimumRole } from '@/types/admin';
+import type {
+  AbWinnerMetric,
+  Campaign,
+  CampaignAcquisition,
+  CampaignDeferredStats,
+  DeferredReason,
+} from '@/types/campaign';
 
 // =============================================================================
 // Types
@@ -27,6 +47,21 @@ export interface CampaignDetailProps {
 
 type Tab = 'overview' | 'messages' | 'content';
 
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFERRED_REASON_LABELS: Record<DeferredReason, string> = {
+  local_time: 'Waiting for recipient local send time',
+  quiet_hours: 'Held until quiet hours end',
+  ab_holdout: 'Waiting for the A/B test winner',
+};
+
+const WINNER_METRIC_LABELS: Record<AbWinnerMetric, string> = {
+  open_rate: 'open rate',
+  click_rate: 'click rate',
+};
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -43,14 +78,25 @@ export function CampaignDetail({
   // Data fetching
   const { data: campaign, isLoading, error } = useCampaign(campaignId);
   const { data: metrics } = useCampaignMetrics(campaignId);
+  const { data: deferredStats = [] } = useCampaignDeferredStats(
+    campaignId,
+    campaign?.status === 'sending'
+  );
+  const { data: variants = [] } = useCampaignVariants(campaignId);
+  const { data: acquisition } = useCampaignAcquisition(campaignId);
 
   // Mutations
   const scheduleMutation = useScheduleCampaign();
   const cancelMutation = useCancelCampaign();
+  const resumeMutation = useResumeCampaign();
+  const finalizeMutation = useFinalizeCampaign();
+  const legalHoldMutation = useSetCampaignLegalHold();
+  const { data: role } = useCurrentRole();
+  const isAdmin = !!role && hasMinimumRole(role, 'admin');
 
   // Handlers
-  const handleSchedule = async (scheduledAt: string) => {
-    await scheduleMutation.mutateAsync({ id: campaignId, scheduledAt });
+  const handleSchedule = async (scheduledAt: string, localSendTime: string | null) => {
+    await scheduleMutation.mutateAsync({ id: campaignId, scheduledAt, localSendTime });
     setShowScheduleModal(false);
   };
 
@@ -60,6 +106,21 @@ export function CampaignDetail({
     }
   };
 
+  const handleResume = async () => {
+    await resumeMutation.mutateAsync(campaignId);
+  };
+
+  const handleFinalize = async () => {
+    if (window.confirm('Finalize this campaign? Messages that have not been sent yet will be marked as failed.')) {
+      await finalizeMutation.mutateAsync(campaignId);
+    }
+  };
+
+  const handleToggleLegalHold = async () => {
+    if (!campaign) return;
+    await legalHoldMutation.mutateAsync({ id: campaignId, hold: !campaign.legalHold });
+  };
+
   const handleSendNow = async () => {
     if (window.confirm('Are you sure you want to send this campaign now?')) {
       await scheduleMutation.mutateAsync({ id: campaignId, scheduledAt: new Date().toISOString() });
@@ -99,6 +160,11 @@ export function CampaignDetail({
   const canSchedule = campaign.status === 'draft';
   const canCancel = campaign.status === 'scheduled';
   const canSendNow = campaign.status === 'draft';
+  const isSending = campaign.status === 'sending';
+  const failureReason =
+    campaign.status === 'failed' && typeof campaign.metadata?.failureReason === 'string'
+      ? campaign.metadata.failureReason
+      : null;
 
   return (
     <div className={`space-y-6 ${className}`}>
@@ -118,6 +184,7 @@ export function CampaignDetail({
                 <CampaignTypeIcon type={campaign.campaignType} size="lg" />
                 <h1 className="text-2xl font-semibold text-[#003559]">{campaign.name}</h1>
                 <CampaignStatusBadge status={campaign.status} />
+                {campaign.legalHold && <Badge variant="info">Legal hold</Badge>}
               </div>
               {campaign.description && (
                 <p className="text-gray-600 mt-2">{campaign.description}</p>
@@ -151,13 +218,36 @@ export function CampaignDetail({
                 Send Now
               </Button>
             )}
+            {isSending && (
+              <Button variant="outline" onClick={handleResume} loading={resumeMutation.isPending}>
+                Resume Sending
+              </Button>
+            )}
+            {isSending && (
+              <Button variant="danger" onClick={handleFinalize} loading={finalizeMutation.isPending}>
+                Finalize
+              </Button>
+            )}
             {canCancel && (
               <Button variant="danger" onClick={handleCancel} loading={cancelMutation.isPending}>
                 Cancel Campaign
               </Button>
             )}
+            {isAdmin && (
+              <Button
+                variant="ghost"
+                onClick={handleToggleLegalHold}
+                loading={legalHoldMutation.isPending}
+                title="Messages of campaigns on legal hold are kept when data retention runs"
+              >
+                {campaign.legalHold ? 'Release Legal Hold' : 'Place Legal Hold'}
+              </Button>
+            )}
           </div>
         </div>
+        {legalHoldMutation.error && (
+          <p className="text-sm text-[#d32f2f] mt-3">{legalHoldMutation.error.message}</p>
+        )}
       </Card>
 
       {/* Tabs */}
@@ -182,9 +272,21 @@ export function CampaignDetail({
       {/* Tab Content */}
       {activeTab === 'overview' && (
         <div className="space-y-6">
+          {failureReason && <Alert variant="danger">{failureReason}</Alert>}
+
           {/* Metrics */}
           {metrics && <CampaignMetrics metrics={metrics} campaignType={campaign.campaignType} />}
 
+          {/* Deferred Messages */}
+          {isSending && deferredStats.length > 0 && (
+            <DeferredMessages stats={deferredStats} />
+          )}
+
+          {/* Acquisition */}
+          {acquisition && (acquisition.membersAcquired > 0 || acquisition.promoCodeCount > 0) && (
+            <AcquisitionSummary acquisition={acquisition} />
+          )}
+
           {/* Campaign Info */}
           <Card padding="lg">
             <h3 className="text-lg font-medium text-[#003559] mb-4">Campaign Details</h3>
@@ -207,6 +309,24 @@ export function CampaignDetail({
                   <dd className="text-sm font-medium">{campaign.subject}</dd>
                 </div>
               )}
+              {campaign.localSendTime && (
+                <div>
+                  <dt className="text-sm text-gray-500">Delivery Time</dt>
+                  <dd className="text-sm font-medium">
+                    {campaign.localSendTime.slice(0, 5)} recipient local time
+                  </dd>
+                </div>
+              )}
+              {campaign.abTestPercent !== null && (
+                <div>
+                  <dt className="text-sm text-gray-500">A/B Test</dt>
+                  <dd className="text-sm font-medium">
+                    {campaign.abTestPercent}% test group, best{' '}
+                    {WINNER_METRIC_LABELS[campaign.abWinnerMetric]} after{' '}
+                    {campaign.abWinnerDelayHours}h
+                  </dd>
+                </div>
+              )}
               <div>
                 <dt className="text-sm text-gray-500">Total Recipients</dt>
                 <dd className="text-sm font-medium">{campaign.totalRecipients.toLocaleString()}</dd>
@@ -241,6 +361,13 @@ export function CampaignDetail({
                   completed
                 />
               )}
+              {campaign.abWinnerSelectedAt && (
+                <TimelineItem
+                  label="A/B Winner Selected"
+                  date={campaign.abWinnerSelectedAt}
+                  completed
+                />
+              )}
               {campaign.completedAt && (
                 <TimelineItem
                   label="Completed"
@@ -257,7 +384,7 @@ export function CampaignDetail({
         <MessageList campaignId={campaignId} />
       )}
 
-      {activeTab === 'content' && (
+      {activeTab === 'content' && variants.length === 0 && (
         <Card padding="lg">
           <h3 className="text-lg font-medium text-[#003559] mb-4">Message Content</h3>
           {campaign.campaignType === 'email' && campaign.subject && (
@@ -275,12 +402,36 @@ export function CampaignDetail({
         </Card>
       )}
 
+      {activeTab === 'content' &&
+        variants.map((variant) => (
+          <Card key={variant.id} padding="lg">
+            <div className="flex items-center gap-2 mb-4">
+              <h3 className="text-lg font-medium text-[#003559]">Variant {variant.label}</h3>
+              <Badge variant="default">{variant.splitPercent}%</Badge>
+              {variant.id === campaign.abWinnerVariantId && <Badge variant="success">Winner</Badge>}
+            </div>
+            {campaign.campaignType === 'email' && variant.subject && (
+              <div className="mb-4">
+                <label className="text-sm text-gray-500">Subject</label>
+                <p className="text-sm font-medium">{variant.subject}</p>
+              </div>
+            )}
+            <div>
+              <label className="text-sm text-gray-500">Body</label>
+              <div className="mt-2 p-4 bg-[#f5f5f5] rounded-lg font-mono text-sm whitespace-pre-wrap">
+                {variant.content}
+              </div>
+            </div>
+          </Card>
+        ))}
+
       {/* Schedule Modal */}
       {showScheduleModal && (
         <ScheduleModal
           onSchedule={handleSchedule}
           onClose={() => setShowScheduleModal(false)}
           loading={scheduleMutation.isPending}
+          campaignType={campaign.campaignType}
         />
       )}
     </div>
@@ -317,21 +468,86 @@ function TimelineItem({
   );
 }
 
+function DeferredMessages({ stats }: { stats: CampaignDeferredStats[] }) {
+  const formatTime = (date: string) =>
+    new Date(date).toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <Card padding="lg">
+      <h3 className="text-lg font-medium text-[#003559] mb-4">Deferred Messages</h3>
+      <div className="space-y-3">
+        {stats.map((row) => (
+          <div key={row.reason} className="flex items-center justify-between">
+            <div>
+              <span className="text-sm font-medium">
+                {row.messageCount.toLocaleString()} message{row.messageCount === 1 ? '' : 's'}
+              </span>
+              <span className="text-sm text-gray-500"> · {DEFERRED_REASON_LABELS[row.reason]}</span>
+            </div>
+            <span className="text-sm text-gray-500">
+              {row.nextSendAt === row.lastSendAt
+                ? formatTime(row.nextSendAt)
+                : `${formatTime(row.nextSendAt)} – ${formatTime(row.lastSendAt)}`}
+            </span>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
+function AcquisitionSummary({ acquisition }: { acquisition: CampaignAcquisition }) {
+  return (
+    <Card padding="lg">
+      <h3 className="text-lg font-medium text-[#003559] mb-4">Acquisition</h3>
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <dt className="text-sm text-gray-500">Members Acquired</dt>
+          <dd className="text-sm font-medium">{acquisition.membersAcquired.toLocaleString()}</dd>
+        </div>
+        <div>
+          <dt className="text-sm text-gray-500">Acquisition Cost</dt>
+          <dd className="text-sm font-medium">${acquisition.totalAcquisitionCost.toFixed(2)}</dd>
+        </div>
+        <div>
+          <dt className="text-sm text-gray-500">Average CAC</dt>
+          <dd className="text-sm font-medium">${acquisition.avgCac.toFixed(2)}</dd>
+        </div>
+        <div>
+          <dt className="text-sm text-gray-500">Promo Codes</dt>
+          <dd className="text-sm font-medium">
+            {acquisition.promoCodeCount.toLocaleString()} codes,{' '}
+            {acquisition.promoCodeUses.toLocaleString()} uses
+          </dd>
+        </div>
+      </dl>
+    </Card>
+  );
+}
+
 function ScheduleModal({
   onSchedule,
   onClose,
   loading,
+  campaignType,
 }: {
-  onSchedule: (scheduledAt: string) => void;
+  onSchedule: (scheduledAt: string, localSendTime: string | null) => void;
   onClose: () => void;
   loading: boolean;
+  campaignType: Campaign['campaignType'];
 }) {
   const [dateTime, setDateTime] = useState('');
+  const [localSendTime, setLocalSendTime] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (dateTime) {
-      onSchedule(new Date(dateTime).toISOString());
+      onSchedule(new Date(dateTime).toISOString(), localSendTime || null);
     }
   };
 
@@ -356,8 +572,22 @@ function ScheduleModal({
               className="w-full px-3 py-2 border border-[#e0e0e0] rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0353a4]"
               required
             />
+          </div>
+          <div className="mb-4">
+            <label htmlFor="schedule-local-time" className="block text-sm font-medium text-gray-700 mb-1">
+              Recipient Local Time (optional)
+            </label>
+            <input
+              type="time"
+              id="schedule-local-time"
+              value={localSendTime}
+              onChange={(e) => setLocalSendTime(e.target.value)}
+              className="w-full px-3 py-2 border border-[#e0e0e0] rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0353a4]"
+            />
             <p className="text-xs text-gray-500 mt-1">
-              Note: SMS campaigns will respect quiet hours (8 AM - 9 PM recipient timezone)
+              Deliver at this time in each recipient's site timezone, starting from the send date.
+              {campaignType === 'sms' &&
+                ' SMS messages that fall in quiet hours are held until quiet hours end.'}
             </p>
           </div>
           <div className="flex justify-end gap-3">
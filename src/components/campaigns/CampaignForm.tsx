@@ -3,8 +3,8 @@
  * Create/edit campaign with Zod validation
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { useForm } from 'react-hook-form';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Button } from '../common/Button';
@@ -12,11 +12,27 @@ import { Input } from '../common/Input';
 import { Textarea } from '../common/Textarea';
 import { Select } from '../common/Select';
 import { Card } from '../common/Card';
+import { Alert } from '../common/Alert';
 import { TemplateSelector } from './TemplateSelector';
 import { ContentEditor } from './ContentEditor';
 import { SiteSelector } from '../members/SiteSelector';
-import { useCreateCampaign, useUpdateCampaign, useCampaign } from '@/services/campaigns';
-import type { Campaign, CampaignType, CampaignTemplate } from '@/types/campaign';
+import {
+  useCreateCampaign,
+  useUpdateCampaign,
+  useCampaign,
+  useCampaignVariants,
+  useCampaignAudienceSize,
+} from '@/services/campaigns';
+import { useCurrentRole, useMessagingUsage } from '@/hooks/useProfile';
+import { hasMinimumRole } from '@/types/admin';
+import { findUnknownVariables } from '@/utils/templateEngine';
+import { estimateCampaignUsage } from '@/utils/messagingUsage';
+import type {
+  Campaign,
+  CampaignType,
+  CampaignTemplate,
+  CampaignVariantInput,
+} from '@/types/campaign';
 
 // =============================================================================
 // Types
@@ -35,6 +51,11 @@ export interface CampaignFormProps {
 // Validation Schema
 // =============================================================================
 
+const percentField = z
+  .number({ message: 'Enter a percentage' })
+  .int('Use a whole number')
+  .min(1, 'Must be at least 1%');
+
 const campaignSchema = z
   .object({
     name: z.string().min(1, 'Name is required').max(255, 'Name too long'),
@@ -47,6 +68,25 @@ const campaignSchema = z
     scheduledAt: z.string().optional().nullable(),
     targetAllMembers: z.boolean(),
     membershipStatuses: z.array(z.string()),
+    // A/B testing: the main subject/content is variant A, these are B, C...
+    variantASplit: percentField.max(100),
+    variants: z.array(
+      z.object({
+        subject: z.string().max(255).optional().nullable(),
+        content: z.string().min(1, 'Variant content is required'),
+        splitPercent: percentField.max(100),
+      })
+    ),
+    abTestEnabled: z.boolean(),
+    abTestPercent: percentField.max(99, 'Must be less than 100%'),
+    abWinnerMetric: z.enum(['open_rate', 'click_rate']),
+    abWinnerDelayHours: z
+      .number({ message: 'Enter a number of hours' })
+      .int('Use whole hours')
+      .min(1, 'Must be at least 1 hour')
+      .max(168, 'Must be at most 168 hours (7 days)'),
+    // Admins only: send even if the campaign exceeds the monthly limit
+    allowOverLimit: z.boolean(),
   })
   .refine(
     (data) => {
@@ -60,7 +100,51 @@ const campaignSchema = z
       message: 'Subject is required for email campaigns',
       path: ['subject'],
     }
-  );
+  )
+  .superRefine((data, ctx) => {
+    for (const field of ['content', 'subject'] as const) {
+      const unknown = findUnknownVariables(data[field]);
+      if (unknown.length > 0) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Unknown variable${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`,
+          path: [field],
+        });
+      }
+    }
+
+    if (data.variants.length === 0) return;
+
+    const splitTotal = data.variants.reduce((sum, v) => sum + v.splitPercent, data.variantASplit);
+    if (splitTotal !== 100) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Variant splits must add up to 100% (currently ${splitTotal}%)`,
+        path: ['variantASplit'],
+      });
+    }
+
+    data.variants.forEach((variant, index) => {
+      if (data.campaignType === 'email' && !variant.subject) {
+        ctx.addIssue({
+          code: 'custom',
+          message: 'Subject is required for email campaigns',
+          path: ['variants', index, 'subject'],
+        });
+      }
+
+      for (const field of ['content', 'subject'] as const) {
+        const unknown = findUnknownVariables(variant[field]);
+        if (unknown.length > 0) {
+          ctx.addIssue({
+            code: 'custom',
+            message: `Unknown variable${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`,
+            path: ['variants', index, field],
+          });
+        }
+      }
+    });
+  });
 
 type CampaignFormData = z.infer<typeof campaignSchema>;
 
@@ -81,6 +165,28 @@ const STATUS_OPTIONS = [
   { value: 'pending', label: 'Pending' },
 ];
 
+// Variant A is the campaign's own content
+const VARIANT_LABELS = ['A', 'B', 'C', 'D', 'E'];
+
+const WINNER_METRIC_OPTIONS = [
+  { value: 'open_rate', label: 'Open rate' },
+  { value: 'click_rate', label: 'Click rate' },
+];
+
+// What the monthly limit counts, per channel
+const USAGE_UNITS: Record<CampaignType, string> = {
+  sms: 'SMS',
+  email: 'emails',
+};
+
+/**
+ * Even split across variants; variant A takes the remainder
+ */
+function evenSplits(count: number): number[] {
+  const share = Math.floor(100 / count);
+  return Array.from({ length: count }, (_, i) => (i === 0 ? 100 - share * (count - 1) : share));
+}
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -98,14 +204,22 @@ export function CampaignForm({
 
   // Fetch existing campaign if editing
   const { data: existingCampaign, isLoading: loadingCampaign } = useCampaign(campaignId || '');
+  const { data: existingVariants, isLoading: loadingVariants } = useCampaignVariants(
+    campaignId || ''
+  );
 
   // Mutations
   const createMutation = useCreateCampaign();
   const updateMutation = useUpdateCampaign();
 
+  const { data: role } = useCurrentRole();
+  const isAdmin = !!role && hasMinimumRole(role, 'admin');
+  const { data: messagingUsage } = useMessagingUsage();
+
   // Form setup
   const {
     register,
+    control,
     handleSubmit,
     watch,
     setValue,
@@ -124,16 +238,57 @@ export function CampaignForm({
       scheduledAt: null,
       targetAllMembers: false,
       membershipStatuses: ['active'],
+      variantASplit: 100,
+      variants: [],
+      abTestEnabled: false,
+      abTestPercent: 20,
+      abWinnerMetric: 'open_rate',
+      abWinnerDelayHours: 4,
+      allowOverLimit: false,
     },
   });
 
+  const {
+    fields: variantFields,
+    append: appendVariant,
+    remove: removeVariant,
+  } = useFieldArray({ control, name: 'variants' });
+
   // Watch campaign type for conditional rendering
   const watchedType = watch('campaignType');
   const watchedContent = watch('content');
+  const watchedVariants = watch('variants');
+  const watchedSiteId = watch('siteId');
+  const watchedTargetAll = watch('targetAllMembers');
+  const watchedStatuses = watch('membershipStatuses');
+
+  // Usage estimate against this month's remaining quota
+  const { data: audienceSize } = useCampaignAudienceSize({
+    campaignType: watchedType,
+    siteId: watchedSiteId || null,
+    targetAllMembers: watchedTargetAll,
+    membershipStatuses: watchedStatuses,
+    // Targeting the form does not edit yet
+    membershipLevelIds: existingCampaign?.membershipLevelIds ?? null,
+    requiredTags: existingCampaign?.requiredTags ?? null,
+    excludedTags: existingCampaign?.excludedTags ?? null,
+  });
+
+  const usageEstimate = useMemo(() => {
+    if (audienceSize === undefined || !messagingUsage) return null;
+
+    const usage = messagingUsage.find((u) => u.channel === watchedType);
+    return estimateCampaignUsage(
+      watchedType,
+      audienceSize,
+      [watchedContent, ...watchedVariants.map((v) => v.content)],
+      usage?.remaining ?? null
+    );
+  }, [audienceSize, messagingUsage, watchedType, watchedContent, watchedVariants]);
 
   // Populate form when editing
   useEffect(() => {
-    if (existingCampaign && isEdit) {
+    if (existingCampaign && existingVariants && isEdit) {
       reset({
         name: existingCampaign.name,
         description: existingCampaign.description || '',
@@ -145,9 +300,45 @@ export function CampaignForm({
         scheduledAt: existingCampaign.scheduledAt || null,
         targetAllMembers: existingCampaign.targetAllMembers,
         membershipStatuses: existingCampaign.membershipStatuses,
+        variantASplit: existingVariants[0]?.splitPercent ?? 100,
+        variants: existingVariants.slice(1).map((variant) => ({
+          subject: variant.subject || '',
+          content: variant.content,
+          splitPercent: variant.splitPercent,
+        })),
+        abTestEnabled: existingCampaign.abTestPercent !== null,
+        abTestPercent: existingCampaign.abTestPercent ?? 20,
+        abWinnerMetric: existingCampaign.abWinnerMetric,
+        abWinnerDelayHours: existingCampaign.abWinnerDelayHours,
+        allowOverLimit: existingCampaign.allowOverLimit,
       });
     }
-  }, [existingCampaign, isEdit, reset]);
+  }, [existingCampaign, existingVariants, isEdit, reset]);
+
+  // Add / remove variants, keeping the split even
+  const handleAddVariant = useCallback(() => {
+    const splits = evenSplits(variantFields.length + 2);
+    setValue('variantASplit', splits[0], { shouldDirty: true });
+    variantFields.forEach((_, index) => {
+      setValue(`variants.${index}.splitPercent`, splits[index + 1], { shouldDirty: true });
+    });
+    appendVariant({ subject: '', content: '', splitPercent: splits[splits.length - 1] });
+  }, [variantFields, setValue, appendVariant]);
+
+  const handleRemoveVariant = useCallback(
+    (index: number) => {
+      removeVariant(index);
+      const splits = evenSplits(variantFields.length);
+      setValue('variantASplit', splits[0], { shouldDirty: true });
+      splits.slice(1).forEach((split, i) => {
+        setValue(`variants.${i}.splitPercent`, split, { shouldDirty: true });
+      });
+      if (variantFields.length === 1) {
+        setValue('abTestEnabled', false, { shouldDirty: true });
+      }
+    },
+    [variantFields, setValue, removeVariant]
+  );
 
   // Handle template selection
   const handleTemplateSelect = useCallback(
@@ -175,6 +366,37 @@ export function CampaignForm({
   const onSubmit = async (data: CampaignFormData) => {
     setSubmitError(null);
 
+    const variants: CampaignVariantInput[] =
+      data.variants.length > 0
+        ? [
+            {
+              label: VARIANT_LABELS[0],
+              subject: data.subject || null,
+              content: data.content,
+              splitPercent: data.variantASplit,
+            },
+            ...data.variants.map((variant, index) => ({
+              label: VARIANT_LABELS[index + 1],
+              subject: variant.subject || null,
+              content: variant.content,
+              splitPercent: variant.splitPercent,
+            })),
+          ]
+        : [];
+
+    // Winner selection needs open/click tracking, which only email has
+    const abTestPercent =
+      variants.length > 0 && data.abTestEnabled && data.campaignType === 'email'
+        ? data.abTestPercent
+        : null;
+
+    const abTestInput = {
+      variants,
+      abTestPercent,
+      abWinnerMetric: data.abWinnerMetric,
+      abWinnerDelayHours: data.abWinnerDelayHours,
+    };
+
     try {
       let result: Campaign;
 
@@ -191,6 +413,8 @@ export function CampaignForm({
             scheduledAt: data.scheduledAt || null,
             targetAllMembers: data.targetAllMembers,
             membershipStatuses: data.membershipStatuses,
+            allowOverLimit: data.allowOverLimit,
+            ...abTestInput,
           },
         });
       } else {
@@ -205,6 +429,8 @@ export function CampaignForm({
           scheduledAt: data.scheduledAt || null,
           targetAllMembers: data.targetAllMembers,
           membershipStatuses: data.membershipStatuses,
+          allowOverLimit: data.allowOverLimit,
+          ...abTestInput,
         });
       }
 
@@ -214,7 +440,7 @@ export function CampaignForm({
     }
   };
 
-  if (loadingCampaign && isEdit) {
+  if ((loadingCampaign || loadingVariants) && isEdit) {
     return (
       <Card className={className} padding="lg">
         <div className="animate-pulse space-y-4">
@@ -310,6 +536,7 @@ export function CampaignForm({
               onChange={handleSiteChange}
               placeholder="All sites"
               showAllOption
+              minimumRole="user"
             />
             <p className="text-xs text-gray-500 mt-1">
               Leave empty to target members from all sites
@@ -360,6 +587,133 @@ export function CampaignForm({
           />
         </div>
 
+        {/* A/B Testing Section */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-700 border-b border-[#e0e0e0] pb-2">
+            A/B Testing
+          </h3>
+
+          {variantFields.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Add a variant to test different {watchedType === 'email' ? 'subjects or ' : ''}
+              content against the message above.
+            </p>
+          ) : (
+            <>
+              <div className="max-w-xs">
+                <Input
+                  type="number"
+                  label="Variant A split (%)"
+                  min={1}
+                  max={100}
+                  {...register('variantASplit', { valueAsNumber: true })}
+                  helperText="Variant A is the message content above"
+                  error={errors.variantASplit?.message}
+                />
+              </div>
+
+              {variantFields.map((field, index) => (
+                <div key={field.id} className="p-4 border border-[#e0e0e0] rounded-lg space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium text-[#003559]">
+                      Variant {VARIANT_LABELS[index + 1]}
+                    </h4>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveVariant(index)}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+
+                  {watchedType === 'email' && (
+                    <Input
+                      label="Subject Line *"
+                      {...register(`variants.${index}.subject`)}
+                      placeholder="Enter email subject"
+                      error={errors.variants?.[index]?.subject?.message}
+                    />
+                  )}
+
+                  <ContentEditor
+                    value={watch(`variants.${index}.content`)}
+                    onChange={(value) =>
+                      setValue(`variants.${index}.content`, value, { shouldDirty: true })
+                    }
+                    type={watchedType}
+                    error={errors.variants?.[index]?.content?.message}
+                  />
+
+                  <div className="max-w-xs">
+                    <Input
+                      type="number"
+                      label="Split (%)"
+                      min={1}
+                      max={100}
+                      {...register(`variants.${index}.splitPercent`, { valueAsNumber: true })}
+                      error={errors.variants?.[index]?.splitPercent?.message}
+                    />
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+
+          {variantFields.length < VARIANT_LABELS.length - 1 && (
+            <Button type="button" variant="outline" size="sm" onClick={handleAddVariant}>
+              Add Variant
+            </Button>
+          )}
+
+          {/* Test-then-send-winner mode (email only: needs open/click tracking) */}
+          {variantFields.length > 0 && watchedType === 'email' && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="abTestEnabled"
+                  {...register('abTestEnabled')}
+                  className="rounded border-[#e0e0e0] text-[#0353a4] focus:ring-[#0353a4]"
+                />
+                <label htmlFor="abTestEnabled" className="text-sm text-gray-700">
+                  Test on part of the audience, then send the winner to the rest
+                </label>
+              </div>
+
+              {watch('abTestEnabled') && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <Input
+                    type="number"
+                    label="Test group (%)"
+                    min={1}
+                    max={99}
+                    {...register('abTestPercent', { valueAsNumber: true })}
+                    helperText="Split across the variants above"
+                    error={errors.abTestPercent?.message}
+                  />
+                  <Select
+                    label="Pick winner by"
+                    {...register('abWinnerMetric')}
+                    options={WINNER_METRIC_OPTIONS}
+                    error={errors.abWinnerMetric?.message}
+                  />
+                  <Input
+                    type="number"
+                    label="Pick winner after (hours)"
+                    min={1}
+                    max={168}
+                    {...register('abWinnerDelayHours', { valueAsNumber: true })}
+                    error={errors.abWinnerDelayHours?.message}
+                    helperText="Counted from when the last test message is sent"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Targeting Section */}
         <div className="space-y-4">
           <h3 className="text-sm font-medium text-gray-700 border-b border-[#e0e0e0] pb-2">
@@ -417,6 +771,47 @@ export function CampaignForm({
               </div>
             </div>
           )}
+
+          {/* Usage estimate against the monthly limit */}
+          {usageEstimate && (
+            <Alert
+              variant={usageEstimate.exceedsLimit ? 'danger' : 'info'}
+              role={usageEstimate.exceedsLimit ? 'alert' : 'status'}
+            >
+              <p>
+                {usageEstimate.remaining !== null
+                  ? `This campaign uses ${usageEstimate.units.toLocaleString()} of your remaining ${usageEstimate.remaining.toLocaleString()} ${USAGE_UNITS[watchedType]} this month.`
+                  : `This campaign uses ${usageEstimate.units.toLocaleString()} ${USAGE_UNITS[watchedType]}; no monthly limit is set.`}
+                {watchedType === 'sms' && usageEstimate.unitsPerMessage > 1 && (
+                  <>
+                    {' '}
+                    ({usageEstimate.recipients.toLocaleString()} recipients ×{' '}
+                    {usageEstimate.unitsPerMessage} segments)
+                  </>
+                )}
+              </p>
+              {usageEstimate.exceedsLimit && !isAdmin && (
+                <p className="mt-1">
+                  It will be stopped when it starts unless an admin allows it to exceed the
+                  monthly limit.
+                </p>
+              )}
+            </Alert>
+          )}
+
+          {isAdmin && (usageEstimate?.exceedsLimit || watch('allowOverLimit')) && (
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="allowOverLimit"
+                {...register('allowOverLimit')}
+                className="rounded border-[#e0e0e0] text-[#0353a4] focus:ring-[#0353a4]"
+              />
+              <label htmlFor="allowOverLimit" className="text-sm text-gray-700">
+                Send even if it exceeds the monthly {USAGE_UNITS[watchedType]} limit
+              </label>
+            </div>
+          )}
         </div>
 
         {/* Form Actions */}
@@ -5,7 +5,12 @@
 
 import { useMemo } from 'react';
 import { Card } from '../common/Card';
-import type { CampaignMetrics as CampaignMetricsType, CampaignType } from '@/types/campaign';
+import { Badge } from '../common/Badge';
+import type {
+  CampaignMetrics as CampaignMetricsType,
+  CampaignType,
+  VariantMetrics,
+} from '@/types/campaign';
 
 // =============================================================================
 // Types
@@ -55,6 +60,63 @@ function MetricSkeleton() {
   );
 }
 
+interface VariantTableProps {
+  variants: VariantMetrics[];
+  campaignType: CampaignType;
+}
+
+function VariantTable({ variants, campaignType }: VariantTableProps) {
+  const isEmail = campaignType === 'email';
+  const headerClass = 'px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const cellClass = 'px-3 py-2 text-sm text-gray-900';
+
+  return (
+    <div className="overflow-x-auto border border-[#e0e0e0] rounded-lg">
+      <table className="w-full">
+        <thead className="bg-[#f5f5f5]">
+          <tr>
+            <th className={headerClass}>Variant</th>
+            <th className={headerClass}>Split</th>
+            <th className={headerClass}>Sent</th>
+            <th className={headerClass}>Delivered</th>
+            {isEmail && <th className={headerClass}>Open Rate</th>}
+            {isEmail && <th className={headerClass}>Click Rate</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-[#e0e0e0]">
+          {variants.map((variant) => (
+            <tr key={variant.variantId}>
+              <td className={cellClass}>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{variant.label}</span>
+                  {variant.isWinner && (
+                    <Badge variant="success" size="sm">
+                      Winner
+                    </Badge>
+                  )}
+                </div>
+                {variant.subject && (
+                  <p className="text-xs text-gray-500 truncate max-w-xs">{variant.subject}</p>
+                )}
+              </td>
+              <td className={cellClass}>{variant.splitPercent}%</td>
+              <td className={cellClass}>{variant.totalSent.toLocaleString()}</td>
+              <td className={cellClass}>
+                {variant.totalDelivered.toLocaleString()}
+                <span className="text-xs text-gray-500 ml-1">
+                  ({variant.deliveryRate.toFixed(1)}%)
+                </span>
+              </td>
+              {isEmail && <td className={cellClass}>{variant.openRate.toFixed(1)}%</td>}
+              {isEmail && <td className={cellClass}>{variant.clickRate.toFixed(1)}%</td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -165,6 +227,19 @@ export function CampaignMetrics({
         </>
       )}
 
+      {/* Variant breakdown */}
+      {metrics.variants.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-medium text-gray-500 mb-3">Variants</h4>
+          <VariantTable variants={metrics.variants} campaignType={campaignType} />
+          {campaignType === 'email' && (
+            <p className="text-xs text-gray-400 mt-2">
+              Variant open and click rates are per delivered message.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Progress bar */}
       {metrics.totalRecipients > 0 && (
         <div className="mt-6">
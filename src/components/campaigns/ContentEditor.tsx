@@ -9,6 +9,8 @@ import { Button } from '../common/Button';
 import { SmsCharacterCounter } from './SmsCharacterCounter';
 import { TEMPLATE_VARIABLES } from '@/types/campaign';
 import type { CampaignType, TemplateVariable } from '@/types/campaign';
+import { findUnknownVariables, renderTemplate } from '@/utils/templateEngine';
+import type { TemplateContext } from '@/utils/templateEngine';
 
 // =============================================================================
 // Types
@@ -25,6 +27,21 @@ export interface ContentEditorProps {
   rows?: number;
 }
 
+// =============================================================================
+// Constants
+// =============================================================================
+
+const SAMPLE_CONTEXT: TemplateContext = {
+  firstName: 'Jordan',
+  lastName: 'Smith',
+  email: 'jordan.smith@example.com',
+  phone: '+15555550123',
+  siteName: 'Downtown',
+  membershipLevel: 'Gold',
+  unsubscribeUrl: 'https://example.com/unsubscribe',
+  customFields: {},
+};
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -42,6 +59,9 @@ export function ContentEditor({
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [showVariables, setShowVariables] = useState(false);
 
+  const hasVariables = value.includes('{{');
+  const unknownVariables = hasVariables ? findUnknownVariables(value) : [];
+
   // Insert variable at cursor position
   const insertVariable = (variable: TemplateVariable) => {
     const textarea = textareaRef.current;
@@ -124,9 +144,26 @@ export function ContentEditor({
       )}
 
       {/* Variable reference */}
-      {value.includes('{{') && (
-        <div className="mt-2 text-xs text-gray-500">
-          Variables will be replaced with member data when the message is sent.
+      {hasVariables && (
+        <div className="mt-2 space-y-2">
+          {unknownVariables.length > 0 && (
+            <div className="text-xs text-[#d32f2f]" role="alert">
+              Unknown variable{unknownVariables.length === 1 ? '' : 's'}:{' '}
+              {unknownVariables.join(', ')}. The campaign cannot be sent until{' '}
+              {unknownVariables.length === 1 ? 'it is' : 'they are'} fixed.
+            </div>
+          )}
+          <div className="text-xs text-gray-500">
+            Variables will be replaced with member data when the message is sent. Add a
+            fallback for empty values with {'{{firstName|there}}'}, or use a member custom
+            field with {'{{custom.fieldName}}'}.
+          </div>
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">Preview (sample member)</div>
+            <div className="p-3 bg-[#f5f5f5] rounded-lg font-mono text-xs whitespace-pre-wrap break-words">
+              {renderTemplate(value, SAMPLE_CONTEXT, { escapeHtml: type === 'email' })}
+            </div>
+          </div>
         </div>
       )}
     </div>
@@ -168,6 +168,11 @@ function MessageRow({ message }: { message: CampaignMessageWithMember }) {
       </td>
       <td className="px-4 py-3">
         <MessageStatusBadge status={message.status} />
+        {message.status === 'queued' && message.nextAttemptAt && (
+          <div className="text-xs text-gray-400 mt-1" title={message.errorMessage ?? undefined}>
+            Attempt {message.attemptCount + 1} at {new Date(message.nextAttemptAt).toLocaleTimeString()}
+          </div>
+        )}
       </td>
       <td className="px-4 py-3 text-sm text-gray-500">
         {message.sentAt ? new Date(message.sentAt).toLocaleString() : '-'}
@@ -4,6 +4,14 @@
  */
 
 import { useMemo } from 'react';
+import {
+  calculateSegmentCount,
+  containsUnicode,
+  SMS_MULTIPART_SEGMENT_SIZE,
+  SMS_SEGMENT_SIZE,
+  SMS_UNICODE_MULTIPART_SEGMENT_SIZE,
+  SMS_UNICODE_SEGMENT_SIZE,
+} from '@/utils/messagingUsage';
 
 // =============================================================================
 // Types
@@ -14,44 +22,6 @@ export interface SmsCharacterCounterProps {
   className?: string;
 }
 
-// =============================================================================
-// Helpers
-// =============================================================================
-
-const GSM_SEGMENT_SIZE = 160;
-const GSM_MULTIPART_SEGMENT_SIZE = 153;
-const UNICODE_SEGMENT_SIZE = 70;
-const UNICODE_MULTIPART_SEGMENT_SIZE = 67;
-
-/**
- * Check if content contains non-GSM characters
- */
-function containsUnicode(text: string): boolean {
-  // Extended GSM 7-bit character set
-  const gsmRegex = /^[@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞ\x1B !"#¤%&'()*+,\-.\/0-9:;<=>?¡A-ZÄÖÑÜÿa-zäöñüà\^{}\[\]~|€]*$/;
-  return !gsmRegex.test(text);
-}
-
-/**
- * Calculate SMS segment count
- */
-function calculateSegments(text: string): { segments: number; isUnicode: boolean } {
-  if (!text) return { segments: 0, isUnicode: false };
-
-  const isUnicode = containsUnicode(text);
-  const singleLimit = isUnicode ? UNICODE_SEGMENT_SIZE : GSM_SEGMENT_SIZE;
-  const multiLimit = isUnicode ? UNICODE_MULTIPART_SEGMENT_SIZE : GSM_MULTIPART_SEGMENT_SIZE;
-
-  if (text.length <= singleLimit) {
-    return { segments: 1, isUnicode };
-  }
-
-  return {
-    segments: Math.ceil(text.length / multiLimit),
-    isUnicode,
-  };
-}
-
 // =============================================================================
 // Component
 // =============================================================================
@@ -59,11 +29,13 @@ function calculateSegments(text: string): { segments: number; isUnicode: boolean
 export function SmsCharacterCounter({ content, className = '' }: SmsCharacterCounterProps) {
   const { charCount, segments, isUnicode, remaining } = useMemo(() => {
     const count = content.length;
-    const { segments, isUnicode } = calculateSegments(content);
+    // Same segment math send-sms counts against the monthly limit
+    const segments = calculateSegmentCount(content);
+    const isUnicode = containsUnicode(content);
 
     // Calculate limit based on encoding
-    const singleLimit = isUnicode ? UNICODE_SEGMENT_SIZE : GSM_SEGMENT_SIZE;
-    const multiLimit = isUnicode ? UNICODE_MULTIPART_SEGMENT_SIZE : GSM_MULTIPART_SEGMENT_SIZE;
+    const singleLimit = isUnicode ? SMS_UNICODE_SEGMENT_SIZE : SMS_SEGMENT_SIZE;
+    const multiLimit = isUnicode ? SMS_UNICODE_MULTIPART_SEGMENT_SIZE : SMS_MULTIPART_SEGMENT_SIZE;
 
     // Remaining characters before hitting next segment
     const currentLimit = segments === 1 ? singleLimit : segments * multiLimit;
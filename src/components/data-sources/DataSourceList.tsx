@@ -0,0 +1,282 @@
+/**
+ * Data Source List
+ * Saved member import sources with schedule, sync status and controls
+ */
+
+import { useCallback, useState } from 'react';
+import { Button } from '../common/Button';
+import { Card } from '../common/Card';
+import { Badge } from '../common/Badge';
+import type { BadgeVariant } from '../common/Badge';
+import { Alert } from '../common/Alert';
+import { Skeleton } from '../Skeleton';
+import {
+  useMemberImportDataSources,
+  useToggleDataSource,
+  useDeleteDataSource,
+  useSyncDataSource,
+} from '@/services/members';
+import type { MemberImportDataSource, MemberImportSourceType } from '@/services/members';
+import type { SyncScheduleFrequency } from '@/types/dataImport';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DataSourceListProps {
+  /** Currently selected data source (its history is shown by the page) */
+  selectedId?: string | null;
+  onSelect?: (dataSource: MemberImportDataSource) => void;
+  onImport?: () => void;
+  onDeleted?: (id: string) => void;
+  className?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const SYNC_STATUS_BADGES: Record<
+  MemberImportDataSource['syncStatus'],
+  { label: string; variant: BadgeVariant }
+> = {
+  idle: { label: 'Idle', variant: 'default' },
+  syncing: { label: 'Syncing', variant: 'info' },
+  success: { label: 'Synced', variant: 'success' },
+  failed: { label: 'Failed', variant: 'danger' },
+};
+
+const SOURCE_TYPE_LABELS: Record<MemberImportSourceType, string> = {
+  csv_upload: 'CSV',
+  excel: 'Excel',
+  google_sheets: 'Google Sheets',
+};
+
+const FREQUENCY_LABELS: Record<SyncScheduleFrequency, string> = {
+  manual: 'Manual',
+  hourly: 'Hourly',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  cron: 'Custom',
+};
+
+// =============================================================================
+// Sub-components
+// =============================================================================
+
+function TableSkeleton() {
+  return (
+    <tbody>
+      {[...Array(3)].map((_, i) => (
+        <tr key={i}>
+          <td className="px-4 py-3">
+            <Skeleton width={180} height={16} className="mb-1" />
+            <Skeleton width={120} height={12} />
+          </td>
+          <td className="px-4 py-3">
+            <Skeleton width={100} height={16} />
+          </td>
+          <td className="px-4 py-3">
+            <Skeleton width={120} height={16} />
+          </td>
+          <td className="px-4 py-3">
+            <Skeleton width={60} height={24} />
+          </td>
+          <td className="px-4 py-3" />
+        </tr>
+      ))}
+    </tbody>
+  );
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function DataSourceList({
+  selectedId,
+  onSelect,
+  onImport,
+  onDeleted,
+  className = '',
+}: DataSourceListProps) {
+  const { data: dataSources, isLoading, error, refetch } = useMemberImportDataSources();
+  const toggleMutation = useToggleDataSource();
+  const deleteMutation = useDeleteDataSource();
+  const syncMutation = useSyncDataSource();
+  const [message, setMessage] = useState<{
+    variant: 'success' | 'danger';
+    text: string;
+  } | null>(null);
+
+  const handleSync = useCallback(
+    async (dataSource: MemberImportDataSource) => {
+      setMessage(null);
+      try {
+        const result = await syncMutation.mutateAsync(dataSource);
+        setMessage({
+          variant: 'success',
+          text:
+            `${dataSource.name}: ${result.imported} imported, ${result.updated} updated, ` +
+            `${result.skipped} skipped, ${result.failed} failed`,
+        });
+      } catch (err) {
+        setMessage({
+          variant: 'danger',
+          text: err instanceof Error ? err.message : 'Sync failed',
+        });
+      }
+    },
+    [syncMutation]
+  );
+
+  const handleDelete = useCallback(
+    async (dataSource: MemberImportDataSource) => {
+      if (!window.confirm(`Delete ${dataSource.name} and its sync history?`)) return;
+      setMessage(null);
+      try {
+        await deleteMutation.mutateAsync(dataSource.id);
+        onDeleted?.(dataSource.id);
+      } catch (err) {
+        setMessage({
+          variant: 'danger',
+          text: err instanceof Error ? err.message : 'Failed to delete data source',
+        });
+      }
+    },
+    [deleteMutation, onDeleted]
+  );
+
+  // Error state
+  if (error) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="text-center py-8">
+          <p className="text-gray-600 mb-4">Failed to load data sources</p>
+          <Button variant="outline" onClick={() => refetch()}>
+            Try Again
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {message && (
+        <Alert variant={message.variant} dismissible onDismiss={() => setMessage(null)}>
+          {message.text}
+        </Alert>
+      )}
+      <Card padding="none">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-[#f5f5f5]">
+              <tr>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Source</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Schedule</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Last Sync</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+
+            {isLoading ? (
+              <TableSkeleton />
+            ) : !dataSources || dataSources.length === 0 ? (
+              <tbody>
+                <tr>
+                  <td colSpan={5} className="px-4 py-12 text-center">
+                    <p className="text-gray-500 mb-1">No data sources yet</p>
+                    <p className="text-sm text-gray-400 mb-4">
+                      Imports with a recurring schedule are saved here
+                    </p>
+                    {onImport && <Button onClick={onImport}>Import Members</Button>}
+                  </td>
+                </tr>
+              </tbody>
+            ) : (
+              <tbody className="divide-y divide-[#e0e0e0]">
+                {dataSources.map((dataSource) => {
+                  const badge = SYNC_STATUS_BADGES[dataSource.syncStatus];
+                  return (
+                    <tr
+                      key={dataSource.id}
+                      className={`cursor-pointer transition-colors ${
+                        dataSource.id === selectedId ? 'bg-[#0353a4]/5' : 'hover:bg-[#f5f5f5]'
+                      }`}
+                      onClick={() => onSelect?.(dataSource)}
+                    >
+                      <td className="px-4 py-3">
+                        <div className="font-medium text-[#003559]">{dataSource.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {SOURCE_TYPE_LABELS[dataSource.type]} · {dataSource.config.filename}
+                          {dataSource.config.sheet?.sheetName && ` · ${dataSource.config.sheet.sheetName}`}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="text-gray-700">
+                          {FREQUENCY_LABELS[dataSource.syncSchedule]}
+                          {dataSource.scheduleConfig.time && ` at ${dataSource.scheduleConfig.time}`}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {dataSource.isActive && dataSource.nextSyncAt
+                            ? `Next ${new Date(dataSource.nextSyncAt).toLocaleString()}`
+                            : dataSource.isActive
+                              ? 'Not scheduled'
+                              : 'Paused'}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500">
+                        {dataSource.lastSyncAt ? new Date(dataSource.lastSyncAt).toLocaleString() : 'Never'}
+                      </td>
+                      <td className="px-4 py-3">
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </td>
+                      <td
+                        className="px-4 py-3 text-right whitespace-nowrap"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        {dataSource.type === 'google_sheets' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSync(dataSource)}
+                            disabled={syncMutation.isPending}
+                          >
+                            Sync Now
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            toggleMutation.mutate({ id: dataSource.id, isActive: !dataSource.isActive })
+                          }
+                          disabled={toggleMutation.isPending}
+                        >
+                          {dataSource.isActive ? 'Pause' : 'Resume'}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(dataSource)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          Delete
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            )}
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+export default DataSourceList;
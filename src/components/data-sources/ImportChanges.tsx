@@ -0,0 +1,138 @@
+/**
+ * Import Changes
+ * What an import run did to members: the ones it created and, for the ones
+ * it updated, each changed field before and after
+ */
+
+import { useState } from 'react';
+import { Badge } from '../common/Badge';
+import { useImportChanges } from '@/services/members';
+import type { MemberImportChange } from '@/types/member';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ImportChangesProps {
+  importId: string;
+  className?: string;
+}
+
+type Filter = 'all' | MemberImportChange['action'];
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function ImportChanges({ importId, className = '' }: ImportChangesProps) {
+  const [filter, setFilter] = useState<Filter>('all');
+  const { data: changes = [], isLoading, error } = useImportChanges(importId);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse space-y-3 ${className}`}>
+        <div className="h-8 bg-gray-200 rounded w-1/3" />
+        <div className="h-24 bg-gray-200 rounded" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className={`text-sm text-[#d32f2f] ${className}`}>Failed to load import changes</p>;
+  }
+
+  const created = changes.filter((change) => change.action === 'created').length;
+  const updated = changes.length - created;
+  const visible = filter === 'all' ? changes : changes.filter((change) => change.action === filter);
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex gap-2">
+        {([
+          ['all', `All (${changes.length})`],
+          ['created', `Created (${created})`],
+          ['updated', `Updated (${updated})`],
+        ] as Array<[Filter, string]>).map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setFilter(value)}
+            className={[
+              'px-3 py-1.5 rounded-full text-sm font-medium transition-colors border',
+              filter === value
+                ? 'bg-[#0353a4] text-white border-[#0353a4]'
+                : 'bg-white text-gray-600 border-[#e0e0e0] hover:border-[#0353a4]',
+            ].join(' ')}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500 py-6 text-center">
+          No member changes were recorded for this import
+        </p>
+      ) : (
+        <ul className="divide-y divide-[#e0e0e0] border border-[#e0e0e0] rounded-lg max-h-[60vh] overflow-y-auto">
+          {visible.map((change) => (
+            <ChangeItem key={change.memberId} change={change} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// Sub-components
+// =============================================================================
+
+function ChangeItem({ change }: { change: MemberImportChange }) {
+  return (
+    <li className="p-3">
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-[#003559]">{change.displayName}</span>
+        <Badge variant={change.action === 'created' ? 'success' : 'info'} size="sm">
+          {change.action === 'created' ? 'Created' : 'Updated'}
+        </Badge>
+        {!change.exists && (
+          <Badge variant="default" size="sm">
+            Deleted
+          </Badge>
+        )}
+      </div>
+
+      {change.action === 'updated' && change.fields.length > 0 && (
+        <table className="mt-2 w-full text-sm">
+          <tbody>
+            {change.fields.map((field) => (
+              <tr key={field.field}>
+                <td className="py-0.5 pr-4 text-gray-500 w-40">{field.field}</td>
+                <td className="py-0.5 pr-4 text-[#d32f2f] line-through">{formatValue(field.before)}</td>
+                <td className="py-0.5 text-[#2e7d32]">{formatValue(field.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {change.action === 'updated' && change.fields.length === 0 && change.exists && (
+        <p className="mt-1 text-xs text-gray-500">No field changes</p>
+      )}
+    </li>
+  );
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(empty)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export default ImportChanges;
@@ -0,0 +1,241 @@
+/**
+ * Import History
+ * Past import runs with their counts, a view of what each one changed
+ * and rollback
+ */
+
+import { useCallback, useState } from 'react';
+import { Button } from '../common/Button';
+import { Card } from '../common/Card';
+import { Badge } from '../common/Badge';
+import type { BadgeVariant } from '../common/Badge';
+import { Alert } from '../common/Alert';
+import { useImportRuns, useRollbackImport } from '@/services/members';
+import type { MemberImportRun, MemberImportStatus } from '@/types/member';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ImportHistoryProps {
+  /** Only show runs for this site */
+  siteId?: string;
+  /** Only show runs for this data source */
+  dataSourceId?: string;
+  /** Called to show what a run created and updated */
+  onViewChanges?: (run: MemberImportRun) => void;
+  className?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const STATUS_BADGES: Record<MemberImportStatus, { label: string; variant: BadgeVariant }> = {
+  running: { label: 'Running', variant: 'info' },
+  completed: { label: 'Completed', variant: 'success' },
+  failed: { label: 'Failed', variant: 'danger' },
+  rolled_back: { label: 'Rolled Back', variant: 'default' },
+};
+
+const KIND_LABELS: Record<MemberImportRun['kind'], string> = {
+  members: 'Members',
+  transactions: 'Transactions',
+  visits: 'Visits',
+};
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function ImportHistory({
+  siteId,
+  dataSourceId,
+  onViewChanges,
+  className = '',
+}: ImportHistoryProps) {
+  const [rollbackMessage, setRollbackMessage] = useState<{
+    variant: 'success' | 'danger';
+    text: string;
+  } | null>(null);
+
+  const { data: runs, isLoading, error, refetch } = useImportRuns({ siteId, dataSourceId });
+  const rollbackMutation = useRollbackImport();
+
+  const handleRollback = useCallback(
+    async (run: MemberImportRun) => {
+      const confirmed = window.confirm(
+        `Roll back ${run.filename || run.importId}? Members it created will be deleted ` +
+          'and members it updated restored to their previous values.'
+      );
+      if (!confirmed) return;
+
+      setRollbackMessage(null);
+      try {
+        const summary = await rollbackMutation.mutateAsync(run.importId);
+        setRollbackMessage({
+          variant: 'success',
+          text:
+            `Rolled back: ${summary.membersDeleted} members deleted, ` +
+            `${summary.membersRestored} restored` +
+            (summary.transactionsDeleted + summary.visitsDeleted > 0
+              ? `, ${summary.transactionsDeleted} transactions and ${summary.visitsDeleted} visits deleted`
+              : ''),
+        });
+      } catch (err) {
+        setRollbackMessage({
+          variant: 'danger',
+          text: err instanceof Error ? err.message : 'Failed to roll back import',
+        });
+      }
+    },
+    [rollbackMutation]
+  );
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-gray-200 rounded w-1/4" />
+          <div className="h-32 bg-gray-200 rounded" />
+        </div>
+      </Card>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="text-center py-8">
+          <p className="text-gray-600 mb-4">Failed to load import history</p>
+          <Button variant="outline" onClick={() => refetch()}>
+            Try Again
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {rollbackMessage && (
+        <Alert
+          variant={rollbackMessage.variant}
+          dismissible
+          onDismiss={() => setRollbackMessage(null)}
+        >
+          {rollbackMessage.text}
+        </Alert>
+      )}
+
+      <Card padding="none">
+        {runs && runs.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-[#f5f5f5]">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Import</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Started</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Created</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Updated</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Skipped</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Failed</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Status</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[#e0e0e0]">
+                {runs.map((run) => (
+                  <ImportRunRow
+                    key={run.id}
+                    run={run}
+                    onViewChanges={onViewChanges}
+                    onRollback={handleRollback}
+                    rollingBack={rollbackMutation.isPending}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-gray-500">No imports yet</p>
+            <p className="text-sm text-gray-400">Imports will appear here after they run</p>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+// =============================================================================
+// Sub-components
+// =============================================================================
+
+function ImportRunRow({
+  run,
+  onViewChanges,
+  onRollback,
+  rollingBack,
+}: {
+  run: MemberImportRun;
+  onViewChanges?: (run: MemberImportRun) => void;
+  onRollback: (run: MemberImportRun) => void;
+  rollingBack: boolean;
+}) {
+  const badge = STATUS_BADGES[run.status];
+  // Rollback and the change list need the snapshots data retention deletes
+  const canRollBack =
+    (run.status === 'completed' || run.status === 'failed' || run.abandoned) && !run.changesPurgedAt;
+
+  return (
+    <tr className="hover:bg-[#f5f5f5] transition-colors">
+      <td className="px-4 py-3">
+        <div className="font-medium text-[#003559]">{run.filename || run.importId}</div>
+        <div className="text-xs text-gray-500">
+          {KIND_LABELS[run.kind]} · {run.totalRows.toLocaleString()} rows
+        </div>
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-500">
+        {new Date(run.startedAt).toLocaleString()}
+      </td>
+      <td className="px-4 py-3 text-sm text-right text-gray-700">{run.imported.toLocaleString()}</td>
+      <td className="px-4 py-3 text-sm text-right text-gray-700">{run.updated.toLocaleString()}</td>
+      <td className="px-4 py-3 text-sm text-right text-gray-700">{run.skipped.toLocaleString()}</td>
+      <td className="px-4 py-3 text-sm text-right text-gray-700">{run.failed.toLocaleString()}</td>
+      <td className="px-4 py-3">
+        <Badge variant={badge.variant}>{badge.label}</Badge>
+        {run.abandoned && <div className="text-xs text-gray-500 mt-1">Stopped before finishing</div>}
+        {run.rolledBackAt && (
+          <div className="text-xs text-gray-500 mt-1">
+            {new Date(run.rolledBackAt).toLocaleString()}
+          </div>
+        )}
+        {run.changesPurgedAt && (
+          <div className="text-xs text-gray-500 mt-1">Changes removed by data retention</div>
+        )}
+      </td>
+      <td className="px-4 py-3 text-right whitespace-nowrap">
+        {onViewChanges && run.kind === 'members' && !run.changesPurgedAt && (
+          <Button variant="ghost" size="sm" onClick={() => onViewChanges(run)}>
+            Changes
+          </Button>
+        )}
+        {canRollBack && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onRollback(run)}
+            disabled={rollingBack}
+          >
+            Roll Back
+          </Button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export default ImportHistory;
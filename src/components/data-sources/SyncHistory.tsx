@@ -0,0 +1,155 @@
+/**
+ * Sync History
+ * Recent sync_logs for a data source: when it ran, outcome and record counts
+ */
+
+import { Card } from '../common/Card';
+import { Badge } from '../common/Badge';
+import type { BadgeVariant } from '../common/Badge';
+import { useDataSourceSyncLogs } from '@/services/members';
+import type { SyncLog, SyncLogStatus } from '@/types/dataImport';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SyncHistoryProps {
+  dataSourceId: string;
+  /** Data source name shown in the header */
+  title?: string;
+  className?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const STATUS_BADGES: Record<SyncLogStatus, { label: string; variant: BadgeVariant }> = {
+  running: { label: 'Running', variant: 'info' },
+  success: { label: 'Success', variant: 'success' },
+  failed: { label: 'Failed', variant: 'danger' },
+  cancelled: { label: 'Cancelled', variant: 'default' },
+};
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function SyncHistory({ dataSourceId, title, className = '' }: SyncHistoryProps) {
+  const { data: logs, isLoading, error } = useDataSourceSyncLogs(dataSourceId);
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-gray-200 rounded w-1/4" />
+          <div className="h-32 bg-gray-200 rounded" />
+        </div>
+      </Card>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="text-center py-8">
+          <p className="text-[#d32f2f]">Failed to load sync history</p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className={className} padding="none">
+      <div className="p-4 border-b border-[#e0e0e0]">
+        <h3 className="text-lg font-medium text-[#003559]">
+          Sync History{title ? `: ${title}` : ''}
+        </h3>
+      </div>
+
+      {logs && logs.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-[#f5f5f5]">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Started
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Imported
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Skipped
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Duration
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Error
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[#e0e0e0]">
+              {logs.map((log) => (
+                <SyncLogRow key={log.id} log={log} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <p className="text-gray-500">No syncs yet</p>
+          <p className="text-sm text-gray-400">Syncs will appear here after the first run</p>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// =============================================================================
+// Sub-components
+// =============================================================================
+
+function SyncLogRow({ log }: { log: SyncLog }) {
+  const badge = STATUS_BADGES[log.status];
+  const durationSeconds = log.completed_at
+    ? Math.max(0, Math.round((Date.parse(log.completed_at) - Date.parse(log.started_at)) / 1000))
+    : null;
+
+  return (
+    <tr className="hover:bg-[#f5f5f5] transition-colors">
+      <td className="px-4 py-3 text-sm text-gray-700">
+        {new Date(log.started_at).toLocaleString()}
+      </td>
+      <td className="px-4 py-3">
+        <Badge variant={badge.variant}>{badge.label}</Badge>
+      </td>
+      <td className="px-4 py-3 text-sm text-right text-gray-700">
+        {log.records_imported.toLocaleString()}
+      </td>
+      <td className="px-4 py-3 text-sm text-right text-gray-700">
+        {log.records_skipped.toLocaleString()}
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-500">
+        {durationSeconds === null
+          ? '-'
+          : durationSeconds < 60
+            ? `${durationSeconds}s`
+            : `${Math.floor(durationSeconds / 60)}m ${durationSeconds % 60}s`}
+      </td>
+      <td
+        className="px-4 py-3 text-sm text-gray-500 max-w-md truncate"
+        title={log.error_message ?? undefined}
+      >
+        {log.error_message || '-'}
+      </td>
+    </tr>
+  );
+}
+
+export default SyncHistory;
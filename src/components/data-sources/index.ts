@@ -0,0 +1,15 @@
+/**
+ * Data Source Components
+ * Centralized exports for data source module components
+ */
+
+export { DataSourceList } from './DataSourceList';
+export { SyncHistory } from './SyncHistory';
+export { ImportHistory } from './ImportHistory';
+export { ImportChanges } from './ImportChanges';
+
+// Types re-export for convenience
+export type { DataSourceListProps } from './DataSourceList';
+export type { SyncHistoryProps } from './SyncHistory';
+export type { ImportHistoryProps } from './ImportHistory';
+export type { ImportChangesProps } from './ImportChanges';
@@ -0,0 +1,179 @@
+import { useState, useEffect, useRef } from 'react';
+import type { FormEvent } from 'react';
+import {
+  useConversation,
+  useMarkConversationRead,
+  useSendConversationReply,
+} from '@/services/campaigns';
+import { smsService } from '@/services/campaigns/smsService';
+import type { ConversationMessage } from '@/types/campaign';
+import { Card, CardHeader } from '../common/Card';
+import { Button } from '../common/Button';
+import { Textarea } from '../common/Textarea';
+import { Alert } from '../common/Alert';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ConversationThreadProps {
+  /** Member the conversation is with */
+  memberId: string;
+  /** Member phone number (replies are sent here) */
+  phone: string | null;
+  /** Whether the member currently accepts SMS */
+  smsConsent?: boolean;
+  /** Additional class names */
+  className?: string;
+}
+
+// =============================================================================
+// Sub-components
+// =============================================================================
+
+interface MessageBubbleProps {
+  message: ConversationMessage;
+}
+
+function MessageBubble({ message }: MessageBubbleProps) {
+  const isOutbound = message.direction === 'outbound';
+
+  return (
+    <div className={`flex ${isOutbound ? 'justify-end' : 'justify-start'}`}>
+      <div className="max-w-[75%]">
+        <div
+          className={[
+            'px-4 py-2 rounded-lg whitespace-pre-wrap break-words text-sm',
+            isOutbound ? 'bg-[#0353a4] text-white' : 'bg-[#f5f5f5] text-[#003559]',
+          ].join(' ')}
+        >
+          {message.body}
+        </div>
+        <div className={`text-xs text-gray-400 mt-1 ${isOutbound ? 'text-right' : ''}`}>
+          {new Date(message.createdAt).toLocaleString([], {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+          })}
+          {isOutbound && message.status === 'failed' && (
+            <span className="text-[#d32f2f]"> · Failed{message.errorMessage ? `: ${message.errorMessage}` : ''}</span>
+          )}
+          {isOutbound && message.status === 'delivered' && ' · Delivered'}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * Two-way SMS conversation with a member. Marks inbound messages as read
+ * when opened and lets staff reply through the send-sms Edge Function.
+ *
+ * @example
+ * <ConversationThread memberId={member.id} phone={member.phone} />
+ */
+export function ConversationThread({
+  memberId,
+  phone,
+  smsConsent = true,
+  className = '',
+}: ConversationThreadProps) {
+  const [reply, setReply] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data: messages = [], isLoading, error } = useConversation(memberId, phone);
+  const { mutate: markRead } = useMarkConversationRead();
+  const sendReply = useSendConversationReply();
+
+  const hasUnread = messages.some((m) => m.direction === 'inbound' && !m.isRead);
+
+  // Mark as read whenever unread inbound messages are shown
+  useEffect(() => {
+    if (hasUnread) {
+      markRead({ memberId, phone });
+    }
+  }, [hasUnread, memberId, phone, markRead]);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView?.({ block: 'nearest' });
+  }, [messages.length]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!phone || !reply.trim()) return;
+
+    sendReply.mutate(
+      { memberId, phone, body: reply },
+      { onSuccess: () => setReply('') }
+    );
+  };
+
+  const { segmentCount } = smsService.calculateSegments(reply);
+
+  return (
+    <Card padding="none" className={className}>
+      <CardHeader>Text Messages</CardHeader>
+
+      {isLoading ? (
+        <div className="p-8 text-center text-gray-500">Loading conversation...</div>
+      ) : error ? (
+        <div className="p-8 text-center text-[#d32f2f]">Failed to load conversation</div>
+      ) : messages.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">No text messages yet</div>
+      ) : (
+        <div className="p-4 space-y-3 max-h-[480px] overflow-y-auto">
+          {messages.map((message) => (
+            <MessageBubble key={message.id} message={message} />
+          ))}
+          <div ref={bottomRef} />
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="p-4 border-t border-[#e0e0e0] space-y-3">
+        {!phone && (
+          <Alert variant="warning">This member has no phone number on file.</Alert>
+        )}
+        {phone && !smsConsent && (
+          <Alert variant="warning">
+            This member has not opted in to SMS. Replies will be blocked until they text START.
+          </Alert>
+        )}
+        {sendReply.error && (
+          <Alert variant="danger">{sendReply.error.message}</Alert>
+        )}
+        <Textarea
+          label="Reply"
+          hideLabel
+          size="sm"
+          placeholder="Type a reply..."
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          disabled={!phone || sendReply.isPending}
+          maxLength={1600}
+          fullWidth
+        />
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-400">
+            {reply.length > 0 && `${segmentCount} SMS segment${segmentCount === 1 ? '' : 's'}`}
+          </span>
+          <Button
+            type="submit"
+            size="sm"
+            loading={sendReply.isPending}
+            disabled={!phone || !reply.trim()}
+          >
+            Send
+          </Button>
+        </div>
+      </form>
+    </Card>
+  );
+}
+
+export default ConversationThread;
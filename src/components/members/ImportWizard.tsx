@@ -1,6 +1,7 @@
 import { useState, useCallback, useMemo } from 'react';
 import type {
   MemberImportConfig,
+  MemberImportField,
   MemberImportMapping,
   MemberImportResult,
 } from '@/types/member';
@@ -12,12 +13,27 @@ import type {
 } from '@/types/dataImport';
 import {
   parseCSVFile,
+  parseExcelFile,
+  parseGoogleSheet,
   generatePreview,
   suggestFieldMappings,
   importMembers,
 } from '@/services/members/memberImportService';
-import { createMemberImportDataSource } from '@/services/members/memberImportDataSourceService';
-import type { ParsedCSVData, ImportPreview, ImportProgress, ColumnPreview } from '@/services/members/memberImportService';
+import {
+  createMemberImportDataSource,
+  recordMemberImportSync,
+} from '@/services/members/memberImportDataSourceService';
+import type {
+  MemberImportSheetConfig,
+  MemberImportSourceType,
+} from '@/services/members/memberImportDataSourceService';
+import type {
+  ParsedCSVData,
+  ImportPreview,
+  ImportProgress,
+  ColumnPreview,
+  SheetTableOptions,
+} from '@/services/members/memberImportService';
 import { Card, CardHeader, CardFooter } from '../common/Card';
 import { Button } from '../common/Button';
 import { Badge } from '../common/Badge';
@@ -50,6 +66,10 @@ export interface ImportWizardProps {
 interface WizardState {
   // Step 1: Source
   file: File | null;
+  sourceType: MemberImportSourceType;
+  /** File name, or the sheet name for Google Sheets */
+  sourceName: string;
+  sheet: MemberImportSheetConfig | null;
   parsedData: ParsedCSVData | null;
 
   // Step 2: Preview
@@ -64,6 +84,7 @@ interface WizardState {
   // Step 5: Duplicates - uses DuplicateStrategy from dataImport types
   duplicateStrategy: DuplicateStrategy;
   matchFields: string[];
+  mergeRules: NonNullable<MemberImportConfig['mergeRules']>;
 
   // Step 6: Site
   siteId: string | null;
@@ -85,7 +106,7 @@ type WizardStep =
   | 'schedule';
 
 const STEPS: Array<{ id: WizardStep; title: string; description: string }> = [
-  { id: 'source', title: 'Select Source', description: 'Upload CSV file' },
+  { id: 'source', title: 'Select Source', description: 'Upload a file or pick a sheet' },
   { id: 'preview', title: 'Preview Data', description: 'Review detected columns' },
   { id: 'mapping', title: 'Map Columns', description: 'Match to member fields' },
   { id: 'cleaning', title: 'Cleaning Rules', description: 'Configure data validation' },
@@ -144,6 +165,10 @@ export interface ExtendedColumnConfig extends ColumnConfig {
   detectedType: string;
 }
 
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * Convert ColumnPreview to ExtendedColumnConfig for the cleaning rules step.
  * Preserves the detected semantic type while mapping to storage type.
@@ -204,7 +229,7 @@ function convertPreviewToConfig(
  * 7-step import wizard for member data.
  *
  * Steps:
- * 1. Source Selection - CSV upload
+ * 1. Source Selection - CSV / Excel upload or Google Sheets
  * 2. Data Preview - Review detected columns
  * 3. Column Mapping - Map to member fields
  * 4. Cleaning Rules - Data validation
@@ -232,12 +257,16 @@ export function ImportWizard({
 
   const [state, setState] = useState<WizardState>({
     file: null,
+    sourceType: 'csv_upload',
+    sourceName: '',
+    sheet: null,
     parsedData: null,
     preview: null,
     mappings: [],
     columnConfig: [],
     duplicateStrategy: 'skip_all',
     matchFields: ['email'],
+    mergeRules: {},
     siteId: initialSiteId || null,
     membershipLevelId: null,
     defaultTags: [],
@@ -260,6 +289,18 @@ export function ImportWizard({
       }));
   }, [state.mappings]);
 
+  // Mapped fields that can get a merge rule when updating existing members
+  const mergeFields = useMemo(
+    () =>
+      state.mappings
+        .filter((m) => m.targetField !== 'skip' && m.targetField !== 'siteId')
+        .map((m) => ({
+          value: m.targetField as MemberImportField,
+          label: m.sourceColumn,
+        })),
+    [state.mappings]
+  );
+
   // Step navigation
   const goToStep = useCallback((step: WizardStep) => {
     setError(null);
@@ -288,35 +329,70 @@ export function ImportWizard({
     }
   }, [currentStepIndex, goToStep]);
 
-  // Step 1: File upload
-  const handleFileSelect = useCallback(async (file: File) => {
-    try {
-      setLoading(true);
-      setError(null);
+  // Step 1: Read the selected source
+  const loadSource = useCallback(
+    async (
+      source: Pick<WizardState, 'file' | 'sourceType' | 'sourceName' | 'sheet'>,
+      parse: () => Promise<ParsedCSVData>
+    ) => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const parsed = await parse();
+        if (parsed.rows.length === 0) {
+          throw new Error(`No data rows found in ${source.sourceName}`);
+        }
 
-      const parsed = await parseCSVFile(file);
-      if (parsed.rows.length === 0) {
-        throw new Error('No data rows found in file');
+        const preview = generatePreview(parsed);
+        const suggestedMappings = suggestFieldMappings(parsed.headers);
+
+        setState((prev) => ({
+          ...prev,
+          ...source,
+          parsedData: parsed,
+          preview,
+          mappings: suggestedMappings,
+        }));
+
+        goNext();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to parse file');
+      } finally {
+        setProgress(null);
+        setLoading(false);
       }
+    },
+    [goNext]
+  );
 
-      const preview = generatePreview(parsed);
-      const suggestedMappings = suggestFieldMappings(parsed.headers);
-
-      setState((prev) => ({
-        ...prev,
-        file,
-        parsedData: parsed,
-        preview,
-        mappings: suggestedMappings,
-      }));
+  const handleFileSelect = useCallback(
+    (file: File, sheet?: SheetTableOptions) =>
+      loadSource(
+        {
+          file,
+          sourceType: sheet ? 'excel' : 'csv_upload',
+          sourceName: file.name,
+          sheet: sheet ?? null,
+        },
+        () => (sheet ? parseExcelFile(file, sheet) : parseCSVFile(file, setProgress))
+      ),
+    [loadSource]
+  );
 
-      goNext();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to parse file');
-    } finally {
-      setLoading(false);
-    }
-  }, [goNext]);
+  const handleGoogleSheetSelect = useCallback(
+    (spreadsheetId: string, sheet: SheetTableOptions & { sheetName: string }) =>
+      loadSource(
+        {
+          file: null,
+          sourceType: 'google_sheets',
+          sourceName: `${sheet.sheetName} (Google Sheets)`,
+          sheet: { ...sheet, spreadsheetId },
+        },
+        () => parseGoogleSheet(spreadsheetId, sheet)
+      ),
+    [loadSource]
+  );
 
   // Step 3: Update mappings
   const handleMappingsChange = useCallback((mappings: MemberImportMapping[]) => {
@@ -337,6 +413,10 @@ export function ImportWizard({
     setState((prev) => ({ ...prev, duplicateStrategy }));
   }, []);
 
+  const handleMergeRulesChange = useCallback((mergeRules: WizardState['mergeRules']) => {
+    setState((prev) => ({ ...prev, mergeRules }));
+  }, []);
+
   // Step 6: Update site config
   const handleSiteChange = useCallback((siteId: string) => {
     setState((prev) => ({ ...prev, siteId }));
@@ -395,20 +475,26 @@ export function ImportWizard({
         defaultAcquisitionSource: 'import',
         duplicateHandling: duplicateHandlingMap[state.duplicateStrategy],
         matchFields: state.matchFields as ('email' | 'phone' | 'externalId')[],
+        mergeRules: state.duplicateStrategy === 'keep_last' ? state.mergeRules : undefined,
       };
 
       // If schedule is recurring, save the data source for future syncs
+      const startedAt = new Date().toISOString();
+      let dataSourceId: string | null = null;
       if (state.schedule.frequency !== 'manual') {
-        await createMemberImportDataSource({
-          name: `Member Import - ${state.file?.name || 'Unknown'}`,
+        const dataSource = await createMemberImportDataSource({
+          name: `Member Import - ${state.sourceName || 'Unknown'}`,
           config: {
-            filename: state.file?.name || 'unknown.csv',
+            filename: state.sheet?.spreadsheetId || state.file?.name || 'unknown.csv',
+            sourceType: state.sourceType,
+            sheet: state.sheet ?? undefined,
             mappings: mappingsWithRules,
             columnConfig: state.columnConfig,
             importConfig: config,
           },
           scheduleConfig: state.schedule,
         });
+        dataSourceId = dataSource.id;
       }
 
       // Run the immediate import
@@ -416,9 +502,15 @@ export function ImportWizard({
         state.parsedData,
         mappingsWithRules,
         config,
-        (p) => setProgress(p)
+        (p) => setProgress(p),
+        { filename: state.sourceName || undefined, dataSourceId: dataSourceId ?? undefined }
       );
 
+      // The first import counts as the data source's first sync
+      if (dataSourceId) {
+        await recordMemberImportSync(dataSourceId, importResult, startedAt);
+      }
+
       setResult(importResult);
       onComplete?.(importResult);
     } catch (err) {
@@ -432,7 +524,7 @@ export function ImportWizard({
   const canProceed = useCallback((): boolean => {
     switch (currentStep) {
       case 'source':
-        return !!state.file && !!state.parsedData;
+        return !!state.parsedData;
       case 'preview':
         return !!state.preview && state.preview.totalRows > 0;
       case 'mapping':
@@ -548,6 +640,7 @@ export function ImportWizard({
         return (
           <SourceSelection
             onFileSelect={handleFileSelect}
+            onGoogleSheetSelect={handleGoogleSheetSelect}
             loading={loading}
           />
         );
@@ -572,7 +665,7 @@ export function ImportWizard({
         );
       case 'preview_cleaning':
         if (!state.parsedData) return null;
-        // Convert string[][] rows to Record<string, unknown>[] using headers
+        // Convert rows to Record<string, unknown>[] using headers
         const sampleRowObjects = state.parsedData.rows.slice(0, 10).map((row) => {
           const obj: Record<string, unknown> = {};
           state.parsedData!.headers.forEach((header, idx) => {
@@ -594,6 +687,9 @@ export function ImportWizard({
             strategy={state.duplicateStrategy}
             onMatchFieldsChange={handleMatchFieldsChange}
             onStrategyChange={handleStrategyChange}
+            mergeFields={mergeFields}
+            mergeRules={state.mergeRules}
+            onMergeRulesChange={handleMergeRulesChange}
           />
         );
       case 'site':
@@ -653,16 +749,20 @@ export function ImportWizard({
           <div className="mb-6">
             <div className="flex justify-between text-sm mb-2">
               <span className="text-gray-600">
-                Processing... {progress.processed} of {progress.total}
+                {progress.phase === 'parsing'
+                  ? `Reading file... ${formatMegabytes(progress.processed)} of ${formatMegabytes(progress.total)}`
+                  : `Processing... ${progress.processed} of ${progress.total}`}
               </span>
               <span className="text-[#003559] font-medium">
-                {Math.round((progress.processed / progress.total) * 100)}%
+                {progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0}%
               </span>
             </div>
             <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
               <div
                 className="h-full bg-[#0353a4] transition-all duration-300"
-                style={{ width: `${(progress.processed / progress.total) * 100}%` }}
+                style={{
+                  width: `${progress.total > 0 ? (progress.processed / progress.total) * 100 : 0}%`,
+                }}
               />
             </div>
           </div>
@@ -6,10 +6,14 @@ import {
   getMemberVisits,
   getVisitStats,
   getLtvBreakdown,
+  setMemberLegalHold,
 } from '@/services/members/memberService';
+import { useCurrentRole } from '@/hooks/useProfile';
+import { hasMinimumRole } from '@/types/admin';
 import { Card, CardHeader } from '../common/Card';
 import { Button } from '../common/Button';
 import { Badge } from '../common/Badge';
+import { ConversationThread } from './ConversationThread';
 
 // =============================================================================
 // Types
@@ -101,7 +105,7 @@ function InfoRow({ label, value }: InfoRowProps) {
 // =============================================================================
 
 /**
- * Member detail view with full profile, transactions, and visits.
+ * Member detail view with full profile, transactions, visits, and SMS conversation.
  *
  * @example
  * <MemberDetail
@@ -123,7 +127,11 @@ export function MemberDetail({
   const [ltvBreakdown, setLtvBreakdown] = useState<LtvBreakdown[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'overview' | 'transactions' | 'visits'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'transactions' | 'visits' | 'messages'>('overview');
+  const [updatingHold, setUpdatingHold] = useState(false);
+  const [holdError, setHoldError] = useState<string | null>(null);
+  const { data: role } = useCurrentRole();
+  const isAdmin = !!role && hasMinimumRole(role, 'admin');
 
   // Fetch all data
   useEffect(() => {
@@ -156,6 +164,22 @@ export function MemberDetail({
     fetchData();
   }, [memberId]);
 
+  const handleToggleLegalHold = async () => {
+    if (!member) return;
+    const hold = !member.legalHold;
+    try {
+      setUpdatingHold(true);
+      setHoldError(null);
+      await setMemberLegalHold(member.id, hold);
+      setMember({ ...member, legalHold: hold });
+    } catch (err) {
+      console.error('Failed to update legal hold:', err);
+      setHoldError('Failed to update legal hold');
+    } finally {
+      setUpdatingHold(false);
+    }
+  };
+
   // Loading state
   if (loading) {
     return (
@@ -222,14 +246,28 @@ export function MemberDetail({
                 {member.membershipLevel && (
                   <Badge variant="secondary">{member.membershipLevel.name}</Badge>
                 )}
+                {member.legalHold && <Badge variant="info">Legal hold</Badge>}
               </div>
+              {holdError && <p className="text-sm text-[#d32f2f] mt-1">{holdError}</p>}
             </div>
           </div>
-          {onEdit && (
-            <Button onClick={onEdit} variant="outline" leftIcon={<PencilIcon />}>
-              Edit
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            {isAdmin && (
+              <Button
+                onClick={handleToggleLegalHold}
+                variant="ghost"
+                loading={updatingHold}
+                title="Members on legal hold are kept when data retention runs"
+              >
+                {member.legalHold ? 'Release Legal Hold' : 'Place Legal Hold'}
+              </Button>
+            )}
+            {onEdit && (
+              <Button onClick={onEdit} variant="outline" leftIcon={<PencilIcon />}>
+                Edit
+              </Button>
+            )}
+          </div>
         </div>
       </Card>
 
@@ -268,7 +306,7 @@ export function MemberDetail({
       {/* Tabs */}
       <div className="border-b border-[#e0e0e0]">
         <nav className="flex gap-8" role="tablist">
-          {(['overview', 'transactions', 'visits'] as const).map((tab) => (
+          {(['overview', 'transactions', 'visits', 'messages'] as const).map((tab) => (
             <button
               key={tab}
               role="tab"
@@ -434,6 +472,14 @@ export function MemberDetail({
         </Card>
       )}
 
+      {activeTab === 'messages' && (
+        <ConversationThread
+          memberId={member.id}
+          phone={member.phone}
+          smsConsent={member.consent?.smsConsent ?? false}
+        />
+      )}
+
       {activeTab === 'visits' && (
         <Card padding="none">
           <CardHeader>Visit History</CardHeader>
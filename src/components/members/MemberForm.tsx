@@ -325,6 +325,7 @@ export function MemberForm({
             error={errors.siteId?.message}
             disabled={isEditing}
             siteLevel="site"
+            minimumRole={isEditing ? undefined : 'user'}
           />
 
           {/* Basic Info */}
@@ -1,6 +1,13 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import type { MemberSearchResult, MembershipStatus } from '@/types/member';
-import { searchMembers } from '@/services/members/memberService';
+import type { MemberSearchResult, MembershipLevel, MembershipStatus } from '@/types/member';
+import { searchMembers, getAllTags } from '@/services/members/memberService';
+import { getMembershipLevels } from '@/services/members/siteService';
+import {
+  useCRMStore,
+  selectMemberFilters,
+  selectMemberSearchQuery,
+  selectSelectedSiteId,
+} from '@/stores/crmStore';
 import { Card, CardHeader } from '../common/Card';
 import { Button } from '../common/Button';
 import { Input } from '../common/Input';
@@ -194,10 +201,49 @@ export function MemberList({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Filters
-  const [searchTerm, setSearchTerm] = useState('');
-  const [siteId, setSiteId] = useState<string | null>(initialSiteId || null);
-  const [status, setStatus] = useState<MembershipStatus | ''>('');
+  // Filters are kept in the CRM store so they survive navigating to a member and back
+  const searchTerm = useCRMStore(selectMemberSearchQuery);
+  const memberFilters = useCRMStore(selectMemberFilters);
+  const selectedSiteId = useCRMStore(selectSelectedSiteId);
+  const setSearchTerm = useCRMStore((state) => state.setMemberSearchQuery);
+  const setMemberFilters = useCRMStore((state) => state.setMemberFilters);
+  const setSelectedSiteId = useCRMStore((state) => state.setSelectedSiteId);
+  const clearMemberFilters = useCRMStore((state) => state.clearMemberFilters);
+
+  const siteId = initialSiteId || selectedSiteId;
+  const status = (memberFilters.status as MembershipStatus | undefined) || '';
+  const levelId = memberFilters.membershipLevelId || '';
+  const tag = memberFilters.tags?.[0] || '';
+  const hasFilters = !!(searchTerm || status || levelId || tag);
+
+  // Filter options
+  const [levels, setLevels] = useState<MembershipLevel[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    getAllTags()
+      .then(setTags)
+      .catch(() => setTags([]));
+  }, []);
+
+  // Levels belong to a site, so the level filter is only offered for one site
+  useEffect(() => {
+    if (!siteId) {
+      setLevels([]);
+      return;
+    }
+    getMembershipLevels(siteId)
+      .then((rows) => setLevels(rows.filter((level) => level.isActive)))
+      .catch(() => setLevels([]));
+  }, [siteId]);
+
+  const handleSiteChange = useCallback(
+    (id: string | null) => {
+      setSelectedSiteId(id);
+      setMemberFilters({ membershipLevelId: undefined });
+    },
+    [setSelectedSiteId, setMemberFilters]
+  );
 
   // Pagination
   const [page, setPage] = useState(0);
@@ -214,7 +260,7 @@ export function MemberList({
   // Reset page when filters change
   useEffect(() => {
     setPage(0);
-  }, [debouncedSearch, siteId, status]);
+  }, [debouncedSearch, siteId, status, levelId, tag]);
 
   // Fetch members
   useEffect(() => {
@@ -227,6 +273,8 @@ export function MemberList({
           siteId: siteId || undefined,
           searchTerm: debouncedSearch || undefined,
           membershipStatus: status || undefined,
+          membershipLevelId: levelId || undefined,
+          tags: tag ? [tag] : undefined,
           limit: ITEMS_PER_PAGE + 1, // Fetch one extra to check if there's more
           offset: page * ITEMS_PER_PAGE,
         });
@@ -248,7 +296,7 @@ export function MemberList({
     }
 
     fetchMembers();
-  }, [debouncedSearch, siteId, status, page]);
+  }, [debouncedSearch, siteId, status, levelId, tag, page]);
 
   // Handle page change
   const handleNextPage = useCallback(() => {
@@ -339,21 +387,53 @@ export function MemberList({
             </div>
           </div>
 
-          <SiteSelector
-            value={siteId}
-            onChange={(id) => setSiteId(id)}
-            showAllOption
-            allOptionLabel="All Sites"
-            className="min-w-[180px]"
-            size="md"
-          />
+          {!initialSiteId && (
+            <SiteSelector
+              value={siteId}
+              onChange={handleSiteChange}
+              showAllOption
+              allOptionLabel="All Sites"
+              className="min-w-[180px]"
+              size="md"
+            />
+          )}
 
           <Select
             value={status}
-            onChange={(e) => setStatus(e.target.value as MembershipStatus | '')}
+            onChange={(e) => setMemberFilters({ status: e.target.value || undefined })}
             className="min-w-[150px]"
             options={STATUS_OPTIONS.map((opt) => ({ value: opt.value, label: opt.label }))}
           />
+
+          {levels.length > 0 && (
+            <Select
+              value={levelId}
+              onChange={(e) => setMemberFilters({ membershipLevelId: e.target.value || undefined })}
+              className="min-w-[150px]"
+              options={[
+                { value: '', label: 'All Levels' },
+                ...levels.map((level) => ({ value: level.id, label: level.name })),
+              ]}
+            />
+          )}
+
+          {tags.length > 0 && (
+            <Select
+              value={tag}
+              onChange={(e) => setMemberFilters({ tags: e.target.value ? [e.target.value] : undefined })}
+              className="min-w-[150px]"
+              options={[
+                { value: '', label: 'All Tags' },
+                ...tags.map((t) => ({ value: t, label: t })),
+              ]}
+            />
+          )}
+
+          {hasFilters && (
+            <Button variant="ghost" onClick={clearMemberFilters}>
+              Clear
+            </Button>
+          )}
         </div>
       </div>
 
@@ -383,14 +463,14 @@ export function MemberList({
       ) : members.length === 0 ? (
         <div className="p-8">
           <EmptyState
-            title={debouncedSearch || status ? 'No Members Found' : 'No Members Yet'}
+            title={hasFilters ? 'No Members Found' : 'No Members Yet'}
             description={
-              debouncedSearch || status
+              hasFilters
                 ? 'Try adjusting your search or filters.'
                 : 'Import members or add them manually to get started.'
             }
             action={
-              !debouncedSearch && !status && onImport
+              !hasFilters && onImport
                 ? { label: 'Import Members', onClick: onImport }
                 : undefined
             }
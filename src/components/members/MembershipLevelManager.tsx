@@ -0,0 +1,288 @@
+/**
+ * Membership Level Manager
+ * A site's membership levels (tiers) with add, edit and deactivate
+ */
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Card, CardHeader } from '../common/Card';
+import { Badge } from '../common/Badge';
+import {
+  useMembershipLevels,
+  useCreateMembershipLevel,
+  useUpdateMembershipLevel,
+  useDeleteMembershipLevel,
+} from '@/services/members';
+import type { MembershipLevel } from '@/types/member';
+
+// =============================================================================
+// Validation Schema
+// =============================================================================
+
+const optionalNumber = z
+  .string()
+  .refine((value) => value === '' || (!Number.isNaN(Number(value)) && Number(value) >= 0), {
+    message: 'Enter a positive number',
+  });
+
+const levelSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long'),
+  code: z
+    .string()
+    .min(1, 'Code is required')
+    .max(50, 'Code is too long')
+    .regex(/^[a-zA-Z0-9_-]+$/, 'Code can only contain letters, numbers, hyphens, and underscores'),
+  displayOrder: z.number({ message: 'Enter a number' }).int().min(0),
+  minLifetimeValue: optionalNumber,
+  minVisitCount: optionalNumber,
+  discount: optionalNumber,
+});
+
+type LevelFormData = z.infer<typeof levelSchema>;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MembershipLevelManagerProps {
+  siteId: string;
+  className?: string;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function MembershipLevelManager({ siteId, className = '' }: MembershipLevelManagerProps) {
+  // null: closed, 'new': adding, otherwise the level being edited
+  const [editing, setEditing] = useState<MembershipLevel | 'new' | null>(null);
+
+  const { data: levels = [], isLoading, error } = useMembershipLevels(siteId);
+  const updateMutation = useUpdateMembershipLevel();
+  const deleteMutation = useDeleteMembershipLevel();
+
+  const handleToggleActive = (level: MembershipLevel) => {
+    if (level.isActive) {
+      if (!window.confirm(`Deactivate ${level.name}? Existing members keep their level.`)) return;
+      deleteMutation.mutate(level.id);
+    } else {
+      updateMutation.mutate({ id: level.id, input: { isActive: true } });
+    }
+  };
+
+  return (
+    <Card className={className} padding="none">
+      <CardHeader
+        actions={
+          editing === null && (
+            <Button size="sm" onClick={() => setEditing('new')}>
+              Add Level
+            </Button>
+          )
+        }
+      >
+        Membership Levels
+      </CardHeader>
+
+      {editing !== null && (
+        <div className="p-4 border-b border-[#e0e0e0] bg-[#f5f5f5]/50">
+          <LevelForm
+            siteId={siteId}
+            level={editing === 'new' ? null : editing}
+            nextDisplayOrder={levels.length}
+            onDone={() => setEditing(null)}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="p-4 animate-pulse space-y-3">
+          <div className="h-10 bg-gray-200 rounded" />
+          <div className="h-10 bg-gray-200 rounded" />
+        </div>
+      ) : error ? (
+        <p className="p-4 text-sm text-[#d32f2f]">Failed to load membership levels</p>
+      ) : levels.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">
+          No membership levels yet. Levels let you segment members and target campaigns by tier.
+        </p>
+      ) : (
+        <ul className="divide-y divide-[#e0e0e0]">
+          {levels.map((level) => (
+            <li key={level.id} className="p-4 flex items-center justify-between">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-[#003559]">{level.name}</span>
+                  <span className="text-xs text-gray-500">{level.code}</span>
+                  {!level.isActive && (
+                    <Badge variant="default" size="sm">
+                      Inactive
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {describeLevel(level)}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" onClick={() => setEditing(level)}>
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleToggleActive(level)}
+                  disabled={updateMutation.isPending || deleteMutation.isPending}
+                >
+                  {level.isActive ? 'Deactivate' : 'Activate'}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function describeLevel(level: MembershipLevel): string {
+  const parts: string[] = [];
+  if (level.minLifetimeValue !== null) parts.push(`LTV from $${level.minLifetimeValue}`);
+  if (level.minVisitCount !== null) parts.push(`${level.minVisitCount}+ visits`);
+  if (typeof level.benefits?.discount === 'number') parts.push(`${level.benefits.discount}% discount`);
+  return parts.join(' · ') || 'No requirements';
+}
+
+// =============================================================================
+// Sub-components
+// =============================================================================
+
+function LevelForm({
+  siteId,
+  level,
+  nextDisplayOrder,
+  onDone,
+}: {
+  siteId: string;
+  level: MembershipLevel | null;
+  nextDisplayOrder: number;
+  onDone: () => void;
+}) {
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const createMutation = useCreateMembershipLevel();
+  const updateMutation = useUpdateMembershipLevel();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<LevelFormData>({
+    resolver: zodResolver(levelSchema),
+    defaultValues: {
+      name: level?.name ?? '',
+      code: level?.code ?? '',
+      displayOrder: level?.displayOrder ?? nextDisplayOrder,
+      minLifetimeValue: level?.minLifetimeValue?.toString() ?? '',
+      minVisitCount: level?.minVisitCount?.toString() ?? '',
+      discount:
+        typeof level?.benefits?.discount === 'number' ? level.benefits.discount.toString() : '',
+    },
+  });
+
+  const onSubmit = async (data: LevelFormData) => {
+    setSubmitError(null);
+
+    const input = {
+      name: data.name,
+      code: data.code,
+      displayOrder: data.displayOrder,
+      minLifetimeValue: data.minLifetimeValue ? Number(data.minLifetimeValue) : null,
+      minVisitCount: data.minVisitCount ? Number(data.minVisitCount) : null,
+      benefits: {
+        ...(level?.benefits ?? {}),
+        discount: data.discount ? Number(data.discount) : undefined,
+      },
+    };
+
+    try {
+      if (level) {
+        await updateMutation.mutateAsync({ id: level.id, input });
+      } else {
+        await createMutation.mutateAsync({ ...input, siteId });
+      }
+      onDone();
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to save membership level');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {submitError && (
+        <div
+          className="p-3 bg-[#d32f2f]/10 border border-[#d32f2f]/20 rounded-lg text-[#d32f2f] text-sm"
+          role="alert"
+        >
+          {submitError}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Input label="Name *" {...register('name')} placeholder="e.g., Gold" error={errors.name?.message} />
+        <Input label="Code *" {...register('code')} placeholder="e.g., GOLD" error={errors.code?.message} />
+        <Input
+          label="Display Order"
+          type="number"
+          min="0"
+          {...register('displayOrder', { valueAsNumber: true })}
+          error={errors.displayOrder?.message}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Input
+          label="Min Lifetime Value"
+          type="number"
+          step="0.01"
+          min="0"
+          {...register('minLifetimeValue')}
+          error={errors.minLifetimeValue?.message}
+        />
+        <Input
+          label="Min Visits"
+          type="number"
+          min="0"
+          {...register('minVisitCount')}
+          error={errors.minVisitCount?.message}
+        />
+        <Input
+          label="Discount (%)"
+          type="number"
+          min="0"
+          max="100"
+          {...register('discount')}
+          error={errors.discount?.message}
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" loading={isSubmitting}>
+          {level ? 'Save Level' : 'Add Level'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default MembershipLevelManager;
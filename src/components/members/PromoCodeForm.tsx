@@ -0,0 +1,275 @@
+/**
+ * Promo Code Form
+ * Create/edit a single promo code with Zod validation
+ */
+
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Select } from '../common/Select';
+import { Card } from '../common/Card';
+import { SiteSelector } from './SiteSelector';
+import { usePromoCode, useCreatePromoCode, useUpdatePromoCode } from '@/services/members';
+import { useCampaigns } from '@/services/campaigns';
+import type { PromoCode } from '@/types/member';
+
+// =============================================================================
+// Validation Schema
+// =============================================================================
+
+const optionalAmount = z
+  .string()
+  .refine((value) => value === '' || (!Number.isNaN(Number(value)) && Number(value) >= 0), {
+    message: 'Enter a positive amount',
+  });
+
+const promoCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .min(1, 'Code is required')
+      .max(50, 'Code is too long')
+      .regex(/^[a-zA-Z0-9_-]+$/, 'Code can only contain letters, numbers, hyphens, and underscores'),
+    description: z.string().max(500).optional(),
+    siteId: z.string().nullable().optional(),
+    campaignId: z.string().optional(),
+    acquisitionCost: optionalAmount,
+    validFrom: z.string().optional(),
+    validUntil: z.string().optional(),
+    maxUses: z
+      .string()
+      .refine((value) => value === '' || (Number.isInteger(Number(value)) && Number(value) > 0), {
+        message: 'Max uses must be a whole number above 0',
+      }),
+  })
+  .refine((data) => !data.validFrom || !data.validUntil || data.validFrom <= data.validUntil, {
+    message: 'Valid until must be on or after valid from',
+    path: ['validUntil'],
+  });
+
+type PromoCodeFormData = z.infer<typeof promoCodeSchema>;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PromoCodeFormProps {
+  /** Promo code ID for editing (omit for create) */
+  promoCodeId?: string;
+  /** Default site for new codes */
+  defaultSiteId?: string | null;
+  /** Called on successful save */
+  onSuccess?: (promoCode: PromoCode) => void;
+  /** Called when cancel is clicked */
+  onCancel?: () => void;
+  /** Additional class names */
+  className?: string;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function PromoCodeForm({
+  promoCodeId,
+  defaultSiteId,
+  onSuccess,
+  onCancel,
+  className = '',
+}: PromoCodeFormProps) {
+  const isEdit = !!promoCodeId;
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Data fetching
+  const { data: existingCode, isLoading: loadingCode } = usePromoCode(promoCodeId || '');
+  const { data: campaigns = [] } = useCampaigns();
+
+  // Mutations
+  const createMutation = useCreatePromoCode();
+  const updateMutation = useUpdatePromoCode();
+
+  // Form setup
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    reset,
+    formState: { errors, isDirty, isSubmitting },
+  } = useForm<PromoCodeFormData>({
+    resolver: zodResolver(promoCodeSchema),
+    defaultValues: {
+      code: '',
+      description: '',
+      siteId: defaultSiteId || null,
+      campaignId: '',
+      acquisitionCost: '',
+      validFrom: '',
+      validUntil: '',
+      maxUses: '',
+    },
+  });
+
+  // Populate form when editing
+  useEffect(() => {
+    if (existingCode && isEdit) {
+      reset({
+        code: existingCode.code,
+        description: existingCode.description || '',
+        siteId: existingCode.siteId,
+        campaignId: existingCode.campaignId || '',
+        acquisitionCost: existingCode.acquisitionCost?.toString() ?? '',
+        validFrom: existingCode.validFrom || '',
+        validUntil: existingCode.validUntil || '',
+        maxUses: existingCode.maxUses?.toString() ?? '',
+      });
+    }
+  }, [existingCode, isEdit, reset]);
+
+  // Submit handler
+  const onSubmit = async (data: PromoCodeFormData) => {
+    setSubmitError(null);
+
+    const input = {
+      siteId: data.siteId || null,
+      description: data.description || null,
+      campaignId: data.campaignId || null,
+      acquisitionCost: data.acquisitionCost ? Number(data.acquisitionCost) : null,
+      validFrom: data.validFrom || null,
+      validUntil: data.validUntil || null,
+      maxUses: data.maxUses ? Number(data.maxUses) : null,
+    };
+
+    try {
+      const result =
+        isEdit && promoCodeId
+          ? await updateMutation.mutateAsync({ id: promoCodeId, input })
+          : await createMutation.mutateAsync({ ...input, code: data.code });
+
+      onSuccess?.(result);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to save promo code');
+    }
+  };
+
+  if (loadingCode && isEdit) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="animate-pulse space-y-4">
+          <div className="h-10 bg-gray-200 rounded" />
+          <div className="h-10 bg-gray-200 rounded" />
+          <div className="h-10 bg-gray-200 rounded" />
+        </div>
+      </Card>
+    );
+  }
+
+  const campaignOptions = [
+    { value: '', label: 'No campaign' },
+    ...campaigns.map((campaign) => ({ value: campaign.id, label: campaign.name })),
+  ];
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className={`space-y-4 ${className}`}>
+      {/* Error display */}
+      {submitError && (
+        <div
+          className="p-4 bg-[#d32f2f]/10 border border-[#d32f2f]/20 rounded-lg text-[#d32f2f] text-sm"
+          role="alert"
+        >
+          {submitError}
+        </div>
+      )}
+
+      <Input
+        label="Code *"
+        {...register('code')}
+        placeholder="e.g., SPRING25"
+        disabled={isEdit}
+        helperText={isEdit ? 'Codes cannot be renamed once created' : 'Stored in upper case'}
+        error={errors.code?.message}
+      />
+
+      <Input
+        label="Description"
+        {...register('description')}
+        placeholder="e.g., Spring mailer, 25% off first month"
+        error={errors.description?.message}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Site</label>
+          <SiteSelector
+            value={watch('siteId') || null}
+            onChange={(siteId) => setValue('siteId', siteId, { shouldDirty: true })}
+            placeholder="All sites"
+            showAllOption
+            minimumRole="user"
+          />
+        </div>
+
+        <Select
+          label="Campaign"
+          {...register('campaignId')}
+          options={campaignOptions}
+          helperText="Members acquired with this code count toward the campaign's CAC"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Acquisition Cost"
+          type="number"
+          step="0.01"
+          min="0"
+          {...register('acquisitionCost')}
+          placeholder="Cost per member acquired"
+          error={errors.acquisitionCost?.message}
+        />
+
+        <Input
+          label="Max Uses"
+          type="number"
+          min="1"
+          {...register('maxUses')}
+          placeholder="Unlimited"
+          error={errors.maxUses?.message}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Valid From"
+          type="date"
+          {...register('validFrom')}
+          error={errors.validFrom?.message}
+        />
+
+        <Input
+          label="Valid Until"
+          type="date"
+          {...register('validUntil')}
+          error={errors.validUntil?.message}
+        />
+      </div>
+
+      {/* Form Actions */}
+      <div className="flex justify-end gap-3 pt-4 border-t border-[#e0e0e0]">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" loading={isSubmitting} disabled={isEdit && !isDirty}>
+          {isEdit ? 'Save Changes' : 'Create Code'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default PromoCodeForm;
@@ -0,0 +1,237 @@
+/**
+ * Promo Code Generator
+ * Bulk generation of unique single-use codes, e.g. one per campaign recipient
+ */
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Select } from '../common/Select';
+import { Textarea } from '../common/Textarea';
+import { Alert } from '../common/Alert';
+import { SiteSelector } from './SiteSelector';
+import { useGeneratePromoCodes } from '@/services/members';
+import { useCampaigns } from '@/services/campaigns';
+import type { PromoCode } from '@/types/member';
+
+// =============================================================================
+// Validation Schema
+// =============================================================================
+
+const generatorSchema = z
+  .object({
+    count: z
+      .number({ message: 'Enter how many codes to generate' })
+      .int('Count must be a whole number')
+      .min(1, 'Generate at least 1 code')
+      .max(10000, 'Generate at most 10,000 codes at a time'),
+    prefix: z
+      .string()
+      .max(40, 'Prefix is too long')
+      .regex(/^[a-zA-Z0-9_-]*$/, 'Prefix can only contain letters, numbers, hyphens, and underscores'),
+    description: z.string().max(500).optional(),
+    siteId: z.string().nullable().optional(),
+    campaignId: z.string().optional(),
+    acquisitionCost: z
+      .string()
+      .refine((value) => value === '' || (!Number.isNaN(Number(value)) && Number(value) >= 0), {
+        message: 'Enter a positive amount',
+      }),
+    validFrom: z.string().optional(),
+    validUntil: z.string().optional(),
+  })
+  .refine((data) => !data.validFrom || !data.validUntil || data.validFrom <= data.validUntil, {
+    message: 'Valid until must be on or after valid from',
+    path: ['validUntil'],
+  });
+
+type GeneratorFormData = z.infer<typeof generatorSchema>;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PromoCodeGeneratorProps {
+  /** Default site for the generated codes */
+  defaultSiteId?: string | null;
+  /** Called after codes are generated */
+  onGenerated?: (codes: PromoCode[]) => void;
+  /** Called when close/cancel is clicked */
+  onCancel?: () => void;
+  /** Additional class names */
+  className?: string;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function PromoCodeGenerator({
+  defaultSiteId,
+  onGenerated,
+  onCancel,
+  className = '',
+}: PromoCodeGeneratorProps) {
+  const [generated, setGenerated] = useState<PromoCode[] | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const { data: campaigns = [] } = useCampaigns();
+  const generateMutation = useGeneratePromoCodes();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    formState: { errors, isSubmitting },
+  } = useForm<GeneratorFormData>({
+    resolver: zodResolver(generatorSchema),
+    defaultValues: {
+      count: 100,
+      prefix: '',
+      description: '',
+      siteId: defaultSiteId || null,
+      campaignId: '',
+      acquisitionCost: '',
+      validFrom: '',
+      validUntil: '',
+    },
+  });
+
+  const onSubmit = async (data: GeneratorFormData) => {
+    setSubmitError(null);
+
+    try {
+      const codes = await generateMutation.mutateAsync({
+        count: data.count,
+        prefix: data.prefix,
+        siteId: data.siteId || null,
+        campaignId: data.campaignId || null,
+        description: data.description || null,
+        acquisitionCost: data.acquisitionCost ? Number(data.acquisitionCost) : null,
+        validFrom: data.validFrom || null,
+        validUntil: data.validUntil || null,
+      });
+
+      setGenerated(codes);
+      onGenerated?.(codes);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to generate promo codes');
+    }
+  };
+
+  // Generated codes, ready to copy into a mailing or merge file
+  if (generated) {
+    return (
+      <div className={`space-y-4 ${className}`}>
+        <Alert variant="success">
+          Generated {generated.length.toLocaleString()} single-use code
+          {generated.length === 1 ? '' : 's'}.
+        </Alert>
+        <Textarea
+          label="Codes"
+          value={generated.map((promoCode) => promoCode.code).join('\n')}
+          rows={10}
+          readOnly
+          helperText="One code per line"
+        />
+        <div className="flex justify-end gap-3 pt-4 border-t border-[#e0e0e0]">
+          <Button variant="outline" onClick={() => setGenerated(null)}>
+            Generate More
+          </Button>
+          {onCancel && <Button onClick={onCancel}>Done</Button>}
+        </div>
+      </div>
+    );
+  }
+
+  const campaignOptions = [
+    { value: '', label: 'No campaign' },
+    ...campaigns.map((campaign) => ({ value: campaign.id, label: campaign.name })),
+  ];
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className={`space-y-4 ${className}`}>
+      {submitError && <Alert variant="danger">{submitError}</Alert>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Number of Codes *"
+          type="number"
+          min="1"
+          max="10000"
+          {...register('count', { valueAsNumber: true })}
+          error={errors.count?.message}
+        />
+
+        <Input
+          label="Prefix"
+          {...register('prefix')}
+          placeholder="e.g., SPRING-"
+          helperText="Followed by 8 random characters"
+          error={errors.prefix?.message}
+        />
+      </div>
+
+      <Input
+        label="Description"
+        {...register('description')}
+        placeholder="e.g., Spring mailer, one per recipient"
+        error={errors.description?.message}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Site</label>
+          <SiteSelector
+            value={watch('siteId') || null}
+            onChange={(siteId) => setValue('siteId', siteId)}
+            placeholder="All sites"
+            showAllOption
+            minimumRole="user"
+          />
+        </div>
+
+        <Select label="Campaign" {...register('campaignId')} options={campaignOptions} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Input
+          label="Acquisition Cost"
+          type="number"
+          step="0.01"
+          min="0"
+          {...register('acquisitionCost')}
+          error={errors.acquisitionCost?.message}
+        />
+        <Input label="Valid From" type="date" {...register('validFrom')} />
+        <Input
+          label="Valid Until"
+          type="date"
+          {...register('validUntil')}
+          error={errors.validUntil?.message}
+        />
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Each generated code can be used once.
+      </p>
+
+      <div className="flex justify-end gap-3 pt-4 border-t border-[#e0e0e0]">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" loading={isSubmitting}>
+          Generate Codes
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default PromoCodeGenerator;
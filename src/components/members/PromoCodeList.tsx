@@ -0,0 +1,254 @@
+/**
+ * Promo Code List
+ * Table of promo codes with usage, validity window and activation controls
+ */
+
+import { useMemo, useState } from 'react';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Card } from '../common/Card';
+import { Badge } from '../common/Badge';
+import type { BadgeVariant } from '../common/Badge';
+import { Skeleton } from '../Skeleton';
+import { usePromoCodes, useUpdatePromoCode } from '@/services/members';
+import { useCampaigns } from '@/services/campaigns';
+import type { PromoCode } from '@/types/member';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PromoCodeListProps {
+  /** Show codes for this site (plus codes valid at all sites) */
+  siteId?: string;
+  onEdit?: (promoCode: PromoCode) => void;
+  onCreate?: () => void;
+  className?: string;
+}
+
+type PromoCodeState = 'active' | 'scheduled' | 'expired' | 'used_up' | 'inactive';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const STATE_BADGES: Record<PromoCodeState, { label: string; variant: BadgeVariant }> = {
+  active: { label: 'Active', variant: 'success' },
+  scheduled: { label: 'Scheduled', variant: 'info' },
+  expired: { label: 'Expired', variant: 'warning' },
+  used_up: { label: 'Used Up', variant: 'warning' },
+  inactive: { label: 'Inactive', variant: 'default' },
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function getPromoCodeState(promoCode: PromoCode, today: string): PromoCodeState {
+  if (!promoCode.isActive) return 'inactive';
+  if (promoCode.validFrom && promoCode.validFrom > today) return 'scheduled';
+  if (promoCode.validUntil && promoCode.validUntil < today) return 'expired';
+  if (promoCode.maxUses !== null && promoCode.currentUses >= promoCode.maxUses) return 'used_up';
+  return 'active';
+}
+
+function formatValidity(promoCode: PromoCode): string {
+  const from = promoCode.validFrom ? new Date(`${promoCode.validFrom}T00:00:00`).toLocaleDateString() : null;
+  const until = promoCode.validUntil ? new Date(`${promoCode.validUntil}T00:00:00`).toLocaleDateString() : null;
+  if (from && until) return `${from} – ${until}`;
+  if (from) return `From ${from}`;
+  if (until) return `Until ${until}`;
+  return 'Always';
+}
+
+// =============================================================================
+// Sub-components
+// =============================================================================
+
+function TableSkeleton() {
+  return (
+    <tbody>
+      {[...Array(5)].map((_, i) => (
+        <tr key={i}>
+          <td className="px-4 py-3">
+            <Skeleton width={120} height={16} className="mb-1" />
+            <Skeleton width={160} height={12} />
+          </td>
+          <td className="px-4 py-3">
+            <Skeleton width={120} height={16} />
+          </td>
+          <td className="px-4 py-3">
+            <Skeleton width={60} height={16} />
+          </td>
+          <td className="px-4 py-3">
+            <Skeleton width={140} height={16} />
+          </td>
+          <td className="px-4 py-3">
+            <Skeleton width={60} height={24} />
+          </td>
+          <td className="px-4 py-3" />
+        </tr>
+      ))}
+    </tbody>
+  );
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function PromoCodeList({ siteId, onEdit, onCreate, className = '' }: PromoCodeListProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+
+  const { data: promoCodes, isLoading, error, refetch } = usePromoCodes({
+    siteId,
+    includeInactive: showInactive,
+  });
+  const { data: campaigns = [] } = useCampaigns();
+  const updateMutation = useUpdatePromoCode();
+
+  const campaignNames = useMemo(
+    () => new Map(campaigns.map((campaign) => [campaign.id, campaign.name])),
+    [campaigns]
+  );
+
+  const displayedCodes = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return promoCodes || [];
+    return (promoCodes || []).filter(
+      (promoCode) =>
+        promoCode.code.toLowerCase().includes(term) ||
+        promoCode.description?.toLowerCase().includes(term)
+    );
+  }, [promoCodes, searchTerm]);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  const handleToggleActive = (promoCode: PromoCode) => {
+    if (
+      promoCode.isActive &&
+      !window.confirm(`Deactivate ${promoCode.code}? It can no longer be redeemed.`)
+    ) {
+      return;
+    }
+    updateMutation.mutate({ id: promoCode.id, input: { isActive: !promoCode.isActive } });
+  };
+
+  // Error state
+  if (error) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="text-center py-8">
+          <p className="text-gray-600 mb-4">Failed to load promo codes</p>
+          <Button variant="outline" onClick={() => refetch()}>
+            Try Again
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className={className} padding="none">
+      {/* Header with search and filter */}
+      <div className="p-4 border-b border-[#e0e0e0] flex items-center gap-4">
+        <Input
+          type="search"
+          placeholder="Search codes..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full"
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={showInactive}
+            onChange={(e) => setShowInactive(e.target.checked)}
+            className="w-4 h-4 text-[#0353a4] border-gray-300 rounded focus:ring-[#0353a4]"
+          />
+          Show inactive
+        </label>
+      </div>
+
+      {/* Table */}
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-[#f5f5f5]">
+            <tr>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Code</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Campaign</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Uses</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Valid</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Status</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+
+          {isLoading ? (
+            <TableSkeleton />
+          ) : displayedCodes.length === 0 ? (
+            <tbody>
+              <tr>
+                <td colSpan={6} className="px-4 py-12 text-center">
+                  <p className="text-gray-500 mb-4">
+                    {searchTerm ? 'No promo codes match your search' : 'No promo codes yet'}
+                  </p>
+                  {onCreate && !searchTerm && (
+                    <Button onClick={onCreate}>Create Your First Promo Code</Button>
+                  )}
+                </td>
+              </tr>
+            </tbody>
+          ) : (
+            <tbody className="divide-y divide-[#e0e0e0]">
+              {displayedCodes.map((promoCode) => {
+                const state = STATE_BADGES[getPromoCodeState(promoCode, today)];
+                return (
+                  <tr key={promoCode.id} className="hover:bg-[#f5f5f5] transition-colors">
+                    <td className="px-4 py-3">
+                      <div className="font-mono font-medium text-[#003559]">{promoCode.code}</div>
+                      {promoCode.description && (
+                        <div className="text-xs text-gray-500 truncate max-w-xs">
+                          {promoCode.description}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {promoCode.campaignId ? campaignNames.get(promoCode.campaignId) || '—' : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {promoCode.currentUses.toLocaleString()}
+                      {promoCode.maxUses !== null && ` / ${promoCode.maxUses.toLocaleString()}`}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500">{formatValidity(promoCode)}</td>
+                    <td className="px-4 py-3">
+                      <Badge variant={state.variant}>{state.label}</Badge>
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {onEdit && (
+                        <Button variant="ghost" size="sm" onClick={() => onEdit(promoCode)}>
+                          Edit
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleToggleActive(promoCode)}
+                        disabled={updateMutation.isPending}
+                      >
+                        {promoCode.isActive ? 'Deactivate' : 'Activate'}
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          )}
+        </table>
+      </div>
+    </Card>
+  );
+}
+
+export default PromoCodeList;
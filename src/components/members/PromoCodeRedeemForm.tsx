@@ -0,0 +1,241 @@
+/**
+ * Promo Code Redeem Form
+ * Redeem a code for a member, optionally recording it on one of the
+ * member's transactions and attributing their acquisition to the code
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Select } from '../common/Select';
+import { Alert } from '../common/Alert';
+import { useRedeemPromoCode } from '@/services/members';
+import { searchMembers, getMemberTransactions } from '@/services/members/memberService';
+import type {
+  MemberSearchResult,
+  MemberTransaction,
+  PromoCodeValidationResult,
+} from '@/types/member';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PromoCodeRedeemFormProps {
+  /** Limit the member search to this site */
+  siteId?: string;
+  /** Called after a successful redemption */
+  onRedeemed?: (result: PromoCodeValidationResult) => void;
+  /** Called when close/cancel is clicked */
+  onCancel?: () => void;
+  /** Additional class names */
+  className?: string;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function PromoCodeRedeemForm({
+  siteId,
+  onRedeemed,
+  onCancel,
+  className = '',
+}: PromoCodeRedeemFormProps) {
+  const [code, setCode] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [members, setMembers] = useState<MemberSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [member, setMember] = useState<MemberSearchResult | null>(null);
+  const [transactions, setTransactions] = useState<MemberTransaction[]>([]);
+  const [transactionId, setTransactionId] = useState('');
+  const [attributeAcquisition, setAttributeAcquisition] = useState(true);
+  const [result, setResult] = useState<PromoCodeValidationResult | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const redeemMutation = useRedeemPromoCode();
+
+  // Load the selected member's transactions that have no code yet
+  useEffect(() => {
+    if (!member) {
+      setTransactions([]);
+      return;
+    }
+
+    let cancelled = false;
+    getMemberTransactions(member.id)
+      .then((rows) => {
+        if (!cancelled) setTransactions(rows.filter((txn) => !txn.promoCode));
+      })
+      .catch(() => {
+        if (!cancelled) setTransactions([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [member]);
+
+  const handleSearch = async () => {
+    if (!searchTerm.trim()) return;
+    setSearching(true);
+    setSubmitError(null);
+    try {
+      setMembers(await searchMembers({ siteId, searchTerm: searchTerm.trim(), limit: 10 }));
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to search members');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleSelectMember = (selected: MemberSearchResult) => {
+    setMember(selected);
+    setTransactionId('');
+    setMembers([]);
+  };
+
+  const handleRedeem = async () => {
+    if (!code.trim() || !member) return;
+    setSubmitError(null);
+    setResult(null);
+
+    try {
+      const redemption = await redeemMutation.mutateAsync({
+        code,
+        memberId: member.id,
+        transactionId: transactionId || null,
+        attributeAcquisition,
+      });
+
+      setResult(redemption);
+      if (redemption.isValid) {
+        onRedeemed?.(redemption);
+      }
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to redeem promo code');
+    }
+  };
+
+  const memberName = (m: MemberSearchResult) =>
+    `${m.firstName || ''} ${m.lastName || ''}`.trim() || 'Unknown';
+
+  const transactionOptions = [
+    { value: '', label: 'No transaction' },
+    ...transactions.map((txn) => ({
+      value: txn.id,
+      label: `${new Date(txn.transactionDate).toLocaleDateString()} · ${txn.transactionType.replace('_', ' ')} · $${txn.amount.toFixed(2)}`,
+    })),
+  ];
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {submitError && <Alert variant="danger">{submitError}</Alert>}
+      {result && (
+        <Alert variant={result.isValid ? 'success' : 'warning'}>
+          {result.isValid ? `${code.trim().toUpperCase()} redeemed` : result.message}
+        </Alert>
+      )}
+
+      <Input
+        label="Promo Code *"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="e.g., SPRING25"
+      />
+
+      {/* Member */}
+      {member ? (
+        <div className="flex items-center justify-between p-3 bg-[#f5f5f5] rounded-lg">
+          <div>
+            <div className="text-sm font-medium text-gray-900">{memberName(member)}</div>
+            <div className="text-xs text-gray-500">
+              {member.email || member.phone} · {member.siteName}
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setMember(null)}>
+            Change
+          </Button>
+        </div>
+      ) : (
+        <div>
+          <div className="flex items-end gap-2">
+            <Input
+              label="Member *"
+              type="search"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSearch();
+                }
+              }}
+              placeholder="Search by name, email or phone"
+              className="w-full"
+            />
+            <Button variant="outline" onClick={handleSearch} loading={searching}>
+              Search
+            </Button>
+          </div>
+          {members.length > 0 && (
+            <ul className="mt-2 border border-[#e0e0e0] rounded-lg divide-y divide-[#e0e0e0]">
+              {members.map((m) => (
+                <li key={m.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleSelectMember(m)}
+                    className="w-full text-left px-3 py-2 hover:bg-[#f5f5f5]"
+                  >
+                    <span className="text-sm font-medium text-gray-900">{memberName(m)}</span>
+                    <span className="text-xs text-gray-500 ml-2">{m.email || m.phone}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {member && (
+        <Select
+          label="Transaction"
+          value={transactionId}
+          onChange={(e) => setTransactionId(e.target.value)}
+          options={transactionOptions}
+          helperText="Record the code on one of the member's transactions"
+        />
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id="attributeAcquisition"
+          checked={attributeAcquisition}
+          onChange={(e) => setAttributeAcquisition(e.target.checked)}
+          className="w-4 h-4 text-[#0353a4] border-gray-300 rounded focus:ring-[#0353a4]"
+        />
+        <label htmlFor="attributeAcquisition" className="text-sm text-gray-700">
+          Attribute the member&apos;s acquisition to this code and its campaign
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-3 pt-4 border-t border-[#e0e0e0]">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Close
+          </Button>
+        )}
+        <Button
+          onClick={handleRedeem}
+          loading={redeemMutation.isPending}
+          disabled={!code.trim() || !member}
+        >
+          Redeem
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default PromoCodeRedeemForm;
@@ -0,0 +1,246 @@
+/**
+ * Promo Code Report
+ * Redemptions per code: uses, members acquired (acquisitionPromoCode),
+ * acquisition cost and transaction revenue (member_transactions.promo_code),
+ * with a drill-down into the members and transactions for a code
+ */
+
+import { useState } from 'react';
+import { Button } from '../common/Button';
+import { Card } from '../common/Card';
+import { usePromoCodeReport, usePromoCodeRedemptions } from '@/services/members';
+import type { PromoCodeReportRow } from '@/types/member';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PromoCodeReportProps {
+  siteId?: string;
+  className?: string;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function PromoCodeReport({ siteId, className = '' }: PromoCodeReportProps) {
+  const [selectedCode, setSelectedCode] = useState<string | null>(null);
+
+  const { data: rows, isLoading, error, refetch } = usePromoCodeReport(siteId);
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="animate-pulse space-y-4">
+          <div className="h-10 bg-gray-200 rounded w-1/4" />
+          <div className="h-64 bg-gray-200 rounded" />
+        </div>
+      </Card>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <Card className={className} padding="lg">
+        <div className="text-center py-8">
+          <p className="text-gray-600 mb-4">Failed to load promo code report</p>
+          <Button variant="outline" onClick={() => refetch()}>
+            Try Again
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  const usedRows = (rows || []).filter(
+    (row) => row.currentUses > 0 || row.membersAcquired > 0 || row.transactionCount > 0
+  );
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <Card padding="none">
+        <div className="p-4 border-b border-[#e0e0e0]">
+          <h3 className="text-lg font-medium text-[#003559]">Redemptions</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            Codes that have been used. Select a code to see its members and transactions.
+          </p>
+        </div>
+
+        {usedRows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-[#f5f5f5]">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Code</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Uses</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Members Acquired</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Acquisition Cost</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Transactions</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Revenue</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Last Used</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[#e0e0e0]">
+                {usedRows.map((row) => (
+                  <ReportRow
+                    key={row.promoCodeId}
+                    row={row}
+                    selected={row.code === selectedCode}
+                    onSelect={() => setSelectedCode(row.code === selectedCode ? null : row.code)}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-gray-500">No redemptions yet</p>
+            <p className="text-sm text-gray-400">
+              Codes appear here once they are redeemed or recorded on a transaction
+            </p>
+          </div>
+        )}
+      </Card>
+
+      {selectedCode && <RedemptionDetails code={selectedCode} />}
+    </div>
+  );
+}
+
+// =============================================================================
+// Sub-components
+// =============================================================================
+
+function ReportRow({
+  row,
+  selected,
+  onSelect,
+}: {
+  row: PromoCodeReportRow;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <tr
+      className={`cursor-pointer transition-colors ${selected ? 'bg-[#0353a4]/5' : 'hover:bg-[#f5f5f5]'}`}
+      onClick={onSelect}
+      tabIndex={0}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          onSelect();
+        }
+      }}
+    >
+      <td className="px-4 py-3 font-mono text-sm font-medium text-[#003559]">{row.code}</td>
+      <td className="px-4 py-3 text-sm text-right text-gray-700">
+        {row.currentUses.toLocaleString()}
+        {row.maxUses !== null && ` / ${row.maxUses.toLocaleString()}`}
+      </td>
+      <td className="px-4 py-3 text-sm text-right text-gray-700">
+        {row.membersAcquired.toLocaleString()}
+      </td>
+      <td className="px-4 py-3 text-sm text-right text-gray-700">
+        ${row.acquisitionCostTotal.toFixed(2)}
+      </td>
+      <td className="px-4 py-3 text-sm text-right text-gray-700">
+        {row.transactionCount.toLocaleString()}
+      </td>
+      <td className="px-4 py-3 text-sm text-right text-gray-700">
+        ${row.transactionRevenue.toFixed(2)}
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-500">
+        {row.lastUsedAt ? new Date(row.lastUsedAt).toLocaleDateString() : '—'}
+      </td>
+    </tr>
+  );
+}
+
+function RedemptionDetails({ code }: { code: string }) {
+  const { data, isLoading, error } = usePromoCodeRedemptions(code);
+
+  if (isLoading) {
+    return (
+      <Card padding="lg">
+        <div className="animate-pulse h-32 bg-gray-200 rounded" />
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card padding="lg">
+        <p className="text-center text-[#d32f2f]">Failed to load redemptions for {code}</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card padding="none">
+        <div className="p-4 border-b border-[#e0e0e0]">
+          <h3 className="text-lg font-medium text-[#003559]">
+            Members Acquired with {code} ({data.acquiredMembers.length})
+          </h3>
+        </div>
+        {data.acquiredMembers.length > 0 ? (
+          <ul className="divide-y divide-[#e0e0e0]">
+            {data.acquiredMembers.map((member) => (
+              <li key={member.id} className="p-4 flex items-center justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {`${member.firstName || ''} ${member.lastName || ''}`.trim() || 'Unknown'}
+                  </div>
+                  {member.email && <div className="text-xs text-gray-500">{member.email}</div>}
+                </div>
+                <div className="text-right text-sm text-gray-500">
+                  {member.acquisitionDate && (
+                    <div>{new Date(`${member.acquisitionDate}T00:00:00`).toLocaleDateString()}</div>
+                  )}
+                  {member.acquisitionCost !== null && (
+                    <div className="text-xs">CAC ${member.acquisitionCost.toFixed(2)}</div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="p-4 text-sm text-gray-500">No members were acquired with this code</p>
+        )}
+      </Card>
+
+      <Card padding="none">
+        <div className="p-4 border-b border-[#e0e0e0]">
+          <h3 className="text-lg font-medium text-[#003559]">
+            Transactions with {code} ({data.transactions.length})
+          </h3>
+        </div>
+        {data.transactions.length > 0 ? (
+          <ul className="divide-y divide-[#e0e0e0]">
+            {data.transactions.map((txn) => (
+              <li key={txn.id} className="p-4 flex items-center justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{txn.memberName || 'Unknown'}</div>
+                  <div className="text-xs text-gray-500 capitalize">
+                    {txn.transactionType.replace('_', ' ')} ·{' '}
+                    {new Date(txn.transactionDate).toLocaleDateString()}
+                  </div>
+                </div>
+                <span className="text-sm font-medium text-gray-900">
+                  {txn.transactionType === 'refund' ? '-' : ''}${Math.abs(txn.amount).toFixed(2)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="p-4 text-sm text-gray-500">No transactions used this code</p>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+export default PromoCodeReport;
@@ -13,26 +13,33 @@ import { Card, CardHeader, CardFooter } from '../common/Card';
 // Validation Schema
 // =============================================================================
 
-const siteSchema = z.object({
-  name: z.string().min(1, 'Name is required').max(255, 'Name is too long'),
-  code: z
-    .string()
-    .min(1, 'Code is required')
-    .max(50, 'Code is too long')
-    .regex(/^[a-zA-Z0-9_-]+$/, 'Code can only contain letters, numbers, hyphens, and underscores'),
-  siteLevel: z.enum(['company', 'region', 'site']),
-  parentSiteId: z.string().nullable().optional(),
-  addressLine1: z.string().max(255).nullable().optional(),
-  addressLine2: z.string().max(255).nullable().optional(),
-  city: z.string().max(100).nullable().optional(),
-  state: z.string().max(2).nullable().optional(),
-  postalCode: z.string().max(20).nullable().optional(),
-  country: z.string().length(2).default('US'),
-  timezone: z.string().min(1, 'Timezone is required'),
-  phone: z.string().max(20).nullable().optional(),
-  email: z.string().email('Invalid email').max(255).nullable().optional().or(z.literal('')),
-  defaultAcquisitionCost: z.coerce.number().min(0).default(0),
-});
+const siteSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(255, 'Name is too long'),
+    code: z
+      .string()
+      .min(1, 'Code is required')
+      .max(50, 'Code is too long')
+      .regex(/^[a-zA-Z0-9_-]+$/, 'Code can only contain letters, numbers, hyphens, and underscores'),
+    siteLevel: z.enum(['company', 'region', 'site']),
+    parentSiteId: z.string().nullable().optional(),
+    addressLine1: z.string().max(255).nullable().optional(),
+    addressLine2: z.string().max(255).nullable().optional(),
+    city: z.string().max(100).nullable().optional(),
+    state: z.string().max(2).nullable().optional(),
+    postalCode: z.string().max(20).nullable().optional(),
+    country: z.string().length(2).default('US'),
+    timezone: z.string().min(1, 'Timezone is required'),
+    quietHoursStart: z.string().nullable().optional(),
+    quietHoursEnd: z.string().nullable().optional(),
+    phone: z.string().max(20).nullable().optional(),
+    email: z.string().email('Invalid email').max(255).nullable().optional().or(z.literal('')),
+    defaultAcquisitionCost: z.coerce.number().min(0).default(0),
+  })
+  .refine((data) => !data.quietHoursStart === !data.quietHoursEnd, {
+    message: 'Set both quiet hours times, or leave both empty to use the global setting',
+    path: ['quietHoursEnd'],
+  });
 
 type SiteFormData = z.infer<typeof siteSchema>;
 
@@ -128,6 +135,8 @@ export function SiteForm({ siteId, onSuccess, onCancel, className = '' }: SiteFo
       postalCode: '',
       country: 'US',
       timezone: 'America/New_York',
+      quietHoursStart: '',
+      quietHoursEnd: '',
       phone: '',
       email: '',
       defaultAcquisitionCost: 0,
@@ -157,6 +166,8 @@ export function SiteForm({ siteId, onSuccess, onCancel, className = '' }: SiteFo
             postalCode: site.postalCode || '',
             country: site.country || 'US',
             timezone: site.timezone,
+            quietHoursStart: site.quietHoursStart?.slice(0, 5) || '',
+            quietHoursEnd: site.quietHoursEnd?.slice(0, 5) || '',
             phone: site.phone || '',
             email: site.email || '',
             defaultAcquisitionCost: site.defaultAcquisitionCost,
@@ -221,6 +232,8 @@ export function SiteForm({ siteId, onSuccess, onCancel, className = '' }: SiteFo
           postalCode: data.postalCode || null,
           country: data.country,
           timezone: data.timezone,
+          quietHoursStart: data.quietHoursStart || null,
+          quietHoursEnd: data.quietHoursEnd || null,
           phone: data.phone || null,
           email: data.email || null,
           defaultAcquisitionCost: data.defaultAcquisitionCost,
@@ -384,6 +397,29 @@ export function SiteForm({ siteId, onSuccess, onCancel, className = '' }: SiteFo
             />
           </div>
 
+          {/* SMS Quiet Hours */}
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-[#003559]">SMS Quiet Hours</legend>
+            <div className="grid grid-cols-2 gap-4 max-w-md">
+              <Input
+                label="Start"
+                type="time"
+                error={errors.quietHoursStart?.message}
+                {...register('quietHoursStart')}
+              />
+              <Input
+                label="End"
+                type="time"
+                error={errors.quietHoursEnd?.message}
+                {...register('quietHoursEnd')}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              Overrides the global quiet hours for members at this site. Leave empty to use the
+              global setting.
+            </p>
+          </fieldset>
+
           {/* CAC Default */}
           <div className="max-w-xs">
             <Input
@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import type { Site, SiteWithHierarchy, SiteLevel } from '@/types/member';
-import { getSites, getSiteHierarchy } from '@/services/members/siteService';
+import type { SiteAccess, UserRole } from '@/types/admin';
+import { getSites, getSiteHierarchy, getSiteAccess } from '@/services/members/siteService';
+import { hasSiteAccess } from '@/utils/siteAccess';
 
 // =============================================================================
 // Types
@@ -33,6 +35,11 @@ export interface SiteSelectorProps {
   label?: string;
   /** Required field */
   required?: boolean;
+  /**
+   * Only offer sites the user has at least this role on. "All Sites" is
+   * hidden for users limited to some sites, since it stands for every site.
+   */
+  minimumRole?: UserRole;
 }
 
 // =============================================================================
@@ -60,6 +67,14 @@ const sizeStyles = {
  * />
  *
  * @example
+ * // Sites the user can manage, e.g. to create a member
+ * <SiteSelector
+ *   value={siteId}
+ *   onChange={(id) => setSiteId(id)}
+ *   minimumRole="user"
+ * />
+ *
+ * @example
  * // Filter by site level
  * <SiteSelector
  *   siteLevel="site"
@@ -81,9 +96,11 @@ export function SiteSelector({
   showHierarchy = true,
   label,
   required = false,
+  minimumRole,
 }: SiteSelectorProps) {
   const [sites, setSites] = useState<Site[]>([]);
   const [hierarchy, setHierarchy] = useState<SiteWithHierarchy[]>([]);
+  const [access, setAccess] = useState<SiteAccess | null>(null);
   const [loading, setLoading] = useState(true);
 
   // Fetch sites on mount
@@ -91,12 +108,14 @@ export function SiteSelector({
     async function fetchSites() {
       try {
         setLoading(true);
-        const [allSites, siteTree] = await Promise.all([
+        const [allSites, siteTree, siteAccess] = await Promise.all([
           getSites(),
           showHierarchy ? getSiteHierarchy() : Promise.resolve([]),
+          minimumRole ? getSiteAccess() : Promise.resolve(null),
         ]);
         setSites(allSites.filter(s => s.isActive));
         setHierarchy(siteTree);
+        setAccess(siteAccess);
       } catch (err) {
         console.error('Failed to fetch sites:', err);
       } finally {
@@ -104,14 +123,21 @@ export function SiteSelector({
       }
     }
     fetchSites();
-  }, [showHierarchy]);
+  }, [showHierarchy, minimumRole]);
+
+  // Sites the user may pick with the minimum role (all when not limited)
+  const isAllowed = useCallback(
+    (siteId: string | null) => !minimumRole || !access || hasSiteAccess(access, siteId, minimumRole),
+    [access, minimumRole]
+  );
 
   // Filter sites by level if specified
   const filteredSites = useMemo(() => {
-    if (!siteLevel) return sites;
+    const allowedSites = sites.filter(s => isAllowed(s.id));
+    if (!siteLevel) return allowedSites;
     const levels = Array.isArray(siteLevel) ? siteLevel : [siteLevel];
-    return sites.filter(s => levels.includes(s.siteLevel));
-  }, [sites, siteLevel]);
+    return allowedSites.filter(s => levels.includes(s.siteLevel));
+  }, [sites, siteLevel, isAllowed]);
 
   // Build flat list with hierarchy indentation
   const siteOptions = useMemo(() => {
@@ -126,7 +152,7 @@ export function SiteSelector({
         const matchesLevel = !siteLevel ||
           (Array.isArray(siteLevel) ? siteLevel.includes(node.siteLevel) : siteLevel === node.siteLevel);
 
-        if (matchesLevel && node.isActive) {
+        if (matchesLevel && node.isActive && isAllowed(node.id)) {
           options.push({ site: node, depth });
         }
 
@@ -138,7 +164,9 @@ export function SiteSelector({
 
     traverse(hierarchy, 0);
     return options;
-  }, [filteredSites, hierarchy, showHierarchy, siteLevel]);
+  }, [filteredSites, hierarchy, showHierarchy, siteLevel, isAllowed]);
+
+  const showAll = showAllOption && isAllowed(null);
 
   // Handle selection change
   const handleChange = useCallback(
@@ -197,8 +225,8 @@ export function SiteSelector({
             <option value="">Loading sites...</option>
           ) : (
             <>
-              {showAllOption && <option value="">{allOptionLabel}</option>}
-              {!showAllOption && !value && <option value="">{placeholder}</option>}
+              {showAll && <option value="">{allOptionLabel}</option>}
+              {!showAll && !value && <option value="">{placeholder}</option>}
 
               {siteOptions.map(({ site, depth }) => (
                 <option key={site.id} value={site.id}>
@@ -1,5 +1,7 @@
 import type { DuplicateStrategy } from '@/types/dataImport';
+import type { MemberImportConfig, MemberImportField, MemberMergeRule } from '@/types/member';
 import { Badge } from '../../common/Badge';
+import { Select } from '../../common/Select';
 
 // =============================================================================
 // Types
@@ -16,6 +18,12 @@ export interface DuplicateHandlingProps {
   onMatchFieldsChange: (fields: string[]) => void;
   /** Called when strategy changes */
   onStrategyChange: (strategy: DuplicateStrategy) => void;
+  /** Mapped fields that can be merged into existing members */
+  mergeFields?: Array<{ value: MemberImportField; label: string }>;
+  /** Per-field merge rules used by the update strategy */
+  mergeRules?: NonNullable<MemberImportConfig['mergeRules']>;
+  /** Called when merge rules change */
+  onMergeRulesChange?: (rules: NonNullable<MemberImportConfig['mergeRules']>) => void;
 }
 
 interface StrategyOption {
@@ -53,7 +61,7 @@ const STRATEGIES: StrategyOption[] = [
   {
     value: 'keep_last',
     label: 'Keep Last',
-    description: 'Skip earlier occurrences, import the latest duplicate',
+    description: 'Update existing members with the imported values, applying rows in file order',
     icon: (
       <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -74,6 +82,16 @@ const STRATEGIES: StrategyOption[] = [
 
 const RECOMMENDED_FIELDS = ['email', 'phone', 'externalId'];
 
+const MERGE_RULE_OPTIONS: Array<{ value: MemberMergeRule; label: string }> = [
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'keep_existing', label: 'Keep existing' },
+  { value: 'fill_blanks', label: 'Fill blanks only' },
+  { value: 'union', label: 'Add to existing' },
+];
+
+// Fields whose values can be combined rather than replaced
+const UNION_FIELDS: MemberImportField[] = ['tags', 'customFields'];
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -87,6 +105,9 @@ export function DuplicateHandling({
   strategy,
   onMatchFieldsChange,
   onStrategyChange,
+  mergeFields = [],
+  mergeRules = {},
+  onMergeRulesChange,
 }: DuplicateHandlingProps) {
   const toggleMatchField = (field: string) => {
     if (matchFields.includes(field)) {
@@ -113,7 +134,7 @@ export function DuplicateHandling({
           Match Duplicates By
         </div>
         <p className="text-xs text-gray-500 mb-4">
-          Select fields to use for detecting duplicate members. Members with matching values in ALL selected fields will be considered duplicates.
+          Select fields to use for detecting duplicate members. A member matching ANY of the selected fields is considered a duplicate.
         </p>
 
         <div className="flex flex-wrap gap-2">
@@ -154,7 +175,7 @@ export function DuplicateHandling({
             <span className="font-medium text-[#003559]">
               {matchFields.length === 1
                 ? `${matchFields[0]} matches`
-                : `ALL of: ${matchFields.join(', ')} match`}
+                : `any of: ${matchFields.join(', ')} match`}
             </span>
           </div>
         )}
@@ -223,6 +244,38 @@ export function DuplicateHandling({
         </div>
       </div>
 
+      {/* Merge rules for updates */}
+      {strategy === 'keep_last' && mergeFields.length > 0 && onMergeRulesChange && (
+        <div className="border border-[#e0e0e0] rounded-lg p-4">
+          <div className="text-sm font-medium text-[#003559] mb-1">Merge Rules</div>
+          <p className="text-xs text-gray-500 mb-4">
+            Choose how each imported column updates an existing member. Empty cells never clear existing values.
+          </p>
+
+          <div className="space-y-2">
+            {mergeFields.map((field) => (
+              <div key={field.value} className="flex items-center justify-between gap-4">
+                <span className="text-sm text-gray-700 truncate">{field.label}</span>
+                <Select
+                  value={mergeRules[field.value] ?? 'overwrite'}
+                  onChange={(e) =>
+                    onMergeRulesChange({
+                      ...mergeRules,
+                      [field.value]: e.target.value as MemberMergeRule,
+                    })
+                  }
+                  options={MERGE_RULE_OPTIONS.filter(
+                    (option) => option.value !== 'union' || UNION_FIELDS.includes(field.value)
+                  )}
+                  size="sm"
+                  className="w-48"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Example scenario */}
       <div className="bg-[#f5f5f5] rounded-lg p-4">
         <div className="text-sm font-medium text-[#003559] mb-2">Example</div>
@@ -234,7 +287,7 @@ export function DuplicateHandling({
           ) : strategy === 'keep_first' ? (
             `If your import file contains multiple rows with the same ${matchFields.join(' and ')}, only the first row will be imported.`
           ) : strategy === 'keep_last' ? (
-            `If your import file contains multiple rows with the same ${matchFields.join(' and ')}, only the last row will be imported.`
+            `If a member with the same ${matchFields.join(' or ')} already exists, it will be updated using the merge rules below. Repeated rows are applied in order, so the last one wins.`
           ) : (
             `All rows will be imported, potentially creating duplicate member records with the same ${matchFields.join(' and ')}.`
           )}
@@ -1,4 +1,6 @@
+import { useMemo } from 'react';
 import type { ScheduleConfiguration } from '@/types/dataImport';
+import { getNextSyncTimes, validateScheduleConfig } from '@/utils/syncSchedule';
 import { Badge } from '../../common/Badge';
 import { Select } from '../../common/Select';
 import { Input } from '../../common/Input';
@@ -45,6 +47,11 @@ const FREQUENCIES: FrequencyOption[] = [
     label: 'Monthly',
     description: 'Sync changes once per month',
   },
+  {
+    value: 'cron',
+    label: 'Custom',
+    description: 'Any schedule, as a cron expression',
+  },
 ];
 
 const DAYS_OF_WEEK = [
@@ -57,6 +64,13 @@ const DAYS_OF_WEEK = [
   { value: '6', label: 'Saturday' },
 ];
 
+const DEFAULT_TIMEZONE = 'America/New_York';
+const DEFAULT_TIME = '00:00';
+const DEFAULT_DAY_OF_WEEK = 1;
+const DEFAULT_DAY_OF_MONTH = 1;
+
+const PREVIEW_RUN_COUNT = 5;
+
 const TIMEZONES = [
   { value: 'America/New_York', label: 'Eastern Time (ET)' },
   { value: 'America/Chicago', label: 'Central Time (CT)' },
@@ -97,10 +111,23 @@ function RefreshIcon() {
  */
 export function ScheduleConfig({ schedule, onChange }: ScheduleConfigProps) {
   const updateSchedule = (updates: Partial<ScheduleConfiguration>) => {
-    onChange({ ...schedule, ...updates });
+    onChange(withDisplayedDefaults({ ...schedule, ...updates }));
   };
 
   const isRecurring = schedule.frequency !== 'manual';
+  const isCron = schedule.frequency === 'cron';
+  const timezone = schedule.timezone || DEFAULT_TIMEZONE;
+
+  const cronError = useMemo(() => {
+    if (!isCron || !schedule.cron_expression?.trim()) return undefined;
+    return validateScheduleConfig(schedule).errors[0];
+  }, [isCron, schedule]);
+
+  // Preview runs in the timezone the sync uses
+  const nextRuns = useMemo(
+    () => (isRecurring ? getNextSyncTimes(withDisplayedDefaults(schedule), PREVIEW_RUN_COUNT) : []),
+    [isRecurring, schedule]
+  );
 
   return (
     <div className="space-y-6">
@@ -163,21 +190,38 @@ export function ScheduleConfig({ schedule, onChange }: ScheduleConfigProps) {
         <div className="border border-[#e0e0e0] rounded-lg p-4 space-y-4">
           <div className="text-sm font-medium text-[#003559]">Schedule Details</div>
 
-          {/* Time */}
-          <div className="grid gap-4 sm:grid-cols-2">
+          {/* Cron expression (custom) */}
+          {isCron && (
             <div>
-              <label className="block text-sm text-gray-600 mb-1">Time</label>
+              <label className="block text-sm text-gray-600 mb-1">Cron Expression</label>
               <Input
-                type="time"
-                value={schedule.time || '00:00'}
-                onChange={(e) => updateSchedule({ time: e.target.value })}
+                value={schedule.cron_expression || ''}
+                onChange={(e) => updateSchedule({ cron_expression: e.target.value })}
+                placeholder="0 6 * * MON-FRI"
+                className="font-mono"
+                error={cronError}
+                helperText="minute hour day-of-month month day-of-week, e.g. 0 6 * * MON-FRI for 6:00 AM on weekdays"
               />
             </div>
+          )}
+
+          {/* Time */}
+          <div className="grid gap-4 sm:grid-cols-2">
+            {!isCron && (
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Time</label>
+                <Input
+                  type="time"
+                  value={schedule.time || DEFAULT_TIME}
+                  onChange={(e) => updateSchedule({ time: e.target.value })}
+                />
+              </div>
+            )}
 
             <div>
               <label className="block text-sm text-gray-600 mb-1">Timezone</label>
               <Select
-                value={schedule.timezone || 'America/New_York'}
+                value={timezone}
                 onChange={(e) => updateSchedule({ timezone: e.target.value })}
                 options={TIMEZONES}
               />
@@ -189,7 +233,7 @@ export function ScheduleConfig({ schedule, onChange }: ScheduleConfigProps) {
             <div>
               <label className="block text-sm text-gray-600 mb-1">Day of Week</label>
               <Select
-                value={String(schedule.day_of_week ?? 1)}
+                value={String(schedule.day_of_week ?? DEFAULT_DAY_OF_WEEK)}
                 onChange={(e) => updateSchedule({ day_of_week: Number(e.target.value) })}
                 options={DAYS_OF_WEEK}
               />
@@ -201,7 +245,7 @@ export function ScheduleConfig({ schedule, onChange }: ScheduleConfigProps) {
             <div>
               <label className="block text-sm text-gray-600 mb-1">Day of Month</label>
               <Select
-                value={String(schedule.day_of_month ?? 1)}
+                value={String(schedule.day_of_month ?? DEFAULT_DAY_OF_MONTH)}
                 onChange={(e) => updateSchedule({ day_of_month: Number(e.target.value) })}
                 options={Array.from({ length: 28 }, (_, i) => ({
                   value: String(i + 1),
@@ -289,12 +333,27 @@ export function ScheduleConfig({ schedule, onChange }: ScheduleConfigProps) {
             'This import will run once when you click "Start Import".'
           ) : schedule.frequency === 'daily' ? (
             `Import will run daily at ${schedule.time || '12:00 AM'} ${getTimezoneLabel(schedule.timezone)}.`
+          ) : isCron ? (
+            `Import will run on the schedule ${schedule.cron_expression?.trim() || '(not set)'} in ${getTimezoneLabel(timezone)}.`
           ) : schedule.frequency === 'weekly' ? (
             `Import will run every ${DAYS_OF_WEEK.find((d) => d.value === String(schedule.day_of_week))?.label || 'Monday'} at ${schedule.time || '12:00 AM'} ${getTimezoneLabel(schedule.timezone)}.`
           ) : (
             `Import will run on the ${schedule.day_of_month || 1}${getOrdinalSuffix(schedule.day_of_month || 1)} of each month at ${schedule.time || '12:00 AM'} ${getTimezoneLabel(schedule.timezone)}.`
           )}
         </p>
+
+        {isRecurring && nextRuns.length > 0 && (
+          <div className="mt-3">
+            <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+              Next {nextRuns.length} runs
+            </div>
+            <ul className="text-sm text-gray-600 space-y-0.5">
+              {nextRuns.map((run) => (
+                <li key={run.toISOString()}>{formatRunTime(run, timezone)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -304,6 +363,20 @@ export function ScheduleConfig({ schedule, onChange }: ScheduleConfigProps) {
 // Helpers
 // =============================================================================
 
+/**
+ * Fill in the values the form shows for unset fields, so syncs run when the
+ * summary says
+ */
+function withDisplayedDefaults(schedule: ScheduleConfiguration): ScheduleConfiguration {
+  return {
+    ...schedule,
+    timezone: schedule.timezone || DEFAULT_TIMEZONE,
+    time: schedule.time || DEFAULT_TIME,
+    day_of_week: schedule.day_of_week ?? DEFAULT_DAY_OF_WEEK,
+    day_of_month: schedule.day_of_month ?? DEFAULT_DAY_OF_MONTH,
+  };
+}
+
 function getOrdinalSuffix(n: number): string {
   if (n > 3 && n < 21) return 'th';
   switch (n % 10) {
@@ -314,6 +387,19 @@ function getOrdinalSuffix(n: number): string {
   }
 }
 
+function formatRunTime(date: Date, timeZone: string): string {
+  return date.toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
+
 function getTimezoneLabel(tz?: string): string {
   const found = TIMEZONES.find((t) => t.value === tz);
   return found ? found.label : 'ET';
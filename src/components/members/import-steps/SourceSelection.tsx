@@ -1,17 +1,44 @@
 import { useState, useCallback, useRef } from 'react';
 import { Button } from '../../common/Button';
+import { Input } from '../../common/Input';
+import { Select } from '../../common/Select';
+import { getExcelSheetNames } from '@/services/members/memberImportService';
+import type { SheetTableOptions } from '@/services/members/memberImportService';
+import {
+  getSpreadsheetSheetNames,
+  parseSpreadsheetId,
+} from '@/services/data-sources/googleSheetsService';
 
 // =============================================================================
 // Types
 // =============================================================================
 
 export interface SourceSelectionProps {
-  /** Called when a file is selected */
-  onFileSelect: (file: File) => void;
+  /** Called when a file is selected; sheet options are set for Excel files */
+  onFileSelect: (file: File, sheet?: SheetTableOptions) => void;
+  /** Called when a Google Sheets tab is selected */
+  onGoogleSheetSelect: (
+    spreadsheetId: string,
+    sheet: SheetTableOptions & { sheetName: string }
+  ) => void;
   /** Loading state */
   loading?: boolean;
 }
 
+type SourceMode = 'file' | 'google_sheets';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const ACCEPTED_EXTENSIONS = ['.csv', '.tsv', '.txt', '.xlsx'];
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function isExcelFile(file: File): boolean {
+  return file.type === XLSX_MIME_TYPE || file.name.toLowerCase().endsWith('.xlsx');
+}
+
 // =============================================================================
 // Icons
 // =============================================================================
@@ -47,13 +74,57 @@ function FileIcon() {
 // =============================================================================
 
 /**
- * Step 1: Source selection - CSV file upload with drag-and-drop.
+ * Step 1: Source selection - CSV / Excel upload with drag-and-drop, or a
+ * Google Sheets spreadsheet by URL or ID.
  */
-export function SourceSelection({ onFileSelect, loading }: SourceSelectionProps) {
+export function SourceSelection({ onFileSelect, onGoogleSheetSelect, loading }: SourceSelectionProps) {
+  const [mode, setMode] = useState<SourceMode>('file');
   const [dragActive, setDragActive] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [spreadsheetInput, setSpreadsheetInput] = useState('');
+  const [spreadsheetId, setSpreadsheetId] = useState<string | null>(null);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [sheet, setSheet] = useState<SheetTableOptions>({ headerRow: 1, skipRows: 0 });
+  const [sheetsLoading, setSheetsLoading] = useState(false);
+  const [sheetsError, setSheetsError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const resetSheets = useCallback(() => {
+    setSheetNames([]);
+    setSheet({ headerRow: 1, skipRows: 0 });
+    setSheetsError(null);
+  }, []);
+
+  // Excel files and spreadsheets need a sheet picked before continuing
+  const loadSheetNames = useCallback(async (load: () => Promise<string[]>) => {
+    setSheetsLoading(true);
+    setSheetsError(null);
+    try {
+      const names = await load();
+      if (names.length === 0) {
+        throw new Error('No sheets found');
+      }
+      setSheetNames(names);
+      setSheet((prev) => ({ ...prev, sheetName: names[0] }));
+    } catch (err) {
+      setSheetNames([]);
+      setSheetsError(err instanceof Error ? err.message : 'Failed to read sheets');
+    } finally {
+      setSheetsLoading(false);
+    }
+  }, []);
+
+  const selectFile = useCallback(
+    (file: File | null) => {
+      setSelectedFile(file);
+      resetSheets();
+      if (file && isExcelFile(file)) {
+        loadSheetNames(() => getExcelSheetNames(file));
+      }
+    },
+    [loadSheetNames, resetSheets]
+  );
+
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -71,27 +142,59 @@ export function SourceSelection({ onFileSelect, loading }: SourceSelectionProps)
 
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       const file = e.dataTransfer.files[0];
-      if (file.type === 'text/csv' || file.name.endsWith('.csv')) {
-        setSelectedFile(file);
+      const name = file.name.toLowerCase();
+      if (file.type === 'text/csv' || ACCEPTED_EXTENSIONS.some((ext) => name.endsWith(ext))) {
+        selectFile(file);
       }
     }
-  }, []);
+  }, [selectFile]);
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
+      selectFile(e.target.files[0]);
     }
-  }, []);
+  }, [selectFile]);
+
+  const handleModeChange = useCallback(
+    (next: SourceMode) => {
+      setMode(next);
+      setSelectedFile(null);
+      setSpreadsheetId(null);
+      resetSheets();
+    },
+    [resetSheets]
+  );
+
+  const handleLoadSpreadsheet = useCallback(() => {
+    const id = parseSpreadsheetId(spreadsheetInput);
+    resetSheets();
+    setSpreadsheetId(id);
+    if (!id) {
+      setSheetsError('Enter a Google Sheets URL or spreadsheet ID');
+      return;
+    }
+    loadSheetNames(() => getSpreadsheetSheetNames(id));
+  }, [spreadsheetInput, loadSheetNames, resetSheets]);
 
   const handleBrowseClick = useCallback(() => {
     inputRef.current?.click();
   }, []);
 
   const handleConfirm = useCallback(() => {
-    if (selectedFile) {
-      onFileSelect(selectedFile);
+    if (mode === 'google_sheets') {
+      if (spreadsheetId && sheet.sheetName) {
+        onGoogleSheetSelect(spreadsheetId, { ...sheet, sheetName: sheet.sheetName });
+      }
+    } else if (selectedFile) {
+      onFileSelect(selectedFile, isExcelFile(selectedFile) ? sheet : undefined);
     }
-  }, [selectedFile, onFileSelect]);
+  }, [mode, spreadsheetId, selectedFile, sheet, onFileSelect, onGoogleSheetSelect]);
+
+  const needsSheet = mode === 'google_sheets' || (!!selectedFile && isExcelFile(selectedFile));
+  const canConfirm =
+    !sheetsLoading &&
+    (mode === 'google_sheets' ? !!spreadsheetId && !!sheet.sheetName : !!selectedFile) &&
+    (!needsSheet || !!sheet.sheetName);
 
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return `${bytes} B`;
@@ -102,83 +205,185 @@ export function SourceSelection({ onFileSelect, loading }: SourceSelectionProps)
   return (
     <div className="space-y-6">
       <div className="text-center">
-        <h2 className="text-lg font-semibold text-[#003559] mb-2">Upload CSV File</h2>
+        <h2 className="text-lg font-semibold text-[#003559] mb-2">Select Member Data</h2>
         <p className="text-gray-500 text-sm">
-          Upload a CSV file containing member data. The file should have headers in the first row.
+          Upload a CSV or Excel file, or read a Google Sheets spreadsheet containing member data.
         </p>
       </div>
 
+      {/* Source type */}
+      <div className="flex justify-center gap-2">
+        {([
+          ['file', 'Upload File'],
+          ['google_sheets', 'Google Sheets'],
+        ] as Array<[SourceMode, string]>).map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => handleModeChange(value)}
+            className={[
+              'px-3 py-1.5 rounded-full text-sm font-medium transition-colors border',
+              mode === value
+                ? 'bg-[#0353a4] text-white border-[#0353a4]'
+                : 'bg-white text-gray-600 border-[#e0e0e0] hover:border-[#0353a4]',
+            ].join(' ')}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
       {/* Drop zone */}
-      <div
-        className={[
-          'relative border-2 border-dashed rounded-lg p-8 text-center transition-colors',
-          dragActive
-            ? 'border-[#0353a4] bg-[#b9d6f2]/10'
-            : selectedFile
-              ? 'border-[#2e7d32] bg-[#2e7d32]/5'
-              : 'border-[#e0e0e0] hover:border-[#0353a4]',
-        ].join(' ')}
-        onDragEnter={handleDrag}
-        onDragLeave={handleDrag}
-        onDragOver={handleDrag}
-        onDrop={handleDrop}
-      >
-        <input
-          ref={inputRef}
-          type="file"
-          accept=".csv,text/csv"
-          onChange={handleFileChange}
-          className="hidden"
-        />
-
-        {selectedFile ? (
-          <div className="flex flex-col items-center">
-            <FileIcon />
-            <div className="mt-3 font-medium text-[#003559]">{selectedFile.name}</div>
-            <div className="text-sm text-gray-500">{formatFileSize(selectedFile.size)}</div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setSelectedFile(null)}
-              className="mt-3"
-            >
-              Remove
-            </Button>
-          </div>
-        ) : (
-          <div className="flex flex-col items-center">
-            <UploadIcon />
-            <div className="mt-3 text-gray-600">
-              <span className="font-medium">Drag and drop</span> a CSV file here, or{' '}
-              <button
-                type="button"
-                onClick={handleBrowseClick}
-                className="text-[#0353a4] font-medium hover:underline"
+      {mode === 'file' && (
+        <div
+          className={[
+            'relative border-2 border-dashed rounded-lg p-8 text-center transition-colors',
+            dragActive
+              ? 'border-[#0353a4] bg-[#b9d6f2]/10'
+              : selectedFile
+                ? 'border-[#2e7d32] bg-[#2e7d32]/5'
+                : 'border-[#e0e0e0] hover:border-[#0353a4]',
+          ].join(' ')}
+          onDragEnter={handleDrag}
+          onDragLeave={handleDrag}
+          onDragOver={handleDrag}
+          onDrop={handleDrop}
+        >
+          <input
+            ref={inputRef}
+            type="file"
+            accept={`${ACCEPTED_EXTENSIONS.join(',')},text/csv,text/tab-separated-values,${XLSX_MIME_TYPE}`}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+
+          {selectedFile ? (
+            <div className="flex flex-col items-center">
+              <FileIcon />
+              <div className="mt-3 font-medium text-[#003559]">{selectedFile.name}</div>
+              <div className="text-sm text-gray-500">{formatFileSize(selectedFile.size)}</div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => selectFile(null)}
+                className="mt-3"
               >
-                browse
-              </button>
+                Remove
+              </Button>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center">
+              <UploadIcon />
+              <div className="mt-3 text-gray-600">
+                <span className="font-medium">Drag and drop</span> a CSV or Excel file here, or{' '}
+                <button
+                  type="button"
+                  onClick={handleBrowseClick}
+                  className="text-[#0353a4] font-medium hover:underline"
+                >
+                  browse
+                </button>
+              </div>
+              <div className="text-sm text-gray-400 mt-1">.csv, .tsv, .txt or .xlsx</div>
             </div>
-            <div className="text-sm text-gray-400 mt-1">Maximum file size: 50MB</div>
+          )}
+        </div>
+      )}
+
+      {/* Spreadsheet */}
+      {mode === 'google_sheets' && (
+        <div className="flex gap-2 items-end">
+          <div className="flex-1">
+            <Input
+              label="Spreadsheet URL or ID"
+              value={spreadsheetInput}
+              onChange={(e) => setSpreadsheetInput(e.target.value)}
+              placeholder="https://docs.google.com/spreadsheets/d/..."
+              helperText="The spreadsheet must be shared with anyone who has the link"
+              fullWidth
+            />
           </div>
-        )}
-      </div>
+          <Button
+            variant="outline"
+            onClick={handleLoadSpreadsheet}
+            loading={sheetsLoading}
+            disabled={!spreadsheetInput.trim()}
+            className="mb-6"
+          >
+            Load Sheets
+          </Button>
+        </div>
+      )}
+
+      {sheetsError && <p className="text-sm text-[#d32f2f]">{sheetsError}</p>}
+
+      {/* Sheet options */}
+      {needsSheet && sheetNames.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Select
+            label="Sheet"
+            options={sheetNames.map((name) => ({ value: name, label: name }))}
+            value={sheet.sheetName ?? ''}
+            onChange={(e) => setSheet((prev) => ({ ...prev, sheetName: e.target.value }))}
+            fullWidth
+          />
+          <Input
+            label="Header row"
+            type="number"
+            min={1}
+            value={sheet.headerRow ?? 1}
+            onChange={(e) =>
+              setSheet((prev) => ({ ...prev, headerRow: Math.max(1, Number(e.target.value) || 1) }))
+            }
+            helperText="Row with the column names"
+            fullWidth
+          />
+          <Input
+            label="Rows to skip"
+            type="number"
+            min={0}
+            value={sheet.skipRows ?? 0}
+            onChange={(e) =>
+              setSheet((prev) => ({ ...prev, skipRows: Math.max(0, Number(e.target.value) || 0) }))
+            }
+            helperText="Rows below the header that aren't data"
+            fullWidth
+          />
+        </div>
+      )}
 
       {/* File requirements */}
       <div className="bg-[#f5f5f5] rounded-lg p-4">
-        <div className="text-sm font-medium text-[#003559] mb-2">File Requirements</div>
+        <div className="text-sm font-medium text-[#003559] mb-2">
+          {mode === 'file' ? 'File Requirements' : 'Spreadsheet Requirements'}
+        </div>
         <ul className="text-sm text-gray-600 space-y-1">
-          <li>• CSV format with comma-separated values</li>
-          <li>• First row must contain column headers</li>
-          <li>• UTF-8 encoding recommended</li>
-          <li>• Maximum 100,000 rows per file</li>
+          {mode === 'file' && (
+            <>
+              <li>• Comma, semicolon, tab or pipe separated values (detected automatically)</li>
+              <li>• UTF-8, UTF-16 or Windows-1252 encoding</li>
+              <li>• Quoted values may span multiple lines</li>
+              <li>• Excel workbooks (.xlsx): pick the sheet and the row with the headers</li>
+            </>
+          )}
+          {mode === 'google_sheets' && (
+            <>
+              <li>• Shared with anyone who has the link (view access is enough)</li>
+              <li>• Numbers and checkboxes keep their types; dates are read as displayed</li>
+              <li>• Can be saved with a schedule to re-import the sheet automatically</li>
+            </>
+          )}
+          <li>• Column headers in the header row (the first row unless set otherwise)</li>
         </ul>
       </div>
 
       {/* Action */}
-      {selectedFile && (
+      {(selectedFile || (mode === 'google_sheets' && spreadsheetId)) && (
         <div className="flex justify-center">
-          <Button onClick={handleConfirm} loading={loading}>
-            Continue with {selectedFile.name}
+          <Button onClick={handleConfirm} loading={loading} disabled={!canConfirm}>
+            {mode === 'google_sheets'
+              ? `Continue with ${sheet.sheetName ?? 'spreadsheet'}`
+              : `Continue with ${selectedFile?.name}`}
           </Button>
         </div>
       )}
@@ -22,3 +22,30 @@ export type { MemberDetailProps } from './MemberDetail';
 
 export { MemberForm } from './MemberForm';
 export type { MemberFormProps } from './MemberForm';
+
+export { ConversationThread } from './ConversationThread';
+export type { ConversationThreadProps } from './ConversationThread';
+
+// Promo Code Components
+export { PromoCodeList } from './PromoCodeList';
+export type { PromoCodeListProps } from './PromoCodeList';
+
+export { PromoCodeForm } from './PromoCodeForm';
+export type { PromoCodeFormProps } from './PromoCodeForm';
+
+export { PromoCodeGenerator } from './PromoCodeGenerator';
+export type { PromoCodeGeneratorProps } from './PromoCodeGenerator';
+
+export { PromoCodeRedeemForm } from './PromoCodeRedeemForm';
+export type { PromoCodeRedeemFormProps } from './PromoCodeRedeemForm';
+
+export { PromoCodeReport } from './PromoCodeReport';
+export type { PromoCodeReportProps } from './PromoCodeReport';
+
+// Membership Level Components
+export { MembershipLevelManager } from './MembershipLevelManager';
+export type { MembershipLevelManagerProps } from './MembershipLevelManager';
+
+// Import Components
+export { ImportWizard } from './ImportWizard';
+export type { ImportWizardProps } from './ImportWizard';
@@ -40,6 +40,13 @@ export const config = {
     anonKey: import.meta.env.VITE_SUPABASE_ANON_KEY as string,
   },
 
+  // Google Sheets API; point apiUrl at a local stand-in during development
+  googleSheets: {
+    apiUrl: (import.meta.env.VITE_GOOGLE_SHEETS_API_URL as string | undefined) ||
+      'https://sheets.googleapis.com',
+    apiKey: (import.meta.env.VITE_GOOGLE_SHEETS_API_KEY as string | undefined) || '',
+  },
+
   // Environment flags
   isDev: import.meta.env.DEV,
   isProd: import.meta.env.PROD,
@@ -49,6 +49,14 @@ function MembersIcon() {
   );
 }
 
+function SitesIcon() {
+  return (
+    <svg className="w-5 h-5" viewBox="0 0 20 20" fill="currentColor">
+      <path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
+    </svg>
+  );
+}
+
 function CampaignsIcon() {
   return (
     <svg className="w-5 h-5" viewBox="0 0 20 20" fill="currentColor">
@@ -58,6 +66,22 @@ function CampaignsIcon() {
   );
 }
 
+function AutomationsIcon() {
+  return (
+    <svg className="w-5 h-5" viewBox="0 0 20 20" fill="currentColor">
+      <path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" clipRule="evenodd" />
+    </svg>
+  );
+}
+
+function PromoCodesIcon() {
+  return (
+    <svg className="w-5 h-5" viewBox="0 0 20 20" fill="currentColor">
+      <path fillRule="evenodd" d="M17.707 9.293a1 1 0 010 1.414l-7 7a1 1 0 01-1.414 0l-7-7A.997.997 0 012 10V5a3 3 0 013-3h5c.256 0 .512.098.707.293l7 7zM5 6a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+    </svg>
+  );
+}
+
 function DataSourcesIcon() {
   return (
     <svg className="w-5 h-5" viewBox="0 0 20 20" fill="currentColor">
@@ -113,12 +137,30 @@ export const NAV_ITEMS: NavItemConfig[] = [
     href: '/members',
     icon: <MembersIcon />,
   },
+  {
+    id: 'sites',
+    label: 'Sites',
+    href: '/sites',
+    icon: <SitesIcon />,
+  },
   {
     id: 'campaigns',
     label: 'Campaigns',
     href: '/campaigns',
     icon: <CampaignsIcon />,
   },
+  {
+    id: 'automations',
+    label: 'Automations',
+    href: '/automations',
+    icon: <AutomationsIcon />,
+  },
+  {
+    id: 'promo-codes',
+    label: 'Promo Codes',
+    href: '/promo-codes',
+    icon: <PromoCodesIcon />,
+  },
   {
     id: 'data-sources',
     label: 'Data Sources',
@@ -1,11 +1,12 @@
 /**
  * useNavigation Hook
- * Provides filtered navigation items based on user role
+ * Provides filtered navigation items based on user role, with live badge counts
  */
 
 import { useMemo } from 'react';
 import { NAV_ITEMS, type NavItemConfig } from '@/constants/navigation';
 import { useCurrentRole } from './useProfile';
+import { useUnreadConversationCount } from '@/services/campaigns';
 import { hasMinimumRole, type UserRole } from '@/types/admin';
 import type { NavItem } from '@/components/layout/Sidebar';
 
@@ -14,9 +15,14 @@ import type { NavItem } from '@/components/layout/Sidebar';
 // =============================================================================
 
 /**
- * Recursively filter nav items based on user role
+ * Recursively filter nav items based on user role.
+ * Badge counts keyed by nav item id override the static config badge.
  */
-function filterNavItems(items: NavItemConfig[], userRole: UserRole | null): NavItem[] {
+function filterNavItems(
+  items: NavItemConfig[],
+  userRole: UserRole | null,
+  badges: Record<string, number | undefined> = {}
+): NavItem[] {
   return items
     .filter((item) => {
       // No role requirement - visible to all
@@ -31,11 +37,11 @@ function filterNavItems(items: NavItemConfig[], userRole: UserRole | null): NavI
       label: item.label,
       href: item.href,
       icon: item.icon,
-      badge: item.badge,
+      badge: badges[item.id] ?? item.badge,
       disabled: item.disabled,
       requiredRole: item.requiredRole,
       // Recursively filter children
-      children: item.children ? filterNavItems(item.children, userRole) : undefined,
+      children: item.children ? filterNavItems(item.children, userRole, badges) : undefined,
     }));
 }
 
@@ -54,10 +60,11 @@ function filterNavItems(items: NavItemConfig[], userRole: UserRole | null): NavI
  */
 export function useNavigation() {
   const { data: currentRole, isLoading } = useCurrentRole();
+  const { data: unreadMessages } = useUnreadConversationCount(!!currentRole);
 
   const filteredNavItems = useMemo(
-    () => filterNavItems(NAV_ITEMS, currentRole ?? null),
-    [currentRole]
+    () => filterNavItems(NAV_ITEMS, currentRole ?? null, { campaigns: unreadMessages }),
+    [currentRole, unreadMessages]
   );
 
   return {
@@ -6,13 +6,15 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { profileService } from '@/services/admin/profileService';
 import { appSettingsService } from '@/services/admin/appSettingsService';
-import { profileKeys, appSettingsKeys, auditKeys } from '@/lib/queryKeys';
+import { profileKeys, organizationKeys, appSettingsKeys, auditKeys } from '@/lib/queryKeys';
 import type {
   ProfileSearchParams,
   UpdateProfileInput,
   UserRole,
   UpdateAppSettingsInput,
   AuditLogSearchParams,
+  MessagingProvider,
+  SiteGrantInput,
 } from '@/types/admin';
 
 // =============================================================================
@@ -157,6 +159,22 @@ export function useDeactivateUser() {
   });
 }
 
+/**
+ * Move a user to another organization (admin only)
+ */
+export function useUpdateUserOrganization() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, organizationId }: { userId: string; organizationId: string }) =>
+      profileService.updateUserOrganization(userId, organizationId),
+    onSuccess: (updatedProfile) => {
+      queryClient.setQueryData(profileKeys.detail(updatedProfile.id), updatedProfile);
+      queryClient.invalidateQueries({ queryKey: profileKeys.lists() });
+    },
+  });
+}
+
 /**
  * Reactivate user (admin only)
  */
@@ -173,6 +191,51 @@ export function useReactivateUser() {
   });
 }
 
+// =============================================================================
+// Site Grants
+// =============================================================================
+
+/**
+ * Get a user's site grants
+ */
+export function useUserSiteGrants(userId: string | undefined) {
+  return useQuery({
+    queryKey: profileKeys.siteGrants(userId || ''),
+    queryFn: () => profileService.getUserSiteGrants(userId!),
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Replace a user's site grants (admin only)
+ */
+export function useSetUserSiteGrants() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, grants }: { userId: string; grants: SiteGrantInput[] }) =>
+      profileService.setUserSiteGrants(userId, grants),
+    onSuccess: (_, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: profileKeys.siteGrants(userId) });
+    },
+  });
+}
+
+// =============================================================================
+// Organizations
+// =============================================================================
+
+/**
+ * Get the current user's organization
+ */
+export function useOrganizations() {
+  return useQuery({
+    queryKey: organizationKeys.list(),
+    queryFn: () => profileService.getOrganizations(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
 // =============================================================================
 // App Settings Queries
 // =============================================================================
@@ -199,6 +262,17 @@ export function useMessagingStatus() {
   });
 }
 
+/**
+ * Get this month's messaging usage against the monthly limits
+ */
+export function useMessagingUsage() {
+  return useQuery({
+    queryKey: appSettingsKeys.messagingUsage(),
+    queryFn: () => appSettingsService.getMessagingUsage(),
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
 // =============================================================================
 // App Settings Mutations
 // =============================================================================
@@ -218,6 +292,61 @@ export function useUpdateAppSettings() {
   });
 }
 
+/**
+ * Check the saved Twilio or SendGrid credentials (admin only)
+ */
+export function useVerifyProvider() {
+  return useMutation({
+    mutationFn: (provider: MessagingProvider) =>
+      appSettingsService.verifyProviderCredentials(provider),
+  });
+}
+
+/**
+ * Send a test SMS or email with the saved credentials (admin only)
+ */
+export function useSendProviderTest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ provider, to }: { provider: MessagingProvider; to: string }) =>
+      appSettingsService.sendProviderTestMessage(provider, to),
+    onSuccess: () => {
+      // Test messages count against the monthly limit
+      queryClient.invalidateQueries({ queryKey: appSettingsKeys.messagingUsage() });
+    },
+  });
+}
+
+// =============================================================================
+// Data Retention
+// =============================================================================
+
+/**
+ * Get the latest data retention runs (admin only)
+ */
+export function useRetentionReports(limit?: number) {
+  return useQuery({
+    queryKey: appSettingsKeys.retentionReports(),
+    queryFn: () => appSettingsService.getRetentionReports(limit),
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Run data retention now (admin only)
+ */
+export function useRunDataRetention() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => appSettingsService.runDataRetention(),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: appSettingsKeys.retentionReports() });
+    },
+  });
+}
+
 // =============================================================================
 // Audit Log Queries
 // =============================================================================
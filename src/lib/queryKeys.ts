@@ -103,7 +103,12 @@ export const campaignKeys = {
   details: () => [...campaignKeys.all, 'detail'] as const,
   detail: (id: string) => [...campaignKeys.details(), id] as const,
   metrics: (id: string) => [...campaignKeys.all, 'metrics', id] as const,
+  deferred: (id: string) => [...campaignKeys.all, 'deferred', id] as const,
+  variants: (id: string) => [...campaignKeys.all, 'variants', id] as const,
+  acquisition: (id: string) => [...campaignKeys.all, 'acquisition', id] as const,
   messages: (id: string) => [...campaignKeys.all, 'messages', id] as const,
+  audience: (criteria: { campaignType: string; siteId?: string | null; targetAllMembers?: boolean }) =>
+    [...campaignKeys.all, 'audience', criteria] as const,
 };
 
 // =============================================================================
@@ -119,6 +124,17 @@ export const templateKeys = {
   detail: (id: string) => [...templateKeys.details(), id] as const,
 };
 
+// =============================================================================
+// Conversation Keys (Two-way SMS)
+// =============================================================================
+
+export const conversationKeys = {
+  all: ['conversations'] as const,
+  threads: () => [...conversationKeys.all, 'thread'] as const,
+  thread: (memberId: string) => [...conversationKeys.threads(), memberId] as const,
+  unreadCount: () => [...conversationKeys.all, 'unreadCount'] as const,
+};
+
 // =============================================================================
 // Promo Code Keys
 // =============================================================================
@@ -126,12 +142,38 @@ export const templateKeys = {
 export const promoCodeKeys = {
   all: ['promoCodes'] as const,
   lists: () => [...promoCodeKeys.all, 'list'] as const,
-  list: (siteId?: string) =>
-    [...promoCodeKeys.lists(), siteId] as const,
+  list: (filters?: { siteId?: string; campaignId?: string; includeInactive?: boolean }) =>
+    [...promoCodeKeys.lists(), filters] as const,
   details: () => [...promoCodeKeys.all, 'detail'] as const,
   detail: (id: string) => [...promoCodeKeys.details(), id] as const,
   validate: (code: string, siteId?: string) =>
     [...promoCodeKeys.all, 'validate', { code, siteId }] as const,
+  report: (siteId?: string) => [...promoCodeKeys.all, 'report', siteId] as const,
+  redemptions: (code: string) => [...promoCodeKeys.all, 'redemptions', code] as const,
+};
+
+// =============================================================================
+// Data Source Keys
+// =============================================================================
+
+export const dataSourceKeys = {
+  all: ['dataSources'] as const,
+  lists: () => [...dataSourceKeys.all, 'list'] as const,
+  details: () => [...dataSourceKeys.all, 'detail'] as const,
+  detail: (id: string) => [...dataSourceKeys.details(), id] as const,
+  syncLogs: (id: string) => [...dataSourceKeys.all, 'syncLogs', id] as const,
+};
+
+// =============================================================================
+// Import History Keys
+// =============================================================================
+
+export const importKeys = {
+  all: ['imports'] as const,
+  lists: () => [...importKeys.all, 'list'] as const,
+  list: (filters: { siteId?: string; dataSourceId?: string }) =>
+    [...importKeys.lists(), filters] as const,
+  changes: (importId: string) => [...importKeys.all, 'changes', importId] as const,
 };
 
 // =============================================================================
@@ -175,6 +217,12 @@ export const profileKeys = {
   current: () => [...profileKeys.all, 'current'] as const,
   currentRole: () => [...profileKeys.all, 'currentRole'] as const,
   stats: () => [...profileKeys.all, 'stats'] as const,
+  siteGrants: (id: string) => [...profileKeys.all, 'siteGrants', id] as const,
+};
+
+export const organizationKeys = {
+  all: ['organizations'] as const,
+  list: () => [...organizationKeys.all, 'list'] as const,
 };
 
 export const appSettingsKeys = {
@@ -182,4 +230,6 @@ export const appSettingsKeys = {
   current: () => [...appSettingsKeys.all, 'current'] as const,
   masked: () => [...appSettingsKeys.all, 'masked'] as const,
   messagingStatus: () => [...appSettingsKeys.all, 'messagingStatus'] as const,
+  messagingUsage: () => [...appSettingsKeys.all, 'messagingUsage'] as const,
+  retentionReports: () => [...appSettingsKeys.all, 'retentionReports'] as const,
 };
@@ -0,0 +1,59 @@
+/**
+ * Automation Detail Page
+ * View automation settings, dry-run preview and execution log
+ */
+
+import { memo, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { AppLayout } from '../components/layout';
+import { AutomationDetail } from '../components/automations';
+import { useNavigation } from '../hooks/useNavigation';
+import type { AutomationTrigger } from '../types/member';
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export const AutomationDetailPage = memo(function AutomationDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { navItems } = useNavigation();
+
+  const handleBack = useCallback(() => {
+    navigate('/automations');
+  }, [navigate]);
+
+  const handleEdit = useCallback(
+    (trigger: AutomationTrigger) => {
+      navigate(`/automations/${trigger.id}/edit`);
+    },
+    [navigate]
+  );
+
+  if (!id) {
+    return (
+      <AppLayout navItems={navItems}>
+        <div className="p-6">
+          <div className="text-center py-12">
+            <p className="text-[#d32f2f]">Automation ID is required</p>
+          </div>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout navItems={navItems}>
+      <div className="p-6">
+        <AutomationDetail
+          triggerId={id}
+          onBack={handleBack}
+          onEdit={handleEdit}
+          onDeleted={handleBack}
+        />
+      </div>
+    </AppLayout>
+  );
+});
+
+export default AutomationDetailPage;
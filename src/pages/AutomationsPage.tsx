@@ -0,0 +1,61 @@
+/**
+ * Automations Page
+ * List view of all automations with create button
+ */
+
+import { memo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AppLayout } from '../components/layout';
+import { AutomationList } from '../components/automations';
+import { Button } from '../components/common/Button';
+import { useNavigation } from '../hooks/useNavigation';
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export const AutomationsPage = memo(function AutomationsPage() {
+  const navigate = useNavigate();
+  const { navItems } = useNavigation();
+
+  const handleCreateAutomation = useCallback(() => {
+    navigate('/automations/new');
+  }, [navigate]);
+
+  const handleSelectAutomation = useCallback(
+    (triggerId: string) => {
+      navigate(`/automations/${triggerId}`);
+    },
+    [navigate]
+  );
+
+  return (
+    <AppLayout navItems={navItems}>
+      <div className="p-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-[#003559]">Automations</h1>
+            <p className="text-gray-500 mt-1">
+              Send messages and update members automatically on dates and events
+            </p>
+          </div>
+          <Button onClick={handleCreateAutomation}>
+            <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Create Automation
+          </Button>
+        </div>
+
+        {/* Automation List */}
+        <AutomationList
+          onSelect={handleSelectAutomation}
+          onCreate={handleCreateAutomation}
+        />
+      </div>
+    </AppLayout>
+  );
+});
+
+export default AutomationsPage;
@@ -0,0 +1,54 @@
+/**
+ * Create Automation Page
+ * Form to create a new automation
+ */
+
+import { memo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AppLayout } from '../components/layout';
+import { AutomationForm } from '../components/automations';
+import { useNavigation } from '../hooks/useNavigation';
+import type { AutomationTrigger } from '../types/member';
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export const CreateAutomationPage = memo(function CreateAutomationPage() {
+  const navigate = useNavigate();
+  const { navItems } = useNavigation();
+
+  const handleSuccess = useCallback(
+    (trigger: AutomationTrigger) => {
+      navigate(`/automations/${trigger.id}`);
+    },
+    [navigate]
+  );
+
+  const handleCancel = useCallback(() => {
+    navigate('/automations');
+  }, [navigate]);
+
+  return (
+    <AppLayout navItems={navItems}>
+      <div className="p-6">
+        {/* Page Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-[#003559]">Create Automation</h1>
+          <p className="text-gray-500 mt-1">
+            Choose when the automation runs and what it does
+          </p>
+        </div>
+
+        {/* Automation Form */}
+        <AutomationForm
+          onSuccess={handleSuccess}
+          onCancel={handleCancel}
+          className="max-w-3xl"
+        />
+      </div>
+    </AppLayout>
+  );
+});
+
+export default CreateAutomationPage;
@@ -0,0 +1,48 @@
+/**
+ * Create Member Page
+ * Form to add a member manually
+ */
+
+import { memo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AppLayout } from '../components/layout';
+import { MemberForm } from '../components/members';
+import { useNavigation } from '../hooks/useNavigation';
+import { useCRMStore, selectSelectedSiteId } from '../stores/crmStore';
+import type { Member } from '../types/member';
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export const CreateMemberPage = memo(function CreateMemberPage() {
+  const navigate = useNavigate();
+  const { navItems } = useNavigation();
+  const selectedSiteId = useCRMStore(selectSelectedSiteId);
+
+  const handleSuccess = useCallback(
+    (member: Member) => {
+      navigate(`/members/${member.id}`);
+    },
+    [navigate]
+  );
+
+  const handleCancel = useCallback(() => {
+    navigate('/members');
+  }, [navigate]);
+
+  return (
+    <AppLayout navItems={navItems}>
+      <div className="p-6">
+        <MemberForm
+          siteId={selectedSiteId ?? undefined}
+          onSuccess={handleSuccess}
+          onCancel={handleCancel}
+          className="max-w-3xl"
+        />
+      </div>
+    </AppLayout>
+  );
+});
+
+export default CreateMemberPage;
@@ -0,0 +1,117 @@
+/**
+ * Data Sources Page
+ * Saved import sources with sync status and history, member import, and
+ * the history of import runs with rollback
+ */
+
+import { memo, useCallback, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AppLayout } from '../components/layout';
+import {
+  DataSourceList,
+  SyncHistory,
+  ImportHistory,
+  ImportChanges,
+} from '../components/data-sources';
+import { Button } from '../components/common/Button';
+import { Modal } from '../components/common/Modal';
+import { useNavigation } from '../hooks/useNavigation';
+import type { MemberImportDataSource } from '../services/members';
+import type { MemberImportRun } from '@/types/member';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type Tab = 'sources' | 'imports';
+
+const TAB_LABELS: Record<Tab, string> = {
+  sources: 'Sources',
+  imports: 'Import History',
+};
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export const DataSourcesPage = memo(function DataSourcesPage() {
+  const navigate = useNavigate();
+  const { navItems } = useNavigation();
+  const [activeTab, setActiveTab] = useState<Tab>('sources');
+  const [selected, setSelected] = useState<MemberImportDataSource | null>(null);
+  const [changesRun, setChangesRun] = useState<MemberImportRun | null>(null);
+
+  const handleImport = useCallback(() => {
+    navigate('/data-sources/import');
+  }, [navigate]);
+
+  const handleDeleted = useCallback((id: string) => {
+    setSelected((current) => (current?.id === id ? null : current));
+  }, []);
+
+  return (
+    <AppLayout navItems={navItems}>
+      <div className="p-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-[#003559]">Data Sources</h1>
+            <p className="text-gray-500 mt-1">
+              Import members and keep recurring imports in sync
+            </p>
+          </div>
+          <Button onClick={handleImport}>
+            <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Import Members
+          </Button>
+        </div>
+
+        {/* Tabs */}
+        <nav className="flex gap-6 border-b border-[#e0e0e0] mb-6">
+          {(Object.keys(TAB_LABELS) as Tab[]).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`pb-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === tab
+                  ? 'border-[#0353a4] text-[#0353a4]'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {TAB_LABELS[tab]}
+            </button>
+          ))}
+        </nav>
+
+        {activeTab === 'sources' ? (
+          <div className="space-y-6">
+            <DataSourceList
+              selectedId={selected?.id}
+              onSelect={setSelected}
+              onImport={handleImport}
+              onDeleted={handleDeleted}
+            />
+
+            {selected && <SyncHistory dataSourceId={selected.id} title={selected.name} />}
+          </div>
+        ) : (
+          <ImportHistory onViewChanges={setChangesRun} />
+        )}
+
+        {/* What an import created and updated */}
+        <Modal
+          isOpen={changesRun !== null}
+          onClose={() => setChangesRun(null)}
+          title={`Import Changes: ${changesRun?.filename || changesRun?.importId || ''}`}
+          size="lg"
+        >
+          {changesRun && <ImportChanges importId={changesRun.importId} />}
+        </Modal>
+      </div>
+    </AppLayout>
+  );
+});
+
+export default DataSourcesPage;
@@ -0,0 +1,72 @@
+/**
+ * Edit Automation Page
+ * Form to edit an existing automation
+ */
+
+import { memo, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { AppLayout } from '../components/layout';
+import { AutomationForm } from '../components/automations';
+import { useNavigation } from '../hooks/useNavigation';
+import type { AutomationTrigger } from '../types/member';
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export const EditAutomationPage = memo(function EditAutomationPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { navItems } = useNavigation();
+
+  const handleSuccess = useCallback(
+    (trigger: AutomationTrigger) => {
+      navigate(`/automations/${trigger.id}`);
+    },
+    [navigate]
+  );
+
+  const handleCancel = useCallback(() => {
+    if (id) {
+      navigate(`/automations/${id}`);
+    } else {
+      navigate('/automations');
+    }
+  }, [navigate, id]);
+
+  if (!id) {
+    return (
+      <AppLayout navItems={navItems}>
+        <div className="p-6">
+          <div className="text-center py-12">
+            <p className="text-[#d32f2f]">Automation ID is required</p>
+          </div>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout navItems={navItems}>
+      <div className="p-6">
+        {/* Page Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-[#003559]">Edit Automation</h1>
+          <p className="text-gray-500 mt-1">
+            Update the trigger, action and audience
+          </p>
+        </div>
+
+        {/* Automation Form */}
+        <AutomationForm
+          triggerId={id}
+          onSuccess={handleSuccess}
+          onCancel={handleCancel}
+          className="max-w-3xl"
+        />
+      </div>
+    </AppLayout>
+  );
+});
+
+export default EditAutomationPage;
@@ -0,0 +1,51 @@
+/**
+ * Edit Member Page
+ * Form to edit an existing member
+ */
+
+import { memo, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { AppLayout } from '../components/layout';
+import { MemberForm } from '../components/members';
+import { useNavigation } from '../hooks/useNavigation';
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export const EditMemberPage = memo(function EditMemberPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { navItems } = useNavigation();
+
+  const handleDone = useCallback(() => {
+    navigate(`/members/${id}`);
+  }, [navigate, id]);
+
+  if (!id) {
+    return (
+      <AppLayout navItems={navItems}>
+        <div className="p-6">
+          <div className="text-center py-12">
+            <p className="text-[#d32f2f]">Member ID is required</p>
+          </div>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout navItems={navItems}>
+      <div className="p-6">
+        <MemberForm
+          memberId={id}
+          onSuccess={handleDone}
+          onCancel={handleDone}
+          className="max-w-3xl"
+        />
+      </div>
+    </AppLayout>
+  );
+});
+
+export default EditMemberPage;
@@ -0,0 +1,55 @@
+/**
+ * Import Members Page
+ * Step-by-step member import (ImportWizard); recurring imports are saved as
+ * data sources
+ */
+
+import { memo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { AppLayout } from '../components/layout';
+import { ImportWizard } from '../components/members';
+import { useNavigation } from '../hooks/useNavigation';
+import { useCRMStore, selectSelectedSiteId } from '../stores/crmStore';
+import { dataSourceKeys } from '../lib/queryKeys';
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export const ImportMembersPage = memo(function ImportMembersPage() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { navItems } = useNavigation();
+  const selectedSiteId = useCRMStore(selectSelectedSiteId);
+
+  const handleComplete = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: dataSourceKeys.all });
+  }, [queryClient]);
+
+  const handleCancel = useCallback(() => {
+    navigate('/data-sources');
+  }, [navigate]);
+
+  return (
+    <AppLayout navItems={navItems}>
+      <div className="p-6">
+        {/* Page Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-[#003559]">Import Members</h1>
+          <p className="text-gray-500 mt-1">
+            Upload a CSV, map its columns and choose whether to repeat the import on a schedule
+          </p>
+        </div>
+
+        <ImportWizard
+          siteId={selectedSiteId ?? undefined}
+          onComplete={handleComplete}
+          onCancel={handleCancel}
+        />
+      </div>
+    </AppLayout>
+  );
+});
+
+export default ImportMembersPage;
@@ -0,0 +1,50 @@
+/**
+ * Member Detail Page
+ * View a member's profile, transactions, visits and conversation
+ */
+
+import { memo, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { AppLayout } from '../components/layout';
+import { MemberDetail } from '../components/members';
+import { useNavigation } from '../hooks/useNavigation';
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export const MemberDetailPage = memo(function MemberDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { navItems } = useNavigation();
+
+  const handleBack = useCallback(() => {
+    navigate('/members');
+  }, [navigate]);
+
+  const handleEdit = useCallback(() => {
+    navigate(`/members/${id}/edit`);
+  }, [navigate, id]);
+
+  if (!id) {
+    return (
+      <AppLayout navItems={navItems}>
+        <div className="p-6">
+          <div className="text-center py-12">
+            <p className="text-[#d32f2f]">Member ID is required</p>
+          </div>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout navItems={navItems}>
+      <div className="p-6">
+        <MemberDetail memberId={id} onBack={handleBack} onEdit={handleEdit} />
+      </div>
+    </AppLayout>
+  );
+});
+
+export default MemberDetailPage;
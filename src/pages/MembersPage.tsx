@@ -0,0 +1,57 @@
+/**
+ * Members Page
+ * Member list with search and filters, add and import actions
+ */
+
+import { memo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AppLayout } from '../components/layout';
+import { MemberList } from '../components/members';
+import { useNavigation } from '../hooks/useNavigation';
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export const MembersPage = memo(function MembersPage() {
+  const navigate = useNavigate();
+  const { navItems } = useNavigation();
+
+  const handleSelectMember = useCallback(
+    (memberId: string) => {
+      navigate(`/members/${memberId}`);
+    },
+    [navigate]
+  );
+
+  const handleAddMember = useCallback(() => {
+    navigate('/members/new');
+  }, [navigate]);
+
+  const handleImport = useCallback(() => {
+    navigate('/data-sources/import');
+  }, [navigate]);
+
+  return (
+    <AppLayout navItems={navItems}>
+      <div className="p-6">
+        {/* Page Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-[#003559]">Members</h1>
+          <p className="text-gray-500 mt-1">
+            Search, filter and manage members across your sites
+          </p>
+        </div>
+
+        {/* Member List */}
+        <MemberList
+          onSelect={handleSelectMember}
+          onAdd={handleAddMember}
+          onImport={handleImport}
+        />
+      </div>
+    </AppLayout>
+  );
+});
+
+export default MembersPage;
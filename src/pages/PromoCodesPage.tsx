@@ -0,0 +1,157 @@
+/**
+ * Promo Codes Page
+ * Manage promo codes per site, generate single-use codes, redeem codes
+ * and view the redemption report
+ */
+
+import { memo, useCallback, useState } from 'react';
+import { AppLayout } from '../components/layout';
+import {
+  SiteSelector,
+  PromoCodeList,
+  PromoCodeForm,
+  PromoCodeGenerator,
+  PromoCodeRedeemForm,
+  PromoCodeReport,
+} from '../components/members';
+import { Button } from '../components/common/Button';
+import { Modal } from '../components/common/Modal';
+import { useNavigation } from '../hooks/useNavigation';
+import type { PromoCode } from '@/types/member';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type Tab = 'codes' | 'report';
+
+type Dialog =
+  | { type: 'create' }
+  | { type: 'edit'; promoCode: PromoCode }
+  | { type: 'generate' }
+  | { type: 'redeem' }
+  | null;
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export const PromoCodesPage = memo(function PromoCodesPage() {
+  const { navItems } = useNavigation();
+  const [siteId, setSiteId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<Tab>('codes');
+  const [dialog, setDialog] = useState<Dialog>(null);
+
+  const handleClose = useCallback(() => setDialog(null), []);
+  const handleCreate = useCallback(() => setDialog({ type: 'create' }), []);
+  const handleEdit = useCallback(
+    (promoCode: PromoCode) => setDialog({ type: 'edit', promoCode }),
+    []
+  );
+
+  return (
+    <AppLayout navItems={navItems}>
+      <div className="p-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-[#003559]">Promo Codes</h1>
+            <p className="text-gray-500 mt-1">
+              Create codes, track redemptions and attribute member acquisition to campaigns
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setDialog({ type: 'redeem' })}>
+              Redeem Code
+            </Button>
+            <Button variant="outline" onClick={() => setDialog({ type: 'generate' })}>
+              Generate Codes
+            </Button>
+            <Button onClick={handleCreate}>
+              <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Create Code
+            </Button>
+          </div>
+        </div>
+
+        {/* Site filter and tabs */}
+        <div className="flex items-end justify-between border-b border-[#e0e0e0] mb-6">
+          <nav className="flex gap-6">
+            {(['codes', 'report'] as Tab[]).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`pb-3 text-sm font-medium capitalize border-b-2 transition-colors ${
+                  activeTab === tab
+                    ? 'border-[#0353a4] text-[#0353a4]'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {tab}
+              </button>
+            ))}
+          </nav>
+          <div className="w-64 pb-3">
+            <SiteSelector
+              value={siteId}
+              onChange={(id) => setSiteId(id)}
+              showAllOption
+              size="sm"
+            />
+          </div>
+        </div>
+
+        {activeTab === 'codes' ? (
+          <PromoCodeList siteId={siteId ?? undefined} onEdit={handleEdit} onCreate={handleCreate} />
+        ) : (
+          <PromoCodeReport siteId={siteId ?? undefined} />
+        )}
+
+        {/* Create / Edit */}
+        <Modal
+          isOpen={dialog?.type === 'create' || dialog?.type === 'edit'}
+          onClose={handleClose}
+          title={dialog?.type === 'edit' ? `Edit ${dialog.promoCode.code}` : 'Create Promo Code'}
+          size="lg"
+        >
+          {(dialog?.type === 'create' || dialog?.type === 'edit') && (
+            <PromoCodeForm
+              promoCodeId={dialog.type === 'edit' ? dialog.promoCode.id : undefined}
+              defaultSiteId={siteId}
+              onSuccess={handleClose}
+              onCancel={handleClose}
+            />
+          )}
+        </Modal>
+
+        {/* Bulk Generation */}
+        <Modal
+          isOpen={dialog?.type === 'generate'}
+          onClose={handleClose}
+          title="Generate Single-Use Codes"
+          size="lg"
+        >
+          {dialog?.type === 'generate' && (
+            <PromoCodeGenerator defaultSiteId={siteId} onCancel={handleClose} />
+          )}
+        </Modal>
+
+        {/* Redemption */}
+        <Modal
+          isOpen={dialog?.type === 'redeem'}
+          onClose={handleClose}
+          title="Redeem Promo Code"
+          size="lg"
+        >
+          {dialog?.type === 'redeem' && (
+            <PromoCodeRedeemForm siteId={siteId ?? undefined} onCancel={handleClose} />
+          )}
+        </Modal>
+      </div>
+    </AppLayout>
+  );
+});
+
+export default PromoCodesPage;
@@ -0,0 +1,88 @@
+/**
+ * Sites Page
+ * Site hierarchy (company / region / site) with add and edit, and the
+ * membership levels of the selected site
+ */
+
+import { memo, useCallback, useState } from 'react';
+import { AppLayout } from '../components/layout';
+import { SiteList, SiteForm, MembershipLevelManager } from '../components/members';
+import { Card } from '../components/common/Card';
+import { useNavigation } from '../hooks/useNavigation';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+// null: closed, 'new': adding a site, otherwise the ID of the site being edited
+type SiteFormState = string | 'new' | null;
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export const SitesPage = memo(function SitesPage() {
+  const { navItems } = useNavigation();
+  const [selectedSiteId, setSelectedSiteId] = useState<string | null>(null);
+  const [siteForm, setSiteForm] = useState<SiteFormState>(null);
+  // Bumped after a save so SiteList reloads the hierarchy
+  const [listVersion, setListVersion] = useState(0);
+
+  const handleSelect = useCallback((siteId: string) => {
+    setSelectedSiteId(siteId);
+    setSiteForm(null);
+  }, []);
+
+  const handleEdit = useCallback((siteId: string) => setSiteForm(siteId), []);
+  const handleAdd = useCallback(() => setSiteForm('new'), []);
+  const handleCancel = useCallback(() => setSiteForm(null), []);
+
+  const handleSaved = useCallback((site: { id: string }) => {
+    setSiteForm(null);
+    setSelectedSiteId(site.id);
+    setListVersion((v) => v + 1);
+  }, []);
+
+  return (
+    <AppLayout navItems={navItems}>
+      <div className="p-6">
+        {/* Page Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-[#003559]">Sites</h1>
+          <p className="text-gray-500 mt-1">
+            Organize locations into regions and manage each site&apos;s membership levels
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+          <SiteList
+            key={listVersion}
+            onSelect={handleSelect}
+            onEdit={handleEdit}
+            onAdd={handleAdd}
+            showStats
+          />
+
+          {siteForm !== null ? (
+            <SiteForm
+              key={siteForm}
+              siteId={siteForm === 'new' ? undefined : siteForm}
+              onSuccess={handleSaved}
+              onCancel={handleCancel}
+            />
+          ) : selectedSiteId ? (
+            <MembershipLevelManager siteId={selectedSiteId} />
+          ) : (
+            <Card padding="lg">
+              <p className="text-center text-gray-500 py-8">
+                Select a site to manage its membership levels
+              </p>
+            </Card>
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+});
+
+export default SitesPage;
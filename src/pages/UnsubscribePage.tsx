@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import type { FormEvent } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { preferenceService } from '../services/members/preferenceService';
+import { Button } from '../components/common/Button';
+import { Alert } from '../components/common/Alert';
+import { Select } from '../components/common/Select';
+import type { MemberPreferences, PreferredChannel } from '../types/member';
+
+const CHANNEL_OPTIONS: Array<{ value: PreferredChannel; label: string }> = [
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'Text message' },
+  { value: 'both', label: 'Email and text message' },
+  { value: 'none', label: 'No marketing messages' },
+];
+
+/**
+ * Public preference center reached from the unsubscribe link in emails.
+ * No login: the signed token in the URL identifies the member.
+ */
+export function UnsubscribePage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  const [preferences, setPreferences] = useState<MemberPreferences | null>(null);
+  const [email, setEmail] = useState(true);
+  const [sms, setSms] = useState(false);
+  const [preferredChannel, setPreferredChannel] = useState<PreferredChannel>('email');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const applyPreferences = (prefs: MemberPreferences) => {
+    setPreferences(prefs);
+    setEmail(prefs.emailSubscribed);
+    setSms(prefs.smsSubscribed);
+    setPreferredChannel(prefs.preferredChannel);
+  };
+
+  useEffect(() => {
+    if (!token) {
+      setError('This link is invalid. Please use the link from your most recent email.');
+      setLoading(false);
+      return;
+    }
+
+    preferenceService
+      .getPreferences(token)
+      .then(applyPreferences)
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  async function handleUnsubscribeAll() {
+    setSaving(true);
+    setError('');
+    setMessage('');
+
+    try {
+      applyPreferences(await preferenceService.unsubscribeFromEmail(token));
+      setMessage('You have been unsubscribed from all emails.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unsubscribe');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSave(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    setMessage('');
+
+    try {
+      applyPreferences(
+        await preferenceService.updatePreferences(token, { email, sms, preferredChannel })
+      );
+      setMessage('Your preferences have been saved.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update preferences');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-[#f5f5f5] px-3">
+      <div className="w-full max-w-md p-5 bg-white rounded shadow-[0_2px_8px_rgba(0,0,0,0.1)]">
+        <h1 className="text-lg font-bold mb-1 text-center text-[#003559]">
+          Communication Preferences
+        </h1>
+        {preferences?.companyName && (
+          <p className="text-sm text-gray-500 text-center mb-4">{preferences.companyName}</p>
+        )}
+
+        {loading ? (
+          <div className="py-8 text-center text-sm text-gray-500">Loading...</div>
+        ) : !preferences ? (
+          <Alert variant="danger">{error}</Alert>
+        ) : (
+          <div className="space-y-4">
+            {error && <Alert variant="danger">{error}</Alert>}
+            {message && <Alert variant="success">{message}</Alert>}
+
+            <p className="text-sm text-gray-700">
+              {preferences.firstName ? `Hi ${preferences.firstName}, choose` : 'Choose'} how we
+              can contact you.
+            </p>
+
+            {preferences.emailSubscribed && (
+              <Button
+                type="button"
+                variant="danger"
+                fullWidth
+                loading={saving}
+                onClick={handleUnsubscribeAll}
+              >
+                Unsubscribe from all emails
+              </Button>
+            )}
+
+            <form onSubmit={handleSave} className="space-y-4 pt-4 border-t border-[#e0e0e0]">
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={email}
+                  onChange={(e) => setEmail(e.target.checked)}
+                  disabled={!preferences.email}
+                  className="mt-0.5 rounded border-[#e0e0e0] text-[#0353a4] focus:ring-[#0353a4]"
+                />
+                <span className="text-sm">
+                  <span className="font-medium text-gray-700">Email</span>
+                  {preferences.email && (
+                    <span className="block text-xs text-gray-500">{preferences.email}</span>
+                  )}
+                </span>
+              </label>
+
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={sms}
+                  onChange={(e) => setSms(e.target.checked)}
+                  disabled={!preferences.smsSubscribed}
+                  className="mt-0.5 rounded border-[#e0e0e0] text-[#0353a4] focus:ring-[#0353a4]"
+                />
+                <span className="text-sm">
+                  <span className="font-medium text-gray-700">Text messages</span>
+                  {preferences.phone && (
+                    <span className="block text-xs text-gray-500">{preferences.phone}</span>
+                  )}
+                  {!preferences.smsSubscribed && (
+                    <span className="block text-xs text-gray-500">
+                      You are not subscribed. Text START to our number to receive texts.
+                    </span>
+                  )}
+                </span>
+              </label>
+
+              <Select
+                label="Preferred channel"
+                options={CHANNEL_OPTIONS}
+                value={preferredChannel}
+                onChange={(e) => setPreferredChannel(e.target.value as PreferredChannel)}
+                fullWidth
+              />
+
+              <Button type="submit" fullWidth loading={saving}>
+                Save Preferences
+              </Button>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default UnsubscribePage;
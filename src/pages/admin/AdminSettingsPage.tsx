@@ -5,7 +5,12 @@
 
 import { memo, useState } from 'react';
 import { AppLayout } from '../../components/layout';
-import { SettingsForm, AuditLogViewer } from '../../components/admin';
+import {
+  SettingsForm,
+  AuditLogViewer,
+  MessagingUsageCard,
+  RetentionReportsCard,
+} from '../../components/admin';
 import { Button } from '../../components/common/Button';
 import { useCurrentProfile } from '../../hooks/useProfile';
 import { useNavigation } from '../../hooks/useNavigation';
@@ -59,7 +64,13 @@ export const AdminSettingsPage = memo(function AdminSettingsPage() {
           </div>
 
           {/* Tab Content */}
-          {activeTab === 'settings' && <SettingsForm />}
+          {activeTab === 'settings' && (
+            <>
+              <MessagingUsageCard className="mb-6" />
+              <SettingsForm />
+              <RetentionReportsCard className="mt-6" />
+            </>
+          )}
           {activeTab === 'audit' && <AuditLogViewer />}
         </main>
       </div>
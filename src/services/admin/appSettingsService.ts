@@ -4,6 +4,7 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { MASKED_SECRET } from '@/types/admin';
 import type {
   AppSettings,
   UpdateAppSettingsInput,
@@ -11,6 +12,12 @@ import type {
   AuditLog,
   AuditLogRow,
   AuditLogSearchParams,
+  MessagingProvider,
+  MessagingUsage,
+  MessagingUsageRow,
+  ProviderCheckResult,
+  RetentionReport,
+  RetentionReportRow,
 } from '@/types/admin';
 
 // =============================================================================
@@ -38,14 +45,16 @@ function toAppSettings(row: AppSettingsRow): AppSettings {
   return {
     id: row.id,
     twilioAccountSid: row.twilio_account_sid,
-    twilioAuthToken: row.twilio_auth_token,
+    twilioAuthToken: row.twilio_auth_token_id ? MASKED_SECRET : null,
     twilioPhoneNumber: row.twilio_phone_number,
-    sendgridApiKey: row.sendgrid_api_key,
+    sendgridApiKey: row.sendgrid_api_key_id ? MASKED_SECRET : null,
     sendgridFromEmail: row.sendgrid_from_email,
     sendgridFromName: row.sendgrid_from_name,
     companyName: row.company_name,
     companyAddress: row.company_address,
     timezone: row.timezone,
+    quietHoursStart: row.quiet_hours_start,
+    quietHoursEnd: row.quiet_hours_end,
     monthlySmsLimit: row.monthly_sms_limit,
     monthlyEmailLimit: row.monthly_email_limit,
     dataRetentionDays: row.data_retention_days,
@@ -55,6 +64,32 @@ function toAppSettings(row: AppSettingsRow): AppSettings {
   };
 }
 
+function toMessagingUsage(row: MessagingUsageRow): MessagingUsage {
+  return {
+    channel: row.channel,
+    periodStart: row.period_start,
+    messagesSent: row.messages_sent,
+    unitsUsed: row.units_used,
+    monthlyLimit: row.monthly_limit,
+    remaining: row.remaining,
+  };
+}
+
+function toRetentionReport(row: RetentionReportRow): RetentionReport {
+  return {
+    id: row.id,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    status: row.status,
+    triggerType: row.trigger_type,
+    dataRetentionDays: row.data_retention_days,
+    auditRetentionDays: row.audit_retention_days,
+    removed: row.removed ?? {},
+    held: row.held ?? {},
+    errorMessage: row.error_message,
+  };
+}
+
 function toAuditLog(row: AuditLogRow): AuditLog {
   return {
     id: row.id,
@@ -104,7 +139,7 @@ export async function updateAppSettings(
 
   const updateData: Record<string, unknown> = {};
 
-  // Twilio settings
+  // Twilio settings (the auth token is moved into Vault by the database)
   if (input.twilioAccountSid !== undefined) {
     updateData.twilio_account_sid = input.twilioAccountSid;
   }
@@ -136,6 +171,12 @@ export async function updateAppSettings(
   if (input.timezone !== undefined) {
     updateData.timezone = input.timezone;
   }
+  if (input.quietHoursStart !== undefined) {
+    updateData.quiet_hours_start = input.quietHoursStart;
+  }
+  if (input.quietHoursEnd !== undefined) {
+    updateData.quiet_hours_end = input.quietHoursEnd;
+  }
 
   // Rate limits
   if (input.monthlySmsLimit !== undefined) {
@@ -177,8 +218,8 @@ export async function getAppSettingsMasked(): Promise<AppSettings | null> {
 
   return {
     ...settings,
-    twilioAuthToken: settings.twilioAuthToken ? '••••••••' : null,
-    sendgridApiKey: settings.sendgridApiKey ? '••••••••' : null,
+    twilioAuthToken: settings.twilioAuthToken ? MASKED_SECRET : null,
+    sendgridApiKey: settings.sendgridApiKey ? MASKED_SECRET : null,
   };
 }
 
@@ -228,6 +269,95 @@ export async function getMessagingStatus(): Promise<{
   };
 }
 
+// =============================================================================
+// Provider Checks
+// =============================================================================
+
+async function invokeVerifyProvider(
+  body: Record<string, string>
+): Promise<ProviderCheckResult> {
+  const { data, error } = await supabase.functions.invoke('verify-provider', { body });
+
+  if (error) {
+    const message = error.message || 'Failed to reach the verify-provider function';
+    return { success: false, message, error: { code: 'REQUEST_FAILED', message } };
+  }
+
+  return data as ProviderCheckResult;
+}
+
+/**
+ * Check the saved credentials against the provider (admins only)
+ * A failed check resolves with the provider's error rather than throwing.
+ */
+export async function verifyProviderCredentials(
+  provider: MessagingProvider
+): Promise<ProviderCheckResult> {
+  return invokeVerifyProvider({ provider, action: 'verify' });
+}
+
+/**
+ * Send a test SMS (E.164 number) or email with the saved credentials (admins only)
+ */
+export async function sendProviderTestMessage(
+  provider: MessagingProvider,
+  to: string
+): Promise<ProviderCheckResult> {
+  return invokeVerifyProvider({ provider, action: 'test', to });
+}
+
+// =============================================================================
+// Messaging Usage Operations
+// =============================================================================
+
+/**
+ * Get this month's SMS and email usage against the monthly limits
+ * SMS usage is counted in segments. Available to every user, for campaign
+ * estimates.
+ */
+export async function getMessagingUsage(): Promise<MessagingUsage[]> {
+  const { data, error } = await supabase.rpc('get_messaging_usage');
+
+  if (error) {
+    throw AppSettingsServiceError('Failed to fetch messaging usage', error);
+  }
+
+  return ((data || []) as MessagingUsageRow[]).map(toMessagingUsage);
+}
+
+// =============================================================================
+// Data Retention Operations
+// =============================================================================
+
+/**
+ * Get the latest data retention runs (admins only)
+ */
+export async function getRetentionReports(limit: number = 10): Promise<RetentionReport[]> {
+  const { data, error } = await supabase
+    .from('retention_reports')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw AppSettingsServiceError('Failed to fetch retention reports', error);
+  }
+
+  return ((data || []) as RetentionReportRow[]).map(toRetentionReport);
+}
+
+/**
+ * Apply the retention windows now instead of waiting for the daily run
+ * (admins only)
+ */
+export async function runDataRetention(): Promise<void> {
+  const { error } = await supabase.functions.invoke('run-retention', { body: {} });
+
+  if (error) {
+    throw AppSettingsServiceError('Failed to run data retention', error);
+  }
+}
+
 // =============================================================================
 // Audit Log Operations
 // =============================================================================
@@ -404,6 +534,17 @@ export const appSettingsService = {
   isSendGridConfigured,
   getMessagingStatus,
 
+  // Provider Checks
+  verifyProviderCredentials,
+  sendProviderTestMessage,
+
+  // Messaging Usage
+  getMessagingUsage,
+
+  // Data Retention
+  getRetentionReports,
+  runDataRetention,
+
   // Audit Logs
   getAuditLogs,
   getAuditLogCount,
@@ -17,11 +17,26 @@ export type {
   CreateProfileInput,
   UpdateProfileInput,
   ProfileSearchParams,
+  // Organizations
+  Organization,
+  // Site grants
+  SiteGrant,
+  SiteGrantRole,
+  SiteGrantInput,
+  SiteAccess,
   // Settings
   AppSettings,
   UpdateAppSettingsInput,
   SettingsSection,
   SettingsSectionConfig,
+  MessagingProvider,
+  ProviderCheckResult,
+  // Messaging usage
+  MessagingChannel,
+  MessagingUsage,
+  // Data retention
+  RetentionReport,
+  RetentionReportStatus,
   // Audit
   AuditLog,
   AuditLogSearchParams,
@@ -32,8 +47,11 @@ export {
   ROLE_HIERARCHY,
   ROLE_LABELS,
   ROLE_DESCRIPTIONS,
+  SITE_GRANT_ROLE_LABELS,
   SETTINGS_SECTIONS,
+  MASKED_SECRET,
   AUDIT_EVENT_CATEGORIES,
+  RETENTION_REPORT_LABELS,
   hasMinimumRole,
   canPerformAction,
 } from '@/types/admin';
@@ -10,6 +10,11 @@ import type {
   UpdateProfileInput,
   ProfileSearchParams,
   ProfileRow,
+  Organization,
+  OrganizationRow,
+  SiteGrant,
+  SiteGrantInput,
+  SiteGrantRow,
   UserRole,
 } from '@/types/admin';
 
@@ -39,6 +44,7 @@ function toProfile(row: ProfileRow): Profile {
     id: row.id,
     email: row.email,
     role: row.role as UserRole,
+    organizationId: row.organization_id,
     displayName: row.display_name,
     avatarUrl: row.avatar_url,
     phone: row.phone,
@@ -49,6 +55,25 @@ function toProfile(row: ProfileRow): Profile {
   };
 }
 
+function toOrganization(row: OrganizationRow): Organization {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toSiteGrant(row: SiteGrantRow): SiteGrant {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    siteId: row.site_id,
+    role: row.role,
+    createdAt: row.created_at,
+  };
+}
+
 // =============================================================================
 // Profile CRUD Operations
 // =============================================================================
@@ -288,6 +313,28 @@ export async function reactivateUser(userId: string): Promise<Profile> {
   return toProfile(data);
 }
 
+/**
+ * Move a user to another organization (admin only)
+ * They lose access to their old organization's data and gain the new one's
+ */
+export async function updateUserOrganization(
+  userId: string,
+  organizationId: string
+): Promise<Profile> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ organization_id: organizationId })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    throw ProfileServiceError('Failed to update user organization', error);
+  }
+
+  return toProfile(data);
+}
+
 /**
  * Update last login timestamp
  */
@@ -370,6 +417,65 @@ export async function getProfileStats(): Promise<{
   return stats;
 }
 
+// =============================================================================
+// Organizations
+// =============================================================================
+
+/**
+ * Get the current user's organization
+ */
+export async function getOrganizations(): Promise<Organization[]> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    throw ProfileServiceError('Failed to fetch organizations', error);
+  }
+
+  return ((data || []) as OrganizationRow[]).map(toOrganization);
+}
+
+// =============================================================================
+// Site Grants
+// =============================================================================
+
+/**
+ * Get a user's site grants (admins, or the user themselves)
+ */
+export async function getUserSiteGrants(userId: string): Promise<SiteGrant[]> {
+  const { data, error } = await supabase
+    .from('user_site_grants')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at');
+
+  if (error) {
+    throw ProfileServiceError('Failed to fetch site grants', error);
+  }
+
+  return ((data || []) as SiteGrantRow[]).map(toSiteGrant);
+}
+
+/**
+ * Replace a user's site grants (admin only)
+ * No grants gives the user all of their organization's sites
+ */
+export async function setUserSiteGrants(
+  userId: string,
+  grants: SiteGrantInput[]
+): Promise<void> {
+  const { error } = await supabase.rpc('set_user_site_grants', {
+    p_user_id: userId,
+    p_grants: grants.map((grant) => ({ site_id: grant.siteId, role: grant.role })),
+  });
+
+  if (error) {
+    throw ProfileServiceError('Failed to update site grants', error);
+  }
+}
+
 // =============================================================================
 // Exports
 // =============================================================================
@@ -384,6 +490,8 @@ export const profileService = {
   getProfileWithStats,
   getProfileCount,
   getProfileStats,
+  getOrganizations,
+  getUserSiteGrants,
 
   // Mutations
   updateProfile,
@@ -391,6 +499,8 @@ export const profileService = {
   updateUserRole,
   deactivateUser,
   reactivateUser,
+  updateUserOrganization,
+  setUserSiteGrants,
   updateLastLogin,
 };
 
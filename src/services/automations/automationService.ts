@@ -0,0 +1,301 @@
+/**
+ * Automation Service
+ * CRUD operations for automation triggers, execution history and dry runs
+ */
+
+import { supabase } from '@/lib/supabase';
+import type {
+  AutomationTrigger,
+  AutomationExecutionWithMember,
+  AutomationExecutionStatus,
+  AutomationDryRunResult,
+  CreateAutomationTriggerInput,
+  UpdateAutomationTriggerInput,
+} from '@/types/member';
+
+// =============================================================================
+// Error Handling
+// =============================================================================
+
+interface ServiceError extends Error {
+  cause?: Error;
+}
+
+function AutomationServiceError(message: string, cause?: Error): ServiceError {
+  const error = new Error(message) as ServiceError;
+  error.name = 'AutomationServiceError';
+  if (cause) {
+    error.cause = cause;
+  }
+  return error;
+}
+
+// =============================================================================
+// Transform Functions
+// =============================================================================
+
+function transformTrigger(row: Record<string, unknown>): AutomationTrigger {
+  return {
+    id: row.id as string,
+    organizationId: row.organization_id as string,
+    userId: row.user_id as string | null,
+    siteId: row.site_id as string | null,
+    name: row.name as string,
+    description: row.description as string | null,
+    triggerType: row.trigger_type as AutomationTrigger['triggerType'],
+    triggerConfig: (row.trigger_config as AutomationTrigger['triggerConfig']) ?? {},
+    actionType: row.action_type as AutomationTrigger['actionType'],
+    actionConfig: (row.action_config as AutomationTrigger['actionConfig']) ?? {},
+    runTime: row.run_time as string,
+    timezone: row.timezone as string,
+    daysOfWeek: (row.days_of_week as number[]) ?? [],
+    membershipLevelIds: row.membership_level_ids as string[] | null,
+    membershipStatuses: (row.membership_statuses as AutomationTrigger['membershipStatuses']) ?? [],
+    requiredTags: row.required_tags as string[] | null,
+    excludedTags: row.excluded_tags as string[] | null,
+    minIntervalDays: (row.min_interval_days as number) ?? 0,
+    maxSendsPerMember: row.max_sends_per_member as number | null,
+    isActive: row.is_active as boolean,
+    lastRunAt: row.last_run_at as string | null,
+    nextRunAt: row.next_run_at as string | null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function transformExecutionWithMember(row: Record<string, unknown>): AutomationExecutionWithMember {
+  const member = row.members as Record<string, unknown> | null;
+
+  return {
+    id: row.id as string,
+    triggerId: row.trigger_id as string,
+    memberId: row.member_id as string,
+    executedAt: row.executed_at as string,
+    status: row.status as AutomationExecutionStatus,
+    resultMessage: row.result_message as string | null,
+    resultMetadata: (row.result_metadata as Record<string, unknown>) ?? {},
+    actionType: row.action_type as AutomationExecutionWithMember['actionType'],
+    member: member
+      ? {
+          id: member.id as string,
+          firstName: member.first_name as string | null,
+          lastName: member.last_name as string | null,
+          email: member.email as string | null,
+          phone: member.phone as string | null,
+        }
+      : null,
+  };
+}
+
+// =============================================================================
+// CRUD Operations
+// =============================================================================
+
+/**
+ * Get all automation triggers, optionally for one site
+ */
+export async function getAutomationTriggers(siteId?: string): Promise<AutomationTrigger[]> {
+  let query = supabase
+    .from('automation_triggers')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (siteId) {
+    query = query.eq('site_id', siteId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw AutomationServiceError('Failed to fetch automations', error);
+  }
+
+  return (data || []).map(transformTrigger);
+}
+
+/**
+ * Get a single automation trigger by ID
+ */
+export async function getAutomationTriggerById(id: string): Promise<AutomationTrigger | null> {
+  const { data, error } = await supabase
+    .from('automation_triggers')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw AutomationServiceError('Failed to fetch automation', error);
+  }
+
+  return transformTrigger(data);
+}
+
+/**
+ * Create an automation trigger
+ * next_run_at is derived from the schedule by the database.
+ */
+export async function createAutomationTrigger(
+  input: CreateAutomationTriggerInput
+): Promise<AutomationTrigger> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw AutomationServiceError('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('automation_triggers')
+    .insert({
+      user_id: user.id,
+      site_id: input.siteId || null,
+      name: input.name,
+      description: input.description || null,
+      trigger_type: input.triggerType,
+      trigger_config: input.triggerConfig,
+      action_type: input.actionType,
+      action_config: input.actionConfig,
+      run_time: input.runTime || '09:00',
+      timezone: input.timezone || 'America/New_York',
+      days_of_week: input.daysOfWeek || [0, 1, 2, 3, 4, 5, 6],
+      membership_level_ids: input.membershipLevelIds || null,
+      membership_statuses: input.membershipStatuses || ['active'],
+      required_tags: input.requiredTags || null,
+      excluded_tags: input.excludedTags || null,
+      min_interval_days: input.minIntervalDays ?? 0,
+      max_sends_per_member: input.maxSendsPerMember ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw AutomationServiceError('Failed to create automation', error);
+  }
+
+  return transformTrigger(data);
+}
+
+/**
+ * Update an automation trigger
+ */
+export async function updateAutomationTrigger(
+  id: string,
+  input: UpdateAutomationTriggerInput
+): Promise<AutomationTrigger> {
+  const updateData: Record<string, unknown> = {};
+
+  if (input.name !== undefined) updateData.name = input.name;
+  if (input.siteId !== undefined) updateData.site_id = input.siteId;
+  if (input.description !== undefined) updateData.description = input.description;
+  if (input.triggerType !== undefined) updateData.trigger_type = input.triggerType;
+  if (input.triggerConfig !== undefined) updateData.trigger_config = input.triggerConfig;
+  if (input.actionType !== undefined) updateData.action_type = input.actionType;
+  if (input.actionConfig !== undefined) updateData.action_config = input.actionConfig;
+  if (input.runTime !== undefined) updateData.run_time = input.runTime;
+  if (input.timezone !== undefined) updateData.timezone = input.timezone;
+  if (input.daysOfWeek !== undefined) updateData.days_of_week = input.daysOfWeek;
+  if (input.membershipLevelIds !== undefined) updateData.membership_level_ids = input.membershipLevelIds;
+  if (input.membershipStatuses !== undefined) updateData.membership_statuses = input.membershipStatuses;
+  if (input.requiredTags !== undefined) updateData.required_tags = input.requiredTags;
+  if (input.excludedTags !== undefined) updateData.excluded_tags = input.excludedTags;
+  if (input.minIntervalDays !== undefined) updateData.min_interval_days = input.minIntervalDays;
+  if (input.maxSendsPerMember !== undefined) updateData.max_sends_per_member = input.maxSendsPerMember;
+  if (input.isActive !== undefined) updateData.is_active = input.isActive;
+
+  const { data, error } = await supabase
+    .from('automation_triggers')
+    .update(updateData)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw AutomationServiceError('Failed to update automation', error);
+  }
+
+  return transformTrigger(data);
+}
+
+/**
+ * Delete an automation trigger (and its execution history)
+ */
+export async function deleteAutomationTrigger(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('automation_triggers')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw AutomationServiceError('Failed to delete automation', error);
+  }
+}
+
+// =============================================================================
+// Executions
+// =============================================================================
+
+/**
+ * Get the execution log for a trigger, newest first
+ */
+export async function getAutomationExecutions(
+  triggerId: string,
+  params?: {
+    status?: AutomationExecutionStatus;
+    limit?: number;
+  }
+): Promise<AutomationExecutionWithMember[]> {
+  let query = supabase
+    .from('automation_executions')
+    .select(`
+      *,
+      members (id, first_name, last_name, email, phone)
+    `)
+    .eq('trigger_id', triggerId)
+    .order('executed_at', { ascending: false });
+
+  if (params?.status) {
+    query = query.eq('status', params.status);
+  }
+
+  if (params?.limit) {
+    query = query.limit(params.limit);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw AutomationServiceError('Failed to fetch automation executions', error);
+  }
+
+  return (data || []).map(transformExecutionWithMember);
+}
+
+/**
+ * Preview which members a trigger would target now and what each would
+ * receive. Runs the run-automations executor in dry-run mode: nothing is
+ * sent and no executions are recorded.
+ */
+export async function dryRunAutomationTrigger(id: string): Promise<AutomationDryRunResult> {
+  const { data, error } = await supabase.functions.invoke('run-automations', {
+    body: { triggerId: id, dryRun: true },
+  });
+
+  if (error) {
+    throw AutomationServiceError('Failed to preview automation', error);
+  }
+
+  return data.dryRun as AutomationDryRunResult;
+}
+
+// =============================================================================
+// Export Service Object
+// =============================================================================
+
+export const automationService = {
+  getAutomationTriggers,
+  getAutomationTriggerById,
+  createAutomationTrigger,
+  updateAutomationTrigger,
+  deleteAutomationTrigger,
+  getAutomationExecutions,
+  dryRunAutomationTrigger,
+};
+
+export default automationService;
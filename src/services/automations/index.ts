@@ -0,0 +1,34 @@
+/**
+ * Automation Services
+ * Exports for automation trigger management
+ */
+
+// Services
+export { automationService } from './automationService';
+
+// React Query Hooks
+export {
+  useAutomations,
+  useAutomation,
+  useAutomationExecutions,
+  useCreateAutomation,
+  useUpdateAutomation,
+  useDeleteAutomation,
+  useAutomationDryRun,
+} from './useAutomations';
+
+// Re-export types for convenience
+export type {
+  AutomationTrigger,
+  AutomationExecution,
+  AutomationExecutionWithMember,
+  AutomationExecutionStatus,
+  AutomationDryRunResult,
+  AutomationDryRunMember,
+  CreateAutomationTriggerInput,
+  UpdateAutomationTriggerInput,
+  TriggerType,
+  TriggerConfig,
+  ActionType,
+  ActionConfig,
+} from '@/types/member';
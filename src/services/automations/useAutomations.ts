@@ -0,0 +1,106 @@
+/**
+ * Automation React Query Hooks
+ * Hooks for fetching and mutating automation triggers
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { automationKeys } from '@/lib/queryKeys';
+import { automationService } from './automationService';
+import type {
+  AutomationExecutionStatus,
+  CreateAutomationTriggerInput,
+  UpdateAutomationTriggerInput,
+} from '@/types/member';
+
+// =============================================================================
+// Automation Hooks
+// =============================================================================
+
+/**
+ * Fetch automation triggers
+ */
+export function useAutomations(siteId?: string) {
+  return useQuery({
+    queryKey: automationKeys.list(siteId),
+    queryFn: () => automationService.getAutomationTriggers(siteId),
+  });
+}
+
+/**
+ * Fetch a single automation trigger
+ */
+export function useAutomation(id: string) {
+  return useQuery({
+    queryKey: automationKeys.detail(id),
+    queryFn: () => automationService.getAutomationTriggerById(id),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Fetch the execution log for a trigger
+ */
+export function useAutomationExecutions(
+  triggerId: string,
+  params?: { status?: AutomationExecutionStatus; limit?: number }
+) {
+  return useQuery({
+    queryKey: [...automationKeys.executions(triggerId), params],
+    queryFn: () => automationService.getAutomationExecutions(triggerId, params),
+    enabled: !!triggerId,
+  });
+}
+
+/**
+ * Create an automation trigger
+ */
+export function useCreateAutomation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateAutomationTriggerInput) =>
+      automationService.createAutomationTrigger(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: automationKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Update an automation trigger (including pausing / activating it)
+ */
+export function useUpdateAutomation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateAutomationTriggerInput }) =>
+      automationService.updateAutomationTrigger(id, input),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: automationKeys.detail(data.id) });
+      queryClient.invalidateQueries({ queryKey: automationKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Delete an automation trigger
+ */
+export function useDeleteAutomation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => automationService.deleteAutomationTrigger(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: automationKeys.all });
+    },
+  });
+}
+
+/**
+ * Preview the members a trigger would target now (sends nothing)
+ */
+export function useAutomationDryRun() {
+  return useMutation({
+    mutationFn: (id: string) => automationService.dryRunAutomationTrigger(id),
+  });
+}
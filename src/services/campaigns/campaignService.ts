@@ -4,6 +4,8 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { findUnknownVariables } from '@/utils/templateEngine';
+import { requireSiteAccess } from '@/services/members/siteService';
 import type {
   Campaign,
   CampaignWithDetails,
@@ -11,7 +13,13 @@ import type {
   UpdateCampaignInput,
   CampaignSearchParams,
   CampaignRecipient,
+  CampaignAudienceCriteria,
   CampaignMetrics,
+  CampaignDeferredStats,
+  CampaignAcquisition,
+  CampaignVariant,
+  CampaignVariantInput,
+  VariantMetrics,
   CampaignStatus,
 } from '@/types/campaign';
 
@@ -39,7 +47,8 @@ function CampaignServiceError(message: string, cause?: Error): ServiceError {
 function transformCampaign(row: Record<string, unknown>): Campaign {
   return {
     id: row.id as string,
-    userId: row.user_id as string,
+    organizationId: row.organization_id as string,
+    userId: row.user_id as string | null,
     siteId: row.site_id as string | null,
     name: row.name as string,
     description: row.description as string | null,
@@ -49,6 +58,12 @@ function transformCampaign(row: Record<string, unknown>): Campaign {
     subject: row.subject as string | null,
     content: row.content as string,
     scheduledAt: row.scheduled_at as string | null,
+    localSendTime: row.local_send_time as string | null,
+    abTestPercent: row.ab_test_percent as number | null,
+    abWinnerMetric: (row.ab_winner_metric as Campaign['abWinnerMetric']) ?? 'open_rate',
+    abWinnerDelayHours: (row.ab_winner_delay_hours as number) ?? 4,
+    abWinnerVariantId: row.ab_winner_variant_id as string | null,
+    abWinnerSelectedAt: row.ab_winner_selected_at as string | null,
     startedAt: row.started_at as string | null,
     completedAt: row.completed_at as string | null,
     targetAllMembers: row.target_all_members as boolean,
@@ -64,12 +79,47 @@ function transformCampaign(row: Record<string, unknown>): Campaign {
     totalClicked: row.total_clicked as number,
     totalBounced: row.total_bounced as number,
     totalUnsubscribed: row.total_unsubscribed as number,
+    allowOverLimit: (row.allow_over_limit as boolean) ?? false,
+    legalHold: (row.legal_hold as boolean) ?? false,
     metadata: row.metadata as Record<string, unknown>,
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string,
   };
 }
 
+function transformVariant(row: Record<string, unknown>): CampaignVariant {
+  return {
+    id: row.id as string,
+    campaignId: row.campaign_id as string,
+    label: row.label as string,
+    subject: row.subject as string | null,
+    content: row.content as string,
+    splitPercent: row.split_percent as number,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function transformVariantMetrics(row: Record<string, unknown>): VariantMetrics {
+  return {
+    variantId: row.variant_id as string,
+    label: row.label as string,
+    subject: row.subject as string | null,
+    splitPercent: row.split_percent as number,
+    isWinner: row.is_winner as boolean,
+    totalRecipients: row.total_recipients as number,
+    totalSent: row.total_sent as number,
+    totalDelivered: row.total_delivered as number,
+    totalFailed: row.total_failed as number,
+    totalOpened: row.total_opened as number,
+    totalClicked: row.total_clicked as number,
+    totalBounced: row.total_bounced as number,
+    deliveryRate: row.delivery_rate as number,
+    openRate: row.open_rate as number,
+    clickRate: row.click_rate as number,
+  };
+}
+
 function transformCampaignWithDetails(row: Record<string, unknown>): CampaignWithDetails {
   const campaign = transformCampaign(row);
 
@@ -79,7 +129,8 @@ function transformCampaignWithDetails(row: Record<string, unknown>): CampaignWit
     const template = row.campaign_templates as Record<string, unknown>;
     result.template = {
       id: template.id as string,
-      userId: template.user_id as string,
+      organizationId: template.organization_id as string,
+      userId: template.user_id as string | null,
       name: template.name as string,
       description: template.description as string | null,
       templateType: template.template_type as Campaign['campaignType'],
@@ -194,6 +245,8 @@ export async function getCampaignWithDetails(id: string): Promise<CampaignWithDe
  * Create a new campaign
  */
 export async function createCampaign(input: CreateCampaignInput): Promise<Campaign> {
+  await requireSiteAccess(input.siteId || null);
+
   const { data, error } = await supabase
     .from('campaigns')
     .insert({
@@ -205,11 +258,16 @@ export async function createCampaign(input: CreateCampaignInput): Promise<Campai
       subject: input.subject || null,
       content: input.content,
       scheduled_at: input.scheduledAt || null,
+      local_send_time: input.localSendTime || null,
+      ab_test_percent: input.abTestPercent ?? null,
+      ab_winner_metric: input.abWinnerMetric || 'open_rate',
+      ab_winner_delay_hours: input.abWinnerDelayHours ?? 4,
       target_all_members: input.targetAllMembers || false,
       membership_level_ids: input.membershipLevelIds || null,
       membership_statuses: input.membershipStatuses || ['active'],
       required_tags: input.requiredTags || null,
       excluded_tags: input.excludedTags || null,
+      allow_over_limit: input.allowOverLimit ?? false,
       metadata: input.metadata || {},
     })
     .select()
@@ -219,6 +277,10 @@ export async function createCampaign(input: CreateCampaignInput): Promise<Campai
     throw CampaignServiceError('Failed to create campaign', error);
   }
 
+  if (input.variants?.length) {
+    await replaceCampaignVariants(data.id as string, input.variants);
+  }
+
   return transformCampaign(data);
 }
 
@@ -226,6 +288,10 @@ export async function createCampaign(input: CreateCampaignInput): Promise<Campai
  * Update a campaign
  */
 export async function updateCampaign(id: string, input: UpdateCampaignInput): Promise<Campaign> {
+  if (input.siteId !== undefined) {
+    await requireSiteAccess(input.siteId || null);
+  }
+
   const updateData: Record<string, unknown> = {};
 
   if (input.name !== undefined) updateData.name = input.name;
@@ -235,12 +301,17 @@ export async function updateCampaign(id: string, input: UpdateCampaignInput): Pr
   if (input.subject !== undefined) updateData.subject = input.subject;
   if (input.content !== undefined) updateData.content = input.content;
   if (input.scheduledAt !== undefined) updateData.scheduled_at = input.scheduledAt;
+  if (input.localSendTime !== undefined) updateData.local_send_time = input.localSendTime;
+  if (input.abTestPercent !== undefined) updateData.ab_test_percent = input.abTestPercent;
+  if (input.abWinnerMetric !== undefined) updateData.ab_winner_metric = input.abWinnerMetric;
+  if (input.abWinnerDelayHours !== undefined) updateData.ab_winner_delay_hours = input.abWinnerDelayHours;
   if (input.status !== undefined) updateData.status = input.status;
   if (input.targetAllMembers !== undefined) updateData.target_all_members = input.targetAllMembers;
   if (input.membershipLevelIds !== undefined) updateData.membership_level_ids = input.membershipLevelIds;
   if (input.membershipStatuses !== undefined) updateData.membership_statuses = input.membershipStatuses;
   if (input.requiredTags !== undefined) updateData.required_tags = input.requiredTags;
   if (input.excludedTags !== undefined) updateData.excluded_tags = input.excludedTags;
+  if (input.allowOverLimit !== undefined) updateData.allow_over_limit = input.allowOverLimit;
   if (input.metadata !== undefined) updateData.metadata = input.metadata;
 
   const { data, error } = await supabase
@@ -254,6 +325,10 @@ export async function updateCampaign(id: string, input: UpdateCampaignInput): Pr
     throw CampaignServiceError('Failed to update campaign', error);
   }
 
+  if (input.variants !== undefined) {
+    await replaceCampaignVariants(id, input.variants);
+  }
+
   return transformCampaign(data);
 }
 
@@ -271,6 +346,76 @@ export async function deleteCampaign(id: string): Promise<void> {
   }
 }
 
+/**
+ * Place or release a legal hold, exempting the campaign's messages from data
+ * retention (admins only)
+ */
+export async function setCampaignLegalHold(id: string, hold: boolean): Promise<void> {
+  const { error } = await supabase.rpc('set_campaign_legal_hold', {
+    p_campaign_id: id,
+    p_hold: hold,
+  });
+
+  if (error) {
+    throw CampaignServiceError('Failed to update legal hold', error);
+  }
+}
+
+// =============================================================================
+// Variants (A/B testing)
+// =============================================================================
+
+/**
+ * Get a campaign's content variants, ordered by label
+ */
+export async function getCampaignVariants(campaignId: string): Promise<CampaignVariant[]> {
+  const { data, error } = await supabase
+    .from('campaign_variants')
+    .select('*')
+    .eq('campaign_id', campaignId)
+    .order('label', { ascending: true });
+
+  if (error) {
+    throw CampaignServiceError('Failed to fetch campaign variants', error);
+  }
+
+  return (data || []).map(transformVariant);
+}
+
+/**
+ * Replace a campaign's variants (only used before the campaign starts, so
+ * no messages reference the old rows)
+ */
+async function replaceCampaignVariants(
+  campaignId: string,
+  variants: CampaignVariantInput[]
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('campaign_variants')
+    .delete()
+    .eq('campaign_id', campaignId);
+
+  if (deleteError) {
+    throw CampaignServiceError('Failed to update campaign variants', deleteError);
+  }
+
+  if (variants.length === 0) return;
+
+  const { error } = await supabase.from('campaign_variants').insert(
+    variants.map((variant) => ({
+      campaign_id: campaignId,
+      label: variant.label,
+      subject: variant.subject || null,
+      content: variant.content,
+      split_percent: variant.splitPercent,
+    }))
+  );
+
+  if (error) {
+    throw CampaignServiceError('Failed to update campaign variants', error);
+  }
+}
+
 // =============================================================================
 // Campaign Operations
 // =============================================================================
@@ -298,6 +443,28 @@ export async function getCampaignRecipients(campaignId: string): Promise<Campaig
   }));
 }
 
+/**
+ * Count the members a campaign with these settings would reach
+ * (same targeting and consent checks as getCampaignRecipients)
+ */
+export async function countCampaignAudience(criteria: CampaignAudienceCriteria): Promise<number> {
+  const { data, error } = await supabase.rpc('count_campaign_audience', {
+    p_campaign_type: criteria.campaignType,
+    p_site_id: criteria.siteId || null,
+    p_target_all_members: criteria.targetAllMembers ?? false,
+    p_membership_statuses: criteria.membershipStatuses ?? null,
+    p_membership_level_ids: criteria.membershipLevelIds ?? null,
+    p_required_tags: criteria.requiredTags ?? null,
+    p_excluded_tags: criteria.excludedTags ?? null,
+  });
+
+  if (error) {
+    throw CampaignServiceError('Failed to count campaign audience', error);
+  }
+
+  return (data as number) ?? 0;
+}
+
 /**
  * Get campaign metrics
  */
@@ -312,6 +479,15 @@ export async function getCampaignMetrics(campaignId: string): Promise<CampaignMe
 
   if (!data || data.length === 0) return null;
 
+  const { data: variantRows, error: variantError } = await supabase.rpc(
+    'get_campaign_variant_metrics',
+    { p_campaign_id: campaignId }
+  );
+
+  if (variantError) {
+    throw CampaignServiceError('Failed to get variant metrics', variantError);
+  }
+
   const row = data[0];
   return {
     totalRecipients: row.total_recipients as number,
@@ -325,15 +501,86 @@ export async function getCampaignMetrics(campaignId: string): Promise<CampaignMe
     openRate: row.open_rate as number,
     clickRate: row.click_rate as number,
     bounceRate: row.bounce_rate as number,
+    variants: (variantRows || []).map(transformVariantMetrics),
+  };
+}
+
+/**
+ * Get queued messages that are being held back, grouped by reason
+ * (recipient local send time or quiet hours)
+ */
+export async function getCampaignDeferredStats(campaignId: string): Promise<CampaignDeferredStats[]> {
+  const { data, error } = await supabase.rpc('get_campaign_deferred_stats', {
+    p_campaign_id: campaignId,
+  });
+
+  if (error) {
+    throw CampaignServiceError('Failed to get deferred message stats', error);
+  }
+
+  return (data || []).map((row: Record<string, unknown>) => ({
+    reason: row.deferred_reason as CampaignDeferredStats['reason'],
+    messageCount: row.message_count as number,
+    nextSendAt: row.next_send_at as string,
+    lastSendAt: row.last_send_at as string,
+  }));
+}
+
+/**
+ * Get members acquired through a campaign (directly or via its promo codes)
+ * and the campaign's customer acquisition cost
+ */
+export async function getCampaignAcquisition(campaignId: string): Promise<CampaignAcquisition | null> {
+  const { data, error } = await supabase.rpc('get_campaign_acquisition', {
+    p_campaign_id: campaignId,
+  });
+
+  if (error) {
+    throw CampaignServiceError('Failed to get campaign acquisition', error);
+  }
+
+  if (!data || data.length === 0) return null;
+
+  const row = data[0];
+  return {
+    membersAcquired: Number(row.members_acquired) || 0,
+    totalAcquisitionCost: Number(row.total_acquisition_cost) || 0,
+    avgCac: Number(row.avg_cac) || 0,
+    promoCodeCount: Number(row.promo_code_count) || 0,
+    promoCodeUses: Number(row.promo_code_uses) || 0,
   };
 }
 
 /**
  * Schedule a campaign
+ * Refuses campaigns whose content (or any variant) references unknown
+ * template variables.
+ * @param localSendTime - Optional HH:MM to deliver at in each recipient's
+ *   site timezone, on or after scheduledAt
  */
-export async function scheduleCampaign(id: string, scheduledAt: string): Promise<Campaign> {
+export async function scheduleCampaign(
+  id: string,
+  scheduledAt: string,
+  localSendTime?: string | null
+): Promise<Campaign> {
+  const campaign = await getCampaignById(id);
+  if (!campaign) {
+    throw CampaignServiceError('Campaign not found');
+  }
+
+  const variants = await getCampaignVariants(id);
+  const unknownVariables = findUnknownVariables(
+    campaign.content,
+    campaign.subject,
+    ...variants.flatMap((variant) => [variant.subject, variant.content])
+  );
+  if (unknownVariables.length > 0) {
+    throw CampaignServiceError(`Unknown template variables: ${unknownVariables.join(', ')}`);
+  }
+
   return updateCampaign(id, {
     scheduledAt,
+    localSendTime: localSendTime || null,
     status: 'scheduled' as CampaignStatus,
   });
 }
@@ -363,15 +610,32 @@ export async function queueCampaignMessages(campaignId: string): Promise<number>
 }
 
 /**
- * Update campaign statistics
+ * Resume sending a campaign that is stuck in 'sending'
+ * Runs the process-campaign worker for this campaign; large campaigns may
+ * need several runs (the scheduled worker also picks them up).
  */
-export async function updateCampaignStats(campaignId: string): Promise<void> {
-  const { error } = await supabase.rpc('update_campaign_stats', {
-    p_campaign_id: campaignId,
+export async function resumeCampaign(campaignId: string): Promise<void> {
+  const { error } = await supabase.functions.invoke('process-campaign', {
+    body: { campaignId },
+  });
+
+  if (error) {
+    throw CampaignServiceError('Failed to resume campaign', error);
+  }
+}
+
+/**
+ * Finalize a campaign that cannot be resumed
+ * Messages that are still queued are marked failed and the campaign totals
+ * are recalculated from the message records.
+ */
+export async function finalizeCampaign(campaignId: string): Promise<void> {
+  const { error } = await supabase.functions.invoke('process-campaign', {
+    body: { campaignId, action: 'finalize' },
   });
 
   if (error) {
-    throw CampaignServiceError('Failed to update campaign stats', error);
+    throw CampaignServiceError('Failed to finalize campaign', error);
   }
 }
 
@@ -386,12 +650,18 @@ export const campaignService = {
   createCampaign,
   updateCampaign,
   deleteCampaign,
+  setCampaignLegalHold,
   getCampaignRecipients,
+  countCampaignAudience,
+  getCampaignVariants,
   getCampaignMetrics,
+  getCampaignDeferredStats,
+  getCampaignAcquisition,
   scheduleCampaign,
   cancelCampaign,
   queueCampaignMessages,
-  updateCampaignStats,
+  resumeCampaign,
+  finalizeCampaign,
 };
 
 export default campaignService;
@@ -0,0 +1,237 @@
+/**
+ * Conversation Service
+ * Two-way SMS threads between staff and members
+ */
+
+import { supabase } from '@/lib/supabase';
+import { formatToE164, phonesMatch } from '@/utils/phone';
+import { smsService } from './smsService';
+import type {
+  ConversationMessage,
+  ConversationMessageStatus,
+  SendConversationReplyInput,
+} from '@/types/campaign';
+
+// =============================================================================
+// Error Handling
+// =============================================================================
+
+interface ServiceError extends Error {
+  cause?: Error;
+}
+
+function ConversationServiceError(message: string, cause?: Error): ServiceError {
+  const error = new Error(message) as ServiceError;
+  error.name = 'ConversationServiceError';
+  if (cause) {
+    error.cause = cause;
+  }
+  return error;
+}
+
+// =============================================================================
+// Transform Functions
+// =============================================================================
+
+function transformConversationMessage(row: Record<string, unknown>): ConversationMessage {
+  return {
+    id: row.id as string,
+    memberId: row.member_id as string | null,
+    direction: row.direction as ConversationMessage['direction'],
+    phone: row.phone as string,
+    body: row.body as string,
+    status: row.status as ConversationMessageStatus,
+    externalId: row.external_id as string | null,
+    errorMessage: row.error_message as string | null,
+    isRead: row.is_read as boolean,
+    readAt: row.read_at as string | null,
+    sentBy: row.sent_by as string | null,
+    createdAt: row.created_at as string,
+  };
+}
+
+// =============================================================================
+// Query Operations
+// =============================================================================
+
+/**
+ * Get the conversation thread for a member, oldest first.
+ * Also includes messages from the member's number that arrived before the
+ * number was linked to a member record.
+ */
+export async function getConversation(
+  memberId: string,
+  phone?: string | null
+): Promise<ConversationMessage[]> {
+  const { data, error } = await supabase
+    .from('sms_conversation_messages')
+    .select('*')
+    .eq('member_id', memberId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw ConversationServiceError('Failed to fetch conversation', error);
+  }
+
+  const messages = (data || []).map(transformConversationMessage);
+
+  const e164 = phone ? formatToE164(phone) : null;
+  if (!phone || !e164) {
+    return messages;
+  }
+
+  const { data: unmatched, error: unmatchedError } = await supabase
+    .from('sms_conversation_messages')
+    .select('*')
+    .is('member_id', null)
+    .eq('phone', e164);
+
+  if (unmatchedError) {
+    throw ConversationServiceError('Failed to fetch conversation', unmatchedError);
+  }
+
+  const extra = (unmatched || [])
+    .map(transformConversationMessage)
+    .filter((message) => phonesMatch(message.phone, phone));
+
+  if (extra.length === 0) {
+    return messages;
+  }
+
+  return [...messages, ...extra].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Count inbound messages that have not been read yet
+ */
+export async function getUnreadCount(): Promise<number> {
+  const { count, error } = await supabase
+    .from('sms_conversation_messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('direction', 'inbound')
+    .eq('is_read', false);
+
+  if (error) {
+    throw ConversationServiceError('Failed to count unread messages', error);
+  }
+
+  return count ?? 0;
+}
+
+// =============================================================================
+// Update Operations
+// =============================================================================
+
+/**
+ * Mark all inbound messages in a member's conversation as read, including
+ * the unlinked messages from their number that getConversation shows
+ */
+export async function markConversationRead(
+  memberId: string,
+  phone?: string | null
+): Promise<void> {
+  const readAt = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('sms_conversation_messages')
+    .update({ is_read: true, read_at: readAt })
+    .eq('member_id', memberId)
+    .eq('direction', 'inbound')
+    .eq('is_read', false);
+
+  if (error) {
+    throw ConversationServiceError('Failed to mark conversation read', error);
+  }
+
+  const e164 = phone ? formatToE164(phone) : null;
+  if (!e164) {
+    return;
+  }
+
+  const { error: unmatchedError } = await supabase
+    .from('sms_conversation_messages')
+    .update({ is_read: true, read_at: readAt })
+    .is('member_id', null)
+    .eq('phone', e164)
+    .eq('direction', 'inbound')
+    .eq('is_read', false);
+
+  if (unmatchedError) {
+    throw ConversationServiceError('Failed to mark conversation read', unmatchedError);
+  }
+}
+
+/**
+ * Send a staff reply to a member through the send-sms Edge Function.
+ * The reply is stored first so it appears in the thread even if delivery fails.
+ */
+export async function sendReply(input: SendConversationReplyInput): Promise<ConversationMessage> {
+  const to = formatToE164(input.phone);
+  if (!to) {
+    throw ConversationServiceError('Member phone number cannot be formatted for SMS');
+  }
+
+  const body = input.body.trim();
+  if (!body) {
+    throw ConversationServiceError('Reply cannot be empty');
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw ConversationServiceError('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('sms_conversation_messages')
+    .insert({
+      user_id: user.id,
+      member_id: input.memberId,
+      direction: 'outbound',
+      phone: to,
+      body,
+      status: 'queued',
+      is_read: true,
+      sent_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw ConversationServiceError('Failed to save reply', error);
+  }
+
+  const result = await smsService.sendSingle({
+    messageId: data.id as string,
+    to,
+    body,
+    memberId: input.memberId,
+    source: 'conversation',
+  });
+
+  if (!result.success) {
+    // send-sms marks consent failures itself; record any other failure here
+    await supabase
+      .from('sms_conversation_messages')
+      .update({ status: 'failed', error_message: result.error ?? 'Failed to send SMS' })
+      .eq('id', data.id);
+
+    throw ConversationServiceError(result.error || 'Failed to send reply');
+  }
+
+  return {
+    ...transformConversationMessage(data),
+    status: 'sent',
+    externalId: result.externalId ?? null,
+  };
+}
+
+// =============================================================================
+// Export Service Object
+// =============================================================================
+
+export const conversationService = {
+  getConversation,
+  getUnreadCount,
+  markConversationRead,
+  sendReply,
+};
+
+export default conversationService;
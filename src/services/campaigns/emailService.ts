@@ -4,6 +4,8 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { renderTemplate } from '@/utils/templateEngine';
+import type { TemplateContext } from '@/utils/templateEngine';
 
 // =============================================================================
 // Types
@@ -101,15 +103,10 @@ export const emailService = {
   },
 
   /**
-   * Replace template variables in email content
+   * Replace template variables in email HTML (values are HTML-escaped)
    */
-  renderTemplate(
-    template: string,
-    variables: Record<string, string>
-  ): string {
-    return template.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-      return variables[key] ?? match;
-    });
+  renderTemplate(template: string, context: TemplateContext): string {
+    return renderTemplate(template, context, { escapeHtml: true });
   },
 
   /**
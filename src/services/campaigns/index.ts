@@ -9,6 +9,7 @@ export { templateService } from './templateService';
 export { messageService } from './messageService';
 export { smsService } from './smsService';
 export { emailService } from './emailService';
+export { conversationService } from './conversationService';
 
 // React Query Hooks
 export {
@@ -16,14 +17,21 @@ export {
   useCampaigns,
   useCampaign,
   useCampaignMetrics,
+  useCampaignDeferredStats,
+  useCampaignVariants,
+  useCampaignAcquisition,
   useCampaignRecipients,
+  useCampaignAudienceSize,
   useCampaignMessages,
   useCreateCampaign,
   useUpdateCampaign,
   useDeleteCampaign,
+  useSetCampaignLegalHold,
   useScheduleCampaign,
   useCancelCampaign,
   useQueueCampaignMessages,
+  useResumeCampaign,
+  useFinalizeCampaign,
   // Template hooks
   useTemplates,
   useTemplate,
@@ -32,6 +40,11 @@ export {
   useDeleteTemplate,
   // Message hooks
   useUpdateMessageStatus,
+  // Conversation hooks
+  useConversation,
+  useUnreadConversationCount,
+  useMarkConversationRead,
+  useSendConversationReply,
 } from './useCampaigns';
 
 // Re-export types for convenience
@@ -51,5 +64,10 @@ export type {
   CampaignMessageWithMember,
   MessageStatus,
   CampaignRecipient,
+  CampaignAudienceCriteria,
   SmsValidationResult,
+  ConversationMessage,
+  ConversationDirection,
+  ConversationMessageStatus,
+  SendConversationReplyInput,
 } from '@/types/campaign';
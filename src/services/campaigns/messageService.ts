@@ -36,6 +36,7 @@ function transformMessage(row: Record<string, unknown>): CampaignMessage {
     id: row.id as string,
     campaignId: row.campaign_id as string,
     memberId: row.member_id as string,
+    variantId: (row.variant_id as string | null) ?? null,
     channel: row.channel as CampaignMessage['channel'],
     recipientAddress: row.recipient_address as string,
     status: row.status as MessageStatus,
@@ -48,6 +49,8 @@ function transformMessage(row: Record<string, unknown>): CampaignMessage {
     externalId: row.external_id as string | null,
     providerStatus: row.provider_status as string | null,
     errorMessage: row.error_message as string | null,
+    attemptCount: (row.attempt_count as number) ?? 0,
+    nextAttemptAt: row.next_attempt_at as string | null,
     metadata: row.metadata as Record<string, unknown>,
   };
 }
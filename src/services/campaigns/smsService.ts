@@ -6,6 +6,8 @@
 import { supabase } from '@/lib/supabase';
 import { validateE164, formatToE164, maskPhone } from '@/utils/phone';
 import type { PhoneValidationResult } from '@/utils/phone';
+import { renderTemplate } from '@/utils/templateEngine';
+import type { TemplateContext } from '@/utils/templateEngine';
 
 // =============================================================================
 // Types
@@ -17,6 +19,7 @@ export interface SendSmsRequest {
   body: string;
   memberId?: string;
   campaignId?: string;
+  source?: 'campaign' | 'conversation';
 }
 
 export interface SendSmsResponse {
@@ -69,15 +72,15 @@ export const smsService = {
   },
 
   /**
-   * Check if SMS can be sent to a member (TCPA consent + quiet hours)
+   * Check if SMS can be sent to a member (TCPA consent + configured quiet hours)
    */
   async checkConsent(
     memberId: string,
-    timezone = 'America/New_York'
+    timezone?: string
   ): Promise<SmsConsentResult> {
     const { data, error } = await supabase.rpc('can_send_sms', {
       p_member_id: memberId,
-      p_timezone: timezone,
+      p_site_timezone: timezone ?? null, // NULL = member's site timezone
     });
 
     if (error) {
@@ -88,13 +91,16 @@ export const smsService = {
       };
     }
 
-    if (data === true) {
+    // can_send_sms returns a single (can_send, reason) row
+    const result = Array.isArray(data) ? data[0] : data;
+
+    if (result?.can_send === true) {
       return { canSend: true };
     }
 
     return {
       canSend: false,
-      reason: 'SMS consent not granted or outside quiet hours (8 AM - 9 PM)',
+      reason: result?.reason || 'SMS consent not granted or outside quiet hours',
     };
   },
 
@@ -153,13 +159,8 @@ export const smsService = {
   /**
    * Replace template variables in SMS content
    */
-  renderTemplate(
-    template: string,
-    variables: Record<string, string>
-  ): string {
-    return template.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-      return variables[key] ?? match;
-    });
+  renderTemplate(template: string, context: TemplateContext): string {
+    return renderTemplate(template, context);
   },
 
   /**
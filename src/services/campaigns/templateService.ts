@@ -4,6 +4,13 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import {
+  renderTemplate as renderWithEngine,
+  extractVariableNames,
+  findUnknownVariables,
+} from '@/utils/templateEngine';
+import { calculateSegmentCount, containsUnicode } from '@/utils/messagingUsage';
+import type { TemplateContext, RenderOptions } from '@/utils/templateEngine';
 import type {
   CampaignTemplate,
   CreateTemplateInput,
@@ -36,7 +43,8 @@ function TemplateServiceError(message: string, cause?: Error): ServiceError {
 function transformTemplate(row: Record<string, unknown>): CampaignTemplate {
   return {
     id: row.id as string,
-    userId: row.user_id as string,
+    organizationId: row.organization_id as string,
+    userId: row.user_id as string | null,
     name: row.name as string,
     description: row.description as string | null,
     templateType: row.template_type as CampaignType,
@@ -178,36 +186,9 @@ export async function hardDeleteTemplate(id: string): Promise<void> {
 // Template Helpers
 // =============================================================================
 
-const SEGMENT_SIZE = 160;
-const UNICODE_SEGMENT_SIZE = 70;
-
-/**
- * Check if content contains Unicode characters that require UCS-2 encoding
- */
-function containsUnicode(text: string): boolean {
-  // GSM 7-bit character set
-  const gsm7bit = /^[@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞ !"#¤%&'()*+,\-./0-9:;<=>?¡A-ZÄÖÑÜa-zäöñüà]*$/;
-  return !gsm7bit.test(text);
-}
-
-/**
- * Calculate SMS segment count
- */
-function calculateSegmentCount(text: string): number {
-  const isUnicode = containsUnicode(text);
-  const segmentSize = isUnicode ? UNICODE_SEGMENT_SIZE : SEGMENT_SIZE;
-
-  if (text.length <= segmentSize) {
-    return 1;
-  }
-
-  // Multi-part messages have overhead for concatenation headers
-  const multipartSegmentSize = isUnicode ? 67 : 153;
-  return Math.ceil(text.length / multipartSegmentSize);
-}
-
 /**
  * Validate SMS content
+ * Segments are counted as send-sms counts them against the monthly limit.
  */
 export function validateSmsContent(content: string): SmsValidationResult {
   const issues: string[] = [];
@@ -244,50 +225,35 @@ export function validateSmsContent(content: string): SmsValidationResult {
 }
 
 /**
- * Render template with variables
+ * Render template with member data (same engine as process-campaign)
  */
-export function renderTemplate(content: string, variables: Record<string, string | null | undefined>): string {
-  let rendered = content;
-
-  for (const [key, value] of Object.entries(variables)) {
-    const placeholder = `{{${key}}}`;
-    const replacement = value ?? '';
-    rendered = rendered.split(placeholder).join(replacement);
-  }
-
-  return rendered;
+export function renderTemplate(
+  content: string,
+  context: TemplateContext,
+  options?: RenderOptions
+): string {
+  return renderWithEngine(content, context, options);
 }
 
 /**
  * Extract template variables from content
  */
 export function extractTemplateVariables(content: string): string[] {
-  const regex = /\{\{(\w+)\}\}/g;
-  const variables: string[] = [];
-  let match;
-
-  while ((match = regex.exec(content)) !== null) {
-    if (!variables.includes(match[1])) {
-      variables.push(match[1]);
-    }
-  }
-
-  return variables;
+  return extractVariableNames(content);
 }
 
 /**
- * Validate that all required variables are provided
+ * Validate that every variable in the content (and subject) can be rendered
  */
 export function validateTemplateVariables(
   content: string,
-  providedVariables: Record<string, unknown>
-): { valid: boolean; missing: string[] } {
-  const required = extractTemplateVariables(content);
-  const missing = required.filter(v => !(v in providedVariables));
+  subject?: string | null
+): { valid: boolean; unknown: string[] } {
+  const unknown = findUnknownVariables(content, subject);
 
   return {
-    valid: missing.length === 0,
-    missing,
+    valid: unknown.length === 0,
+    unknown,
   };
 }
 
@@ -4,11 +4,13 @@
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { campaignKeys, templateKeys } from '@/lib/queryKeys';
+import { campaignKeys, templateKeys, conversationKeys } from '@/lib/queryKeys';
 import { campaignService } from './campaignService';
 import { templateService } from './templateService';
 import { messageService } from './messageService';
+import { conversationService } from './conversationService';
 import type {
+  CampaignAudienceCriteria,
   CampaignSearchParams,
   CreateCampaignInput,
   UpdateCampaignInput,
@@ -16,6 +18,7 @@ import type {
   CreateTemplateInput,
   UpdateTemplateInput,
   MessageStatus,
+  SendConversationReplyInput,
 } from '@/types/campaign';
 
 // =============================================================================
@@ -54,6 +57,39 @@ export function useCampaignMetrics(id: string) {
   });
 }
 
+/**
+ * Fetch a campaign's A/B test variants
+ */
+export function useCampaignVariants(id: string) {
+  return useQuery({
+    queryKey: campaignKeys.variants(id),
+    queryFn: () => campaignService.getCampaignVariants(id),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Fetch deferred message counts for a campaign (quiet hours / local send time)
+ */
+export function useCampaignDeferredStats(id: string, enabled = true) {
+  return useQuery({
+    queryKey: campaignKeys.deferred(id),
+    queryFn: () => campaignService.getCampaignDeferredStats(id),
+    enabled: !!id && enabled,
+  });
+}
+
+/**
+ * Fetch members acquired through a campaign and its CAC
+ */
+export function useCampaignAcquisition(id: string) {
+  return useQuery({
+    queryKey: campaignKeys.acquisition(id),
+    queryFn: () => campaignService.getCampaignAcquisition(id),
+    enabled: !!id,
+  });
+}
+
 /**
  * Fetch campaign recipients
  */
@@ -65,6 +101,17 @@ export function useCampaignRecipients(id: string) {
   });
 }
 
+/**
+ * Count the audience of a campaign being edited
+ */
+export function useCampaignAudienceSize(criteria: CampaignAudienceCriteria) {
+  return useQuery({
+    queryKey: campaignKeys.audience(criteria),
+    queryFn: () => campaignService.countCampaignAudience(criteria),
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
 /**
  * Fetch campaign messages
  */
@@ -101,6 +148,7 @@ export function useUpdateCampaign() {
       campaignService.updateCampaign(id, input),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: campaignKeys.detail(data.id) });
+      queryClient.invalidateQueries({ queryKey: campaignKeys.variants(data.id) });
       queryClient.invalidateQueries({ queryKey: campaignKeys.lists() });
     },
   });
@@ -120,6 +168,21 @@ export function useDeleteCampaign() {
   });
 }
 
+/**
+ * Place or release a campaign's legal hold (admins only)
+ */
+export function useSetCampaignLegalHold() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, hold }: { id: string; hold: boolean }) =>
+      campaignService.setCampaignLegalHold(id, hold),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: campaignKeys.detail(id) });
+    },
+  });
+}
+
 /**
  * Schedule a campaign
  */
@@ -127,8 +190,15 @@ export function useScheduleCampaign() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, scheduledAt }: { id: string; scheduledAt: string }) =>
-      campaignService.scheduleCampaign(id, scheduledAt),
+    mutationFn: ({
+      id,
+      scheduledAt,
+      localSendTime,
+    }: {
+      id: string;
+      scheduledAt: string;
+      localSendTime?: string | null;
+    }) => campaignService.scheduleCampaign(id, scheduledAt, localSendTime),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: campaignKeys.detail(data.id) });
       queryClient.invalidateQueries({ queryKey: campaignKeys.lists() });
@@ -166,6 +236,41 @@ export function useQueueCampaignMessages() {
   });
 }
 
+/**
+ * Resume sending a campaign
+ */
+export function useResumeCampaign() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (campaignId: string) => campaignService.resumeCampaign(campaignId),
+    onSettled: (_, __, campaignId) => {
+      queryClient.invalidateQueries({ queryKey: campaignKeys.detail(campaignId) });
+      queryClient.invalidateQueries({ queryKey: campaignKeys.metrics(campaignId) });
+      queryClient.invalidateQueries({ queryKey: campaignKeys.messages(campaignId) });
+      queryClient.invalidateQueries({ queryKey: campaignKeys.deferred(campaignId) });
+    },
+  });
+}
+
+/**
+ * Finalize a campaign that cannot be resumed
+ */
+export function useFinalizeCampaign() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (campaignId: string) => campaignService.finalizeCampaign(campaignId),
+    onSuccess: (_, campaignId) => {
+      queryClient.invalidateQueries({ queryKey: campaignKeys.detail(campaignId) });
+      queryClient.invalidateQueries({ queryKey: campaignKeys.metrics(campaignId) });
+      queryClient.invalidateQueries({ queryKey: campaignKeys.messages(campaignId) });
+      queryClient.invalidateQueries({ queryKey: campaignKeys.deferred(campaignId) });
+      queryClient.invalidateQueries({ queryKey: campaignKeys.lists() });
+    },
+  });
+}
+
 // =============================================================================
 // Template Hooks
 // =============================================================================
@@ -261,3 +366,64 @@ export function useUpdateMessageStatus() {
     },
   });
 }
+
+// =============================================================================
+// Conversation Hooks (Two-way SMS)
+// =============================================================================
+
+// Poll so new inbound replies show up without a page reload
+const CONVERSATION_POLL_INTERVAL = 30 * 1000;
+
+/**
+ * Fetch the SMS conversation thread for a member
+ */
+export function useConversation(memberId: string, phone?: string | null) {
+  return useQuery({
+    queryKey: conversationKeys.thread(memberId),
+    queryFn: () => conversationService.getConversation(memberId, phone),
+    enabled: !!memberId,
+    refetchInterval: CONVERSATION_POLL_INTERVAL,
+  });
+}
+
+/**
+ * Fetch the number of unread inbound SMS messages
+ */
+export function useUnreadConversationCount(enabled = true) {
+  return useQuery({
+    queryKey: conversationKeys.unreadCount(),
+    queryFn: () => conversationService.getUnreadCount(),
+    enabled,
+    refetchInterval: CONVERSATION_POLL_INTERVAL,
+  });
+}
+
+/**
+ * Mark a member's conversation as read
+ */
+export function useMarkConversationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ memberId, phone }: { memberId: string; phone?: string | null }) =>
+      conversationService.markConversationRead(memberId, phone),
+    onSuccess: (_, { memberId }) => {
+      queryClient.invalidateQueries({ queryKey: conversationKeys.thread(memberId) });
+      queryClient.invalidateQueries({ queryKey: conversationKeys.unreadCount() });
+    },
+  });
+}
+
+/**
+ * Send a staff reply in a member's conversation
+ */
+export function useSendConversationReply() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: SendConversationReplyInput) => conversationService.sendReply(input),
+    onSettled: (_, __, input) => {
+      queryClient.invalidateQueries({ queryKey: conversationKeys.thread(input.memberId) });
+    },
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Database Connector Service
+ *
+ * Test, preview and sync Postgres, MySQL and SQL Server data sources through
+ * the database-connector Edge Function. Connections are made server-side;
+ * custom queries are checked for being read-only here first so the form can
+ * show the problem without a round trip.
+ */
+
+import { supabase } from '../../lib/supabase';
+import { validateReadOnlyQuery } from '../../utils/sqlQuery';
+import type { SqlDialect } from '../../utils/sqlQuery';
+import { analyzeColumns } from './cleaningService';
+import type {
+  DataImportError,
+  DataImportErrorCode,
+  DataSourceConfig,
+  DataSourceType,
+  PreviewDataRequest,
+  PreviewResponse,
+  TestConnectionRequest,
+  TestConnectionResponse,
+  TriggerSyncResponse,
+} from '../../types/dataImport';
+
+// =============================================================================
+// Error Handling
+// =============================================================================
+
+export interface DatabaseConnectorError extends Error {
+  code: DataImportErrorCode;
+  details?: Record<string, unknown>;
+  cause?: Error;
+}
+
+function DatabaseConnectorError(error: DataImportError, cause?: Error): DatabaseConnectorError {
+  const result = new Error(error.message) as DatabaseConnectorError;
+  result.name = 'DatabaseConnectorError';
+  result.code = error.code;
+  result.details = error.details;
+  if (cause) {
+    result.cause = cause;
+  }
+  return result;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const DATABASE_CONNECTOR_TYPES: DataSourceType[] = ['postgres', 'mysql', 'mssql'];
+
+/**
+ * Whether a data source type is read by the database connector
+ */
+export function isConnectorType(type: DataSourceType): type is SqlDialect {
+  return DATABASE_CONNECTOR_TYPES.includes(type);
+}
+
+/**
+ * Check a custom query before it is sent; null when there is nothing wrong
+ */
+function checkConfig(type: DataSourceType, config?: DataSourceConfig): DataImportError | null {
+  if (config?.query_type !== 'custom_query' || !config.custom_query) return null;
+
+  const { valid, error } = validateReadOnlyQuery(
+    config.custom_query,
+    isConnectorType(type) ? type : undefined
+  );
+  return valid ? null : { code: 'VALIDATION_FAILED', message: error ?? 'Invalid query' };
+}
+
+// =============================================================================
+// Connector Operations
+// =============================================================================
+
+/**
+ * Connect with the given credentials and, when the config names a table or
+ * query, read one row from it
+ */
+export async function testDatabaseConnection(
+  request: TestConnectionRequest
+): Promise<TestConnectionResponse> {
+  const invalid = checkConfig(request.type, request.config);
+  if (invalid) {
+    return { success: false, message: invalid.message, error: invalid };
+  }
+
+  const { data, error } = await supabase.functions.invoke('database-connector', {
+    body: { action: 'test', ...request },
+  });
+
+  if (error) {
+    const message = error.message || 'Failed to reach the database connector';
+    return { success: false, message, error: { code: 'CONNECTION_FAILED', message } };
+  }
+
+  return data as TestConnectionResponse;
+}
+
+/**
+ * Read the first rows of a table or custom query, with column analysis
+ */
+export async function previewDatabaseData(
+  request: PreviewDataRequest,
+  limit?: number
+): Promise<PreviewResponse> {
+  const invalid = checkConfig(request.type, request.config);
+  if (invalid) {
+    throw DatabaseConnectorError(invalid);
+  }
+
+  const { data, error } = await supabase.functions.invoke('database-connector', {
+    body: { action: 'preview', ...request, limit },
+  });
+
+  if (error) {
+    throw DatabaseConnectorError(
+      { code: 'CONNECTION_FAILED', message: 'Failed to preview data' },
+      error
+    );
+  }
+
+  if (!data.success) {
+    throw DatabaseConnectorError(data.error as DataImportError);
+  }
+
+  const rows = data.rows as Record<string, unknown>[];
+  return {
+    columns: analyzeColumns(rows),
+    rows,
+    total_rows: rows.length,
+  };
+}
+
+/**
+ * Start a sync of a saved database data source. The sync runs in the
+ * background; follow it through the returned sync log.
+ */
+export async function triggerDatabaseSync(dataSourceId: string): Promise<TriggerSyncResponse> {
+  const { data, error } = await supabase.functions.invoke('database-connector', {
+    body: { action: 'sync', dataSourceId, trigger: 'manual' },
+  });
+
+  if (error) {
+    throw new Error(`Failed to start sync: ${error.message}`);
+  }
+
+  return data as TriggerSyncResponse;
+}
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+export const databaseConnectorService = {
+  isConnectorType,
+  testDatabaseConnection,
+  previewDatabaseData,
+  triggerDatabaseSync,
+};
+
+export default databaseConnectorService;
@@ -0,0 +1,69 @@
+/**
+ * Google Sheets Service
+ *
+ * Reads spreadsheets through the Sheets API v4, or the local stand-in set
+ * by VITE_GOOGLE_SHEETS_API_URL. The reader itself is in utils/googleSheets,
+ * shared with scheduled syncs.
+ */
+
+import { config } from '../../config/env';
+import {
+  getSheetValues as readSheetValues,
+  getSpreadsheetSheetNames as readSpreadsheetSheetNames,
+} from '@/utils/googleSheets';
+import type { SheetCellValue, SheetsApi } from '@/utils/googleSheets';
+
+export type { SheetCellValue } from '@/utils/googleSheets';
+
+// =============================================================================
+// Spreadsheet IDs
+// =============================================================================
+
+const SPREADSHEET_URL_REGEX = /\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/;
+const SPREADSHEET_ID_REGEX = /^[a-zA-Z0-9_-]{10,}$/;
+
+/**
+ * Extract the spreadsheet ID from a sheet URL, or accept a bare ID
+ * Returns null when the input is neither.
+ */
+export function parseSpreadsheetId(input: string): string | null {
+  const value = input.trim();
+  const fromUrl = SPREADSHEET_URL_REGEX.exec(value);
+  if (fromUrl) return fromUrl[1];
+  return SPREADSHEET_ID_REGEX.test(value) ? value : null;
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/**
+ * List the sheet (tab) names of a spreadsheet in order
+ */
+export function getSpreadsheetSheetNames(spreadsheetId: string): Promise<string[]> {
+  return readSpreadsheetSheetNames(sheetsApi(), spreadsheetId);
+}
+
+/**
+ * Read every value of a sheet as rows of cells
+ * Trailing empty cells and rows are omitted by the API.
+ */
+export function getSheetValues(spreadsheetId: string, sheetName: string): Promise<SheetCellValue[][]> {
+  return readSheetValues(sheetsApi(), spreadsheetId, sheetName);
+}
+
+function sheetsApi(): SheetsApi {
+  return { url: config.googleSheets.apiUrl, key: config.googleSheets.apiKey };
+}
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+export const googleSheetsService = {
+  parseSpreadsheetId,
+  getSpreadsheetSheetNames,
+  getSheetValues,
+};
+
+export default googleSheetsService;
@@ -0,0 +1,117 @@
+/**
+ * REST Connector Service
+ *
+ * Test, preview and sync rest_api data sources through the rest-connector
+ * Edge Function, which makes the API calls so keys stay server-side and
+ * APIs without CORS headers can be read.
+ */
+
+import { supabase } from '../../lib/supabase';
+import { analyzeColumns } from './cleaningService';
+import type {
+  DataImportError,
+  DataImportErrorCode,
+  PreviewDataRequest,
+  PreviewResponse,
+  TestConnectionRequest,
+  TestConnectionResponse,
+  TriggerSyncResponse,
+} from '../../types/dataImport';
+
+// =============================================================================
+// Error Handling
+// =============================================================================
+
+export interface RestConnectorError extends Error {
+  code: DataImportErrorCode;
+  details?: Record<string, unknown>;
+  cause?: Error;
+}
+
+function RestConnectorError(error: DataImportError, cause?: Error): RestConnectorError {
+  const result = new Error(error.message) as RestConnectorError;
+  result.name = 'RestConnectorError';
+  result.code = error.code;
+  result.details = error.details;
+  if (cause) {
+    result.cause = cause;
+  }
+  return result;
+}
+
+// =============================================================================
+// Connector Operations
+// =============================================================================
+
+/**
+ * Call the API with the given credentials and config and read the first page
+ */
+export async function testRestConnection(
+  request: TestConnectionRequest
+): Promise<TestConnectionResponse> {
+  const { data, error } = await supabase.functions.invoke('rest-connector', {
+    body: { action: 'test', credentials: request.credentials, config: request.config },
+  });
+
+  if (error) {
+    const message = error.message || 'Failed to reach the REST connector';
+    return { success: false, message, error: { code: 'CONNECTION_FAILED', message } };
+  }
+
+  return data as TestConnectionResponse;
+}
+
+/**
+ * Read the first records (flattened into columns), with column analysis
+ */
+export async function previewRestData(
+  request: PreviewDataRequest,
+  limit?: number
+): Promise<PreviewResponse> {
+  const { data, error } = await supabase.functions.invoke('rest-connector', {
+    body: { action: 'preview', credentials: request.credentials, config: request.config, limit },
+  });
+
+  if (error) {
+    throw RestConnectorError({ code: 'CONNECTION_FAILED', message: 'Failed to preview data' }, error);
+  }
+
+  if (!data.success) {
+    throw RestConnectorError(data.error as DataImportError);
+  }
+
+  const rows = data.rows as Record<string, unknown>[];
+  return {
+    columns: analyzeColumns(rows),
+    rows,
+    total_rows: rows.length,
+  };
+}
+
+/**
+ * Start a sync of a saved REST data source. The sync runs in the
+ * background; follow it through the returned sync log.
+ */
+export async function triggerRestSync(dataSourceId: string): Promise<TriggerSyncResponse> {
+  const { data, error } = await supabase.functions.invoke('rest-connector', {
+    body: { action: 'sync', dataSourceId, trigger: 'manual' },
+  });
+
+  if (error) {
+    throw new Error(`Failed to start sync: ${error.message}`);
+  }
+
+  return data as TriggerSyncResponse;
+}
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+export const restConnectorService = {
+  testRestConnection,
+  previewRestData,
+  triggerRestSync,
+};
+
+export default restConnectorService;
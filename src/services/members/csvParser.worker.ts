@@ -0,0 +1,50 @@
+/**
+ * CSV Parser Worker
+ *
+ * Parses an uploaded member file off the main thread so the import wizard
+ * stays responsive on large exports. Posts progress after each slice read.
+ */
+
+import { parseCsvBlob } from '@/utils/csvParser';
+import type { CsvParseOptions, CsvParseProgress, CsvParseResult } from '@/utils/csvParser';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CsvParserWorkerRequest {
+  file: Blob;
+  options?: Omit<CsvParseOptions, 'onProgress'>;
+}
+
+export type CsvParserWorkerMessage =
+  | { type: 'progress'; progress: CsvParseProgress }
+  | { type: 'result'; result: CsvParseResult }
+  | { type: 'error'; message: string };
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+// The app tsconfig has no WebWorker lib; a dedicated worker scope has the same
+// postMessage / onmessage surface as a Worker
+const ctx = self as unknown as Worker;
+
+const post = (message: CsvParserWorkerMessage) => ctx.postMessage(message);
+
+ctx.onmessage = async (event: MessageEvent<CsvParserWorkerRequest>) => {
+  const { file, options } = event.data;
+
+  try {
+    const result = await parseCsvBlob(file, {
+      ...options,
+      onProgress: (progress) => post({ type: 'progress', progress }),
+    });
+    post({ type: 'result', result });
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to parse file',
+    });
+  }
+};
@@ -13,6 +13,8 @@ export {
   getSiteHierarchy,
   getSiteWithChildren,
   getChildSiteIds,
+  getSiteAccess,
+  requireSiteAccess,
   getSiteStats,
   getSiteTransactionSummary,
   getMembershipLevels,
@@ -21,6 +23,12 @@ export {
   updateMembershipLevel,
   deleteMembershipLevel,
 } from './siteService';
+export {
+  useMembershipLevels,
+  useCreateMembershipLevel,
+  useUpdateMembershipLevel,
+  useDeleteMembershipLevel,
+} from './useMembershipLevels';
 
 export { memberService } from './memberService';
 export {
@@ -48,14 +56,93 @@ export {
   getAllTags,
 } from './memberService';
 
+export { promoCodeService } from './promoCodeService';
+export {
+  getPromoCodes,
+  getPromoCodeById,
+  createPromoCode,
+  updatePromoCode,
+  deactivatePromoCode,
+  generatePromoCodes,
+  validatePromoCode,
+  redeemPromoCode,
+  getPromoCodeReport,
+  getPromoCodeRedemptions,
+} from './promoCodeService';
+export {
+  usePromoCodes,
+  usePromoCode,
+  usePromoCodeReport,
+  usePromoCodeRedemptions,
+  useCreatePromoCode,
+  useUpdatePromoCode,
+  useGeneratePromoCodes,
+  useRedeemPromoCode,
+} from './usePromoCodes';
+
+export {
+  createMemberImportDataSource,
+  getMemberImportDataSources,
+  getMemberImportDataSource,
+  updateMemberImportDataSource,
+  deleteMemberImportDataSource,
+  toggleMemberImportDataSource,
+  getDataSourceSyncLogs,
+  recordMemberImportSync,
+  syncMemberImportDataSource,
+} from './memberImportDataSourceService';
+export type {
+  MemberImportDataSource,
+  MemberImportSourceType,
+  MemberImportSheetConfig,
+} from './memberImportDataSourceService';
+export {
+  useMemberImportDataSources,
+  useDataSourceSyncLogs,
+  useToggleDataSource,
+  useDeleteDataSource,
+  useSyncDataSource,
+} from './useDataSources';
+
+export { memberImportHistoryService } from './memberImportHistoryService';
+export {
+  getImportRuns,
+  getImportChanges,
+  rollbackImport,
+} from './memberImportHistoryService';
+export type { ImportRunFilters } from './memberImportHistoryService';
+export {
+  useImportRuns,
+  useImportChanges,
+  useRollbackImport,
+} from './useImportHistory';
+
+export { preferenceService } from './preferenceService';
+export {
+  getPreferences,
+  unsubscribeFromEmail,
+  updatePreferences,
+} from './preferenceService';
+
 export { memberImportService } from './memberImportService';
 export {
   parseCSV,
   parseCSVFile,
+  getExcelSheetNames,
+  parseExcelFile,
+  parseGoogleSheet,
   generatePreview,
   suggestFieldMappings,
   importMembers,
   importTransactions,
   importVisits,
 } from './memberImportService';
-export type { ParsedCSVData, ColumnPreview, ImportPreview, ImportProgress } from './memberImportService';
+export type {
+  ImportCellValue,
+  ParsedCSVData,
+  SheetTableOptions,
+  ColumnPreview,
+  ImportPreview,
+  ImportProgress,
+  ImportRunSource,
+} from './memberImportService';
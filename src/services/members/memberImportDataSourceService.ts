@@ -7,21 +7,39 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { calculateNextSyncTime } from '@/utils/syncSchedule';
 import type {
   DataSource,
   ScheduleConfiguration,
   ColumnConfiguration,
+  SyncLog,
 } from '@/types/dataImport';
-import type { MemberImportMapping, MemberImportConfig } from '@/types/member';
+import type { MemberImportMapping, MemberImportConfig, MemberImportResult } from '@/types/member';
 import type { ExtendedColumnConfig } from '@/components/members/ImportWizard';
+import { importMembers, parseGoogleSheet } from './memberImportService';
+import type { SheetTableOptions } from './memberImportService';
 
 // =============================================================================
 // Types
 // =============================================================================
 
+/** Data source types a member import can be saved as */
+export type MemberImportSourceType = 'csv_upload' | 'excel' | 'google_sheets';
+
+const MEMBER_IMPORT_SOURCE_TYPES: MemberImportSourceType[] = ['csv_upload', 'excel', 'google_sheets'];
+
+export interface MemberImportSheetConfig extends SheetTableOptions {
+  /** Google spreadsheet ID (google_sheets sources) */
+  spreadsheetId?: string;
+}
+
 export interface MemberImportDataSourceConfig {
-  /** Original filename */
+  /** Original filename, or the spreadsheet ID for Google Sheets */
   filename: string;
+  /** Where the rows come from (default: csv_upload) */
+  sourceType?: MemberImportSourceType;
+  /** Sheet, header row and skipped rows for Excel and Google Sheets */
+  sheet?: MemberImportSheetConfig;
   /** Column mappings from source to member fields */
   mappings: MemberImportMapping[];
   /** Column configurations with cleaning rules */
@@ -39,11 +57,21 @@ export interface CreateMemberImportDataSourceInput {
   scheduleConfig: ScheduleConfiguration;
 }
 
+/** sync_logs columns describing how a sync ended */
+interface SyncOutcome {
+  status: 'success' | 'failed';
+  records_imported: number;
+  records_skipped: number;
+  error_message: string | null;
+  metadata: Record<string, unknown>;
+}
+
 export interface MemberImportDataSource {
   id: string;
-  userId: string;
+  organizationId: string;
+  userId: string | null;
   name: string;
-  type: 'csv_upload';
+  type: MemberImportSourceType;
   config: MemberImportDataSourceConfig;
   scheduleConfig: ScheduleConfiguration;
   syncSchedule: ScheduleConfiguration['frequency'];
@@ -71,7 +99,7 @@ export async function createMemberImportDataSource(
   }
 
   // Calculate next sync time based on schedule
-  const nextSyncAt = calculateNextSyncTime(input.scheduleConfig);
+  const nextSyncAt = calculateNextSyncTime(input.scheduleConfig)?.toISOString() ?? null;
 
   // Convert ExtendedColumnConfig to ColumnConfig for storage
   const columnConfigForStorage: ColumnConfiguration = {
@@ -93,14 +121,8 @@ export async function createMemberImportDataSource(
     .insert({
       user_id: user.user.id,
       name: input.name,
-      type: 'csv_upload',
-      credentials: {}, // No credentials needed for CSV
-      config: {
-        query_type: 'member_import',
-        filename: input.config.filename,
-        mappings: input.config.mappings,
-        import_config: input.config.importConfig,
-      },
+      type: input.config.sourceType ?? 'csv_upload',
+      config: toStoredConfig(input.config),
       column_config: columnConfigForStorage,
       schedule_config: input.scheduleConfig,
       sync_schedule: input.scheduleConfig.frequency,
@@ -119,19 +141,13 @@ export async function createMemberImportDataSource(
 }
 
 /**
- * Get all member import data sources for the current user.
+ * Get all member import data sources of the current user's organization.
  */
 export async function getMemberImportDataSources(): Promise<MemberImportDataSource[]> {
-  const { data: user } = await supabase.auth.getUser();
-  if (!user.user) {
-    throw new Error('User not authenticated');
-  }
-
   const { data, error } = await supabase
     .from('data_sources')
     .select('*')
-    .eq('user_id', user.user.id)
-    .eq('type', 'csv_upload')
+    .in('type', MEMBER_IMPORT_SOURCE_TYPES)
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -177,18 +193,13 @@ export async function updateMemberImportDataSource(
   }
 
   if (updates.config) {
-    updateData.config = {
-      query_type: 'member_import',
-      filename: updates.config.filename,
-      mappings: updates.config.mappings,
-      import_config: updates.config.importConfig,
-    };
+    updateData.config = toStoredConfig(updates.config);
   }
 
   if (updates.scheduleConfig) {
     updateData.schedule_config = updates.scheduleConfig;
     updateData.sync_schedule = updates.scheduleConfig.frequency;
-    updateData.next_sync_at = calculateNextSyncTime(updates.scheduleConfig);
+    updateData.next_sync_at = calculateNextSyncTime(updates.scheduleConfig)?.toISOString() ?? null;
   }
 
   const { data, error } = await supabase
@@ -244,60 +255,217 @@ export async function toggleMemberImportDataSource(
 }
 
 // =============================================================================
-// Helpers
+// Sync History
+// =============================================================================
+
+/**
+ * Get the most recent syncs of a data source, newest first.
+ */
+export async function getDataSourceSyncLogs(dataSourceId: string, limit = 20): Promise<SyncLog[]> {
+  const { data, error } = await supabase
+    .from('sync_logs')
+    .select('*')
+    .eq('data_source_id', dataSourceId)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch sync history: ${error.message}`);
+  }
+
+  return (data || []) as SyncLog[];
+}
+
+/**
+ * Record a completed member import as a sync of its data source and update
+ * the source's last sync time and status.
+ */
+export async function recordMemberImportSync(
+  dataSourceId: string,
+  result: MemberImportResult,
+  startedAt: string
+): Promise<void> {
+  const outcome = toSyncOutcome(result);
+  const completedAt = new Date().toISOString();
+
+  const { error: logError } = await supabase.from('sync_logs').insert({
+    data_source_id: dataSourceId,
+    started_at: startedAt,
+    completed_at: completedAt,
+    ...outcome,
+  });
+
+  if (logError) {
+    throw new Error(`Failed to record sync: ${logError.message}`);
+  }
+
+  await setSyncStatus(dataSourceId, outcome.status, completedAt);
+}
+
+// =============================================================================
+// Sync
 // =============================================================================
 
 /**
- * Calculate the next sync time based on schedule configuration.
+ * Re-read a Google Sheets source and import it with its saved mappings and
+ * settings. Uploaded files can't be re-read; they sync by importing a new file.
+ */
+export async function syncMemberImportDataSource(
+  dataSource: MemberImportDataSource
+): Promise<MemberImportResult> {
+  const { sheet } = dataSource.config;
+  if (dataSource.type !== 'google_sheets' || !sheet?.spreadsheetId || !sheet.sheetName) {
+    throw new Error('Only Google Sheets sources can be synced without uploading a file');
+  }
+
+  const syncLogId = await startSync(dataSource.id);
+
+  let result: MemberImportResult;
+  try {
+    const data = await parseGoogleSheet(sheet.spreadsheetId, {
+      sheetName: sheet.sheetName,
+      headerRow: sheet.headerRow,
+      skipRows: sheet.skipRows,
+    });
+    result = await importMembers(
+      data,
+      dataSource.config.mappings,
+      dataSource.config.importConfig,
+      undefined,
+      { filename: `${sheet.sheetName} (Google Sheets)`, dataSourceId: dataSource.id }
+    );
+  } catch (err) {
+    await finishSync(dataSource.id, syncLogId, {
+      status: 'failed',
+      records_imported: 0,
+      records_skipped: 0,
+      error_message: err instanceof Error ? err.message : 'Sync failed',
+      metadata: {},
+    });
+    throw err;
+  }
+
+  await finishSync(dataSource.id, syncLogId, toSyncOutcome(result));
+  return result;
+}
+
+/**
+ * Claim the data source and open its sync_logs row, like the server
+ * connectors do, so a source is never synced twice at once
  */
-function calculateNextSyncTime(schedule: ScheduleConfiguration): string | null {
-  if (schedule.frequency === 'manual') {
-    return null;
+async function startSync(dataSourceId: string): Promise<string> {
+  const { data: claimed, error: claimError } = await supabase
+    .from('data_sources')
+    .update({ sync_status: 'syncing', updated_at: new Date().toISOString() })
+    .eq('id', dataSourceId)
+    .neq('sync_status', 'syncing')
+    .select('id');
+
+  if (claimError) {
+    throw new Error(`Failed to start sync: ${claimError.message}`);
+  }
+  if (!claimed || claimed.length === 0) {
+    throw new Error('This data source is already syncing');
   }
 
-  const now = new Date();
-  const time = schedule.time || '00:00';
-  const [hours, minutes] = time.split(':').map(Number);
-
-  // Create a date with the scheduled time
-  const nextSync = new Date(now);
-  nextSync.setHours(hours, minutes, 0, 0);
-
-  // If the time has already passed today, move to next occurrence
-  if (nextSync <= now) {
-    switch (schedule.frequency) {
-      case 'hourly':
-        nextSync.setHours(nextSync.getHours() + 1);
-        break;
-      case 'daily':
-        nextSync.setDate(nextSync.getDate() + 1);
-        break;
-      case 'weekly':
-        nextSync.setDate(nextSync.getDate() + 7);
-        break;
-      case 'monthly':
-        nextSync.setMonth(nextSync.getMonth() + 1);
-        break;
-    }
+  const { data: log, error } = await supabase
+    .from('sync_logs')
+    .insert({ data_source_id: dataSourceId, status: 'running', metadata: { trigger: 'manual' } })
+    .select('id')
+    .single();
+
+  if (error || !log) {
+    await setSyncStatus(dataSourceId, 'failed');
+    throw new Error(`Failed to create sync log: ${error?.message ?? 'no row returned'}`);
   }
 
-  // Handle weekly schedule - move to specified day
-  if (schedule.frequency === 'weekly' && schedule.day_of_week !== undefined) {
-    const currentDay = nextSync.getDay();
-    const targetDay = schedule.day_of_week;
-    const daysUntil = (targetDay - currentDay + 7) % 7;
-    nextSync.setDate(nextSync.getDate() + daysUntil);
+  return log.id as string;
+}
+
+/**
+ * Close a running sync log and record the outcome on the data source
+ */
+async function finishSync(dataSourceId: string, syncLogId: string, outcome: SyncOutcome): Promise<void> {
+  const completedAt = new Date().toISOString();
+
+  const { error: logError } = await supabase
+    .from('sync_logs')
+    .update({
+      ...outcome,
+      completed_at: completedAt,
+      metadata: { trigger: 'manual', ...outcome.metadata },
+    })
+    .eq('id', syncLogId);
+
+  if (logError) {
+    throw new Error(`Failed to record sync: ${logError.message}`);
   }
 
-  // Handle monthly schedule - move to specified day
-  if (schedule.frequency === 'monthly' && schedule.day_of_month !== undefined) {
-    nextSync.setDate(schedule.day_of_month);
-    if (nextSync <= now) {
-      nextSync.setMonth(nextSync.getMonth() + 1);
-    }
+  await setSyncStatus(dataSourceId, outcome.status, completedAt);
+}
+
+async function setSyncStatus(
+  id: string,
+  status: MemberImportDataSource['syncStatus'],
+  lastSyncAt?: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('data_sources')
+    .update({
+      sync_status: status,
+      ...(lastSyncAt && { last_sync_at: lastSyncAt }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to update data source sync status: ${error.message}`);
   }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Data source config column for a member import; sheet settings use the
+ * generic DataSourceConfig names
+ */
+function toStoredConfig(config: MemberImportDataSourceConfig): Record<string, unknown> {
+  return {
+    query_type: 'member_import',
+    filename: config.filename,
+    mappings: config.mappings,
+    import_config: config.importConfig,
+    // Sheets are read with the app's API key; the sheet ID is not a secret
+    ...(config.sheet && {
+      sheet_id: config.sheet.spreadsheetId,
+      sheet_name: config.sheet.sheetName,
+      header_row: config.sheet.headerRow,
+      skip_rows: config.sheet.skipRows,
+    }),
+  };
+}
 
-  return nextSync.toISOString();
+/**
+ * How an import ended: failed only when no row was imported or updated
+ */
+function toSyncOutcome(result: MemberImportResult): SyncOutcome {
+  const status = result.failed > 0 && result.imported + result.updated === 0 ? 'failed' : 'success';
+  return {
+    status,
+    records_imported: result.imported + result.updated,
+    records_skipped: result.skipped + result.failed,
+    error_message: status === 'failed' ? result.errors[0]?.message ?? 'Import failed' : null,
+    metadata: {
+      import_id: result.importId,
+      total_rows: result.totalRows,
+      imported: result.imported,
+      updated: result.updated,
+      skipped: result.skipped,
+      failed: result.failed,
+    },
+  };
 }
 
 /**
@@ -309,15 +477,31 @@ function mapToMemberImportDataSource(data: DataSource): MemberImportDataSource {
     filename: string;
     mappings: MemberImportMapping[];
     import_config: MemberImportConfig;
+    sheet_id?: string;
+    sheet_name?: string;
+    header_row?: number;
+    skip_rows?: number;
   };
+  const type = data.type as MemberImportSourceType;
 
   return {
     id: data.id,
+    organizationId: data.organization_id,
     userId: data.user_id,
     name: data.name,
-    type: 'csv_upload',
+    type,
     config: {
       filename: config.filename || '',
+      sourceType: type,
+      sheet:
+        type === 'csv_upload'
+          ? undefined
+          : {
+              spreadsheetId: config.sheet_id,
+              sheetName: config.sheet_name,
+              headerRow: config.header_row,
+              skipRows: config.skip_rows,
+            },
       mappings: config.mappings || [],
       columnConfig: (data.column_config?.columns || []).map((col) => ({
         ...col,
@@ -0,0 +1,317 @@
+/**
+ * Member Import History Service
+ *
+ * Records each import run under its sourceImportId, lists past runs with
+ * what they created and updated, and rolls a run back.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type {
+  MemberImportChange,
+  MemberImportFieldChange,
+  MemberImportKind,
+  MemberImportResult,
+  MemberImportRollbackSummary,
+  MemberImportRun,
+} from '@/types/member';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface StartImportRunInput {
+  importId: string;
+  kind: MemberImportKind;
+  siteId?: string | null;
+  dataSourceId?: string | null;
+  filename?: string | null;
+  totalRows: number;
+}
+
+export interface ImportRunFilters {
+  siteId?: string;
+  dataSourceId?: string;
+  limit?: number;
+}
+
+/** Runs still running after this long were abandoned (rollback_member_import allows them) */
+const ABANDONED_RUN_MS = 60 * 60 * 1000;
+
+interface MemberImportRow {
+  id: string;
+  import_id: string;
+  site_id: string | null;
+  data_source_id: string | null;
+  kind: MemberImportKind;
+  filename: string | null;
+  status: MemberImportRun['status'];
+  total_rows: number;
+  imported: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: MemberImportResult['errors'] | null;
+  rollback_summary: Record<string, number> | null;
+  started_at: string;
+  completed_at: string | null;
+  rolled_back_at: string | null;
+  changes_purged_at: string | null;
+}
+
+interface MemberImportChangeRow {
+  member_id: string;
+  action: 'created' | 'updated';
+  previous_values: Record<string, unknown> | null;
+}
+
+// Errors kept with a run; the full list is only shown after the import
+const MAX_STORED_ERRORS = 100;
+
+// Columns compared for the diff view, with display labels
+const DIFF_FIELDS: Record<string, string> = {
+  first_name: 'First Name',
+  last_name: 'Last Name',
+  email: 'Email',
+  phone: 'Phone',
+  external_id: 'External ID',
+  membership_level_id: 'Membership Level',
+  membership_status: 'Status',
+  membership_start_date: 'Membership Start',
+  membership_expiry_date: 'Membership Expiry',
+  date_of_birth: 'Date of Birth',
+  gender: 'Gender',
+  address_line1: 'Address Line 1',
+  address_line2: 'Address Line 2',
+  city: 'City',
+  state: 'State',
+  postal_code: 'Postal Code',
+  country: 'Country',
+  acquisition_source: 'Acquisition Source',
+  acquisition_promo_code: 'Promo Code',
+  acquisition_cost: 'Acquisition Cost',
+  tags: 'Tags',
+  custom_fields: 'Custom Fields',
+};
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Register a run before any rows are written, so the change-tracking
+ * trigger records the members it creates and updates
+ */
+export async function startImportRun(input: StartImportRunInput): Promise<void> {
+  const { error } = await supabase.rpc('start_member_import', {
+    p_import_id: input.importId,
+    p_kind: input.kind,
+    p_site_id: input.siteId ?? null,
+    p_data_source_id: input.dataSourceId ?? null,
+    p_filename: input.filename ?? null,
+    p_total_rows: input.totalRows,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record import: ${error.message}`);
+  }
+}
+
+/**
+ * Store the final counts of a running run (only once; the status of a
+ * finished run is only changed by rollback)
+ */
+export async function finishImportRun(
+  importId: string,
+  result: Omit<MemberImportResult, 'importId'>,
+  status: 'completed' | 'failed' = 'completed'
+): Promise<void> {
+  const { error } = await supabase.rpc('finish_member_import', {
+    p_import_id: importId,
+    p_status: status,
+    p_result: {
+      total_rows: result.totalRows,
+      imported: result.imported,
+      updated: result.updated,
+      skipped: result.skipped,
+      failed: result.failed,
+      errors: result.errors.slice(0, MAX_STORED_ERRORS),
+    },
+  });
+
+  if (error) {
+    throw new Error(`Failed to record import result: ${error.message}`);
+  }
+}
+
+// =============================================================================
+// History
+// =============================================================================
+
+/**
+ * List import runs, newest first
+ */
+export async function getImportRuns(filters: ImportRunFilters = {}): Promise<MemberImportRun[]> {
+  let query = supabase
+    .from('member_imports')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(filters.limit ?? 50);
+
+  if (filters.siteId) query = query.eq('site_id', filters.siteId);
+  if (filters.dataSourceId) query = query.eq('data_source_id', filters.dataSourceId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch import history: ${error.message}`);
+  }
+
+  return (data || []).map((row) => transformImportRun(row as MemberImportRow));
+}
+
+/**
+ * Members a run created or updated, with the fields that changed
+ * (current value versus the value before the run)
+ */
+export async function getImportChanges(
+  importId: string,
+  limit = 200
+): Promise<MemberImportChange[]> {
+  const { data, error } = await supabase
+    .from('member_import_changes')
+    .select('member_id, action, previous_values')
+    .eq('import_id', importId)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch import changes: ${error.message}`);
+  }
+
+  const changes = (data || []) as MemberImportChangeRow[];
+  if (changes.length === 0) return [];
+
+  const { data: members, error: membersError } = await supabase
+    .from('members')
+    .select('*')
+    .in('id', changes.map((change) => change.member_id));
+
+  if (membersError) {
+    throw new Error(`Failed to fetch imported members: ${membersError.message}`);
+  }
+
+  const membersById = new Map(
+    (members || []).map((member) => [member.id as string, member as Record<string, unknown>])
+  );
+
+  return changes.map((change) => {
+    const current = membersById.get(change.member_id) ?? null;
+    return {
+      memberId: change.member_id,
+      action: change.action,
+      displayName: getDisplayName(current ?? change.previous_values ?? {}),
+      fields: diffMember(change.previous_values, current),
+      exists: current !== null,
+    };
+  });
+}
+
+// =============================================================================
+// Rollback
+// =============================================================================
+
+/**
+ * Roll back a run: delete what it created, restore what it updated
+ */
+export async function rollbackImport(importId: string): Promise<MemberImportRollbackSummary> {
+  const { data, error } = await supabase.rpc('rollback_member_import', {
+    p_import_id: importId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to roll back import: ${error.message}`);
+  }
+
+  return transformRollbackSummary(data as Record<string, number>);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function diffMember(
+  previous: Record<string, unknown> | null,
+  current: Record<string, unknown> | null
+): MemberImportFieldChange[] {
+  const fields: MemberImportFieldChange[] = [];
+
+  for (const [column, label] of Object.entries(DIFF_FIELDS)) {
+    const before = previous ? previous[column] ?? null : null;
+    const after = current ? current[column] ?? null : null;
+    if (isBlank(before) && isBlank(after)) continue;
+    if (JSON.stringify(before) === JSON.stringify(after)) continue;
+    fields.push({ field: label, before, after });
+  }
+
+  return fields;
+}
+
+function isBlank(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+function getDisplayName(row: Record<string, unknown>): string {
+  const name = [row.first_name, row.last_name].filter(Boolean).join(' ');
+  return name || String(row.email || row.phone || row.external_id || 'Unknown member');
+}
+
+function transformRollbackSummary(row: Record<string, number> | null): MemberImportRollbackSummary {
+  return {
+    membersDeleted: row?.members_deleted ?? 0,
+    membersRestored: row?.members_restored ?? 0,
+    transactionsDeleted: row?.transactions_deleted ?? 0,
+    visitsDeleted: row?.visits_deleted ?? 0,
+  };
+}
+
+function transformImportRun(row: MemberImportRow): MemberImportRun {
+  return {
+    id: row.id,
+    importId: row.import_id,
+    siteId: row.site_id,
+    dataSourceId: row.data_source_id,
+    kind: row.kind,
+    filename: row.filename,
+    status: row.status,
+    totalRows: row.total_rows ?? 0,
+    imported: row.imported ?? 0,
+    updated: row.updated ?? 0,
+    skipped: row.skipped ?? 0,
+    failed: row.failed ?? 0,
+    errors: row.errors ?? [],
+    rollbackSummary: row.rollback_summary ? transformRollbackSummary(row.rollback_summary) : null,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    rolledBackAt: row.rolled_back_at,
+    abandoned:
+      row.status === 'running' && Date.now() - new Date(row.started_at).getTime() > ABANDONED_RUN_MS,
+    changesPurgedAt: row.changes_purged_at ?? null,
+  };
+}
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+export const memberImportHistoryService = {
+  startImportRun,
+  finishImportRun,
+  getImportRuns,
+  getImportChanges,
+  rollbackImport,
+};
+
+export default memberImportHistoryService;
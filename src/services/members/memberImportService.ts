@@ -1,33 +1,56 @@
 /**
  * Member Import Service
  *
- * Handles CSV import, data cleaning, duplicate detection,
+ * Handles CSV / Excel / Google Sheets import, data cleaning, duplicate detection,
  * and batch member creation with transaction and visit history support.
  */
 
 import { supabase } from '@/lib/supabase';
+import { detectColumnType, formatCellValue } from '../data-sources/cleaningService';
+import { getSheetValues } from '../data-sources/googleSheetsService';
+import { startImportRun, finishImportRun } from './memberImportHistoryService';
+import { detectDelimiter, parseCsvBlob, parseCsvText } from '@/utils/csvParser';
+import { openXlsxWorkbook } from '@/utils/xlsxReader';
 import {
-  detectColumnType,
-  applyColumnRules,
-} from '../data-sources/cleaningService';
-import type { CleaningRule, DetectedType } from '@/types/dataImport';
+  importMemberRows,
+  parseDate,
+  parseNumber,
+  parseTime,
+  toBulkUpsertArgs,
+  toSheetTable,
+} from '@/utils/memberImport';
+import type {
+  CsvDelimiter,
+  CsvEncoding,
+  CsvParseProgress,
+  CsvParseResult,
+} from '@/utils/csvParser';
+import type { ImportCellValue, SheetTableOptions } from '@/utils/memberImport';
+import type { DetectedType } from '@/types/dataImport';
 import type {
   CreateMemberInput,
   MemberImportConfig,
   MemberImportResult,
   MemberImportMapping,
-  AcquisitionSource,
-  MembershipStatus,
 } from '@/types/member';
+import type { CsvParserWorkerMessage, CsvParserWorkerRequest } from './csvParser.worker';
 
 // =============================================================================
 // Types
 // =============================================================================
 
+export type { ImportCellValue, SheetTableOptions } from '@/utils/memberImport';
+
 export interface ParsedCSVData {
   headers: string[];
-  rows: string[][];
+  rows: ImportCellValue[][];
   totalRows: number;
+  /** Delimiter the file was parsed with */
+  delimiter?: CsvDelimiter;
+  /** Text encoding detected for uploaded files */
+  encoding?: CsvEncoding;
+  /** Sheet the rows were read from (Excel and Google Sheets) */
+  sheetName?: string;
 }
 
 export interface ColumnPreview {
@@ -45,6 +68,7 @@ export interface ImportPreview {
 }
 
 export interface ImportProgress {
+  /** While parsing, processed and total are in bytes */
   phase: 'parsing' | 'validating' | 'processing' | 'complete' | 'error';
   processed: number;
   total: number;
@@ -53,66 +77,146 @@ export interface ImportProgress {
 
 type ImportProgressCallback = (progress: ImportProgress) => void;
 
+export interface ImportRunSource {
+  /** Uploaded file name, shown in the import history */
+  filename?: string;
+  /** Data source the import ran for */
+  dataSourceId?: string;
+}
+
 // =============================================================================
 // CSV Parsing
 // =============================================================================
 
 /**
  * Parse CSV content into headers and rows
+ * Quoted fields may span lines; the delimiter is detected when not given.
  */
-export function parseCSV(content: string, delimiter = ','): ParsedCSVData {
-  const lines = content.split(/\r?\n/).filter((line) => line.trim());
-  if (lines.length === 0) {
-    return { headers: [], rows: [], totalRows: 0 };
-  }
-
-  const headers = parseCSVLine(lines[0], delimiter);
-  const rows = lines.slice(1).map((line) => parseCSVLine(line, delimiter));
+export function parseCSV(content: string, delimiter?: CsvDelimiter): ParsedCSVData {
+  const detected = delimiter ?? detectDelimiter(content);
+  const [headers = [], ...rows] = parseCsvText(content, detected);
 
   return {
     headers,
-    rows: rows.filter((row) => row.some((cell) => cell.trim())), // Filter empty rows
+    rows,
     totalRows: rows.length,
+    delimiter: detected,
   };
 }
 
 /**
- * Parse a single CSV line handling quoted values
+ * Read and parse a CSV file
+ * Streams the file in a Web Worker where available so large exports don't
+ * block the UI; progress is reported in bytes read.
  */
-function parseCSVLine(line: string, delimiter: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    const nextChar = line[i + 1];
-
-    if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        current += '"';
-        i++; // Skip escaped quote
+export async function parseCSVFile(
+  file: File,
+  onProgress?: ImportProgressCallback
+): Promise<ParsedCSVData> {
+  const reportProgress = (progress: CsvParseProgress) =>
+    onProgress?.({
+      phase: 'parsing',
+      processed: progress.bytesRead,
+      total: progress.totalBytes,
+      errors: [],
+    });
+
+  const result =
+    typeof Worker === 'undefined'
+      ? await parseCsvBlob(file, { onProgress: reportProgress })
+      : await parseInWorker(file, reportProgress);
+
+  return {
+    headers: result.headers,
+    rows: result.rows,
+    totalRows: result.rows.length,
+    delimiter: result.delimiter,
+    encoding: result.encoding,
+  };
+}
+
+function parseInWorker(
+  file: File,
+  onProgress: (progress: CsvParseProgress) => void
+): Promise<CsvParseResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./csvParser.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    worker.onmessage = (event: MessageEvent<CsvParserWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.result);
       } else {
-        inQuotes = !inQuotes;
+        reject(new Error(`Failed to parse file: ${message.message}`));
       }
-    } else if (char === delimiter && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(`Failed to parse file: ${event.message}`));
+    };
+
+    const request: CsvParserWorkerRequest = { file };
+    worker.postMessage(request);
+  });
+}
+
+// =============================================================================
+// Spreadsheet Parsing
+// =============================================================================
+
+/**
+ * Sheet names of an .xlsx workbook
+ */
+export async function getExcelSheetNames(file: File): Promise<string[]> {
+  const workbook = await openWorkbook(file);
+  return workbook.sheetNames;
+}
+
+/**
+ * Read a sheet of an .xlsx workbook
+ * Cells keep their types: numbers, booleans, and dates for date-formatted cells.
+ */
+export async function parseExcelFile(
+  file: File,
+  options: SheetTableOptions = {}
+): Promise<ParsedCSVData> {
+  const workbook = await openWorkbook(file);
+  const sheetName = options.sheetName ?? workbook.sheetNames[0];
+  if (!sheetName) {
+    throw new Error('The workbook has no sheets');
   }
 
-  result.push(current.trim());
-  return result;
+  return toSheetTable(await workbook.readSheet(sheetName), sheetName, options);
 }
 
 /**
- * Read and parse a CSV file
+ * Read a sheet of a Google spreadsheet by its ID
  */
-export async function parseCSVFile(file: File): Promise<ParsedCSVData> {
-  const content = await file.text();
-  return parseCSV(content);
+export async function parseGoogleSheet(
+  spreadsheetId: string,
+  options: SheetTableOptions & { sheetName: string }
+): Promise<ParsedCSVData> {
+  const values = await getSheetValues(spreadsheetId, options.sheetName);
+  return toSheetTable(values, options.sheetName, options);
+}
+
+async function openWorkbook(file: File) {
+  try {
+    return await openXlsxWorkbook(await file.arrayBuffer());
+  } catch (err) {
+    throw new Error(
+      `Failed to read workbook: ${err instanceof Error ? err.message : 'Unknown error'}`
+    );
+  }
 }
 
 // =============================================================================
@@ -124,16 +228,16 @@ export async function parseCSVFile(file: File): Promise<ParsedCSVData> {
  */
 export function generatePreview(data: ParsedCSVData, maxRows = 10): ImportPreview {
   const columns: ColumnPreview[] = data.headers.map((header, index) => {
-    const values = data.rows.map((row) => row[index] || '');
+    const values = data.rows.map((row) => row[index] ?? '');
     const { type } = detectColumnType(values);
 
-    const uniqueValues = new Set(values.filter((v) => v !== ''));
-    const nullCount = values.filter((v) => v === '' || v == null).length;
+    const uniqueValues = new Set(values.filter((v) => v !== '').map(formatCellValue));
+    const nullCount = values.filter((v) => v === '').length;
 
     return {
       name: header,
       detectedType: type,
-      sampleValues: values.slice(0, 5).filter((v) => v !== ''),
+      sampleValues: values.slice(0, 5).filter((v) => v !== '').map(formatCellValue),
       nullCount,
       uniqueCount: uniqueValues.size,
     };
@@ -142,7 +246,7 @@ export function generatePreview(data: ParsedCSVData, maxRows = 10): ImportPrevie
   const rows = data.rows.slice(0, maxRows).map((row) => {
     const obj: Record<string, unknown> = {};
     data.headers.forEach((header, i) => {
-      obj[header] = row[i] || null;
+      obj[header] = row[i] === '' ? null : row[i] ?? null;
     });
     return obj;
   });
@@ -211,212 +315,28 @@ export function suggestFieldMappings(
   });
 }
 
-// =============================================================================
-// Data Transformation
-// =============================================================================
-
-/**
- * Transform a row into a member input based on mappings
- */
-function transformRowToMember(
-  row: string[],
-  headers: string[],
-  mappings: MemberImportMapping[],
-  config: MemberImportConfig
-): CreateMemberInput {
-  const member: CreateMemberInput = {
-    siteId: config.siteId,
-    membershipLevelId: config.defaultMembershipLevelId,
-    acquisitionSource: config.defaultAcquisitionSource,
-    tags: config.defaultTags || [],
-    membershipStatus: 'active' as MembershipStatus,
-  };
-
-  // Apply mappings
-  for (const mapping of mappings) {
-    if (mapping.targetField === 'skip') continue;
-
-    const columnIndex = headers.indexOf(mapping.sourceColumn);
-    if (columnIndex === -1) continue;
-
-    let value: unknown = row[columnIndex];
-
-    // Apply cleaning rules if any
-    if (mapping.transformRules && mapping.transformRules.length > 0) {
-      const rules = mapping.transformRules.map((r) => JSON.parse(r) as CleaningRule);
-      const result = applyColumnRules(value, rules);
-      if (result.skip) continue;
-      value = result.value;
-    }
-
-    // Type-specific transformations
-    switch (mapping.targetField) {
-      case 'email':
-        member.email = value ? String(value).toLowerCase().trim() : null;
-        break;
-      case 'phone':
-        member.phone = formatPhone(value);
-        break;
-      case 'dateOfBirth':
-      case 'membershipStartDate':
-      case 'membershipExpiryDate':
-      case 'acquisitionDate':
-        member[mapping.targetField] = parseDate(value);
-        break;
-      case 'acquisitionCost':
-        member.acquisitionCost = parseNumber(value);
-        break;
-      case 'membershipStatus':
-        member.membershipStatus = parseMembershipStatus(value);
-        break;
-      case 'acquisitionSource':
-        member.acquisitionSource = parseAcquisitionSource(value);
-        break;
-      case 'tags':
-        const newTags = String(value || '')
-          .split(',')
-          .map((t) => t.trim())
-          .filter(Boolean);
-        member.tags = [...(member.tags || []), ...newTags];
-        break;
-      default:
-        if (mapping.targetField in member) {
-          (member as unknown as Record<string, unknown>)[mapping.targetField] = value || null;
-        }
-    }
-  }
-
-  return member;
-}
-
-/**
- * Format phone to E.164 format
- */
-function formatPhone(value: unknown): string | null {
-  if (!value) return null;
-  const digits = String(value).replace(/\D/g, '');
-  if (digits.length === 10) {
-    return `+1${digits}`;
-  }
-  if (digits.length === 11 && digits.startsWith('1')) {
-    return `+${digits}`;
-  }
-  return digits.length >= 10 ? `+${digits}` : null;
-}
-
-/**
- * Parse date string to ISO format
- */
-function parseDate(value: unknown): string | null {
-  if (!value) return null;
-  const date = new Date(String(value));
-  if (isNaN(date.getTime())) return null;
-  return date.toISOString().split('T')[0];
-}
-
-/**
- * Parse number from string
- */
-function parseNumber(value: unknown): number | null {
-  if (value == null || value === '') return null;
-  const num = parseFloat(String(value).replace(/[$,]/g, ''));
-  return isNaN(num) ? null : num;
-}
-
-/**
- * Parse membership status
- */
-function parseMembershipStatus(value: unknown): MembershipStatus {
-  if (!value) return 'active';
-  const str = String(value).toLowerCase().trim();
-  const statusMap: Record<string, MembershipStatus> = {
-    active: 'active',
-    expired: 'expired',
-    cancelled: 'cancelled',
-    canceled: 'cancelled',
-    suspended: 'suspended',
-    pending: 'pending',
-  };
-  return statusMap[str] || 'active';
-}
-
-/**
- * Parse acquisition source
- */
-function parseAcquisitionSource(value: unknown): AcquisitionSource | null {
-  if (!value) return null;
-  const str = String(value).toLowerCase().trim().replace(/\s+/g, '_');
-  const sourceMap: Record<string, AcquisitionSource> = {
-    campaign: 'campaign',
-    promo_code: 'promo_code',
-    promo: 'promo_code',
-    referral: 'referral',
-    organic: 'organic',
-    import: 'import',
-    api: 'api',
-  };
-  return sourceMap[str] || 'import';
-}
-
-// =============================================================================
-// Duplicate Detection
-// =============================================================================
-
-/**
- * Check for duplicate members
- */
-async function findDuplicateMember(
-  siteId: string,
-  email: string | null,
-  phone: string | null,
-  externalId: string | null,
-  matchFields: ('email' | 'phone' | 'externalId')[]
-): Promise<string | null> {
-  if (matchFields.length === 0) return null;
-
-  const conditions: string[] = [];
-
-  if (matchFields.includes('email') && email) {
-    conditions.push(`email.eq.${email.toLowerCase()}`);
-  }
-  if (matchFields.includes('phone') && phone) {
-    conditions.push(`phone.eq.${phone}`);
-  }
-  if (matchFields.includes('externalId') && externalId) {
-    conditions.push(`external_id.eq.${externalId}`);
-  }
-
-  if (conditions.length === 0) return null;
-
-  const { data, error } = await supabase
-    .from('members')
-    .select('id')
-    .eq('site_id', siteId)
-    .eq('is_active', true)
-    .or(conditions.join(','))
-    .limit(1);
-
-  if (error || !data || data.length === 0) return null;
-  return data[0].id;
-}
-
 // =============================================================================
 // Batch Import
 // =============================================================================
 
 /**
  * Import members from parsed CSV data
+ * Rows are validated and transformed locally, then upserted in batches;
+ * duplicate detection and merging run server-side in bulk_upsert_members.
  */
 export async function importMembers(
   data: ParsedCSVData,
   mappings: MemberImportMapping[],
   config: MemberImportConfig,
-  onProgress?: ImportProgressCallback
+  onProgress?: ImportProgressCallback,
+  source: ImportRunSource = {}
 ): Promise<MemberImportResult> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('Not authenticated');
 
-  const result: MemberImportResult = {
+  const importId = `import_${crypto.randomUUID()}`;
+  const result: MemberImportResult & { importId: string } = {
+    importId,
     totalRows: data.rows.length,
     imported: 0,
     updated: 0,
@@ -425,7 +345,15 @@ export async function importMembers(
     errors: [],
   };
 
-  const importId = `import_${Date.now()}`;
+  await startImportRun({
+    importId,
+    kind: 'members',
+    siteId: config.siteId,
+    dataSourceId: source.dataSourceId,
+    filename: source.filename,
+    totalRows: data.rows.length,
+  });
+  const args = toBulkUpsertArgs(mappings, config);
 
   onProgress?.({
     phase: 'processing',
@@ -434,96 +362,28 @@ export async function importMembers(
     errors: [],
   });
 
-  // Process in batches of 50
-  const batchSize = 50;
-  for (let i = 0; i < data.rows.length; i += batchSize) {
-    const batch = data.rows.slice(i, i + batchSize);
-
-    for (let j = 0; j < batch.length; j++) {
-      const rowIndex = i + j;
-      const row = batch[j];
-
-      try {
-        // Transform row to member
-        const memberInput = transformRowToMember(row, data.headers, mappings, config);
-        memberInput.sourceImportId = importId;
-
-        // Check for required fields
-        if (!memberInput.email && !memberInput.phone && !memberInput.externalId) {
-          result.errors.push({
-            row: rowIndex + 2, // +2 for 1-indexed and header row
-            field: 'email/phone/externalId',
-            message: 'At least one identifier (email, phone, or external ID) is required',
-          });
-          result.failed++;
-          continue;
-        }
-
-        // Check for duplicates
-        const existingId = await findDuplicateMember(
-          config.siteId,
-          memberInput.email ?? null,
-          memberInput.phone ?? null,
-          memberInput.externalId ?? null,
-          config.matchFields
-        );
-
-        if (existingId) {
-          switch (config.duplicateHandling) {
-            case 'skip':
-              result.skipped++;
-              continue;
-            case 'update':
-              await supabase
-                .from('members')
-                .update({
-                  ...transformMemberToDbRow(memberInput),
-                  updated_at: new Date().toISOString(),
-                })
-                .eq('id', existingId);
-              result.updated++;
-              continue;
-            case 'create_new':
-              // Fall through to create
-              break;
-          }
-        }
-
-        // Create new member
-        const { error: insertError } = await supabase.from('members').insert({
-          user_id: user.id,
-          ...transformMemberToDbRow(memberInput),
-        });
-
-        if (insertError) {
-          result.errors.push({
-            row: rowIndex + 2,
-            field: 'database',
-            message: insertError.message,
-          });
-          result.failed++;
-        } else {
-          result.imported++;
-        }
-      } catch (err) {
-        result.errors.push({
-          row: rowIndex + 2,
-          field: 'unknown',
-          message: err instanceof Error ? err.message : 'Unknown error',
-        });
-        result.failed++;
-      }
-
-      // Update progress
-      onProgress?.({
-        phase: 'processing',
-        processed: rowIndex + 1,
-        total: data.rows.length,
-        errors: result.errors.slice(-10), // Last 10 errors
-      });
-    }
+  try {
+    await importMemberRows(
+      data,
+      mappings,
+      config,
+      result,
+      (rows) => supabase.rpc('bulk_upsert_members', { ...args, p_rows: rows }),
+      (processed) =>
+        onProgress?.({
+          phase: 'processing',
+          processed,
+          total: data.rows.length,
+          errors: result.errors.slice(-10), // Last 10 errors
+        })
+    );
+  } catch (err) {
+    await finishImportRun(importId, result, 'failed');
+    throw err;
   }
 
+  await finishImportRun(importId, result);
+
   onProgress?.({
     phase: 'complete',
     processed: data.rows.length,
@@ -535,36 +395,19 @@ export async function importMembers(
 }
 
 /**
- * Transform member input to database row format
+ * Counts of a transaction / visit import in the shape of MemberImportResult
  */
-function transformMemberToDbRow(input: CreateMemberInput): Record<string, unknown> {
+function toRunResult(
+  totalRows: number,
+  result: { imported: number; failed: number; errors: Array<{ row: number; message: string }> }
+): MemberImportResult {
   return {
-    site_id: input.siteId,
-    membership_level_id: input.membershipLevelId || null,
-    external_id: input.externalId || null,
-    first_name: input.firstName || null,
-    last_name: input.lastName || null,
-    email: input.email?.toLowerCase() || null,
-    phone: input.phone || null,
-    date_of_birth: input.dateOfBirth || null,
-    gender: input.gender || null,
-    address_line1: input.addressLine1 || null,
-    address_line2: input.addressLine2 || null,
-    city: input.city || null,
-    state: input.state || null,
-    postal_code: input.postalCode || null,
-    country: input.country || 'US',
-    membership_start_date: input.membershipStartDate || null,
-    membership_expiry_date: input.membershipExpiryDate || null,
-    membership_status: input.membershipStatus || 'active',
-    acquisition_source: input.acquisitionSource || 'import',
-    acquisition_campaign_id: input.acquisitionCampaignId || null,
-    acquisition_promo_code: input.acquisitionPromoCode || null,
-    acquisition_cost: input.acquisitionCost || null,
-    acquisition_date: input.acquisitionDate || new Date().toISOString().split('T')[0],
-    tags: input.tags || [],
-    custom_fields: input.customFields || {},
-    source_import_id: input.sourceImportId || null,
+    totalRows,
+    imported: result.imported,
+    updated: 0,
+    skipped: 0,
+    failed: result.failed,
+    errors: result.errors.map((error) => ({ ...error, field: '' })),
   };
 }
 
@@ -595,72 +438,80 @@ export async function importTransactions(
     throw new Error('Required columns not found');
   }
 
-  const importId = `txn_import_${Date.now()}`;
-
-  for (let i = 0; i < data.rows.length; i++) {
-    const row = data.rows[i];
+  const importId = `txn_import_${crypto.randomUUID()}`;
+  await startImportRun({ importId, kind: 'transactions', siteId, totalRows: data.rows.length });
 
-    try {
-      const memberId = row[memberIdIndex];
-      const date = parseDate(row[dateIndex]);
-      const amount = parseNumber(row[amountIndex]);
-      const type = typeIndex >= 0 ? row[typeIndex] : 'purchase';
+  try {
+    for (let i = 0; i < data.rows.length; i++) {
+      const row = data.rows[i];
 
-      if (!memberId || !date || amount === null) {
-        result.errors.push({ row: i + 2, message: 'Missing required fields' });
-        result.failed++;
-        continue;
-      }
+      try {
+        const memberId = formatCellValue(row[memberIdIndex]).trim();
+        const date = parseDate(row[dateIndex]);
+        const amount = parseNumber(row[amountIndex]);
+        const type = typeIndex >= 0 ? formatCellValue(row[typeIndex]) : 'purchase';
 
-      // Find member by external ID or UUID
-      let memberUuid = memberId;
-      if (!/^[0-9a-f-]{36}$/i.test(memberId)) {
-        const { data: member } = await supabase
-          .from('members')
-          .select('id')
-          .eq('external_id', memberId)
-          .eq('is_active', true)
-          .single();
-
-        if (!member) {
-          result.errors.push({ row: i + 2, message: `Member not found: ${memberId}` });
+        if (!memberId || !date || amount === null) {
+          result.errors.push({ row: i + 2, message: 'Missing required fields' });
           result.failed++;
           continue;
         }
-        memberUuid = member.id;
-      }
 
-      const { error } = await supabase.from('member_transactions').insert({
-        member_id: memberUuid,
-        site_id: siteId,
-        transaction_date: date,
-        amount,
-        transaction_type: type,
-        source_import_id: importId,
-      });
+        // Find member by external ID or UUID
+        let memberUuid = memberId;
+        if (!/^[0-9a-f-]{36}$/i.test(memberId)) {
+          const { data: member } = await supabase
+            .from('members')
+            .select('id')
+            .eq('external_id', memberId)
+            .eq('is_active', true)
+            .single();
+
+          if (!member) {
+            result.errors.push({ row: i + 2, message: `Member not found: ${memberId}` });
+            result.failed++;
+            continue;
+          }
+          memberUuid = member.id;
+        }
 
-      if (error) {
-        result.errors.push({ row: i + 2, message: error.message });
+        const { error } = await supabase.from('member_transactions').insert({
+          member_id: memberUuid,
+          site_id: siteId,
+          transaction_date: date,
+          amount,
+          transaction_type: type,
+          source_import_id: importId,
+        });
+
+        if (error) {
+          result.errors.push({ row: i + 2, message: error.message });
+          result.failed++;
+        } else {
+          result.imported++;
+        }
+      } catch (err) {
+        result.errors.push({
+          row: i + 2,
+          message: err instanceof Error ? err.message : 'Unknown error',
+        });
         result.failed++;
-      } else {
-        result.imported++;
       }
-    } catch (err) {
-      result.errors.push({
-        row: i + 2,
-        message: err instanceof Error ? err.message : 'Unknown error',
+
+      onProgress?.({
+        phase: 'processing',
+        processed: i + 1,
+        total: data.rows.length,
+        errors: result.errors.slice(-10),
       });
-      result.failed++;
     }
-
-    onProgress?.({
-      phase: 'processing',
-      processed: i + 1,
-      total: data.rows.length,
-      errors: result.errors.slice(-10),
-    });
+  } catch (err) {
+    await finishImportRun(importId, toRunResult(data.rows.length, result), 'failed');
+    throw err;
   }
 
+  await finishImportRun(importId, toRunResult(data.rows.length, result));
+
   return result;
 }
 
@@ -691,72 +542,80 @@ export async function importVisits(
     throw new Error('Required columns not found');
   }
 
-  const importId = `visit_import_${Date.now()}`;
+  const importId = `visit_import_${crypto.randomUUID()}`;
+  await startImportRun({ importId, kind: 'visits', siteId, totalRows: data.rows.length });
 
-  for (let i = 0; i < data.rows.length; i++) {
-    const row = data.rows[i];
+  try {
+    for (let i = 0; i < data.rows.length; i++) {
+      const row = data.rows[i];
 
-    try {
-      const memberId = row[memberIdIndex];
-      const date = parseDate(row[dateIndex]);
-      const time = timeIndex >= 0 ? row[timeIndex] : null;
-      const type = typeIndex >= 0 ? row[typeIndex] : 'regular';
-
-      if (!memberId || !date) {
-        result.errors.push({ row: i + 2, message: 'Missing required fields' });
-        result.failed++;
-        continue;
-      }
+      try {
+        const memberId = formatCellValue(row[memberIdIndex]).trim();
+        const date = parseDate(row[dateIndex]);
+        const time = timeIndex >= 0 ? parseTime(row[timeIndex]) : null;
+        const type = typeIndex >= 0 ? formatCellValue(row[typeIndex]) : 'regular';
 
-      // Find member
-      let memberUuid = memberId;
-      if (!/^[0-9a-f-]{36}$/i.test(memberId)) {
-        const { data: member } = await supabase
-          .from('members')
-          .select('id')
-          .eq('external_id', memberId)
-          .eq('is_active', true)
-          .single();
-
-        if (!member) {
-          result.errors.push({ row: i + 2, message: `Member not found: ${memberId}` });
+        if (!memberId || !date) {
+          result.errors.push({ row: i + 2, message: 'Missing required fields' });
           result.failed++;
           continue;
         }
-        memberUuid = member.id;
-      }
 
-      const { error } = await supabase.from('member_visits').insert({
-        member_id: memberUuid,
-        site_id: siteId,
-        visit_date: date,
-        check_in_time: time ? `${date}T${time}` : null,
-        visit_type: type,
-        source_import_id: importId,
-      });
+        // Find member
+        let memberUuid = memberId;
+        if (!/^[0-9a-f-]{36}$/i.test(memberId)) {
+          const { data: member } = await supabase
+            .from('members')
+            .select('id')
+            .eq('external_id', memberId)
+            .eq('is_active', true)
+            .single();
+
+          if (!member) {
+            result.errors.push({ row: i + 2, message: `Member not found: ${memberId}` });
+            result.failed++;
+            continue;
+          }
+          memberUuid = member.id;
+        }
+
+        const { error } = await supabase.from('member_visits').insert({
+          member_id: memberUuid,
+          site_id: siteId,
+          visit_date: date,
+          check_in_time: time ? `${date}T${time}` : null,
+          visit_type: type,
+          source_import_id: importId,
+        });
 
-      if (error) {
-        result.errors.push({ row: i + 2, message: error.message });
+        if (error) {
+          result.errors.push({ row: i + 2, message: error.message });
+          result.failed++;
+        } else {
+          result.imported++;
+        }
+      } catch (err) {
+        result.errors.push({
+          row: i + 2,
+          message: err instanceof Error ? err.message : 'Unknown error',
+        });
         result.failed++;
-      } else {
-        result.imported++;
       }
-    } catch (err) {
-      result.errors.push({
-        row: i + 2,
-        message: err instanceof Error ? err.message : 'Unknown error',
+
+      onProgress?.({
+        phase: 'processing',
+        processed: i + 1,
+        total: data.rows.length,
+        errors: result.errors.slice(-10),
       });
-      result.failed++;
     }
-
-    onProgress?.({
-      phase: 'processing',
-      processed: i + 1,
-      total: data.rows.length,
-      errors: result.errors.slice(-10),
-    });
+  } catch (err) {
+    await finishImportRun(importId, toRunResult(data.rows.length, result), 'failed');
+    throw err;
   }
 
+  await finishImportRun(importId, toRunResult(data.rows.length, result));
+
   return result;
 }
 
@@ -765,9 +624,12 @@ export async function importVisits(
 // =============================================================================
 
 export const memberImportService = {
-  // CSV Parsing
+  // Parsing
   parseCSV,
   parseCSVFile,
+  getExcelSheetNames,
+  parseExcelFile,
+  parseGoogleSheet,
 
   // Preview
   generatePreview,
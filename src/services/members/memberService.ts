@@ -22,6 +22,7 @@ import type {
   UpdateConsentInput,
   ConsentCheckResult,
 } from '@/types/member';
+import { requireSiteAccess } from './siteService';
 
 // =============================================================================
 // Error Handling
@@ -45,7 +46,7 @@ function MemberServiceError(message: string, cause?: Error): ServiceError {
 // =============================================================================
 
 /**
- * Get all members for the current user with optional filters
+ * Get all members of the current user's organization with optional filters
  */
 export async function getMembers(params?: {
   siteId?: string;
@@ -134,6 +135,8 @@ export async function createMember(input: CreateMemberInput): Promise<Member> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw MemberServiceError('Not authenticated');
 
+  await requireSiteAccess(input.siteId);
+
   const { data, error } = await supabase
     .from('members')
     .insert({
@@ -250,6 +253,21 @@ export async function hardDeleteMember(id: string): Promise<void> {
   }
 }
 
+/**
+ * Place or release a legal hold, exempting the member from data retention
+ * (admins only)
+ */
+export async function setMemberLegalHold(id: string, hold: boolean): Promise<void> {
+  const { error } = await supabase.rpc('set_member_legal_hold', {
+    p_member_id: id,
+    p_hold: hold,
+  });
+
+  if (error) {
+    throw MemberServiceError('Failed to update legal hold', error);
+  }
+}
+
 // =============================================================================
 // Member Search
 // =============================================================================
@@ -258,12 +276,8 @@ export async function hardDeleteMember(id: string): Promise<void> {
  * Search members with filters
  */
 export async function searchMembers(params: MemberSearchParams): Promise<MemberSearchResult[]> {
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) throw MemberServiceError('Not authenticated');
-
   const { data, error } = await supabase
     .rpc('search_members', {
-      p_user_id: user.id,
       p_site_id: params.siteId ?? null,
       p_search_term: params.searchTerm ?? null,
       p_membership_status: params.membershipStatus ?? null,
@@ -579,7 +593,7 @@ export async function canSendSms(memberId: string, siteTimezone?: string): Promi
   const { data, error } = await supabase
     .rpc('can_send_sms', {
       p_member_id: memberId,
-      p_site_timezone: siteTimezone ?? 'America/New_York',
+      p_site_timezone: siteTimezone ?? null, // NULL = member's site timezone
     });
 
   if (error) {
@@ -667,7 +681,8 @@ export async function getAllTags(): Promise<string[]> {
 function transformMember(row: Record<string, unknown>): Member {
   return {
     id: row.id as string,
-    userId: row.user_id as string,
+    organizationId: row.organization_id as string,
+    userId: row.user_id as string | null,
     siteId: row.site_id as string,
     membershipLevelId: row.membership_level_id as string | null,
     externalId: row.external_id as string | null,
@@ -700,6 +715,7 @@ function transformMember(row: Record<string, unknown>): Member {
     customFields: (row.custom_fields as Record<string, unknown>) || {},
     sourceImportId: row.source_import_id as string | null,
     isActive: row.is_active as boolean,
+    legalHold: (row.legal_hold as boolean) ?? false,
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string,
   };
@@ -768,7 +784,8 @@ function transformConsent(row: Record<string, unknown>): MemberConsent {
 function transformSite(row: Record<string, unknown>): MemberWithDetails['site'] {
   return {
     id: row.id as string,
-    userId: row.user_id as string,
+    organizationId: row.organization_id as string,
+    userId: row.user_id as string | null,
     name: row.name as string,
     code: row.code as string,
     parentSiteId: row.parent_site_id as string | null,
@@ -780,6 +797,8 @@ function transformSite(row: Record<string, unknown>): MemberWithDetails['site']
     postalCode: row.postal_code as string | null,
     country: (row.country as string) || 'US',
     timezone: row.timezone as string,
+    quietHoursStart: row.quiet_hours_start as string | null,
+    quietHoursEnd: row.quiet_hours_end as string | null,
     phone: row.phone as string | null,
     email: row.email as string | null,
     defaultAcquisitionCost: Number(row.default_acquisition_cost) || 0,
@@ -817,6 +836,7 @@ export const memberService = {
   updateMember,
   deleteMember,
   hardDeleteMember,
+  setMemberLegalHold,
   searchMembers,
   findMemberByContact,
 
@@ -0,0 +1,82 @@
+/**
+ * Preference Service
+ * Public (no login) unsubscribe and preference updates for members, via the
+ * unsubscribe Edge Function. Every call is authorized by the signed token
+ * from the member's unsubscribe link.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { MemberPreferences, UpdateMemberPreferencesInput } from '@/types/member';
+
+// =============================================================================
+// Error Handling
+// =============================================================================
+
+interface ServiceError extends Error {
+  cause?: Error;
+}
+
+function PreferenceServiceError(message: string, cause?: Error): ServiceError {
+  const error = new Error(message) as ServiceError;
+  error.name = 'PreferenceServiceError';
+  if (cause) {
+    error.cause = cause;
+  }
+  return error;
+}
+
+// =============================================================================
+// Preference Operations
+// =============================================================================
+
+async function invokeUnsubscribe(
+  body: Record<string, unknown>,
+  failureMessage: string
+): Promise<MemberPreferences> {
+  const { data, error } = await supabase.functions.invoke('unsubscribe', { body });
+
+  if (error) {
+    throw PreferenceServiceError(failureMessage, error);
+  }
+
+  return data.preferences as MemberPreferences;
+}
+
+/**
+ * Get the preferences for the member the token was issued to
+ */
+export async function getPreferences(token: string): Promise<MemberPreferences> {
+  return invokeUnsubscribe(
+    { token, action: 'get' },
+    'This link is invalid. Please use the link from your most recent email.'
+  );
+}
+
+/**
+ * Unsubscribe the member from all email
+ */
+export async function unsubscribeFromEmail(token: string): Promise<MemberPreferences> {
+  return invokeUnsubscribe({ token, action: 'unsubscribe' }, 'Failed to unsubscribe');
+}
+
+/**
+ * Update email / SMS subscriptions and preferred channel
+ */
+export async function updatePreferences(
+  token: string,
+  input: UpdateMemberPreferencesInput
+): Promise<MemberPreferences> {
+  return invokeUnsubscribe({ token, action: 'update', ...input }, 'Failed to update preferences');
+}
+
+// =============================================================================
+// Export Service Object
+// =============================================================================
+
+export const preferenceService = {
+  getPreferences,
+  unsubscribeFromEmail,
+  updatePreferences,
+};
+
+export default preferenceService;
@@ -0,0 +1,362 @@
+/**
+ * Promo Code Service
+ * CRUD, bulk generation, validation / redemption and redemption reporting
+ * for promo codes
+ */
+
+import { supabase } from '@/lib/supabase';
+import type {
+  PromoCode,
+  CreatePromoCodeInput,
+  UpdatePromoCodeInput,
+  PromoCodeValidationResult,
+  RedeemPromoCodeInput,
+  GeneratePromoCodesInput,
+  PromoCodeReportRow,
+  PromoCodeRedemptions,
+  TransactionType,
+} from '@/types/member';
+
+// =============================================================================
+// Error Handling
+// =============================================================================
+
+interface ServiceError extends Error {
+  cause?: Error;
+}
+
+function PromoCodeServiceError(message: string, cause?: Error): ServiceError {
+  const error = new Error(message) as ServiceError;
+  error.name = 'PromoCodeServiceError';
+  if (cause) {
+    error.cause = cause;
+  }
+  return error;
+}
+
+// =============================================================================
+// Promo Code CRUD Operations
+// =============================================================================
+
+/**
+ * Get promo codes, optionally for one site (site codes and global codes)
+ * or one campaign
+ */
+export async function getPromoCodes(params?: {
+  siteId?: string;
+  campaignId?: string;
+  includeInactive?: boolean;
+}): Promise<PromoCode[]> {
+  let query = supabase
+    .from('promo_codes')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (params?.siteId) {
+    query = query.or(`site_id.eq.${params.siteId},site_id.is.null`);
+  }
+
+  if (params?.campaignId) {
+    query = query.eq('campaign_id', params.campaignId);
+  }
+
+  if (!params?.includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw PromoCodeServiceError('Failed to fetch promo codes', error);
+  }
+
+  return (data || []).map(transformPromoCode);
+}
+
+/**
+ * Get a single promo code by ID
+ */
+export async function getPromoCodeById(id: string): Promise<PromoCode | null> {
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw PromoCodeServiceError('Failed to fetch promo code', error);
+  }
+
+  return transformPromoCode(data);
+}
+
+/**
+ * Create a promo code. Codes are stored upper-case and are unique per user.
+ */
+export async function createPromoCode(input: CreatePromoCodeInput): Promise<PromoCode> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw PromoCodeServiceError('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .insert({
+      user_id: user.id,
+      site_id: input.siteId || null,
+      code: input.code.trim().toUpperCase(),
+      description: input.description || null,
+      campaign_id: input.campaignId || null,
+      acquisition_cost: input.acquisitionCost ?? null,
+      valid_from: input.validFrom || null,
+      valid_until: input.validUntil || null,
+      max_uses: input.maxUses ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw PromoCodeServiceError(`Promo code ${input.code.trim().toUpperCase()} already exists`, error);
+    }
+    throw PromoCodeServiceError('Failed to create promo code', error);
+  }
+
+  return transformPromoCode(data);
+}
+
+/**
+ * Update a promo code
+ */
+export async function updatePromoCode(id: string, input: UpdatePromoCodeInput): Promise<PromoCode> {
+  const updateData: Record<string, unknown> = {};
+
+  if (input.siteId !== undefined) updateData.site_id = input.siteId;
+  if (input.description !== undefined) updateData.description = input.description;
+  if (input.campaignId !== undefined) updateData.campaign_id = input.campaignId;
+  if (input.acquisitionCost !== undefined) updateData.acquisition_cost = input.acquisitionCost;
+  if (input.validFrom !== undefined) updateData.valid_from = input.validFrom;
+  if (input.validUntil !== undefined) updateData.valid_until = input.validUntil;
+  if (input.maxUses !== undefined) updateData.max_uses = input.maxUses;
+  if (input.isActive !== undefined) updateData.is_active = input.isActive;
+
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .update(updateData)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw PromoCodeServiceError('Failed to update promo code', error);
+  }
+
+  return transformPromoCode(data);
+}
+
+/**
+ * Deactivate a promo code. Codes are kept for redemption history.
+ */
+export async function deactivatePromoCode(id: string): Promise<PromoCode> {
+  return updatePromoCode(id, { isActive: false });
+}
+
+/**
+ * Generate unique single-use promo codes, e.g. one per campaign recipient
+ */
+export async function generatePromoCodes(input: GeneratePromoCodesInput): Promise<PromoCode[]> {
+  const { data, error } = await supabase.rpc('generate_promo_codes', {
+    p_count: input.count,
+    p_prefix: input.prefix?.trim() || '',
+    p_site_id: input.siteId || null,
+    p_campaign_id: input.campaignId || null,
+    p_description: input.description || null,
+    p_acquisition_cost: input.acquisitionCost ?? null,
+    p_valid_from: input.validFrom || null,
+    p_valid_until: input.validUntil || null,
+  });
+
+  if (error) {
+    throw PromoCodeServiceError('Failed to generate promo codes', error);
+  }
+
+  return (data || []).map(transformPromoCode);
+}
+
+// =============================================================================
+// Validation and Redemption
+// =============================================================================
+
+/**
+ * Check whether a code can be used (active, within dates, under max uses)
+ */
+export async function validatePromoCode(
+  code: string,
+  siteId?: string
+): Promise<PromoCodeValidationResult> {
+  const { data, error } = await supabase.rpc('validate_promo_code', {
+    p_code: code.trim(),
+    p_site_id: siteId ?? null,
+  });
+
+  if (error) {
+    throw PromoCodeServiceError('Failed to validate promo code', error);
+  }
+
+  return transformValidationResult(data?.[0]);
+}
+
+/**
+ * Redeem a code for a member: counts the use, optionally tags a
+ * transaction and attributes the member's acquisition (and CAC) to the
+ * code and its campaign. Invalid codes are returned with isValid false.
+ */
+export async function redeemPromoCode(input: RedeemPromoCodeInput): Promise<PromoCodeValidationResult> {
+  const { data, error } = await supabase.rpc('redeem_promo_code', {
+    p_code: input.code.trim(),
+    p_member_id: input.memberId,
+    p_transaction_id: input.transactionId ?? null,
+    p_attribute_acquisition: input.attributeAcquisition ?? true,
+  });
+
+  if (error) {
+    throw PromoCodeServiceError('Failed to redeem promo code', error);
+  }
+
+  return transformValidationResult(data?.[0]);
+}
+
+// =============================================================================
+// Reporting
+// =============================================================================
+
+/**
+ * Redemption report: uses, members acquired and transaction revenue per code
+ */
+export async function getPromoCodeReport(siteId?: string): Promise<PromoCodeReportRow[]> {
+  const { data, error } = await supabase.rpc('get_promo_code_report', {
+    p_site_id: siteId ?? null,
+  });
+
+  if (error) {
+    throw PromoCodeServiceError('Failed to fetch promo code report', error);
+  }
+
+  return (data || []).map((row: Record<string, unknown>) => ({
+    promoCodeId: row.promo_code_id as string,
+    code: row.code as string,
+    siteId: row.site_id as string | null,
+    campaignId: row.campaign_id as string | null,
+    currentUses: Number(row.current_uses) || 0,
+    maxUses: row.max_uses as number | null,
+    membersAcquired: Number(row.members_acquired) || 0,
+    acquisitionCostTotal: Number(row.acquisition_cost_total) || 0,
+    transactionCount: Number(row.transaction_count) || 0,
+    transactionRevenue: Number(row.transaction_revenue) || 0,
+    lastUsedAt: row.last_used_at as string | null,
+  }));
+}
+
+/**
+ * Members acquired with a code and transactions that used it
+ */
+export async function getPromoCodeRedemptions(code: string): Promise<PromoCodeRedemptions> {
+  const [membersResult, transactionsResult] = await Promise.all([
+    supabase
+      .from('members')
+      .select('id, first_name, last_name, email, acquisition_date, acquisition_cost')
+      .ilike('acquisition_promo_code', code)
+      .order('acquisition_date', { ascending: false })
+      .limit(200),
+    supabase
+      .from('member_transactions')
+      .select('id, member_id, transaction_date, amount, transaction_type, members (first_name, last_name)')
+      .ilike('promo_code', code)
+      .order('transaction_date', { ascending: false })
+      .limit(200),
+  ]);
+
+  if (membersResult.error) {
+    throw PromoCodeServiceError('Failed to fetch promo code members', membersResult.error);
+  }
+
+  if (transactionsResult.error) {
+    throw PromoCodeServiceError('Failed to fetch promo code transactions', transactionsResult.error);
+  }
+
+  return {
+    acquiredMembers: (membersResult.data || []).map((row) => ({
+      id: row.id as string,
+      firstName: row.first_name as string | null,
+      lastName: row.last_name as string | null,
+      email: row.email as string | null,
+      acquisitionDate: row.acquisition_date as string | null,
+      acquisitionCost: row.acquisition_cost !== null ? Number(row.acquisition_cost) : null,
+    })),
+    transactions: (transactionsResult.data || []).map((row: Record<string, unknown>) => {
+      const member = row.members as { first_name: string | null; last_name: string | null } | null;
+      return {
+        id: row.id as string,
+        memberId: row.member_id as string,
+        memberName: member
+          ? `${member.first_name || ''} ${member.last_name || ''}`.trim() || null
+          : null,
+        transactionDate: row.transaction_date as string,
+        amount: Number(row.amount) || 0,
+        transactionType: row.transaction_type as TransactionType,
+      };
+    }),
+  };
+}
+
+// =============================================================================
+// Transform Functions
+// =============================================================================
+
+function transformPromoCode(row: Record<string, unknown>): PromoCode {
+  return {
+    id: row.id as string,
+    organizationId: row.organization_id as string,
+    userId: row.user_id as string | null,
+    siteId: row.site_id as string | null,
+    code: row.code as string,
+    description: row.description as string | null,
+    campaignId: row.campaign_id as string | null,
+    acquisitionCost: row.acquisition_cost !== null ? Number(row.acquisition_cost) : null,
+    validFrom: row.valid_from as string | null,
+    validUntil: row.valid_until as string | null,
+    maxUses: row.max_uses as number | null,
+    currentUses: (row.current_uses as number) ?? 0,
+    isActive: row.is_active as boolean,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function transformValidationResult(row: Record<string, unknown> | undefined): PromoCodeValidationResult {
+  return {
+    isValid: (row?.is_valid as boolean) ?? false,
+    promoCodeId: (row?.promo_code_id as string) ?? null,
+    acquisitionCost: row?.acquisition_cost != null ? Number(row.acquisition_cost) : null,
+    campaignId: (row?.campaign_id as string) ?? null,
+    message: (row?.message as string) ?? 'Invalid promo code',
+  };
+}
+
+// =============================================================================
+// Export Service Object
+// =============================================================================
+
+export const promoCodeService = {
+  getPromoCodes,
+  getPromoCodeById,
+  createPromoCode,
+  updatePromoCode,
+  deactivatePromoCode,
+  generatePromoCodes,
+  validatePromoCode,
+  redeemPromoCode,
+  getPromoCodeReport,
+  getPromoCodeRedemptions,
+};
+
+export default promoCodeService;
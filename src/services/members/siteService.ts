@@ -14,6 +14,8 @@ import type {
   CreateMembershipLevelInput,
   UpdateMembershipLevelInput,
 } from '@/types/member';
+import type { SiteAccess, SiteGrantRole, UserRole } from '@/types/admin';
+import { resolveSiteRoles, hasSiteAccess } from '@/utils/siteAccess';
 
 // =============================================================================
 // Error Handling
@@ -37,7 +39,7 @@ function SiteServiceError(message: string, cause?: Error): ServiceError {
 // =============================================================================
 
 /**
- * Get all sites for the current user
+ * Get all sites of the current user's organization
  */
 export async function getSites(): Promise<Site[]> {
   const { data, error } = await supabase
@@ -78,6 +80,8 @@ export async function createSite(input: CreateSiteInput): Promise<Site> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw SiteServiceError('Not authenticated');
 
+  await requireSiteAccess(input.parentSiteId ?? null);
+
   const { data, error } = await supabase
     .from('sites')
     .insert({
@@ -93,6 +97,8 @@ export async function createSite(input: CreateSiteInput): Promise<Site> {
       postal_code: input.postalCode ?? null,
       country: input.country ?? 'US',
       timezone: input.timezone ?? 'America/New_York',
+      quiet_hours_start: input.quietHoursStart ?? null,
+      quiet_hours_end: input.quietHoursEnd ?? null,
       phone: input.phone ?? null,
       email: input.email ?? null,
       default_acquisition_cost: input.defaultAcquisitionCost ?? 0,
@@ -111,6 +117,11 @@ export async function createSite(input: CreateSiteInput): Promise<Site> {
  * Update an existing site
  */
 export async function updateSite(id: string, input: UpdateSiteInput): Promise<Site> {
+  await requireSiteAccess(id);
+  if (input.parentSiteId !== undefined) {
+    await requireSiteAccess(input.parentSiteId);
+  }
+
   const updateData: Record<string, unknown> = {};
 
   if (input.name !== undefined) updateData.name = input.name;
@@ -124,6 +135,8 @@ export async function updateSite(id: string, input: UpdateSiteInput): Promise<Si
   if (input.postalCode !== undefined) updateData.postal_code = input.postalCode;
   if (input.country !== undefined) updateData.country = input.country;
   if (input.timezone !== undefined) updateData.timezone = input.timezone;
+  if (input.quietHoursStart !== undefined) updateData.quiet_hours_start = input.quietHoursStart;
+  if (input.quietHoursEnd !== undefined) updateData.quiet_hours_end = input.quietHoursEnd;
   if (input.phone !== undefined) updateData.phone = input.phone;
   if (input.email !== undefined) updateData.email = input.email;
   if (input.defaultAcquisitionCost !== undefined) updateData.default_acquisition_cost = input.defaultAcquisitionCost;
@@ -239,6 +252,68 @@ export async function getChildSiteIds(siteId: string): Promise<string[]> {
   return (data || []).map((row: { id: string }) => row.id);
 }
 
+// =============================================================================
+// Site Access
+// =============================================================================
+
+/**
+ * Get the current user's access to sites. siteRoles is null when the user
+ * is not limited to granted sites (admins and users without grants).
+ */
+export async function getSiteAccess(): Promise<SiteAccess> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw SiteServiceError('Not authenticated');
+
+  const [{ data: profile, error: profileError }, { data: grants, error: grantsError }] =
+    await Promise.all([
+      supabase.from('profiles').select('role').eq('id', user.id).single(),
+      supabase.from('user_site_grants').select('site_id, role').eq('user_id', user.id),
+    ]);
+
+  if (profileError) {
+    throw SiteServiceError('Failed to fetch user role', profileError);
+  }
+  if (grantsError) {
+    throw SiteServiceError('Failed to fetch site grants', grantsError);
+  }
+
+  const role = profile.role as UserRole;
+  if (role === 'admin' || !grants || grants.length === 0) {
+    return { role, siteRoles: null };
+  }
+
+  const sites = await getSites();
+  return {
+    role,
+    siteRoles: resolveSiteRoles(
+      sites,
+      grants.map((grant) => ({
+        siteId: grant.site_id as string,
+        role: grant.role as SiteGrantRole,
+      }))
+    ),
+  };
+}
+
+/**
+ * Throw unless the current user has at least minimumRole on a site.
+ * A null siteId (all sites) needs access to every site.
+ * RLS enforces the same rule; this gives a clear error up front.
+ */
+export async function requireSiteAccess(
+  siteId: string | null,
+  minimumRole: UserRole = 'user'
+): Promise<void> {
+  const access = await getSiteAccess();
+  if (hasSiteAccess(access, siteId, minimumRole)) return;
+
+  throw SiteServiceError(
+    siteId
+      ? 'You do not have access to this site'
+      : 'You only have access to some sites; choose one of them'
+  );
+}
+
 // =============================================================================
 // Site Statistics
 // =============================================================================
@@ -437,7 +512,8 @@ export async function deleteMembershipLevel(id: string): Promise<void> {
 function transformSite(row: Record<string, unknown>): Site {
   return {
     id: row.id as string,
-    userId: row.user_id as string,
+    organizationId: row.organization_id as string,
+    userId: row.user_id as string | null,
     name: row.name as string,
     code: row.code as string,
     parentSiteId: row.parent_site_id as string | null,
@@ -449,6 +525,8 @@ function transformSite(row: Record<string, unknown>): Site {
     postalCode: row.postal_code as string | null,
     country: row.country as string,
     timezone: row.timezone as string,
+    quietHoursStart: row.quiet_hours_start as string | null,
+    quietHoursEnd: row.quiet_hours_end as string | null,
     phone: row.phone as string | null,
     email: row.email as string | null,
     defaultAcquisitionCost: Number(row.default_acquisition_cost) || 0,
@@ -515,6 +593,10 @@ export const siteService = {
   getSiteWithChildren,
   getChildSiteIds,
 
+  // Access
+  getSiteAccess,
+  requireSiteAccess,
+
   // Statistics
   getSiteStats,
   getSiteTransactionSummary,
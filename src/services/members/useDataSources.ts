@@ -0,0 +1,85 @@
+/**
+ * Data Source React Query Hooks
+ * Hooks for saved member import data sources and their sync history
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { dataSourceKeys, importKeys } from '@/lib/queryKeys';
+import {
+  getMemberImportDataSources,
+  getDataSourceSyncLogs,
+  toggleMemberImportDataSource,
+  deleteMemberImportDataSource,
+  syncMemberImportDataSource,
+} from './memberImportDataSourceService';
+import type { MemberImportDataSource } from './memberImportDataSourceService';
+
+// =============================================================================
+// Data Source Hooks
+// =============================================================================
+
+/**
+ * Fetch saved member import data sources
+ */
+export function useMemberImportDataSources() {
+  return useQuery({
+    queryKey: dataSourceKeys.lists(),
+    queryFn: getMemberImportDataSources,
+  });
+}
+
+/**
+ * Fetch a data source's recent syncs
+ */
+export function useDataSourceSyncLogs(id: string) {
+  return useQuery({
+    queryKey: dataSourceKeys.syncLogs(id),
+    queryFn: () => getDataSourceSyncLogs(id),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Pause or resume a data source's scheduled syncs
+ */
+export function useToggleDataSource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      toggleMemberImportDataSource(id, isActive),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: dataSourceKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Delete a data source and its sync history
+ */
+export function useDeleteDataSource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteMemberImportDataSource(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: dataSourceKeys.all });
+    },
+  });
+}
+
+/**
+ * Run a Google Sheets source's import now
+ */
+export function useSyncDataSource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (dataSource: MemberImportDataSource) => syncMemberImportDataSource(dataSource),
+    onSettled: (_result, _error, dataSource) => {
+      queryClient.invalidateQueries({ queryKey: dataSourceKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: dataSourceKeys.syncLogs(dataSource.id) });
+      queryClient.invalidateQueries({ queryKey: importKeys.all });
+    },
+  });
+}
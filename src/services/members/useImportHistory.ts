@@ -0,0 +1,54 @@
+/**
+ * Import History React Query Hooks
+ * Hooks for past import runs, their changes and rollback
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { importKeys, memberKeys, dataSourceKeys } from '@/lib/queryKeys';
+import {
+  getImportRuns,
+  getImportChanges,
+  rollbackImport,
+} from './memberImportHistoryService';
+import type { ImportRunFilters } from './memberImportHistoryService';
+
+// =============================================================================
+// Import History Hooks
+// =============================================================================
+
+/**
+ * Fetch import runs, newest first
+ */
+export function useImportRuns(filters: Omit<ImportRunFilters, 'limit'> = {}) {
+  return useQuery({
+    queryKey: importKeys.list(filters),
+    queryFn: () => getImportRuns(filters),
+  });
+}
+
+/**
+ * Fetch the members an import created or updated
+ */
+export function useImportChanges(importId: string | null) {
+  return useQuery({
+    queryKey: importKeys.changes(importId ?? ''),
+    queryFn: () => getImportChanges(importId!),
+    enabled: !!importId,
+  });
+}
+
+/**
+ * Roll back an import
+ */
+export function useRollbackImport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (importId: string) => rollbackImport(importId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: importKeys.all });
+      queryClient.invalidateQueries({ queryKey: memberKeys.all });
+      queryClient.invalidateQueries({ queryKey: dataSourceKeys.all });
+    },
+  });
+}
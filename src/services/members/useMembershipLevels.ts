@@ -0,0 +1,67 @@
+/**
+ * Membership Level React Query Hooks
+ * Hooks for fetching and mutating a site's membership levels
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { membershipLevelKeys } from '@/lib/queryKeys';
+import { siteService } from './siteService';
+import type { CreateMembershipLevelInput, UpdateMembershipLevelInput } from '@/types/member';
+
+// =============================================================================
+// Membership Level Hooks
+// =============================================================================
+
+/**
+ * Fetch a site's membership levels (including inactive levels)
+ */
+export function useMembershipLevels(siteId: string) {
+  return useQuery({
+    queryKey: membershipLevelKeys.list(siteId),
+    queryFn: () => siteService.getMembershipLevels(siteId),
+    enabled: !!siteId,
+  });
+}
+
+/**
+ * Create a membership level
+ */
+export function useCreateMembershipLevel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateMembershipLevelInput) => siteService.createMembershipLevel(input),
+    onSuccess: (level) => {
+      queryClient.invalidateQueries({ queryKey: membershipLevelKeys.list(level.siteId) });
+    },
+  });
+}
+
+/**
+ * Update a membership level
+ */
+export function useUpdateMembershipLevel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateMembershipLevelInput }) =>
+      siteService.updateMembershipLevel(id, input),
+    onSuccess: (level) => {
+      queryClient.invalidateQueries({ queryKey: membershipLevelKeys.list(level.siteId) });
+    },
+  });
+}
+
+/**
+ * Deactivate a membership level
+ */
+export function useDeleteMembershipLevel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => siteService.deleteMembershipLevel(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membershipLevelKeys.lists() });
+    },
+  });
+}
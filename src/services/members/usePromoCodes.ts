@@ -0,0 +1,127 @@
+/**
+ * Promo Code React Query Hooks
+ * Hooks for fetching and mutating promo codes and redemption reports
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { campaignKeys, memberKeys, promoCodeKeys } from '@/lib/queryKeys';
+import { promoCodeService } from './promoCodeService';
+import type {
+  CreatePromoCodeInput,
+  UpdatePromoCodeInput,
+  GeneratePromoCodesInput,
+  RedeemPromoCodeInput,
+} from '@/types/member';
+
+// =============================================================================
+// Promo Code Hooks
+// =============================================================================
+
+/**
+ * Fetch promo codes
+ */
+export function usePromoCodes(filters?: {
+  siteId?: string;
+  campaignId?: string;
+  includeInactive?: boolean;
+}) {
+  return useQuery({
+    queryKey: promoCodeKeys.list(filters),
+    queryFn: () => promoCodeService.getPromoCodes(filters),
+  });
+}
+
+/**
+ * Fetch a single promo code
+ */
+export function usePromoCode(id: string) {
+  return useQuery({
+    queryKey: promoCodeKeys.detail(id),
+    queryFn: () => promoCodeService.getPromoCodeById(id),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Fetch the redemption report (uses, acquisitions, revenue per code)
+ */
+export function usePromoCodeReport(siteId?: string) {
+  return useQuery({
+    queryKey: promoCodeKeys.report(siteId),
+    queryFn: () => promoCodeService.getPromoCodeReport(siteId),
+  });
+}
+
+/**
+ * Fetch the members and transactions that used a code
+ */
+export function usePromoCodeRedemptions(code: string) {
+  return useQuery({
+    queryKey: promoCodeKeys.redemptions(code),
+    queryFn: () => promoCodeService.getPromoCodeRedemptions(code),
+    enabled: !!code,
+  });
+}
+
+/**
+ * Create a promo code
+ */
+export function useCreatePromoCode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreatePromoCodeInput) => promoCodeService.createPromoCode(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: promoCodeKeys.all });
+    },
+  });
+}
+
+/**
+ * Update a promo code (including deactivating it)
+ */
+export function useUpdatePromoCode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdatePromoCodeInput }) =>
+      promoCodeService.updatePromoCode(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: promoCodeKeys.all });
+    },
+  });
+}
+
+/**
+ * Generate single-use promo codes in bulk
+ */
+export function useGeneratePromoCodes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: GeneratePromoCodesInput) => promoCodeService.generatePromoCodes(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: promoCodeKeys.all });
+    },
+  });
+}
+
+/**
+ * Redeem a promo code for a member
+ */
+export function useRedeemPromoCode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: RedeemPromoCodeInput) => promoCodeService.redeemPromoCode(input),
+    onSuccess: (result, input) => {
+      if (!result.isValid) return;
+      queryClient.invalidateQueries({ queryKey: promoCodeKeys.all });
+      queryClient.invalidateQueries({ queryKey: memberKeys.detail(input.memberId) });
+      queryClient.invalidateQueries({ queryKey: memberKeys.transactions(input.memberId) });
+      if (result.campaignId) {
+        queryClient.invalidateQueries({ queryKey: campaignKeys.acquisition(result.campaignId) });
+      }
+    },
+  });
+}
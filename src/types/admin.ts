@@ -35,6 +35,8 @@ export interface Profile {
   id: string;
   email: string;
   role: UserRole;
+  /** The organization whose data the user works on; the role applies within it */
+  organizationId: string | null;
   displayName: string | null;
   avatarUrl: string | null;
   phone: string | null;
@@ -74,10 +76,59 @@ export interface ProfileSearchParams {
   offset?: number;
 }
 
+// =============================================================================
+// Organization Types
+// =============================================================================
+
+/** Owns sites, members, campaigns and the rest of a team's data */
+export interface Organization {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// =============================================================================
+// Site Grant Types
+// =============================================================================
+
+/** Role a grant gives on a site and the sites below it */
+export type SiteGrantRole = Exclude<UserRole, 'admin'>;
+
+/** Limits a user to part of the sites hierarchy; users without grants can access every site */
+export interface SiteGrant {
+  id: string;
+  userId: string;
+  siteId: string;
+  role: SiteGrantRole;
+  createdAt: string;
+}
+
+export interface SiteGrantInput {
+  siteId: string;
+  role: SiteGrantRole;
+}
+
+/** The current user's role, and per site the role their grants give there */
+export interface SiteAccess {
+  role: UserRole;
+  /** null when the user has no grants (every site, at their role) */
+  siteRoles: Record<string, SiteGrantRole> | null;
+}
+
+export const SITE_GRANT_ROLE_LABELS: Record<SiteGrantRole, string> = {
+  user: 'Manage',
+  viewer: 'View only',
+};
+
 // =============================================================================
 // App Settings Types
 // =============================================================================
 
+/**
+ * The Twilio auth token and SendGrid API key are stored in Vault and only
+ * read by the Edge Functions; here they are MASKED_SECRET when set.
+ */
 export interface AppSettings {
   id: string;
   // Twilio Settings
@@ -92,6 +143,9 @@ export interface AppSettings {
   companyName: string;
   companyAddress: string | null;
   timezone: string;
+  // SMS Quiet Hours (HH:MM:SS, recipient local time; equal values disable)
+  quietHoursStart: string;
+  quietHoursEnd: string;
   // Rate Limits
   monthlySmsLimit: number;
   monthlyEmailLimit: number;
@@ -116,6 +170,9 @@ export interface UpdateAppSettingsInput {
   companyName?: string;
   companyAddress?: string | null;
   timezone?: string;
+  // SMS Quiet Hours
+  quietHoursStart?: string;
+  quietHoursEnd?: string;
   // Rate Limits
   monthlySmsLimit?: number;
   monthlyEmailLimit?: number;
@@ -125,6 +182,9 @@ export interface UpdateAppSettingsInput {
 }
 
 // Settings sections for UI organization
+/** Shown in place of a secret that is set */
+export const MASKED_SECRET = '••••••••';
+
 export type SettingsSection = 'general' | 'twilio' | 'sendgrid' | 'limits' | 'retention';
 
 export interface SettingsSectionConfig {
@@ -138,7 +198,7 @@ export const SETTINGS_SECTIONS: SettingsSectionConfig[] = [
   {
     id: 'general',
     label: 'General',
-    description: 'Company information and timezone settings',
+    description: 'Company information, timezone and SMS quiet hours',
   },
   {
     id: 'twilio',
@@ -162,6 +222,62 @@ export const SETTINGS_SECTIONS: SettingsSectionConfig[] = [
   },
 ];
 
+// =============================================================================
+// Messaging Usage Types
+// =============================================================================
+
+// Shared with send-sms / send-email, which enforce the monthly limits
+export type { MessagingChannel, MessagingUsage } from '@/utils/messagingUsage';
+
+// =============================================================================
+// Provider Check Types
+// =============================================================================
+
+export type MessagingProvider = 'twilio' | 'sendgrid';
+
+/** Result of the verify-provider Edge Function */
+export interface ProviderCheckResult {
+  success: boolean;
+  message: string;
+  /** The provider's own error, e.g. "Twilio error 20003: Authenticate" */
+  error?: { code: string; message: string };
+}
+
+// =============================================================================
+// Data Retention Types
+// =============================================================================
+
+export type RetentionReportStatus = 'running' | 'completed' | 'failed';
+
+/** One run of the run-retention Edge Function */
+export interface RetentionReport {
+  id: string;
+  startedAt: string;
+  completedAt: string | null;
+  status: RetentionReportStatus;
+  triggerType: 'scheduled' | 'manual';
+  dataRetentionDays: number | null;
+  auditRetentionDays: number | null;
+  /** Rows removed per kind, e.g. { campaign_messages_anonymized: 1200 } */
+  removed: Record<string, number>;
+  /** Rows past retention kept for a legal hold, e.g. { campaign_messages: 12 } */
+  held: Record<string, number>;
+  errorMessage: string | null;
+}
+
+export const RETENTION_REPORT_LABELS: Record<string, string> = {
+  campaign_messages_anonymized: 'Campaign messages anonymized',
+  conversation_messages_deleted: 'Conversation messages deleted',
+  sync_logs_deleted: 'Sync logs deleted',
+  import_changes_deleted: 'Import rollback snapshots deleted',
+  import_tables_cleared: 'Import tables cleared',
+  import_rows_deleted: 'Import rows deleted',
+  audit_logs_deleted: 'Audit logs deleted',
+  campaign_messages: 'Campaign messages',
+  conversation_messages: 'Conversation messages',
+  import_changes: 'Import rollback snapshots',
+};
+
 // =============================================================================
 // Audit Log Types
 // =============================================================================
@@ -200,6 +316,8 @@ export const AUDIT_EVENT_CATEGORIES: Record<string, string[]> = {
     'ROLE_CHANGED',
     'USER_ACTIVATED',
     'USER_DEACTIVATED',
+    'ORGANIZATION_CHANGED',
+    'SITE_GRANTS_CHANGED',
   ],
   Campaigns: [
     'CAMPAIGN_CREATED',
@@ -207,7 +325,14 @@ export const AUDIT_EVENT_CATEGORIES: Record<string, string[]> = {
     'CAMPAIGN_SCHEDULED',
     'CAMPAIGN_SENT',
     'CAMPAIGN_CANCELLED',
+    'CAMPAIGN_PROCESSED',
+    'CAMPAIGN_FINALIZED',
+    'CAMPAIGN_AB_WINNER_SELECTED',
   ],
+  Automations: ['AUTOMATION_RUN'],
+  'Promo Codes': ['PROMO_CODE_REDEEMED', 'PROMO_CODES_GENERATED'],
+  Imports: ['MEMBER_IMPORT_ROLLED_BACK', 'SYNC_RUN'],
+  'Data Retention': ['DATA_RETENTION_RUN', 'LEGAL_HOLD_PLACED', 'LEGAL_HOLD_RELEASED'],
   Messaging: [
     'SMS_SENT',
     'SMS_DELIVERED',
@@ -216,8 +341,21 @@ export const AUDIT_EVENT_CATEGORIES: Record<string, string[]> = {
     'EMAIL_DELIVERED',
     'EMAIL_FAILED',
   ],
+  Consent: [
+    'SMS_OPT_OUT',
+    'SMS_OPT_IN',
+    'SMS_HELP_REQUESTED',
+    'SMS_CONSENT_GRANTED',
+    'SMS_CONSENT_REVOKED',
+    'EMAIL_UNSUBSCRIBE',
+    'EMAIL_CONSENT_GRANTED',
+    'EMAIL_CONSENT_REVOKED',
+    'PREFERRED_CHANNEL_CHANGED',
+  ],
   Settings: [
     'SETTINGS_UPDATED',
+    'PROVIDER_VERIFIED',
+    'PROVIDER_TEST_SENT',
   ],
 };
 
@@ -234,19 +372,25 @@ export function hasMinimumRole(userRole: UserRole, requiredRole: UserRole): bool
 
 /**
  * Check if user can perform an action based on role
+ * Pass siteRole (from getSiteRole) for an action on one site; the user then
+ * acts with the lower of the two roles, and null means no access.
  */
 export function canPerformAction(
   userRole: UserRole,
-  action: 'manage_users' | 'manage_settings' | 'create_campaigns' | 'view_analytics'
+  action: 'manage_users' | 'manage_settings' | 'create_campaigns' | 'view_analytics',
+  siteRole?: UserRole | null
 ): boolean {
+  if (siteRole === null) return false;
+  const role = siteRole && !hasMinimumRole(siteRole, userRole) ? siteRole : userRole;
+
   switch (action) {
     case 'manage_users':
     case 'manage_settings':
-      return userRole === 'admin';
+      return role === 'admin';
     case 'create_campaigns':
-      return hasMinimumRole(userRole, 'user');
+      return hasMinimumRole(role, 'user');
     case 'view_analytics':
-      return hasMinimumRole(userRole, 'viewer');
+      return hasMinimumRole(role, 'viewer');
     default:
       return false;
   }
@@ -260,6 +404,7 @@ export interface ProfileRow {
   id: string;
   email: string;
   role: string;
+  organization_id: string | null;
   display_name: string | null;
   avatar_url: string | null;
   phone: string | null;
@@ -269,17 +414,34 @@ export interface ProfileRow {
   updated_at: string;
 }
 
+export interface OrganizationRow {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SiteGrantRow {
+  id: string;
+  user_id: string;
+  site_id: string;
+  role: SiteGrantRole;
+  created_at: string;
+}
+
 export interface AppSettingsRow {
   id: string;
   twilio_account_sid: string | null;
-  twilio_auth_token: string | null;
+  twilio_auth_token_id: string | null; // Vault secret
   twilio_phone_number: string | null;
-  sendgrid_api_key: string | null;
+  sendgrid_api_key_id: string | null; // Vault secret
   sendgrid_from_email: string | null;
   sendgrid_from_name: string | null;
   company_name: string;
   company_address: string | null;
   timezone: string;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
   monthly_sms_limit: number;
   monthly_email_limit: number;
   data_retention_days: number;
@@ -288,6 +450,28 @@ export interface AppSettingsRow {
   updated_at: string;
 }
 
+export interface MessagingUsageRow {
+  channel: 'sms' | 'email';
+  period_start: string;
+  messages_sent: number;
+  units_used: number;
+  monthly_limit: number | null;
+  remaining: number | null;
+}
+
+export interface RetentionReportRow {
+  id: string;
+  started_at: string;
+  completed_at: string | null;
+  status: RetentionReportStatus;
+  trigger_type: 'scheduled' | 'manual';
+  data_retention_days: number | null;
+  audit_retention_days: number | null;
+  removed: Record<string, number> | null;
+  held: Record<string, number> | null;
+  error_message: string | null;
+}
+
 export interface AuditLogRow {
   id: string;
   event_type: string;
@@ -307,6 +491,7 @@ export function mapProfileRow(row: ProfileRow): Profile {
     id: row.id,
     email: row.email,
     role: row.role as UserRole,
+    organizationId: row.organization_id,
     displayName: row.display_name,
     avatarUrl: row.avatar_url,
     phone: row.phone,
@@ -321,14 +506,16 @@ export function mapAppSettingsRow(row: AppSettingsRow): AppSettings {
   return {
     id: row.id,
     twilioAccountSid: row.twilio_account_sid,
-    twilioAuthToken: row.twilio_auth_token,
+    twilioAuthToken: row.twilio_auth_token_id ? MASKED_SECRET : null,
     twilioPhoneNumber: row.twilio_phone_number,
-    sendgridApiKey: row.sendgrid_api_key,
+    sendgridApiKey: row.sendgrid_api_key_id ? MASKED_SECRET : null,
     sendgridFromEmail: row.sendgrid_from_email,
     sendgridFromName: row.sendgrid_from_name,
     companyName: row.company_name,
     companyAddress: row.company_address,
     timezone: row.timezone,
+    quietHoursStart: row.quiet_hours_start,
+    quietHoursEnd: row.quiet_hours_end,
     monthlySmsLimit: row.monthly_sms_limit,
     monthlyEmailLimit: row.monthly_email_limit,
     dataRetentionDays: row.data_retention_days,
@@ -3,6 +3,8 @@
  * Types for campaigns, templates, and messages
  */
 
+import type { TemplateVariableName } from '@/utils/templateEngine';
+
 // =============================================================================
 // Enums / Status Types
 // =============================================================================
@@ -13,13 +15,17 @@ export type CampaignStatus = 'draft' | 'scheduled' | 'sending' | 'sent' | 'faile
 
 export type MessageStatus = 'queued' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'failed';
 
+/** Metric used to pick the A/B test winner */
+export type AbWinnerMetric = 'open_rate' | 'click_rate';
+
 // =============================================================================
 // Campaign Types
 // =============================================================================
 
 export interface Campaign {
   id: string;
-  userId: string;
+  organizationId: string;
+  userId: string | null;
   siteId: string | null;
   name: string;
   description: string | null;
@@ -29,6 +35,13 @@ export interface Campaign {
   subject: string | null;
   content: string;
   scheduledAt: string | null;
+  localSendTime: string | null;
+  /** Share of recipients in the A/B test group (null = plain variant split) */
+  abTestPercent: number | null;
+  abWinnerMetric: AbWinnerMetric;
+  abWinnerDelayHours: number;
+  abWinnerVariantId: string | null;
+  abWinnerSelectedAt: string | null;
   startedAt: string | null;
   completedAt: string | null;
   targetAllMembers: boolean;
@@ -44,6 +57,10 @@ export interface Campaign {
   totalClicked: number;
   totalBounced: number;
   totalUnsubscribed: number;
+  /** Set by an admin to send past the monthly SMS / email limit */
+  allowOverLimit: boolean;
+  /** Exempt from data retention while set (admins only) */
+  legalHold: boolean;
   metadata: Record<string, unknown>;
   createdAt: string;
   updatedAt: string;
@@ -67,11 +84,19 @@ export interface CreateCampaignInput {
   subject?: string | null;
   content: string;
   scheduledAt?: string | null;
+  localSendTime?: string | null;
+  /** Replaces the campaign's variants (empty = no variants) */
+  variants?: CampaignVariantInput[];
+  abTestPercent?: number | null;
+  abWinnerMetric?: AbWinnerMetric;
+  abWinnerDelayHours?: number;
   targetAllMembers?: boolean;
   membershipLevelIds?: string[] | null;
   membershipStatuses?: string[];
   requiredTags?: string[] | null;
   excludedTags?: string[] | null;
+  /** Admins only */
+  allowOverLimit?: boolean;
   metadata?: Record<string, unknown>;
 }
 
@@ -104,6 +129,75 @@ export interface CampaignMetrics {
   openRate: number;
   clickRate: number;
   bounceRate: number;
+  /** Per-variant breakdown (empty when the campaign has no variants) */
+  variants: VariantMetrics[];
+}
+
+/**
+ * Metrics for one variant. Open and click rates are per delivered message
+ * so variants can be compared directly.
+ */
+export interface VariantMetrics {
+  variantId: string;
+  label: string;
+  subject: string | null;
+  splitPercent: number;
+  isWinner: boolean;
+  totalRecipients: number;
+  totalSent: number;
+  totalDelivered: number;
+  totalFailed: number;
+  totalOpened: number;
+  totalClicked: number;
+  totalBounced: number;
+  deliveryRate: number;
+  openRate: number;
+  clickRate: number;
+}
+
+/** Why a queued message is being held back */
+export type DeferredReason = 'local_time' | 'quiet_hours' | 'ab_holdout';
+
+export interface CampaignDeferredStats {
+  reason: DeferredReason;
+  messageCount: number;
+  nextSendAt: string;
+  lastSendAt: string;
+}
+
+/**
+ * Members acquired through a campaign, directly (acquisitionCampaignId) or
+ * through one of its promo codes, and their acquisition cost
+ */
+export interface CampaignAcquisition {
+  membersAcquired: number;
+  totalAcquisitionCost: number;
+  /** Average customer acquisition cost per member acquired */
+  avgCac: number;
+  promoCodeCount: number;
+  promoCodeUses: number;
+}
+
+// =============================================================================
+// Variant Types (A/B testing)
+// =============================================================================
+
+export interface CampaignVariant {
+  id: string;
+  campaignId: string;
+  label: string;
+  subject: string | null;
+  content: string;
+  splitPercent: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CampaignVariantInput {
+  label: string;
+  subject?: string | null;
+  content: string;
+  splitPercent: number;
 }
 
 // =============================================================================
@@ -112,7 +206,8 @@ export interface CampaignMetrics {
 
 export interface CampaignTemplate {
   id: string;
-  userId: string;
+  organizationId: string;
+  userId: string | null;
   name: string;
   description: string | null;
   templateType: CampaignType;
@@ -145,6 +240,7 @@ export interface CampaignMessage {
   id: string;
   campaignId: string;
   memberId: string;
+  variantId: string | null;
   channel: CampaignType;
   recipientAddress: string;
   status: MessageStatus;
@@ -157,6 +253,8 @@ export interface CampaignMessage {
   externalId: string | null;
   providerStatus: string | null;
   errorMessage: string | null;
+  attemptCount: number;
+  nextAttemptAt: string | null;
   metadata: Record<string, unknown>;
 }
 
@@ -170,10 +268,50 @@ export interface CampaignMessageWithMember extends CampaignMessage {
   };
 }
 
+// =============================================================================
+// Conversation Types (Two-way SMS)
+// =============================================================================
+
+export type ConversationDirection = 'inbound' | 'outbound';
+
+export type ConversationMessageStatus = 'received' | 'queued' | 'sent' | 'delivered' | 'failed';
+
+export interface ConversationMessage {
+  id: string;
+  memberId: string | null;
+  direction: ConversationDirection;
+  phone: string;
+  body: string;
+  status: ConversationMessageStatus;
+  externalId: string | null;
+  errorMessage: string | null;
+  isRead: boolean;
+  readAt: string | null;
+  sentBy: string | null;
+  createdAt: string;
+}
+
+export interface SendConversationReplyInput {
+  memberId: string;
+  phone: string;
+  body: string;
+}
+
 // =============================================================================
 // Recipient Types
 // =============================================================================
 
+/** Targeting of a campaign that may not be saved yet, for audience counts */
+export interface CampaignAudienceCriteria {
+  campaignType: CampaignType;
+  siteId?: string | null;
+  targetAllMembers?: boolean;
+  membershipStatuses?: string[];
+  membershipLevelIds?: string[] | null;
+  requiredTags?: string[] | null;
+  excludedTags?: string[] | null;
+}
+
 export interface CampaignRecipient {
   memberId: string;
   firstName: string | null;
@@ -202,14 +340,9 @@ export const SMS_UNICODE_SEGMENT_SIZE = 70;
 // Template Variables
 // =============================================================================
 
-export type TemplateVariable =
-  | 'firstName'
-  | 'lastName'
-  | 'email'
-  | 'phone'
-  | 'siteName'
-  | 'membershipLevel'
-  | 'unsubscribeUrl';
+// Built-in variables come from the shared template engine so the editor,
+// previews and process-campaign always agree
+export type TemplateVariable = TemplateVariableName;
 
 export const TEMPLATE_VARIABLES: Record<TemplateVariable, { placeholder: string; label: string }> = {
   firstName: { placeholder: '{{firstName}}', label: 'First Name' },
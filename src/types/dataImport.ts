@@ -8,6 +8,10 @@
  * - Preview and sync responses
  */
 
+import type { ColumnConfig, ColumnConfiguration, ColumnPreview } from '@/utils/dataCleaning';
+import type { RestAuthConfig, RestPaginationConfig } from '@/utils/restApi';
+import type { ScheduleConfiguration, SyncScheduleFrequency } from '@/utils/syncSchedule';
+
 // =============================================================================
 // Data Source Types
 // =============================================================================
@@ -34,14 +38,15 @@ export type DataSourceType =
 
 export type SyncStatus = 'idle' | 'syncing' | 'success' | 'failed';
 
-export type SyncScheduleFrequency = 'manual' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'cron';
+export type { ScheduleConfiguration, SyncScheduleFrequency } from '@/utils/syncSchedule';
 
 export interface DataSource {
   id: string;
-  user_id: string;
+  organization_id: string;
+  user_id: string | null;
   name: string;
   type: DataSourceType;
-  credentials: DataSourceCredentials;
+  credentials: DataSourceCredentials; // Always empty when read: kept in Vault
   config: DataSourceConfig;
   column_config: ColumnConfiguration;
   schedule_config: ScheduleConfiguration;
@@ -95,7 +100,6 @@ export interface ApiKeyCredentials {
 export interface FileCredentials {
   url?: string;
   auth_header?: string;
-  sheet_id?: string; // For Google Sheets
 }
 
 // =============================================================================
@@ -121,7 +125,8 @@ export interface DataSourceConfig {
   metrics?: string[];
   dimensions?: string[];
 
-  // For CSV/Excel
+  // For CSV/Excel (and Google Sheets, by sheet_id)
+  sheet_id?: string;
   sheet_name?: string;
   header_row?: number;
   skip_rows?: number;
@@ -132,113 +137,27 @@ export interface DataSourceConfig {
   headers?: Record<string, string>;
   body?: Record<string, unknown>;
   response_path?: string; // JSONPath to data array
+  auth?: RestAuthConfig; // How ApiKeyCredentials.api_key is sent
+  pagination?: RestPaginationConfig;
 }
 
 // =============================================================================
-// Column Configuration
-// =============================================================================
-
-export interface ColumnConfiguration {
-  columns: ColumnConfig[];
-  row_filters: RowFilter[];
-  duplicate_handling: DuplicateStrategy;
-  duplicate_key_columns?: string[];
-}
-
-export interface ColumnConfig {
-  source_name: string;
-  target_name: string;
-  type: ColumnType;
-  included: boolean;
-  cleaning_rules: CleaningRule[];
-}
-
-export type ColumnType = 'text' | 'number' | 'integer' | 'boolean' | 'date' | 'timestamp';
-
-export type DetectedType = ColumnType | 'email' | 'phone' | 'url';
-
-// =============================================================================
-// Cleaning Rules
-// =============================================================================
-
-export type CleaningRule =
-  // Whitespace
-  | { type: 'trim' }
-  | { type: 'collapse_whitespace' }
-
-  // Case
-  | { type: 'lowercase' }
-  | { type: 'uppercase' }
-  | { type: 'title_case' }
-
-  // Null handling
-  | { type: 'null_to_default'; default_value: string }
-  | { type: 'empty_to_null' }
-  | { type: 'skip_if_empty' }
-
-  // Type coercion
-  | { type: 'parse_number'; remove_chars?: string }
-  | { type: 'parse_boolean'; true_values: string[]; false_values: string[] }
-  | { type: 'parse_date'; format: string }
-  | { type: 'parse_percentage'; as_decimal: boolean }
-
-  // Validation
-  | { type: 'validate_email'; on_invalid: ValidationAction }
-  | { type: 'validate_phone'; format: 'e164' | 'national'; on_invalid: ValidationAction }
-  | { type: 'validate_url'; on_invalid: ValidationAction }
-
-  // Transformations
-  | { type: 'find_replace'; find: string; replace: string; regex?: boolean }
-  | { type: 'split'; delimiter: string; take_index: number }
-  | { type: 'prefix'; value: string }
-  | { type: 'suffix'; value: string };
-
-export type ValidationAction = 'skip' | 'null' | 'keep';
-
-// =============================================================================
-// Row Filtering
-// =============================================================================
-
-export interface RowFilter {
-  column: string;
-  operator: FilterOperator;
-  value?: string | number;
-  action: 'include' | 'exclude';
-}
-
-export type FilterOperator =
-  | 'equals'
-  | 'not_equals'
-  | 'contains'
-  | 'not_contains'
-  | 'is_empty'
-  | 'is_not_empty'
-  | 'greater_than'
-  | 'less_than';
-
-// =============================================================================
-// Duplicate Handling
-// =============================================================================
-
-export type DuplicateStrategy = 'keep_all' | 'keep_first' | 'keep_last' | 'skip_all';
-
-// =============================================================================
-// Scheduling
+// Column Configuration, Cleaning Rules, Row Filtering & Duplicate Handling
 // =============================================================================
 
-export interface ScheduleConfiguration {
-  frequency: SyncScheduleFrequency;
-  time?: string; // "09:00" for daily/weekly/monthly
-  timezone?: string; // "America/New_York"
-  day_of_week?: number; // 0=Sunday, 1=Monday, etc.
-  day_of_month?: number; // 1-28 (or 'last')
-  cron_expression?: string; // For custom cron
-
-  // Retry behavior
-  retry_on_failure: boolean;
-  max_retries: number;
-  retry_delay_minutes: number;
-}
+export type {
+  CleaningResult,
+  CleaningRule,
+  ColumnConfig,
+  ColumnConfiguration,
+  ColumnPreview,
+  ColumnType,
+  DetectedType,
+  DuplicateStrategy,
+  FilterOperator,
+  RowFilter,
+  ValidationAction,
+} from '@/utils/dataCleaning';
 
 // =============================================================================
 // Preview Response
@@ -250,14 +169,6 @@ export interface PreviewResponse {
   total_rows: number;
 }
 
-export interface ColumnPreview {
-  name: string;
-  detected_type: DetectedType;
-  sample_values: string[];
-  null_count: number;
-  unique_count: number;
-}
-
 // =============================================================================
 // Sync Logs
 // =============================================================================
@@ -291,15 +202,6 @@ export interface ImportTable {
   last_updated_at: string;
 }
 
-// =============================================================================
-// Cleaning Result
-// =============================================================================
-
-export interface CleaningResult {
-  value: unknown;
-  skip: boolean;
-}
-
 // =============================================================================
 // Error Types
 // =============================================================================
@@ -3,6 +3,13 @@
  * Types for sites, members, transactions, visits, consent, and automation
  */
 
+import type {
+  AcquisitionSource,
+  CreateMemberInput,
+  MemberImportResult,
+  MembershipStatus,
+} from '@/utils/memberImport';
+
 // =============================================================================
 // Site Types
 // =============================================================================
@@ -11,7 +18,8 @@ export type SiteLevel = 'company' | 'region' | 'site';
 
 export interface Site {
   id: string;
-  userId: string;
+  organizationId: string;
+  userId: string | null;
   name: string;
   code: string;
   parentSiteId: string | null;
@@ -23,6 +31,9 @@ export interface Site {
   postalCode: string | null;
   country: string;
   timezone: string;
+  /** SMS quiet hours override (HH:MM:SS); null uses the global setting */
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
   phone: string | null;
   email: string | null;
   defaultAcquisitionCost: number;
@@ -43,6 +54,8 @@ export interface CreateSiteInput {
   postalCode?: string | null;
   country?: string;
   timezone?: string;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
   phone?: string | null;
   email?: string | null;
   defaultAcquisitionCost?: number;
@@ -107,13 +120,16 @@ export interface UpdateMembershipLevelInput extends Partial<Omit<CreateMembershi
 // Member Types
 // =============================================================================
 
-export type MembershipStatus = 'active' | 'expired' | 'cancelled' | 'suspended' | 'pending';
-
-export type AcquisitionSource = 'campaign' | 'promo_code' | 'referral' | 'organic' | 'import' | 'api';
+export type {
+  AcquisitionSource,
+  CreateMemberInput,
+  MembershipStatus,
+} from '@/utils/memberImport';
 
 export interface Member {
   id: string;
-  userId: string;
+  organizationId: string;
+  userId: string | null;
   siteId: string;
   membershipLevelId: string | null;
   externalId: string | null;
@@ -146,6 +162,8 @@ export interface Member {
   customFields: Record<string, unknown>;
   sourceImportId: string | null;
   isActive: boolean;
+  /** Exempt from data retention while set (admins only) */
+  legalHold: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -156,35 +174,6 @@ export interface MemberWithDetails extends Member {
   consent?: MemberConsent;
 }
 
-export interface CreateMemberInput {
-  siteId: string;
-  membershipLevelId?: string | null;
-  externalId?: string | null;
-  firstName?: string | null;
-  lastName?: string | null;
-  email?: string | null;
-  phone?: string | null;
-  dateOfBirth?: string | null;
-  gender?: string | null;
-  addressLine1?: string | null;
-  addressLine2?: string | null;
-  city?: string | null;
-  state?: string | null;
-  postalCode?: string | null;
-  country?: string;
-  membershipStartDate?: string | null;
-  membershipExpiryDate?: string | null;
-  membershipStatus?: MembershipStatus;
-  acquisitionSource?: AcquisitionSource | null;
-  acquisitionCampaignId?: string | null;
-  acquisitionPromoCode?: string | null;
-  acquisitionCost?: number | null;
-  acquisitionDate?: string | null;
-  tags?: string[];
-  customFields?: Record<string, unknown>;
-  sourceImportId?: string | null;
-}
-
 export interface UpdateMemberInput extends Partial<Omit<CreateMemberInput, 'siteId'>> {
   isActive?: boolean;
 }
@@ -319,7 +308,7 @@ export interface VisitStats {
 // Consent Types
 // =============================================================================
 
-export type ConsentSource = 'import' | 'web_form' | 'in_person' | 'api';
+export type ConsentSource = 'import' | 'web_form' | 'in_person' | 'api' | 'sms_keyword' | 'preference_center';
 export type PreferredChannel = 'sms' | 'email' | 'both' | 'none';
 
 export interface MemberConsent {
@@ -361,13 +350,32 @@ export interface ConsentCheckResult {
   reason: string;
 }
 
+/** Preferences shown on the public unsubscribe page (contact details masked) */
+export interface MemberPreferences {
+  firstName: string | null;
+  email: string | null;
+  phone: string | null;
+  emailSubscribed: boolean;
+  smsSubscribed: boolean;
+  preferredChannel: PreferredChannel;
+  companyName: string | null;
+}
+
+export interface UpdateMemberPreferencesInput {
+  email?: boolean;
+  /** SMS can only be turned off here; opting in requires texting START */
+  sms?: boolean;
+  preferredChannel?: PreferredChannel;
+}
+
 // =============================================================================
 // Promo Code Types
 // =============================================================================
 
 export interface PromoCode {
   id: string;
-  userId: string;
+  organizationId: string;
+  userId: string | null;
   siteId: string | null;
   code: string;
   description: string | null;
@@ -405,6 +413,62 @@ export interface PromoCodeValidationResult {
   message: string;
 }
 
+export interface RedeemPromoCodeInput {
+  code: string;
+  memberId: string;
+  /** Tag this transaction with the code */
+  transactionId?: string | null;
+  /** Attribute the member's acquisition to the code (default true) */
+  attributeAcquisition?: boolean;
+}
+
+/** Bulk generation of unique single-use codes */
+export interface GeneratePromoCodesInput {
+  count: number;
+  prefix?: string;
+  siteId?: string | null;
+  campaignId?: string | null;
+  description?: string | null;
+  acquisitionCost?: number | null;
+  validFrom?: string | null;
+  validUntil?: string | null;
+}
+
+export interface PromoCodeReportRow {
+  promoCodeId: string;
+  code: string;
+  siteId: string | null;
+  campaignId: string | null;
+  currentUses: number;
+  maxUses: number | null;
+  /** Members whose acquisitionPromoCode is this code */
+  membersAcquired: number;
+  acquisitionCostTotal: number;
+  /** Transactions with this promo_code */
+  transactionCount: number;
+  transactionRevenue: number;
+  lastUsedAt: string | null;
+}
+
+export interface PromoCodeRedemptions {
+  acquiredMembers: Array<{
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+    acquisitionDate: string | null;
+    acquisitionCost: number | null;
+  }>;
+  transactions: Array<{
+    id: string;
+    memberId: string;
+    memberName: string | null;
+    transactionDate: string;
+    amount: number;
+    transactionType: TransactionType;
+  }>;
+}
+
 // =============================================================================
 // Automation Types
 // =============================================================================
@@ -447,6 +511,12 @@ export interface MilestoneTriggerConfig {
 
 export interface NewMemberConfig {
   delayHours: number;
+  /** Also fire for members created by an import (default: false) */
+  includeImported?: boolean;
+}
+
+export interface MemberStatusChangeConfig {
+  toStatus?: MembershipStatus;
 }
 
 export interface ScheduledTriggerConfig {
@@ -464,6 +534,7 @@ export type TriggerConfig =
   | MembershipExpiringConfig
   | MilestoneTriggerConfig
   | NewMemberConfig
+  | MemberStatusChangeConfig
   | ScheduledTriggerConfig
   | TagTriggerConfig
   | Record<string, unknown>;
@@ -506,7 +577,8 @@ export type ActionConfig =
 
 export interface AutomationTrigger {
   id: string;
-  userId: string;
+  organizationId: string;
+  userId: string | null;
   siteId: string | null;
   name: string;
   description: string | null;
@@ -566,36 +638,205 @@ export interface AutomationExecution {
   actionType: ActionType;
 }
 
+export interface AutomationExecutionWithMember extends AutomationExecution {
+  member: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+    phone: string | null;
+  } | null;
+}
+
+/** A member a dry run would target, and what they would receive */
+export interface AutomationDryRunMember {
+  memberId: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  phone: string | null;
+  subject: string | null;
+  body: string | null;
+  description: string;
+}
+
+export interface AutomationDryRunResult {
+  triggerId: string;
+  totalTargeted: number;
+  /** Preview of the first targeted members */
+  members: AutomationDryRunMember[];
+}
+
+// Triggers evaluated on the schedule (run_time / timezone / days_of_week);
+// the rest fire when member data changes
+export const TIME_BASED_TRIGGER_TYPES: TriggerType[] = [
+  'birthday',
+  'membership_anniversary',
+  'days_since_visit',
+  'days_since_transaction',
+  'membership_expiring',
+  'scheduled',
+];
+
+export const TRIGGER_TYPE_LABELS: Record<TriggerType, string> = {
+  birthday: 'Birthday',
+  membership_anniversary: 'Membership Anniversary',
+  days_since_visit: 'Days Since Last Visit',
+  days_since_transaction: 'Days Since Last Transaction',
+  membership_expiring: 'Membership Expiring',
+  scheduled: 'Scheduled Date',
+  new_member: 'New Member',
+  member_status_change: 'Membership Status Change',
+  visit_milestone: 'Visit Milestone',
+  ltv_milestone: 'Lifetime Value Milestone',
+  tag_added: 'Tag Added',
+  tag_removed: 'Tag Removed',
+};
+
+export const ACTION_TYPE_LABELS: Record<ActionType, string> = {
+  send_sms: 'Send SMS',
+  send_email: 'Send Email',
+  add_tag: 'Add Tag',
+  remove_tag: 'Remove Tag',
+  webhook: 'Call Webhook',
+  update_field: 'Update Field',
+};
+
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+/**
+ * One-line description of when a trigger fires, e.g. "3 days before birthday"
+ */
+export function describeTrigger(type: TriggerType, config: TriggerConfig): string {
+  const c = config as Record<string, unknown>;
+  const daysBefore = Number(c.daysBefore ?? 0);
+
+  switch (type) {
+    case 'birthday':
+    case 'membership_anniversary': {
+      const event = type === 'birthday' ? 'birthday' : 'membership anniversary';
+      return daysBefore > 0 ? `${plural(daysBefore, 'day')} before ${event}` : `On ${event}`;
+    }
+    case 'membership_expiring':
+      return `${plural(daysBefore, 'day')} before membership expires`;
+    case 'days_since_visit':
+      return `${plural(Number(c.days ?? 0), 'day')} after last visit`;
+    case 'days_since_transaction':
+      return `${plural(Number(c.days ?? 0), 'day')} after last transaction`;
+    case 'scheduled':
+      return `Once on ${c.date ?? '?'} at ${c.time ?? '?'}`;
+    case 'new_member': {
+      const delayHours = Number(c.delayHours ?? 0);
+      const when = delayHours > 0 ? `${plural(delayHours, 'hour')} after joining` : 'When a member joins';
+      return c.includeImported ? `${when}, including imports` : when;
+    }
+    case 'member_status_change':
+      return c.toStatus ? `When membership becomes ${c.toStatus}` : 'When membership status changes';
+    case 'visit_milestone':
+      return `At ${((c.counts as number[]) || []).join(', ')} visits`;
+    case 'ltv_milestone':
+      return `At $${((c.amounts as number[]) || []).join(', $')} lifetime value`;
+    case 'tag_added':
+      return `When tagged "${c.tag ?? ''}"`;
+    case 'tag_removed':
+      return `When tag "${c.tag ?? ''}" is removed`;
+  }
+}
+
+/**
+ * One-line description of what an action does, e.g. 'Add tag "vip"'
+ */
+export function describeAction(type: ActionType, config: ActionConfig): string {
+  const c = config as Record<string, unknown>;
+
+  switch (type) {
+    case 'send_sms':
+      return 'Send SMS';
+    case 'send_email':
+      return c.subject ? `Send email "${c.subject}"` : 'Send email';
+    case 'add_tag':
+      return `Add tag "${c.tag ?? ''}"`;
+    case 'remove_tag':
+      return `Remove tag "${c.tag ?? ''}"`;
+    case 'webhook':
+      return `${c.method || 'POST'} ${c.url ?? ''}`;
+    case 'update_field':
+      return `Set ${c.field ?? '?'} to ${JSON.stringify(c.value ?? null)}`;
+  }
+}
+
+export const AUTOMATION_EXECUTION_STATUS_LABELS: Record<AutomationExecutionStatus, string> = {
+  pending: 'Pending',
+  sent: 'Completed',
+  delivered: 'Delivered',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
 // =============================================================================
 // Import Types (extends dataImport.ts)
 // =============================================================================
 
-export interface MemberImportMapping {
-  sourceColumn: string;
-  targetField: keyof CreateMemberInput | 'skip';
-  transformRules?: string[];
-}
+export type {
+  MemberImportConfig,
+  MemberImportField,
+  MemberImportMapping,
+  MemberImportResult,
+  MemberMergeRule,
+} from '@/utils/memberImport';
 
-export interface MemberImportConfig {
-  siteId: string;
-  defaultMembershipLevelId?: string;
-  defaultAcquisitionSource?: AcquisitionSource;
-  defaultTags?: string[];
-  duplicateHandling: 'skip' | 'update' | 'create_new';
-  matchFields: ('email' | 'phone' | 'externalId')[];
-}
+export type MemberImportKind = 'members' | 'transactions' | 'visits';
 
-export interface MemberImportResult {
+export type MemberImportStatus = 'running' | 'completed' | 'failed' | 'rolled_back';
+
+/** One import run, keyed by the sourceImportId on the rows it wrote */
+export interface MemberImportRun {
+  id: string;
+  importId: string;
+  siteId: string | null;
+  dataSourceId: string | null;
+  kind: MemberImportKind;
+  filename: string | null;
+  status: MemberImportStatus;
   totalRows: number;
   imported: number;
   updated: number;
   skipped: number;
   failed: number;
-  errors: Array<{
-    row: number;
-    field: string;
-    message: string;
-  }>;
+  errors: MemberImportResult['errors'];
+  rollbackSummary: MemberImportRollbackSummary | null;
+  startedAt: string;
+  completedAt: string | null;
+  rolledBackAt: string | null;
+  /** Still running an hour after it started: stopped mid-import (e.g. the tab was closed) */
+  abandoned: boolean;
+  /** Set once data retention deleted the rollback snapshots */
+  changesPurgedAt: string | null;
+}
+
+export interface MemberImportRollbackSummary {
+  membersDeleted: number;
+  membersRestored: number;
+  transactionsDeleted: number;
+  visitsDeleted: number;
+}
+
+export interface MemberImportFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** A member created or updated by an import run */
+export interface MemberImportChange {
+  memberId: string;
+  action: 'created' | 'updated';
+  /** Display name from the member's current values (or prior values once deleted) */
+  displayName: string;
+  /** Fields whose current value differs from the value before the import */
+  fields: MemberImportFieldChange[];
+  /** False once the member no longer exists (e.g. after a rollback) */
+  exists: boolean;
 }
 
 // =============================================================================
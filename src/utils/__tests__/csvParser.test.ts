@@ -0,0 +1,162 @@
+/**
+ * CSV Parser Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createCsvParser,
+  parseCsvText,
+  parseCsvBlob,
+  detectDelimiter,
+  detectEncoding,
+} from '../csvParser';
+
+describe('parseCsvText', () => {
+  it('should parse simple rows', () => {
+    expect(parseCsvText('name,email\nAda,ada@example.com\n')).toEqual([
+      ['name', 'email'],
+      ['Ada', 'ada@example.com'],
+    ]);
+  });
+
+  it('should keep line breaks inside quoted fields', () => {
+    const rows = parseCsvText('name,notes\nAda,"first line\nsecond line"\nGrace,none');
+    expect(rows).toEqual([
+      ['name', 'notes'],
+      ['Ada', 'first line\nsecond line'],
+      ['Grace', 'none'],
+    ]);
+  });
+
+  it('should unescape doubled quotes and keep delimiters in quoted fields', () => {
+    expect(parseCsvText('a,b\n"say ""hi""","x, y"')).toEqual([
+      ['a', 'b'],
+      ['say "hi"', 'x, y'],
+    ]);
+  });
+
+  it('should trim unquoted fields only', () => {
+    expect(parseCsvText('a,b\n  1 ," 2 "')).toEqual([
+      ['a', 'b'],
+      ['1', ' 2 '],
+    ]);
+  });
+
+  it('should handle CRLF and CR line endings and skip blank lines', () => {
+    expect(parseCsvText('a,b\r\n1,2\r\n\r\n3,4\r5,6')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+      ['5', '6'],
+    ]);
+  });
+
+  it('should strip a leading BOM', () => {
+    expect(parseCsvText('\uFEFFname,email\nAda,a@b.co')[0]).toEqual(['name', 'email']);
+  });
+
+  it('should keep empty trailing fields', () => {
+    expect(parseCsvText('a,b,c\n1,,')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '', ''],
+    ]);
+  });
+});
+
+describe('createCsvParser', () => {
+  it('should produce the same rows however the text is chunked', () => {
+    const text = 'name,notes\r\nAda,"multi\r\nline ""quoted"""\r\nGrace,plain\r\n';
+    const expected = parseCsvText(text, ',');
+
+    for (let size = 1; size <= 5; size++) {
+      const parser = createCsvParser(',');
+      const rows: string[][] = [];
+      for (let i = 0; i < text.length; i += size) {
+        rows.push(...parser.push(text.slice(i, i + size)));
+      }
+      rows.push(...parser.end());
+      expect(rows).toEqual(expected);
+    }
+  });
+
+  it('should flush the last row on end', () => {
+    const parser = createCsvParser(';');
+    expect(parser.push('a;b\n1;2')).toEqual([['a', 'b']]);
+    expect(parser.end()).toEqual([['1', '2']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('should detect common delimiters', () => {
+    expect(detectDelimiter('a,b,c\n1,2,3')).toBe(',');
+    expect(detectDelimiter('a;b;c\n1;2;3')).toBe(';');
+    expect(detectDelimiter('a\tb\tc\n1\t2\t3')).toBe('\t');
+    expect(detectDelimiter('a|b|c\n1|2|3')).toBe('|');
+  });
+
+  it('should ignore delimiters inside quoted fields', () => {
+    expect(detectDelimiter('name;amount\n"Smith, Ada";"1,50"\n"Hopper, G";"2,00"')).toBe(';');
+  });
+
+  it('should fall back to a comma', () => {
+    expect(detectDelimiter('single column\nvalue')).toBe(',');
+    expect(detectDelimiter('')).toBe(',');
+  });
+});
+
+describe('detectEncoding', () => {
+  it('should detect byte order marks', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be');
+  });
+
+  it('should detect valid UTF-8 without a BOM', () => {
+    expect(detectEncoding(new TextEncoder().encode('café'))).toBe('utf-8');
+  });
+
+  it('should fall back to windows-1252 for invalid UTF-8', () => {
+    expect(detectEncoding(new Uint8Array([0x63, 0x61, 0x66, 0xe9]))).toBe('windows-1252');
+  });
+
+  it('should allow a character cut off at the end of a truncated sample', () => {
+    const bytes = new TextEncoder().encode('café').slice(0, 4);
+    expect(detectEncoding(bytes, true)).toBe('utf-8');
+  });
+});
+
+describe('parseCsvBlob', () => {
+  it('should parse in chunks and report byte progress', async () => {
+    const text = 'name;city\nAda;"London\nUK"\nGrace;Arlington\n';
+    const blob = new Blob([text]);
+    const progress: number[] = [];
+
+    const result = await parseCsvBlob(blob, {
+      chunkSize: 7,
+      onProgress: ({ bytesRead }) => progress.push(bytesRead),
+    });
+
+    expect(result.delimiter).toBe(';');
+    expect(result.encoding).toBe('utf-8');
+    expect(result.headers).toEqual(['name', 'city']);
+    expect(result.rows).toEqual([
+      ['Ada', 'London\nUK'],
+      ['Grace', 'Arlington'],
+    ]);
+    expect(progress[progress.length - 1]).toBe(blob.size);
+  });
+
+  it('should decode windows-1252 files', async () => {
+    const bytes = new Uint8Array([0x6e, 0x61, 0x6d, 0x65, 0x0a, 0x63, 0x61, 0x66, 0xe9]);
+    const result = await parseCsvBlob(new Blob([bytes]));
+
+    expect(result.encoding).toBe('windows-1252');
+    expect(result.rows).toEqual([['café']]);
+  });
+
+  it('should return empty results for an empty file', async () => {
+    const result = await parseCsvBlob(new Blob([]));
+    expect(result.headers).toEqual([]);
+    expect(result.rows).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Data Cleaning Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyColumnRules, processRows } from '../dataCleaning';
+import type { ColumnConfiguration } from '../dataCleaning';
+
+describe('applyColumnRules', () => {
+  it('should apply rules in order', () => {
+    expect(
+      applyColumnRules('  ADA@Example.com ', [{ type: 'trim' }, { type: 'lowercase' }])
+    ).toEqual({ value: 'ada@example.com', skip: false });
+  });
+
+  it('should stop at a rule that skips the row', () => {
+    expect(
+      applyColumnRules('', [{ type: 'skip_if_empty' }, { type: 'prefix', value: 'x' }]).skip
+    ).toBe(true);
+  });
+});
+
+describe('processRows', () => {
+  const config: ColumnConfiguration = {
+    columns: [
+      { source_name: 'Email', target_name: 'email', type: 'text', included: true, cleaning_rules: [
+        { type: 'trim' },
+        { type: 'validate_email', on_invalid: 'skip' },
+      ] },
+      { source_name: 'Name', target_name: 'name', type: 'text', included: true, cleaning_rules: [] },
+      { source_name: 'Notes', target_name: 'notes', type: 'text', included: false, cleaning_rules: [] },
+    ],
+    row_filters: [{ column: 'Status', operator: 'equals', value: 'test', action: 'exclude' }],
+    duplicate_handling: 'keep_first',
+    duplicate_key_columns: ['email'],
+  };
+
+  it('should filter, clean and rename rows', () => {
+    const { cleanedRows, skippedCount } = processRows(
+      [
+        { Email: ' ada@example.com ', Name: 'Ada', Notes: 'x', Status: 'active' },
+        { Email: 'qa@example.com', Name: 'QA', Status: 'test' },
+        { Email: 'not an email', Name: 'Bob', Status: 'active' },
+      ],
+      config
+    );
+
+    expect(cleanedRows).toEqual([{ email: 'ada@example.com', name: 'Ada' }]);
+    expect(skippedCount).toBe(2);
+  });
+
+  it('should count dropped duplicates as skipped', () => {
+    const { cleanedRows, skippedCount } = processRows(
+      [
+        { Email: 'ada@example.com', Name: 'Ada' },
+        { Email: 'ada@example.com ', Name: 'Ada L.' },
+      ],
+      config
+    );
+
+    expect(cleanedRows).toEqual([{ email: 'ada@example.com', name: 'Ada' }]);
+    expect(skippedCount).toBe(1);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Member Import Helpers Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatPhone,
+  importMemberRows,
+  parseMembershipStatus,
+  toBulkUpsertArgs,
+  toSheetTable,
+  transformRowToMember,
+} from '../memberImport';
+import type { MemberImportConfig, MemberImportMapping, MemberImportResult } from '../memberImport';
+
+const config: MemberImportConfig = {
+  siteId: 'site-1',
+  duplicateHandling: 'update',
+  matchFields: ['email'],
+};
+
+const mappings: MemberImportMapping[] = [
+  { sourceColumn: 'Email', targetField: 'email' },
+  { sourceColumn: 'Phone', targetField: 'phone' },
+  { sourceColumn: 'Notes', targetField: 'skip' },
+];
+
+function emptyResult(): MemberImportResult & { importId: string } {
+  return { importId: 'import_1', totalRows: 0, imported: 0, updated: 0, skipped: 0, failed: 0, errors: [] };
+}
+
+describe('toSheetTable', () => {
+  it('should read headers from the header row and skip rows below it', () => {
+    const table = toSheetTable(
+      [['Report'], ['Email', null, 'Name'], ['(text)'], ['a@example.com', 1, 'Ann'], [null, '']],
+      'Members',
+      { headerRow: 2, skipRows: 1 }
+    );
+
+    expect(table.headers).toEqual(['Email', 'Column 2', 'Name']);
+    expect(table.rows).toEqual([['a@example.com', 1, 'Ann']]);
+    expect(table.totalRows).toBe(1);
+  });
+
+  it('should reject a header row without headers', () => {
+    expect(() => toSheetTable([[null, '']], 'Members', {})).toThrow('Row 1 of Members has no column headers');
+  });
+});
+
+describe('transformRowToMember', () => {
+  it('should map columns and apply the import defaults', () => {
+    const member = transformRowToMember(
+      [' Ann@Example.com ', '555-123-4567', 'ignored'],
+      ['Email', 'Phone', 'Notes'],
+      mappings,
+      { ...config, defaultTags: ['vip'] }
+    );
+
+    expect(member).toMatchObject({
+      siteId: 'site-1',
+      email: 'ann@example.com',
+      phone: '+15551234567',
+      tags: ['vip'],
+      membershipStatus: 'active',
+    });
+  });
+});
+
+describe('formatPhone', () => {
+  it('should format US numbers as E.164', () => {
+    expect(formatPhone('(555) 123-4567')).toBe('+15551234567');
+    expect(formatPhone('1 555 123 4567')).toBe('+15551234567');
+    expect(formatPhone('12345')).toBeNull();
+  });
+});
+
+describe('parseMembershipStatus', () => {
+  it('should accept both spellings of cancelled', () => {
+    expect(parseMembershipStatus('Canceled')).toBe('cancelled');
+    expect(parseMembershipStatus('unknown')).toBe('active');
+  });
+});
+
+describe('toBulkUpsertArgs', () => {
+  it('should update mapped and defaulted columns with their merge rules', () => {
+    const args = toBulkUpsertArgs(mappings, {
+      ...config,
+      defaultTags: ['vip'],
+      mergeRules: { phone: 'fill_blanks' },
+    });
+
+    expect(args).toEqual({
+      p_site_id: 'site-1',
+      p_match_fields: ['email'],
+      p_duplicate_handling: 'update',
+      p_update_columns: ['email', 'phone', 'tags'],
+      p_merge_rules: { phone: 'fill_blanks' },
+    });
+  });
+});
+
+describe('importMemberRows', () => {
+  const headers = ['Email', 'Phone'];
+
+  it('should count upserted rows and fail rows without an identifier', async () => {
+    const result = emptyResult();
+    const batches: Record<string, unknown>[][] = [];
+
+    await importMemberRows(
+      { headers, rows: [['a@example.com', null], [null, null], ['b@example.com', null]] },
+      mappings,
+      config,
+      result,
+      async (rows) => {
+        batches.push(rows);
+        return {
+          data: rows.map((row, i) => ({ row_index: row.row_index, action: i === 0 ? 'inserted' : 'updated' })),
+          error: null,
+        };
+      }
+    );
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].map((row) => row.source_import_id)).toEqual(['import_1', 'import_1']);
+    expect(result).toMatchObject({ imported: 1, updated: 1, failed: 1 });
+    expect(result.errors).toEqual([
+      expect.objectContaining({ row: 3, field: 'email/phone/externalId' }),
+    ]);
+  });
+
+  it('should split a batch that fails on a bad row down to that row', async () => {
+    const result = emptyResult();
+
+    await importMemberRows(
+      { headers, rows: [['a@example.com', null], ['bad@example.com', null], ['c@example.com', null]] },
+      mappings,
+      config,
+      result,
+      async (rows) =>
+        rows.some((row) => row.email === 'bad@example.com')
+          ? { data: null, error: { code: '23514', message: 'check violation' } }
+          : { data: rows.map((row) => ({ row_index: row.row_index, action: 'inserted' })), error: null }
+    );
+
+    expect(result).toMatchObject({ imported: 2, failed: 1 });
+    expect(result.errors).toEqual([{ row: 3, field: 'database', message: 'check violation' }]);
+  });
+
+  it('should abort on errors that are not caused by a row', async () => {
+    const result = emptyResult();
+
+    await expect(
+      importMemberRows({ headers, rows: [['a@example.com', null]] }, mappings, config, result, async () => ({
+        data: null,
+        error: { code: '42501', message: 'permission denied' },
+      }))
+    ).rejects.toThrow('Failed to import members: permission denied');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Messaging Usage Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateSegmentCount,
+  containsUnicode,
+  countMessageUnits,
+  estimateCampaignUsage,
+} from '../messagingUsage';
+
+describe('calculateSegmentCount', () => {
+  it('should fit 160 GSM characters in one segment', () => {
+    expect(calculateSegmentCount('')).toBe(0);
+    expect(calculateSegmentCount('a'.repeat(160))).toBe(1);
+    expect(calculateSegmentCount('a'.repeat(161))).toBe(2);
+    expect(calculateSegmentCount('a'.repeat(306))).toBe(2);
+    expect(calculateSegmentCount('a'.repeat(307))).toBe(3);
+  });
+
+  it('should use the smaller Unicode segments', () => {
+    expect(containsUnicode('Café à Ñoño')).toBe(false);
+    expect(containsUnicode('See you 🎉')).toBe(true);
+    expect(calculateSegmentCount('é🎉'.padEnd(71, 'a'))).toBe(2);
+    expect(calculateSegmentCount('ü'.padEnd(70, 'a'))).toBe(1);
+    expect(calculateSegmentCount('✓'.padEnd(135, 'a'))).toBe(3);
+  });
+});
+
+describe('countMessageUnits', () => {
+  it('should count SMS by segment and email by message', () => {
+    expect(countMessageUnits('sms', 'a'.repeat(200))).toBe(2);
+    expect(countMessageUnits('email', 'a'.repeat(200))).toBe(1);
+  });
+});
+
+describe('estimateCampaignUsage', () => {
+  it('should count every recipient at the longest variant', () => {
+    expect(
+      estimateCampaignUsage('sms', 1400, ['Hi {{firstName}}', 'a'.repeat(400)], 6000)
+    ).toEqual({
+      channel: 'sms',
+      recipients: 1400,
+      unitsPerMessage: 3,
+      units: 4200,
+      remaining: 6000,
+      exceedsLimit: false,
+    });
+  });
+
+  it('should flag campaigns over the remaining quota', () => {
+    expect(estimateCampaignUsage('email', 501, ['<p>Hi</p>'], 500).exceedsLimit).toBe(true);
+    expect(estimateCampaignUsage('email', 500, ['<p>Hi</p>'], 500).exceedsLimit).toBe(false);
+    expect(estimateCampaignUsage('sms', 10_000, [''], null)).toMatchObject({
+      units: 10_000,
+      exceedsLimit: false,
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * REST API Helpers Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRequestUrl,
+  applyAuth,
+  parseLinkHeader,
+  retryDelayMs,
+  classifyHttpStatus,
+  parseJsonPath,
+  extractJsonPath,
+  extractRecords,
+  flattenRecord,
+} from '../restApi';
+
+describe('buildRequestUrl', () => {
+  it('should resolve endpoints against the base URL', () => {
+    expect(buildRequestUrl('/members', 'https://api.example.com/v2').toString()).toBe(
+      'https://api.example.com/v2/members'
+    );
+    expect(
+      buildRequestUrl('members?active=1', 'https://api.example.com/v2/', { offset: 0, limit: 50 }).toString()
+    ).toBe('https://api.example.com/v2/members?active=1&offset=0&limit=50');
+  });
+
+  it('should use absolute endpoints without a base URL', () => {
+    expect(buildRequestUrl('https://book.example.com/api/members').host).toBe('book.example.com');
+    expect(() => buildRequestUrl('/members')).toThrow('Invalid endpoint URL');
+  });
+});
+
+describe('applyAuth', () => {
+  const url = new URL('https://api.example.com/members');
+
+  it('should send API keys in a header or query parameter', () => {
+    expect(applyAuth(url, {}, { api_key: 'k1' }, { type: 'api_key' }).headers).toEqual({
+      'X-API-Key': 'k1',
+    });
+    expect(
+      applyAuth(url, {}, { api_key: 'k1' }, { type: 'api_key', header_name: 'Api-Token' }).headers
+    ).toEqual({ 'Api-Token': 'k1' });
+
+    const query = applyAuth(url, {}, { api_key: 'k1' }, { type: 'api_key', query_param: 'key' });
+    expect(query.url.searchParams.get('key')).toBe('k1');
+    expect(url.search).toBe('');
+  });
+
+  it('should send bearer tokens and require a key', () => {
+    expect(applyAuth(url, { Accept: 'application/json' }, { api_key: 't' }, { type: 'bearer' }).headers).toEqual({
+      Accept: 'application/json',
+      Authorization: 'Bearer t',
+    });
+    expect(applyAuth(url, {}, {}).headers).toEqual({});
+    expect(() => applyAuth(url, {}, {}, { type: 'bearer' })).toThrow('An API key is required');
+  });
+});
+
+describe('parseLinkHeader', () => {
+  it('should read URLs by relation', () => {
+    expect(
+      parseLinkHeader(
+        '<https://api.example.com/m?page=2>; rel="next", <https://api.example.com/m?page=9>; rel=last'
+      )
+    ).toEqual({
+      next: 'https://api.example.com/m?page=2',
+      last: 'https://api.example.com/m?page=9',
+    });
+  });
+
+  it('should handle commas in URLs, several relations and missing headers', () => {
+    expect(parseLinkHeader('<https://a/x?ids=1,2>; title="x"; rel="next prefetch"')).toEqual({
+      next: 'https://a/x?ids=1,2',
+      prefetch: 'https://a/x?ids=1,2',
+    });
+    expect(parseLinkHeader(null)).toEqual({});
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('should honour Retry-After seconds and dates', () => {
+    expect(retryDelayMs(0, '3')).toBe(3000);
+    const now = Date.UTC(2024, 0, 1, 12, 0, 0);
+    expect(retryDelayMs(0, 'Mon, 01 Jan 2024 12:00:10 GMT', now)).toBe(10_000);
+    expect(retryDelayMs(0, '600')).toBe(60_000);
+  });
+
+  it('should back off exponentially without Retry-After', () => {
+    expect([0, 1, 2].map((attempt) => retryDelayMs(attempt, null))).toEqual([1000, 2000, 4000]);
+    expect(retryDelayMs(10, 'soon')).toBe(60_000);
+  });
+});
+
+describe('classifyHttpStatus', () => {
+  it('should map HTTP statuses to error codes', () => {
+    expect(classifyHttpStatus(401)).toBe('AUTH_EXPIRED');
+    expect(classifyHttpStatus(403)).toBe('PERMISSION_DENIED');
+    expect(classifyHttpStatus(429)).toBe('RATE_LIMITED');
+    expect(classifyHttpStatus(504)).toBe('TIMEOUT');
+    expect(classifyHttpStatus(404)).toBe('VALIDATION_FAILED');
+    expect(classifyHttpStatus(500)).toBe('CONNECTION_FAILED');
+  });
+});
+
+describe('parseJsonPath', () => {
+  it('should parse keys, indexes, quoted keys and wildcards', () => {
+    expect(parseJsonPath('$.data.items')).toEqual(['data', 'items']);
+    expect(parseJsonPath("results[0]['first name'][*]")).toEqual(['results', 0, 'first name', '*']);
+    expect(parseJsonPath('$.pages.*.items[-1]')).toEqual(['pages', '*', 'items', -1]);
+    expect(parseJsonPath('$')).toEqual([]);
+    expect(() => parseJsonPath('$.data[')).toThrow('Invalid JSONPath');
+  });
+});
+
+describe('extractJsonPath', () => {
+  const response = {
+    data: { members: [{ id: 1 }, { id: 2 }] },
+    meta: { next_cursor: 'abc' },
+    pages: [{ items: [1, 2] }, { items: [3] }],
+  };
+
+  it('should read values by path', () => {
+    expect(extractJsonPath(response, '$.data.members')).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(extractJsonPath(response, 'meta.next_cursor')).toBe('abc');
+    expect(extractJsonPath(response, '$.data.members[-1].id')).toBe(2);
+    expect(extractJsonPath(response, '$.missing.path')).toBeUndefined();
+    expect(extractJsonPath(response)).toBe(response);
+  });
+
+  it('should collect wildcard matches', () => {
+    expect(extractJsonPath(response, '$.data.members[*].id')).toEqual([1, 2]);
+    expect(extractJsonPath(response, '$.pages[*].items[*]')).toEqual([1, 2, 3]);
+    expect(extractJsonPath(response, '$.nothing[*]')).toEqual([]);
+  });
+});
+
+describe('extractRecords', () => {
+  it('should return the records at the path', () => {
+    expect(extractRecords({ data: [{ id: 1 }] }, '$.data')).toEqual([{ id: 1 }]);
+    expect(extractRecords([{ id: 1 }, { id: 2 }])).toHaveLength(2);
+    expect(extractRecords({ id: 7 })).toEqual([{ id: 7 }]);
+    expect(extractRecords({ ids: [1, 2] }, 'ids')).toEqual([{ value: 1 }, { value: 2 }]);
+  });
+
+  it('should reject paths that match nothing', () => {
+    expect(() => extractRecords({ data: [] }, '$.results')).toThrow('Nothing found at response path $.results');
+    expect(extractRecords(null)).toEqual([]);
+  });
+});
+
+describe('flattenRecord', () => {
+  it('should flatten nested objects into dotted columns', () => {
+    expect(
+      flattenRecord({
+        id: 1,
+        name: { first: 'Ada', last: 'Lovelace' },
+        address: { geo: { lat: 1.5 } },
+        tags: ['vip', 'yoga'],
+        extra: {},
+        note: undefined,
+      })
+    ).toEqual({
+      id: 1,
+      'name.first': 'Ada',
+      'name.last': 'Lovelace',
+      'address.geo.lat': 1.5,
+      tags: '["vip","yoga"]',
+      extra: null,
+      note: null,
+    });
+  });
+
+  it('should use the given separator', () => {
+    expect(flattenRecord({ a: { b: 1 } }, '_')).toEqual({ a_b: 1 });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Site Access Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveSiteRoles, getSiteRole, hasSiteAccess } from '../siteAccess';
+
+// company > west (region) > [seattle, portland]; company > east (region) > boston
+const SITES = [
+  { id: 'company', parentSiteId: null },
+  { id: 'west', parentSiteId: 'company' },
+  { id: 'seattle', parentSiteId: 'west' },
+  { id: 'portland', parentSiteId: 'west' },
+  { id: 'east', parentSiteId: 'company' },
+  { id: 'boston', parentSiteId: 'east' },
+];
+
+describe('resolveSiteRoles', () => {
+  it('should cover the granted site and every site below it', () => {
+    expect(resolveSiteRoles(SITES, [{ siteId: 'west', role: 'user' }])).toEqual({
+      west: 'user',
+      seattle: 'user',
+      portland: 'user',
+    });
+  });
+
+  it('should use the highest grant covering a site', () => {
+    const roles = resolveSiteRoles(SITES, [
+      { siteId: 'company', role: 'viewer' },
+      { siteId: 'west', role: 'user' },
+    ]);
+
+    expect(roles.company).toBe('viewer');
+    expect(roles.boston).toBe('viewer');
+    expect(roles.west).toBe('user');
+    expect(roles.seattle).toBe('user');
+  });
+
+  it('should not loop on a cycle in parent links', () => {
+    const sites = [
+      { id: 'a', parentSiteId: 'b' },
+      { id: 'b', parentSiteId: 'a' },
+    ];
+    expect(resolveSiteRoles(sites, [{ siteId: 'b', role: 'viewer' }])).toEqual({
+      a: 'viewer',
+      b: 'viewer',
+    });
+  });
+
+  it('should return nothing without grants', () => {
+    expect(resolveSiteRoles(SITES, [])).toEqual({});
+  });
+});
+
+describe('getSiteRole', () => {
+  const regional = {
+    role: 'user' as const,
+    siteRoles: resolveSiteRoles(SITES, [
+      { siteId: 'west', role: 'user' },
+      { siteId: 'boston', role: 'viewer' },
+    ]),
+  };
+
+  it('should give users without grants their role on every site', () => {
+    const access = { role: 'user' as const, siteRoles: null };
+    expect(getSiteRole(access, 'boston')).toBe('user');
+    expect(getSiteRole(access, null)).toBe('user');
+  });
+
+  it('should never limit admins', () => {
+    const access = { role: 'admin' as const, siteRoles: {} };
+    expect(getSiteRole(access, 'seattle')).toBe('admin');
+    expect(getSiteRole(access, null)).toBe('admin');
+  });
+
+  it('should use the grant role inside granted subtrees', () => {
+    expect(getSiteRole(regional, 'portland')).toBe('user');
+    expect(getSiteRole(regional, 'boston')).toBe('viewer');
+  });
+
+  it('should deny sites outside the grants and organization-wide rows', () => {
+    expect(getSiteRole(regional, 'east')).toBeNull();
+    expect(getSiteRole(regional, 'company')).toBeNull();
+    expect(getSiteRole(regional, null)).toBeNull();
+  });
+
+  it('should cap the grant role at the user role', () => {
+    const viewer = { role: 'viewer' as const, siteRoles: { west: 'user' as const } };
+    expect(getSiteRole(viewer, 'west')).toBe('viewer');
+  });
+});
+
+describe('hasSiteAccess', () => {
+  const access = { role: 'user' as const, siteRoles: { west: 'user' as const, east: 'viewer' as const } };
+
+  it('should compare the site role with the minimum role', () => {
+    expect(hasSiteAccess(access, 'west', 'user')).toBe(true);
+    expect(hasSiteAccess(access, 'east')).toBe(true);
+    expect(hasSiteAccess(access, 'east', 'user')).toBe(false);
+    expect(hasSiteAccess(access, 'company')).toBe(false);
+  });
+});
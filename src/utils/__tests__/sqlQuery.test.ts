@@ -0,0 +1,168 @@
+/**
+ * SQL Query Helpers Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateReadOnlyQuery,
+  quoteIdentifier,
+  buildSelectQuery,
+  toJsonValue,
+  formatSyncValue,
+  classifyDatabaseError,
+} from '../sqlQuery';
+
+describe('validateReadOnlyQuery', () => {
+  it('should accept single SELECT and WITH statements', () => {
+    expect(validateReadOnlyQuery('SELECT * FROM members;  ')).toEqual({
+      valid: true,
+      query: 'SELECT * FROM members',
+    });
+    expect(validateReadOnlyQuery('with recent as (select 1) select * from recent').valid).toBe(true);
+    expect(validateReadOnlyQuery('-- members\n(SELECT id FROM members)').valid).toBe(true);
+  });
+
+  it('should reject writes, schema changes and multiple statements', () => {
+    expect(validateReadOnlyQuery('DELETE FROM members').error).toBe('Only SELECT queries are allowed');
+    expect(validateReadOnlyQuery('SELECT 1; DROP TABLE members').error).toBe(
+      'Only a single statement is allowed'
+    );
+    expect(validateReadOnlyQuery('WITH gone AS (DELETE FROM members RETURNING *) SELECT * FROM gone').error).toBe(
+      'Queries must be read-only: DELETE is not allowed'
+    );
+    expect(validateReadOnlyQuery('SELECT * INTO backup FROM members').valid).toBe(false);
+    expect(validateReadOnlyQuery('SELECT * FROM members FOR UPDATE').valid).toBe(false);
+    expect(validateReadOnlyQuery('  ;').error).toBe('Query is empty');
+  });
+
+  it('should ignore keywords inside literals, identifiers and comments', () => {
+    expect(
+      validateReadOnlyQuery(`SELECT 'a; DROP TABLE x' AS note, "delete" FROM t /* update; */`).valid
+    ).toBe(true);
+    expect(validateReadOnlyQuery('SELECT updated_at, created_by FROM t').valid).toBe(true);
+    expect(validateReadOnlyQuery('SELECT [Update Time] FROM t', 'mssql').valid).toBe(true);
+    expect(validateReadOnlyQuery('SELECT `insert` FROM t', 'mysql').valid).toBe(true);
+  });
+
+  it('should apply each dialect quoting rules', () => {
+    // MySQL reads \' as an escaped quote, so the DROP is inside the string there
+    const escaped = "SELECT 'it\\'s; DROP TABLE t' FROM t";
+    expect(validateReadOnlyQuery(escaped, 'mysql').valid).toBe(true);
+    expect(validateReadOnlyQuery(escaped, 'postgres').valid).toBe(false);
+    expect(validateReadOnlyQuery(escaped).valid).toBe(false);
+
+    // # starts a comment only in MySQL, and /*! */ comments are executed there
+    expect(validateReadOnlyQuery('SELECT 1 # ; drop', 'mysql').valid).toBe(true);
+    expect(validateReadOnlyQuery('SELECT 1 # ; drop', 'postgres').valid).toBe(false);
+    expect(validateReadOnlyQuery('SELECT 1 /*! ; DROP TABLE t */', 'mysql').valid).toBe(false);
+  });
+});
+
+describe('quoteIdentifier', () => {
+  it('should quote each part for the dialect', () => {
+    expect(quoteIdentifier('postgres', 'public.members')).toBe('"public"."members"');
+    expect(quoteIdentifier('postgres', 'we"ird')).toBe('"we""ird"');
+    expect(quoteIdentifier('mysql', 'crm.my`table')).toBe('`crm`.`my``table`');
+    expect(quoteIdentifier('mssql', 'dbo.[x]')).toBe('[dbo].[[x]]]');
+    expect(() => quoteIdentifier('postgres', 'public.')).toThrow('Invalid identifier');
+  });
+});
+
+describe('buildSelectQuery', () => {
+  it('should select a whole table', () => {
+    expect(buildSelectQuery('postgres', { source: { table: 'members' } })).toEqual({
+      text: 'SELECT * FROM "members"',
+      params: [],
+    });
+  });
+
+  it('should filter and order by the incremental column', () => {
+    const options = {
+      source: { table: 'members' },
+      incrementalColumn: 'updated_at',
+      after: '2024-01-01 00:00:00.000',
+      limit: 500,
+      offset: 1000,
+    };
+
+    expect(buildSelectQuery('postgres', options).text).toBe(
+      'SELECT * FROM "members" WHERE "updated_at" > $1 ORDER BY "updated_at" LIMIT 500 OFFSET 1000'
+    );
+    expect(buildSelectQuery('mysql', options).text).toBe(
+      'SELECT * FROM `members` WHERE `updated_at` > ? ORDER BY `updated_at` LIMIT 500 OFFSET 1000'
+    );
+    expect(buildSelectQuery('mssql', options)).toEqual({
+      text:
+        'SELECT * FROM [members] WHERE [updated_at] > @p1 ORDER BY [updated_at] ' +
+        'OFFSET 1000 ROWS FETCH NEXT 500 ROWS ONLY',
+      params: ['2024-01-01 00:00:00.000'],
+    });
+  });
+
+  it('should read everything on the first incremental sync', () => {
+    expect(
+      buildSelectQuery('postgres', { source: { table: 't' }, incrementalColumn: 'id', after: null })
+    ).toEqual({ text: 'SELECT * FROM "t" ORDER BY "id"', params: [] });
+  });
+
+  it('should wrap custom queries and order pages by the first column', () => {
+    expect(
+      buildSelectQuery('mysql', { source: { query: 'SELECT id, email FROM users;' }, limit: 10 }).text
+    ).toBe('SELECT * FROM (SELECT id, email FROM users) AS source_query ORDER BY 1 LIMIT 10 OFFSET 0');
+  });
+
+  it('should reject custom queries that are not read-only', () => {
+    expect(() =>
+      buildSelectQuery('postgres', { source: { query: 'UPDATE users SET x = 1' } })
+    ).toThrow('Only SELECT queries are allowed');
+    expect(() =>
+      buildSelectQuery('mssql', { source: { query: 'WITH x AS (SELECT 1 AS a) SELECT * FROM x' } })
+    ).toThrow('SQL Server custom queries must start with SELECT');
+  });
+});
+
+describe('toJsonValue', () => {
+  it('should convert driver values for JSON', () => {
+    expect(toJsonValue(undefined)).toBeNull();
+    expect(toJsonValue(new Date(Date.UTC(2024, 0, 2, 3)))).toBe('2024-01-02T03:00:00.000Z');
+    expect(toJsonValue(BigInt(42))).toBe(42);
+    expect(toJsonValue(BigInt('9007199254740993'))).toBe('9007199254740993');
+    expect(toJsonValue(new Uint8Array([104, 105]))).toBe('aGk=');
+    expect(toJsonValue({ a: 1 })).toEqual({ a: 1 });
+  });
+});
+
+describe('formatSyncValue', () => {
+  it('should format dates in UTC without a zone', () => {
+    expect(formatSyncValue(new Date(Date.UTC(2024, 5, 7, 8, 9, 10, 11)))).toBe('2024-06-07 08:09:10.011');
+    expect(formatSyncValue(1234)).toBe('1234');
+    expect(formatSyncValue(null)).toBeNull();
+  });
+});
+
+describe('classifyDatabaseError', () => {
+  it('should map Postgres SQLSTATE codes', () => {
+    expect(classifyDatabaseError('postgres', { code: '42P01' })).toBe('TABLE_NOT_FOUND');
+    expect(classifyDatabaseError('postgres', { code: '42703' })).toBe('COLUMN_NOT_FOUND');
+    expect(classifyDatabaseError('postgres', { code: '42501' })).toBe('PERMISSION_DENIED');
+    expect(classifyDatabaseError('postgres', { code: '57014' })).toBe('TIMEOUT');
+    expect(classifyDatabaseError('postgres', { code: '28P01' })).toBe('CONNECTION_FAILED');
+    expect(classifyDatabaseError('postgres', { code: '42601' })).toBe('QUERY_ERROR');
+  });
+
+  it('should map MySQL and SQL Server error numbers', () => {
+    expect(classifyDatabaseError('mysql', { code: 'ER_NO_SUCH_TABLE', number: 1146 })).toBe('TABLE_NOT_FOUND');
+    expect(classifyDatabaseError('mysql', { number: 1045 })).toBe('CONNECTION_FAILED');
+    expect(classifyDatabaseError('mssql', { number: 207 })).toBe('COLUMN_NOT_FOUND');
+    expect(classifyDatabaseError('mssql', { code: 'ELOGIN', number: 18456 })).toBe('CONNECTION_FAILED');
+    expect(classifyDatabaseError('mssql', { code: 'ETIMEOUT' })).toBe('TIMEOUT');
+  });
+
+  it('should map network errors and fall back', () => {
+    expect(classifyDatabaseError('mysql', { code: 'ECONNREFUSED' })).toBe('CONNECTION_FAILED');
+    expect(classifyDatabaseError('postgres', { name: 'ConnectionRefused' })).toBe('CONNECTION_FAILED');
+    expect(classifyDatabaseError('postgres', { message: 'Connection timed out' })).toBe('TIMEOUT');
+    expect(classifyDatabaseError('mssql', { message: 'boom' })).toBe('QUERY_ERROR');
+    expect(classifyDatabaseError('mssql', { message: 'boom' }, 'CONNECTION_FAILED')).toBe('CONNECTION_FAILED');
+  });
+});
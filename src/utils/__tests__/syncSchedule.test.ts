@@ -0,0 +1,149 @@
+/**
+ * Sync Schedule Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateNextRetryTime,
+  calculateNextSyncTime,
+  calculateRetryDelay,
+  getNextSyncTimes,
+  parseCronExpression,
+  shouldRetry,
+  validateScheduleConfig,
+} from '../syncSchedule';
+import type { ScheduleConfiguration } from '../syncSchedule';
+
+const schedule: ScheduleConfiguration = {
+  frequency: 'hourly',
+  retry_on_failure: true,
+  max_retries: 3,
+  retry_delay_minutes: 15,
+};
+
+const utc = (iso: string) => new Date(iso).toISOString();
+const next = (config: Partial<ScheduleConfiguration>, from: string) =>
+  calculateNextSyncTime({ ...schedule, ...config }, new Date(from))?.toISOString() ?? null;
+
+describe('calculateNextSyncTime', () => {
+  it('should not schedule manual sources', () => {
+    expect(calculateNextSyncTime({ ...schedule, frequency: 'manual' })).toBeNull();
+  });
+
+  it('should schedule hourly syncs on the next local hour', () => {
+    expect(next({}, '2024-01-01T09:41:12Z')).toBe(utc('2024-01-01T10:00:00Z'));
+    expect(next({ timezone: 'Asia/Kolkata' }, '2024-01-01T09:41:12Z')).toBe(
+      utc('2024-01-01T10:30:00Z')
+    );
+  });
+
+  it('should keep daily syncs at the local time across DST changes', () => {
+    const daily = { frequency: 'daily' as const, time: '09:00', timezone: 'America/Chicago' };
+    expect(next(daily, '2024-03-09T16:00:00Z')).toBe(utc('2024-03-10T14:00:00Z'));
+    expect(next(daily, '2024-03-08T12:00:00Z')).toBe(utc('2024-03-08T15:00:00Z'));
+    expect(next(daily, '2024-11-02T15:00:00Z')).toBe(utc('2024-11-03T15:00:00Z'));
+  });
+
+  it('should move times skipped by DST forward and run repeated times once', () => {
+    const at = (time: string) => ({ frequency: 'daily' as const, time, timezone: 'America/New_York' });
+    expect(next(at('02:30'), '2024-03-10T05:00:00Z')).toBe(utc('2024-03-10T07:30:00Z'));
+    expect(next(at('01:30'), '2024-11-03T04:00:00Z')).toBe(utc('2024-11-03T05:30:00Z'));
+    expect(next(at('01:30'), '2024-11-03T05:30:00Z')).toBe(utc('2024-11-04T06:30:00Z'));
+  });
+
+  it('should schedule weekly and monthly syncs in the timezone', () => {
+    const weekly = { frequency: 'weekly' as const, day_of_week: 1, time: '06:00', timezone: 'America/Denver' };
+    expect(next(weekly, '2024-01-01T12:00:00Z')).toBe(utc('2024-01-01T13:00:00Z'));
+    expect(next(weekly, '2024-01-01T13:00:00Z')).toBe(utc('2024-01-08T13:00:00Z'));
+
+    const monthly = { frequency: 'monthly' as const, day_of_month: 15, time: '00:00', timezone: 'America/Los_Angeles' };
+    expect(next(monthly, '2024-01-20T00:00:00Z')).toBe(utc('2024-02-15T08:00:00Z'));
+  });
+
+  it('should run cron schedules in the timezone', () => {
+    const cron = (cron_expression: string) => ({ frequency: 'cron' as const, cron_expression, timezone: 'America/New_York' });
+    expect(next(cron('0 6 * * MON-FRI'), '2024-01-05T12:00:00Z')).toBe(utc('2024-01-08T11:00:00Z'));
+    expect(next(cron('30 9 1 * *'), '2024-03-02T00:00:00Z')).toBe(utc('2024-04-01T13:30:00Z'));
+    expect(next(cron('0 0 29 FEB *'), '2024-03-01T00:00:00Z')).toBe(utc('2028-02-29T05:00:00Z'));
+    expect(next(cron('not a cron'), '2024-01-01T00:00:00Z')).toBeNull();
+  });
+});
+
+describe('getNextSyncTimes', () => {
+  it('should list the next runs', () => {
+    expect(
+      getNextSyncTimes(
+        { ...schedule, frequency: 'cron', cron_expression: '0,30 9-10 * * *' },
+        5,
+        new Date('2024-01-01T00:00:00Z')
+      ).map((date) => date.toISOString())
+    ).toEqual([
+      utc('2024-01-01T09:00:00Z'),
+      utc('2024-01-01T09:30:00Z'),
+      utc('2024-01-01T10:00:00Z'),
+      utc('2024-01-01T10:30:00Z'),
+      utc('2024-01-02T09:00:00Z'),
+    ]);
+    expect(getNextSyncTimes({ ...schedule, frequency: 'manual' })).toEqual([]);
+  });
+});
+
+describe('parseCronExpression', () => {
+  it('should parse lists, ranges and steps', () => {
+    const cron = parseCronExpression('0,30 1-5/2 */10 JAN,jul-AUG 5-7');
+    expect(cron.minutes).toEqual([0, 30]);
+    expect(cron.hours).toEqual([1, 3, 5]);
+    expect([...cron.daysOfMonth]).toEqual([1, 11, 21, 31]);
+    expect([...cron.months]).toEqual([1, 7, 8]);
+    expect([...cron.daysOfWeek].sort()).toEqual([0, 5, 6]);
+    expect(parseCronExpression('10/15 * * * *').minutes).toEqual([10, 25, 40, 55]);
+  });
+
+  it('should run on either day field when both are restricted', () => {
+    const config = { ...schedule, frequency: 'cron' as const, cron_expression: '0 0 13 * FRI' };
+    expect(
+      getNextSyncTimes(config, 3, new Date('2024-09-01T00:00:00Z')).map((date) => date.toISOString())
+    ).toEqual([utc('2024-09-06T00:00:00Z'), utc('2024-09-13T00:00:00Z'), utc('2024-09-20T00:00:00Z')]);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow('5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('Invalid minute "60"');
+    expect(() => parseCronExpression('* * * FOO *')).toThrow('Invalid month "FOO"');
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow('step');
+    expect(() => parseCronExpression('5-1 * * * *')).toThrow('range');
+  });
+});
+
+describe('validateScheduleConfig', () => {
+  it('should report invalid cron expressions and timezones', () => {
+    expect(
+      validateScheduleConfig({ ...schedule, frequency: 'cron', cron_expression: '0 25 * * *' }).errors
+    ).toEqual(['Invalid hour "25": expected 0-23']);
+    expect(
+      validateScheduleConfig({ ...schedule, frequency: 'cron', cron_expression: '0 0 31 FEB *' }).errors
+    ).toEqual(['The cron expression never matches a date']);
+    expect(validateScheduleConfig({ ...schedule, timezone: 'Mars/Olympus' }).errors).toEqual([
+      'Unknown timezone: Mars/Olympus',
+    ]);
+  });
+});
+
+describe('retry policy', () => {
+  it('should back off exponentially from the retry delay', () => {
+    expect([1, 2, 3].map((attempt) => calculateRetryDelay(attempt, 15))).toEqual([15, 30, 60]);
+
+    const from = new Date(Date.UTC(2024, 0, 1, 12, 0));
+    expect(calculateNextRetryTime(2, schedule, from).toISOString()).toBe('2024-01-01T12:30:00.000Z');
+  });
+
+  it('should allow max_retries retries when enabled', () => {
+    expect([0, 1, 2, 3].map((retries) => shouldRetry(retries, schedule))).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+    expect(shouldRetry(0, { ...schedule, retry_on_failure: false })).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Template Engine Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseTemplate,
+  extractVariableNames,
+  isKnownVariable,
+  findUnknownVariables,
+  renderTemplate,
+  escapeHtml,
+  TEMPLATE_VARIABLE_NAMES,
+} from '../templateEngine';
+import { TEMPLATE_VARIABLES } from '../../types/campaign';
+
+describe('TEMPLATE_VARIABLE_NAMES', () => {
+  it('should match the variables offered in the editor', () => {
+    expect(Object.keys(TEMPLATE_VARIABLES).sort()).toEqual([...TEMPLATE_VARIABLE_NAMES].sort());
+  });
+});
+
+describe('parseTemplate', () => {
+  it('should parse names and fallbacks', () => {
+    expect(parseTemplate('Hi {{firstName|there}}, see {{ siteName }}')).toEqual([
+      { raw: '{{firstName|there}}', name: 'firstName', fallback: 'there' },
+      { raw: '{{ siteName }}', name: 'siteName', fallback: null },
+    ]);
+  });
+
+  it('should parse custom field references', () => {
+    expect(parseTemplate('{{custom.favorite-class}}')[0].name).toBe('custom.favorite-class');
+  });
+
+  it('should ignore text that is not a placeholder', () => {
+    expect(parseTemplate('{single} {{ }} {{1abc}}')).toEqual([]);
+  });
+});
+
+describe('extractVariableNames', () => {
+  it('should return unique names in order', () => {
+    expect(extractVariableNames('{{lastName}} {{firstName}} {{lastName|x}}')).toEqual([
+      'lastName',
+      'firstName',
+    ]);
+  });
+});
+
+describe('isKnownVariable', () => {
+  it('should accept built-in variables and custom fields', () => {
+    expect(isKnownVariable('unsubscribeUrl')).toBe(true);
+    expect(isKnownVariable('custom.tier')).toBe(true);
+  });
+
+  it('should reject unknown names', () => {
+    expect(isKnownVariable('firstname')).toBe(false);
+    expect(isKnownVariable('promoCode')).toBe(false);
+  });
+});
+
+describe('findUnknownVariables', () => {
+  it('should collect unknown variables across content and subject', () => {
+    expect(findUnknownVariables('Hi {{first_name}}', 'Deal for {{firstName}} {{promo}}', null)).toEqual([
+      'first_name',
+      'promo',
+    ]);
+  });
+
+  it('should return an empty list for valid content', () => {
+    expect(findUnknownVariables('Hi {{firstName|there}} {{custom.tier}}')).toEqual([]);
+  });
+});
+
+describe('renderTemplate', () => {
+  const context = {
+    firstName: 'Ana',
+    lastName: null,
+    siteName: 'Downtown',
+    membershipLevel: 'Gold',
+    unsubscribeUrl: 'https://example.com/u?member=1&sig=abc',
+    customFields: { tier: 'VIP', visits: 12 },
+  };
+
+  it('should render every built-in variable', () => {
+    expect(renderTemplate('{{firstName}} @ {{siteName}} ({{membershipLevel}})', context)).toBe(
+      'Ana @ Downtown (Gold)'
+    );
+  });
+
+  it('should use the fallback for empty values', () => {
+    expect(renderTemplate('Hi {{lastName|friend}}', context)).toBe('Hi friend');
+    expect(renderTemplate('Hi {{lastName}}!', context)).toBe('Hi !');
+  });
+
+  it('should prefer the value over the fallback', () => {
+    expect(renderTemplate('Hi {{firstName|there}}', context)).toBe('Hi Ana');
+  });
+
+  it('should render custom fields', () => {
+    expect(renderTemplate('{{custom.tier}} / {{custom.visits}} / {{custom.missing|none}}', context)).toBe(
+      'VIP / 12 / none'
+    );
+  });
+
+  it('should leave unknown variables untouched', () => {
+    expect(renderTemplate('Code: {{promoCode}}', context)).toBe('Code: {{promoCode}}');
+  });
+
+  it('should escape values for HTML', () => {
+    const html = renderTemplate(
+      '<a href="{{unsubscribeUrl}}">{{custom.name}}</a>',
+      { ...context, customFields: { name: '<b>"Al" & Co</b>' } },
+      { escapeHtml: true }
+    );
+    expect(html).toBe(
+      '<a href="https://example.com/u?member=1&amp;sig=abc">&lt;b&gt;&quot;Al&quot; &amp; Co&lt;/b&gt;</a>'
+    );
+  });
+
+  it('should not escape plain text', () => {
+    expect(renderTemplate('{{custom.name}}', { customFields: { name: 'A & B' } })).toBe('A & B');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('should escape HTML special characters', () => {
+    expect(escapeHtml(`<'&">`)).toBe('&lt;&#39;&amp;&quot;&gt;');
+  });
+});
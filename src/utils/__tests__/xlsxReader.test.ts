@@ -0,0 +1,245 @@
+/**
+ * XLSX Reader Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { openXlsxWorkbook, isDateFormat, serialToDate, columnIndex } from '../xlsxReader';
+
+// Minimal zip writer: stored entries, or deflated ones when compress is set
+async function buildZip(files: Record<string, string>, compress = false): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const data = compress ? await deflateRaw(raw) : raw;
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(8, compress ? 8 : 0, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, raw.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const entry = new Uint8Array(46 + nameBytes.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, 0x02014b50, true);
+    entryView.setUint16(10, compress ? 8 : 0, true);
+    entryView.setUint32(20, data.length, true);
+    entryView.setUint32(24, raw.length, true);
+    entryView.setUint16(28, nameBytes.length, true);
+    entryView.setUint32(42, offset, true);
+    entry.set(nameBytes, 46);
+
+    locals.push(local);
+    directory.push(entry);
+    offset += local.length;
+  }
+
+  const directorySize = directory.reduce((sum, entry) => sum + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, directory.length, true);
+  endView.setUint16(10, directory.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return concat([...locals, ...directory, end]);
+}
+
+async function deflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(bytes.slice());
+      controller.close();
+    },
+  }).pipeThrough(new CompressionStream('deflate-raw'));
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return concat(chunks);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+}
+
+const NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+function workbookFiles(sheets: Record<string, string>, options: { date1904?: boolean } = {}) {
+  const names = Object.keys(sheets);
+  const files: Record<string, string> = {
+    '_rels/.rels':
+      `<Relationships><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    'xl/workbook.xml':
+      `<workbook ${NS} xmlns:r="${REL_NS}">` +
+      (options.date1904 ? '<workbookPr date1904="1"/>' : '') +
+      '<sheets>' +
+      names.map((name, i) => `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+      '</sheets></workbook>',
+    'xl/_rels/workbook.xml.rels':
+      '<Relationships>' +
+      names
+        .map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+        .join('') +
+      `<Relationship Id="rIdS" Type="${REL_NS}/sharedStrings" Target="sharedStrings.xml"/>` +
+      `<Relationship Id="rIdT" Type="${REL_NS}/styles" Target="/xl/styles.xml"/>` +
+      '</Relationships>',
+    'xl/sharedStrings.xml':
+      `<sst ${NS}><si><t>Name</t></si><si><t>Joined</t></si>` +
+      '<si><r><t>Ada </t></r><r><rPr><b/></rPr><t>Lovelace</t></r></si>' +
+      '<si><t>Tom &amp; Jerry_x000D_</t><rPh><t>ignored</t></rPh></si></sst>',
+    'xl/styles.xml':
+      `<styleSheet ${NS}><numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd"/></numFmts>` +
+      '<cellStyleXfs count="1"><xf numFmtId="14"/></cellStyleXfs>' +
+      '<cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/></cellXfs></styleSheet>',
+  };
+
+  names.forEach((name, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = `<worksheet ${NS}><sheetData>${sheets[name]}</sheetData></worksheet>`;
+  });
+  return files;
+}
+
+describe('openXlsxWorkbook', () => {
+  it('should list sheets in workbook order', async () => {
+    const workbook = await openXlsxWorkbook(
+      await buildZip(workbookFiles({ Members: '', 'Q1 & Q2': '' }))
+    );
+    expect(workbook.sheetNames).toEqual(['Members', 'Q1 & Q2']);
+  });
+
+  it('should read shared, rich and inline strings', async () => {
+    const workbook = await openXlsxWorkbook(
+      await buildZip(
+        workbookFiles({
+          Sheet1:
+            '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>2</v></c></row>' +
+            '<row r="2"><c r="A2" t="s"><v>3</v></c><c r="B2" t="inlineStr"><is><t xml:space="preserve"> x </t></is></c></row>',
+        })
+      )
+    );
+
+    expect(await workbook.readSheet('Sheet1')).toEqual([
+      ['Name', 'Ada Lovelace'],
+      ['Tom & Jerry\r', ' x '],
+    ]);
+  });
+
+  it('should type numbers, booleans and dates and drop errors', async () => {
+    const workbook = await openXlsxWorkbook(
+      await buildZip(
+        workbookFiles({
+          Sheet1:
+            '<row r="1"><c r="A1"><v>42.5</v></c><c r="B1" t="b"><v>1</v></c><c r="C1" t="e"><v>#N/A</v></c></row>' +
+            '<row r="2"><c r="A2" s="1"><v>45292</v></c><c r="B2" s="2"><v>45292.5</v></c><c r="C2" t="str"><v>formula</v></c></row>',
+        })
+      )
+    );
+
+    const rows = await workbook.readSheet('Sheet1');
+    expect(rows[0]).toEqual([42.5, true]);
+    expect(rows[1][0]).toEqual(new Date(Date.UTC(2024, 0, 1)));
+    expect(rows[1][1]).toEqual(new Date(Date.UTC(2024, 0, 1, 12)));
+    expect(rows[1][2]).toBe('formula');
+  });
+
+  it('should keep cell and row positions across gaps', async () => {
+    const workbook = await openXlsxWorkbook(
+      await buildZip(
+        workbookFiles({
+          Sheet1: '<row r="1"><c r="C1"><v>3</v></c></row><row r="3"><c r="A3"><v>1</v></c><c><v>2</v></c></row>',
+        })
+      )
+    );
+
+    expect(await workbook.readSheet('Sheet1')).toEqual([[null, null, 3], [], [1, 2]]);
+  });
+
+  it('should use the 1904 date system when the workbook sets it', async () => {
+    const workbook = await openXlsxWorkbook(
+      await buildZip(
+        workbookFiles({ Sheet1: '<row r="1"><c r="A1" s="1"><v>0</v></c></row>' }, { date1904: true })
+      )
+    );
+
+    expect((await workbook.readSheet('Sheet1'))[0][0]).toEqual(new Date(Date.UTC(1904, 0, 1)));
+  });
+
+  it('should inflate deflated entries', async () => {
+    const workbook = await openXlsxWorkbook(
+      await buildZip(workbookFiles({ Sheet1: '<row r="1"><c r="A1" t="s"><v>1</v></c></row>' }), true)
+    );
+
+    expect(await workbook.readSheet('Sheet1')).toEqual([['Joined']]);
+  });
+
+  it('should reject unknown sheets and files that are not workbooks', async () => {
+    const workbook = await openXlsxWorkbook(await buildZip(workbookFiles({ Sheet1: '' })));
+    await expect(workbook.readSheet('Missing')).rejects.toThrow('Sheet not found: Missing');
+
+    await expect(openXlsxWorkbook(new TextEncoder().encode('name,email\n'))).rejects.toThrow(
+      'Not a valid .xlsx file'
+    );
+    await expect(openXlsxWorkbook(await buildZip({ 'readme.txt': 'hi' }))).rejects.toThrow(
+      'workbook not found'
+    );
+  });
+});
+
+describe('isDateFormat', () => {
+  it('should recognise built-in date formats', () => {
+    expect(isDateFormat(14)).toBe(true);
+    expect(isDateFormat(22)).toBe(true);
+    expect(isDateFormat(0)).toBe(false);
+    expect(isDateFormat(4)).toBe(false);
+  });
+
+  it('should look for date tokens in custom formats', () => {
+    expect(isDateFormat(164, 'dd/mm/yyyy')).toBe(true);
+    expect(isDateFormat(165, 'h:mm AM/PM')).toBe(true);
+    expect(isDateFormat(166, '#,##0.00')).toBe(false);
+    expect(isDateFormat(167, '0 "days"')).toBe(false);
+    expect(isDateFormat(168, '[Red]0.00')).toBe(false);
+    expect(isDateFormat(169, 'General')).toBe(false);
+  });
+});
+
+describe('serialToDate', () => {
+  it('should convert 1900 system serials', () => {
+    expect(serialToDate(1)).toEqual(new Date(Date.UTC(1900, 0, 1)));
+    expect(serialToDate(61)).toEqual(new Date(Date.UTC(1900, 2, 1)));
+    expect(serialToDate(45292.25)).toEqual(new Date(Date.UTC(2024, 0, 1, 6)));
+  });
+
+  it('should convert 1904 system serials', () => {
+    expect(serialToDate(1, true)).toEqual(new Date(Date.UTC(1904, 0, 2)));
+  });
+});
+
+describe('columnIndex', () => {
+  it('should convert cell references to zero-based columns', () => {
+    expect(columnIndex('A1')).toBe(0);
+    expect(columnIndex('Z9')).toBe(25);
+    expect(columnIndex('AB12')).toBe(27);
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * CSV Parsing Utilities
+ * Streaming RFC 4180 parser with delimiter and encoding detection,
+ * used by member imports (on the main thread or inside a Web Worker)
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CsvParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowsParsed: number;
+}
+
+export interface CsvParseOptions {
+  /** Delimiter to use; detected from the first chunk when omitted */
+  delimiter?: CsvDelimiter;
+  /** Encoding to use; detected from the first bytes when omitted */
+  encoding?: CsvEncoding;
+  /** Bytes read per slice of the blob (default: 1 MB) */
+  chunkSize?: number;
+  onProgress?: (progress: CsvParseProgress) => void;
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: string[][];
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+}
+
+export interface CsvStreamParser {
+  /** Feed the next piece of text; returns the rows completed by it */
+  push: (chunk: string) => string[][];
+  /** Flush the final row once all text has been pushed */
+  end: () => string[][];
+}
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+// Rows sampled when detecting the delimiter
+const DETECTION_SAMPLE_ROWS = 20;
+
+const BOM = '\uFEFF';
+
+// =============================================================================
+// Streaming Parser
+// =============================================================================
+
+/**
+ * Creates an incremental CSV parser. Text can be split anywhere, including
+ * inside quoted fields or between the CR and LF of a line break.
+ *
+ * Quoted fields may contain delimiters, line breaks and "" escapes and are
+ * kept verbatim; unquoted fields are trimmed. Blank lines are skipped.
+ *
+ * @example
+ * const parser = createCsvParser(',');
+ * parser.push('name,notes\nAda,"line 1\nli'); // [['name', 'notes']]
+ * parser.push('ne 2"\n');                     // [['Ada', 'line 1\nline 2']]
+ * parser.end();                               // []
+ */
+export function createCsvParser(delimiter: CsvDelimiter = ','): CsvStreamParser {
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // A quote was seen inside a quoted field: either an escape or the closing quote
+  let pendingQuote = false;
+  let fieldQuoted = false;
+  // The previous chunk ended with CR, so a leading LF belongs to that break
+  let skipLineFeed = false;
+  let started = false;
+
+  const endField = () => {
+    row.push(fieldQuoted ? field : field.trim());
+    field = '';
+    fieldQuoted = false;
+  };
+
+  const endRow = (rows: string[][]) => {
+    endField();
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+  };
+
+  return {
+    push(chunk) {
+      const rows: string[][] = [];
+      let i = 0;
+
+      if (!started && chunk.length > 0) {
+        started = true;
+        if (chunk[0] === BOM) i = 1;
+      }
+
+      for (; i < chunk.length; i++) {
+        const char = chunk[i];
+
+        if (skipLineFeed) {
+          skipLineFeed = false;
+          if (char === '\n') continue;
+        }
+
+        if (inQuotes) {
+          if (pendingQuote) {
+            pendingQuote = false;
+            if (char === '"') {
+              field += '"';
+              continue;
+            }
+            inQuotes = false;
+            // Fall through: the character after a closing quote is handled below
+          } else if (char === '"') {
+            pendingQuote = true;
+            continue;
+          } else {
+            field += char;
+            continue;
+          }
+        }
+
+        if (char === '"' && !fieldQuoted && field.trim() === '') {
+          inQuotes = true;
+          fieldQuoted = true;
+          field = '';
+        } else if (char === delimiter) {
+          endField();
+        } else if (char === '\n') {
+          endRow(rows);
+        } else if (char === '\r') {
+          endRow(rows);
+          skipLineFeed = true;
+        } else {
+          field += char;
+        }
+      }
+
+      return rows;
+    },
+
+    end() {
+      const rows: string[][] = [];
+      pendingQuote = false;
+      inQuotes = false;
+      if (field !== '' || fieldQuoted || row.length > 0) endRow(rows);
+      return rows;
+    },
+  };
+}
+
+/**
+ * Parses a complete CSV string into rows (header row included)
+ * @param text - CSV content
+ * @param delimiter - Field delimiter; detected when omitted
+ */
+export function parseCsvText(text: string, delimiter?: CsvDelimiter): string[][] {
+  const parser = createCsvParser(delimiter ?? detectDelimiter(text));
+  return [...parser.push(text), ...parser.end()];
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Detects the field delimiter from a sample of the file. Picks the candidate
+ * that splits the sampled rows into the most fields most consistently;
+ * quoted sections are ignored. Falls back to a comma.
+ *
+ * @example
+ * detectDelimiter('a;b;c\n1;2;3')  // ';'
+ * detectDelimiter('a\tb\n1\t2')    // '\t'
+ */
+export function detectDelimiter(sample: string): CsvDelimiter {
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+
+  for (const candidate of CSV_DELIMITERS) {
+    const counts = countFieldsPerLine(sample, candidate);
+    if (counts.length === 0) continue;
+
+    const first = counts[0];
+    if (first < 2) continue;
+
+    // Lines agreeing with the header count; the last line may be cut off mid-sample
+    const consistent = counts.filter((count) => count === first).length;
+    const score = (consistent / counts.length) * first;
+
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function countFieldsPerLine(sample: string, delimiter: string): number[] {
+  const counts: number[] = [];
+  let fields = 1;
+  let inQuotes = false;
+  let lineHasContent = false;
+
+  for (let i = 0; i < sample.length && counts.length < DETECTION_SAMPLE_ROWS; i++) {
+    const char = sample[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      lineHasContent = true;
+    } else if (inQuotes) {
+      continue;
+    } else if (char === delimiter) {
+      fields++;
+      lineHasContent = true;
+    } else if (char === '\n' || char === '\r') {
+      if (lineHasContent) counts.push(fields);
+      fields = 1;
+      lineHasContent = false;
+    } else if (char !== BOM) {
+      lineHasContent = true;
+    }
+  }
+
+  if (lineHasContent && counts.length < DETECTION_SAMPLE_ROWS) counts.push(fields);
+  return counts;
+}
+
+/**
+ * Detects the text encoding from the first bytes of a file. Byte order marks
+ * win; otherwise bytes that are not valid UTF-8 are treated as Windows-1252,
+ * which is what spreadsheet and POS exports usually mean by "ANSI".
+ *
+ * @param bytes - First bytes of the file
+ * @param truncated - The sample may end mid-character (more of the file follows)
+ *
+ * @example
+ * detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61])) // 'utf-8'
+ * detectEncoding(new Uint8Array([0x63, 0x61, 0x66, 0xe9])) // 'windows-1252'
+ */
+export function detectEncoding(bytes: Uint8Array, truncated = false): CsvEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    // Streaming mode tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: truncated });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+// =============================================================================
+// Blob Parsing
+// =============================================================================
+
+/**
+ * Parses a File or Blob in slices so large exports are never held in memory
+ * as one string. Reports byte-level progress after each slice.
+ *
+ * @returns Header row, data rows, and the delimiter and encoding used
+ */
+export async function parseCsvBlob(
+  blob: Blob,
+  options: CsvParseOptions = {}
+): Promise<CsvParseResult> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const totalBytes = blob.size;
+
+  let encoding = options.encoding;
+  let delimiter = options.delimiter;
+  let decoder: TextDecoder | null = null;
+  let parser: CsvStreamParser | null = null;
+  const rows: string[][] = [];
+
+  for (let offset = 0; offset < totalBytes; offset += chunkSize) {
+    const bytes = await readSlice(blob.slice(offset, offset + chunkSize));
+
+    if (!decoder) {
+      encoding = encoding ?? detectEncoding(bytes, offset + chunkSize < totalBytes);
+      // The decoder strips a leading BOM; the parser also handles one left in the text
+      decoder = new TextDecoder(encoding);
+    }
+
+    const text = decoder.decode(bytes, { stream: true });
+    if (!parser) {
+      delimiter = delimiter ?? detectDelimiter(text);
+      parser = createCsvParser(delimiter);
+    }
+    for (const row of parser.push(text)) rows.push(row);
+
+    options.onProgress?.({
+      bytesRead: Math.min(offset + chunkSize, totalBytes),
+      totalBytes,
+      rowsParsed: rows.length,
+    });
+  }
+
+  if (decoder && parser) {
+    for (const row of parser.push(decoder.decode())) rows.push(row);
+    for (const row of parser.end()) rows.push(row);
+  }
+
+  const headers = rows.shift() ?? [];
+  return {
+    headers,
+    rows,
+    delimiter: delimiter ?? ',',
+    encoding: encoding ?? 'utf-8',
+  };
+}
+
+function readSlice(slice: Blob): Promise<Uint8Array> {
+  if (typeof slice.arrayBuffer === 'function') {
+    return slice.arrayBuffer().then((buffer) => new Uint8Array(buffer));
+  }
+
+  // Older Safari (and jsdom) Blobs have no arrayBuffer()
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsArrayBuffer(slice);
+  });
+}
@@ -0,0 +1,7 @@
+/**
+ * Data Cleaning
+ * Client entry point for the cleaning pipeline shared with the connector
+ * Edge Functions, so previews clean rows the way syncs load them.
+ */
+
+export * from '../../supabase/functions/_shared/dataCleaning';
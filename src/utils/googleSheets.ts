@@ -0,0 +1,8 @@
+/**
+ * Google Sheets Reader
+ * Client entry point for the Sheets API reader shared with the
+ * sheets-connector Edge Function, so scheduled imports read a sheet exactly
+ * as the import wizard previews it.
+ */
+
+export * from '../../supabase/functions/_shared/googleSheets';
@@ -0,0 +1,8 @@
+/**
+ * Member Import Helpers
+ * Client entry point for the row mapping and batch upsert shared with the
+ * sheets-connector Edge Function, so scheduled Google Sheets imports map
+ * rows exactly as the import wizard does.
+ */
+
+export * from '../../supabase/functions/_shared/memberImport';
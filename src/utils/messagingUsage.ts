@@ -0,0 +1,7 @@
+/**
+ * Messaging Usage
+ * Client entry point for the SMS segment math and quota estimates shared
+ * with the send functions, so the estimate shown is what a send will count.
+ */
+
+export * from '../../supabase/functions/_shared/messagingUsage';
@@ -0,0 +1,7 @@
+/**
+ * REST API Helpers
+ * Client entry point for the REST helpers shared with the rest-connector
+ * Edge Function, so response paths preview exactly as they sync.
+ */
+
+export * from '../../supabase/functions/_shared/restApi';
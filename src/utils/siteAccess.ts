@@ -0,0 +1,84 @@
+/**
+ * Site Access
+ * Resolves site grants over the sites hierarchy the way has_site_access()
+ * does in the database: a grant covers its site and every site below it,
+ * and the role on a site never exceeds the user's own role.
+ */
+
+import { ROLE_HIERARCHY, hasMinimumRole } from '../types/admin';
+import type { SiteAccess, SiteGrantRole, UserRole } from '../types/admin';
+
+interface SiteNode {
+  id: string;
+  parentSiteId: string | null;
+}
+
+interface GrantNode {
+  siteId: string;
+  role: SiteGrantRole;
+}
+
+/**
+ * Role per site from the grants: the highest grant on the site or any site
+ * above it. Sites no grant covers are left out.
+ */
+export function resolveSiteRoles(
+  sites: SiteNode[],
+  grants: GrantNode[]
+): Record<string, SiteGrantRole> {
+  const granted = new Map<string, SiteGrantRole>();
+  for (const grant of grants) {
+    const current = granted.get(grant.siteId);
+    if (!current || ROLE_HIERARCHY[grant.role] > ROLE_HIERARCHY[current]) {
+      granted.set(grant.siteId, grant.role);
+    }
+  }
+
+  const parents = new Map(sites.map((site) => [site.id, site.parentSiteId]));
+  const roles: Record<string, SiteGrantRole> = {};
+
+  for (const site of sites) {
+    let best: SiteGrantRole | null = null;
+    const visited = new Set<string>();
+
+    // Walk up to the root; visited guards against a cycle in parent links
+    for (let id: string | null = site.id; id && !visited.has(id); id = parents.get(id) ?? null) {
+      visited.add(id);
+      const role = granted.get(id);
+      if (role && (!best || ROLE_HIERARCHY[role] > ROLE_HIERARCHY[best])) {
+        best = role;
+      }
+    }
+
+    if (best) roles[site.id] = best;
+  }
+
+  return roles;
+}
+
+/**
+ * The role the user acts with on a site, or null without access. A null
+ * siteId (organization-wide, e.g. a campaign to all sites) needs access to
+ * every site.
+ */
+export function getSiteRole(access: SiteAccess, siteId: string | null): UserRole | null {
+  if (access.role === 'admin' || !access.siteRoles) return access.role;
+  if (!siteId) return null;
+
+  const siteRole = access.siteRoles[siteId];
+  if (!siteRole) return null;
+
+  return hasMinimumRole(siteRole, access.role) ? access.role : siteRole;
+}
+
+/**
+ * Check the user has at least minimumRole on a site
+ */
+export function hasSiteAccess(
+  access: SiteAccess,
+  siteId: string | null,
+  minimumRole: UserRole = 'viewer'
+): boolean {
+  const role = getSiteRole(access, siteId);
+  return !!role && hasMinimumRole(role, minimumRole);
+}
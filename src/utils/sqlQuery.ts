@@ -0,0 +1,8 @@
+/**
+ * SQL Query Helpers
+ * Client entry point for the SQL helpers shared with the database-connector
+ * Edge Function, so custom queries are checked by the same rules before they
+ * are saved.
+ */
+
+export * from '../../supabase/functions/_shared/sqlQuery';
@@ -0,0 +1,7 @@
+/**
+ * Sync Schedules
+ * Client entry point for the schedule calculations shared with the Edge
+ * Functions, so the next sync time shown is the one the runner uses.
+ */
+
+export * from '../../supabase/functions/_shared/syncSchedule';
@@ -0,0 +1,7 @@
+/**
+ * Template Engine
+ * Client entry point for the template engine shared with the Edge Functions,
+ * so previews render exactly what process-campaign sends.
+ */
+
+export * from '../../supabase/functions/_shared/templateEngine';
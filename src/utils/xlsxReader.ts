@@ -0,0 +1,413 @@
+/**
+ * XLSX Reading Utilities
+ * Dependency-free reader for Excel workbooks: unzips the package with
+ * DecompressionStream and reads cells with their types (strings, numbers,
+ * booleans, and dates recognised from the cell's number format)
+ */
+
+export type XlsxCellValue = string | number | boolean | Date | null;
+
+export interface XlsxWorkbook {
+  /** Sheet names in workbook order */
+  sheetNames: string[];
+  /** Read a sheet as rows of cells; gaps are null, rows are not padded */
+  readSheet: (name: string) => Promise<XlsxCellValue[][]>;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  offset: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+// Built-in number formats that display a date or time
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+]);
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+
+const utf8 = new TextDecoder('utf-8');
+
+// =============================================================================
+// Workbook
+// =============================================================================
+
+/**
+ * Open an .xlsx workbook from its bytes
+ * Strings and styles are read up front; sheets are read on demand.
+ */
+export async function openXlsxWorkbook(data: ArrayBuffer | Uint8Array): Promise<XlsxWorkbook> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const entries = readZipDirectory(bytes);
+
+  const readPart = async (path: string): Promise<string | null> => {
+    const entry = entries.get(path);
+    return entry ? inflateEntry(bytes, entry) : null;
+  };
+
+  const rootRels = parseRelationships((await readPart('_rels/.rels')) ?? '', '');
+  const workbookPath =
+    rootRels.find((rel) => rel.type.endsWith('/officeDocument'))?.target ?? 'xl/workbook.xml';
+
+  const workbookXml = await readPart(workbookPath);
+  if (workbookXml === null) {
+    throw new Error('Not a valid .xlsx file: workbook not found');
+  }
+
+  const workbookDir = workbookPath.slice(0, workbookPath.lastIndexOf('/') + 1);
+  const relsPath = `${workbookDir}_rels/${workbookPath.slice(workbookDir.length)}.rels`;
+  const rels = parseRelationships((await readPart(relsPath)) ?? '', workbookDir);
+  const partOfType = (type: string) => rels.find((rel) => rel.type.endsWith(`/${type}`))?.target;
+
+  const sharedStringsXml = await readPart(partOfType('sharedStrings') ?? `${workbookDir}sharedStrings.xml`);
+  const stylesXml = await readPart(partOfType('styles') ?? `${workbookDir}styles.xml`);
+
+  const sharedStrings = sharedStringsXml ? parseSharedStrings(sharedStringsXml) : [];
+  const dateStyles = stylesXml ? parseDateStyles(stylesXml) : [];
+  const date1904 = findElements(workbookXml, 'workbookPr').some(({ attributes }) =>
+    ['1', 'true'].includes(attributes.date1904)
+  );
+
+  const sheets = findElements(workbookXml, 'sheet').map(({ attributes }) => ({
+    name: decodeXml(attributes.name ?? ''),
+    target: rels.find((rel) => rel.id === attributes['r:id'])?.target,
+  }));
+
+  return {
+    sheetNames: sheets.map((sheet) => sheet.name),
+    readSheet: async (name) => {
+      const sheet = sheets.find((s) => s.name === name);
+      if (!sheet) {
+        throw new Error(`Sheet not found: ${name}`);
+      }
+
+      const xml = sheet.target ? await readPart(sheet.target) : null;
+      if (xml === null) {
+        throw new Error(`Sheet could not be read: ${name}`);
+      }
+
+      return parseSheet(xml, sharedStrings, dateStyles, date1904);
+    },
+  };
+}
+
+// =============================================================================
+// Dates
+// =============================================================================
+
+/**
+ * Whether a number format displays a date or time
+ * Custom formats are checked for date / time tokens outside quoted text,
+ * escapes and bracketed sections (colours, locales).
+ */
+export function isDateFormat(numFmtId: number, formatCode?: string): boolean {
+  if (formatCode === undefined) {
+    return BUILTIN_DATE_FORMATS.has(numFmtId);
+  }
+
+  const tokens = formatCode
+    .replace(/"[^"]*"/g, '')
+    .replace(/\\./g, '')
+    .replace(/\[[^\]]*\]/g, '');
+  return /[dmyhs]/i.test(tokens);
+}
+
+/**
+ * Convert a serial date number to a UTC Date
+ * In the 1900 system serials before 1 March 1900 are shifted by a day to
+ * undo the fictitious 29 February 1900.
+ */
+export function serialToDate(serial: number, date1904 = false): Date {
+  if (date1904) {
+    return new Date(EPOCH_1904 + Math.round(serial * 86400) * 1000);
+  }
+
+  const days = serial < 60 ? serial + 1 : serial;
+  return new Date(EPOCH_1900 + Math.round(days * 86400) * 1000);
+}
+
+// =============================================================================
+// Cell References
+// =============================================================================
+
+/**
+ * Zero-based column index of a cell reference ("A1" -> 0, "AB12" -> 27)
+ */
+export function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.toUpperCase()) {
+    const code = char.charCodeAt(0);
+    if (code < 65 || code > 90) break;
+    index = index * 26 + (code - 64);
+  }
+  return index - 1;
+}
+
+// =============================================================================
+// Parts
+// =============================================================================
+
+function parseRelationships(
+  xml: string,
+  baseDir: string
+): Array<{ id: string; type: string; target: string }> {
+  return findElements(xml, 'Relationship').map(({ attributes }) => ({
+    id: attributes.Id ?? '',
+    type: attributes.Type ?? '',
+    target: resolvePath(baseDir, decodeXml(attributes.Target ?? '')),
+  }));
+}
+
+function parseSharedStrings(xml: string): string[] {
+  return findElements(xml, 'si').map(({ content }) => readText(content));
+}
+
+/**
+ * For each cell format (index used by the s attribute), whether it is a date
+ */
+function parseDateStyles(xml: string): boolean[] {
+  const customFormats = new Map(
+    findElements(xml, 'numFmt').map(({ attributes }) => [
+      Number(attributes.numFmtId),
+      decodeXml(attributes.formatCode ?? ''),
+    ])
+  );
+
+  const cellXfs = findElements(xml, 'cellXfs')[0]?.content ?? '';
+  return findElements(cellXfs, 'xf').map(({ attributes }) => {
+    const id = Number(attributes.numFmtId ?? 0);
+    return isDateFormat(id, customFormats.get(id));
+  });
+}
+
+function parseSheet(
+  xml: string,
+  sharedStrings: string[],
+  dateStyles: boolean[],
+  date1904: boolean
+): XlsxCellValue[][] {
+  const sheetData = findElements(xml, 'sheetData')[0]?.content ?? '';
+  const rows: XlsxCellValue[][] = [];
+  let rowIndex = -1;
+
+  for (const row of findElements(sheetData, 'row')) {
+    rowIndex = row.attributes.r ? Number(row.attributes.r) - 1 : rowIndex + 1;
+    const cells: XlsxCellValue[] = [];
+    let cellIndex = -1;
+
+    for (const cell of findElements(row.content, 'c')) {
+      cellIndex = cell.attributes.r ? columnIndex(cell.attributes.r) : cellIndex + 1;
+      const value = readCell(cell.attributes, cell.content, sharedStrings, dateStyles, date1904);
+      if (value === null) continue;
+
+      while (cells.length < cellIndex) cells.push(null);
+      cells[cellIndex] = value;
+    }
+
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = cells;
+  }
+
+  return rows;
+}
+
+function readCell(
+  attributes: Record<string, string>,
+  content: string,
+  sharedStrings: string[],
+  dateStyles: boolean[],
+  date1904: boolean
+): XlsxCellValue {
+  const type = attributes.t ?? 'n';
+
+  if (type === 'inlineStr') {
+    return readText(findElements(content, 'is')[0]?.content ?? '');
+  }
+
+  const raw = findElements(content, 'v')[0]?.content;
+  if (raw === undefined) return null;
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(raw)] ?? '';
+    case 'str':
+      return decodeXml(raw);
+    case 'b':
+      return raw.trim() === '1';
+    case 'e':
+      return null; // #N/A, #REF! and other formula errors
+    case 'd': {
+      const date = new Date(raw);
+      return isNaN(date.getTime()) ? null : date;
+    }
+    default: {
+      const number = Number(raw);
+      if (raw.trim() === '' || isNaN(number)) return null;
+      return dateStyles[Number(attributes.s ?? 0)] ? serialToDate(number, date1904) : number;
+    }
+  }
+}
+
+/**
+ * Text of a string item: its <t> runs, without phonetic hints
+ */
+function readText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, '');
+  return findElements(withoutPhonetics, 't')
+    .map(({ content }) => decodeXml(content))
+    .join('');
+}
+
+// =============================================================================
+// XML Helpers
+// =============================================================================
+
+/**
+ * Elements with the given local name (any namespace prefix), not nested in
+ * one another
+ */
+function findElements(
+  xml: string,
+  name: string
+): Array<{ attributes: Record<string, string>; content: string }> {
+  const pattern = new RegExp(
+    `<(?:\\w+:)?${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:\\w+:)?${name}>)`,
+    'g'
+  );
+
+  return Array.from(xml.matchAll(pattern), (match) => ({
+    attributes: parseAttributes(match[1]),
+    content: match[2] ?? '',
+  }));
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = match[2] ?? match[3];
+  }
+  return attributes;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, code: string) => {
+      switch (code.toLowerCase()) {
+        case 'lt': return '<';
+        case 'gt': return '>';
+        case 'amp': return '&';
+        case 'quot': return '"';
+        case 'apos': return "'";
+        default:
+          return String.fromCodePoint(
+            code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+          );
+      }
+    })
+    .replace(/_x([0-9a-f]{4})_/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function resolvePath(baseDir: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+
+  const parts: string[] = [];
+  for (const part of `${baseDir}${target}`.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.' && part !== '') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+// =============================================================================
+// Zip
+// =============================================================================
+
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end of central directory record is followed by a comment of up to 64 KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not a valid .xlsx file');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  if (count === 0xffff || position === 0xffffffff) {
+    throw new Error('Workbooks over 4 GB are not supported');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > bytes.length || view.getUint32(position, true) !== ZIP_DIRECTORY_ENTRY) {
+      throw new Error('Not a valid .xlsx file: corrupt directory');
+    }
+
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const name = utf8.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      offset: view.getUint32(position + 42, true),
+    });
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function inflateEntry(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(entry.offset, true) !== ZIP_LOCAL_HEADER) {
+    throw new Error('Not a valid .xlsx file: corrupt entry');
+  }
+
+  const start =
+    entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return utf8.decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported compression in .xlsx file (method ${entry.method})`);
+  }
+
+  const stream = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(data.slice());
+      controller.close();
+    },
+  }).pipeThrough(new DecompressionStream('deflate-raw'));
+
+  const reader = stream.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
@@ -0,0 +1,69 @@
+/**
+ * Connector Errors for Supabase Edge Functions
+ * Errors thrown by the data source connectors, coded with the
+ * DataImportErrorCode values the app shows to users.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** The DataImportErrorCode values a connector can report */
+export type ConnectorErrorCode =
+  | 'CONNECTION_FAILED'
+  | 'AUTH_EXPIRED'
+  | 'RATE_LIMITED'
+  | 'VALIDATION_FAILED'
+  | 'QUERY_ERROR'
+  | 'TIMEOUT'
+  | 'PERMISSION_DENIED'
+  | 'TABLE_NOT_FOUND'
+  | 'COLUMN_NOT_FOUND';
+
+export interface ConnectorErrorBody {
+  success: false;
+  error: {
+    code: ConnectorErrorCode;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+export class ConnectorError extends Error {
+  code: ConnectorErrorCode;
+  details?: Record<string, unknown>;
+
+  constructor(code: ConnectorErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ConnectorError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * The { success: false, error } body connectors respond with. Errors that
+ * are not ConnectorErrors are reported with `fallback`.
+ */
+export function connectorErrorBody(
+  err: unknown,
+  fallback: ConnectorErrorCode = 'QUERY_ERROR'
+): ConnectorErrorBody {
+  const error =
+    err instanceof ConnectorError
+      ? err
+      : new ConnectorError(fallback, err instanceof Error ? err.message : 'Unknown error');
+
+  return {
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.details && { details: error.details }),
+    },
+  };
+}
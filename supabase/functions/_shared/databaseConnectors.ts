@@ -0,0 +1,317 @@
+/**
+ * Database Connectors for Supabase Edge Functions
+ * Opens read-only connections to external Postgres, MySQL and SQL Server
+ * databases and reports failures as DataImportErrorCode-coded errors.
+ *
+ * Writes are blocked twice: custom queries must pass validateReadOnlyQuery,
+ * and sessions are read-only (Postgres, MySQL) or every query runs in a
+ * transaction that is rolled back (SQL Server).
+ */
+
+import { Client as PostgresClient } from 'https://deno.land/x/postgres@v0.19.3/mod.ts';
+import mysql from 'npm:mysql2@3.11.3/promise';
+import mssql from 'npm:mssql@11.0.1';
+import { ConnectorError } from './connectorError.ts';
+import { classifyDatabaseError } from './sqlQuery.ts';
+import type { ConnectorErrorCode } from './connectorError.ts';
+import type { DatabaseErrorInfo, SqlDialect } from './sqlQuery.ts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DatabaseCredentials {
+  connection_string?: string;
+  host?: string;
+  port?: number;
+  database?: string;
+  username?: string;
+  password?: string;
+  ssl?: boolean;
+}
+
+export interface DatabaseConnection {
+  dialect: SqlDialect;
+  /** Run a statement built by buildSelectQuery and return its rows */
+  query(text: string, params?: unknown[]): Promise<Record<string, unknown>[]>;
+  close(): Promise<void>;
+}
+
+export interface ConnectOptions {
+  /** Limit for connecting and for each query, in milliseconds */
+  timeoutMs?: number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+const DEFAULT_PORTS: Record<SqlDialect, number> = {
+  postgres: 5432,
+  mysql: 3306,
+  mssql: 1433,
+};
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Read the code, number and name each driver puts on its errors
+ */
+function errorInfo(err: unknown): DatabaseErrorInfo {
+  if (!(err instanceof Error)) return { message: String(err) };
+
+  const source = err as Error & {
+    code?: unknown;
+    errno?: unknown;
+    number?: unknown;
+    fields?: { code?: string; message?: string };
+    originalError?: { info?: { number?: number; message?: string } };
+  };
+
+  const number =
+    typeof source.errno === 'number'
+      ? source.errno
+      : typeof source.number === 'number'
+        ? source.number
+        : source.originalError?.info?.number;
+
+  return {
+    code: source.fields?.code ?? (typeof source.code === 'string' ? source.code : undefined),
+    number,
+    name: source.name,
+    message: source.fields?.message ?? source.originalError?.info?.message ?? source.message,
+  };
+}
+
+/**
+ * Wrap a driver error as a ConnectorError. `fallback` is used when the
+ * driver does not identify the failure.
+ */
+export function toConnectorError(
+  dialect: SqlDialect,
+  err: unknown,
+  fallback: ConnectorErrorCode = 'QUERY_ERROR'
+): ConnectorError {
+  if (err instanceof ConnectorError) return err;
+
+  const info = errorInfo(err);
+  const code = classifyDatabaseError(dialect, info, fallback);
+  const details: Record<string, unknown> = {};
+  if (info.code) details.driver_code = info.code;
+  if (info.number !== undefined) details.driver_number = info.number;
+
+  return new ConnectorError(
+    code,
+    info.message || 'Database error',
+    Object.keys(details).length > 0 ? details : undefined
+  );
+}
+
+/**
+ * Reject when the promise has not settled within `ms`
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: number | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ConnectorError('TIMEOUT', message)), ms);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// =============================================================================
+// Drivers
+// =============================================================================
+
+function requireCredentials(credentials: DatabaseCredentials): void {
+  if (credentials.connection_string) return;
+  if (!credentials.host || !credentials.database || !credentials.username) {
+    throw new ConnectorError(
+      'VALIDATION_FAILED',
+      'Host, database and username are required (or a connection string)'
+    );
+  }
+}
+
+async function connectPostgres(
+  credentials: DatabaseCredentials,
+  timeoutMs: number
+): Promise<DatabaseConnection> {
+  const client = credentials.connection_string
+    ? new PostgresClient(credentials.connection_string)
+    : new PostgresClient({
+        hostname: credentials.host,
+        port: credentials.port ?? DEFAULT_PORTS.postgres,
+        database: credentials.database,
+        user: credentials.username,
+        password: credentials.password,
+        tls: { enabled: !!credentials.ssl, enforce: !!credentials.ssl },
+        connection: { attempts: 1 },
+      });
+
+  await client.connect();
+  await client.queryArray('SET SESSION CHARACTERISTICS AS TRANSACTION READ ONLY');
+  await client.queryArray(`SET statement_timeout = ${Math.floor(timeoutMs)}`);
+
+  return {
+    dialect: 'postgres',
+    async query(text, params = []) {
+      const result = await client.queryObject<Record<string, unknown>>({ text, args: params });
+      return result.rows;
+    },
+    async close() {
+      await client.end();
+    },
+  };
+}
+
+async function connectMysql(
+  credentials: DatabaseCredentials,
+  timeoutMs: number
+): Promise<DatabaseConnection> {
+  const options = {
+    connectTimeout: timeoutMs,
+    // Keep DATETIME values as written so they round-trip through last_sync_value
+    dateStrings: true,
+    supportBigNumbers: true,
+  };
+
+  const connection = await mysql.createConnection(
+    credentials.connection_string
+      ? { uri: credentials.connection_string, ...options }
+      : {
+          host: credentials.host,
+          port: credentials.port ?? DEFAULT_PORTS.mysql,
+          database: credentials.database,
+          user: credentials.username,
+          password: credentials.password,
+          ssl: credentials.ssl ? {} : undefined,
+          ...options,
+        }
+  );
+
+  await connection.query('SET SESSION TRANSACTION READ ONLY');
+
+  return {
+    dialect: 'mysql',
+    async query(text, params = []) {
+      const [rows] = await connection.query({ sql: text, values: params, timeout: timeoutMs });
+      return rows as Record<string, unknown>[];
+    },
+    async close() {
+      await connection.end();
+    },
+  };
+}
+
+async function connectMssql(
+  credentials: DatabaseCredentials,
+  timeoutMs: number
+): Promise<DatabaseConnection> {
+  const pool = new mssql.ConnectionPool(
+    credentials.connection_string ?? {
+      server: credentials.host!,
+      port: credentials.port ?? DEFAULT_PORTS.mssql,
+      database: credentials.database,
+      user: credentials.username,
+      password: credentials.password,
+      connectionTimeout: timeoutMs,
+      requestTimeout: timeoutMs,
+      pool: { max: 1 },
+      options: {
+        encrypt: !!credentials.ssl,
+        trustServerCertificate: !credentials.ssl,
+      },
+    }
+  );
+
+  await pool.connect();
+
+  return {
+    dialect: 'mssql',
+    async query(text, params = []) {
+      const transaction = new mssql.Transaction(pool);
+      await transaction.begin();
+      try {
+        const request = new mssql.Request(transaction);
+        params.forEach((value, index) => request.input(`p${index + 1}`, value));
+        const result = await request.query(text);
+        return result.recordset as Record<string, unknown>[];
+      } finally {
+        await transaction.rollback();
+      }
+    },
+    async close() {
+      await pool.close();
+    },
+  };
+}
+
+const CONNECTORS: Record<
+  SqlDialect,
+  (credentials: DatabaseCredentials, timeoutMs: number) => Promise<DatabaseConnection>
+> = {
+  postgres: connectPostgres,
+  mysql: connectMysql,
+  mssql: connectMssql,
+};
+
+// =============================================================================
+// Connections
+// =============================================================================
+
+export function isSqlDialect(type: string): type is SqlDialect {
+  return type in CONNECTORS;
+}
+
+/**
+ * Open a read-only connection. Connection failures and every query error
+ * are thrown as ConnectorErrors; a query that runs past the timeout is
+ * abandoned with TIMEOUT.
+ */
+export async function openDatabaseConnection(
+  dialect: SqlDialect,
+  credentials: DatabaseCredentials,
+  options: ConnectOptions = {}
+): Promise<DatabaseConnection> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  requireCredentials(credentials);
+
+  let connection: DatabaseConnection;
+  try {
+    connection = await withTimeout(
+      CONNECTORS[dialect](credentials, timeoutMs),
+      timeoutMs,
+      `Connecting to the database timed out after ${timeoutMs / 1000}s`
+    );
+  } catch (err) {
+    throw toConnectorError(dialect, err, 'CONNECTION_FAILED');
+  }
+
+  return {
+    dialect,
+    async query(text, params) {
+      try {
+        return await withTimeout(
+          connection.query(text, params),
+          // Leave room for the server-side timeout to report first
+          timeoutMs + 5_000,
+          `Query timed out after ${timeoutMs / 1000}s`
+        );
+      } catch (err) {
+        throw toConnectorError(dialect, err);
+      }
+    },
+    async close() {
+      try {
+        await connection.close();
+      } catch (err) {
+        console.error('Failed to close database connection:', err);
+      }
+    },
+  };
+}
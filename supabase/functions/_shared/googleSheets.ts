@@ -0,0 +1,108 @@
+/**
+ * Google Sheets Reader
+ * Reads spreadsheets through the Sheets API v4, or a local stand-in at
+ * another base URL. Values are requested unformatted so numbers and
+ * booleans stay typed; dates come back as their displayed text. Shared by
+ * the client (import wizard) and the sheets-connector Edge Function, so
+ * this file must not import anything runtime-specific.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SheetCellValue = string | number | boolean | null;
+
+/** Where the Sheets API is and the key it is called with */
+export interface SheetsApi {
+  url: string;
+  /** API key for spreadsheets shared with "anyone with the link" */
+  key?: string;
+}
+
+interface SheetsErrorResponse {
+  error?: { message?: string; status?: string };
+}
+
+export const DEFAULT_SHEETS_API_URL = 'https://sheets.googleapis.com';
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/**
+ * List the sheet (tab) names of a spreadsheet in order
+ */
+export async function getSpreadsheetSheetNames(
+  api: SheetsApi,
+  spreadsheetId: string
+): Promise<string[]> {
+  const data = await request<{ sheets?: Array<{ properties?: { title?: string } }> }>(
+    api,
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}`,
+    { fields: 'sheets.properties.title' }
+  );
+
+  return (data.sheets || [])
+    .map((sheet) => sheet.properties?.title)
+    .filter((title): title is string => !!title);
+}
+
+/**
+ * Read every value of a sheet as rows of cells
+ * Trailing empty cells and rows are omitted by the API.
+ */
+export async function getSheetValues(
+  api: SheetsApi,
+  spreadsheetId: string,
+  sheetName: string
+): Promise<SheetCellValue[][]> {
+  const range = `'${sheetName.replace(/'/g, "''")}'`;
+  const data = await request<{ values?: SheetCellValue[][] }>(
+    api,
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(range)}`,
+    {
+      majorDimension: 'ROWS',
+      valueRenderOption: 'UNFORMATTED_VALUE',
+      dateTimeRenderOption: 'FORMATTED_STRING',
+    }
+  );
+
+  return (data.values || []).map((row) => row.map((cell) => (cell === '' ? null : cell)));
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function request<T>(api: SheetsApi, path: string, params: Record<string, string>): Promise<T> {
+  const url = new URL(path, api.url);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  if (api.key) {
+    url.searchParams.set('key', api.key);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url.toString());
+  } catch (err) {
+    throw new Error(
+      `Failed to read Google Sheet: ${err instanceof Error ? err.message : 'Network error'}`
+    );
+  }
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => ({}))) as SheetsErrorResponse;
+    const message =
+      response.status === 404
+        ? 'Spreadsheet or sheet not found'
+        : response.status === 403
+          ? 'The spreadsheet is not shared for reading with this API key'
+          : body.error?.message || `HTTP ${response.status}`;
+    throw new Error(`Failed to read Google Sheet: ${message}`);
+  }
+
+  return (await response.json()) as T;
+}
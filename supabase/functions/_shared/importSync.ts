@@ -0,0 +1,325 @@
+/**
+ * Import Sync Bookkeeping for Supabase Edge Functions
+ * Shared by the connectors that copy a data source into its import table:
+ * claiming the source, the sync_logs row, cleaning and writing rows, and
+ * closing the sync.
+ *
+ * Closing a sync also schedules the next one: after a failure the source's
+ * retry policy (schedule_config.retry_on_failure, max_retries,
+ * retry_delay_minutes) picks a retry time, otherwise next_sync_at moves to
+ * the next scheduled time. run-syncs starts the syncs that fall due.
+ */
+
+import { processRows } from './dataCleaning.ts';
+import { getUserOrganizationId } from './supabase.ts';
+import { calculateNextRetryTime, calculateNextSyncTime, shouldRetry } from './syncSchedule.ts';
+import type { ColumnConfiguration } from './dataCleaning.ts';
+import type { ScheduleConfiguration, SyncScheduleFrequency } from './syncSchedule.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SyncDataSource<TCredentials = Record<string, unknown>, TConfig = Record<string, unknown>> {
+  id: string;
+  user_id: string | null;
+  organization_id: string;
+  type: string;
+  credentials: TCredentials;
+  config: TConfig;
+  column_config: Partial<ColumnConfiguration> | null;
+  last_sync_value: string | null;
+  table_name: string | null;
+}
+
+export interface SyncResult {
+  status: 'success' | 'failed';
+  imported: number;
+  skipped: number;
+  lastValue: string | null;
+  errorMessage?: string;
+  metadata: Record<string, unknown>;
+}
+
+// Supabase background tasks: keeps the worker alive after the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+interface SourceSchedule {
+  sync_schedule: SyncScheduleFrequency;
+  schedule_config: Partial<ScheduleConfiguration> | null;
+}
+
+const SYNC_SOURCE_COLUMNS =
+  'id, user_id, organization_id, type, config, column_config, last_sync_value, table_name';
+
+// =============================================================================
+// Sync Lifecycle
+// =============================================================================
+
+/**
+ * Load a data source to sync, with its credentials decrypted from Vault.
+ * Returns null when it does not exist or, for a user (userId set), does not
+ * belong to their organization.
+ */
+export async function loadSyncDataSource<TCredentials, TConfig>(
+  supabase: SupabaseClient,
+  dataSourceId: string,
+  userId: string | null
+): Promise<SyncDataSource<TCredentials, TConfig> | null> {
+  const { data, error } = await supabase
+    .from('data_sources')
+    .select(SYNC_SOURCE_COLUMNS)
+    .eq('id', dataSourceId)
+    .single();
+
+  if (error || !data) return null;
+
+  if (userId && data.organization_id !== (await getUserOrganizationId(supabase, userId))) {
+    return null;
+  }
+
+  const { data: credentials, error: credentialsError } = await supabase.rpc(
+    'get_data_source_credentials',
+    { p_data_source_id: dataSourceId }
+  );
+
+  if (credentialsError) {
+    throw new Error(`Failed to read data source credentials: ${credentialsError.message}`);
+  }
+
+  return { ...data, credentials: credentials ?? {} } as SyncDataSource<TCredentials, TConfig>;
+}
+
+/**
+ * Claim the data source and open its sync_logs row. Returns null when a
+ * sync is already running.
+ */
+export async function startSync(
+  supabase: SupabaseClient,
+  dataSourceId: string,
+  metadata: Record<string, unknown>
+): Promise<string | null> {
+  const { data: claimed, error: claimError } = await supabase
+    .from('data_sources')
+    .update({ sync_status: 'syncing' })
+    .eq('id', dataSourceId)
+    .neq('sync_status', 'syncing')
+    .select('id');
+
+  if (claimError) {
+    throw new Error(`Failed to start sync: ${claimError.message}`);
+  }
+  if (!claimed || claimed.length === 0) return null;
+
+  const { data: log, error } = await supabase
+    .from('sync_logs')
+    .insert({ data_source_id: dataSourceId, status: 'running', metadata })
+    .select('id')
+    .single();
+
+  if (error || !log) {
+    await supabase.from('data_sources').update({ sync_status: 'failed' }).eq('id', dataSourceId);
+    throw new Error(`Failed to create sync log: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return log.id as string;
+}
+
+/**
+ * Close the sync log, record the outcome on the data source and schedule
+ * its next sync
+ */
+export async function finishSync(
+  supabase: SupabaseClient,
+  dataSourceId: string,
+  syncLogId: string,
+  result: SyncResult
+): Promise<void> {
+  const completedAt = new Date().toISOString();
+
+  const { data: log } = await supabase
+    .from('sync_logs')
+    .select('metadata')
+    .eq('id', syncLogId)
+    .single();
+
+  const { error: logError } = await supabase
+    .from('sync_logs')
+    .update({
+      status: result.status,
+      completed_at: completedAt,
+      records_imported: result.imported,
+      records_skipped: result.skipped,
+      error_message: result.errorMessage ?? null,
+      metadata: { ...(log?.metadata ?? {}), ...result.metadata },
+    })
+    .eq('id', syncLogId);
+
+  if (logError) {
+    console.error('Failed to update sync log:', logError);
+  }
+
+  const nextSyncAt = await scheduleNextSync(supabase, dataSourceId, new Date(completedAt));
+
+  const { error } = await supabase
+    .from('data_sources')
+    .update({
+      sync_status: result.status,
+      last_sync_value: result.lastValue,
+      ...(result.status === 'success' && { last_sync_at: completedAt }),
+      ...(nextSyncAt !== undefined && { next_sync_at: nextSyncAt }),
+      updated_at: completedAt,
+    })
+    .eq('id', dataSourceId);
+
+  if (error) {
+    console.error('Failed to update data source sync status:', error);
+  }
+}
+
+/**
+ * When the data source should sync next, from its schedule and, after
+ * failures, its retry policy. Counts the failed syncs in a row (this one
+ * included) from sync_logs. Returns null for manual sources and undefined
+ * when the schedule can't be read, leaving next_sync_at as it is.
+ */
+async function scheduleNextSync(
+  supabase: SupabaseClient,
+  dataSourceId: string,
+  now: Date
+): Promise<string | null | undefined> {
+  const { data: source, error } = await supabase
+    .from('data_sources')
+    .select('sync_schedule, schedule_config')
+    .eq('id', dataSourceId)
+    .single();
+
+  if (error || !source) {
+    console.error('Failed to load data source schedule:', error);
+    return undefined;
+  }
+
+  const { sync_schedule, schedule_config } = source as SourceSchedule;
+  if (sync_schedule === 'manual') return null;
+
+  const config: ScheduleConfiguration = {
+    retry_on_failure: false,
+    max_retries: 3,
+    retry_delay_minutes: 15,
+    ...schedule_config,
+    frequency: sync_schedule,
+  };
+
+  if (config.retry_on_failure) {
+    const { data: logs } = await supabase
+      .from('sync_logs')
+      .select('status')
+      .eq('data_source_id', dataSourceId)
+      .order('started_at', { ascending: false })
+      .limit(config.max_retries + 1);
+
+    const statuses = (logs ?? []).map((log) => log.status as string);
+    const failures = statuses.findIndex((status) => status !== 'failed');
+    const retriesMade = (failures === -1 ? statuses.length : failures) - 1;
+
+    if (retriesMade >= 0 && shouldRetry(retriesMade, config)) {
+      return calculateNextRetryTime(retriesMade + 1, config, now).toISOString();
+    }
+  }
+
+  return calculateNextSyncTime(config, now)?.toISOString() ?? null;
+}
+
+/**
+ * Let a sync outlive the response where the runtime supports background
+ * tasks, otherwise wait for it
+ */
+export async function runInBackground(sync: Promise<void>): Promise<void> {
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(sync);
+  } else {
+    await sync;
+  }
+}
+
+// =============================================================================
+// Import Tables
+// =============================================================================
+
+export async function truncateImportTable(supabase: SupabaseClient, tableName: string): Promise<void> {
+  const { error } = await supabase.rpc('truncate_import_table', { p_table_name: tableName });
+
+  if (error) {
+    throw new Error(`Failed to truncate import table: ${error.message}`);
+  }
+}
+
+export async function insertImportRows(
+  supabase: SupabaseClient,
+  tableName: string,
+  rows: Record<string, unknown>[]
+): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const { data, error } = await supabase.rpc('insert_import_rows', {
+    p_table_name: tableName,
+    p_rows: rows,
+  });
+
+  if (error) {
+    throw new Error(`Failed to insert rows: ${error.message}`);
+  }
+
+  return data as number;
+}
+
+/**
+ * Update the registry row count: set it after a full sync (replace), add to
+ * it after an incremental one
+ */
+export async function updateImportRowCount(
+  supabase: SupabaseClient,
+  tableName: string,
+  added: number,
+  replace: boolean
+): Promise<void> {
+  let rowCount = added;
+
+  if (!replace) {
+    const { data } = await supabase
+      .from('import_tables')
+      .select('row_count')
+      .eq('table_name', tableName)
+      .maybeSingle();
+    rowCount += (data?.row_count as number | undefined) ?? 0;
+  }
+
+  await supabase
+    .from('import_tables')
+    .update({ row_count: rowCount, last_updated_at: new Date().toISOString() })
+    .eq('table_name', tableName);
+}
+
+/**
+ * Apply column_config to a page of rows with processRows: row filters,
+ * included columns under their target names with their cleaning rules, and
+ * duplicate handling (within the page). With no columns configured every
+ * row is kept as is.
+ */
+export function cleanImportRows(
+  rows: Record<string, unknown>[],
+  columnConfig: Partial<ColumnConfiguration> | null
+): { rows: Record<string, unknown>[]; skipped: number } {
+  const columns = columnConfig?.columns ?? [];
+  if (columns.length === 0) return { rows, skipped: 0 };
+
+  const { cleanedRows, skippedCount } = processRows(rows, {
+    columns: columns.map((column) => ({ ...column, cleaning_rules: column.cleaning_rules ?? [] })),
+    row_filters: columnConfig?.row_filters ?? [],
+    duplicate_handling: columnConfig?.duplicate_handling ?? 'keep_all',
+    duplicate_key_columns: columnConfig?.duplicate_key_columns,
+  });
+
+  return { rows: cleanedRows, skipped: skippedCount };
+}
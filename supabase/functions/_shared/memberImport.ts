@@ -0,0 +1,533 @@
+/**
+ * Member Import
+ * Mapping sheet rows to members and upserting them in batches through
+ * bulk_upsert_members. Shared by the client (file and Google Sheets imports)
+ * and the sheets-connector Edge Function (scheduled Google Sheets imports),
+ * so this file must not import anything runtime-specific.
+ */
+
+import { applyColumnRules, formatCellValue } from './dataCleaning.ts';
+import type { CleaningRule } from './dataCleaning.ts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type MembershipStatus = 'active' | 'expired' | 'cancelled' | 'suspended' | 'pending';
+
+export type AcquisitionSource = 'campaign' | 'promo_code' | 'referral' | 'organic' | 'import' | 'api';
+
+export interface CreateMemberInput {
+  siteId: string;
+  membershipLevelId?: string | null;
+  externalId?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  dateOfBirth?: string | null;
+  gender?: string | null;
+  addressLine1?: string | null;
+  addressLine2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+  country?: string;
+  membershipStartDate?: string | null;
+  membershipExpiryDate?: string | null;
+  membershipStatus?: MembershipStatus;
+  acquisitionSource?: AcquisitionSource | null;
+  acquisitionCampaignId?: string | null;
+  acquisitionPromoCode?: string | null;
+  acquisitionCost?: number | null;
+  acquisitionDate?: string | null;
+  tags?: string[];
+  customFields?: Record<string, unknown>;
+  sourceImportId?: string | null;
+}
+
+export interface MemberImportMapping {
+  sourceColumn: string;
+  targetField: keyof CreateMemberInput | 'skip';
+  transformRules?: string[];
+}
+
+/**
+ * How an imported value is merged into an existing member when
+ * duplicateHandling is 'update'
+ * - overwrite: take the imported value (empty cells keep the existing one)
+ * - keep_existing: never change the field
+ * - fill_blanks: only set the field when the member has no value
+ * - union: add imported tags / custom fields to the existing ones
+ */
+export type MemberMergeRule = 'overwrite' | 'keep_existing' | 'fill_blanks' | 'union';
+
+export type MemberImportField = Exclude<keyof CreateMemberInput, 'siteId'>;
+
+export interface MemberImportConfig {
+  siteId: string;
+  defaultMembershipLevelId?: string;
+  defaultAcquisitionSource?: AcquisitionSource;
+  defaultTags?: string[];
+  duplicateHandling: 'skip' | 'update' | 'create_new';
+  matchFields: ('email' | 'phone' | 'externalId')[];
+  /** Per-field merge rules for updates; unlisted fields are overwritten */
+  mergeRules?: Partial<Record<MemberImportField, MemberMergeRule>>;
+}
+
+export interface MemberImportResult {
+  /** source_import_id stamped on the rows this import wrote */
+  importId?: string;
+  totalRows: number;
+  imported: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: Array<{
+    row: number;
+    field: string;
+    message: string;
+  }>;
+}
+
+/** A cell as read from the source; spreadsheets keep numbers, booleans and dates typed */
+export type ImportCellValue = string | number | boolean | Date | null;
+
+/** Where the headers and data are in a sheet */
+export interface SheetTableOptions {
+  /** Sheet to read; the first sheet when omitted */
+  sheetName?: string;
+  /** 1-based row holding the column headers (default: 1) */
+  headerRow?: number;
+  /** Rows below the header row that are not data, e.g. units or notes (default: 0) */
+  skipRows?: number;
+}
+
+/** Headers and data rows cut from a sheet */
+export interface SheetTable {
+  headers: string[];
+  rows: ImportCellValue[][];
+  totalRows: number;
+  sheetName: string;
+}
+
+/** bulk_upsert_members arguments other than the rows */
+export interface BulkUpsertArgs {
+  p_site_id: string;
+  p_match_fields: string[];
+  p_duplicate_handling: MemberImportConfig['duplicateHandling'];
+  p_update_columns: string[];
+  p_merge_rules: Record<string, MemberMergeRule>;
+}
+
+/**
+ * Upserts one batch of member rows; a Supabase rpc call to
+ * bulk_upsert_members (or import_member_rows for the service role)
+ */
+export type UpsertMemberRows = (
+  rows: Record<string, unknown>[]
+) => PromiseLike<{ data: unknown; error: { code?: string; message: string } | null }>;
+
+interface StagedMemberRow {
+  rowIndex: number;
+  dbRow: Record<string, unknown>;
+}
+
+interface BulkUpsertOutcome {
+  rowIndex: number;
+  action: 'inserted' | 'updated' | 'skipped' | 'failed';
+  message?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Rows sent per bulk_upsert_members call */
+export const IMPORT_BATCH_SIZE = 500;
+
+// Postgres error classes caused by the data itself (22: data exception,
+// 23: integrity constraint violation); a batch failing with one is split
+// to find the offending rows, anything else aborts the import
+const ROW_LEVEL_ERROR_CLASSES = ['22', '23'];
+
+// =============================================================================
+// Sheets
+// =============================================================================
+
+/**
+ * Cut a sheet's cells into headers and data rows
+ * Blank headers are named after their column, blank rows are dropped.
+ */
+export function toSheetTable(
+  cells: ImportCellValue[][],
+  sheetName: string,
+  options: SheetTableOptions
+): SheetTable {
+  const headerIndex = Math.max(1, options.headerRow ?? 1) - 1;
+  const headerCells = cells[headerIndex] ?? [];
+  if (!headerCells.some((cell) => formatCellValue(cell).trim() !== '')) {
+    throw new Error(`Row ${headerIndex + 1} of ${sheetName} has no column headers`);
+  }
+
+  const rows = cells
+    .slice(headerIndex + 1 + Math.max(0, options.skipRows ?? 0))
+    .filter((row) => row && row.some((cell) => cell !== null && cell !== ''));
+
+  const width = rows.reduce((max, row) => Math.max(max, row.length), headerCells.length);
+  const headers = Array.from(
+    { length: width },
+    (_, i) => formatCellValue(headerCells[i]).trim() || `Column ${i + 1}`
+  );
+
+  return {
+    headers,
+    rows,
+    totalRows: rows.length,
+    sheetName,
+  };
+}
+
+// =============================================================================
+// Data Transformation
+// =============================================================================
+
+/**
+ * Transform a row into a member input based on mappings
+ */
+export function transformRowToMember(
+  row: ImportCellValue[],
+  headers: string[],
+  mappings: MemberImportMapping[],
+  config: MemberImportConfig
+): CreateMemberInput {
+  const member: CreateMemberInput = {
+    siteId: config.siteId,
+    membershipLevelId: config.defaultMembershipLevelId,
+    acquisitionSource: config.defaultAcquisitionSource,
+    tags: config.defaultTags || [],
+    membershipStatus: 'active' as MembershipStatus,
+  };
+
+  // Apply mappings
+  for (const mapping of mappings) {
+    if (mapping.targetField === 'skip') continue;
+
+    const columnIndex = headers.indexOf(mapping.sourceColumn);
+    if (columnIndex === -1) continue;
+
+    let value: unknown = row[columnIndex];
+
+    // Apply cleaning rules if any
+    if (mapping.transformRules && mapping.transformRules.length > 0) {
+      const rules = mapping.transformRules.map((r) => JSON.parse(r) as CleaningRule);
+      const result = applyColumnRules(value, rules);
+      if (result.skip) continue;
+      value = result.value;
+    }
+
+    // Type-specific transformations
+    switch (mapping.targetField) {
+      case 'email':
+        member.email = value ? String(value).toLowerCase().trim() : null;
+        break;
+      case 'phone':
+        member.phone = formatPhone(value);
+        break;
+      case 'dateOfBirth':
+      case 'membershipStartDate':
+      case 'membershipExpiryDate':
+      case 'acquisitionDate':
+        member[mapping.targetField] = parseDate(value);
+        break;
+      case 'acquisitionCost':
+        member.acquisitionCost = parseNumber(value);
+        break;
+      case 'membershipStatus':
+        member.membershipStatus = parseMembershipStatus(value);
+        break;
+      case 'acquisitionSource':
+        member.acquisitionSource = parseAcquisitionSource(value);
+        break;
+      case 'tags': {
+        const newTags = formatCellValue(value)
+          .split(',')
+          .map((t) => t.trim())
+          .filter(Boolean);
+        member.tags = [...(member.tags || []), ...newTags];
+        break;
+      }
+      default:
+        if (mapping.targetField in member) {
+          (member as unknown as Record<string, unknown>)[mapping.targetField] = value || null;
+        }
+    }
+  }
+
+  return member;
+}
+
+/**
+ * Format phone to E.164 format
+ */
+export function formatPhone(value: unknown): string | null {
+  if (!value) return null;
+  const digits = String(value).replace(/\D/g, '');
+  if (digits.length === 10) {
+    return `+1${digits}`;
+  }
+  if (digits.length === 11 && digits.startsWith('1')) {
+    return `+${digits}`;
+  }
+  return digits.length >= 10 ? `+${digits}` : null;
+}
+
+/**
+ * Parse date string to ISO format
+ */
+export function parseDate(value: unknown): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (isNaN(date.getTime())) return null;
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Time of day as HH:MM[:SS]; spreadsheet times arrive as dates
+ */
+export function parseTime(value: unknown): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(11, 19);
+  }
+  return value ? String(value).trim() : null;
+}
+
+/**
+ * Parse number from string
+ */
+export function parseNumber(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const num = parseFloat(String(value).replace(/[$,]/g, ''));
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * Parse membership status
+ */
+export function parseMembershipStatus(value: unknown): MembershipStatus {
+  if (!value) return 'active';
+  const str = String(value).toLowerCase().trim();
+  const statusMap: Record<string, MembershipStatus> = {
+    active: 'active',
+    expired: 'expired',
+    cancelled: 'cancelled',
+    canceled: 'cancelled',
+    suspended: 'suspended',
+    pending: 'pending',
+  };
+  return statusMap[str] || 'active';
+}
+
+/**
+ * Parse acquisition source
+ */
+export function parseAcquisitionSource(value: unknown): AcquisitionSource | null {
+  if (!value) return null;
+  const str = String(value).toLowerCase().trim().replace(/\s+/g, '_');
+  const sourceMap: Record<string, AcquisitionSource> = {
+    campaign: 'campaign',
+    promo_code: 'promo_code',
+    promo: 'promo_code',
+    referral: 'referral',
+    organic: 'organic',
+    import: 'import',
+    api: 'api',
+  };
+  return sourceMap[str] || 'import';
+}
+
+/**
+ * Transform member input to database row format
+ */
+export function transformMemberToDbRow(input: CreateMemberInput): Record<string, unknown> {
+  return {
+    site_id: input.siteId,
+    membership_level_id: input.membershipLevelId || null,
+    external_id: input.externalId || null,
+    first_name: input.firstName || null,
+    last_name: input.lastName || null,
+    email: input.email?.toLowerCase() || null,
+    phone: input.phone || null,
+    date_of_birth: input.dateOfBirth || null,
+    gender: input.gender || null,
+    address_line1: input.addressLine1 || null,
+    address_line2: input.addressLine2 || null,
+    city: input.city || null,
+    state: input.state || null,
+    postal_code: input.postalCode || null,
+    country: input.country || 'US',
+    membership_start_date: input.membershipStartDate || null,
+    membership_expiry_date: input.membershipExpiryDate || null,
+    membership_status: input.membershipStatus || 'active',
+    acquisition_source: input.acquisitionSource || 'import',
+    acquisition_campaign_id: input.acquisitionCampaignId || null,
+    acquisition_promo_code: input.acquisitionPromoCode || null,
+    acquisition_cost: input.acquisitionCost || null,
+    acquisition_date: input.acquisitionDate || new Date().toISOString().split('T')[0],
+    tags: input.tags || [],
+    custom_fields: input.customFields || {},
+    source_import_id: input.sourceImportId || null,
+  };
+}
+
+// =============================================================================
+// Batch Import
+// =============================================================================
+
+/**
+ * bulk_upsert_members arguments for an import: the site, duplicate matching,
+ * and the columns (with merge rules) an update may change
+ */
+export function toBulkUpsertArgs(
+  mappings: MemberImportMapping[],
+  config: MemberImportConfig
+): BulkUpsertArgs {
+  return {
+    p_site_id: config.siteId,
+    p_match_fields: config.matchFields,
+    p_duplicate_handling: config.duplicateHandling,
+    p_update_columns: getUpdateColumns(mappings, config),
+    p_merge_rules: Object.fromEntries(
+      Object.entries(config.mergeRules ?? {}).map(([field, rule]) => [toColumnName(field), rule])
+    ),
+  };
+}
+
+/**
+ * Import sheet rows as members of an import run
+ * Rows are validated and transformed locally, then upserted in batches;
+ * duplicate detection and merging run server-side. Counts and row errors
+ * are added to result as each batch completes, so a caller can record the
+ * rows already written when a batch throws.
+ */
+export async function importMemberRows(
+  data: Pick<SheetTable, 'headers' | 'rows'>,
+  mappings: MemberImportMapping[],
+  config: MemberImportConfig,
+  result: MemberImportResult & { importId: string },
+  upsert: UpsertMemberRows,
+  onBatch?: (processed: number) => void
+): Promise<void> {
+  for (let i = 0; i < data.rows.length; i += IMPORT_BATCH_SIZE) {
+    const batch: StagedMemberRow[] = [];
+
+    for (let j = i; j < Math.min(i + IMPORT_BATCH_SIZE, data.rows.length); j++) {
+      try {
+        // Transform row to member
+        const memberInput = transformRowToMember(data.rows[j], data.headers, mappings, config);
+        memberInput.sourceImportId = result.importId;
+
+        // Check for required fields
+        if (!memberInput.email && !memberInput.phone && !memberInput.externalId) {
+          result.errors.push({
+            row: j + 2, // +2 for 1-indexed and header row
+            field: 'email/phone/externalId',
+            message: 'At least one identifier (email, phone, or external ID) is required',
+          });
+          result.failed++;
+          continue;
+        }
+
+        batch.push({ rowIndex: j, dbRow: transformMemberToDbRow(memberInput) });
+      } catch (err) {
+        result.errors.push({
+          row: j + 2,
+          field: 'unknown',
+          message: err instanceof Error ? err.message : 'Unknown error',
+        });
+        result.failed++;
+      }
+    }
+
+    if (batch.length > 0) {
+      for (const outcome of await upsertMemberBatch(batch, upsert)) {
+        switch (outcome.action) {
+          case 'inserted':
+            result.imported++;
+            break;
+          case 'updated':
+            result.updated++;
+            break;
+          case 'skipped':
+            result.skipped++;
+            break;
+          case 'failed':
+            result.errors.push({
+              row: outcome.rowIndex + 2,
+              field: 'database',
+              message: outcome.message ?? 'Failed to import row',
+            });
+            result.failed++;
+        }
+      }
+    }
+
+    onBatch?.(Math.min(i + IMPORT_BATCH_SIZE, data.rows.length));
+  }
+}
+
+/**
+ * Upsert a batch of rows. When the batch fails because of a bad row it is
+ * split in half and retried, down to the single rows that fail.
+ */
+async function upsertMemberBatch(
+  batch: StagedMemberRow[],
+  upsert: UpsertMemberRows
+): Promise<BulkUpsertOutcome[]> {
+  const { data, error } = await upsert(
+    batch.map(({ rowIndex, dbRow }) => ({ row_index: rowIndex, ...dbRow }))
+  );
+
+  if (!error) {
+    return ((data ?? []) as Array<{ row_index: number; action: BulkUpsertOutcome['action'] }>).map(
+      (row) => ({ rowIndex: row.row_index, action: row.action })
+    );
+  }
+
+  if (!ROW_LEVEL_ERROR_CLASSES.some((errorClass) => error.code?.startsWith(errorClass))) {
+    throw new Error(`Failed to import members: ${error.message}`);
+  }
+
+  if (batch.length === 1) {
+    return [{ rowIndex: batch[0].rowIndex, action: 'failed', message: error.message }];
+  }
+
+  const middle = Math.ceil(batch.length / 2);
+  const first = await upsertMemberBatch(batch.slice(0, middle), upsert);
+  const second = await upsertMemberBatch(batch.slice(middle), upsert);
+  return [...first, ...second];
+}
+
+/**
+ * Columns an update may change: the mapped fields plus those filled from
+ * the import defaults. Unmapped columns of existing members are left alone.
+ */
+export function getUpdateColumns(
+  mappings: MemberImportMapping[],
+  config: MemberImportConfig
+): string[] {
+  const columns = new Set(
+    mappings
+      .filter((mapping) => mapping.targetField !== 'skip')
+      .map((mapping) => toColumnName(mapping.targetField))
+  );
+
+  if (config.defaultTags && config.defaultTags.length > 0) columns.add('tags');
+  if (config.defaultMembershipLevelId) columns.add('membership_level_id');
+
+  return [...columns];
+}
+
+function toColumnName(field: string): string {
+  return field.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`);
+}
@@ -0,0 +1,109 @@
+/**
+ * Message Access for Supabase Edge Functions
+ * Checks a user's request to send-sms / send-email: the message must be one
+ * of their organization's, addressed to the given recipient and member, so
+ * users can't send through the company's accounts to anyone else or change
+ * another organization's message rows. Internal calls (service role) are
+ * not checked.
+ */
+
+import { getUserOrganizationId } from './supabase.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Message rows users may send: campaign messages and conversation replies */
+export type UserMessageSource = 'campaign' | 'conversation';
+
+export interface UserSendRequest {
+  userId: string;
+  source: string;
+  messageId: string;
+  memberId?: string;
+  to: string;
+}
+
+/** Why a send is refused, as an HTTP error */
+export interface SendAccessError {
+  message: string;
+  status: number;
+  code: string;
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+/**
+ * Check that a user may send a message. Returns null when they may, or the
+ * error to respond with.
+ */
+export async function checkUserSend(
+  supabase: SupabaseClient,
+  request: UserSendRequest
+): Promise<SendAccessError | null> {
+  const organizationId = await getUserOrganizationId(supabase, request.userId);
+  if (!organizationId) {
+    return { message: 'Not allowed to send messages', status: 403, code: 'FORBIDDEN' };
+  }
+
+  if (request.source !== 'campaign' && request.source !== 'conversation') {
+    return { message: `Users cannot send ${request.source} messages`, status: 403, code: 'FORBIDDEN' };
+  }
+
+  // The consent check needs the member
+  if (!request.memberId) {
+    return { message: 'Missing required field: memberId', status: 400, code: 'ERROR' };
+  }
+
+  const { data: member } = await supabase
+    .from('members')
+    .select('id')
+    .eq('id', request.memberId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  const message = member
+    ? await getOrganizationMessage(supabase, organizationId, request.source, request.messageId)
+    : null;
+
+  if (!message || message.memberId !== request.memberId || message.recipient !== request.to) {
+    return { message: 'Message not found', status: 404, code: 'NOT_FOUND' };
+  }
+
+  return null;
+}
+
+/**
+ * The member and recipient of an organization's message, or null when the
+ * message is not one of the organization's
+ */
+async function getOrganizationMessage(
+  supabase: SupabaseClient,
+  organizationId: string,
+  source: UserMessageSource,
+  messageId: string
+): Promise<{ memberId: string; recipient: string } | null> {
+  if (source === 'campaign') {
+    const { data } = await supabase
+      .from('campaign_messages')
+      .select('member_id, recipient_address, campaigns!inner(organization_id)')
+      .eq('id', messageId)
+      .eq('campaigns.organization_id', organizationId)
+      .maybeSingle();
+
+    return data ? { memberId: data.member_id, recipient: data.recipient_address } : null;
+  }
+
+  const { data } = await supabase
+    .from('sms_conversation_messages')
+    .select('member_id, phone')
+    .eq('id', messageId)
+    .eq('organization_id', organizationId)
+    .eq('direction', 'outbound')
+    .maybeSingle();
+
+  return data ? { memberId: data.member_id, recipient: data.phone } : null;
+}
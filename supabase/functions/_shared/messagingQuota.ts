@@ -0,0 +1,55 @@
+/**
+ * Monthly Messaging Quota for Supabase Edge Functions
+ * Used by send-sms and send-email: a message's units (SMS segments, or one
+ * email) are taken from the month's quota before it goes to the provider and
+ * given back if the provider rejects it, so concurrent sends can never
+ * overshoot monthly_sms_limit / monthly_email_limit.
+ */
+
+import type { MessagingChannel } from './messagingUsage.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * Take units from the current month's quota. Returns the month they were
+ * counted in, or null when they would exceed the monthly limit.
+ *
+ * @param allowOverLimit - Count the units even past the limit (admin override)
+ */
+export async function consumeMessagingQuota(
+  supabase: SupabaseClient,
+  channel: MessagingChannel,
+  units: number,
+  allowOverLimit = false
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('consume_messaging_quota', {
+    p_channel: channel,
+    p_units: units,
+    p_allow_over_limit: allowOverLimit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to check the monthly ${channel} limit: ${error.message}`);
+  }
+
+  return (data as string | null) ?? null;
+}
+
+/**
+ * Give back units taken for a message the provider did not accept
+ */
+export async function releaseMessagingQuota(
+  supabase: SupabaseClient,
+  channel: MessagingChannel,
+  periodStart: string,
+  units: number
+): Promise<void> {
+  const { error } = await supabase.rpc('release_messaging_quota', {
+    p_channel: channel,
+    p_period_start: periodStart,
+    p_units: units,
+  });
+
+  if (error) {
+    console.error(`Failed to release ${channel} quota:`, error);
+  }
+}
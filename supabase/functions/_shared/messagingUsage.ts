@@ -0,0 +1,121 @@
+/**
+ * Messaging Usage
+ *
+ * SMS segment math and monthly quota estimates, shared by the send
+ * functions, process-campaign and the app (re-exported from
+ * src/utils/messagingUsage.ts) so every place counts a message the same way.
+ *
+ * Usage is counted in units per channel and calendar month: SMS segments for
+ * SMS and messages for email. The monthly limits are app_settings'
+ * monthly_sms_limit and monthly_email_limit (0 = unlimited).
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type MessagingChannel = 'sms' | 'email';
+
+/** One channel's usage for the current month (get_messaging_usage) */
+export interface MessagingUsage {
+  channel: MessagingChannel;
+  /** First day of the month (YYYY-MM-DD) in the app timezone */
+  periodStart: string;
+  messagesSent: number;
+  /** SMS segments, or emails */
+  unitsUsed: number;
+  /** null = unlimited */
+  monthlyLimit: number | null;
+  /** null = unlimited */
+  remaining: number | null;
+}
+
+export interface UsageEstimate {
+  channel: MessagingChannel;
+  recipients: number;
+  /** Units one message uses (the longest variant for SMS) */
+  unitsPerMessage: number;
+  units: number;
+  /** Units left this month before the campaign (null = unlimited) */
+  remaining: number | null;
+  exceedsLimit: boolean;
+}
+
+// =============================================================================
+// SMS Segments
+// =============================================================================
+
+export const SMS_SEGMENT_SIZE = 160;
+export const SMS_UNICODE_SEGMENT_SIZE = 70;
+
+// Multi-part messages have overhead for concatenation headers
+export const SMS_MULTIPART_SEGMENT_SIZE = 153;
+export const SMS_UNICODE_MULTIPART_SEGMENT_SIZE = 67;
+
+// GSM 7-bit character set
+const GSM_7BIT = /^[@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞ !"#¤%&'()*+,\-./0-9:;<=>?¡A-ZÄÖÑÜa-zäöñüà]*$/;
+
+/**
+ * Check if content contains Unicode characters that require UCS-2 encoding
+ */
+export function containsUnicode(text: string): boolean {
+  return !GSM_7BIT.test(text);
+}
+
+/**
+ * Calculate SMS segment count (0 for an empty message)
+ */
+export function calculateSegmentCount(text: string): number {
+  if (!text) return 0;
+
+  const isUnicode = containsUnicode(text);
+  const segmentSize = isUnicode ? SMS_UNICODE_SEGMENT_SIZE : SMS_SEGMENT_SIZE;
+
+  if (text.length <= segmentSize) {
+    return 1;
+  }
+
+  const multipartSegmentSize = isUnicode
+    ? SMS_UNICODE_MULTIPART_SEGMENT_SIZE
+    : SMS_MULTIPART_SEGMENT_SIZE;
+  return Math.ceil(text.length / multipartSegmentSize);
+}
+
+// =============================================================================
+// Usage
+// =============================================================================
+
+/**
+ * Units a message uses: its segments for SMS, one per email
+ */
+export function countMessageUnits(channel: MessagingChannel, content: string): number {
+  return channel === 'sms' ? calculateSegmentCount(content) : 1;
+}
+
+/**
+ * Estimate the units a campaign will use against the month's remaining
+ * quota (null = unlimited). Every recipient is counted at the longest
+ * content (the campaign and its variants); template variables count at
+ * their written length.
+ */
+export function estimateCampaignUsage(
+  channel: MessagingChannel,
+  recipients: number,
+  contents: Array<string | null | undefined>,
+  remaining: number | null = null
+): UsageEstimate {
+  const unitsPerMessage = Math.max(
+    1,
+    ...contents.map((content) => countMessageUnits(channel, content ?? ''))
+  );
+  const units = recipients * unitsPerMessage;
+
+  return {
+    channel,
+    recipients,
+    unitsPerMessage,
+    units,
+    remaining,
+    exceedsLimit: remaining !== null && units > remaining,
+  };
+}
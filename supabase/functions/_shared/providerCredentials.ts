@@ -0,0 +1,125 @@
+/**
+ * Provider Credentials for Supabase Edge Functions
+ * Resolves the Twilio and SendGrid credentials admins enter in the Settings
+ * page (app_settings, secrets decrypted from Vault by
+ * get_provider_credentials), falling back field by field to the TWILIO_* /
+ * SENDGRID_* environment variables.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TwilioCredentials {
+  accountSid: string;
+  authToken: string;
+  phoneNumber: string;
+}
+
+export interface SendGridCredentials {
+  apiKey: string;
+  fromEmail: string;
+  fromName: string;
+}
+
+export interface ProviderCredentials {
+  /** null until the account SID, auth token and phone number are all set */
+  twilio: TwilioCredentials | null;
+  /** null until the API key and from email are both set */
+  sendgrid: SendGridCredentials | null;
+}
+
+interface ProviderCredentialsRow {
+  twilio_account_sid: string | null;
+  twilio_auth_token: string | null;
+  twilio_phone_number: string | null;
+  sendgrid_api_key: string | null;
+  sendgrid_from_email: string | null;
+  sendgrid_from_name: string | null;
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+const DEFAULT_FROM_NAME = 'Project Gimbal';
+
+// Campaign sends call send-sms / send-email once per message, so a warm
+// instance reuses the lookup briefly; settings changes apply within this time
+const CACHE_TTL_MS = 30_000;
+
+let cached: { settings: ProviderCredentialsRow; expiresAt: number } | null = null;
+
+function setting(value: string | null | undefined, envName: string): string | null {
+  return value?.trim() || Deno.env.get(envName) || null;
+}
+
+/**
+ * Load every credential field, each from app_settings or else the environment
+ */
+async function loadSettings(
+  supabase: SupabaseClient,
+  fresh: boolean
+): Promise<ProviderCredentialsRow> {
+  if (!fresh && cached && cached.expiresAt > Date.now()) {
+    return cached.settings;
+  }
+
+  const { data, error } = await supabase.rpc('get_provider_credentials');
+
+  if (error) {
+    throw new Error(`Failed to load provider credentials: ${error.message}`);
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as ProviderCredentialsRow | null;
+
+  const settings: ProviderCredentialsRow = {
+    twilio_account_sid: setting(row?.twilio_account_sid, 'TWILIO_ACCOUNT_SID'),
+    twilio_auth_token: setting(row?.twilio_auth_token, 'TWILIO_AUTH_TOKEN'),
+    twilio_phone_number: setting(row?.twilio_phone_number, 'TWILIO_PHONE_NUMBER'),
+    sendgrid_api_key: setting(row?.sendgrid_api_key, 'SENDGRID_API_KEY'),
+    sendgrid_from_email: setting(row?.sendgrid_from_email, 'SENDGRID_FROM_EMAIL'),
+    sendgrid_from_name: setting(row?.sendgrid_from_name, 'SENDGRID_FROM_NAME'),
+  };
+
+  cached = { settings, expiresAt: Date.now() + CACHE_TTL_MS };
+  return settings;
+}
+
+/**
+ * Get the provider credentials, preferring app_settings over the environment
+ *
+ * @param fresh - Skip the cache (e.g. to verify credentials just saved)
+ */
+export async function getProviderCredentials(
+  supabase: SupabaseClient,
+  fresh = false
+): Promise<ProviderCredentials> {
+  const settings = await loadSettings(supabase, fresh);
+  const accountSid = settings.twilio_account_sid;
+  const authToken = settings.twilio_auth_token;
+  const phoneNumber = settings.twilio_phone_number;
+  const apiKey = settings.sendgrid_api_key;
+  const fromEmail = settings.sendgrid_from_email;
+
+  return {
+    twilio:
+      accountSid && authToken && phoneNumber
+        ? { accountSid, authToken, phoneNumber }
+        : null,
+    sendgrid:
+      apiKey && fromEmail
+        ? { apiKey, fromEmail, fromName: settings.sendgrid_from_name || DEFAULT_FROM_NAME }
+        : null,
+  };
+}
+
+/**
+ * Get the Twilio auth token on its own (webhook signatures need no SID or
+ * phone number)
+ */
+export async function getTwilioAuthToken(supabase: SupabaseClient): Promise<string | null> {
+  return (await loadSettings(supabase, false)).twilio_auth_token;
+}
@@ -0,0 +1,295 @@
+/**
+ * REST API Helpers
+ * Authentication, pagination, JSONPath extraction and row flattening for
+ * rest_api data sources. Shared by the client (config types, previews of
+ * response paths) and the rest-connector Edge Function, so this file must
+ * not import anything runtime-specific.
+ */
+
+import type { ConnectorErrorCode } from './connectorError.ts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type RestAuthType = 'none' | 'api_key' | 'bearer';
+
+export interface RestAuthConfig {
+  type: RestAuthType;
+  /** api_key: header the key is sent in (default X-API-Key) */
+  header_name?: string;
+  /** api_key: send the key as this query parameter instead of a header */
+  query_param?: string;
+}
+
+export type RestPaginationType = 'none' | 'cursor' | 'offset' | 'link_header';
+
+export interface RestPaginationConfig {
+  type: RestPaginationType;
+  /** cursor: JSONPath of the next cursor in each response */
+  cursor_path?: string;
+  /** cursor: query parameter the cursor is sent as (default cursor) */
+  cursor_param?: string;
+  /** offset: query parameter for the offset (default offset) */
+  offset_param?: string;
+  /** offset: query parameter for the page size (default limit) */
+  limit_param?: string;
+  /** offset: records per page (default 100) */
+  page_size?: number;
+  /** Stop after this many pages (default 100) */
+  max_pages?: number;
+}
+
+export interface RestCredentials {
+  api_key?: string;
+  base_url?: string;
+}
+
+export const DEFAULT_API_KEY_HEADER = 'X-API-Key';
+export const DEFAULT_PAGE_SIZE = 100;
+export const DEFAULT_MAX_PAGES = 100;
+export const MAX_RETRY_DELAY_MS = 60_000;
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+/**
+ * Resolve the endpoint against the credentials' base URL (absolute
+ * endpoints are used as is) and set query parameters
+ */
+export function buildRequestUrl(
+  endpoint: string,
+  baseUrl?: string,
+  params: Record<string, string | number> = {}
+): URL {
+  let url: URL;
+  try {
+    url = baseUrl
+      ? new URL(endpoint.replace(/^\//, ''), baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`)
+      : new URL(endpoint);
+  } catch {
+    throw new Error(`Invalid endpoint URL: ${baseUrl ?? ''}${endpoint}`);
+  }
+
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, String(value));
+  }
+  return url;
+}
+
+/**
+ * Add the API key or bearer token to a request. Returns the URL and headers
+ * to send; the inputs are not modified.
+ */
+export function applyAuth(
+  url: URL,
+  headers: Record<string, string>,
+  credentials: RestCredentials,
+  auth: RestAuthConfig = { type: 'none' }
+): { url: URL; headers: Record<string, string> } {
+  const nextUrl = new URL(url);
+  const nextHeaders = { ...headers };
+  const key = credentials.api_key;
+
+  if (auth.type !== 'none' && !key) {
+    throw new Error('An API key is required for this authentication type');
+  }
+
+  if (auth.type === 'bearer') {
+    nextHeaders.Authorization = `Bearer ${key}`;
+  } else if (auth.type === 'api_key') {
+    if (auth.query_param) {
+      nextUrl.searchParams.set(auth.query_param, key!);
+    } else {
+      nextHeaders[auth.header_name || DEFAULT_API_KEY_HEADER] = key!;
+    }
+  }
+
+  return { url: nextUrl, headers: nextHeaders };
+}
+
+/**
+ * Parse an RFC 8288 Link header into URLs by relation
+ * '<https://api/x?page=2>; rel="next", <...>; rel="last"' -> { next, last }
+ */
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+
+  for (const part of header.split(/,(?=\s*<)/)) {
+    const match = /<([^>]*)>((?:\s*;\s*[^;]+)*)/.exec(part.trim());
+    if (!match) continue;
+
+    const rel = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(match[2]);
+    if (!rel) continue;
+
+    for (const name of rel[1].trim().split(/\s+/)) {
+      links[name.toLowerCase()] = match[1];
+    }
+  }
+  return links;
+}
+
+// =============================================================================
+// Rate Limits & Errors
+// =============================================================================
+
+/**
+ * How long to wait before retry `attempt` (0-based) of a rate-limited
+ * request: the Retry-After header (seconds or an HTTP date) when present,
+ * otherwise exponential backoff from one second, capped at a minute
+ */
+export function retryDelayMs(attempt: number, retryAfter: string | null, now = Date.now()): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return Math.min(seconds * 1000, MAX_RETRY_DELAY_MS);
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.min(Math.max(0, date - now), MAX_RETRY_DELAY_MS);
+    }
+  }
+
+  return Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Map an HTTP error status to a DataImportErrorCode
+ */
+export function classifyHttpStatus(status: number): ConnectorErrorCode {
+  if (status === 401) return 'AUTH_EXPIRED';
+  if (status === 403) return 'PERMISSION_DENIED';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 408 || status === 504) return 'TIMEOUT';
+  if (status === 400 || status === 404 || status === 405 || status === 422) return 'VALIDATION_FAILED';
+  return 'CONNECTION_FAILED';
+}
+
+// =============================================================================
+// JSONPath
+// =============================================================================
+
+type PathSegment = string | number | '*';
+
+/**
+ * Split a JSONPath ($.data.items, data.items[0], $['a b'][*]) into keys,
+ * indexes and wildcards
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  const source = path.trim().replace(/^\$/, '');
+  const token = /\.?([^.[\]]+)|\[\s*(\*|-?\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\s*\]/g;
+
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(source)) !== null) {
+    if (match.index !== position) break;
+    position = token.lastIndex;
+
+    if (match[1] !== undefined) {
+      segments.push(match[1] === '*' ? '*' : match[1]);
+    } else if (match[2] === '*') {
+      segments.push('*');
+    } else if (/^-?\d+$/.test(match[2])) {
+      segments.push(Number(match[2]));
+    } else {
+      segments.push(match[2].slice(1, -1).replace(/\\(.)/g, '$1'));
+    }
+  }
+
+  if (position !== source.length) {
+    throw new Error(`Invalid JSONPath: ${path}`);
+  }
+  return segments;
+}
+
+/**
+ * Read a value by JSONPath. A wildcard collects the values of every array
+ * item (or object property), flattening one level per wildcard. Missing
+ * keys give undefined.
+ */
+export function extractJsonPath(data: unknown, path?: string): unknown {
+  if (!path || path.trim() === '$') return data;
+
+  let values: unknown[] = [data];
+  let collected = false;
+
+  for (const segment of parseJsonPath(path)) {
+    const next: unknown[] = [];
+    for (const value of values) {
+      if (segment === '*') {
+        if (Array.isArray(value)) next.push(...value);
+        else if (value && typeof value === 'object') next.push(...Object.values(value));
+      } else if (typeof segment === 'number') {
+        if (Array.isArray(value)) {
+          const item = value[segment < 0 ? value.length + segment : segment];
+          if (item !== undefined) next.push(item);
+        }
+      } else if (value && typeof value === 'object' && segment in value) {
+        next.push((value as Record<string, unknown>)[segment]);
+      }
+    }
+    values = next;
+    collected = collected || segment === '*';
+  }
+
+  return collected ? values : values[0];
+}
+
+/**
+ * The records of a response: the array at response_path (or the whole
+ * response). A single object is one record.
+ */
+export function extractRecords(data: unknown, path?: string): Record<string, unknown>[] {
+  const value = extractJsonPath(data, path);
+
+  if (value === undefined || value === null) {
+    if (path) throw new Error(`Nothing found at response path ${path}`);
+    return [];
+  }
+
+  const items = Array.isArray(value) ? value : [value];
+  return items.map((item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? (item as Record<string, unknown>)
+      : { value: item }
+  );
+}
+
+// =============================================================================
+// Flattening
+// =============================================================================
+
+/**
+ * Flatten nested objects into columns named by their path
+ * { address: { city: 'X' } } -> { 'address.city': 'X' }
+ * Arrays are kept as JSON text; empty objects become null.
+ */
+export function flattenRecord(
+  record: Record<string, unknown>,
+  separator = '.',
+  prefix = ''
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    const column = prefix ? `${prefix}${separator}${key}` : key;
+
+    if (Array.isArray(value)) {
+      result[column] = JSON.stringify(value);
+    } else if (value && typeof value === 'object') {
+      if (Object.keys(value).length === 0) {
+        result[column] = null;
+      } else {
+        Object.assign(result, flattenRecord(value as Record<string, unknown>, separator, column));
+      }
+    } else {
+      result[column] = value ?? null;
+    }
+  }
+
+  return result;
+}
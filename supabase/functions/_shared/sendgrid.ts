@@ -0,0 +1,123 @@
+/**
+ * SendGrid API for Supabase Edge Functions
+ * Used by send-email and verify-provider. Failures throw an Error carrying
+ * SendGrid's own error messages (e.g. "SendGrid error 401: The provided
+ * authorization grant is invalid, expired, or revoked") so admins see why a
+ * send or credential check failed.
+ */
+
+import type { SendGridCredentials } from './providerCredentials.ts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SendGridEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  /** One-click List-Unsubscribe URL */
+  unsubscribeUrl?: string;
+  /** Echoed back on every webhook event for this email */
+  customArgs?: Record<string, string>;
+}
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+const SENDGRID_API_URL = 'https://api.sendgrid.com/v3';
+
+async function sendGridRequest(
+  credentials: SendGridCredentials,
+  path: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const response = await fetch(`${SENDGRID_API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${credentials.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    let message = body;
+    try {
+      const errors: Array<{ message: string }> = JSON.parse(body).errors ?? [];
+      message = errors.map((error) => error.message).join('; ') || body;
+    } catch {
+      // Not JSON; report the body as is
+    }
+    throw new Error(`SendGrid error ${response.status}: ${message}`);
+  }
+
+  return response;
+}
+
+// =============================================================================
+// Mail
+// =============================================================================
+
+/**
+ * Send an email from the configured sender. Returns SendGrid's message id.
+ */
+export async function sendSendGridEmail(
+  credentials: SendGridCredentials,
+  email: SendGridEmail
+): Promise<string> {
+  const payload: Record<string, unknown> = {
+    personalizations: [
+      {
+        to: [{ email: email.to }],
+        ...(email.customArgs ? { custom_args: email.customArgs } : {}),
+      },
+    ],
+    from: {
+      email: credentials.fromEmail,
+      name: credentials.fromName,
+    },
+    subject: email.subject,
+    content: [
+      ...(email.text ? [{ type: 'text/plain', value: email.text }] : []),
+      { type: 'text/html', value: email.html },
+    ],
+    tracking_settings: {
+      click_tracking: { enable: true },
+      open_tracking: { enable: true },
+    },
+  };
+
+  // One-click unsubscribe headers (RFC 8058, required by Gmail/Yahoo for bulk mail)
+  if (email.unsubscribeUrl) {
+    payload.headers = {
+      'List-Unsubscribe': `<${email.unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+  }
+
+  const response = await sendGridRequest(credentials, '/mail/send', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+
+  return response.headers.get('X-Message-Id') || '';
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Check that the API key is valid and allowed to send mail
+ */
+export async function verifySendGridCredentials(credentials: SendGridCredentials): Promise<void> {
+  const response = await sendGridRequest(credentials, '/scopes');
+  const { scopes = [] }: { scopes?: string[] } = await response.json();
+
+  if (!scopes.includes('mail.send')) {
+    throw new Error('SendGrid error: the API key does not have the Mail Send permission');
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * SMS Keyword Handling for Supabase Edge Functions
+ * Carrier-standard opt-out / opt-in / help keywords (CTIA, TCPA)
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SmsKeywordAction = 'opt_out' | 'opt_in' | 'help';
+
+// =============================================================================
+// Keyword Sets
+// =============================================================================
+
+export const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+export const OPT_IN_KEYWORDS = ['START', 'UNSTOP'];
+export const HELP_KEYWORDS = ['HELP'];
+
+/**
+ * Classifies an inbound message body as a keyword action.
+ * Matching is case-insensitive and ignores surrounding whitespace and
+ * trailing punctuation ("Stop." and " stop " both opt out), but the keyword
+ * must be the entire message so "don't stop" is not treated as an opt-out.
+ */
+export function classifySmsKeyword(body: string): SmsKeywordAction | null {
+  const normalized = body
+    .trim()
+    .replace(/[.!?]+$/, '')
+    .trim()
+    .toUpperCase();
+
+  if (OPT_OUT_KEYWORDS.includes(normalized)) return 'opt_out';
+  if (OPT_IN_KEYWORDS.includes(normalized)) return 'opt_in';
+  if (HELP_KEYWORDS.includes(normalized)) return 'help';
+
+  return null;
+}
+
+// =============================================================================
+// Confirmation Replies
+// =============================================================================
+
+/**
+ * Builds the confirmation reply required for a keyword action
+ */
+export function buildKeywordReply(
+  action: SmsKeywordAction,
+  companyName: string,
+  helpContact?: string
+): string {
+  switch (action) {
+    case 'opt_out':
+      return `${companyName}: You have been unsubscribed and will receive no further messages. Reply START to resubscribe.`;
+    case 'opt_in':
+      return `${companyName}: You have been resubscribed to text messages. Msg & data rates may apply. Reply HELP for help, STOP to unsubscribe.`;
+    case 'help':
+      return `${companyName}: ${helpContact ? `For help contact ${helpContact}. ` : ''}Msg & data rates may apply. Reply STOP to unsubscribe.`;
+  }
+}
+
+// =============================================================================
+// TwiML
+// =============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Creates a TwiML response, optionally replying to the sender
+ * @see https://www.twilio.com/docs/messaging/twiml
+ */
+export function twimlResponse(message?: string): Response {
+  const body = message
+    ? `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(message)}</Message></Response>`
+    : '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'text/xml' },
+  });
+}
@@ -0,0 +1,324 @@
+/**
+ * SQL Query Helpers
+ * Read-only checks for custom queries, dialect-aware SELECT building and
+ * driver error classification for the database connectors. Shared by the
+ * client (query validation in forms) and the database-connector Edge
+ * Function, so this file must not import anything runtime-specific.
+ */
+
+import type { ConnectorErrorCode } from './connectorError.ts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SqlDialect = 'postgres' | 'mysql' | 'mssql';
+
+export interface ReadOnlyQueryResult {
+  valid: boolean;
+  /** The query without surrounding whitespace and its trailing semicolon */
+  query: string;
+  error?: string;
+}
+
+/** What to read: a table (optionally schema-qualified) or a custom query */
+export type QuerySource = { table: string } | { query: string };
+
+export interface SelectQueryOptions {
+  source: QuerySource;
+  /** Only rows where this column is greater than `after` are read */
+  incrementalColumn?: string;
+  after?: string | null;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SqlStatement {
+  text: string;
+  params: unknown[];
+}
+
+/** The fields drivers put on their errors, normalized by the connector */
+export interface DatabaseErrorInfo {
+  /** SQLSTATE (Postgres) or a driver code such as ER_NO_SUCH_TABLE or ELOGIN */
+  code?: string;
+  /** MySQL errno or SQL Server error number */
+  number?: number;
+  /** Error class name, e.g. Deno's ConnectionRefused */
+  name?: string;
+  message?: string;
+}
+
+// =============================================================================
+// Read-only Queries
+// =============================================================================
+
+const STATEMENT_START_REGEX = /^\(*\s*(SELECT|WITH)\b/i;
+
+// Statements (or clauses) that write, change schema or reach outside the query
+const FORBIDDEN_KEYWORDS = [
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'TRUNCATE',
+  'DROP', 'ALTER', 'CREATE', 'RENAME', 'GRANT', 'REVOKE',
+  'EXEC', 'EXECUTE', 'CALL', 'DO', 'COPY', 'LOCK', 'INTO',
+  'OUTFILE', 'DUMPFILE', 'OPENROWSET', 'OPENQUERY', 'OPENDATASOURCE',
+];
+
+const FORBIDDEN_REGEX = new RegExp(`\\b(${FORBIDDEN_KEYWORDS.join('|')})\\b`, 'i');
+
+// Comments, string literals and quoted identifiers, by dialect. MySQL strings
+// take backslash escapes, `--` needs a following space there and /*! */
+// comments are executed, so those are left in place.
+const LITERAL_PATTERNS: Record<SqlDialect, RegExp> = {
+  postgres: /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|'(?:[^']|'')*'?|"(?:[^"]|"")*"?/g,
+  mysql:
+    /--(?=\s|$)[^\n]*|#[^\n]*|\/\*(?!!)[\s\S]*?(?:\*\/|$)|'(?:[^'\\]|\\[\s\S]|'')*'?|"(?:[^"\\]|\\[\s\S]|"")*"?|`(?:[^`]|``)*`?/g,
+  mssql: /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|'(?:[^']|'')*'?|"(?:[^"]|"")*"?|\[(?:[^\]]|\]\])*\]?/g,
+};
+
+const DIALECTS: SqlDialect[] = ['postgres', 'mysql', 'mssql'];
+
+/**
+ * Replace comments, string literals and quoted identifiers with blanks so
+ * keywords inside them are not mistaken for statements
+ */
+function maskLiterals(sql: string, dialect: SqlDialect): string {
+  return sql.replace(LITERAL_PATTERNS[dialect], (match) =>
+    match.startsWith('-') || match.startsWith('#') || match.startsWith('/') ? ' ' : "''"
+  );
+}
+
+function checkStatement(query: string, dialect: SqlDialect): string | null {
+  const masked = maskLiterals(query, dialect).trim();
+
+  if (!masked) return 'Query is empty';
+  if (masked.includes(';')) return 'Only a single statement is allowed';
+  if (!STATEMENT_START_REGEX.test(masked)) return 'Only SELECT queries are allowed';
+
+  const forbidden = FORBIDDEN_REGEX.exec(masked);
+  if (forbidden) {
+    return `Queries must be read-only: ${forbidden[1].toUpperCase()} is not allowed`;
+  }
+
+  return null;
+}
+
+/**
+ * Check that a custom query is a single SELECT (or WITH ... SELECT)
+ * statement. Without a dialect the query must pass under the quoting rules
+ * of every supported database. Connectors also open read-only sessions where
+ * the database supports them; this check gives an early, readable error and
+ * covers databases that do not.
+ */
+export function validateReadOnlyQuery(sql: string, dialect?: SqlDialect): ReadOnlyQueryResult {
+  const query = sql.trim().replace(/;\s*$/, '').trim();
+
+  for (const candidate of dialect ? [dialect] : DIALECTS) {
+    const error = checkStatement(query, candidate);
+    if (error) return { valid: false, query, error };
+  }
+
+  return { valid: true, query };
+}
+
+// =============================================================================
+// Query Building
+// =============================================================================
+
+/**
+ * Quote an identifier for the dialect. Dotted names (schema.table) are
+ * quoted part by part.
+ */
+export function quoteIdentifier(dialect: SqlDialect, name: string): string {
+  return name
+    .split('.')
+    .map((part) => part.trim())
+    .map((part) => {
+      if (!part) throw new Error(`Invalid identifier: ${name}`);
+      if (dialect === 'mysql') return `\`${part.replace(/`/g, '``')}\``;
+      if (dialect === 'mssql') return `[${part.replace(/]/g, ']]')}]`;
+      return `"${part.replace(/"/g, '""')}"`;
+    })
+    .join('.');
+}
+
+function placeholder(dialect: SqlDialect, index: number): string {
+  if (dialect === 'mysql') return '?';
+  if (dialect === 'mssql') return `@p${index}`;
+  return `$${index}`;
+}
+
+/**
+ * Build the SELECT a connector runs for a table or custom query.
+ * Custom queries are wrapped as a subquery so the incremental filter and
+ * paging apply to their result. Pages are ordered by the incremental column,
+ * or by the first column when there is none. SQL Server does not allow
+ * WITH inside a subquery, so its custom queries must start with SELECT.
+ */
+export function buildSelectQuery(dialect: SqlDialect, options: SelectQueryOptions): SqlStatement {
+  const params: unknown[] = [];
+  let text: string;
+
+  if ('table' in options.source) {
+    text = `SELECT * FROM ${quoteIdentifier(dialect, options.source.table)}`;
+  } else {
+    const { valid, query, error } = validateReadOnlyQuery(options.source.query, dialect);
+    if (!valid) throw new Error(error);
+    if (dialect === 'mssql' && /^\(*\s*WITH\b/i.test(maskLiterals(query, dialect).trim())) {
+      throw new Error('SQL Server custom queries must start with SELECT');
+    }
+    text = `SELECT * FROM (${query}) AS source_query`;
+  }
+
+  const column = options.incrementalColumn
+    ? quoteIdentifier(dialect, options.incrementalColumn)
+    : null;
+
+  if (column && options.after != null) {
+    params.push(options.after);
+    text += ` WHERE ${column} > ${placeholder(dialect, params.length)}`;
+  }
+
+  const paged = options.limit !== undefined || options.offset !== undefined;
+  if (column || paged) {
+    text += ` ORDER BY ${column ?? '1'}`;
+  }
+
+  if (paged) {
+    const limit = Math.max(0, Math.floor(options.limit ?? 0));
+    const offset = Math.max(0, Math.floor(options.offset ?? 0));
+    text +=
+      dialect === 'mssql'
+        ? ` OFFSET ${offset} ROWS FETCH NEXT ${limit} ROWS ONLY`
+        : ` LIMIT ${limit} OFFSET ${offset}`;
+  }
+
+  return { text, params };
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Convert a driver value to something JSON can carry: dates become ISO
+ * strings, big integers numbers (or strings when too large) and binary
+ * data base64
+ */
+export function toJsonValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  if (typeof value === 'bigint') {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+      ? Number(value)
+      : value.toString();
+  }
+  if (value instanceof Uint8Array) {
+    let binary = '';
+    for (const byte of value) binary += String.fromCharCode(byte);
+    return btoa(binary);
+  }
+  return value;
+}
+
+/**
+ * Format an incremental column value for data_sources.last_sync_value.
+ * Dates use 'YYYY-MM-DD HH:MM:SS.mmm' in UTC, which all three databases
+ * compare against date and timestamp columns.
+ */
+export function formatSyncValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null;
+    return (
+      `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())} ` +
+      `${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}:${pad(value.getUTCSeconds())}.` +
+      pad(value.getUTCMilliseconds(), 3)
+    );
+  }
+  return String(value);
+}
+
+// =============================================================================
+// Error Classification
+// =============================================================================
+
+const CONNECTION_CODES = [
+  'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH',
+  'EAI_AGAIN', 'ELOGIN', 'ESOCKET', 'ECONNCLOSED', 'EINSTLOOKUP', 'ETLS',
+  'ER_ACCESS_DENIED_ERROR', 'ER_BAD_DB_ERROR', 'ER_CON_COUNT_ERROR',
+];
+const CONNECTION_NAMES = ['ConnectionRefused', 'ConnectionReset', 'ConnectionAborted', 'AddrNotAvailable'];
+const TIMEOUT_CODES = ['ETIMEOUT', 'ETIMEDOUT', 'PROTOCOL_SEQUENCE_TIMEOUT', 'ER_QUERY_TIMEOUT'];
+
+// MySQL errno
+const MYSQL_ERRORS: Record<number, ConnectorErrorCode> = {
+  1040: 'CONNECTION_FAILED', // too many connections
+  1044: 'CONNECTION_FAILED', // access denied to database
+  1045: 'CONNECTION_FAILED', // access denied for user
+  1049: 'CONNECTION_FAILED', // unknown database
+  2002: 'CONNECTION_FAILED',
+  2003: 'CONNECTION_FAILED',
+  2005: 'CONNECTION_FAILED',
+  2013: 'CONNECTION_FAILED', // lost connection during query
+  1142: 'PERMISSION_DENIED',
+  1143: 'PERMISSION_DENIED',
+  1146: 'TABLE_NOT_FOUND',
+  1054: 'COLUMN_NOT_FOUND',
+  3024: 'TIMEOUT',
+};
+
+// SQL Server error numbers
+const MSSQL_ERRORS: Record<number, ConnectorErrorCode> = {
+  18456: 'CONNECTION_FAILED', // login failed
+  4060: 'CONNECTION_FAILED', // cannot open database
+  229: 'PERMISSION_DENIED',
+  230: 'PERMISSION_DENIED',
+  262: 'PERMISSION_DENIED',
+  208: 'TABLE_NOT_FOUND',
+  207: 'COLUMN_NOT_FOUND',
+};
+
+/**
+ * Map a driver error to a DataImportErrorCode. Errors the drivers do not
+ * identify fall back to `fallback`: CONNECTION_FAILED while connecting,
+ * QUERY_ERROR once connected.
+ */
+export function classifyDatabaseError(
+  dialect: SqlDialect,
+  error: DatabaseErrorInfo,
+  fallback: ConnectorErrorCode = 'QUERY_ERROR'
+): ConnectorErrorCode {
+  const code = error.code ?? '';
+
+  if (TIMEOUT_CODES.includes(code) || error.name === 'TimedOut') return 'TIMEOUT';
+  if (CONNECTION_CODES.includes(code) || CONNECTION_NAMES.includes(error.name ?? '')) {
+    return 'CONNECTION_FAILED';
+  }
+
+  if (dialect === 'postgres' && /^[0-9A-Z]{5}$/.test(code)) {
+    if (code === '57014') return 'TIMEOUT';
+    if (code === '42P01') return 'TABLE_NOT_FOUND';
+    if (code === '42703') return 'COLUMN_NOT_FOUND';
+    if (code === '42501') return 'PERMISSION_DENIED';
+    // connection exceptions, invalid authorization, unknown database, too many connections
+    if (code.startsWith('08') || code.startsWith('28') || code === '3D000' || code === '53300') {
+      return 'CONNECTION_FAILED';
+    }
+    return 'QUERY_ERROR';
+  }
+
+  if (error.number !== undefined) {
+    const known = (dialect === 'mysql' ? MYSQL_ERRORS : dialect === 'mssql' ? MSSQL_ERRORS : {})[
+      error.number
+    ];
+    if (known) return known;
+  }
+
+  if (/timed? ?out/i.test(error.message ?? '')) return 'TIMEOUT';
+
+  return fallback;
+}
@@ -74,3 +74,44 @@ export async function requireAuth(req: Request): Promise<string> {
 
   return user.id;
 }
+
+/**
+ * Checks whether the request carries the service role key
+ * Used for internal calls between Edge Functions (e.g. process-campaign → send-sms)
+ */
+export function isServiceRoleRequest(req: Request): boolean {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceKey && req.headers.get('Authorization') === `Bearer ${serviceKey}`;
+}
+
+// Mirrors ROLE_HIERARCHY in src/types/admin.ts
+const ROLE_HIERARCHY: Record<string, number> = {
+  admin: 3,
+  user: 2,
+  viewer: 1,
+};
+
+/**
+ * Gets the organization whose data a user may act on
+ * Returns null when the user is deactivated, has no organization or has a
+ * role below minimumRole
+ */
+export async function getUserOrganizationId(
+  supabase: SupabaseClient,
+  userId: string,
+  minimumRole: 'admin' | 'user' | 'viewer' = 'user'
+): Promise<string | null> {
+  const { data } = await supabase
+    .from('profiles')
+    .select('organization_id, role, is_active')
+    .eq('id', userId)
+    .single();
+
+  if (!data?.organization_id || data.is_active === false) {
+    return null;
+  }
+
+  return (ROLE_HIERARCHY[data.role] ?? 0) >= ROLE_HIERARCHY[minimumRole]
+    ? data.organization_id
+    : null;
+}
@@ -0,0 +1,525 @@
+/**
+ * Sync Schedules
+ * Next sync times and the retry policy for scheduled data sources. Shared
+ * by the client (schedule setup) and the Edge Functions that run syncs, so
+ * this file must not import anything runtime-specific.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SyncScheduleFrequency = 'manual' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'cron';
+
+export interface ScheduleConfiguration {
+  frequency: SyncScheduleFrequency;
+  time?: string; // "09:00" for daily/weekly/monthly
+  timezone?: string; // "America/New_York"
+  day_of_week?: number; // 0=Sunday, 1=Monday, etc.
+  day_of_month?: number; // 1-28 (or 'last')
+  cron_expression?: string; // For custom cron
+
+  // Retry behavior
+  retry_on_failure: boolean;
+  max_retries: number;
+  retry_delay_minutes: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_TIME = '02:00';
+const DEFAULT_TIMEZONE = 'UTC';
+
+const MS_PER_HOUR = 3_600_000;
+const MS_PER_DAY = 86_400_000;
+
+/** Days searched for the next run: enough for a cron schedule on Feb 29 */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// =============================================================================
+// Time Zones
+// =============================================================================
+
+interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface LocalDateTime extends CalendarDate {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a timezone is a known IANA name (e.g. America/Chicago)
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+function toLocalDateTime(date: Date, timezone: string): LocalDateTime {
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    parts[part.type] = Number(part.value);
+  }
+
+  return {
+    year: parts.year!,
+    month: parts.month!,
+    day: parts.day!,
+    hour: parts.hour!,
+    minute: parts.minute!,
+    second: parts.second!,
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const local = toLocalDateTime(date, timezone);
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return wall - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time occurs in a timezone. A time that happens
+ * twice when clocks go back resolves to the first; a time skipped when they
+ * go forward resolves to the same distance past the change (02:30 -> 03:30).
+ */
+function fromLocalTime(date: CalendarDate, hour: number, minute: number, timezone: string): Date {
+  const wall = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+
+  // The offsets in force a day either side cover a DST change on this day
+  const candidates = [
+    wall - getTimezoneOffset(new Date(wall - MS_PER_DAY), timezone),
+    wall - getTimezoneOffset(new Date(wall + MS_PER_DAY), timezone),
+  ];
+  const valid = candidates.filter(
+    (instant) => instant + getTimezoneOffset(new Date(instant), timezone) === wall
+  );
+
+  return new Date(valid.length > 0 ? Math.min(...valid) : candidates[0]);
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const next = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate() };
+}
+
+function getWeekday(date: CalendarDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// =============================================================================
+// Next Sync Calculation
+// =============================================================================
+
+/**
+ * Calculate the next sync time based on schedule configuration. Times are
+ * wall-clock times in config.timezone (UTC when unset or unknown), so a
+ * 09:00 sync stays at 09:00 local across daylight saving changes.
+ */
+export function calculateNextSyncTime(
+  config: ScheduleConfiguration,
+  fromTime: Date = new Date()
+): Date | null {
+  if (config.frequency === 'manual') {
+    return null;
+  }
+
+  const timezone =
+    config.timezone && isValidTimezone(config.timezone) ? config.timezone : DEFAULT_TIMEZONE;
+  const [hours, minutes] = (config.time ?? DEFAULT_TIME).split(':').map(Number);
+  const at: Array<[number, number]> = [[hours, minutes]];
+
+  switch (config.frequency) {
+    case 'hourly':
+      return getNextHour(fromTime, timezone);
+
+    case 'daily':
+      return findNextRun(fromTime, timezone, () => true, at);
+
+    case 'weekly': {
+      const dayOfWeek = config.day_of_week ?? 0;
+      return findNextRun(fromTime, timezone, (date) => getWeekday(date) === dayOfWeek, at);
+    }
+
+    case 'monthly': {
+      // Short months run on their last day
+      const dayOfMonth = config.day_of_month ?? 1;
+      return findNextRun(
+        fromTime,
+        timezone,
+        (date) => date.day === Math.min(dayOfMonth, getDaysInMonth(date.year, date.month)),
+        at
+      );
+    }
+
+    case 'cron': {
+      if (!config.cron_expression) return null;
+
+      let cron: CronSchedule;
+      try {
+        cron = parseCronExpression(config.cron_expression);
+      } catch (err) {
+        console.warn('Invalid cron expression:', config.cron_expression, err);
+        return null;
+      }
+
+      const times = cron.hours.flatMap((hour) =>
+        cron.minutes.map((minute): [number, number] => [hour, minute])
+      );
+      return findNextRun(fromTime, timezone, (date) => matchesCronDay(cron, date), times);
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * The next `count` sync times after `fromTime`, e.g. to preview a schedule
+ */
+export function getNextSyncTimes(
+  config: ScheduleConfiguration,
+  count = 5,
+  fromTime: Date = new Date()
+): Date[] {
+  const times: Date[] = [];
+  let from = fromTime;
+
+  while (times.length < count) {
+    const next = calculateNextSyncTime(config, from);
+    if (!next) break;
+    times.push(next);
+    from = next;
+  }
+
+  return times;
+}
+
+/**
+ * Get the next local hour mark (xx:00:00)
+ */
+function getNextHour(from: Date, timezone: string): Date {
+  const offset = getTimezoneOffset(from, timezone);
+  const nextLocalHour = (Math.floor((from.getTime() + offset) / MS_PER_HOUR) + 1) * MS_PER_HOUR;
+  return new Date(nextLocalHour - offset);
+}
+
+/**
+ * The first run after `from`: walks the local calendar from the day `from`
+ * falls on and, on the first day `matchesDay` accepts with a time still to
+ * come, returns the earliest of `times` (ascending [hour, minute] pairs)
+ */
+function findNextRun(
+  from: Date,
+  timezone: string,
+  matchesDay: (date: CalendarDate) => boolean,
+  times: Array<[number, number]>
+): Date | null {
+  const local = toLocalDateTime(from, timezone);
+  const fromMinutes = local.hour * 60 + local.minute;
+  let date: CalendarDate = local;
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, date = addDays(date, 1)) {
+    if (!matchesDay(date)) continue;
+
+    let next: Date | null = null;
+    let nextMinutes = 0;
+
+    for (const [hour, minute] of times) {
+      const minutes = hour * 60 + minute;
+      // A DST change moves a time by at most an hour either way
+      if (i === 0 && minutes < fromMinutes - 60) continue;
+      if (next && minutes > nextMinutes + 60) break;
+
+      const run = fromLocalTime(date, hour, minute, timezone);
+      if (run > from && (!next || run < next)) {
+        if (!next) nextMinutes = minutes;
+        next = run;
+      }
+    }
+
+    if (next) return next;
+  }
+
+  return null;
+}
+
+// =============================================================================
+// Cron Expressions
+// =============================================================================
+
+/**
+ * A parsed 5-field cron expression (minute hour day-of-month month
+ * day-of-week). Minutes and hours are ascending; day of week 7 is Sunday (0).
+ */
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day of month / day of week was given (did not start with *) */
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+function parseCronValue(token: string, field: CronField): number {
+  const nameIndex = field.names?.indexOf(token.toUpperCase()) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + field.min : /^\d+$/.test(token) ? Number(token) : NaN;
+
+  if (Number.isNaN(value) || value < field.min || value > field.max) {
+    throw new Error(
+      `Invalid ${field.name} "${token}": expected ${field.min}-${field.max}${field.names ? ` or ${field.names[0]}-${field.names[field.names.length - 1]}` : ''}`
+    );
+  }
+  return value;
+}
+
+/**
+ * Parse one field: lists (1,15), ranges (1-5, MON-FRI), steps over a range,
+ * a start or everything (1-5/2, 10/15, *\/5) and *
+ */
+function parseCronField(expr: string, field: CronField): number[] {
+  const values = new Set<number>();
+
+  for (const item of expr.split(',')) {
+    const [range, stepText, ...extra] = item.split('/');
+    if (!range || extra.length > 0 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new Error(`Invalid ${field.name} "${item}"`);
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (step === 0) {
+      throw new Error(`Invalid ${field.name} step "${item}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [first, last, ...rest] = range.split('-');
+      if (rest.length > 0) throw new Error(`Invalid ${field.name} range "${range}"`);
+      start = parseCronValue(first, field);
+      end = parseCronValue(last, field);
+      if (start > end) throw new Error(`Invalid ${field.name} range "${range}"`);
+    } else {
+      start = parseCronValue(range, field);
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a standard 5-field cron expression with names for months (JAN-DEC)
+ * and days (SUN-SAT). Throws an Error describing the first invalid field.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('A cron expression has 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseCronField(part, CRON_FIELDS[index])
+  );
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek.map((day) => day % 7)),
+    restrictsDayOfMonth: !parts[2].startsWith('*'),
+    restrictsDayOfWeek: !parts[4].startsWith('*'),
+  };
+}
+
+/**
+ * Check a date against the day fields. As in cron, when both day of month
+ * and day of week are restricted a day matching either one runs.
+ */
+function matchesCronDay(cron: CronSchedule, date: CalendarDate): boolean {
+  if (!cron.months.has(date.month)) return false;
+
+  const dayOfMonth = cron.daysOfMonth.has(date.day);
+  const dayOfWeek = cron.daysOfWeek.has(getWeekday(date));
+
+  return cron.restrictsDayOfMonth && cron.restrictsDayOfWeek
+    ? dayOfMonth || dayOfWeek
+    : dayOfMonth && dayOfWeek;
+}
+
+// =============================================================================
+// Schedule Validation
+// =============================================================================
+
+/**
+ * Validate a schedule configuration
+ */
+export function validateScheduleConfig(config: ScheduleConfiguration): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (config.frequency === 'cron') {
+    if (!config.cron_expression) {
+      errors.push('Cron expression is required for cron frequency');
+    } else {
+      try {
+        parseCronExpression(config.cron_expression);
+        if (!calculateNextSyncTime(config)) {
+          errors.push('The cron expression never matches a date');
+        }
+      } catch (err) {
+        errors.push((err as Error).message);
+      }
+    }
+  }
+
+  if (config.time && !/^([01]\d|2[0-3]):[0-5]\d$/.test(config.time)) {
+    errors.push('Time must be in HH:MM format');
+  }
+
+  if (config.timezone && !isValidTimezone(config.timezone)) {
+    errors.push(`Unknown timezone: ${config.timezone}`);
+  }
+
+  if (config.day_of_week !== undefined && (config.day_of_week < 0 || config.day_of_week > 6)) {
+    errors.push('Day of week must be between 0 (Sunday) and 6 (Saturday)');
+  }
+
+  if (config.day_of_month !== undefined && (config.day_of_month < 1 || config.day_of_month > 28)) {
+    errors.push('Day of month must be between 1 and 28');
+  }
+
+  if (config.max_retries !== undefined && (config.max_retries < 0 || config.max_retries > 10)) {
+    errors.push('Max retries must be between 0 and 10');
+  }
+
+  if (config.retry_delay_minutes !== undefined && (config.retry_delay_minutes < 1 || config.retry_delay_minutes > 1440)) {
+    errors.push('Retry delay must be between 1 and 1440 minutes');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+// =============================================================================
+// Retry Logic
+// =============================================================================
+
+/**
+ * Calculate delay for retry attempt with exponential backoff
+ */
+export function calculateRetryDelay(
+  attemptNumber: number,
+  baseDelayMinutes: number
+): number {
+  // Exponential backoff: base * 2^attempt
+  // e.g., with base 15: 15, 30, 60, 120, 240 minutes
+  return baseDelayMinutes * Math.pow(2, attemptNumber - 1);
+}
+
+/**
+ * Calculate next retry time
+ */
+export function calculateNextRetryTime(
+  attemptNumber: number,
+  config: ScheduleConfiguration,
+  fromTime: Date = new Date()
+): Date {
+  const delayMinutes = calculateRetryDelay(
+    attemptNumber,
+    config.retry_delay_minutes ?? 15
+  );
+
+  const nextRetry = new Date(fromTime);
+  nextRetry.setMinutes(nextRetry.getMinutes() + delayMinutes);
+
+  return nextRetry;
+}
+
+/**
+ * Check if more retries should be attempted once `attemptNumber` retries
+ * have been made (0 after the first failure)
+ */
+export function shouldRetry(
+  attemptNumber: number,
+  config: ScheduleConfiguration
+): boolean {
+  if (!config.retry_on_failure) {
+    return false;
+  }
+
+  const maxRetries = config.max_retries ?? 3;
+  return attemptNumber < maxRetries;
+}
@@ -0,0 +1,148 @@
+/**
+ * Template Engine
+ * Renders {{variable}} placeholders in campaign content. Shared by the
+ * client (previews, validation) and Edge Functions (sending), so this file
+ * must not import anything runtime-specific.
+ *
+ * Syntax:
+ * - {{firstName}}              built-in member variable
+ * - {{firstName|there}}        fallback used when the value is empty
+ * - {{custom.favoriteClass}}   key from the member's custom fields
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const TEMPLATE_VARIABLE_NAMES = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'siteName',
+  'membershipLevel',
+  'unsubscribeUrl',
+] as const;
+
+export type TemplateVariableName = (typeof TEMPLATE_VARIABLE_NAMES)[number];
+
+export type TemplateContext = Partial<Record<TemplateVariableName, string | null>> & {
+  customFields?: Record<string, unknown> | null;
+};
+
+export interface TemplateReference {
+  /** Placeholder exactly as written, e.g. "{{ firstName | there }}" */
+  raw: string;
+  /** Variable name, e.g. "firstName" or "custom.favoriteClass" */
+  name: string;
+  /** Fallback text, or null when none was given */
+  fallback: string | null;
+}
+
+export interface RenderOptions {
+  /** Escape substituted values for HTML content (email bodies) */
+  escapeHtml?: boolean;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const CUSTOM_FIELD_PREFIX = 'custom.';
+
+// {{ name }} or {{ name | fallback }}; the fallback may not contain braces
+const PLACEHOLDER_REGEX = /\{\{\s*([A-Za-z_][\w]*(?:\.[\w-]+)?)\s*(?:\|([^{}]*))?\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Lists every placeholder in the content, in order of appearance
+ */
+export function parseTemplate(content: string): TemplateReference[] {
+  const references: TemplateReference[] = [];
+
+  for (const match of content.matchAll(PLACEHOLDER_REGEX)) {
+    references.push({
+      raw: match[0],
+      name: match[1],
+      fallback: match[2] !== undefined ? match[2].trim() : null,
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Unique variable names referenced by the content
+ */
+export function extractVariableNames(content: string): string[] {
+  return [...new Set(parseTemplate(content).map((ref) => ref.name))];
+}
+
+/**
+ * Whether a variable name can be rendered (built-in or custom field)
+ */
+export function isKnownVariable(name: string): boolean {
+  if (name.startsWith(CUSTOM_FIELD_PREFIX)) {
+    return name.length > CUSTOM_FIELD_PREFIX.length;
+  }
+  return (TEMPLATE_VARIABLE_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Variable names in the content that cannot be rendered
+ */
+export function findUnknownVariables(...contents: Array<string | null | undefined>): string[] {
+  const names = contents.flatMap((content) => (content ? extractVariableNames(content) : []));
+  return [...new Set(names)].filter((name) => !isKnownVariable(name));
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function resolveValue(name: string, context: TemplateContext): string {
+  let value: unknown;
+
+  if (name.startsWith(CUSTOM_FIELD_PREFIX)) {
+    value = context.customFields?.[name.slice(CUSTOM_FIELD_PREFIX.length)];
+  } else {
+    value = context[name as TemplateVariableName];
+  }
+
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+/**
+ * Replaces placeholders with values from the context. Empty values use the
+ * placeholder's fallback (or render as empty). Unknown variables are left
+ * as written so they stay visible in previews; use findUnknownVariables()
+ * to reject such content before sending.
+ */
+export function renderTemplate(
+  content: string,
+  context: TemplateContext,
+  options: RenderOptions = {}
+): string {
+  return content.replace(PLACEHOLDER_REGEX, (raw, name: string, fallback?: string) => {
+    if (!isKnownVariable(name)) return raw;
+
+    const value = resolveValue(name, context) || fallback?.trim() || '';
+    return options.escapeHtml ? escapeHtml(value) : value;
+  });
+}
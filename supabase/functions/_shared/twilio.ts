@@ -0,0 +1,115 @@
+/**
+ * Twilio API for Supabase Edge Functions
+ * Used by send-sms and verify-provider. Failures throw an Error carrying
+ * Twilio's own error code and message (e.g. "Twilio error 20003:
+ * Authenticate") so admins see why a send or credential check failed.
+ */
+
+import type { TwilioCredentials } from './providerCredentials.ts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TwilioMessage {
+  sid: string;
+  status: string;
+  error_code?: number;
+  error_message?: string;
+}
+
+interface TwilioAccount {
+  friendly_name: string;
+  status: string;
+}
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01';
+
+async function twilioRequest<T>(
+  credentials: TwilioCredentials,
+  path: string,
+  init: RequestInit = {}
+): Promise<T> {
+  const { accountSid, authToken } = credentials;
+
+  const response = await fetch(`${TWILIO_API_URL}/Accounts/${accountSid}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+      ...(init.body ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+    },
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const code = data.code ? ` ${data.code}` : '';
+    throw new Error(`Twilio error${code}: ${data.message || `HTTP ${response.status}`}`);
+  }
+
+  return data as T;
+}
+
+// =============================================================================
+// Messages
+// =============================================================================
+
+/**
+ * Send an SMS from the configured phone number
+ * @param webhookUrl - Status callback URL (twilio-webhook)
+ */
+export async function sendTwilioMessage(
+  credentials: TwilioCredentials,
+  to: string,
+  body: string,
+  webhookUrl?: string
+): Promise<TwilioMessage> {
+  const params = new URLSearchParams({
+    To: to,
+    From: credentials.phoneNumber,
+    Body: body,
+  });
+
+  // Add status callback if webhook URL is configured
+  if (webhookUrl) {
+    params.append('StatusCallback', webhookUrl);
+  }
+
+  return twilioRequest<TwilioMessage>(credentials, '/Messages.json', {
+    method: 'POST',
+    body: params,
+  });
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Check that the credentials sign in to an active account that owns the
+ * phone number. Returns the account's name.
+ */
+export async function verifyTwilioCredentials(credentials: TwilioCredentials): Promise<string> {
+  const account = await twilioRequest<TwilioAccount>(credentials, '.json');
+
+  if (account.status !== 'active') {
+    throw new Error(`Twilio error: the account is ${account.status}`);
+  }
+
+  const { incoming_phone_numbers: numbers } = await twilioRequest<{
+    incoming_phone_numbers: unknown[];
+  }>(
+    credentials,
+    `/IncomingPhoneNumbers.json?${new URLSearchParams({ PhoneNumber: credentials.phoneNumber })}`
+  );
+
+  if (numbers.length === 0) {
+    throw new Error(`Twilio error: ${credentials.phoneNumber} is not a phone number on this account`);
+  }
+
+  return account.friendly_name;
+}
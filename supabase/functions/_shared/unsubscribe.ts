@@ -0,0 +1,108 @@
+/**
+ * Signed Unsubscribe Links for Supabase Edge Functions
+ * Per-member tokens for the hosted preference page and RFC 8058 one-click
+ * unsubscribe, so links cannot be forged by changing the member ID.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UnsubscribeUrls {
+  /** Preference page shown to the member ({{unsubscribeUrl}}) */
+  pageUrl: string;
+  /** One-click endpoint for the List-Unsubscribe header (RFC 8058) */
+  oneClickUrl: string;
+}
+
+// =============================================================================
+// Signing
+// =============================================================================
+
+const encoder = new TextEncoder();
+
+/**
+ * HMAC key from UNSUBSCRIBE_SIGNING_SECRET, falling back to the service role
+ * key (rotating either invalidates links already sent)
+ */
+async function getSigningKey(): Promise<CryptoKey> {
+  const secret =
+    Deno.env.get('UNSUBSCRIBE_SIGNING_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!secret) {
+    throw new Error('Unsubscribe signing secret not configured');
+  }
+
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Creates a token of the form "<memberId>.<signature>"
+ */
+export async function createUnsubscribeToken(memberId: string): Promise<string> {
+  const key = await getSigningKey();
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(memberId));
+  return `${memberId}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Returns the member ID if the token signature is valid, otherwise null
+ */
+export async function verifyUnsubscribeToken(token: string): Promise<string | null> {
+  const [memberId, signature, ...rest] = token.split('.');
+  if (!memberId || !signature || rest.length > 0) return null;
+
+  try {
+    const key = await getSigningKey();
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      fromBase64Url(signature),
+      encoder.encode(memberId)
+    );
+    return valid ? memberId : null;
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// URLs
+// =============================================================================
+
+/**
+ * Builds the preference page and one-click unsubscribe URLs for a member
+ */
+export async function buildUnsubscribeUrls(memberId: string): Promise<UnsubscribeUrls> {
+  const siteUrl = Deno.env.get('PUBLIC_SITE_URL');
+
+  if (!siteUrl) {
+    throw new Error('PUBLIC_SITE_URL not configured');
+  }
+
+  const token = encodeURIComponent(await createUnsubscribeToken(memberId));
+
+  return {
+    pageUrl: `${siteUrl.replace(/\/+$/, '')}/unsubscribe?token=${token}`,
+    oneClickUrl: `${Deno.env.get('SUPABASE_URL')}/functions/v1/unsubscribe?token=${token}`,
+  };
+}
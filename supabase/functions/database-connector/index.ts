@@ -0,0 +1,370 @@
+/**
+ * Database Connector Edge Function
+ *
+ * Connects to external Postgres, MySQL and SQL Server databases for data
+ * sources of type postgres, mysql and mssql. Connections are read-only (see
+ * _shared/databaseConnectors.ts).
+ *
+ * Actions (request body):
+ * - { action: 'test', type, credentials, config? }
+ *   Connects and, when config names a table or query, reads one row from it.
+ *   Responds with a TestConnectionResponse.
+ * - { action: 'preview', type, credentials, config, limit? }
+ *   Reads the first rows (default 100, at most 500) of the table or query.
+ * - { action: 'sync', dataSourceId, trigger? }
+ *   Copies the source into the data source's import table and responds with
+ *   a TriggerSyncResponse once the sync_logs row exists; the sync itself
+ *   runs in the background.
+ *
+ * Sync strategies (config.incremental_strategy):
+ * - full: the import table is emptied and every row is read again
+ * - incremental: only rows whose incremental_column is greater than
+ *   data_sources.last_sync_value are read and appended, and the greatest
+ *   value read becomes the new last_sync_value
+ *
+ * Rows are read in pages of 1000 and cleaned with column_config (row
+ * filters, included columns under their target names, cleaning rules and
+ * duplicate handling); with no columns configured every column is copied
+ * as is. Rows dropped by cleaning are counted in records_skipped.
+ *
+ * Connector failures are reported as { success: false, error } with a
+ * DataImportErrorCode (CONNECTION_FAILED, QUERY_ERROR, TIMEOUT, ...).
+ *
+ * Can be triggered by:
+ * - The app (test, preview, manual sync)
+ * - run-syncs, with the service role key (scheduled sync)
+ */
+
+import { corsResponse, corsErrorResponse, handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, isServiceRoleRequest, requireAuth } from '../_shared/supabase.ts';
+import { ConnectorError, connectorErrorBody } from '../_shared/connectorError.ts';
+import { isSqlDialect, openDatabaseConnection } from '../_shared/databaseConnectors.ts';
+import {
+  cleanImportRows,
+  finishSync,
+  insertImportRows,
+  loadSyncDataSource,
+  runInBackground,
+  startSync,
+  truncateImportTable,
+  updateImportRowCount,
+} from '../_shared/importSync.ts';
+import { buildSelectQuery, formatSyncValue, toJsonValue } from '../_shared/sqlQuery.ts';
+import type { DatabaseConnection, DatabaseCredentials } from '../_shared/databaseConnectors.ts';
+import type { SyncDataSource } from '../_shared/importSync.ts';
+import type { QuerySource, SqlDialect, SqlStatement } from '../_shared/sqlQuery.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface SourceConfig {
+  query_type?: 'table' | 'custom_query';
+  table_name?: string;
+  custom_query?: string;
+  incremental_column?: string;
+  incremental_strategy?: 'full' | 'incremental';
+}
+
+type ConnectorRequest =
+  | { action: 'test'; type: string; credentials: DatabaseCredentials; config?: SourceConfig }
+  | {
+      action: 'preview';
+      type: string;
+      credentials: DatabaseCredentials;
+      config: SourceConfig;
+      limit?: number;
+    }
+  | { action: 'sync'; dataSourceId: string; trigger?: 'manual' | 'schedule' };
+
+type DatabaseSource = SyncDataSource<DatabaseCredentials, SourceConfig>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const PREVIEW_ROW_LIMIT = 100;
+const MAX_PREVIEW_ROWS = 500;
+const SYNC_PAGE_SIZE = 1000;
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * The table or custom query a data source reads
+ */
+function querySource(config: SourceConfig): QuerySource {
+  if (config.query_type === 'custom_query') {
+    if (!config.custom_query?.trim()) {
+      throw new ConnectorError('VALIDATION_FAILED', 'A custom query is required');
+    }
+    return { query: config.custom_query };
+  }
+
+  if (!config.table_name?.trim()) {
+    throw new ConnectorError('VALIDATION_FAILED', 'A table name is required');
+  }
+  return { table: config.table_name };
+}
+
+/**
+ * buildSelectQuery for a data source config, with invalid queries reported
+ * as VALIDATION_FAILED
+ */
+function selectStatement(
+  dialect: SqlDialect,
+  config: SourceConfig,
+  options: { after?: string | null; limit?: number; offset?: number } = {}
+): SqlStatement {
+  const source = querySource(config);
+  const incremental = config.incremental_strategy === 'incremental' && config.incremental_column;
+
+  try {
+    return buildSelectQuery(dialect, {
+      source,
+      incrementalColumn: incremental ? config.incremental_column : undefined,
+      ...options,
+    });
+  } catch (err) {
+    throw new ConnectorError('VALIDATION_FAILED', err instanceof Error ? err.message : 'Invalid query');
+  }
+}
+
+function toJsonRow(row: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    result[key] = toJsonValue(value);
+  }
+  return result;
+}
+
+// =============================================================================
+// Test & Preview
+// =============================================================================
+
+async function testConnection(
+  dialect: SqlDialect,
+  credentials: DatabaseCredentials,
+  config?: SourceConfig
+) {
+  let connection: DatabaseConnection | null = null;
+
+  try {
+    connection = await openDatabaseConnection(dialect, credentials);
+    await connection.query('SELECT 1');
+
+    if (config && (config.table_name || config.custom_query)) {
+      const { text, params } = selectStatement(dialect, config, { limit: 1 });
+      await connection.query(text, params);
+      return { success: true, message: 'Connected and read from the source' };
+    }
+
+    return { success: true, message: 'Connected successfully' };
+  } catch (err) {
+    const { error } = connectorErrorBody(err);
+    return { success: false, message: error.message, error };
+  } finally {
+    await connection?.close();
+  }
+}
+
+async function previewData(
+  dialect: SqlDialect,
+  credentials: DatabaseCredentials,
+  config: SourceConfig,
+  limit = PREVIEW_ROW_LIMIT
+) {
+  const statement = selectStatement(dialect, config, {
+    limit: Math.min(Math.max(1, limit), MAX_PREVIEW_ROWS),
+  });
+  const connection = await openDatabaseConnection(dialect, credentials);
+
+  try {
+    const rows = (await connection.query(statement.text, statement.params)).map(toJsonRow);
+    return {
+      success: true,
+      columns: rows.length > 0 ? Object.keys(rows[0]) : [],
+      rows,
+    };
+  } finally {
+    await connection.close();
+  }
+}
+
+// =============================================================================
+// Sync
+// =============================================================================
+
+/**
+ * Read the source page by page into the import table and close the sync
+ * log. A full sync empties the table once the first page has been read, so
+ * a source that can't be read leaves the previous rows in place.
+ */
+async function runSync(
+  supabase: SupabaseClient,
+  source: DatabaseSource,
+  dialect: SqlDialect,
+  syncLogId: string
+): Promise<void> {
+  const { config } = source;
+  const incremental = config.incremental_strategy === 'incremental' && !!config.incremental_column;
+  const after = incremental ? source.last_sync_value : null;
+  const tableName = source.table_name!;
+
+  let connection: DatabaseConnection | null = null;
+  let imported = 0;
+  let skipped = 0;
+  let pages = 0;
+  let lastValue = source.last_sync_value;
+
+  try {
+    connection = await openDatabaseConnection(dialect, source.credentials);
+
+    for (let offset = 0; ; offset += SYNC_PAGE_SIZE) {
+      const { text, params } = selectStatement(dialect, config, {
+        after,
+        limit: SYNC_PAGE_SIZE,
+        offset,
+      });
+      const rows = await connection.query(text, params);
+
+      if (pages === 0 && !incremental) {
+        await truncateImportTable(supabase, tableName);
+      }
+      pages++;
+
+      if (rows.length > 0) {
+        const cleaned = cleanImportRows(rows.map(toJsonRow), source.column_config);
+        skipped += cleaned.skipped;
+        imported += await insertImportRows(supabase, tableName, cleaned.rows);
+        if (incremental) {
+          lastValue = formatSyncValue(rows[rows.length - 1][config.incremental_column!]) ?? lastValue;
+        }
+      }
+
+      if (rows.length < SYNC_PAGE_SIZE) break;
+    }
+
+    await updateImportRowCount(supabase, tableName, imported, !incremental);
+    await finishSync(supabase, source.id, syncLogId, {
+      status: 'success',
+      imported,
+      skipped,
+      lastValue,
+      metadata: { pages, to_value: lastValue },
+    });
+  } catch (err) {
+    const { error } = connectorErrorBody(err);
+    console.error(`Sync of data source ${source.id} failed:`, error);
+    await finishSync(supabase, source.id, syncLogId, {
+      status: 'failed',
+      imported,
+      skipped,
+      // Rows already appended stay; resume after the last one committed
+      lastValue: incremental ? lastValue : source.last_sync_value,
+      errorMessage: error.message,
+      metadata: { pages, error_code: error.code, to_value: lastValue },
+    });
+  } finally {
+    await connection?.close();
+  }
+}
+
+// =============================================================================
+// Main Handler
+// =============================================================================
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  const corsResult = handleCors(req);
+  if (corsResult) return corsResult;
+
+  try {
+    // Scheduled syncs call with the service role key; everything else needs a user
+    const isInternal = isServiceRoleRequest(req);
+    let userId: string | null = null;
+    if (!isInternal) {
+      try {
+        userId = await requireAuth(req);
+      } catch {
+        return corsErrorResponse('Unauthorized', 401, 'UNAUTHORIZED');
+      }
+    }
+
+    let request: ConnectorRequest;
+    try {
+      request = await req.json();
+    } catch {
+      return corsErrorResponse('Invalid request body', 400);
+    }
+
+    if (request.action === 'test' || request.action === 'preview') {
+      if (!isSqlDialect(request.type)) {
+        return corsErrorResponse(`Unsupported database type: ${request.type}`, 400);
+      }
+      if (!request.credentials) {
+        return corsErrorResponse('credentials are required', 400);
+      }
+
+      if (request.action === 'test') {
+        return corsResponse(await testConnection(request.type, request.credentials, request.config));
+      }
+
+      try {
+        return corsResponse(
+          await previewData(request.type, request.credentials, request.config ?? {}, request.limit)
+        );
+      } catch (err) {
+        return corsResponse(connectorErrorBody(err));
+      }
+    }
+
+    if (request.action !== 'sync') {
+      return corsErrorResponse('action must be test, preview or sync', 400);
+    }
+
+    if (!request.dataSourceId) {
+      return corsErrorResponse('dataSourceId is required', 400);
+    }
+
+    // Users may only sync their organization's data sources
+    const supabase = createSupabaseAdmin();
+    const dataSource = await loadSyncDataSource<DatabaseCredentials, SourceConfig>(
+      supabase,
+      request.dataSourceId,
+      userId
+    );
+    if (!dataSource) {
+      return corsErrorResponse('Data source not found', 404, 'NOT_FOUND');
+    }
+    if (!isSqlDialect(dataSource.type)) {
+      return corsErrorResponse(`Data source type ${dataSource.type} is not a database`, 400);
+    }
+    if (!dataSource.table_name) {
+      return corsErrorResponse('Data source has no import table', 400, 'VALIDATION_FAILED');
+    }
+
+    const syncLogId = await startSync(supabase, dataSource.id, {
+      trigger: request.trigger ?? 'manual',
+      strategy: dataSource.config.incremental_strategy ?? 'full',
+      from_value: dataSource.last_sync_value,
+    });
+    if (!syncLogId) {
+      return corsErrorResponse('A sync is already running for this data source', 409, 'SYNC_RUNNING');
+    }
+
+    await runInBackground(runSync(supabase, dataSource, dataSource.type, syncLogId));
+
+    return corsResponse({ sync_log_id: syncLogId, status: 'started' });
+  } catch (error) {
+    console.error('Database connector error:', error);
+
+    return corsErrorResponse(
+      error instanceof Error ? error.message : 'Database connector failed',
+      500,
+      'INTERNAL_ERROR'
+    );
+  }
+});
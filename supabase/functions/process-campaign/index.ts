@@ -1,20 +1,45 @@
 /**
  * Process Campaign Edge Function
  *
- * Processes scheduled campaigns and sends messages to recipients.
- * - Fetches campaigns ready to send (scheduled_at <= now, status = 'scheduled')
- * - Gets eligible recipients via get_campaign_recipients() RPC
- * - Creates campaign_messages records
- * - Sends messages with rate limiting
- * - Updates campaign status
+ * Queue worker for campaign sending. Each invocation does a bounded amount
+ * of work, so large campaigns are sent across several invocations and a
+ * crashed run is picked up by the next one.
+ * - Starts due campaigns (scheduled_at <= now, status = 'scheduled') via
+ *   start_campaign() RPC, which queues campaign_messages and sets 'sending'.
+ *   Campaigns whose content (or any variant) uses unknown template
+ *   variables are failed instead of started, as are campaigns whose
+ *   estimated usage (recipients x SMS segments, or emails) exceeds what is
+ *   left of the monthly limit, unless an admin allowed them over the limit.
+ * - Selects the A/B test winner once the test window has passed and
+ *   releases held-back recipients with it (select_ab_test_winner)
+ * - Claims queued messages in chunks under a lease (claim_campaign_messages)
+ * - Holds messages until the campaign's local send time per recipient and
+ *   defers SMS during the recipient's quiet hours (defer_quiet_hours_messages)
+ * - Renders the recipient's variant (or the campaign content) per recipient
+ *   with the shared template engine
+ * - Sends messages with rate limiting via send-sms / send-email, which
+ *   count every message against the monthly limit and refuse it
+ *   (QUOTA_EXCEEDED) once the limit is reached
+ * - Retries transient provider errors with exponential backoff
+ * - Finalizes campaigns once no messages remain queued (finalize_campaign)
+ *
+ * Request body (all optional):
+ * - campaignId: only process (or resume) this campaign
+ * - action: 'finalize' to close out a 'sending' campaign, failing any
+ *   messages still queued
  *
  * Can be triggered by:
  * - Cron job (pg_cron)
  * - Manual API call
  */
 
-import { corsHeaders, corsResponse, corsErrorResponse, handleCors } from '../_shared/cors.ts';
-import { createSupabaseAdmin, requireAuth } from '../_shared/supabase.ts';
+import { corsResponse, corsErrorResponse, handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, getUserOrganizationId, requireAuth } from '../_shared/supabase.ts';
+import { findUnknownVariables, renderTemplate } from '../_shared/templateEngine.ts';
+import { buildUnsubscribeUrls } from '../_shared/unsubscribe.ts';
+import { estimateCampaignUsage } from '../_shared/messagingUsage.ts';
+import type { TemplateContext } from '../_shared/templateEngine.ts';
+import type { MessagingChannel } from '../_shared/messagingUsage.ts';
 
 // =============================================================================
 // Types
@@ -22,32 +47,75 @@ import { createSupabaseAdmin, requireAuth } from '../_shared/supabase.ts';
 
 interface Campaign {
   id: string;
-  user_id: string;
+  organization_id: string;
   campaign_type: 'sms' | 'email';
   content: string;
   subject?: string;
   scheduled_at: string;
   status: string;
+  ab_test_percent: number | null;
+  allow_over_limit: boolean;
 }
 
-interface Recipient {
+interface DueCampaign {
+  id: string;
+  campaign_type: 'sms' | 'email';
+  content: string;
+  subject: string | null;
+  metadata: Record<string, unknown> | null;
+  allow_over_limit: boolean;
+  campaign_variants: Array<{ subject: string | null; content: string }> | null;
+}
+
+interface MessagingUsageRow {
+  channel: MessagingChannel;
+  monthly_limit: number | null;
+  remaining: number | null;
+}
+
+interface CampaignVariant {
+  id: string;
+  subject: string | null;
+  content: string;
+}
+
+interface QueuedMessage {
+  id: string;
   member_id: string;
-  first_name: string;
-  last_name: string;
-  email: string;
-  phone: string;
-  site_timezone: string;
+  variant_id: string | null;
+  recipient_address: string;
+  attempt_count: number;
+}
+
+interface Recipient {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  phone: string | null;
+  custom_fields: Record<string, unknown> | null;
+  sites: { name: string } | null;
+  membership_levels: { name: string } | null;
+}
+
+interface ProcessRequest {
+  campaignId?: string;
+  action?: 'process' | 'finalize';
 }
 
 interface ProcessResult {
   campaignId: string;
   totalRecipients: number;
-  messagesCreated: number;
   messagesSent: number;
   messagesFailed: number;
+  messagesRetrying: number;
+  messagesDeferred: number;
+  status: string;
   errors: string[];
 }
 
+type SendOutcome = 'sent' | 'retry' | 'deferred' | 'failed';
+
 // =============================================================================
 // Constants
 // =============================================================================
@@ -55,6 +123,18 @@ interface ProcessResult {
 const SMS_RATE_LIMIT = 10; // messages per second
 const EMAIL_RATE_LIMIT = 100; // messages per second
 
+const CLAIM_CHUNK_SIZE = 100; // messages claimed per lease
+const LEASE_SECONDS = 300; // must exceed the time to send one chunk
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_SECONDS = 30; // 30s, 1m, 2m, 4m...
+
+// Stop claiming new chunks after this long so the invocation finishes well
+// inside the Edge Function wall-clock limit; the next run resumes the queue.
+const WORK_BUDGET_MS = 100 * 1000;
+
+// Keep the response small for large campaigns
+const MAX_REPORTED_ERRORS = 20;
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -63,198 +143,391 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function replaceVariables(
-  template: string,
-  recipient: Recipient
-): string {
-  return template
-    .replace(/\{\{firstName\}\}/g, recipient.first_name || '')
-    .replace(/\{\{lastName\}\}/g, recipient.last_name || '')
-    .replace(/\{\{email\}\}/g, recipient.email || '')
-    .replace(/\{\{phone\}\}/g, recipient.phone || '');
+async function buildTemplateContext(recipient: Recipient): Promise<TemplateContext> {
+  const { pageUrl } = await buildUnsubscribeUrls(recipient.id);
+
+  return {
+    firstName: recipient.first_name,
+    lastName: recipient.last_name,
+    email: recipient.email,
+    phone: recipient.phone,
+    siteName: recipient.sites?.name ?? null,
+    membershipLevel: recipient.membership_levels?.name ?? null,
+    unsubscribeUrl: pageUrl,
+    customFields: recipient.custom_fields,
+  };
+}
+
+/**
+ * Delay before the next attempt: exponential backoff with jitter
+ */
+function retryDelaySeconds(attempt: number): number {
+  const base = RETRY_BASE_DELAY_SECONDS * 2 ** (attempt - 1);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Transient failures (provider outage, rate limiting, network errors) are
+ * retried; validation and consent errors (4xx) will never succeed.
+ */
+function isTransientError(error: unknown): boolean {
+  const status = (error as { context?: { status?: number } })?.context?.status;
+  if (typeof status !== 'number') {
+    // Network / relay error - the request may not have reached the function
+    return true;
+  }
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Reads the error code from a send function error response, if any
+ */
+async function getErrorCode(error: unknown): Promise<string | null> {
+  const context = (error as { context?: Response })?.context;
+  if (!context || typeof context.json !== 'function') return null;
+
+  try {
+    const body = await context.clone().json();
+    return typeof body?.code === 'string' ? body.code : null;
+  } catch {
+    return null;
+  }
+}
+
+function recordError(result: ProcessResult, message: string): void {
+  if (result.errors.length < MAX_REPORTED_ERRORS) {
+    result.errors.push(message);
+  }
+}
+
+// =============================================================================
+// Monthly Limit
+// =============================================================================
+
+/**
+ * Checks a due campaign's estimated usage against what is left of the
+ * monthly limit. Returns the reason to fail the campaign, or null if it may
+ * start.
+ */
+async function checkMessagingLimit(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  due: DueCampaign
+): Promise<string | null> {
+  if (due.allow_over_limit) return null;
+
+  const { data: usageRows, error: usageError } = await supabase.rpc('get_messaging_usage');
+  if (usageError) {
+    throw new Error(`Failed to load messaging usage: ${usageError.message}`);
+  }
+
+  const usage = ((usageRows || []) as MessagingUsageRow[]).find(
+    (row) => row.channel === due.campaign_type
+  );
+  if (!usage || usage.remaining === null) return null;
+
+  const { count, error: countError } = await supabase.rpc(
+    'get_campaign_recipients',
+    { p_campaign_id: due.id },
+    { count: 'exact', head: true }
+  );
+  if (countError) {
+    throw new Error(`Failed to count recipients: ${countError.message}`);
+  }
+
+  const estimate = estimateCampaignUsage(
+    due.campaign_type,
+    count ?? 0,
+    [due.content, ...(due.campaign_variants || []).map((v) => v.content)],
+    usage.remaining
+  );
+  if (!estimate.exceedsLimit) return null;
+
+  const unit = due.campaign_type === 'sms' ? 'SMS segments' : 'emails';
+  return (
+    `Monthly limit exceeded: the campaign needs ${estimate.units} ${unit} ` +
+    `but only ${estimate.remaining} of ${usage.monthly_limit} remain this month`
+  );
+}
+
+// =============================================================================
+// Message Sending
+// =============================================================================
+
+async function sendMessage(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  campaign: Campaign,
+  message: QueuedMessage,
+  recipient: Recipient | undefined,
+  variant: CampaignVariant | undefined,
+  result: ProcessResult
+): Promise<SendOutcome> {
+  let errorMessage: string;
+  let transient: boolean;
+
+  if (!recipient) {
+    errorMessage = 'Member no longer exists';
+    transient = false;
+  } else {
+    const context = await buildTemplateContext(recipient);
+    const content = renderTemplate(variant?.content ?? campaign.content, context, {
+      escapeHtml: campaign.campaign_type === 'email',
+    });
+
+    const functionName =
+      campaign.campaign_type === 'sms' ? 'send-sms' : 'send-email';
+
+    const requestBody =
+      campaign.campaign_type === 'sms'
+        ? {
+            messageId: message.id,
+            to: message.recipient_address,
+            body: content,
+            memberId: message.member_id,
+            campaignId: campaign.id,
+            allowOverLimit: campaign.allow_over_limit,
+          }
+        : {
+            messageId: message.id,
+            to: message.recipient_address,
+            subject: renderTemplate(variant?.subject || campaign.subject || '', context),
+            html: content,
+            memberId: message.member_id,
+            campaignId: campaign.id,
+            allowOverLimit: campaign.allow_over_limit,
+          };
+
+    try {
+      const { error } = await supabase.functions.invoke(functionName, {
+        body: requestBody,
+      });
+
+      if (!error) {
+        // send-sms / send-email mark the message as sent
+        return 'sent';
+      }
+
+      // Quiet hours began after the message was claimed: release it without
+      // using up an attempt; it is deferred before the next claim.
+      if ((await getErrorCode(error)) === 'QUIET_HOURS') {
+        await supabase
+          .from('campaign_messages')
+          .update({
+            attempt_count: Math.max(message.attempt_count - 1, 0),
+            locked_by: null,
+            locked_until: null,
+          })
+          .eq('id', message.id)
+          .eq('status', 'queued');
+
+        return 'deferred';
+      }
+
+      errorMessage = error.message;
+      transient = isTransientError(error);
+    } catch (err) {
+      errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      transient = true;
+    }
+  }
+
+  recordError(result, `${message.id}: ${errorMessage}`);
+
+  if (transient && message.attempt_count < MAX_ATTEMPTS) {
+    const delay = retryDelaySeconds(message.attempt_count);
+
+    await supabase
+      .from('campaign_messages')
+      .update({
+        error_message: errorMessage,
+        next_attempt_at: new Date(Date.now() + delay * 1000).toISOString(),
+        deferred_reason: null,
+        locked_by: null,
+        locked_until: null,
+      })
+      .eq('id', message.id)
+      .eq('status', 'queued');
+
+    return 'retry';
+  }
+
+  // Permanent failure. Consent denials are already marked failed by the
+  // send function, so only touch messages that are still queued.
+  await supabase
+    .from('campaign_messages')
+    .update({
+      status: 'failed',
+      failed_at: new Date().toISOString(),
+      error_message: transient
+        ? `${errorMessage} (gave up after ${message.attempt_count} attempts)`
+        : errorMessage,
+      locked_by: null,
+      locked_until: null,
+    })
+    .eq('id', message.id)
+    .eq('status', 'queued');
+
+  return 'failed';
 }
 
 // =============================================================================
 // Campaign Processing
 // =============================================================================
 
-async function processCampaign(
+/**
+ * Sends queued messages for a 'sending' campaign until the queue is empty
+ * or the deadline passes, then finalizes the campaign if nothing is left.
+ */
+async function workCampaign(
   supabase: ReturnType<typeof createSupabaseAdmin>,
-  campaign: Campaign
+  campaign: Campaign,
+  workerId: string,
+  deadline: number
 ): Promise<ProcessResult> {
   const result: ProcessResult = {
     campaignId: campaign.id,
     totalRecipients: 0,
-    messagesCreated: 0,
     messagesSent: 0,
     messagesFailed: 0,
+    messagesRetrying: 0,
+    messagesDeferred: 0,
+    status: campaign.status,
     errors: [],
   };
 
-  try {
-    // Update campaign status to 'sending'
-    await supabase
-      .from('campaigns')
-      .update({
-        status: 'sending',
-        started_at: new Date().toISOString(),
-      })
-      .eq('id', campaign.id);
+  const rateLimit =
+    campaign.campaign_type === 'sms' ? SMS_RATE_LIMIT : EMAIL_RATE_LIMIT;
 
-    // Get eligible recipients
-    const { data: recipients, error: recipientsError } = await supabase.rpc(
-      'get_campaign_recipients',
-      { p_campaign_id: campaign.id }
-    );
+  if (campaign.ab_test_percent !== null) {
+    const { error: winnerError } = await supabase.rpc('select_ab_test_winner', {
+      p_campaign_id: campaign.id,
+    });
 
-    if (recipientsError) {
-      throw new Error(`Failed to get recipients: ${recipientsError.message}`);
+    if (winnerError) {
+      throw new Error(`Failed to select A/B test winner: ${winnerError.message}`);
     }
+  }
 
-    result.totalRecipients = recipients?.length || 0;
+  const { data: variantRows, error: variantsError } = await supabase
+    .from('campaign_variants')
+    .select('id, subject, content')
+    .eq('campaign_id', campaign.id);
 
-    if (result.totalRecipients === 0) {
-      // No recipients - mark as sent
-      await supabase
-        .from('campaigns')
-        .update({
-          status: 'sent',
-          completed_at: new Date().toISOString(),
-          total_recipients: 0,
-        })
-        .eq('id', campaign.id);
-
-      return result;
+  if (variantsError) {
+    throw new Error(`Failed to load variants: ${variantsError.message}`);
+  }
+
+  const variants = new Map<string, CampaignVariant>(
+    (variantRows || []).map((v: CampaignVariant) => [v.id, v])
+  );
+
+  while (Date.now() < deadline) {
+    if (campaign.campaign_type === 'sms') {
+      const { data: deferred, error: deferError } = await supabase.rpc(
+        'defer_quiet_hours_messages',
+        { p_campaign_id: campaign.id }
+      );
+
+      if (deferError) {
+        throw new Error(`Failed to apply quiet hours: ${deferError.message}`);
+      }
+
+      result.messagesDeferred += deferred ?? 0;
     }
 
-    // Create message records for all recipients
-    const messageRecords = recipients.map((recipient: Recipient) => ({
-      campaign_id: campaign.id,
-      member_id: recipient.member_id,
-      channel: campaign.campaign_type,
-      recipient_address:
-        campaign.campaign_type === 'sms' ? recipient.phone : recipient.email,
-      status: 'queued',
-      queued_at: new Date().toISOString(),
-    }));
-
-    const { data: messages, error: insertError } = await supabase
-      .from('campaign_messages')
-      .insert(messageRecords)
-      .select('id, member_id, recipient_address');
+    const { data: claimed, error: claimError } = await supabase.rpc(
+      'claim_campaign_messages',
+      {
+        p_campaign_id: campaign.id,
+        p_worker_id: workerId,
+        p_limit: CLAIM_CHUNK_SIZE,
+        p_lease_seconds: LEASE_SECONDS,
+      }
+    );
 
-    if (insertError) {
-      throw new Error(`Failed to create messages: ${insertError.message}`);
+    if (claimError) {
+      throw new Error(`Failed to claim messages: ${claimError.message}`);
     }
 
-    result.messagesCreated = messages?.length || 0;
+    const messages = (claimed || []) as QueuedMessage[];
+    if (messages.length === 0) break;
 
-    // Update campaign with recipient count
-    await supabase
-      .from('campaigns')
-      .update({ total_recipients: result.totalRecipients })
-      .eq('id', campaign.id);
+    // Load recipient details for personalization
+    const { data: members, error: membersError } = await supabase
+      .from('members')
+      .select(
+        'id, first_name, last_name, email, phone, custom_fields, sites (name), membership_levels (name)'
+      )
+      .in('id', messages.map((m) => m.member_id));
 
-    // Send messages with rate limiting
-    const rateLimit =
-      campaign.campaign_type === 'sms' ? SMS_RATE_LIMIT : EMAIL_RATE_LIMIT;
+    if (membersError) {
+      throw new Error(`Failed to load recipients: ${membersError.message}`);
+    }
+
+    const recipients = new Map<string, Recipient>(
+      (members || []).map((m: Recipient) => [m.id, m])
+    );
 
     for (let i = 0; i < messages.length; i += rateLimit) {
       const batch = messages.slice(i, i + rateLimit);
 
       // Process batch in parallel
-      const batchPromises = batch.map(async (message) => {
-        const recipient = recipients.find(
-          (r: Recipient) => r.member_id === message.member_id
-        );
-
-        if (!recipient) {
-          result.messagesFailed++;
-          return;
-        }
-
-        try {
-          // Render content with variables
-          const content = replaceVariables(campaign.content, recipient);
-
-          // Call the appropriate send function
-          const functionName =
-            campaign.campaign_type === 'sms' ? 'send-sms' : 'send-email';
-
-          const requestBody =
-            campaign.campaign_type === 'sms'
-              ? {
-                  messageId: message.id,
-                  to: recipient.phone,
-                  body: content,
-                  memberId: recipient.member_id,
-                  campaignId: campaign.id,
-                }
-              : {
-                  messageId: message.id,
-                  to: recipient.email,
-                  subject: replaceVariables(campaign.subject || '', recipient),
-                  html: content,
-                  memberId: recipient.member_id,
-                  campaignId: campaign.id,
-                };
-
-          const { error } = await supabase.functions.invoke(functionName, {
-            body: requestBody,
-          });
-
-          if (error) {
-            result.messagesFailed++;
-            result.errors.push(`${message.id}: ${error.message}`);
-          } else {
-            result.messagesSent++;
-          }
-        } catch (err) {
-          result.messagesFailed++;
-          result.errors.push(
-            `${message.id}: ${err instanceof Error ? err.message : 'Unknown error'}`
-          );
-        }
-      });
+      const outcomes = await Promise.all(
+        batch.map((message) =>
+          sendMessage(
+            supabase,
+            campaign,
+            message,
+            recipients.get(message.member_id),
+            message.variant_id ? variants.get(message.variant_id) : undefined,
+            result
+          )
+        )
+      );
 
-      await Promise.all(batchPromises);
+      for (const outcome of outcomes) {
+        if (outcome === 'sent') result.messagesSent++;
+        else if (outcome === 'failed') result.messagesFailed++;
+        else if (outcome === 'retry') result.messagesRetrying++;
+      }
 
       // Wait 1 second before next batch (rate limiting)
       if (i + rateLimit < messages.length) {
         await sleep(1000);
       }
     }
+  }
 
-    // Update campaign status
-    const finalStatus =
-      result.messagesFailed === result.messagesCreated ? 'failed' : 'sent';
-
-    await supabase
-      .from('campaigns')
-      .update({
-        status: finalStatus,
-        completed_at: new Date().toISOString(),
-        total_sent: result.messagesSent,
-        total_failed: result.messagesFailed,
-      })
-      .eq('id', campaign.id);
+  return finishRun(supabase, campaign, result, false);
+}
 
-    return result;
-  } catch (error) {
-    // Mark campaign as failed
-    await supabase
-      .from('campaigns')
-      .update({
-        status: 'failed',
-        completed_at: new Date().toISOString(),
-      })
-      .eq('id', campaign.id);
+/**
+ * Finalizes the campaign (or refreshes its totals if messages remain) and
+ * records the outcome on the result.
+ */
+async function finishRun(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  campaign: Campaign,
+  result: ProcessResult,
+  force: boolean
+): Promise<ProcessResult> {
+  const { data: status, error } = await supabase.rpc('finalize_campaign', {
+    p_campaign_id: campaign.id,
+    p_force: force,
+  });
 
-    result.errors.push(
-      error instanceof Error ? error.message : 'Unknown error'
-    );
-    return result;
+  if (error) {
+    throw new Error(`Failed to finalize campaign: ${error.message}`);
   }
+
+  const { data: totals } = await supabase
+    .from('campaigns')
+    .select('total_recipients')
+    .eq('id', campaign.id)
+    .single();
+
+  result.status = status as string;
+  result.totalRecipients = totals?.total_recipients ?? 0;
+  return result;
 }
 
 // =============================================================================
@@ -272,8 +545,9 @@ Deno.serve(async (req: Request): Promise<Response> => {
     const expectedSecret = Deno.env.get('CRON_SECRET');
 
     let userId: string | null = null;
+    const isCron = !!cronSecret && !!expectedSecret && cronSecret === expectedSecret;
 
-    if (cronSecret && expectedSecret && cronSecret === expectedSecret) {
+    if (isCron) {
       // Cron job - no user auth needed
       userId = 'cron';
     } else {
@@ -283,27 +557,149 @@ Deno.serve(async (req: Request): Promise<Response> => {
 
     const supabase = createSupabaseAdmin();
 
-    // Parse request for optional campaign ID
-    let specificCampaignId: string | null = null;
+    // Parse request for optional campaign ID / action
+    let request: ProcessRequest = {};
     try {
-      const body = await req.json();
-      specificCampaignId = body.campaignId;
+      request = await req.json();
     } catch {
-      // No body or invalid JSON - process all scheduled campaigns
+      // No body or invalid JSON - process all campaigns
     }
 
-    // Fetch campaigns to process
-    let query = supabase
+    // Finalize: close out a stuck campaign on request of its organization
+    if (request.action === 'finalize') {
+      if (!request.campaignId) {
+        return corsErrorResponse('campaignId is required to finalize', 400);
+      }
+
+      const { data: campaign, error } = await supabase
+        .from('campaigns')
+        .select('*')
+        .eq('id', request.campaignId)
+        .single();
+
+      if (
+        error ||
+        !campaign ||
+        (!isCron && campaign.organization_id !== (await getUserOrganizationId(supabase, userId!)))
+      ) {
+        return corsErrorResponse('Campaign not found', 404, 'NOT_FOUND');
+      }
+
+      if (campaign.status !== 'sending') {
+        return corsErrorResponse(
+          'Only campaigns that are sending can be finalized',
+          409,
+          'INVALID_STATUS'
+        );
+      }
+
+      const result = await finishRun(
+        supabase,
+        campaign,
+        {
+          campaignId: campaign.id,
+          totalRecipients: 0,
+          messagesSent: 0,
+          messagesFailed: 0,
+          messagesRetrying: 0,
+          messagesDeferred: 0,
+          status: campaign.status,
+          errors: [],
+        },
+        true
+      );
+
+      await supabase.from('audit_logs').insert({
+        event_type: 'CAMPAIGN_FINALIZED',
+        email: userId,
+        metadata: { campaignId: campaign.id, status: result.status },
+      });
+
+      return corsResponse({
+        success: true,
+        message: `Campaign finalized as ${result.status}`,
+        results: [result],
+      });
+    }
+
+    // Start campaigns that are due
+    let dueQuery = supabase
       .from('campaigns')
-      .select('*')
+      .select(
+        'id, campaign_type, content, subject, metadata, allow_over_limit, campaign_variants (subject, content)'
+      )
       .eq('status', 'scheduled')
       .lte('scheduled_at', new Date().toISOString());
 
-    if (specificCampaignId) {
-      query = query.eq('id', specificCampaignId);
+    if (request.campaignId) {
+      dueQuery = dueQuery.eq('id', request.campaignId);
     }
 
-    const { data: campaigns, error: fetchError } = await query;
+    const { data: dueCampaigns, error: dueError } = await dueQuery;
+
+    if (dueError) {
+      return corsErrorResponse(
+        `Failed to fetch campaigns: ${dueError.message}`,
+        500
+      );
+    }
+
+    for (const due of (dueCampaigns || []) as DueCampaign[]) {
+      // Never send literal {{placeholders}}: fail the campaign instead
+      const unknownVariables = findUnknownVariables(
+        due.content,
+        due.subject,
+        ...(due.campaign_variants || []).flatMap((v) => [v.subject, v.content])
+      );
+
+      let failureReason: string | null = null;
+      if (unknownVariables.length > 0) {
+        failureReason = `Unknown template variables: ${unknownVariables.join(', ')}`;
+      } else {
+        try {
+          failureReason = await checkMessagingLimit(supabase, due);
+        } catch (error) {
+          // Leave the campaign scheduled; the next run checks again
+          console.error(`Campaign ${due.id} not started:`, error);
+          continue;
+        }
+      }
+
+      if (failureReason) {
+        console.error(`Campaign ${due.id} not started: ${failureReason}`);
+
+        await supabase
+          .from('campaigns')
+          .update({
+            status: 'failed',
+            completed_at: new Date().toISOString(),
+            metadata: { ...(due.metadata || {}), failureReason },
+          })
+          .eq('id', due.id);
+        continue;
+      }
+
+      const { error: startError } = await supabase.rpc('start_campaign', {
+        p_campaign_id: due.id,
+      });
+
+      if (startError) {
+        console.error(`Failed to start campaign ${due.id}:`, startError);
+      }
+    }
+
+    // Work every campaign that is sending, including ones resumed after a crash
+    let sendingQuery = supabase
+      .from('campaigns')
+      .select('*')
+      .eq('status', 'sending')
+      .order('started_at', { ascending: true });
+
+    if (request.campaignId) {
+      sendingQuery = sendingQuery.eq('id', request.campaignId);
+    }
+
+    const { data: campaigns, error: fetchError } = await sendingQuery;
 
     if (fetchError) {
       return corsErrorResponse(
@@ -320,11 +716,32 @@ Deno.serve(async (req: Request): Promise<Response> => {
       });
     }
 
-    // Process each campaign
+    // Process each campaign within the shared time budget
+    const workerId = crypto.randomUUID();
+    const deadline = Date.now() + WORK_BUDGET_MS;
     const results: ProcessResult[] = [];
 
     for (const campaign of campaigns) {
-      const result = await processCampaign(supabase, campaign);
+      let result: ProcessResult;
+
+      try {
+        result = await workCampaign(supabase, campaign, workerId, deadline);
+      } catch (error) {
+        // Leave the campaign in 'sending'; leased messages are reclaimed
+        // once their lease expires and the next run resumes the queue.
+        console.error(`Campaign ${campaign.id} run failed:`, error);
+        result = {
+          campaignId: campaign.id,
+          totalRecipients: 0,
+          messagesSent: 0,
+          messagesFailed: 0,
+          messagesRetrying: 0,
+          messagesDeferred: 0,
+          status: campaign.status,
+          errors: [error instanceof Error ? error.message : 'Unknown error'],
+        };
+      }
+
       results.push(result);
 
       // Log audit event
@@ -337,6 +754,9 @@ Deno.serve(async (req: Request): Promise<Response> => {
           totalRecipients: result.totalRecipients,
           messagesSent: result.messagesSent,
           messagesFailed: result.messagesFailed,
+          messagesRetrying: result.messagesRetrying,
+          messagesDeferred: result.messagesDeferred,
+          status: result.status,
         },
       });
     }
@@ -0,0 +1,418 @@
+/**
+ * REST Connector Edge Function
+ *
+ * Reads records from a JSON REST API for rest_api data sources, e.g. a
+ * booking system's member list.
+ * - Auth from ApiKeyCredentials.api_key, per config.auth: an API key header
+ *   (X-API-Key unless header_name is set) or query parameter, or a bearer token
+ * - config.response_path (JSONPath) picks the array of records out of each
+ *   response; nested objects are flattened into dotted columns
+ *   ({ address: { city } } -> address.city)
+ * - config.pagination: none, offset (offset/limit query parameters), cursor
+ *   (next cursor read from cursor_path) or link_header (rel="next"), up to
+ *   max_pages pages
+ * - 429 and 503 responses are retried up to three times, waiting for
+ *   Retry-After or backing off exponentially, then fail with RATE_LIMITED
+ *
+ * Actions (request body):
+ * - { action: 'test', credentials, config }: reads the first page.
+ *   Responds with a TestConnectionResponse.
+ * - { action: 'preview', credentials, config, limit? }: reads the first
+ *   records (default 100, at most 500).
+ * - { action: 'sync', dataSourceId, trigger? }: replaces the contents of the
+ *   data source's import table with every record, cleaned with its
+ *   column_config, in the background, and responds with a
+ *   TriggerSyncResponse.
+ *
+ * Connector failures are reported as { success: false, error } with a
+ * DataImportErrorCode (AUTH_EXPIRED, RATE_LIMITED, TIMEOUT, ...).
+ *
+ * Can be triggered by:
+ * - The app (test, preview, manual sync)
+ * - run-syncs, with the service role key (scheduled sync)
+ */
+
+import { corsResponse, corsErrorResponse, handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, isServiceRoleRequest, requireAuth } from '../_shared/supabase.ts';
+import { ConnectorError, connectorErrorBody } from '../_shared/connectorError.ts';
+import {
+  cleanImportRows,
+  finishSync,
+  insertImportRows,
+  loadSyncDataSource,
+  runInBackground,
+  startSync,
+  truncateImportTable,
+  updateImportRowCount,
+} from '../_shared/importSync.ts';
+import {
+  applyAuth,
+  buildRequestUrl,
+  classifyHttpStatus,
+  DEFAULT_MAX_PAGES,
+  DEFAULT_PAGE_SIZE,
+  extractJsonPath,
+  extractRecords,
+  flattenRecord,
+  parseLinkHeader,
+  retryDelayMs,
+} from '../_shared/restApi.ts';
+import type { SyncDataSource } from '../_shared/importSync.ts';
+import type { RestAuthConfig, RestCredentials, RestPaginationConfig } from '../_shared/restApi.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RestConfig {
+  endpoint?: string;
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: Record<string, unknown>;
+  response_path?: string;
+  auth?: RestAuthConfig;
+  pagination?: RestPaginationConfig;
+}
+
+type ConnectorRequest =
+  | { action: 'test'; credentials: RestCredentials; config: RestConfig }
+  | { action: 'preview'; credentials: RestCredentials; config: RestConfig; limit?: number }
+  | { action: 'sync'; dataSourceId: string; trigger?: 'manual' | 'schedule' };
+
+type RestSource = SyncDataSource<RestCredentials, RestConfig>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const REQUEST_TIMEOUT_MS = 30_000;
+const MAX_RETRIES = 3;
+const PREVIEW_ROW_LIMIT = 100;
+const MAX_PREVIEW_ROWS = 500;
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+/**
+ * Fetch one page as JSON, retrying rate-limited responses
+ */
+async function fetchJson(
+  url: URL,
+  init: RequestInit
+): Promise<{ body: unknown; headers: Headers }> {
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'TimeoutError') {
+        throw new ConnectorError('TIMEOUT', `Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`);
+      }
+      throw new ConnectorError(
+        'CONNECTION_FAILED',
+        `Could not reach ${url.host}: ${err instanceof Error ? err.message : 'network error'}`
+      );
+    }
+
+    if ((response.status === 429 || response.status === 503) && attempt < MAX_RETRIES) {
+      await response.body?.cancel();
+      const delay = retryDelayMs(attempt, response.headers.get('Retry-After'));
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      continue;
+    }
+
+    if (!response.ok) {
+      const text = (await response.text().catch(() => '')).slice(0, 200);
+      throw new ConnectorError(
+        classifyHttpStatus(response.status),
+        `${url.host} responded ${response.status} ${response.statusText}${text ? `: ${text}` : ''}`,
+        { status: response.status, retries: attempt }
+      );
+    }
+
+    try {
+      return { body: await response.json(), headers: response.headers };
+    } catch {
+      throw new ConnectorError('VALIDATION_FAILED', 'The response is not JSON');
+    }
+  }
+}
+
+/**
+ * Read the endpoint page by page, yielding each page's flattened records
+ */
+async function* readPages(
+  credentials: RestCredentials,
+  config: RestConfig
+): AsyncGenerator<Record<string, unknown>[]> {
+  if (!config.endpoint?.trim()) {
+    throw new ConnectorError('VALIDATION_FAILED', 'An endpoint is required');
+  }
+
+  const pagination = config.pagination ?? { type: 'none' };
+  const pageSize = pagination.page_size ?? DEFAULT_PAGE_SIZE;
+  const maxPages = pagination.max_pages ?? DEFAULT_MAX_PAGES;
+  const offsetParam = pagination.offset_param || 'offset';
+  const limitParam = pagination.limit_param || 'limit';
+
+  if (pagination.type === 'cursor' && !pagination.cursor_path) {
+    throw new ConnectorError('VALIDATION_FAILED', 'cursor_path is required for cursor pagination');
+  }
+
+  let url: URL;
+  try {
+    url = buildRequestUrl(
+      config.endpoint,
+      credentials.base_url,
+      pagination.type === 'offset' ? { [offsetParam]: 0, [limitParam]: pageSize } : {}
+    );
+  } catch (err) {
+    throw new ConnectorError('VALIDATION_FAILED', (err as Error).message);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new ConnectorError('VALIDATION_FAILED', 'The endpoint must be an http(s) URL');
+  }
+
+  const method = config.method ?? 'GET';
+  const baseHeaders: Record<string, string> = {
+    Accept: 'application/json',
+    ...(method === 'POST' && { 'Content-Type': 'application/json' }),
+    ...config.headers,
+  };
+
+  let offset = 0;
+  for (let page = 0; page < maxPages; page++) {
+    let request: { url: URL; headers: Record<string, string> };
+    try {
+      request = applyAuth(url, baseHeaders, credentials, config.auth);
+    } catch (err) {
+      throw new ConnectorError('VALIDATION_FAILED', (err as Error).message);
+    }
+
+    const { body, headers } = await fetchJson(request.url, {
+      method,
+      headers: request.headers,
+      body: method === 'POST' && config.body ? JSON.stringify(config.body) : undefined,
+    });
+
+    let records: Record<string, unknown>[];
+    try {
+      records = extractRecords(body, config.response_path).map((record) => flattenRecord(record));
+    } catch (err) {
+      throw new ConnectorError('VALIDATION_FAILED', (err as Error).message);
+    }
+
+    yield records;
+
+    if (records.length === 0) return;
+
+    const next = new URL(url);
+    if (pagination.type === 'offset') {
+      if (records.length < pageSize) return;
+      offset += records.length;
+      next.searchParams.set(offsetParam, String(offset));
+    } else if (pagination.type === 'cursor') {
+      const cursor = extractJsonPath(body, pagination.cursor_path);
+      if (cursor === undefined || cursor === null || cursor === '') return;
+      next.searchParams.set(pagination.cursor_param || 'cursor', String(cursor));
+    } else if (pagination.type === 'link_header') {
+      const link = parseLinkHeader(headers.get('Link')).next;
+      if (!link) return;
+      url = new URL(link, url);
+      continue;
+    } else {
+      return;
+    }
+    url = next;
+  }
+}
+
+/**
+ * Give every row every column, in order of first appearance
+ */
+function alignColumns(rows: Record<string, unknown>[]): {
+  columns: string[];
+  rows: Record<string, unknown>[];
+} {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  return {
+    columns,
+    rows: rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column] ?? null]))),
+  };
+}
+
+// =============================================================================
+// Test & Preview
+// =============================================================================
+
+async function testConnection(credentials: RestCredentials, config: RestConfig) {
+  try {
+    for await (const records of readPages(credentials, config)) {
+      return {
+        success: true,
+        message: `Connected; the first page has ${records.length} record${records.length === 1 ? '' : 's'}`,
+      };
+    }
+    return { success: true, message: 'Connected successfully' };
+  } catch (err) {
+    const { error } = connectorErrorBody(err, 'CONNECTION_FAILED');
+    return { success: false, message: error.message, error };
+  }
+}
+
+async function previewData(credentials: RestCredentials, config: RestConfig, limit = PREVIEW_ROW_LIMIT) {
+  const wanted = Math.min(Math.max(1, limit), MAX_PREVIEW_ROWS);
+  const rows: Record<string, unknown>[] = [];
+
+  for await (const records of readPages(credentials, config)) {
+    rows.push(...records.slice(0, wanted - rows.length));
+    if (rows.length >= wanted) break;
+  }
+
+  return { success: true, ...alignColumns(rows) };
+}
+
+// =============================================================================
+// Sync
+// =============================================================================
+
+/**
+ * Read every page into the import table and close the sync log. The table
+ * is emptied once the first page has been read, so an API that can't be
+ * reached leaves the previous rows in place.
+ */
+async function runSync(supabase: SupabaseClient, source: RestSource, syncLogId: string): Promise<void> {
+  const tableName = source.table_name!;
+  let imported = 0;
+  let skipped = 0;
+  let pages = 0;
+
+  try {
+    for await (const records of readPages(source.credentials, source.config)) {
+      if (pages === 0) {
+        await truncateImportTable(supabase, tableName);
+      }
+      pages++;
+
+      const cleaned = cleanImportRows(records, source.column_config);
+      skipped += cleaned.skipped;
+      imported += await insertImportRows(supabase, tableName, cleaned.rows);
+    }
+
+    await updateImportRowCount(supabase, tableName, imported, true);
+    await finishSync(supabase, source.id, syncLogId, {
+      status: 'success',
+      imported,
+      skipped,
+      lastValue: source.last_sync_value,
+      metadata: {
+        pages,
+        max_pages_reached: pages >= (source.config.pagination?.max_pages ?? DEFAULT_MAX_PAGES),
+      },
+    });
+  } catch (err) {
+    const { error } = connectorErrorBody(err, 'CONNECTION_FAILED');
+    console.error(`Sync of data source ${source.id} failed:`, error);
+    await finishSync(supabase, source.id, syncLogId, {
+      status: 'failed',
+      imported,
+      skipped,
+      lastValue: source.last_sync_value,
+      errorMessage: error.message,
+      metadata: { pages, error_code: error.code },
+    });
+  }
+}
+
+// =============================================================================
+// Main Handler
+// =============================================================================
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  const corsResult = handleCors(req);
+  if (corsResult) return corsResult;
+
+  try {
+    // Scheduled syncs call with the service role key; everything else needs a user
+    const isInternal = isServiceRoleRequest(req);
+    let userId: string | null = null;
+    if (!isInternal) {
+      try {
+        userId = await requireAuth(req);
+      } catch {
+        return corsErrorResponse('Unauthorized', 401, 'UNAUTHORIZED');
+      }
+    }
+
+    let request: ConnectorRequest;
+    try {
+      request = await req.json();
+    } catch {
+      return corsErrorResponse('Invalid request body', 400);
+    }
+
+    if (request.action === 'test' || request.action === 'preview') {
+      const credentials = request.credentials ?? {};
+      const config = request.config ?? {};
+
+      if (request.action === 'test') {
+        return corsResponse(await testConnection(credentials, config));
+      }
+
+      try {
+        return corsResponse(await previewData(credentials, config, request.limit));
+      } catch (err) {
+        return corsResponse(connectorErrorBody(err, 'CONNECTION_FAILED'));
+      }
+    }
+
+    if (request.action !== 'sync') {
+      return corsErrorResponse('action must be test, preview or sync', 400);
+    }
+
+    if (!request.dataSourceId) {
+      return corsErrorResponse('dataSourceId is required', 400);
+    }
+
+    // Users may only sync their organization's data sources
+    const supabase = createSupabaseAdmin();
+    const dataSource = await loadSyncDataSource<RestCredentials, RestConfig>(
+      supabase,
+      request.dataSourceId,
+      userId
+    );
+    if (!dataSource) {
+      return corsErrorResponse('Data source not found', 404, 'NOT_FOUND');
+    }
+    if (dataSource.type !== 'rest_api') {
+      return corsErrorResponse(`Data source type ${dataSource.type} is not a REST API`, 400);
+    }
+    if (!dataSource.table_name) {
+      return corsErrorResponse('Data source has no import table', 400, 'VALIDATION_FAILED');
+    }
+
+    const syncLogId = await startSync(supabase, dataSource.id, {
+      trigger: request.trigger ?? 'manual',
+      strategy: 'full',
+      pagination: dataSource.config.pagination?.type ?? 'none',
+    });
+    if (!syncLogId) {
+      return corsErrorResponse('A sync is already running for this data source', 409, 'SYNC_RUNNING');
+    }
+
+    await runInBackground(runSync(supabase, dataSource, syncLogId));
+
+    return corsResponse({ sync_log_id: syncLogId, status: 'started' });
+  } catch (error) {
+    console.error('REST connector error:', error);
+
+    return corsErrorResponse(
+      error instanceof Error ? error.message : 'REST connector failed',
+      500,
+      'INTERNAL_ERROR'
+    );
+  }
+});
@@ -0,0 +1,1179 @@
+/**
+ * Run Automations Edge Function
+ *
+ * Executor for automation triggers.
+ * - Claims each active trigger whose next_run_at has passed
+ *   (claim_automation_run), which advances it to the next run_time on an
+ *   allowed day of the week in the trigger timezone
+ * - Finds the members the trigger targets today (get_automation_targets):
+ *   birthdays, membership anniversaries, days since last visit or
+ *   transaction, expiring memberships and one-off scheduled sends, after
+ *   filters, consent, min_interval_days and max_sends_per_member
+ * - Performs the trigger action per member: send_sms / send_email via the
+ *   send functions, add_tag / remove_tag, webhook or update_field
+ * - Records an automation_executions row per member with the outcome
+ * - Processes due automation_events (claim_automation_events) for
+ *   event-based triggers: new members (after delayHours; imported members
+ *   only with includeImported), status changes, tags added / removed and
+ *   visit / lifetime value milestones
+ *
+ * Each invocation does a bounded amount of work. A trigger that runs out of
+ * time is left due, and the next invocation resumes it (members already
+ * executed today are not targeted again).
+ *
+ * Request body (all optional):
+ * - triggerId: only run this trigger (if it is due) and its events
+ * - dryRun: with triggerId, list the members the trigger would target now
+ *   and what each would receive, without sending or recording anything
+ *
+ * Can be triggered by:
+ * - Cron job (pg_cron)
+ * - Manual API call
+ */
+
+import { corsResponse, corsErrorResponse, handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, getUserOrganizationId, requireAuth } from '../_shared/supabase.ts';
+import { findUnknownVariables, renderTemplate } from '../_shared/templateEngine.ts';
+import { buildUnsubscribeUrls } from '../_shared/unsubscribe.ts';
+import type { TemplateContext } from '../_shared/templateEngine.ts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type ActionType =
+  | 'send_sms'
+  | 'send_email'
+  | 'add_tag'
+  | 'remove_tag'
+  | 'webhook'
+  | 'update_field';
+
+interface AutomationTrigger {
+  id: string;
+  organization_id: string;
+  name: string;
+  trigger_type: string;
+  action_type: ActionType;
+  action_config: Record<string, unknown>;
+}
+
+interface Target {
+  member_id: string;
+  email: string | null;
+  phone: string | null;
+}
+
+interface Member {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  phone: string | null;
+  membership_status: string | null;
+  tags: string[] | null;
+  custom_fields: Record<string, unknown> | null;
+  sites: { name: string } | null;
+  membership_levels: { name: string } | null;
+}
+
+/** Message content resolved once per run from the action config or template */
+interface MessageContent {
+  subject: string;
+  body: string;
+}
+
+/** A member change queued for an event-based trigger (automation_events) */
+interface AutomationEvent {
+  id: string;
+  trigger_id: string;
+  member_id: string;
+  event_type: string;
+  event_data: Record<string, unknown>;
+}
+
+interface RunRequest {
+  triggerId?: string;
+  dryRun?: boolean;
+}
+
+interface DryRunMember {
+  memberId: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  phone: string | null;
+  subject: string | null;
+  body: string | null;
+  description: string;
+}
+
+interface DryRunResult {
+  triggerId: string;
+  totalTargeted: number;
+  members: DryRunMember[];
+}
+
+interface RunResult {
+  triggerId: string;
+  membersTargeted: number;
+  executionsSent: number;
+  executionsFailed: number;
+  executionsSkipped: number;
+  completed: boolean;
+  errors: string[];
+}
+
+interface EventRunResult {
+  eventsProcessed: number;
+  executionsSent: number;
+  executionsFailed: number;
+  eventsSkipped: number;
+  errors: string[];
+}
+
+interface ActionOutcome {
+  status: 'sent' | 'failed' | 'skipped';
+  message: string;
+  metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const SMS_RATE_LIMIT = 10; // messages per second
+const DEFAULT_RATE_LIMIT = 50; // emails, tag updates and webhooks per second
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// Stop starting new batches after this long so the invocation finishes well
+// inside the Edge Function wall-clock limit; the next run resumes the trigger.
+const WORK_BUDGET_MS = 100 * 1000;
+
+// Keep the response small for large runs
+const MAX_REPORTED_ERRORS = 20;
+const DRY_RUN_PREVIEW_LIMIT = 50;
+
+// Events claimed per claim_automation_events call
+const EVENT_CLAIM_LIMIT = 100;
+
+const TRIGGER_COLUMNS = 'id, organization_id, name, trigger_type, action_type, action_config';
+
+const MEMBER_COLUMNS =
+  'id, first_name, last_name, email, phone, membership_status, tags, custom_fields, sites (name), membership_levels (name)';
+
+// update_field action: config field name -> members column
+const UPDATABLE_FIELDS: Record<string, string> = {
+  membershipStatus: 'membership_status',
+  membershipLevelId: 'membership_level_id',
+  membershipExpiryDate: 'membership_expiry_date',
+};
+
+const CUSTOM_FIELD_PREFIX = 'custom.';
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function recordError(result: { errors: string[] }, message: string): void {
+  if (result.errors.length < MAX_REPORTED_ERRORS) {
+    result.errors.push(message);
+  }
+}
+
+async function buildTemplateContext(member: Member): Promise<TemplateContext> {
+  const { pageUrl } = await buildUnsubscribeUrls(member.id);
+
+  return {
+    firstName: member.first_name,
+    lastName: member.last_name,
+    email: member.email,
+    phone: member.phone,
+    siteName: member.sites?.name ?? null,
+    membershipLevel: member.membership_levels?.name ?? null,
+    unsubscribeUrl: pageUrl,
+    customFields: member.custom_fields,
+  };
+}
+
+/**
+ * Reads the error message from a send function error response, if any
+ */
+async function getErrorMessage(error: { message: string; context?: Response }): Promise<string> {
+  const context = error.context;
+  if (!context || typeof context.json !== 'function') return error.message;
+
+  try {
+    const body = await context.clone().json();
+    return typeof body?.error === 'string' ? body.error : error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+/**
+ * Resolves the message subject and body for send_sms / send_email from the
+ * action config, falling back to the configured template.
+ */
+async function loadMessageContent(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  trigger: AutomationTrigger
+): Promise<MessageContent> {
+  const config = trigger.action_config;
+  const inlineBody =
+    trigger.action_type === 'send_sms' ? config.message : config.body;
+
+  if (typeof inlineBody === 'string' && inlineBody.trim()) {
+    return {
+      subject: typeof config.subject === 'string' ? config.subject : '',
+      body: inlineBody,
+    };
+  }
+
+  if (typeof config.templateId !== 'string') {
+    throw new Error('Action has no message content or template');
+  }
+
+  const { data: template, error } = await supabase
+    .from('campaign_templates')
+    .select('subject, content')
+    .eq('id', config.templateId)
+    .single();
+
+  if (error || !template) {
+    throw new Error('Message template not found');
+  }
+
+  return {
+    subject:
+      typeof config.subject === 'string' && config.subject
+        ? config.subject
+        : template.subject || '',
+    body: template.content,
+  };
+}
+
+/**
+ * Message content for send_sms / send_email actions (null for other
+ * actions), rejecting templates with unknown variables.
+ */
+async function loadActionContent(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  trigger: AutomationTrigger
+): Promise<MessageContent | null> {
+  if (trigger.action_type !== 'send_sms' && trigger.action_type !== 'send_email') {
+    return null;
+  }
+
+  const content = await loadMessageContent(supabase, trigger);
+
+  // Never send literal {{placeholders}}
+  const unknownVariables = findUnknownVariables(content.subject, content.body);
+  if (unknownVariables.length > 0) {
+    throw new Error(`Unknown template variables: ${unknownVariables.join(', ')}`);
+  }
+
+  return content;
+}
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+async function sendSms(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  trigger: AutomationTrigger,
+  executionId: string,
+  member: Member,
+  content: MessageContent
+): Promise<ActionOutcome> {
+  if (!member.phone) {
+    return { status: 'skipped', message: 'Member has no phone number' };
+  }
+
+  const context = await buildTemplateContext(member);
+  const { data, error } = await supabase.functions.invoke('send-sms', {
+    body: {
+      messageId: executionId,
+      to: member.phone,
+      body: renderTemplate(content.body, context),
+      memberId: member.id,
+      source: 'automation',
+    },
+  });
+
+  if (error) {
+    return { status: 'failed', message: await getErrorMessage(error) };
+  }
+
+  return {
+    status: 'sent',
+    message: 'SMS sent',
+    metadata: { externalId: data?.externalId ?? null, triggerName: trigger.name },
+  };
+}
+
+async function sendEmail(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  trigger: AutomationTrigger,
+  executionId: string,
+  member: Member,
+  content: MessageContent
+): Promise<ActionOutcome> {
+  if (!member.email) {
+    return { status: 'skipped', message: 'Member has no email address' };
+  }
+
+  const context = await buildTemplateContext(member);
+  const { data, error } = await supabase.functions.invoke('send-email', {
+    body: {
+      messageId: executionId,
+      to: member.email,
+      subject: renderTemplate(content.subject, context),
+      html: renderTemplate(content.body, context, { escapeHtml: true }),
+      memberId: member.id,
+      source: 'automation',
+    },
+  });
+
+  if (error) {
+    return { status: 'failed', message: await getErrorMessage(error) };
+  }
+
+  return {
+    status: 'sent',
+    message: 'Email sent',
+    metadata: { externalId: data?.externalId ?? null, triggerName: trigger.name },
+  };
+}
+
+async function updateTags(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  trigger: AutomationTrigger,
+  member: Member
+): Promise<ActionOutcome> {
+  const tag = trigger.action_config.tag;
+  if (typeof tag !== 'string' || !tag.trim()) {
+    return { status: 'failed', message: 'Action has no tag' };
+  }
+
+  const currentTags = member.tags || [];
+  const adding = trigger.action_type === 'add_tag';
+  const hasTag = currentTags.includes(tag);
+
+  if (adding === hasTag) {
+    return {
+      status: 'skipped',
+      message: adding ? `Already tagged "${tag}"` : `Not tagged "${tag}"`,
+    };
+  }
+
+  const tags = adding ? [...currentTags, tag] : currentTags.filter((t) => t !== tag);
+
+  const { error } = await supabase.from('members').update({ tags }).eq('id', member.id);
+
+  if (error) {
+    return { status: 'failed', message: `Failed to update tags: ${error.message}` };
+  }
+
+  return {
+    status: 'sent',
+    message: adding ? `Added tag "${tag}"` : `Removed tag "${tag}"`,
+  };
+}
+
+async function updateField(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  trigger: AutomationTrigger,
+  member: Member
+): Promise<ActionOutcome> {
+  const { field, value } = trigger.action_config;
+
+  if (typeof field !== 'string') {
+    return { status: 'failed', message: 'Action has no field' };
+  }
+
+  let update: Record<string, unknown>;
+
+  if (field.startsWith(CUSTOM_FIELD_PREFIX) && field.length > CUSTOM_FIELD_PREFIX.length) {
+    update = {
+      custom_fields: {
+        ...(member.custom_fields || {}),
+        [field.slice(CUSTOM_FIELD_PREFIX.length)]: value,
+      },
+    };
+  } else if (UPDATABLE_FIELDS[field]) {
+    update = { [UPDATABLE_FIELDS[field]]: value ?? null };
+  } else {
+    return { status: 'failed', message: `Field "${field}" cannot be updated by automations` };
+  }
+
+  const { error } = await supabase.from('members').update(update).eq('id', member.id);
+
+  if (error) {
+    return { status: 'failed', message: `Failed to update ${field}: ${error.message}` };
+  }
+
+  return { status: 'sent', message: `Updated ${field}` };
+}
+
+async function callWebhook(
+  trigger: AutomationTrigger,
+  member: Member,
+  event?: AutomationEvent
+): Promise<ActionOutcome> {
+  const { url, method = 'POST', headers, body } = trigger.action_config;
+
+  if (typeof url !== 'string' || !/^https:\/\//i.test(url)) {
+    return { status: 'failed', message: 'Webhook URL must use https' };
+  }
+
+  const payload = {
+    ...((body as Record<string, unknown>) || {}),
+    trigger: { id: trigger.id, name: trigger.name, type: trigger.trigger_type },
+    ...(event ? { event: { type: event.event_type, data: event.event_data } } : {}),
+    member: {
+      id: member.id,
+      firstName: member.first_name,
+      lastName: member.last_name,
+      email: member.email,
+      phone: member.phone,
+      membershipStatus: member.membership_status,
+    },
+  };
+
+  try {
+    const response = await fetch(url, {
+      method: method as string,
+      headers: {
+        'Content-Type': 'application/json',
+        ...((headers as Record<string, string>) || {}),
+      },
+      ...(method === 'GET' ? {} : { body: JSON.stringify(payload) }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return {
+        status: 'failed',
+        message: `Webhook responded ${response.status}`,
+        metadata: { statusCode: response.status },
+      };
+    }
+
+    return {
+      status: 'sent',
+      message: 'Webhook called',
+      metadata: { statusCode: response.status },
+    };
+  } catch (err) {
+    return {
+      status: 'failed',
+      message: `Webhook failed: ${err instanceof Error ? err.message : 'Unknown error'}`,
+    };
+  }
+}
+
+// =============================================================================
+// Trigger Processing
+// =============================================================================
+
+async function executeForMember(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  trigger: AutomationTrigger,
+  member: Member,
+  content: MessageContent | null,
+  result: { errors: string[] },
+  event?: AutomationEvent
+): Promise<ActionOutcome['status'] | null> {
+  const { data: execution, error: insertError } = await supabase
+    .from('automation_executions')
+    .insert({
+      trigger_id: trigger.id,
+      member_id: member.id,
+      status: 'pending',
+      action_type: trigger.action_type,
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !execution) {
+    recordError(result, `${member.id}: failed to record execution`);
+    return null;
+  }
+
+  // Link the event first: a reclaimed event with an execution is not re-run
+  if (event) {
+    await supabase
+      .from('automation_events')
+      .update({ execution_id: execution.id })
+      .eq('id', event.id);
+  }
+
+  let outcome: ActionOutcome;
+
+  try {
+    switch (trigger.action_type) {
+      case 'send_sms':
+        outcome = await sendSms(supabase, trigger, execution.id, member, content!);
+        break;
+      case 'send_email':
+        outcome = await sendEmail(supabase, trigger, execution.id, member, content!);
+        break;
+      case 'add_tag':
+      case 'remove_tag':
+        outcome = await updateTags(supabase, trigger, member);
+        break;
+      case 'update_field':
+        outcome = await updateField(supabase, trigger, member);
+        break;
+      case 'webhook':
+        outcome = await callWebhook(trigger, member, event);
+        break;
+      default:
+        outcome = { status: 'failed', message: `Unsupported action: ${trigger.action_type}` };
+    }
+  } catch (err) {
+    outcome = {
+      status: 'failed',
+      message: err instanceof Error ? err.message : 'Unknown error',
+    };
+  }
+
+  if (outcome.status === 'failed') {
+    recordError(result, `${member.id}: ${outcome.message}`);
+  }
+
+  await supabase
+    .from('automation_executions')
+    .update({
+      status: outcome.status,
+      result_message: outcome.message,
+      result_metadata: event
+        ? { ...outcome.metadata, event: { type: event.event_type, ...event.event_data } }
+        : outcome.metadata ?? {},
+    })
+    .eq('id', execution.id);
+
+  return outcome.status;
+}
+
+/**
+ * Runs a claimed trigger for every targeted member until done or the
+ * deadline passes. An unfinished trigger is made due again so the next
+ * invocation resumes it.
+ */
+async function runTrigger(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  trigger: AutomationTrigger,
+  deadline: number
+): Promise<RunResult> {
+  const result: RunResult = {
+    triggerId: trigger.id,
+    membersTargeted: 0,
+    executionsSent: 0,
+    executionsFailed: 0,
+    executionsSkipped: 0,
+    completed: false,
+    errors: [],
+  };
+
+  const content = await loadActionContent(supabase, trigger);
+
+  const { data: targets, error: targetsError } = await supabase.rpc(
+    'get_automation_targets',
+    { p_trigger_id: trigger.id }
+  );
+
+  if (targetsError) {
+    throw new Error(`Failed to find target members: ${targetsError.message}`);
+  }
+
+  const memberIds = ((targets || []) as Target[]).map((t) => t.member_id);
+  result.membersTargeted = memberIds.length;
+
+  const rateLimit =
+    trigger.action_type === 'send_sms' ? SMS_RATE_LIMIT : DEFAULT_RATE_LIMIT;
+
+  for (let i = 0; i < memberIds.length; i += rateLimit) {
+    if (Date.now() >= deadline) {
+      // Out of time: make the trigger due again so the next run resumes it
+      await supabase
+        .from('automation_triggers')
+        .update({ next_run_at: new Date().toISOString() })
+        .eq('id', trigger.id);
+
+      return result;
+    }
+
+    const batchIds = memberIds.slice(i, i + rateLimit);
+
+    // Load member details for personalization and field updates
+    const { data: members, error: membersError } = await supabase
+      .from('members')
+      .select(MEMBER_COLUMNS)
+      .in('id', batchIds);
+
+    if (membersError) {
+      throw new Error(`Failed to load members: ${membersError.message}`);
+    }
+
+    // Process batch in parallel
+    const outcomes = await Promise.all(
+      ((members || []) as Member[]).map((member) =>
+        executeForMember(supabase, trigger, member, content, result)
+      )
+    );
+
+    for (const outcome of outcomes) {
+      if (outcome === 'sent') result.executionsSent++;
+      else if (outcome === 'failed') result.executionsFailed++;
+      else if (outcome === 'skipped') result.executionsSkipped++;
+    }
+
+    // Wait 1 second before next batch (rate limiting)
+    if (i + rateLimit < memberIds.length) {
+      await sleep(1000);
+    }
+  }
+
+  result.completed = true;
+  return result;
+}
+
+// =============================================================================
+// Event Processing
+// =============================================================================
+
+async function finishEvents(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  eventIds: string[],
+  status: 'processed' | 'skipped',
+  message: string | null
+): Promise<void> {
+  await supabase
+    .from('automation_events')
+    .update({ status, processed_at: new Date().toISOString(), result_message: message })
+    .in('id', eventIds);
+}
+
+/** Returns claimed events to the queue for the next run */
+async function releaseEvents(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  events: AutomationEvent[]
+): Promise<void> {
+  await supabase
+    .from('automation_events')
+    .update({ status: 'pending', claimed_at: null })
+    .in('id', events.map((e) => e.id));
+}
+
+/**
+ * Runs one trigger's action for its claimed events. Members that no longer
+ * match the trigger (filters, consent, min_interval_days,
+ * max_sends_per_member) are skipped. Returns the events not reached before
+ * the deadline.
+ */
+async function processTriggerEvents(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  triggerId: string,
+  events: AutomationEvent[],
+  deadline: number,
+  result: EventRunResult
+): Promise<AutomationEvent[]> {
+  const { data: trigger, error: triggerError } = await supabase
+    .from('automation_triggers')
+    .select(TRIGGER_COLUMNS)
+    .eq('id', triggerId)
+    .single();
+
+  if (triggerError || !trigger) {
+    await finishEvents(supabase, events.map((e) => e.id), 'skipped', 'Automation not found');
+    result.eventsSkipped += events.length;
+    return [];
+  }
+
+  let content: MessageContent | null;
+  try {
+    content = await loadActionContent(supabase, trigger as AutomationTrigger);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    recordError(result, `${triggerId}: ${message}`);
+    await finishEvents(supabase, events.map((e) => e.id), 'skipped', message);
+    result.eventsSkipped += events.length;
+    return [];
+  }
+
+  const { data: eligible, error: eligibleError } = await supabase.rpc(
+    'get_trigger_eligible_members',
+    { p_trigger_id: triggerId }
+  );
+
+  if (eligibleError) {
+    throw new Error(`Failed to find eligible members: ${eligibleError.message}`);
+  }
+
+  const eligibleIds = new Set(((eligible || []) as Target[]).map((t) => t.member_id));
+
+  const { data: members, error: membersError } = await supabase
+    .from('members')
+    .select(MEMBER_COLUMNS)
+    .in('id', [...new Set(events.map((e) => e.member_id))]);
+
+  if (membersError) {
+    throw new Error(`Failed to load members: ${membersError.message}`);
+  }
+
+  const membersById = new Map(((members || []) as Member[]).map((m) => [m.id, m]));
+  const isRunnable = (e: AutomationEvent) =>
+    membersById.has(e.member_id) && eligibleIds.has(e.member_id);
+
+  const skipped = events.filter((e) => !isRunnable(e));
+  if (skipped.length > 0) {
+    await finishEvents(
+      supabase,
+      skipped.map((e) => e.id),
+      'skipped',
+      'Member does not match the automation filters, consent or send limits'
+    );
+    result.eventsSkipped += skipped.length;
+  }
+
+  const runnable = events.filter(isRunnable);
+  const rateLimit =
+    trigger.action_type === 'send_sms' ? SMS_RATE_LIMIT : DEFAULT_RATE_LIMIT;
+
+  for (let i = 0; i < runnable.length; i += rateLimit) {
+    if (Date.now() >= deadline) {
+      return runnable.slice(i);
+    }
+
+    const batch = runnable.slice(i, i + rateLimit);
+
+    // Process batch in parallel
+    await Promise.all(
+      batch.map(async (event) => {
+        const status = await executeForMember(
+          supabase,
+          trigger as AutomationTrigger,
+          membersById.get(event.member_id)!,
+          content,
+          result,
+          event
+        );
+
+        await finishEvents(supabase, [event.id], 'processed', status);
+        result.eventsProcessed++;
+        if (status === 'sent') result.executionsSent++;
+        else if (status === 'failed') result.executionsFailed++;
+      })
+    );
+
+    // Wait 1 second before next batch (rate limiting)
+    if (i + rateLimit < runnable.length) {
+      await sleep(1000);
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Processes due automation events in claimed batches until the queue is
+ * empty or the deadline passes. Claimed events that were not reached are
+ * released for the next run.
+ */
+async function processEvents(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  deadline: number,
+  organizationId: string | null,
+  triggerId?: string
+): Promise<EventRunResult> {
+  const result: EventRunResult = {
+    eventsProcessed: 0,
+    executionsSent: 0,
+    executionsFailed: 0,
+    eventsSkipped: 0,
+    errors: [],
+  };
+
+  while (Date.now() < deadline) {
+    const { data: claimed, error: claimError } = await supabase.rpc(
+      'claim_automation_events',
+      {
+        p_limit: EVENT_CLAIM_LIMIT,
+        p_organization_id: organizationId,
+        p_trigger_id: triggerId ?? null,
+      }
+    );
+
+    if (claimError) {
+      throw new Error(`Failed to claim automation events: ${claimError.message}`);
+    }
+
+    const events = (claimed || []) as AutomationEvent[];
+    if (events.length === 0) break;
+
+    const byTrigger = new Map<string, AutomationEvent[]>();
+    for (const event of events) {
+      byTrigger.set(event.trigger_id, [...(byTrigger.get(event.trigger_id) || []), event]);
+    }
+
+    const unprocessed: AutomationEvent[] = [];
+    for (const [id, triggerEvents] of byTrigger) {
+      if (Date.now() >= deadline) {
+        unprocessed.push(...triggerEvents);
+        continue;
+      }
+
+      try {
+        unprocessed.push(
+          ...(await processTriggerEvents(supabase, id, triggerEvents, deadline, result))
+        );
+      } catch (err) {
+        // Leave the events for the next run
+        recordError(result, `${id}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        unprocessed.push(...triggerEvents);
+      }
+    }
+
+    if (unprocessed.length > 0) {
+      await releaseEvents(supabase, unprocessed);
+      break;
+    }
+  }
+
+  return result;
+}
+
+// =============================================================================
+// Dry Run
+// =============================================================================
+
+/**
+ * Describes what a non-message action would do to the member
+ */
+function describeAction(trigger: AutomationTrigger, member: Member): string {
+  const config = trigger.action_config;
+
+  switch (trigger.action_type) {
+    case 'add_tag':
+      return (member.tags || []).includes(config.tag as string)
+        ? `Already tagged "${config.tag}" (skipped)`
+        : `Add tag "${config.tag}"`;
+    case 'remove_tag':
+      return (member.tags || []).includes(config.tag as string)
+        ? `Remove tag "${config.tag}"`
+        : `Not tagged "${config.tag}" (skipped)`;
+    case 'update_field':
+      return `Set ${config.field} to ${JSON.stringify(config.value ?? null)}`;
+    case 'webhook':
+      return `${config.method || 'POST'} ${config.url}`;
+    default:
+      return trigger.action_type;
+  }
+}
+
+/**
+ * Lists the members a trigger targets now and renders what each would
+ * receive. Nothing is sent and no executions are recorded.
+ */
+async function previewTrigger(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  trigger: AutomationTrigger
+): Promise<DryRunResult> {
+  const content =
+    trigger.action_type === 'send_sms' || trigger.action_type === 'send_email'
+      ? await loadMessageContent(supabase, trigger)
+      : null;
+
+  const { data: targets, error: targetsError } = await supabase.rpc(
+    'get_automation_targets',
+    { p_trigger_id: trigger.id }
+  );
+
+  if (targetsError) {
+    throw new Error(`Failed to find target members: ${targetsError.message}`);
+  }
+
+  const memberIds = ((targets || []) as Target[]).map((t) => t.member_id);
+
+  const { data: members, error: membersError } = memberIds.length
+    ? await supabase
+        .from('members')
+        .select(MEMBER_COLUMNS)
+        .in('id', memberIds.slice(0, DRY_RUN_PREVIEW_LIMIT))
+    : { data: [], error: null };
+
+  if (membersError) {
+    throw new Error(`Failed to load members: ${membersError.message}`);
+  }
+
+  const previews = await Promise.all(
+    ((members || []) as Member[]).map(async (member): Promise<DryRunMember> => {
+      const preview: DryRunMember = {
+        memberId: member.id,
+        firstName: member.first_name,
+        lastName: member.last_name,
+        email: member.email,
+        phone: member.phone,
+        subject: null,
+        body: null,
+        description: '',
+      };
+
+      if (!content) {
+        return { ...preview, description: describeAction(trigger, member) };
+      }
+
+      const context = await buildTemplateContext(member);
+
+      if (trigger.action_type === 'send_sms') {
+        return {
+          ...preview,
+          body: renderTemplate(content.body, context),
+          description: member.phone ? `SMS to ${member.phone}` : 'No phone number (skipped)',
+        };
+      }
+
+      return {
+        ...preview,
+        subject: renderTemplate(content.subject, context),
+        body: renderTemplate(content.body, context),
+        description: member.email ? `Email to ${member.email}` : 'No email address (skipped)',
+      };
+    })
+  );
+
+  return {
+    triggerId: trigger.id,
+    totalTargeted: memberIds.length,
+    members: previews,
+  };
+}
+
+// =============================================================================
+// Main Handler
+// =============================================================================
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  const corsResult = handleCors(req);
+  if (corsResult) return corsResult;
+
+  try {
+    // Check for cron secret or user auth
+    const cronSecret = req.headers.get('X-Cron-Secret');
+    const expectedSecret = Deno.env.get('CRON_SECRET');
+
+    let userId: string | null = null;
+    const isCron = !!cronSecret && !!expectedSecret && cronSecret === expectedSecret;
+
+    if (isCron) {
+      // Cron job - no user auth needed
+      userId = 'cron';
+    } else {
+      // Regular request - require auth
+      userId = await requireAuth(req);
+    }
+
+    const supabase = createSupabaseAdmin();
+
+    // Parse request for optional trigger ID
+    let request: RunRequest = {};
+    try {
+      request = await req.json();
+    } catch {
+      // No body or invalid JSON - run all due triggers
+    }
+
+    // Users act on their organization's triggers; a dry run only reads
+    let organizationId: string | null = null;
+    if (!isCron) {
+      organizationId = await getUserOrganizationId(
+        supabase,
+        userId!,
+        request.dryRun ? 'viewer' : 'user'
+      );
+      if (!organizationId) {
+        return corsErrorResponse('Not allowed to run automations', 403, 'FORBIDDEN');
+      }
+    }
+
+    // Dry run: preview one trigger, whether or not it is due or active
+    if (request.dryRun) {
+      if (!request.triggerId) {
+        return corsErrorResponse('triggerId is required for a dry run', 400);
+      }
+
+      const { data: trigger, error } = await supabase
+        .from('automation_triggers')
+        .select(TRIGGER_COLUMNS)
+        .eq('id', request.triggerId)
+        .single();
+
+      if (error || !trigger || (!isCron && trigger.organization_id !== organizationId)) {
+        return corsErrorResponse('Automation not found', 404, 'NOT_FOUND');
+      }
+
+      try {
+        const dryRun = await previewTrigger(supabase, trigger as AutomationTrigger);
+        return corsResponse({ success: true, dryRun });
+      } catch (err) {
+        return corsErrorResponse(
+          err instanceof Error ? err.message : 'Dry run failed',
+          400,
+          'DRY_RUN_FAILED'
+        );
+      }
+    }
+
+    let dueQuery = supabase
+      .from('automation_triggers')
+      .select(TRIGGER_COLUMNS)
+      .eq('is_active', true)
+      .lte('next_run_at', new Date().toISOString())
+      .order('next_run_at', { ascending: true });
+
+    if (request.triggerId) {
+      dueQuery = dueQuery.eq('id', request.triggerId);
+    }
+
+    // Users may only run their organization's triggers
+    if (organizationId) {
+      dueQuery = dueQuery.eq('organization_id', organizationId);
+    }
+
+    const { data: triggers, error: fetchError } = await dueQuery;
+
+    if (fetchError) {
+      return corsErrorResponse(
+        `Failed to fetch automation triggers: ${fetchError.message}`,
+        500
+      );
+    }
+
+    // Run each trigger, then the event queue, within the shared time budget
+    const deadline = Date.now() + WORK_BUDGET_MS;
+    const results: RunResult[] = [];
+
+    for (const trigger of (triggers || []) as AutomationTrigger[]) {
+      if (Date.now() >= deadline) break;
+
+      // Another run may have claimed it since the query
+      const { data: claimed, error: claimError } = await supabase.rpc(
+        'claim_automation_run',
+        { p_trigger_id: trigger.id }
+      );
+
+      if (claimError) {
+        console.error(`Failed to claim automation ${trigger.id}:`, claimError);
+        continue;
+      }
+
+      if (!claimed) continue;
+
+      let result: RunResult;
+
+      try {
+        result = await runTrigger(supabase, trigger, deadline);
+      } catch (error) {
+        console.error(`Automation ${trigger.id} run failed:`, error);
+        result = {
+          triggerId: trigger.id,
+          membersTargeted: 0,
+          executionsSent: 0,
+          executionsFailed: 0,
+          executionsSkipped: 0,
+          completed: false,
+          errors: [error instanceof Error ? error.message : 'Unknown error'],
+        };
+      }
+
+      results.push(result);
+
+      // Log audit event
+      await supabase.from('audit_logs').insert({
+        event_type: 'AUTOMATION_RUN',
+        email: userId || 'system',
+        metadata: {
+          triggerId: trigger.id,
+          triggerType: trigger.trigger_type,
+          actionType: trigger.action_type,
+          membersTargeted: result.membersTargeted,
+          executionsSent: result.executionsSent,
+          executionsFailed: result.executionsFailed,
+          executionsSkipped: result.executionsSkipped,
+          completed: result.completed,
+        },
+      });
+    }
+
+    let events: EventRunResult;
+
+    try {
+      events = await processEvents(
+        supabase,
+        deadline,
+        organizationId,
+        request.triggerId
+      );
+    } catch (error) {
+      console.error('Automation event processing failed:', error);
+      events = {
+        eventsProcessed: 0,
+        executionsSent: 0,
+        executionsFailed: 0,
+        eventsSkipped: 0,
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+      };
+    }
+
+    if (events.eventsProcessed > 0 || events.eventsSkipped > 0) {
+      await supabase.from('audit_logs').insert({
+        event_type: 'AUTOMATION_RUN',
+        email: userId || 'system',
+        metadata: {
+          eventDriven: true,
+          eventsProcessed: events.eventsProcessed,
+          eventsSkipped: events.eventsSkipped,
+          executionsSent: events.executionsSent,
+          executionsFailed: events.executionsFailed,
+        },
+      });
+    }
+
+    if (results.length === 0 && events.eventsProcessed === 0 && events.eventsSkipped === 0) {
+      return corsResponse({
+        success: true,
+        message: 'No automations due',
+        results,
+        events,
+      });
+    }
+
+    return corsResponse({
+      success: true,
+      message: `Ran ${results.length} automation(s) and ${events.eventsProcessed} event(s)`,
+      results,
+      events,
+    });
+  } catch (error) {
+    console.error('Run automations error:', error);
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return corsErrorResponse('Unauthorized', 401, 'UNAUTHORIZED');
+    }
+
+    return corsErrorResponse(
+      'Failed to run automations',
+      500,
+      'INTERNAL_ERROR'
+    );
+  }
+});
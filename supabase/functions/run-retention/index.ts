@@ -0,0 +1,181 @@
+/**
+ * Run Retention Edge Function
+ *
+ * Applies the data retention windows from app_settings
+ * (data_retention_days, audit_retention_days) and records what was removed
+ * in retention_reports.
+ * - apply_data_retention() anonymizes campaign messages of finished
+ *   campaigns, deletes conversation messages, sync logs and import rollback
+ *   snapshots older than the data window, and audit logs older than the
+ *   audit window. Members and campaigns under a legal hold are exempt; the
+ *   rows they keep are counted in the report's held totals.
+ * - Import tables not refreshed within the data window are emptied
+ *
+ * Can be triggered by:
+ * - Cron job (pg_cron), daily
+ * - Manual API call (admins only, Settings page)
+ */
+
+import { corsResponse, corsErrorResponse, handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, requireAuth } from '../_shared/supabase.ts';
+import { truncateImportTable, updateImportRowCount } from '../_shared/importSync.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RetentionResult {
+  data_retention_days: number;
+  audit_retention_days: number;
+  removed: Record<string, number>;
+  held: Record<string, number>;
+}
+
+interface StaleImportTable {
+  table_name: string;
+  row_count: number;
+}
+
+// =============================================================================
+// Import Tables
+// =============================================================================
+
+/**
+ * Empty the import tables last refreshed before the cutoff
+ */
+async function clearStaleImportTables(
+  supabase: SupabaseClient,
+  dataRetentionDays: number
+): Promise<{ tables: number; rows: number }> {
+  const cutoff = new Date(Date.now() - dataRetentionDays * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('import_tables')
+    .select('table_name, row_count')
+    .gt('row_count', 0)
+    .lt('last_updated_at', cutoff.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to fetch import tables: ${error.message}`);
+  }
+
+  let rows = 0;
+  const tables = (data ?? []) as StaleImportTable[];
+  for (const table of tables) {
+    await truncateImportTable(supabase, table.table_name);
+    await updateImportRowCount(supabase, table.table_name, 0, true);
+    rows += table.row_count;
+  }
+
+  return { tables: tables.length, rows };
+}
+
+// =============================================================================
+// Main Handler
+// =============================================================================
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  const corsResult = handleCors(req);
+  if (corsResult) return corsResult;
+
+  const supabase = createSupabaseAdmin();
+
+  // Check for cron secret or an admin user
+  const cronSecret = req.headers.get('X-Cron-Secret');
+  const expectedSecret = Deno.env.get('CRON_SECRET');
+  const isCron = !!cronSecret && !!expectedSecret && cronSecret === expectedSecret;
+
+  let userId: string | null = null;
+  if (!isCron) {
+    try {
+      userId = await requireAuth(req);
+    } catch {
+      return corsErrorResponse('Unauthorized', 401, 'UNAUTHORIZED');
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', userId)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return corsErrorResponse('Only admins can run data retention', 403, 'FORBIDDEN');
+    }
+  }
+
+  const { data: report, error: reportError } = await supabase
+    .from('retention_reports')
+    .insert({ trigger_type: isCron ? 'scheduled' : 'manual' })
+    .select('id')
+    .single();
+
+  if (reportError || !report) {
+    return corsErrorResponse(`Failed to start retention run: ${reportError?.message}`, 500);
+  }
+
+  // Kept for the report if clearing the import tables fails afterwards
+  let result: RetentionResult | null = null;
+
+  try {
+    const { data, error } = await supabase.rpc('apply_data_retention');
+    if (error) {
+      throw new Error(`Failed to apply data retention: ${error.message}`);
+    }
+
+    result = data as RetentionResult;
+    const imports = await clearStaleImportTables(supabase, result.data_retention_days);
+    const removed = {
+      ...result.removed,
+      import_tables_cleared: imports.tables,
+      import_rows_deleted: imports.rows,
+    };
+
+    await supabase
+      .from('retention_reports')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        data_retention_days: result.data_retention_days,
+        audit_retention_days: result.audit_retention_days,
+        removed,
+        held: result.held,
+      })
+      .eq('id', report.id);
+
+    await supabase.from('audit_logs').insert({
+      event_type: 'DATA_RETENTION_RUN',
+      email: userId || 'system',
+      metadata: { reportId: report.id, removed, held: result.held },
+    });
+
+    return corsResponse({
+      success: true,
+      reportId: report.id,
+      removed,
+      held: result.held,
+    });
+  } catch (error) {
+    console.error('Run retention error:', error);
+    const message = error instanceof Error ? error.message : 'Data retention failed';
+
+    await supabase
+      .from('retention_reports')
+      .update({
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        ...(result && {
+          data_retention_days: result.data_retention_days,
+          audit_retention_days: result.audit_retention_days,
+          removed: result.removed,
+          held: result.held,
+        }),
+        error_message: message,
+      })
+      .eq('id', report.id);
+
+    return corsErrorResponse(message, 500, 'INTERNAL_ERROR');
+  }
+});
@@ -0,0 +1,298 @@
+/**
+ * Run Syncs Edge Function
+ *
+ * Runner for scheduled data source syncs.
+ * - Closes syncs that stopped without finishing (a running sync_logs row
+ *   older than STALE_SYNC_MINUTES) as failed, so their sources can run again
+ * - Finds active, scheduled data sources whose next_sync_at has passed and
+ *   that are not already syncing
+ * - Starts each one through its connector (database-connector for
+ *   postgres / mysql / mssql, rest-connector for rest_api, sheets-connector
+ *   for Google Sheets member imports) with the service role key. The
+ *   connector claims the source (sync_status 'syncing'), so a source already
+ *   syncing is skipped rather than run twice, then reads it, cleans the rows
+ *   with column_config (processRows) and loads them into the import table;
+ *   sheets-connector imports the rows as members instead.
+ * - When a sync finishes, the connector writes the sync log
+ *   (records_imported, records_skipped) and schedules the next run: a retry
+ *   per the schedule's retry policy after a failure, otherwise the next
+ *   scheduled time (see _shared/importSync.ts)
+ *
+ * A source the connector refuses to start (e.g. it has no import table) is
+ * recorded as a failed sync, which schedules its next run the same way.
+ *
+ * Request body (all optional):
+ * - dataSourceId: only run this data source, if it is due
+ *
+ * Can be triggered by:
+ * - Cron job (pg_cron)
+ * - Manual API call (only the caller's organization's data sources)
+ */
+
+import { corsResponse, corsErrorResponse, handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, getUserOrganizationId, requireAuth } from '../_shared/supabase.ts';
+import { finishSync, startSync } from '../_shared/importSync.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RunRequest {
+  dataSourceId?: string;
+}
+
+interface DueSource {
+  id: string;
+  organization_id: string;
+  type: string;
+  next_sync_at: string;
+  last_sync_value: string | null;
+}
+
+interface StaleSyncLog {
+  id: string;
+  data_source_id: string;
+  data_sources: { last_sync_value: string | null; organization_id: string };
+}
+
+interface RunResult {
+  dataSourceId: string;
+  status: 'started' | 'already_running' | 'failed';
+  syncLogId?: string;
+  error?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Connector Edge Function per data source type */
+const CONNECTOR_FUNCTIONS: Record<string, string> = {
+  postgres: 'database-connector',
+  mysql: 'database-connector',
+  mssql: 'database-connector',
+  rest_api: 'rest-connector',
+  google_sheets: 'sheets-connector',
+};
+
+/** Data sources started per invocation; the rest run on the next one */
+const MAX_SOURCES_PER_RUN = 25;
+
+/** Background syncs end with the worker, well within this */
+const STALE_SYNC_MINUTES = 30;
+
+// =============================================================================
+// Stale Syncs
+// =============================================================================
+
+/**
+ * Fail syncs whose worker stopped before closing the sync log, releasing
+ * their data sources
+ */
+async function recoverStaleSyncs(
+  supabase: SupabaseClient,
+  organizationId: string | null
+): Promise<number> {
+  const cutoff = new Date(Date.now() - STALE_SYNC_MINUTES * 60_000).toISOString();
+
+  let query = supabase
+    .from('sync_logs')
+    .select('id, data_source_id, data_sources!inner(last_sync_value, organization_id)')
+    .eq('status', 'running')
+    .eq('data_sources.sync_status', 'syncing')
+    .lt('started_at', cutoff);
+
+  if (organizationId) {
+    query = query.eq('data_sources.organization_id', organizationId);
+  }
+
+  const { data: logs, error } = await query;
+
+  if (error) {
+    console.error('Failed to fetch stale syncs:', error);
+    return 0;
+  }
+
+  for (const log of (logs ?? []) as unknown as StaleSyncLog[]) {
+    await finishSync(supabase, log.data_source_id, log.id, {
+      status: 'failed',
+      imported: 0,
+      skipped: 0,
+      lastValue: log.data_sources.last_sync_value,
+      errorMessage: `The sync did not finish within ${STALE_SYNC_MINUTES} minutes`,
+      metadata: { error_code: 'TIMEOUT' },
+    });
+  }
+
+  return logs?.length ?? 0;
+}
+
+// =============================================================================
+// Starting Syncs
+// =============================================================================
+
+async function getErrorMessage(error: { message: string; context?: Response }): Promise<string> {
+  const context = error.context;
+  if (!context || typeof context.json !== 'function') return error.message;
+
+  try {
+    const body = await context.clone().json();
+    return typeof body?.error === 'string' ? body.error : error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+/**
+ * Ask the source's connector to start a scheduled sync
+ */
+async function startScheduledSync(
+  supabase: SupabaseClient,
+  source: DueSource
+): Promise<RunResult> {
+  const { data, error } = await supabase.functions.invoke(CONNECTOR_FUNCTIONS[source.type], {
+    body: { action: 'sync', dataSourceId: source.id, trigger: 'schedule' },
+  });
+
+  if (!error) {
+    return { dataSourceId: source.id, status: 'started', syncLogId: data?.sync_log_id };
+  }
+
+  if (error.context?.status === 409) {
+    return { dataSourceId: source.id, status: 'already_running' };
+  }
+
+  const message = await getErrorMessage(error);
+  console.error(`Failed to start sync of data source ${source.id}:`, message);
+
+  // Record the failure so the retry policy and schedule move next_sync_at on
+  const syncLogId = await startSync(supabase, source.id, { trigger: 'schedule' });
+  if (!syncLogId) {
+    return { dataSourceId: source.id, status: 'already_running' };
+  }
+
+  await finishSync(supabase, source.id, syncLogId, {
+    status: 'failed',
+    imported: 0,
+    skipped: 0,
+    lastValue: source.last_sync_value,
+    errorMessage: message,
+    metadata: { error_code: 'CONNECTION_FAILED' },
+  });
+
+  return { dataSourceId: source.id, status: 'failed', syncLogId, error: message };
+}
+
+// =============================================================================
+// Main Handler
+// =============================================================================
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  const corsResult = handleCors(req);
+  if (corsResult) return corsResult;
+
+  try {
+    // Check for cron secret or user auth
+    const cronSecret = req.headers.get('X-Cron-Secret');
+    const expectedSecret = Deno.env.get('CRON_SECRET');
+    const isCron = !!cronSecret && !!expectedSecret && cronSecret === expectedSecret;
+
+    let userId: string | null = null;
+    if (!isCron) {
+      try {
+        userId = await requireAuth(req);
+      } catch {
+        return corsErrorResponse('Unauthorized', 401, 'UNAUTHORIZED');
+      }
+    }
+
+    let request: RunRequest = {};
+    try {
+      request = await req.json();
+    } catch {
+      // No body or invalid JSON - run all due data sources
+    }
+
+    const supabase = createSupabaseAdmin();
+
+    let organizationId: string | null = null;
+    if (userId) {
+      organizationId = await getUserOrganizationId(supabase, userId);
+      if (!organizationId) {
+        return corsErrorResponse('Not allowed to run syncs', 403, 'FORBIDDEN');
+      }
+    }
+
+    const recovered = await recoverStaleSyncs(supabase, organizationId);
+
+    let dueQuery = supabase
+      .from('data_sources')
+      .select('id, organization_id, type, next_sync_at, last_sync_value')
+      .eq('is_active', true)
+      .neq('sync_schedule', 'manual')
+      .neq('sync_status', 'syncing')
+      .in('type', Object.keys(CONNECTOR_FUNCTIONS))
+      .lte('next_sync_at', new Date().toISOString())
+      .order('next_sync_at', { ascending: true })
+      .limit(MAX_SOURCES_PER_RUN);
+
+    if (request.dataSourceId) {
+      dueQuery = dueQuery.eq('id', request.dataSourceId);
+    }
+
+    // Users may only run their organization's data sources
+    if (organizationId) {
+      dueQuery = dueQuery.eq('organization_id', organizationId);
+    }
+
+    const { data: sources, error: fetchError } = await dueQuery;
+
+    if (fetchError) {
+      return corsErrorResponse(`Failed to fetch data sources: ${fetchError.message}`, 500);
+    }
+
+    const results: RunResult[] = [];
+    for (const source of (sources ?? []) as DueSource[]) {
+      results.push(await startScheduledSync(supabase, source));
+    }
+
+    if (results.length > 0 || recovered > 0) {
+      await supabase.from('audit_logs').insert({
+        event_type: 'SYNC_RUN',
+        email: userId || 'system',
+        metadata: {
+          started: results.filter((r) => r.status === 'started').length,
+          alreadyRunning: results.filter((r) => r.status === 'already_running').length,
+          failed: results.filter((r) => r.status === 'failed').length,
+          staleSyncsRecovered: recovered,
+        },
+      });
+    }
+
+    if (results.length === 0) {
+      return corsResponse({
+        success: true,
+        message: 'No data sources due',
+        staleSyncsRecovered: recovered,
+        results,
+      });
+    }
+
+    return corsResponse({
+      success: true,
+      started: results.filter((r) => r.status === 'started').length,
+      staleSyncsRecovered: recovered,
+      results,
+    });
+  } catch (error) {
+    console.error('Run syncs error:', error);
+
+    return corsErrorResponse(
+      error instanceof Error ? error.message : 'Sync runner failed',
+      500,
+      'INTERNAL_ERROR'
+    );
+  }
+});
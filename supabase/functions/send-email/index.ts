@@ -3,13 +3,29 @@
  *
  * Sends an email via SendGrid with CAN-SPAM compliance checks.
  * - Validates email format
+ * - Users (not the service role) may only send their organization's
+ *   campaign messages, to the member they're for
  * - Checks consent via can_send_email() RPC
- * - Sends via SendGrid API
- * - Updates message status in database
+ * - Counts the email against the monthly email limit
+ *   (app_settings.monthly_email_limit) and refuses it once the limit is
+ *   reached, unless process-campaign sends it for a campaign an admin allowed
+ *   over the limit
+ * - Adds RFC 8058 List-Unsubscribe / List-Unsubscribe-Post headers with a
+ *   signed one-click link for the member
+ * - Sends via SendGrid API with the credentials from app_settings (or the
+ *   SENDGRID_* environment variables), tagging the email with custom args (messageId,
+ *   campaignId, memberId) so sendgrid-webhook can find the message row
+ * - Updates message status in database (campaign messages; automation sends
+ *   are recorded by run-automations itself)
  */
 
 import { corsHeaders, corsResponse, corsErrorResponse, handleCors } from '../_shared/cors.ts';
-import { createSupabaseAdmin, requireAuth } from '../_shared/supabase.ts';
+import { createSupabaseAdmin, isServiceRoleRequest, requireAuth } from '../_shared/supabase.ts';
+import { buildUnsubscribeUrls } from '../_shared/unsubscribe.ts';
+import { consumeMessagingQuota, releaseMessagingQuota } from '../_shared/messagingQuota.ts';
+import { getProviderCredentials } from '../_shared/providerCredentials.ts';
+import { checkUserSend } from '../_shared/messageAccess.ts';
+import { sendSendGridEmail } from '../_shared/sendgrid.ts';
 
 // =============================================================================
 // Types
@@ -23,12 +39,11 @@ interface SendEmailRequest {
   text?: string;
   memberId?: string;
   campaignId?: string;
-  unsubscribeUrl?: string;
-}
-
-interface SendGridResponse {
-  statusCode: number;
-  headers: Record<string, string>;
+  unsubscribeUrl?: string; // List-Unsubscribe URL when there is no memberId
+  // What the messageId refers to (default: campaign)
+  source?: 'campaign' | 'automation';
+  // Send past the monthly limit (internal calls only)
+  allowOverLimit?: boolean;
 }
 
 // =============================================================================
@@ -41,80 +56,6 @@ function isValidEmail(email: string): boolean {
   return EMAIL_REGEX.test(email);
 }
 
-// =============================================================================
-// SendGrid Integration
-// =============================================================================
-
-async function sendViaSendGrid(
-  to: string,
-  subject: string,
-  html: string,
-  text?: string,
-  unsubscribeUrl?: string
-): Promise<SendGridResponse> {
-  const apiKey = Deno.env.get('SENDGRID_API_KEY');
-  const fromEmail = Deno.env.get('SENDGRID_FROM_EMAIL');
-  const fromName = Deno.env.get('SENDGRID_FROM_NAME') || 'Project Gimbal';
-
-  if (!apiKey || !fromEmail) {
-    throw new Error('SendGrid credentials not configured');
-  }
-
-  // Build the email payload
-  const payload: Record<string, unknown> = {
-    personalizations: [
-      {
-        to: [{ email: to }],
-      },
-    ],
-    from: {
-      email: fromEmail,
-      name: fromName,
-    },
-    subject,
-    content: [
-      ...(text ? [{ type: 'text/plain', value: text }] : []),
-      { type: 'text/html', value: html },
-    ],
-    tracking_settings: {
-      click_tracking: { enable: true },
-      open_tracking: { enable: true },
-    },
-  };
-
-  // Add unsubscribe header for CAN-SPAM compliance
-  if (unsubscribeUrl) {
-    payload.headers = {
-      'List-Unsubscribe': `<${unsubscribeUrl}>`,
-      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
-    };
-  }
-
-  const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(`SendGrid error: ${response.status} - ${errorBody}`);
-  }
-
-  // Extract message ID from headers
-  const messageId = response.headers.get('X-Message-Id') || '';
-
-  return {
-    statusCode: response.status,
-    headers: {
-      'x-message-id': messageId,
-    },
-  };
-}
-
 // =============================================================================
 // Main Handler
 // =============================================================================
@@ -125,8 +66,9 @@ Deno.serve(async (req: Request): Promise<Response> => {
   if (corsResult) return corsResult;
 
   try {
-    // Verify authentication
-    const userId = await requireAuth(req);
+    // Verify authentication (internal calls from process-campaign use the service role)
+    const isInternal = isServiceRoleRequest(req);
+    const userId = isInternal ? 'system' : await requireAuth(req);
 
     // Parse request body
     const {
@@ -138,6 +80,8 @@ Deno.serve(async (req: Request): Promise<Response> => {
       memberId,
       campaignId,
       unsubscribeUrl,
+      source = 'campaign',
+      allowOverLimit = false,
     }: SendEmailRequest = await req.json();
 
     // Validate required fields
@@ -168,9 +112,17 @@ Deno.serve(async (req: Request): Promise<Response> => {
 
     const supabase = createSupabaseAdmin();
 
-    // Check CAN-SPAM consent if memberId is provided
+    // Users may only send their organization's messages, to the member they're for
+    if (!isInternal) {
+      const accessError = await checkUserSend(supabase, { userId, source, messageId, memberId, to });
+      if (accessError) {
+        return corsErrorResponse(accessError.message, accessError.status, accessError.code);
+      }
+    }
+
+    // Check CAN-SPAM consent if memberId is provided (always, for users)
     if (memberId) {
-      const { data: canSend, error: consentError } = await supabase.rpc(
+      const { data: consent, error: consentError } = await supabase.rpc(
         'can_send_email',
         {
           p_member_id: memberId,
@@ -186,16 +138,21 @@ Deno.serve(async (req: Request): Promise<Response> => {
         );
       }
 
+      // can_send_email returns a single (can_send, reason) row
+      const canSend = Array.isArray(consent) ? consent[0]?.can_send : consent?.can_send;
+
       if (!canSend) {
         // Update message status to failed due to consent
-        await supabase
-          .from('campaign_messages')
-          .update({
-            status: 'failed',
-            failed_at: new Date().toISOString(),
-            error_message: 'Email consent not granted or user unsubscribed',
-          })
-          .eq('id', messageId);
+        if (source === 'campaign') {
+          await supabase
+            .from('campaign_messages')
+            .update({
+              status: 'failed',
+              failed_at: new Date().toISOString(),
+              error_message: 'Email consent not granted or user unsubscribed',
+            })
+            .eq('id', messageId);
+        }
 
         return corsErrorResponse(
           'Email consent not granted or user has unsubscribed',
@@ -205,33 +162,76 @@ Deno.serve(async (req: Request): Promise<Response> => {
       }
     }
 
-    // Generate unsubscribe URL if not provided
-    const finalUnsubscribeUrl =
-      unsubscribeUrl ||
-      `${Deno.env.get('PUBLIC_SITE_URL')}/unsubscribe?member=${memberId}`;
+    const { sendgrid } = await getProviderCredentials(supabase);
+    if (!sendgrid) {
+      throw new Error('SendGrid credentials not configured');
+    }
 
-    // Send via SendGrid
-    const sendGridResponse = await sendViaSendGrid(
-      to,
-      subject,
-      html,
-      text,
-      finalUnsubscribeUrl
+    // Count the email against the monthly email limit
+    const usagePeriod = await consumeMessagingQuota(
+      supabase,
+      'email',
+      1,
+      isInternal && allowOverLimit
     );
 
+    if (!usagePeriod) {
+      const reason = 'Monthly email limit reached';
+
+      if (source === 'campaign') {
+        await supabase
+          .from('campaign_messages')
+          .update({
+            status: 'failed',
+            failed_at: new Date().toISOString(),
+            error_message: reason,
+          })
+          .eq('id', messageId);
+      }
+
+      return corsErrorResponse(reason, 403, 'QUOTA_EXCEEDED');
+    }
+
+    // Signed one-click unsubscribe link for the member
+    const finalUnsubscribeUrl = memberId
+      ? (await buildUnsubscribeUrls(memberId)).oneClickUrl
+      : unsubscribeUrl;
+
+    // Send via SendGrid, giving the email back if SendGrid refuses it
+    let sendGridId: string;
+    try {
+      sendGridId = await sendSendGridEmail(sendgrid, {
+        to,
+        subject,
+        html,
+        text,
+        unsubscribeUrl: finalUnsubscribeUrl,
+        customArgs: {
+          messageId,
+          ...(campaignId ? { campaignId } : {}),
+          ...(memberId ? { memberId } : {}),
+        },
+      });
+    } catch (error) {
+      await releaseMessagingQuota(supabase, 'email', usagePeriod, 1);
+      throw error;
+    }
+
     // Update message status in database
-    const { error: updateError } = await supabase
-      .from('campaign_messages')
-      .update({
-        status: 'sent',
-        sent_at: new Date().toISOString(),
-        external_id: sendGridResponse.headers['x-message-id'],
-      })
-      .eq('id', messageId);
-
-    if (updateError) {
-      console.error('Failed to update message status:', updateError);
-      // Don't fail the request - the email was sent successfully
+    if (source === 'campaign') {
+      const { error: updateError } = await supabase
+        .from('campaign_messages')
+        .update({
+          status: 'sent',
+          sent_at: new Date().toISOString(),
+          external_id: sendGridId,
+        })
+        .eq('id', messageId);
+
+      if (updateError) {
+        console.error('Failed to update message status:', updateError);
+        // Don't fail the request - the email was sent successfully
+      }
     }
 
     // Log audit event
@@ -240,9 +240,10 @@ Deno.serve(async (req: Request): Promise<Response> => {
       email: userId,
       metadata: {
         messageId,
+        source,
         campaignId,
         memberId,
-        sendGridId: sendGridResponse.headers['x-message-id'],
+        sendGridId,
         recipientMasked: to.replace(/(.{2}).*@/, '$1***@'),
       },
     });
@@ -250,7 +251,7 @@ Deno.serve(async (req: Request): Promise<Response> => {
     return corsResponse({
       success: true,
       messageId,
-      externalId: sendGridResponse.headers['x-message-id'],
+      externalId: sendGridId,
       status: 'sent',
     });
   } catch (error) {
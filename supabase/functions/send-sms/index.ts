@@ -3,13 +3,26 @@
  *
  * Sends an SMS message via Twilio with TCPA compliance checks.
  * - Validates phone number format (E.164)
- * - Checks consent via can_send_sms() RPC
- * - Sends via Twilio API
- * - Updates message status in database
+ * - Users (not the service role) may only send their organization's
+ *   campaign messages and conversation replies, to the member they're for
+ * - Checks consent and quiet hours via can_send_sms() RPC
+ * - Counts the message's segments against the monthly SMS limit
+ *   (app_settings.monthly_sms_limit) and refuses it once the limit is reached,
+ *   unless process-campaign sends it for a campaign an admin allowed over
+ *   the limit
+ * - Sends via Twilio API with the credentials from app_settings (or the
+ *   TWILIO_* environment variables)
+ * - Updates message status in database (campaign message or conversation reply;
+ *   automation sends are recorded by run-automations itself)
  */
 
 import { corsHeaders, corsResponse, corsErrorResponse, handleCors } from '../_shared/cors.ts';
-import { createSupabaseAdmin, requireAuth } from '../_shared/supabase.ts';
+import { createSupabaseAdmin, isServiceRoleRequest, requireAuth } from '../_shared/supabase.ts';
+import { calculateSegmentCount } from '../_shared/messagingUsage.ts';
+import { consumeMessagingQuota, releaseMessagingQuota } from '../_shared/messagingQuota.ts';
+import { getProviderCredentials } from '../_shared/providerCredentials.ts';
+import { checkUserSend } from '../_shared/messageAccess.ts';
+import { sendTwilioMessage, type TwilioMessage } from '../_shared/twilio.ts';
 
 // =============================================================================
 // Types
@@ -21,14 +34,20 @@ interface SendSmsRequest {
   body: string;
   memberId?: string;
   campaignId?: string;
+  // Table the messageId belongs to (default: campaign)
+  source?: MessageSource;
+  // Send past the monthly limit (internal calls only)
+  allowOverLimit?: boolean;
 }
 
-interface TwilioResponse {
-  sid: string;
-  status: string;
-  error_code?: number;
-  error_message?: string;
-}
+type MessageSource = 'campaign' | 'conversation' | 'automation';
+
+const MESSAGE_TABLES: Record<MessageSource, string | null> = {
+  campaign: 'campaign_messages',
+  conversation: 'sms_conversation_messages',
+  // messageId is the automation_executions row, updated by the executor
+  automation: null,
+};
 
 // =============================================================================
 // Validation
@@ -40,55 +59,6 @@ function isValidE164(phone: string): boolean {
   return E164_REGEX.test(phone);
 }
 
-// =============================================================================
-// Twilio Integration
-// =============================================================================
-
-async function sendViaTwilio(
-  to: string,
-  body: string,
-  webhookUrl?: string
-): Promise<TwilioResponse> {
-  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
-  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
-  const fromNumber = Deno.env.get('TWILIO_PHONE_NUMBER');
-
-  if (!accountSid || !authToken || !fromNumber) {
-    throw new Error('Twilio credentials not configured');
-  }
-
-  const params = new URLSearchParams({
-    To: to,
-    From: fromNumber,
-    Body: body,
-  });
-
-  // Add status callback if webhook URL is configured
-  if (webhookUrl) {
-    params.append('StatusCallback', webhookUrl);
-  }
-
-  const response = await fetch(
-    `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
-    {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: params,
-    }
-  );
-
-  const data = await response.json();
-
-  if (!response.ok) {
-    throw new Error(data.message || `Twilio error: ${response.status}`);
-  }
-
-  return data as TwilioResponse;
-}
-
 // =============================================================================
 // Main Handler
 // =============================================================================
@@ -99,12 +69,20 @@ Deno.serve(async (req: Request): Promise<Response> => {
   if (corsResult) return corsResult;
 
   try {
-    // Verify authentication
-    const userId = await requireAuth(req);
+    // Verify authentication (internal calls from process-campaign use the service role)
+    const isInternal = isServiceRoleRequest(req);
+    const userId = isInternal ? 'system' : await requireAuth(req);
 
     // Parse request body
-    const { messageId, to, body, memberId, campaignId }: SendSmsRequest =
-      await req.json();
+    const {
+      messageId,
+      to,
+      body,
+      memberId,
+      campaignId,
+      source = 'campaign',
+      allowOverLimit = false,
+    }: SendSmsRequest = await req.json();
 
     // Validate required fields
     if (!messageId || !to || !body) {
@@ -129,15 +107,28 @@ Deno.serve(async (req: Request): Promise<Response> => {
       );
     }
 
+    if (!Object.hasOwn(MESSAGE_TABLES, source)) {
+      return corsErrorResponse('Invalid message source', 400);
+    }
+    const messageTable = MESSAGE_TABLES[source];
+
     const supabase = createSupabaseAdmin();
 
-    // Check TCPA consent if memberId is provided
+    // Users may only send their organization's messages, to the member they're for
+    if (!isInternal) {
+      const accessError = await checkUserSend(supabase, { userId, source, messageId, memberId, to });
+      if (accessError) {
+        return corsErrorResponse(accessError.message, accessError.status, accessError.code);
+      }
+    }
+
+    // Check TCPA consent if memberId is provided (always, for users)
     if (memberId) {
-      const { data: canSend, error: consentError } = await supabase.rpc(
+      // Quiet hours are evaluated in the member's site timezone
+      const { data: consent, error: consentError } = await supabase.rpc(
         'can_send_sms',
         {
           p_member_id: memberId,
-          p_timezone: 'America/New_York', // Default timezone
         }
       );
 
@@ -150,44 +141,96 @@ Deno.serve(async (req: Request): Promise<Response> => {
         );
       }
 
-      if (!canSend) {
+      // can_send_sms returns a single (can_send, reason) row
+      const consentRow = Array.isArray(consent) ? consent[0] : consent;
+      const reason: string = consentRow?.reason || 'SMS consent not granted';
+
+      if (!consentRow?.can_send) {
+        const isQuietHours = reason.startsWith('Outside quiet hours');
+
+        // Campaign messages in quiet hours stay queued; the worker defers them
+        if (isQuietHours && source === 'campaign') {
+          return corsErrorResponse(reason, 409, 'QUIET_HOURS');
+        }
+
         // Update message status to failed due to consent
+        if (messageTable) {
+          await supabase
+            .from(messageTable)
+            .update({
+              status: 'failed',
+              ...(source === 'campaign' && { failed_at: new Date().toISOString() }),
+              error_message: reason,
+            })
+            .eq('id', messageId);
+        }
+
+        return corsErrorResponse(
+          reason,
+          403,
+          isQuietHours ? 'QUIET_HOURS' : 'CONSENT_DENIED'
+        );
+      }
+    }
+
+    const { twilio } = await getProviderCredentials(supabase);
+    if (!twilio) {
+      throw new Error('Twilio credentials not configured');
+    }
+
+    // Count the segments against the monthly SMS limit
+    const segments = calculateSegmentCount(body);
+    const usagePeriod = await consumeMessagingQuota(
+      supabase,
+      'sms',
+      segments,
+      isInternal && allowOverLimit
+    );
+
+    if (!usagePeriod) {
+      const reason = 'Monthly SMS limit reached';
+
+      if (messageTable) {
         await supabase
-          .from('campaign_messages')
+          .from(messageTable)
           .update({
             status: 'failed',
-            failed_at: new Date().toISOString(),
-            error_message: 'SMS consent not granted or outside quiet hours',
+            ...(source === 'campaign' && { failed_at: new Date().toISOString() }),
+            error_message: reason,
           })
           .eq('id', messageId);
-
-        return corsErrorResponse(
-          'SMS consent not granted or outside quiet hours (8 AM - 9 PM)',
-          403,
-          'CONSENT_DENIED'
-        );
       }
+
+      return corsErrorResponse(reason, 403, 'QUOTA_EXCEEDED');
     }
 
     // Get webhook URL from environment
     const webhookUrl = Deno.env.get('TWILIO_WEBHOOK_URL');
 
-    // Send via Twilio
-    const twilioResponse = await sendViaTwilio(to, body, webhookUrl);
+    // Send via Twilio, giving the segments back if Twilio refuses the message
+    let twilioResponse: TwilioMessage;
+    try {
+      twilioResponse = await sendTwilioMessage(twilio, to, body, webhookUrl);
+    } catch (error) {
+      await releaseMessagingQuota(supabase, 'sms', usagePeriod, segments);
+      throw error;
+    }
 
     // Update message status in database
-    const { error: updateError } = await supabase
-      .from('campaign_messages')
-      .update({
-        status: 'sent',
-        sent_at: new Date().toISOString(),
-        external_id: twilioResponse.sid,
-      })
-      .eq('id', messageId);
-
-    if (updateError) {
-      console.error('Failed to update message status:', updateError);
-      // Don't fail the request - the SMS was sent successfully
+    if (messageTable) {
+      const { error: updateError } = await supabase
+        .from(messageTable)
+        .update({
+          status: 'sent',
+          ...(source === 'campaign' && { sent_at: new Date().toISOString() }),
+          external_id: twilioResponse.sid,
+        })
+        .eq('id', messageId);
+
+      if (updateError) {
+        console.error('Failed to update message status:', updateError);
+        // Don't fail the request - the SMS was sent successfully
+      }
     }
 
     // Log audit event
@@ -196,8 +239,10 @@ Deno.serve(async (req: Request): Promise<Response> => {
       email: userId,
       metadata: {
         messageId,
+        source,
         campaignId,
         memberId,
+        segments,
         twilioSid: twilioResponse.sid,
         recipientMasked: to.slice(0, -4).replace(/\d/g, '*') + to.slice(-4),
       },
@@ -4,7 +4,10 @@
  * Receives event webhooks from SendGrid and updates message status.
  * - Verifies SendGrid signature for security
  * - Handles events: delivered, open, click, bounce, unsubscribe
- * - Updates campaign_messages table
+ * - Updates campaign_messages table, matching on the messageId custom arg
+ *   set by send-email (falls back to the SendGrid message ID). Per-variant
+ *   metrics are read from the message rows, so events count toward the
+ *   variant the recipient was sent
  * - Updates campaign aggregate stats
  * - Handles unsubscribes by updating member_consent
  */
@@ -113,31 +116,27 @@ async function handleUnsubscribe(
   supabase: ReturnType<typeof createSupabaseAdmin>,
   event: SendGridEvent
 ): Promise<void> {
-  // Find member by email and update consent
-  const { data: member } = await supabase
-    .from('members')
-    .select('id')
-    .eq('email', event.email)
-    .single();
-
-  if (member) {
-    await supabase
-      .from('member_consent')
-      .update({
-        email_marketing: false,
-        email_opted_out_at: new Date().toISOString(),
-      })
-      .eq('member_id', member.id);
+  // Goes through record_email_unsubscribe() so the change is in the consent
+  // audit log; scoped to the member when SendGrid echoes our custom args
+  const { error } = await supabase.rpc('record_email_unsubscribe', {
+    p_email: event.email,
+    p_reason: event.event === 'spamreport' ? 'Marked as spam' : 'SendGrid unsubscribe',
+    p_member_id: event.memberId ?? null,
+  });
 
-    console.log(`Unsubscribe processed for member: ${member.id}`);
+  if (error) {
+    console.error('Failed to record unsubscribe:', error.message);
+    return;
   }
+
+  console.log(`Unsubscribe processed for: ${event.memberId ?? event.email}`);
 }
 
 async function updateMessageStatus(
   supabase: ReturnType<typeof createSupabaseAdmin>,
   event: SendGridEvent,
   newStatus: string
-): Promise<{ campaignId: string | null }> {
+): Promise<{ campaignId: string | null; variantId: string | null }> {
   const now = new Date().toISOString();
 
   // Build update object based on status
@@ -163,24 +162,30 @@ async function updateMessageStatus(
       break;
   }
 
-  // Update message record using sg_message_id
-  // SendGrid message ID format: "<internal_id>@domain"
-  const messageIdMatch = event.sg_message_id?.match(/^([^@]+)/);
-  const externalId = messageIdMatch ? messageIdMatch[1] : event.sg_message_id;
+  let query = supabase.from('campaign_messages').update(updateData);
 
-  const { data: message, error } = await supabase
-    .from('campaign_messages')
-    .update(updateData)
-    .eq('external_id', externalId)
-    .select('id, campaign_id')
+  if (event.messageId) {
+    query = query.eq('id', event.messageId);
+  } else {
+    // sg_message_id is the X-Message-Id returned on send (stored as
+    // external_id) followed by ".filter..." routing details
+    const externalId = event.sg_message_id?.split('.')[0];
+    query = query.eq('external_id', externalId);
+  }
+
+  const { data: message, error } = await query
+    .select('id, campaign_id, variant_id')
     .single();
 
   if (error) {
     console.log('Message update skipped:', error.message);
-    return { campaignId: null };
+    return { campaignId: null, variantId: null };
   }
 
-  return { campaignId: message?.campaign_id || null };
+  return {
+    campaignId: message?.campaign_id || null,
+    variantId: message?.variant_id || null,
+  };
 }
 
 async function updateCampaignStats(
@@ -253,7 +258,7 @@ Deno.serve(async (req: Request): Promise<Response> => {
       }
 
       // Update message status
-      const { campaignId } = await updateMessageStatus(supabase, event, newStatus);
+      const { campaignId, variantId } = await updateMessageStatus(supabase, event, newStatus);
 
       // Update campaign stats if we have a campaign ID
       if (campaignId) {
@@ -262,7 +267,7 @@ Deno.serve(async (req: Request): Promise<Response> => {
 
       console.log(
         `Email event processed: ${event.sg_message_id} -> ${event.event}`,
-        campaignId ? `(campaign: ${campaignId})` : ''
+        campaignId ? `(campaign: ${campaignId}${variantId ? `, variant: ${variantId}` : ''})` : ''
       );
     }
 
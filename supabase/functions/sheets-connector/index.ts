@@ -0,0 +1,276 @@
+/**
+ * Sheets Connector Edge Function
+ *
+ * Runs scheduled syncs of Google Sheets member imports: re-reads the sheet
+ * saved with the data source and imports it as members with its saved
+ * mappings and import settings, exactly as the import wizard does.
+ * - The sheet is config.sheet_id, tab config.sheet_name, with headers
+ *   on config.header_row and config.skip_rows rows skipped below them
+ * - Read with GOOGLE_SHEETS_API_KEY (sheets shared with "anyone with the
+ *   link") from GOOGLE_SHEETS_API_URL (default: the Sheets API)
+ * - Each sync is an import run (member_imports) in the source's
+ *   organization, so it shows in the import history and can be rolled back
+ *
+ * Actions (request body):
+ * - { action: 'sync', dataSourceId, trigger? }: imports the sheet in the
+ *   background and responds with a TriggerSyncResponse.
+ *
+ * Can be triggered by:
+ * - run-syncs, with the service role key (scheduled sync). Sync Now in the
+ *   app imports the sheet from the browser instead.
+ */
+
+import { corsResponse, corsErrorResponse, handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, isServiceRoleRequest } from '../_shared/supabase.ts';
+import { finishSync, loadSyncDataSource, runInBackground, startSync } from '../_shared/importSync.ts';
+import { DEFAULT_SHEETS_API_URL, getSheetValues } from '../_shared/googleSheets.ts';
+import { importMemberRows, toBulkUpsertArgs, toSheetTable } from '../_shared/memberImport.ts';
+import type { SyncDataSource } from '../_shared/importSync.ts';
+import type {
+  MemberImportConfig,
+  MemberImportMapping,
+  MemberImportResult,
+} from '../_shared/memberImport.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Config saved by the import wizard (see memberImportDataSourceService) */
+interface MemberImportSourceConfig {
+  query_type?: string;
+  sheet_id?: string;
+  mappings?: MemberImportMapping[];
+  import_config?: MemberImportConfig;
+  sheet_name?: string;
+  header_row?: number;
+  skip_rows?: number;
+}
+
+interface ConnectorRequest {
+  action: 'sync';
+  dataSourceId: string;
+  trigger?: 'manual' | 'schedule';
+}
+
+type SheetsSource = SyncDataSource<Record<string, never>, MemberImportSourceConfig>;
+
+type ImportRunResult = MemberImportResult & { importId: string };
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Errors kept with an import run, as in the app */
+const MAX_STORED_ERRORS = 100;
+
+// =============================================================================
+// Import Runs
+// =============================================================================
+
+/**
+ * Register the import run before any rows are written, so the members it
+ * changes are tracked for rollback
+ */
+async function startImportRun(
+  supabase: SupabaseClient,
+  source: SheetsSource,
+  result: ImportRunResult
+): Promise<void> {
+  const { error } = await supabase.from('member_imports').insert({
+    import_id: result.importId,
+    user_id: source.user_id,
+    organization_id: source.organization_id,
+    site_id: source.config.import_config!.siteId,
+    data_source_id: source.id,
+    kind: 'members',
+    filename: `${source.config.sheet_name} (Google Sheets)`,
+    status: 'running',
+    total_rows: result.totalRows,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record import: ${error.message}`);
+  }
+}
+
+async function finishImportRun(
+  supabase: SupabaseClient,
+  result: ImportRunResult,
+  status: 'completed' | 'failed'
+): Promise<void> {
+  const { error } = await supabase
+    .from('member_imports')
+    .update({
+      status,
+      total_rows: result.totalRows,
+      imported: result.imported,
+      updated: result.updated,
+      skipped: result.skipped,
+      failed: result.failed,
+      errors: result.errors.slice(0, MAX_STORED_ERRORS),
+      completed_at: new Date().toISOString(),
+    })
+    .eq('import_id', result.importId)
+    .eq('status', 'running');
+
+  if (error) {
+    console.error(`Failed to record result of import ${result.importId}:`, error);
+  }
+}
+
+// =============================================================================
+// Sync
+// =============================================================================
+
+/**
+ * Read the sheet, import its rows and close the run and the sync log. A
+ * sync fails when no row could be imported or updated, as in the app.
+ */
+async function runSync(supabase: SupabaseClient, source: SheetsSource, syncLogId: string): Promise<void> {
+  const { config } = source;
+  const result: ImportRunResult = {
+    importId: `import_${crypto.randomUUID()}`,
+    totalRows: 0,
+    imported: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+  };
+  let runStarted = false;
+
+  try {
+    const { data: site } = await supabase
+      .from('sites')
+      .select('id')
+      .eq('id', config.import_config!.siteId)
+      .eq('organization_id', source.organization_id)
+      .maybeSingle();
+    if (!site) {
+      throw new Error('The site this source imports into no longer exists');
+    }
+
+    const api = {
+      url: Deno.env.get('GOOGLE_SHEETS_API_URL') || DEFAULT_SHEETS_API_URL,
+      key: Deno.env.get('GOOGLE_SHEETS_API_KEY'),
+    };
+    const cells = await getSheetValues(api, config.sheet_id!, config.sheet_name!);
+    const data = toSheetTable(cells, config.sheet_name!, {
+      headerRow: config.header_row,
+      skipRows: config.skip_rows,
+    });
+    result.totalRows = data.totalRows;
+
+    await startImportRun(supabase, source, result);
+    runStarted = true;
+
+    const args = toBulkUpsertArgs(config.mappings ?? [], config.import_config!);
+    await importMemberRows(data, config.mappings ?? [], config.import_config!, result, (rows) =>
+      supabase.rpc('import_member_rows', { ...args, p_user_id: source.user_id, p_rows: rows })
+    );
+    await finishImportRun(supabase, result, 'completed');
+
+    const failed = result.failed > 0 && result.imported + result.updated === 0;
+    await finishSync(supabase, source.id, syncLogId, {
+      status: failed ? 'failed' : 'success',
+      imported: result.imported + result.updated,
+      skipped: result.skipped + result.failed,
+      lastValue: source.last_sync_value,
+      errorMessage: failed ? result.errors[0]?.message ?? 'Import failed' : undefined,
+      metadata: {
+        import_id: result.importId,
+        total_rows: result.totalRows,
+        imported: result.imported,
+        updated: result.updated,
+        skipped: result.skipped,
+        failed: result.failed,
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Sync failed';
+    console.error(`Sync of data source ${source.id} failed:`, message);
+    if (runStarted) {
+      await finishImportRun(supabase, result, 'failed');
+    }
+    await finishSync(supabase, source.id, syncLogId, {
+      status: 'failed',
+      imported: result.imported + result.updated,
+      skipped: result.skipped + result.failed,
+      lastValue: source.last_sync_value,
+      errorMessage: message,
+      metadata: runStarted ? { import_id: result.importId } : {},
+    });
+  }
+}
+
+// =============================================================================
+// Main Handler
+// =============================================================================
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  const corsResult = handleCors(req);
+  if (corsResult) return corsResult;
+
+  try {
+    // Only run-syncs calls this; the app syncs sheets itself
+    if (!isServiceRoleRequest(req)) {
+      return corsErrorResponse('Unauthorized', 401, 'UNAUTHORIZED');
+    }
+
+    let request: ConnectorRequest;
+    try {
+      request = await req.json();
+    } catch {
+      return corsErrorResponse('Invalid request body', 400);
+    }
+
+    if (request.action !== 'sync') {
+      return corsErrorResponse('action must be sync', 400);
+    }
+
+    if (!request.dataSourceId) {
+      return corsErrorResponse('dataSourceId is required', 400);
+    }
+
+    const supabase = createSupabaseAdmin();
+    const dataSource = await loadSyncDataSource<Record<string, never>, MemberImportSourceConfig>(
+      supabase,
+      request.dataSourceId,
+      null
+    );
+    if (!dataSource) {
+      return corsErrorResponse('Data source not found', 404, 'NOT_FOUND');
+    }
+    if (dataSource.type !== 'google_sheets' || dataSource.config.query_type !== 'member_import') {
+      return corsErrorResponse('Data source is not a Google Sheets member import', 400);
+    }
+
+    const { config } = dataSource;
+    if (!config.sheet_id || !config.sheet_name || !config.import_config?.siteId) {
+      return corsErrorResponse('Data source has no sheet or site to import', 400, 'VALIDATION_FAILED');
+    }
+
+    const syncLogId = await startSync(supabase, dataSource.id, {
+      trigger: request.trigger ?? 'schedule',
+      strategy: 'member_import',
+    });
+    if (!syncLogId) {
+      return corsErrorResponse('A sync is already running for this data source', 409, 'SYNC_RUNNING');
+    }
+
+    await runInBackground(runSync(supabase, dataSource, syncLogId));
+
+    return corsResponse({ sync_log_id: syncLogId, status: 'started' });
+  } catch (error) {
+    console.error('Sheets connector error:', error);
+
+    return corsErrorResponse(
+      error instanceof Error ? error.message : 'Sheets connector failed',
+      500,
+      'INTERNAL_ERROR'
+    );
+  }
+});
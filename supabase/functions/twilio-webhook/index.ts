@@ -1,13 +1,23 @@
 /**
  * Twilio Webhook Edge Function
  *
- * Receives delivery status callbacks from Twilio and updates message status.
- * - Verifies Twilio signature for security
- * - Updates campaign_messages table
+ * Receives delivery status callbacks and inbound messages from Twilio.
+ * - Verifies Twilio signature for security, with the auth token from
+ *   app_settings (or TWILIO_AUTH_TOKEN)
+ * - Updates campaign_messages table (the message row carries the campaign
+ *   variant, so per-variant metrics follow the status)
  * - Updates campaign aggregate stats
+ * - Stores inbound messages in member conversation threads
+ * - Handles STOP/START/HELP keywords (TCPA) and replies via TwiML
  */
 
 import { createSupabaseAdmin } from '../_shared/supabase.ts';
+import { getTwilioAuthToken } from '../_shared/providerCredentials.ts';
+import {
+  buildKeywordReply,
+  classifySmsKeyword,
+  twimlResponse,
+} from '../_shared/smsKeywords.ts';
 
 // =============================================================================
 // Types
@@ -22,6 +32,13 @@ interface TwilioWebhookPayload {
   ErrorMessage?: string;
 }
 
+interface TwilioInboundPayload {
+  MessageSid: string;
+  From: string;
+  To: string;
+  Body: string;
+}
+
 // Twilio status mapping to our message status
 const STATUS_MAP: Record<string, string> = {
   queued: 'queued',
@@ -42,11 +59,11 @@ const STATUS_MAP: Record<string, string> = {
  */
 async function verifyTwilioSignature(
   req: Request,
-  body: string
+  body: string,
+  authToken: string | null
 ): Promise<boolean> {
-  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
   if (!authToken) {
-    console.error('TWILIO_AUTH_TOKEN not configured');
+    console.error('Twilio auth token not configured');
     return false;
   }
 
@@ -92,6 +109,160 @@ async function verifyTwilioSignature(
   return signature === expectedSignature;
 }
 
+// =============================================================================
+// Status Callbacks
+// =============================================================================
+
+async function handleStatusCallback(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  payload: TwilioWebhookPayload
+): Promise<void> {
+  const newStatus = STATUS_MAP[payload.MessageStatus] || payload.MessageStatus;
+  const now = new Date().toISOString();
+
+  // Build update object based on status
+  const updateData: Record<string, unknown> = {
+    status: newStatus,
+  };
+
+  if (newStatus === 'delivered') {
+    updateData.delivered_at = now;
+  } else if (newStatus === 'failed') {
+    updateData.failed_at = now;
+    if (payload.ErrorMessage) {
+      updateData.error_message = `${payload.ErrorCode}: ${payload.ErrorMessage}`;
+    }
+  }
+
+  // Update the message record
+  const { data: message, error: updateError } = await supabase
+    .from('campaign_messages')
+    .update(updateData)
+    .eq('external_id', payload.MessageSid)
+    .select('id, campaign_id, variant_id')
+    .single();
+
+  if (updateError) {
+    // Not a campaign message - it may be a staff reply in a conversation
+    const { data: reply } = await supabase
+      .from('sms_conversation_messages')
+      .update({
+        status: newStatus,
+        error_message: updateData.error_message ?? null,
+      })
+      .eq('external_id', payload.MessageSid)
+      .eq('direction', 'outbound')
+      .select('id');
+
+    if (!reply?.length) {
+      // Message might not exist if this is a test or duplicate webhook
+      console.log('Message update skipped:', updateError.message);
+    }
+  }
+
+  // Update campaign aggregate stats if we found the message
+  if (message?.campaign_id && (newStatus === 'delivered' || newStatus === 'failed')) {
+    const statsField =
+      newStatus === 'delivered' ? 'total_delivered' : 'total_failed';
+
+    await supabase.rpc('increment_campaign_stat', {
+      p_campaign_id: message.campaign_id,
+      p_field: statsField,
+    });
+  }
+
+  // Log the webhook event
+  console.log(
+    `SMS status update: ${payload.MessageSid} -> ${newStatus}`,
+    message?.campaign_id
+      ? `(campaign: ${message.campaign_id}${message.variant_id ? `, variant: ${message.variant_id}` : ''})`
+      : ''
+  );
+}
+
+// =============================================================================
+// Inbound Messages
+// =============================================================================
+
+async function getCompanyName(
+  supabase: ReturnType<typeof createSupabaseAdmin>
+): Promise<string> {
+  const { data } = await supabase
+    .from('app_settings')
+    .select('company_name')
+    .limit(1)
+    .single();
+
+  return data?.company_name || 'Project Gimbal';
+}
+
+/**
+ * Handles an inbound SMS. Every message is stored in the sender's
+ * conversation thread; keyword messages also update member consent and
+ * return the confirmation reply to send back to the sender.
+ */
+async function handleInboundMessage(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  payload: TwilioInboundPayload
+): Promise<string | null> {
+  const action = classifySmsKeyword(payload.Body);
+
+  // Keyword messages are answered automatically, so they don't need staff attention
+  const { data: linked, error: storeError } = await supabase.rpc('record_inbound_sms', {
+    p_external_id: payload.MessageSid,
+    p_from: payload.From,
+    p_body: payload.Body,
+    p_mark_read: action !== null,
+  });
+
+  if (storeError) {
+    console.error('Failed to store inbound SMS:', storeError);
+  }
+
+  if (!action) {
+    console.log(
+      `Inbound SMS received: ${payload.MessageSid} (linked to ${linked ?? 0} member(s))`
+    );
+    return null;
+  }
+
+  if (action === 'opt_out') {
+    const { data: affected, error } = await supabase.rpc('record_sms_opt_out', {
+      p_phone: payload.From,
+      p_reason: `${payload.Body.trim().toUpperCase()} keyword received`,
+    });
+
+    if (error) {
+      // Still confirm the opt-out to the sender; the log entry lets the
+      // consent record be reconciled manually.
+      console.error('Failed to record SMS opt-out:', error);
+    } else {
+      console.log(`SMS opt-out recorded for ${affected ?? 0} member(s)`);
+    }
+  } else if (action === 'opt_in') {
+    const { data: affected, error } = await supabase.rpc('record_sms_opt_in', {
+      p_phone: payload.From,
+    });
+
+    if (error) {
+      console.error('Failed to record SMS opt-in:', error);
+    } else {
+      console.log(`SMS opt-in recorded for ${affected ?? 0} member(s)`);
+    }
+  } else {
+    await supabase.from('audit_logs').insert({
+      event_type: 'SMS_HELP_REQUESTED',
+      metadata: {
+        messageSid: payload.MessageSid,
+        phoneMasked: payload.From.slice(0, -4).replace(/\d/g, '*') + payload.From.slice(-4),
+      },
+    });
+  }
+
+  const companyName = await getCompanyName(supabase);
+  return buildKeywordReply(action, companyName, Deno.env.get('SMS_HELP_CONTACT'));
+}
+
 // =============================================================================
 // Main Handler
 // =============================================================================
@@ -102,14 +273,18 @@ Deno.serve(async (req: Request): Promise<Response> => {
     return new Response('Method not allowed', { status: 405 });
   }
 
+  let isInbound = false;
+
   try {
     // Read body as text for signature verification
     const bodyText = await req.text();
+    const supabase = createSupabaseAdmin();
 
     // Verify Twilio signature (skip in development if not configured)
     const skipVerification = Deno.env.get('SKIP_TWILIO_VERIFICATION') === 'true';
     if (!skipVerification) {
-      const isValid = await verifyTwilioSignature(req, bodyText);
+      const authToken = await getTwilioAuthToken(supabase);
+      const isValid = await verifyTwilioSignature(req, bodyText, authToken);
       if (!isValid) {
         console.error('Invalid Twilio signature');
         return new Response('Invalid signature', { status: 403 });
@@ -118,6 +293,26 @@ Deno.serve(async (req: Request): Promise<Response> => {
 
     // Parse the URL-encoded body
     const params = new URLSearchParams(bodyText);
+
+    // Inbound messages carry a Body but no MessageStatus
+    isInbound = params.has('Body') && !params.has('MessageStatus');
+
+    if (isInbound) {
+      const inbound: TwilioInboundPayload = {
+        MessageSid: params.get('MessageSid') || '',
+        From: params.get('From') || '',
+        To: params.get('To') || '',
+        Body: params.get('Body') || '',
+      };
+
+      if (!inbound.MessageSid || !inbound.From) {
+        return new Response('Missing required fields', { status: 400 });
+      }
+
+      const reply = await handleInboundMessage(supabase, inbound);
+      return twimlResponse(reply ?? undefined);
+    }
+
     const payload: TwilioWebhookPayload = {
       MessageSid: params.get('MessageSid') || '',
       MessageStatus: params.get('MessageStatus') || '',
@@ -131,53 +326,7 @@ Deno.serve(async (req: Request): Promise<Response> => {
       return new Response('Missing required fields', { status: 400 });
     }
 
-    const supabase = createSupabaseAdmin();
-    const newStatus = STATUS_MAP[payload.MessageStatus] || payload.MessageStatus;
-    const now = new Date().toISOString();
-
-    // Build update object based on status
-    const updateData: Record<string, unknown> = {
-      status: newStatus,
-    };
-
-    if (newStatus === 'delivered') {
-      updateData.delivered_at = now;
-    } else if (newStatus === 'failed') {
-      updateData.failed_at = now;
-      if (payload.ErrorMessage) {
-        updateData.error_message = `${payload.ErrorCode}: ${payload.ErrorMessage}`;
-      }
-    }
-
-    // Update the message record
-    const { data: message, error: updateError } = await supabase
-      .from('campaign_messages')
-      .update(updateData)
-      .eq('external_id', payload.MessageSid)
-      .select('id, campaign_id')
-      .single();
-
-    if (updateError) {
-      // Message might not exist if this is a test or duplicate webhook
-      console.log('Message update skipped:', updateError.message);
-    }
-
-    // Update campaign aggregate stats if we found the message
-    if (message?.campaign_id && (newStatus === 'delivered' || newStatus === 'failed')) {
-      const statsField =
-        newStatus === 'delivered' ? 'total_delivered' : 'total_failed';
-
-      await supabase.rpc('increment_campaign_stat', {
-        p_campaign_id: message.campaign_id,
-        p_field: statsField,
-      });
-    }
-
-    // Log the webhook event
-    console.log(
-      `SMS status update: ${payload.MessageSid} -> ${newStatus}`,
-      message?.campaign_id ? `(campaign: ${message.campaign_id})` : ''
-    );
+    await handleStatusCallback(supabase, payload);
 
     // Return success (Twilio expects 200 response)
     return new Response('OK', { status: 200 });
@@ -185,6 +334,6 @@ Deno.serve(async (req: Request): Promise<Response> => {
     console.error('Twilio webhook error:', error);
     // Return 200 to prevent Twilio from retrying
     // We don't want to lose webhooks due to temporary errors
-    return new Response('OK', { status: 200 });
+    return isInbound ? twimlResponse() : new Response('OK', { status: 200 });
   }
 });
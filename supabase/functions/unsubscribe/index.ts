@@ -0,0 +1,209 @@
+/**
+ * Unsubscribe Edge Function
+ *
+ * Public (no login) endpoint behind signed per-member unsubscribe links.
+ * - RFC 8058 one-click: POST ?token=... with body List-Unsubscribe=One-Click
+ *   unsubscribes the member from email (sent by mail clients)
+ * - Preference page: POST JSON { token, action } where action is
+ *   'get' (current preferences), 'unsubscribe' (email) or 'update'
+ *   (email / SMS opt-out and preferred channel)
+ * - All changes go through record_email_unsubscribe() and
+ *   update_member_preferences() so they appear in the consent audit log
+ *
+ * Deploy with JWT verification disabled (see supabase/config.toml).
+ */
+
+import { corsResponse, corsErrorResponse, handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin } from '../_shared/supabase.ts';
+import { verifyUnsubscribeToken } from '../_shared/unsubscribe.ts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type PreferredChannel = 'sms' | 'email' | 'both' | 'none';
+
+interface PreferenceRequest {
+  token: string;
+  action: 'get' | 'unsubscribe' | 'update';
+  email?: boolean;
+  sms?: boolean;
+  preferredChannel?: PreferredChannel;
+}
+
+interface MemberPreferences {
+  firstName: string | null;
+  email: string | null;
+  phone: string | null;
+  emailSubscribed: boolean;
+  smsSubscribed: boolean;
+  preferredChannel: PreferredChannel;
+  companyName: string | null;
+}
+
+const PREFERRED_CHANNELS: PreferredChannel[] = ['sms', 'email', 'both', 'none'];
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function maskEmail(email: string | null): string | null {
+  if (!email) return null;
+  const [local, domain] = email.split('@');
+  if (!domain) return email;
+  return `${local.charAt(0)}${'*'.repeat(Math.max(local.length - 1, 2))}@${domain}`;
+}
+
+function maskPhone(phone: string | null): string | null {
+  if (!phone) return null;
+  return `***-***-${phone.replace(/\D/g, '').slice(-4)}`;
+}
+
+async function getPreferences(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  memberId: string
+): Promise<MemberPreferences | null> {
+  const { data: member, error } = await supabase
+    .from('members')
+    .select(
+      'first_name, email, phone, member_consent (email_consent, email_unsubscribed_at, sms_consent, sms_opt_out_at, preferred_channel)'
+    )
+    .eq('id', memberId)
+    .single();
+
+  if (error || !member) return null;
+
+  const consent = Array.isArray(member.member_consent)
+    ? member.member_consent[0]
+    : member.member_consent;
+
+  const { data: settings } = await supabase
+    .from('app_settings')
+    .select('company_name')
+    .limit(1)
+    .single();
+
+  return {
+    firstName: member.first_name,
+    email: maskEmail(member.email),
+    phone: maskPhone(member.phone),
+    // Email consent defaults to TRUE for existing relationships
+    emailSubscribed: consent
+      ? consent.email_consent !== false && !consent.email_unsubscribed_at
+      : true,
+    smsSubscribed: consent ? !!consent.sms_consent && !consent.sms_opt_out_at : false,
+    preferredChannel: consent?.preferred_channel ?? 'email',
+    companyName: settings?.company_name ?? null,
+  };
+}
+
+async function unsubscribeEmail(
+  supabase: ReturnType<typeof createSupabaseAdmin>,
+  memberId: string,
+  reason: string
+): Promise<void> {
+  const { data: member } = await supabase
+    .from('members')
+    .select('email')
+    .eq('id', memberId)
+    .single();
+
+  const { error } = await supabase.rpc('record_email_unsubscribe', {
+    p_email: member?.email ?? '',
+    p_reason: reason,
+    p_member_id: memberId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record unsubscribe: ${error.message}`);
+  }
+}
+
+// =============================================================================
+// Main Handler
+// =============================================================================
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  const corsResult = handleCors(req);
+  if (corsResult) return corsResult;
+
+  if (req.method !== 'POST') {
+    return corsErrorResponse('Method not allowed', 405);
+  }
+
+  try {
+    const supabase = createSupabaseAdmin();
+    const contentType = req.headers.get('content-type') || '';
+
+    // RFC 8058 one-click unsubscribe from the List-Unsubscribe header
+    if (!contentType.includes('application/json')) {
+      const token = new URL(req.url).searchParams.get('token') || '';
+      const body = await req.text();
+      const memberId = await verifyUnsubscribeToken(token);
+
+      if (!memberId || !body.includes('List-Unsubscribe=One-Click')) {
+        return corsErrorResponse('Invalid unsubscribe request', 400, 'INVALID_TOKEN');
+      }
+
+      await unsubscribeEmail(supabase, memberId, 'One-click unsubscribe');
+      return corsResponse({ success: true });
+    }
+
+    // Preference page
+    const request: PreferenceRequest = await req.json();
+    const memberId = request.token ? await verifyUnsubscribeToken(request.token) : null;
+
+    if (!memberId) {
+      return corsErrorResponse('This link is invalid', 400, 'INVALID_TOKEN');
+    }
+
+    switch (request.action) {
+      case 'get':
+        break;
+
+      case 'unsubscribe':
+        await unsubscribeEmail(supabase, memberId, 'Unsubscribe link');
+        break;
+
+      case 'update': {
+        if (
+          request.preferredChannel !== undefined &&
+          !PREFERRED_CHANNELS.includes(request.preferredChannel)
+        ) {
+          return corsErrorResponse('Invalid preferred channel', 400, 'INVALID_CHANNEL');
+        }
+
+        const current = await getPreferences(supabase, memberId);
+        if (!current) {
+          return corsErrorResponse('Member not found', 404, 'NOT_FOUND');
+        }
+
+        const { error } = await supabase.rpc('update_member_preferences', {
+          p_member_id: memberId,
+          p_email: request.email ?? current.emailSubscribed,
+          p_sms: request.sms ?? current.smsSubscribed,
+          p_preferred_channel: request.preferredChannel ?? null,
+        });
+
+        if (error) {
+          throw new Error(`Failed to update preferences: ${error.message}`);
+        }
+        break;
+      }
+
+      default:
+        return corsErrorResponse('Invalid action', 400, 'INVALID_ACTION');
+    }
+
+    const preferences = await getPreferences(supabase, memberId);
+    if (!preferences) {
+      return corsErrorResponse('Member not found', 404, 'NOT_FOUND');
+    }
+
+    return corsResponse({ success: true, preferences });
+  } catch (error) {
+    console.error('Unsubscribe error:', error);
+    return corsErrorResponse('Failed to update preferences', 500, 'INTERNAL_ERROR');
+  }
+});
@@ -0,0 +1,223 @@
+/**
+ * Verify Provider Edge Function
+ *
+ * Checks the Twilio or SendGrid credentials saved in app_settings (or the
+ * environment fallback) for the Settings page, reporting the provider's own
+ * error when they don't work.
+ * - Twilio verify: signs in to the account and checks it is active and owns
+ *   the phone number
+ * - SendGrid verify: checks the API key is valid and has the Mail Send
+ *   permission
+ * - Test message: sends a short SMS or email to the given address; it counts
+ *   against the monthly limit but is sent even once the limit is reached
+ *
+ * Actions (request body):
+ * - { provider: 'twilio' | 'sendgrid', action: 'verify' }
+ * - { provider: 'twilio' | 'sendgrid', action: 'test', to }: to is an E.164
+ *   phone number for Twilio, an email address for SendGrid
+ *
+ * Responds with { success, message, error? }; failed checks are not HTTP
+ * errors.
+ *
+ * Can be triggered by:
+ * - The app (admins only, Settings page)
+ */
+
+import { corsResponse, corsErrorResponse, handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, requireAuth } from '../_shared/supabase.ts';
+import { getProviderCredentials } from '../_shared/providerCredentials.ts';
+import { consumeMessagingQuota, releaseMessagingQuota } from '../_shared/messagingQuota.ts';
+import { calculateSegmentCount } from '../_shared/messagingUsage.ts';
+import { sendTwilioMessage, verifyTwilioCredentials } from '../_shared/twilio.ts';
+import { sendSendGridEmail, verifySendGridCredentials } from '../_shared/sendgrid.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type Provider = 'twilio' | 'sendgrid';
+
+interface VerifyProviderRequest {
+  provider: Provider;
+  action: 'verify' | 'test';
+  to?: string;
+}
+
+interface VerifyProviderResponse {
+  success: boolean;
+  message: string;
+  error?: { code: string; message: string };
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const E164_REGEX = /^\+[1-9]\d{1,14}$/;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const TEST_SMS_BODY = 'Test message: your Twilio settings are working.';
+const TEST_EMAIL_SUBJECT = 'Test email';
+const TEST_EMAIL_TEXT = 'Test email: your SendGrid settings are working.';
+
+const PROVIDER_NAMES: Record<Provider, string> = {
+  twilio: 'Twilio',
+  sendgrid: 'SendGrid',
+};
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+function failure(code: string, message: string): VerifyProviderResponse {
+  return { success: false, message, error: { code, message } };
+}
+
+async function isAdmin(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .single();
+
+  return data?.role === 'admin';
+}
+
+async function verifyCredentials(
+  supabase: SupabaseClient,
+  provider: Provider
+): Promise<VerifyProviderResponse> {
+  const { twilio, sendgrid } = await getProviderCredentials(supabase, true);
+
+  if (provider === 'twilio') {
+    if (!twilio) {
+      return failure('NOT_CONFIGURED', 'Enter the account SID, auth token and phone number first');
+    }
+    const accountName = await verifyTwilioCredentials(twilio);
+    return { success: true, message: `Connected to Twilio account "${accountName}"` };
+  }
+
+  if (!sendgrid) {
+    return failure('NOT_CONFIGURED', 'Enter the API key and from email first');
+  }
+  await verifySendGridCredentials(sendgrid);
+  return { success: true, message: 'The SendGrid API key can send mail' };
+}
+
+async function sendTestMessage(
+  supabase: SupabaseClient,
+  provider: Provider,
+  to: string
+): Promise<VerifyProviderResponse> {
+  const { twilio, sendgrid } = await getProviderCredentials(supabase, true);
+
+  if (provider === 'twilio') {
+    if (!twilio) {
+      return failure('NOT_CONFIGURED', 'Enter the account SID, auth token and phone number first');
+    }
+
+    const segments = calculateSegmentCount(TEST_SMS_BODY);
+    const usagePeriod = (await consumeMessagingQuota(supabase, 'sms', segments, true))!;
+    try {
+      await sendTwilioMessage(twilio, to, TEST_SMS_BODY);
+    } catch (error) {
+      await releaseMessagingQuota(supabase, 'sms', usagePeriod, segments);
+      throw error;
+    }
+    return { success: true, message: `Test SMS sent to ${to}` };
+  }
+
+  if (!sendgrid) {
+    return failure('NOT_CONFIGURED', 'Enter the API key and from email first');
+  }
+
+  const usagePeriod = (await consumeMessagingQuota(supabase, 'email', 1, true))!;
+  try {
+    await sendSendGridEmail(sendgrid, {
+      to,
+      subject: TEST_EMAIL_SUBJECT,
+      html: `<p>${TEST_EMAIL_TEXT}</p>`,
+      text: TEST_EMAIL_TEXT,
+    });
+  } catch (error) {
+    await releaseMessagingQuota(supabase, 'email', usagePeriod, 1);
+    throw error;
+  }
+  return { success: true, message: `Test email sent to ${to}` };
+}
+
+// =============================================================================
+// Main Handler
+// =============================================================================
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  const corsResult = handleCors(req);
+  if (corsResult) return corsResult;
+
+  let userId: string;
+  try {
+    userId = await requireAuth(req);
+  } catch {
+    return corsErrorResponse('Unauthorized', 401, 'UNAUTHORIZED');
+  }
+
+  const supabase = createSupabaseAdmin();
+  if (!(await isAdmin(supabase, userId))) {
+    return corsErrorResponse('Only admins can verify provider credentials', 403, 'FORBIDDEN');
+  }
+
+  let request: VerifyProviderRequest;
+  try {
+    request = await req.json();
+  } catch {
+    return corsErrorResponse('Invalid request body', 400);
+  }
+
+  const { provider, action, to } = request;
+
+  if (!(provider in PROVIDER_NAMES)) {
+    return corsErrorResponse('provider must be twilio or sendgrid', 400);
+  }
+  if (action !== 'verify' && action !== 'test') {
+    return corsErrorResponse('action must be verify or test', 400);
+  }
+  if (action === 'test') {
+    const validRecipient = provider === 'twilio' ? E164_REGEX.test(to ?? '') : EMAIL_REGEX.test(to ?? '');
+    if (!validRecipient) {
+      return corsErrorResponse(
+        provider === 'twilio'
+          ? 'to must be an E.164 phone number (e.g., +14155551234)'
+          : 'to must be an email address',
+        400
+      );
+    }
+  }
+
+  let result: VerifyProviderResponse;
+  try {
+    result =
+      action === 'verify'
+        ? await verifyCredentials(supabase, provider)
+        : await sendTestMessage(supabase, provider, to!);
+  } catch (error) {
+    console.error(`${PROVIDER_NAMES[provider]} ${action} error:`, error);
+    result = failure(
+      'PROVIDER_ERROR',
+      error instanceof Error ? error.message : `${PROVIDER_NAMES[provider]} request failed`
+    );
+  }
+
+  await supabase.from('audit_logs').insert({
+    event_type: action === 'verify' ? 'PROVIDER_VERIFIED' : 'PROVIDER_TEST_SENT',
+    email: userId,
+    metadata: {
+      provider,
+      success: result.success,
+      ...(result.error ? { error: result.error.message } : {}),
+    },
+  });
+
+  return corsResponse(result);
+});
@@ -0,0 +1,118 @@
+-- SMS Keywords Migration
+-- Consent updates for inbound STOP/START keywords received by twilio-webhook
+
+-- =============================================================================
+-- Opt-Out (STOP, STOPALL, UNSUBSCRIBE, CANCEL, END, QUIT)
+-- =============================================================================
+
+-- Return type changes from VOID to INTEGER, so the function must be dropped
+DROP FUNCTION IF EXISTS record_sms_opt_out(VARCHAR, VARCHAR);
+
+-- Function: Record SMS opt-out for every member with the given phone
+-- Phones match on their digits, with or without the US country code, like
+-- record_inbound_sms, since members are not always stored in E.164.
+-- Creates a consent record for members that do not have one yet so the
+-- opt-out is never lost. Returns the number of members affected.
+CREATE OR REPLACE FUNCTION record_sms_opt_out(
+  p_phone VARCHAR,
+  p_reason VARCHAR DEFAULT 'STOP keyword received'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_digits TEXT := regexp_replace(p_phone, '\D', '', 'g');
+  v_member_ids UUID[];
+BEGIN
+  SELECT ARRAY_AGG(id) INTO v_member_ids
+  FROM members
+  WHERE phone = p_phone
+    OR regexp_replace(phone, '\D', '', 'g') = v_digits
+    OR '1' || regexp_replace(phone, '\D', '', 'g') = v_digits;
+
+  IF v_member_ids IS NOT NULL THEN
+    INSERT INTO member_consent (
+      member_id,
+      sms_consent,
+      sms_opt_out_at,
+      sms_opt_out_reason
+    )
+    SELECT UNNEST(v_member_ids), FALSE, NOW(), p_reason
+    ON CONFLICT (member_id) DO UPDATE SET
+      sms_consent = FALSE,
+      sms_opt_out_at = NOW(),
+      sms_opt_out_reason = EXCLUDED.sms_opt_out_reason,
+      updated_at = NOW();
+  END IF;
+
+  -- Log the opt-out (one entry per phone, listing affected members)
+  PERFORM log_audit_event(
+    'SMS_OPT_OUT',
+    NULL,
+    NULL,
+    jsonb_build_object(
+      'phone', p_phone,
+      'reason', p_reason,
+      'member_ids', COALESCE(to_jsonb(v_member_ids), '[]'::JSONB)
+    )
+  );
+
+  RETURN COALESCE(array_length(v_member_ids, 1), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- Opt-In (START, UNSTOP)
+-- =============================================================================
+
+-- Function: Restore SMS consent for every member with the given phone
+-- (matched as in record_sms_opt_out). Returns the number of members affected.
+CREATE OR REPLACE FUNCTION record_sms_opt_in(
+  p_phone VARCHAR,
+  p_source VARCHAR DEFAULT 'sms_keyword'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_digits TEXT := regexp_replace(p_phone, '\D', '', 'g');
+  v_member_ids UUID[];
+BEGIN
+  SELECT ARRAY_AGG(id) INTO v_member_ids
+  FROM members
+  WHERE phone = p_phone
+    OR regexp_replace(phone, '\D', '', 'g') = v_digits
+    OR '1' || regexp_replace(phone, '\D', '', 'g') = v_digits;
+
+  IF v_member_ids IS NOT NULL THEN
+    INSERT INTO member_consent (
+      member_id,
+      sms_consent,
+      sms_consent_source,
+      sms_consented_at
+    )
+    SELECT UNNEST(v_member_ids), TRUE, p_source, NOW()
+    ON CONFLICT (member_id) DO UPDATE SET
+      sms_consent = TRUE,
+      sms_consent_source = EXCLUDED.sms_consent_source,
+      sms_consented_at = NOW(),
+      sms_opt_out_at = NULL,
+      sms_opt_out_reason = NULL,
+      updated_at = NOW();
+  END IF;
+
+  -- Log the opt-in
+  PERFORM log_audit_event(
+    'SMS_OPT_IN',
+    NULL,
+    NULL,
+    jsonb_build_object(
+      'phone', p_phone,
+      'source', p_source,
+      'member_ids', COALESCE(to_jsonb(v_member_ids), '[]'::JSONB)
+    )
+  );
+
+  RETURN COALESCE(array_length(v_member_ids, 1), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Consent is only changed by keywords received by twilio-webhook (service role)
+REVOKE EXECUTE ON FUNCTION record_sms_opt_out(VARCHAR, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_sms_opt_in(VARCHAR, VARCHAR) FROM PUBLIC, anon, authenticated;
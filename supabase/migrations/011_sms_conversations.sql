@@ -0,0 +1,117 @@
+-- SMS Conversations Migration
+-- Two-way SMS inbox: inbound replies from members and staff replies back
+
+-- =============================================================================
+-- Conversation Messages Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS sms_conversation_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Owner of the matched member; NULL when the sender matches no member
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  member_id UUID REFERENCES members(id) ON DELETE CASCADE,
+
+  direction VARCHAR(10) NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  phone VARCHAR(20) NOT NULL, -- Member-side number (sender if inbound, recipient if outbound)
+  body TEXT NOT NULL,
+
+  -- Delivery tracking (outbound) / receipt (inbound)
+  status VARCHAR(20) NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'queued', 'sent', 'delivered', 'failed')),
+  external_id VARCHAR(255), -- Twilio MessageSid
+  error_message TEXT,
+
+  -- Inbox state (inbound only)
+  is_read BOOLEAN NOT NULL DEFAULT FALSE,
+  read_at TIMESTAMPTZ,
+
+  sent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- Staff member who replied
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_sms_conversation_member ON sms_conversation_messages(member_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_sms_conversation_user ON sms_conversation_messages(user_id);
+CREATE INDEX IF NOT EXISTS idx_sms_conversation_external ON sms_conversation_messages(external_id) WHERE external_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sms_conversation_unread ON sms_conversation_messages(user_id)
+  WHERE direction = 'inbound' AND is_read = FALSE;
+CREATE INDEX IF NOT EXISTS idx_sms_conversation_unmatched ON sms_conversation_messages(phone)
+  WHERE member_id IS NULL;
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE sms_conversation_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage conversations for own members"
+  ON sms_conversation_messages FOR ALL
+  USING (user_id = auth.uid());
+
+-- Messages from unknown numbers are visible to admins so they can be triaged
+CREATE POLICY "Admins can view unmatched conversations"
+  ON sms_conversation_messages FOR SELECT
+  USING (user_id IS NULL AND is_admin());
+
+CREATE POLICY "Admins can update unmatched conversations"
+  ON sms_conversation_messages FOR UPDATE
+  USING (user_id IS NULL AND is_admin());
+
+-- =============================================================================
+-- Functions
+-- =============================================================================
+
+-- Function: Store an inbound SMS, linking it to every member with that phone
+-- Matches the E.164 number exactly, or by digits for members whose phone was
+-- stored with formatting or without the +1 country code. Messages from
+-- unknown numbers are kept with no member so they are not lost.
+-- Returns the number of members the message was linked to.
+CREATE OR REPLACE FUNCTION record_inbound_sms(
+  p_external_id VARCHAR,
+  p_from VARCHAR,
+  p_body TEXT,
+  p_mark_read BOOLEAN DEFAULT FALSE
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_digits TEXT := regexp_replace(p_from, '\D', '', 'g');
+  v_count INTEGER;
+BEGIN
+  -- Twilio retries webhooks; ignore a MessageSid that is already stored
+  IF EXISTS (
+    SELECT 1 FROM sms_conversation_messages
+    WHERE external_id = p_external_id AND direction = 'inbound'
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO sms_conversation_messages (
+    user_id, member_id, direction, phone, body,
+    status, external_id, is_read, read_at
+  )
+  SELECT
+    m.user_id, m.id, 'inbound', p_from, p_body,
+    'received', p_external_id, p_mark_read, CASE WHEN p_mark_read THEN NOW() END
+  FROM members m
+  WHERE m.phone = p_from
+    OR regexp_replace(m.phone, '\D', '', 'g') = v_digits
+    OR '1' || regexp_replace(m.phone, '\D', '', 'g') = v_digits;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count = 0 THEN
+    INSERT INTO sms_conversation_messages (
+      direction, phone, body,
+      status, external_id, is_read, read_at
+    ) VALUES (
+      'inbound', p_from, p_body,
+      'received', p_external_id, p_mark_read, CASE WHEN p_mark_read THEN NOW() END
+    );
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Inbound messages are only stored by twilio-webhook (service role)
+REVOKE EXECUTE ON FUNCTION record_inbound_sms(VARCHAR, VARCHAR, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
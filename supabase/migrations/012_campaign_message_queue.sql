@@ -0,0 +1,206 @@
+-- Campaign Message Queue Migration
+-- Durable, resumable sending for process-campaign: messages are claimed in
+-- chunks under a lease, retried with backoff, and campaigns are finalized
+-- from actual message counts.
+
+-- =============================================================================
+-- Queue Columns
+-- =============================================================================
+
+ALTER TABLE campaign_messages
+  ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ, -- NULL = ready now
+  ADD COLUMN IF NOT EXISTS locked_by VARCHAR(64),       -- Worker holding the lease
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;    -- Lease expiry
+
+-- Claimable messages: queued, due, and not leased
+CREATE INDEX IF NOT EXISTS idx_campaign_messages_claimable
+  ON campaign_messages(campaign_id, next_attempt_at, queued_at)
+  WHERE status = 'queued';
+
+-- =============================================================================
+-- Campaign Lifecycle Functions
+-- =============================================================================
+
+-- Function: Start a scheduled campaign
+-- Queues a message for every eligible recipient and moves the campaign to
+-- 'sending' in one transaction, so a crash never leaves a campaign in
+-- 'sending' with a partial recipient list. Members already queued (e.g. via
+-- queue_campaign_messages) are kept. Returns the total recipient count, or
+-- NULL if the campaign was not in 'scheduled' status (already started).
+CREATE OR REPLACE FUNCTION start_campaign(p_campaign_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_campaign RECORD;
+  v_total INTEGER;
+BEGIN
+  SELECT * INTO v_campaign
+  FROM campaigns
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF v_campaign IS NULL OR v_campaign.status != 'scheduled' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO campaign_messages (
+    campaign_id,
+    member_id,
+    channel,
+    recipient_address,
+    status
+  )
+  SELECT
+    p_campaign_id,
+    r.member_id,
+    v_campaign.campaign_type,
+    CASE WHEN v_campaign.campaign_type = 'sms' THEN r.phone ELSE r.email END,
+    'queued'
+  FROM get_campaign_recipients(p_campaign_id) r
+  ON CONFLICT (campaign_id, member_id) DO NOTHING;
+
+  SELECT COUNT(*) INTO v_total
+  FROM campaign_messages
+  WHERE campaign_id = p_campaign_id;
+
+  UPDATE campaigns SET
+    status = 'sending',
+    started_at = NOW(),
+    total_recipients = v_total
+  WHERE id = p_campaign_id;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Claim a chunk of queued messages for a worker
+-- Uses SKIP LOCKED so concurrent workers never claim the same message.
+-- Messages whose lease expired (worker crashed) become claimable again.
+-- Each claim counts as a delivery attempt.
+CREATE OR REPLACE FUNCTION claim_campaign_messages(
+  p_campaign_id UUID,
+  p_worker_id VARCHAR,
+  p_limit INTEGER DEFAULT 100,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF campaign_messages AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE campaign_messages cm SET
+    locked_by = p_worker_id,
+    locked_until = NOW() + make_interval(secs => p_lease_seconds),
+    attempt_count = cm.attempt_count + 1,
+    last_attempt_at = NOW()
+  WHERE cm.id IN (
+    SELECT id FROM campaign_messages
+    WHERE campaign_id = p_campaign_id
+      AND status = 'queued'
+      AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+      AND (locked_until IS NULL OR locked_until < NOW())
+    ORDER BY queued_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING cm.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Update campaign statistics from message counts
+-- Replaces the 007 version: total_sent counts messages accepted by the
+-- provider (sent_at set) rather than everything no longer queued, so
+-- failures are not counted as sends.
+CREATE OR REPLACE FUNCTION update_campaign_stats(p_campaign_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE campaigns c SET
+    total_recipients = s.total,
+    total_sent = s.sent,
+    total_delivered = s.delivered,
+    total_failed = s.failed,
+    total_opened = s.opened,
+    total_clicked = s.clicked,
+    total_bounced = s.bounced,
+    updated_at = NOW()
+  FROM (
+    SELECT
+      COUNT(*) AS total,
+      COUNT(*) FILTER (WHERE sent_at IS NOT NULL) AS sent,
+      COUNT(*) FILTER (WHERE status IN ('delivered', 'opened', 'clicked')) AS delivered,
+      COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+      COUNT(*) FILTER (WHERE opened_at IS NOT NULL) AS opened,
+      COUNT(*) FILTER (WHERE clicked_at IS NOT NULL) AS clicked,
+      COUNT(*) FILTER (WHERE status = 'bounced') AS bounced
+    FROM campaign_messages
+    WHERE campaign_id = p_campaign_id
+  ) s
+  WHERE c.id = p_campaign_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Finalize a sending campaign
+-- Without p_force, only completes the campaign once no message is still
+-- queued (including messages leased to a worker or waiting for a retry).
+-- With p_force, remaining queued messages are marked failed first; use this
+-- to close out a campaign that cannot be resumed.
+-- Returns the campaign status after the call.
+CREATE OR REPLACE FUNCTION finalize_campaign(
+  p_campaign_id UUID,
+  p_force BOOLEAN DEFAULT FALSE
+)
+RETURNS VARCHAR AS $$
+DECLARE
+  v_campaign RECORD;
+  v_status VARCHAR;
+BEGIN
+  SELECT * INTO v_campaign
+  FROM campaigns
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF v_campaign IS NULL THEN
+    RAISE EXCEPTION 'Campaign not found';
+  END IF;
+
+  IF v_campaign.status != 'sending' THEN
+    RETURN v_campaign.status;
+  END IF;
+
+  IF p_force THEN
+    UPDATE campaign_messages SET
+      status = 'failed',
+      failed_at = NOW(),
+      error_message = COALESCE(error_message || ' (', '(') || 'campaign finalized before send)',
+      locked_by = NULL,
+      locked_until = NULL
+    WHERE campaign_id = p_campaign_id
+      AND status = 'queued';
+  ELSIF EXISTS (
+    SELECT 1 FROM campaign_messages
+    WHERE campaign_id = p_campaign_id AND status = 'queued'
+  ) THEN
+    PERFORM update_campaign_stats(p_campaign_id);
+    RETURN 'sending';
+  END IF;
+
+  PERFORM update_campaign_stats(p_campaign_id);
+
+  -- Failed only when there was something to send and nothing was sent
+  UPDATE campaigns SET
+    status = CASE
+      WHEN total_recipients > 0 AND total_sent = 0 THEN 'failed'
+      ELSE 'sent'
+    END,
+    completed_at = NOW()
+  WHERE id = p_campaign_id
+  RETURNING status INTO v_status;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The queue is only worked by process-campaign (service role)
+REVOKE EXECUTE ON FUNCTION start_campaign(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_campaign_messages(UUID, VARCHAR, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_campaign_stats(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finalize_campaign(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,314 @@
+-- Quiet Hours Migration
+-- Configurable SMS quiet hours (global + per site) and campaigns delivered at
+-- a set time in each recipient's local timezone. Messages that fall inside
+-- quiet hours are deferred by the process-campaign worker, never dropped.
+
+-- =============================================================================
+-- Configuration Columns
+-- =============================================================================
+
+-- Global quiet hours (TCPA default: no texts 9 PM - 8 AM recipient time)
+ALTER TABLE app_settings
+  ADD COLUMN IF NOT EXISTS quiet_hours_start TIME NOT NULL DEFAULT '21:00',
+  ADD COLUMN IF NOT EXISTS quiet_hours_end TIME NOT NULL DEFAULT '08:00';
+
+-- Per-site override (NULL = use app_settings)
+ALTER TABLE sites
+  ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+  ADD COLUMN IF NOT EXISTS quiet_hours_end TIME;
+
+-- Deliver at this time of day in each recipient's site timezone (NULL = immediately)
+ALTER TABLE campaigns
+  ADD COLUMN IF NOT EXISTS local_send_time TIME;
+
+-- Why a queued message is waiting: 'local_time' or 'quiet_hours'
+-- (NULL for retries and messages that are ready now)
+ALTER TABLE campaign_messages
+  ADD COLUMN IF NOT EXISTS deferred_reason VARCHAR(20)
+    CHECK (deferred_reason IN ('local_time', 'quiet_hours'));
+
+-- =============================================================================
+-- Time Helpers
+-- =============================================================================
+
+-- Function: Next instant (at or after p_after) when the local clock in
+-- p_timezone reads p_time. DST-safe: the local timestamp is converted back
+-- to an absolute time in the same zone.
+CREATE OR REPLACE FUNCTION next_local_time(
+  p_time TIME,
+  p_timezone VARCHAR,
+  p_after TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_local TIMESTAMP := p_after AT TIME ZONE p_timezone;
+  v_candidate TIMESTAMP := date_trunc('day', v_local) + p_time;
+BEGIN
+  IF v_candidate < v_local THEN
+    v_candidate := v_candidate + INTERVAL '1 day';
+  END IF;
+
+  RETURN v_candidate AT TIME ZONE p_timezone;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function: Effective quiet hours for a site (site override, else global)
+CREATE OR REPLACE FUNCTION get_quiet_hours(p_site_id UUID)
+RETURNS TABLE (
+  quiet_start TIME,
+  quiet_end TIME,
+  timezone VARCHAR
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COALESCE(s.quiet_hours_start, a.quiet_hours_start, '21:00'::TIME),
+    COALESCE(s.quiet_hours_end, a.quiet_hours_end, '08:00'::TIME),
+    COALESCE(s.timezone, a.timezone, 'America/New_York')::VARCHAR
+  FROM (SELECT 1) one
+  LEFT JOIN sites s ON s.id = p_site_id
+  LEFT JOIN LATERAL (SELECT * FROM app_settings LIMIT 1) a ON TRUE;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function: Whether p_at falls inside a quiet-hours window in p_timezone
+-- Windows may wrap midnight (21:00 - 08:00). Equal start and end disables
+-- quiet hours.
+CREATE OR REPLACE FUNCTION is_quiet_hours(
+  p_start TIME,
+  p_end TIME,
+  p_timezone VARCHAR,
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_local TIME := (p_at AT TIME ZONE p_timezone)::TIME;
+BEGIN
+  IF p_start = p_end THEN
+    RETURN FALSE;
+  ELSIF p_start > p_end THEN
+    RETURN v_local >= p_start OR v_local < p_end;
+  ELSE
+    RETURN v_local >= p_start AND v_local < p_end;
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- =============================================================================
+-- SMS Consent Check
+-- =============================================================================
+
+-- The default timezone changes, so the function must be dropped
+DROP FUNCTION IF EXISTS can_send_sms(UUID, VARCHAR);
+
+-- Function: Check if member can receive SMS right now
+-- Replaces the 006 version: quiet hours come from the member's site (or
+-- app_settings) instead of a fixed 8 AM - 9 PM, and the timezone defaults
+-- to the member's site timezone.
+CREATE OR REPLACE FUNCTION can_send_sms(
+  p_member_id UUID,
+  p_site_timezone VARCHAR DEFAULT NULL
+)
+RETURNS TABLE (
+  can_send BOOLEAN,
+  reason TEXT
+) AS $$
+DECLARE
+  v_consent RECORD;
+  v_member RECORD;
+  v_quiet RECORD;
+BEGIN
+  -- Get consent record
+  SELECT * INTO v_consent
+  FROM member_consent
+  WHERE member_id = p_member_id;
+
+  -- Get member record
+  SELECT * INTO v_member
+  FROM members
+  WHERE id = p_member_id;
+
+  -- Check if member exists
+  IF v_member IS NULL THEN
+    RETURN QUERY SELECT FALSE, 'Member not found'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Check if phone exists
+  IF v_member.phone IS NULL OR v_member.phone = '' THEN
+    RETURN QUERY SELECT FALSE, 'No phone number'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Check do not contact
+  IF v_consent IS NOT NULL AND v_consent.do_not_contact THEN
+    RETURN QUERY SELECT FALSE, 'Do not contact flag set'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Check SMS consent
+  IF v_consent IS NULL OR NOT v_consent.sms_consent THEN
+    RETURN QUERY SELECT FALSE, 'No SMS consent'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Check opt-out
+  IF v_consent.sms_opt_out_at IS NOT NULL THEN
+    RETURN QUERY SELECT FALSE, 'Member opted out of SMS'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Check quiet hours in the member's timezone
+  SELECT * INTO v_quiet FROM get_quiet_hours(v_member.site_id);
+
+  IF is_quiet_hours(
+    v_quiet.quiet_start,
+    v_quiet.quiet_end,
+    COALESCE(p_site_timezone, v_quiet.timezone)
+  ) THEN
+    RETURN QUERY SELECT
+      FALSE,
+      format(
+        'Outside quiet hours (%s - %s)',
+        to_char(v_quiet.quiet_start, 'HH24:MI'),
+        to_char(v_quiet.quiet_end, 'HH24:MI')
+      );
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT TRUE, 'OK'::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- Campaign Scheduling
+-- =============================================================================
+
+-- Function: Start a scheduled campaign
+-- Replaces the 012 version: when the campaign has a local_send_time, each
+-- message is held until that time in the recipient's site timezone (the
+-- first occurrence at or after scheduled_at).
+CREATE OR REPLACE FUNCTION start_campaign(p_campaign_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_campaign RECORD;
+  v_total INTEGER;
+BEGIN
+  SELECT * INTO v_campaign
+  FROM campaigns
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF v_campaign IS NULL OR v_campaign.status != 'scheduled' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO campaign_messages (
+    campaign_id,
+    member_id,
+    channel,
+    recipient_address,
+    status
+  )
+  SELECT
+    p_campaign_id,
+    r.member_id,
+    v_campaign.campaign_type,
+    CASE WHEN v_campaign.campaign_type = 'sms' THEN r.phone ELSE r.email END,
+    'queued'
+  FROM get_campaign_recipients(p_campaign_id) r
+  ON CONFLICT (campaign_id, member_id) DO NOTHING;
+
+  IF v_campaign.local_send_time IS NOT NULL THEN
+    UPDATE campaign_messages cm SET
+      next_attempt_at = next_local_time(
+        v_campaign.local_send_time,
+        COALESCE(s.timezone, 'America/New_York'),
+        COALESCE(v_campaign.scheduled_at, NOW())
+      ),
+      deferred_reason = 'local_time'
+    FROM members m
+    LEFT JOIN sites s ON s.id = m.site_id
+    WHERE cm.campaign_id = p_campaign_id
+      AND cm.status = 'queued'
+      AND m.id = cm.member_id;
+  END IF;
+
+  SELECT COUNT(*) INTO v_total
+  FROM campaign_messages
+  WHERE campaign_id = p_campaign_id;
+
+  UPDATE campaigns SET
+    status = 'sending',
+    started_at = NOW(),
+    total_recipients = v_total
+  WHERE id = p_campaign_id;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Defer due SMS messages whose recipient is in quiet hours
+-- Called by the worker before claiming, so messages are held until the end
+-- of the recipient's quiet-hours window instead of being sent or failed.
+-- Returns the number of messages deferred.
+CREATE OR REPLACE FUNCTION defer_quiet_hours_messages(p_campaign_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH due AS (
+    SELECT cm.id, q.quiet_end, q.timezone
+    FROM campaign_messages cm
+    INNER JOIN members m ON m.id = cm.member_id
+    CROSS JOIN LATERAL get_quiet_hours(m.site_id) q
+    WHERE cm.campaign_id = p_campaign_id
+      AND cm.channel = 'sms'
+      AND cm.status = 'queued'
+      AND (cm.next_attempt_at IS NULL OR cm.next_attempt_at <= NOW())
+      AND (cm.locked_until IS NULL OR cm.locked_until < NOW())
+      AND is_quiet_hours(q.quiet_start, q.quiet_end, q.timezone)
+  )
+  UPDATE campaign_messages cm SET
+    next_attempt_at = next_local_time(due.quiet_end, due.timezone),
+    deferred_reason = 'quiet_hours'
+  FROM due
+  WHERE cm.id = due.id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deferral is only run by process-campaign (service role)
+REVOKE EXECUTE ON FUNCTION defer_quiet_hours_messages(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function: Summary of deferred messages for the campaign detail page
+CREATE OR REPLACE FUNCTION get_campaign_deferred_stats(p_campaign_id UUID)
+RETURNS TABLE (
+  deferred_reason VARCHAR,
+  message_count INTEGER,
+  next_send_at TIMESTAMPTZ,
+  last_send_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM campaigns WHERE id = p_campaign_id AND user_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cm.deferred_reason,
+    COUNT(*)::INTEGER,
+    MIN(cm.next_attempt_at),
+    MAX(cm.next_attempt_at)
+  FROM campaign_messages cm
+  WHERE cm.campaign_id = p_campaign_id
+    AND cm.status = 'queued'
+    AND cm.deferred_reason IS NOT NULL
+    AND cm.next_attempt_at > NOW()
+  GROUP BY cm.deferred_reason;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,202 @@
+-- Email Preferences Migration
+-- Member-scoped unsubscribes and preference updates for the hosted
+-- unsubscribe page (unsubscribe Edge Function). All changes go through
+-- member_consent so they are captured by the consent audit trigger.
+
+-- =============================================================================
+-- Email Unsubscribe
+-- =============================================================================
+
+-- Signature changes (adds p_member_id), so the function must be dropped
+DROP FUNCTION IF EXISTS record_email_unsubscribe(VARCHAR, VARCHAR);
+
+-- Function: Record email unsubscribe
+-- Replaces the 006 version. With p_member_id (signed unsubscribe link) only
+-- that member is unsubscribed; otherwise (SendGrid unsubscribe event) every
+-- member with the address is. Creates a consent record for members that do
+-- not have one yet so the unsubscribe is never lost.
+CREATE OR REPLACE FUNCTION record_email_unsubscribe(
+  p_email VARCHAR,
+  p_reason VARCHAR DEFAULT 'User unsubscribed',
+  p_member_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_member_ids UUID[];
+BEGIN
+  IF p_member_id IS NOT NULL THEN
+    v_member_ids := ARRAY[p_member_id];
+  ELSE
+    SELECT ARRAY_AGG(id) INTO v_member_ids
+    FROM members
+    WHERE LOWER(email) = LOWER(TRIM(p_email));
+  END IF;
+
+  IF v_member_ids IS NOT NULL THEN
+    INSERT INTO member_consent (
+      member_id,
+      email_consent,
+      email_unsubscribed_at,
+      email_unsubscribe_reason
+    )
+    SELECT UNNEST(v_member_ids), FALSE, NOW(), p_reason
+    ON CONFLICT (member_id) DO UPDATE SET
+      email_consent = FALSE,
+      email_unsubscribed_at = NOW(),
+      email_unsubscribe_reason = EXCLUDED.email_unsubscribe_reason,
+      updated_at = NOW();
+  END IF;
+
+  -- Log the unsubscribe
+  PERFORM log_audit_event(
+    'EMAIL_UNSUBSCRIBE',
+    p_email,
+    NULL,
+    jsonb_build_object(
+      'reason', p_reason,
+      'member_ids', COALESCE(to_jsonb(v_member_ids), '[]'::JSONB)
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- Preference Center
+-- =============================================================================
+
+-- Function: Apply a member's choices from the preference page
+-- - p_email FALSE unsubscribes via record_email_unsubscribe; TRUE
+--   resubscribes a member who had unsubscribed
+-- - p_sms FALSE opts the member out of SMS. SMS consent cannot be granted
+--   here (TCPA requires express consent, e.g. texting START), so TRUE only
+--   keeps the current state
+-- - p_preferred_channel updates preferred_channel when not NULL
+CREATE OR REPLACE FUNCTION update_member_preferences(
+  p_member_id UUID,
+  p_email BOOLEAN,
+  p_sms BOOLEAN,
+  p_preferred_channel VARCHAR DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_member RECORD;
+  v_consent RECORD;
+BEGIN
+  SELECT * INTO v_member FROM members WHERE id = p_member_id;
+
+  IF v_member IS NULL THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  -- Make sure there is a consent record to update
+  INSERT INTO member_consent (member_id)
+  VALUES (p_member_id)
+  ON CONFLICT (member_id) DO NOTHING;
+
+  SELECT * INTO v_consent FROM member_consent WHERE member_id = p_member_id;
+
+  -- Email
+  IF NOT p_email AND v_consent.email_unsubscribed_at IS NULL THEN
+    PERFORM record_email_unsubscribe(v_member.email, 'Preference center', p_member_id);
+  ELSIF p_email AND (v_consent.email_unsubscribed_at IS NOT NULL OR NOT v_consent.email_consent) THEN
+    UPDATE member_consent SET
+      email_consent = TRUE,
+      email_consent_source = 'preference_center',
+      email_consented_at = NOW(),
+      email_unsubscribed_at = NULL,
+      email_unsubscribe_reason = NULL,
+      updated_at = NOW()
+    WHERE member_id = p_member_id;
+  END IF;
+
+  -- SMS (opt-out only)
+  IF NOT p_sms AND v_consent.sms_consent THEN
+    UPDATE member_consent SET
+      sms_consent = FALSE,
+      sms_opt_out_at = NOW(),
+      sms_opt_out_reason = 'Preference center',
+      updated_at = NOW()
+    WHERE member_id = p_member_id;
+
+    PERFORM log_audit_event(
+      'SMS_OPT_OUT',
+      NULL,
+      NULL,
+      jsonb_build_object(
+        'reason', 'Preference center',
+        'member_ids', jsonb_build_array(p_member_id)
+      )
+    );
+  END IF;
+
+  -- Preferred channel
+  IF p_preferred_channel IS NOT NULL THEN
+    UPDATE member_consent SET
+      preferred_channel = p_preferred_channel,
+      updated_at = NOW()
+    WHERE member_id = p_member_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Members are identified by the signed unsubscribe token, which only the
+-- unsubscribe and sendgrid-webhook Edge Functions (service role) can verify
+REVOKE EXECUTE ON FUNCTION record_email_unsubscribe(VARCHAR, VARCHAR, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_member_preferences(UUID, BOOLEAN, BOOLEAN, VARCHAR) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- Audit Logging
+-- =============================================================================
+
+-- Replaces the 006 version: also logs preferred channel changes
+CREATE OR REPLACE FUNCTION log_consent_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM log_audit_event(
+      'CONSENT_CREATED',
+      NULL,
+      NULL,
+      jsonb_build_object(
+        'member_id', NEW.member_id,
+        'sms_consent', NEW.sms_consent,
+        'email_consent', NEW.email_consent
+      )
+    );
+  ELSIF TG_OP = 'UPDATE' THEN
+    -- Log SMS consent changes
+    IF OLD.sms_consent IS DISTINCT FROM NEW.sms_consent THEN
+      PERFORM log_audit_event(
+        CASE WHEN NEW.sms_consent THEN 'SMS_CONSENT_GRANTED' ELSE 'SMS_CONSENT_REVOKED' END,
+        NULL,
+        NULL,
+        jsonb_build_object('member_id', NEW.member_id)
+      );
+    END IF;
+    -- Log email consent changes
+    IF OLD.email_consent IS DISTINCT FROM NEW.email_consent THEN
+      PERFORM log_audit_event(
+        CASE WHEN NEW.email_consent THEN 'EMAIL_CONSENT_GRANTED' ELSE 'EMAIL_CONSENT_REVOKED' END,
+        NULL,
+        NULL,
+        jsonb_build_object('member_id', NEW.member_id)
+      );
+    END IF;
+    -- Log preferred channel changes
+    IF OLD.preferred_channel IS DISTINCT FROM NEW.preferred_channel THEN
+      PERFORM log_audit_event(
+        'PREFERRED_CHANNEL_CHANGED',
+        NULL,
+        NULL,
+        jsonb_build_object(
+          'member_id', NEW.member_id,
+          'from', OLD.preferred_channel,
+          'to', NEW.preferred_channel
+        )
+      );
+    END IF;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,438 @@
+-- Campaign Variants Migration
+-- A/B testing for campaigns: each campaign can carry several content
+-- variants with split percentages. Recipients are assigned a variant when
+-- the campaign starts and campaign_messages records which one they got, so
+-- provider webhook events count toward that variant. Optionally only a test
+-- share of the audience is sent first; after a delay the variant with the
+-- best open or click rate is sent to everyone else.
+
+-- =============================================================================
+-- Campaign Variants Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS campaign_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+
+  -- Variant content (A, B, C... - A mirrors the campaign's own content)
+  label VARCHAR(10) NOT NULL,
+  subject VARCHAR(255), -- Email only
+  content TEXT NOT NULL,
+
+  -- Share of recipients (or of the test group) that get this variant
+  split_percent INTEGER NOT NULL CHECK (split_percent BETWEEN 1 AND 100),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT campaign_variants_unique_label UNIQUE(campaign_id, label)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_variants_campaign ON campaign_variants(campaign_id);
+
+-- =============================================================================
+-- Test Mode Columns
+-- =============================================================================
+
+-- ab_test_percent NULL = plain split: every recipient gets a variant up front
+ALTER TABLE campaigns
+  ADD COLUMN IF NOT EXISTS ab_test_percent INTEGER
+    CHECK (ab_test_percent BETWEEN 1 AND 99),
+  ADD COLUMN IF NOT EXISTS ab_winner_metric VARCHAR(20) NOT NULL DEFAULT 'open_rate'
+    CHECK (ab_winner_metric IN ('open_rate', 'click_rate')),
+  ADD COLUMN IF NOT EXISTS ab_winner_delay_hours INTEGER NOT NULL DEFAULT 4
+    CHECK (ab_winner_delay_hours BETWEEN 1 AND 168),
+  ADD COLUMN IF NOT EXISTS ab_winner_variant_id UUID
+    REFERENCES campaign_variants(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS ab_winner_selected_at TIMESTAMPTZ;
+
+-- Winners are picked on open/click rate, which only email tracks
+ALTER TABLE campaigns
+  ADD CONSTRAINT campaigns_ab_test_email_only
+    CHECK (ab_test_percent IS NULL OR campaign_type = 'email');
+
+-- Variant each recipient was sent (NULL = campaign content, or still held
+-- back waiting for the test winner)
+ALTER TABLE campaign_messages
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES campaign_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_messages_variant ON campaign_messages(variant_id)
+  WHERE variant_id IS NOT NULL;
+
+-- 'ab_holdout': waiting for the test winner (next_attempt_at = 'infinity'
+-- so the message is never claimed or deferred until a variant is assigned)
+ALTER TABLE campaign_messages
+  DROP CONSTRAINT IF EXISTS campaign_messages_deferred_reason_check;
+
+ALTER TABLE campaign_messages
+  ADD CONSTRAINT campaign_messages_deferred_reason_check
+    CHECK (deferred_reason IN ('local_time', 'quiet_hours', 'ab_holdout'));
+
+-- =============================================================================
+-- Row Level Security Policies
+-- =============================================================================
+
+ALTER TABLE campaign_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage variants for own campaigns"
+  ON campaign_variants FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM campaigns
+      WHERE campaigns.id = campaign_variants.campaign_id
+      AND campaigns.user_id = auth.uid()
+    )
+  );
+
+-- =============================================================================
+-- Triggers
+-- =============================================================================
+
+CREATE TRIGGER trigger_campaign_variants_updated_at
+  BEFORE UPDATE ON campaign_variants
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- Campaign Scheduling
+-- =============================================================================
+
+-- Function: Start a scheduled campaign
+-- Replaces the 013 version: recipients are shuffled and assigned a variant
+-- by split_percent. In test mode only the first ab_test_percent of the
+-- shuffled recipients get a variant; the rest are held as 'ab_holdout'
+-- until select_ab_test_winner() releases them.
+CREATE OR REPLACE FUNCTION start_campaign(p_campaign_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_campaign RECORD;
+  v_total INTEGER;
+BEGIN
+  SELECT * INTO v_campaign
+  FROM campaigns
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF v_campaign IS NULL OR v_campaign.status != 'scheduled' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO campaign_messages (
+    campaign_id,
+    member_id,
+    channel,
+    recipient_address,
+    status
+  )
+  SELECT
+    p_campaign_id,
+    r.member_id,
+    v_campaign.campaign_type,
+    CASE WHEN v_campaign.campaign_type = 'sms' THEN r.phone ELSE r.email END,
+    'queued'
+  FROM get_campaign_recipients(p_campaign_id) r
+  ON CONFLICT (campaign_id, member_id) DO NOTHING;
+
+  IF EXISTS (SELECT 1 FROM campaign_variants WHERE campaign_id = p_campaign_id) THEN
+    WITH variants AS (
+      -- Cumulative split boundaries, normalized by the split total
+      SELECT
+        id,
+        SUM(split_percent) OVER (ORDER BY label) AS upper_bound,
+        SUM(split_percent) OVER () AS split_total
+      FROM campaign_variants
+      WHERE campaign_id = p_campaign_id
+    ),
+    shuffled AS (
+      -- Position of each recipient in a random order, 0 to < 100
+      SELECT
+        id,
+        (ROW_NUMBER() OVER (ORDER BY random()) - 1)::NUMERIC
+          / COUNT(*) OVER () * 100 AS position
+      FROM campaign_messages
+      WHERE campaign_id = p_campaign_id
+        AND status = 'queued'
+        AND variant_id IS NULL
+    ),
+    assigned AS (
+      SELECT
+        s.id,
+        CASE
+          WHEN v_campaign.ab_test_percent IS NULL OR s.position < v_campaign.ab_test_percent THEN (
+            SELECT v.id FROM variants v
+            WHERE v.upper_bound >
+              s.position / COALESCE(v_campaign.ab_test_percent, 100) * v.split_total
+            ORDER BY v.upper_bound
+            LIMIT 1
+          )
+        END AS variant_id
+      FROM shuffled s
+    )
+    UPDATE campaign_messages cm SET
+      variant_id = a.variant_id,
+      deferred_reason = CASE WHEN a.variant_id IS NULL THEN 'ab_holdout' END,
+      next_attempt_at = CASE WHEN a.variant_id IS NULL THEN 'infinity'::TIMESTAMPTZ END
+    FROM assigned a
+    WHERE cm.id = a.id;
+  END IF;
+
+  IF v_campaign.local_send_time IS NOT NULL THEN
+    UPDATE campaign_messages cm SET
+      next_attempt_at = next_local_time(
+        v_campaign.local_send_time,
+        COALESCE(s.timezone, 'America/New_York'),
+        COALESCE(v_campaign.scheduled_at, NOW())
+      ),
+      deferred_reason = 'local_time'
+    FROM members m
+    LEFT JOIN sites s ON s.id = m.site_id
+    WHERE cm.campaign_id = p_campaign_id
+      AND cm.status = 'queued'
+      AND cm.deferred_reason IS DISTINCT FROM 'ab_holdout'
+      AND m.id = cm.member_id;
+  END IF;
+
+  SELECT COUNT(*) INTO v_total
+  FROM campaign_messages
+  WHERE campaign_id = p_campaign_id;
+
+  UPDATE campaigns SET
+    status = 'sending',
+    started_at = NOW(),
+    total_recipients = v_total
+  WHERE id = p_campaign_id;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Summary of deferred messages for the campaign detail page
+-- Replaces the 013 version: messages held for the A/B test report the time
+-- the winner is due to be selected.
+CREATE OR REPLACE FUNCTION get_campaign_deferred_stats(p_campaign_id UUID)
+RETURNS TABLE (
+  deferred_reason VARCHAR,
+  message_count INTEGER,
+  next_send_at TIMESTAMPTZ,
+  last_send_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM campaigns WHERE id = p_campaign_id AND user_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.deferred_reason,
+    COUNT(*)::INTEGER,
+    MIN(d.send_at),
+    MAX(d.send_at)
+  FROM (
+    SELECT
+      cm.deferred_reason,
+      CASE
+        WHEN cm.deferred_reason = 'ab_holdout'
+          THEN get_ab_winner_due_at(c.id)
+        ELSE cm.next_attempt_at
+      END AS send_at
+    FROM campaign_messages cm
+    INNER JOIN campaigns c ON c.id = cm.campaign_id
+    WHERE cm.campaign_id = p_campaign_id
+      AND cm.status = 'queued'
+      AND cm.deferred_reason IS NOT NULL
+      AND cm.next_attempt_at > NOW()
+  ) d
+  GROUP BY d.deferred_reason;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =============================================================================
+-- Variant Metrics
+-- =============================================================================
+
+-- Function: Per-variant metrics, computed from the messages each variant
+-- was sent. Open and click rates are per delivered message so variants can
+-- be compared directly (the campaign-level click rate is per open).
+CREATE OR REPLACE FUNCTION get_campaign_variant_metrics(p_campaign_id UUID)
+RETURNS TABLE (
+  variant_id UUID,
+  label VARCHAR,
+  subject VARCHAR,
+  split_percent INTEGER,
+  is_winner BOOLEAN,
+  total_recipients INTEGER,
+  total_sent INTEGER,
+  total_delivered INTEGER,
+  total_failed INTEGER,
+  total_opened INTEGER,
+  total_clicked INTEGER,
+  total_bounced INTEGER,
+  delivery_rate NUMERIC,
+  open_rate NUMERIC,
+  click_rate NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.label,
+    s.subject,
+    s.split_percent,
+    s.is_winner,
+    s.recipients::INTEGER,
+    s.sent::INTEGER,
+    s.delivered::INTEGER,
+    s.failed::INTEGER,
+    s.opened::INTEGER,
+    s.clicked::INTEGER,
+    s.bounced::INTEGER,
+    CASE WHEN s.sent > 0
+      THEN ROUND((s.delivered::NUMERIC / s.sent) * 100, 2)
+      ELSE 0
+    END,
+    CASE WHEN s.delivered > 0
+      THEN ROUND((s.opened::NUMERIC / s.delivered) * 100, 2)
+      ELSE 0
+    END,
+    CASE WHEN s.delivered > 0
+      THEN ROUND((s.clicked::NUMERIC / s.delivered) * 100, 2)
+      ELSE 0
+    END
+  FROM (
+    SELECT
+      v.id,
+      v.label,
+      v.subject,
+      v.split_percent,
+      v.id IS NOT DISTINCT FROM c.ab_winner_variant_id AS is_winner,
+      COUNT(cm.id) AS recipients,
+      COUNT(cm.sent_at) AS sent,
+      COUNT(cm.id) FILTER (WHERE cm.status IN ('delivered', 'opened', 'clicked')) AS delivered,
+      COUNT(cm.id) FILTER (WHERE cm.status = 'failed') AS failed,
+      COUNT(cm.opened_at) AS opened,
+      COUNT(cm.clicked_at) AS clicked,
+      COUNT(cm.id) FILTER (WHERE cm.status = 'bounced') AS bounced
+    FROM campaign_variants v
+    INNER JOIN campaigns c ON c.id = v.campaign_id
+    LEFT JOIN campaign_messages cm ON cm.variant_id = v.id
+    WHERE v.campaign_id = p_campaign_id
+    GROUP BY v.id, c.ab_winner_variant_id
+  ) s
+  ORDER BY s.label;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =============================================================================
+-- Winner Selection
+-- =============================================================================
+
+-- Function: When an A/B test's winner is due: ab_winner_delay_hours after
+-- the last test message is sent. Test messages still queued (e.g. waiting
+-- for the campaign's local send time) count from when they are due, so the
+-- result moves later until the whole test group has been sent.
+CREATE OR REPLACE FUNCTION get_ab_winner_due_at(p_campaign_id UUID)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT GREATEST(
+    c.started_at,
+    (
+      SELECT MAX(
+        CASE WHEN cm.status = 'queued'
+          THEN GREATEST(COALESCE(cm.next_attempt_at, NOW()), NOW())
+          ELSE cm.sent_at
+        END
+      )
+      FROM campaign_messages cm
+      WHERE cm.campaign_id = c.id
+        AND cm.variant_id IS NOT NULL
+    )
+  ) + make_interval(hours => c.ab_winner_delay_hours)
+  FROM campaigns c
+  WHERE c.id = p_campaign_id;
+$$ LANGUAGE sql STABLE;
+
+-- Function: Pick the A/B test winner once the test window has passed
+-- Called by the process-campaign worker on every run. When the campaign is
+-- in test mode, has no winner yet and ab_winner_delay_hours have passed
+-- since the test group was sent (get_ab_winner_due_at), the variant with
+-- the best ab_winner_metric (ties go to the variant with more deliveries,
+-- then the earlier label) is recorded and every held-back message is
+-- assigned to it (at the campaign's local send time, when set). Returns the
+-- winning variant ID, or NULL if no winner has been selected.
+CREATE OR REPLACE FUNCTION select_ab_test_winner(p_campaign_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_campaign RECORD;
+  v_winner RECORD;
+  v_released INTEGER;
+BEGIN
+  SELECT * INTO v_campaign
+  FROM campaigns
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF v_campaign IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_campaign.ab_winner_variant_id IS NOT NULL
+    OR v_campaign.ab_test_percent IS NULL
+    OR v_campaign.status != 'sending'
+    OR get_ab_winner_due_at(p_campaign_id) > NOW()
+  THEN
+    RETURN v_campaign.ab_winner_variant_id;
+  END IF;
+
+  SELECT * INTO v_winner
+  FROM get_campaign_variant_metrics(p_campaign_id) m
+  ORDER BY
+    CASE WHEN v_campaign.ab_winner_metric = 'click_rate' THEN m.click_rate ELSE m.open_rate END DESC,
+    m.total_delivered DESC,
+    m.label
+  LIMIT 1;
+
+  IF v_winner IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE campaigns SET
+    ab_winner_variant_id = v_winner.variant_id,
+    ab_winner_selected_at = NOW()
+  WHERE id = p_campaign_id;
+
+  UPDATE campaign_messages cm SET
+    variant_id = v_winner.variant_id,
+    next_attempt_at = CASE WHEN v_campaign.local_send_time IS NOT NULL
+      THEN next_local_time(v_campaign.local_send_time, COALESCE(s.timezone, 'America/New_York'))
+    END,
+    deferred_reason = CASE WHEN v_campaign.local_send_time IS NOT NULL THEN 'local_time' END
+  FROM members m
+  LEFT JOIN sites s ON s.id = m.site_id
+  WHERE cm.campaign_id = p_campaign_id
+    AND cm.status = 'queued'
+    AND cm.deferred_reason = 'ab_holdout'
+    AND m.id = cm.member_id;
+
+  GET DIAGNOSTICS v_released = ROW_COUNT;
+
+  PERFORM log_audit_event(
+    'CAMPAIGN_AB_WINNER_SELECTED',
+    NULL,
+    NULL,
+    jsonb_build_object(
+      'campaign_id', p_campaign_id,
+      'variant_id', v_winner.variant_id,
+      'label', v_winner.label,
+      'metric', v_campaign.ab_winner_metric,
+      'open_rate', v_winner.open_rate,
+      'click_rate', v_winner.click_rate,
+      'released_messages', v_released
+    )
+  );
+
+  RETURN v_winner.variant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Winners are only picked by process-campaign (service role)
+REVOKE EXECUTE ON FUNCTION select_ab_test_winner(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,264 @@
+-- Automation Executor Migration
+-- Scheduling and targeting for time-based automation triggers, used by the
+-- run-automations Edge Function. Trigger and action configs are stored as
+-- the client's camelCase TriggerConfig / ActionConfig objects
+-- (e.g. { "daysBefore": 7 }, { "days": 30 }, { "date": "2024-12-25", "time": "09:00" }).
+
+-- =============================================================================
+-- Scheduling
+-- =============================================================================
+
+-- Function: Next run of a trigger after p_after
+-- - 'scheduled': the configured date/time in the trigger timezone, once
+-- - other time-based types: the next run_time (trigger timezone) that falls
+--   on one of days_of_week (0 = Sunday)
+-- - event-based types: NULL (fired by data changes, not the schedule)
+CREATE OR REPLACE FUNCTION get_automation_next_run(
+  p_trigger_type VARCHAR,
+  p_trigger_config JSONB,
+  p_run_time TIME,
+  p_timezone VARCHAR,
+  p_days_of_week INTEGER[],
+  p_after TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_timezone VARCHAR := COALESCE(p_timezone, 'America/New_York');
+  v_next TIMESTAMPTZ;
+BEGIN
+  IF p_trigger_type = 'scheduled' THEN
+    IF p_trigger_config->>'date' IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    v_next := (
+      (p_trigger_config->>'date')::DATE
+      + COALESCE((p_trigger_config->>'time')::TIME, p_run_time, '09:00')
+    ) AT TIME ZONE v_timezone;
+
+    RETURN CASE WHEN v_next > p_after THEN v_next END;
+  END IF;
+
+  IF p_trigger_type NOT IN (
+    'birthday',
+    'membership_anniversary',
+    'days_since_visit',
+    'days_since_transaction',
+    'membership_expiring'
+  ) OR COALESCE(array_length(p_days_of_week, 1), 0) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_next := next_local_time(COALESCE(p_run_time, '09:00'), v_timezone, p_after);
+
+  -- At most a week ahead to reach an allowed weekday
+  FOR i IN 1..7 LOOP
+    EXIT WHEN EXTRACT(DOW FROM v_next AT TIME ZONE v_timezone)::INTEGER = ANY(p_days_of_week);
+    v_next := next_local_time(
+      COALESCE(p_run_time, '09:00'),
+      v_timezone,
+      v_next + INTERVAL '1 minute'
+    );
+  END LOOP;
+
+  RETURN v_next;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function: Keep next_run_at in step with the trigger's schedule
+CREATE OR REPLACE FUNCTION set_automation_next_run()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.is_active THEN
+    NEW.next_run_at := NULL;
+  ELSIF TG_OP = 'INSERT'
+    OR NOT OLD.is_active
+    OR NEW.trigger_type IS DISTINCT FROM OLD.trigger_type
+    OR NEW.trigger_config IS DISTINCT FROM OLD.trigger_config
+    OR NEW.run_time IS DISTINCT FROM OLD.run_time
+    OR NEW.timezone IS DISTINCT FROM OLD.timezone
+    OR NEW.days_of_week IS DISTINCT FROM OLD.days_of_week
+  THEN
+    NEW.next_run_at := get_automation_next_run(
+      NEW.trigger_type,
+      NEW.trigger_config,
+      NEW.run_time,
+      NEW.timezone,
+      NEW.days_of_week
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_automation_triggers_next_run
+  BEFORE INSERT OR UPDATE ON automation_triggers
+  FOR EACH ROW EXECUTE FUNCTION set_automation_next_run();
+
+-- Backfill triggers created before the executor existed
+UPDATE automation_triggers SET
+  next_run_at = get_automation_next_run(trigger_type, trigger_config, run_time, timezone, days_of_week)
+WHERE is_active = TRUE;
+
+-- Function: Claim a due trigger run
+-- Advances next_run_at and sets last_run_at in one statement, so a trigger
+-- is run once per scheduled time even with overlapping executor runs.
+-- Returns FALSE if the trigger is not due (or another run claimed it).
+CREATE OR REPLACE FUNCTION claim_automation_run(p_trigger_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_claimed BOOLEAN;
+BEGIN
+  UPDATE automation_triggers SET
+    last_run_at = NOW(),
+    next_run_at = get_automation_next_run(
+      trigger_type,
+      trigger_config,
+      run_time,
+      timezone,
+      days_of_week
+    )
+  WHERE id = p_trigger_id
+    AND is_active = TRUE
+    AND next_run_at <= NOW()
+  RETURNING TRUE INTO v_claimed;
+
+  RETURN COALESCE(v_claimed, FALSE);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Runs are only claimed by run-automations (service role)
+REVOKE EXECUTE ON FUNCTION claim_automation_run(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- Targeting
+-- =============================================================================
+
+-- Function: Members a time-based trigger targets as of p_as_of
+-- Applies the trigger condition on top of get_trigger_eligible_members()
+-- (filters, consent, min_interval_days, max_sends_per_member). Dates are
+-- evaluated in the trigger timezone, and a member is targeted at most once
+-- per local day, so an interrupted run can be resumed without double sends.
+-- - birthday / membership_anniversary: date falls daysBefore days from today
+--   (Feb 29 dates match Feb 28 in non-leap years)
+-- - days_since_visit / days_since_transaction: at least `days` days since
+--   the last visit / transaction, once per lapse
+-- - membership_expiring: expires within daysBefore days, once per expiry date
+-- - scheduled: every eligible member
+CREATE OR REPLACE FUNCTION get_automation_targets(
+  p_trigger_id UUID,
+  p_as_of TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TABLE (
+  member_id UUID,
+  first_name VARCHAR(100),
+  last_name VARCHAR(100),
+  email VARCHAR(255),
+  phone VARCHAR(20),
+  site_id UUID,
+  site_timezone VARCHAR(50)
+) AS $$
+DECLARE
+  v_trigger RECORD;
+  v_today DATE;
+  v_target_date DATE;
+  v_days INTEGER;
+BEGIN
+  SELECT * INTO v_trigger FROM automation_triggers WHERE id = p_trigger_id;
+
+  IF v_trigger IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_today := (p_as_of AT TIME ZONE COALESCE(v_trigger.timezone, 'America/New_York'))::DATE;
+  v_days := COALESCE(
+    (v_trigger.trigger_config->>'daysBefore')::INTEGER,
+    (v_trigger.trigger_config->>'days')::INTEGER,
+    0
+  );
+  v_target_date := v_today + v_days;
+
+  RETURN QUERY
+  SELECT e.*
+  FROM get_trigger_eligible_members(p_trigger_id) e
+  INNER JOIN members m ON m.id = e.member_id
+  WHERE NOT EXISTS (
+    SELECT 1 FROM automation_executions ae
+    WHERE ae.trigger_id = p_trigger_id
+      AND ae.member_id = m.id
+      AND ae.executed_at >= v_today::TIMESTAMP AT TIME ZONE COALESCE(v_trigger.timezone, 'America/New_York')
+  )
+  AND CASE v_trigger.trigger_type
+    WHEN 'birthday' THEN
+      m.date_of_birth IS NOT NULL
+      AND (
+        to_char(m.date_of_birth, 'MM-DD') = to_char(v_target_date, 'MM-DD')
+        OR (
+          to_char(m.date_of_birth, 'MM-DD') = '02-29'
+          AND to_char(v_target_date, 'MM-DD') = '02-28'
+          AND to_char(v_target_date + 1, 'MM-DD') = '03-01'
+        )
+      )
+
+    WHEN 'membership_anniversary' THEN
+      m.membership_start_date IS NOT NULL
+      AND EXTRACT(YEAR FROM m.membership_start_date) < EXTRACT(YEAR FROM v_target_date)
+      AND (
+        to_char(m.membership_start_date, 'MM-DD') = to_char(v_target_date, 'MM-DD')
+        OR (
+          to_char(m.membership_start_date, 'MM-DD') = '02-29'
+          AND to_char(v_target_date, 'MM-DD') = '02-28'
+          AND to_char(v_target_date + 1, 'MM-DD') = '03-01'
+        )
+      )
+
+    WHEN 'days_since_visit' THEN
+      m.last_visit_at IS NOT NULL
+      AND (m.last_visit_at AT TIME ZONE COALESCE(v_trigger.timezone, 'America/New_York'))::DATE
+        <= v_today - v_days
+      AND NOT EXISTS (
+        SELECT 1 FROM automation_executions ae
+        WHERE ae.trigger_id = p_trigger_id
+          AND ae.member_id = m.id
+          AND ae.executed_at > m.last_visit_at
+      )
+
+    WHEN 'days_since_transaction' THEN
+      EXISTS (
+        SELECT 1
+        FROM (
+          SELECT MAX(mt.transaction_date) AS last_transaction_at
+          FROM member_transactions mt
+          WHERE mt.member_id = m.id
+        ) lt
+        WHERE lt.last_transaction_at IS NOT NULL
+          AND (lt.last_transaction_at AT TIME ZONE COALESCE(v_trigger.timezone, 'America/New_York'))::DATE
+            <= v_today - v_days
+          AND NOT EXISTS (
+            SELECT 1 FROM automation_executions ae
+            WHERE ae.trigger_id = p_trigger_id
+              AND ae.member_id = m.id
+              AND ae.executed_at > lt.last_transaction_at
+          )
+      )
+
+    WHEN 'membership_expiring' THEN
+      m.membership_expiry_date BETWEEN v_today AND v_target_date
+      AND NOT EXISTS (
+        SELECT 1 FROM automation_executions ae
+        WHERE ae.trigger_id = p_trigger_id
+          AND ae.member_id = m.id
+          AND ae.executed_at >= m.membership_expiry_date - (v_days + 1)
+      )
+
+    WHEN 'scheduled' THEN TRUE
+
+    ELSE FALSE
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Targets are only read by run-automations (service role); they include
+-- members of any trigger
+REVOKE EXECUTE ON FUNCTION get_automation_targets(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
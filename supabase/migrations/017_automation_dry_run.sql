@@ -0,0 +1,81 @@
+-- Automation Dry Run Migration
+-- Lets inactive automations be previewed: a dry run (run-automations with
+-- dryRun) lists the members a trigger would target today without sending.
+
+-- =============================================================================
+-- Eligibility
+-- =============================================================================
+
+-- Function: Get members eligible for a trigger
+-- Replaces the 006 version: no longer requires the trigger to be active, so
+-- an automation can be previewed before it is switched on. The executor only
+-- claims active triggers (claim_automation_run).
+CREATE OR REPLACE FUNCTION get_trigger_eligible_members(p_trigger_id UUID)
+RETURNS TABLE (
+  member_id UUID,
+  first_name VARCHAR(100),
+  last_name VARCHAR(100),
+  email VARCHAR(255),
+  phone VARCHAR(20),
+  site_id UUID,
+  site_timezone VARCHAR(50)
+) AS $$
+DECLARE
+  v_trigger RECORD;
+BEGIN
+  -- Get trigger configuration
+  SELECT * INTO v_trigger
+  FROM automation_triggers
+  WHERE id = p_trigger_id;
+
+  IF v_trigger IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Return eligible members based on trigger type
+  RETURN QUERY
+  SELECT
+    m.id AS member_id,
+    m.first_name,
+    m.last_name,
+    m.email,
+    m.phone,
+    m.site_id,
+    s.timezone AS site_timezone
+  FROM members m
+  INNER JOIN sites s ON m.site_id = s.id
+  LEFT JOIN member_consent mc ON m.id = mc.member_id
+  WHERE m.user_id = v_trigger.user_id
+    AND m.is_active = TRUE
+    AND (v_trigger.site_id IS NULL OR m.site_id = v_trigger.site_id)
+    AND (v_trigger.membership_level_ids IS NULL OR m.membership_level_id = ANY(v_trigger.membership_level_ids))
+    AND (v_trigger.membership_statuses IS NULL OR m.membership_status = ANY(v_trigger.membership_statuses))
+    AND (v_trigger.required_tags IS NULL OR m.tags @> v_trigger.required_tags)
+    AND (v_trigger.excluded_tags IS NULL OR NOT (m.tags && v_trigger.excluded_tags))
+    -- Check consent based on action type
+    AND (
+      (v_trigger.action_type != 'send_sms' OR (mc.sms_consent = TRUE AND mc.sms_opt_out_at IS NULL))
+      AND (v_trigger.action_type != 'send_email' OR (mc.email_consent = TRUE AND mc.email_unsubscribed_at IS NULL))
+    )
+    -- Check do not contact
+    AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE)
+    -- Check min interval
+    AND (
+      v_trigger.min_interval_days = 0
+      OR NOT EXISTS (
+        SELECT 1 FROM automation_executions ae
+        WHERE ae.trigger_id = p_trigger_id
+          AND ae.member_id = m.id
+          AND ae.executed_at > NOW() - (v_trigger.min_interval_days || ' days')::INTERVAL
+      )
+    )
+    -- Check max sends
+    AND (
+      v_trigger.max_sends_per_member IS NULL
+      OR (
+        SELECT COUNT(*) FROM automation_executions ae
+        WHERE ae.trigger_id = p_trigger_id AND ae.member_id = m.id
+      ) < v_trigger.max_sends_per_member
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
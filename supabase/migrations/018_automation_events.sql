@@ -0,0 +1,241 @@
+-- Automation Events Migration
+-- Event-based automation triggers (new_member, member_status_change,
+-- tag_added, tag_removed, visit_milestone, ltv_milestone) fire from member
+-- changes instead of the schedule. A trigger on members enqueues an
+-- automation_events row per matching automation; run-automations claims due
+-- events and performs the action.
+
+-- =============================================================================
+-- Automation Events Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS automation_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger_id UUID NOT NULL REFERENCES automation_triggers(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+
+  -- What happened (the trigger type) and its details,
+  -- e.g. { "fromStatus": "active", "toStatus": "expired" } or { "threshold": 10 }
+  event_type VARCHAR(50) NOT NULL,
+  event_data JSONB DEFAULT '{}',
+
+  -- Milestone events carry a key ('visits:10', 'ltv:500') that is unique
+  -- per trigger and member, so each threshold fires once
+  event_key VARCHAR(100),
+
+  -- Processing
+  process_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'processed', 'skipped')),
+  claimed_at TIMESTAMPTZ,
+  processed_at TIMESTAMPTZ,
+  result_message TEXT,
+  execution_id UUID REFERENCES automation_executions(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_automation_events_once
+  ON automation_events(trigger_id, member_id, event_key)
+  WHERE event_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_automation_events_due
+  ON automation_events(process_after)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_automation_events_trigger ON automation_events(trigger_id);
+CREATE INDEX IF NOT EXISTS idx_automation_events_member ON automation_events(member_id);
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE automation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view events for own triggers"
+  ON automation_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM automation_triggers
+      WHERE automation_triggers.id = automation_events.trigger_id
+      AND automation_triggers.user_id = auth.uid()
+    )
+  );
+
+-- =============================================================================
+-- Event Capture
+-- =============================================================================
+
+-- Function: Enqueue automation events for a member change
+-- Covers direct edits (status, addTags / removeTags) as well as the stats
+-- written by update_member_stats() and update_member_visit_stats().
+-- - new_member: on insert, processed after delayHours. Members created by
+--   an import (source_import_id set) only count with includeImported.
+-- - member_status_change: status changed (to toStatus, if set)
+-- - tag_added / tag_removed: the configured tag was added / removed
+-- - visit_milestone / ltv_milestone: total_visits / lifetime_value reached
+--   a configured threshold it was below before. Stats a member is created
+--   with (e.g. imported history) do not count as reaching a milestone.
+CREATE OR REPLACE FUNCTION enqueue_member_automation_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_trigger RECORD;
+  v_config JSONB;
+BEGIN
+  IF NOT COALESCE(NEW.is_active, TRUE) THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_trigger IN
+    SELECT id, trigger_type, trigger_config
+    FROM automation_triggers
+    WHERE user_id = NEW.user_id
+      AND is_active = TRUE
+      AND (site_id IS NULL OR site_id = NEW.site_id)
+      AND trigger_type IN (
+        'new_member',
+        'member_status_change',
+        'tag_added',
+        'tag_removed',
+        'visit_milestone',
+        'ltv_milestone'
+      )
+  LOOP
+    v_config := COALESCE(v_trigger.trigger_config, '{}'::JSONB);
+
+    IF TG_OP = 'INSERT' THEN
+      IF v_trigger.trigger_type = 'new_member'
+        AND (NEW.source_import_id IS NULL OR COALESCE((v_config->>'includeImported')::BOOLEAN, FALSE))
+      THEN
+        INSERT INTO automation_events (trigger_id, member_id, event_type, process_after)
+        VALUES (
+          v_trigger.id,
+          NEW.id,
+          'new_member',
+          NOW() + make_interval(hours => COALESCE((v_config->>'delayHours')::INTEGER, 0))
+        );
+      END IF;
+
+      CONTINUE;
+    END IF;
+
+    CASE v_trigger.trigger_type
+      WHEN 'member_status_change' THEN
+        IF NEW.membership_status IS DISTINCT FROM OLD.membership_status
+          AND (v_config->>'toStatus' IS NULL OR v_config->>'toStatus' = NEW.membership_status)
+        THEN
+          INSERT INTO automation_events (trigger_id, member_id, event_type, event_data)
+          VALUES (
+            v_trigger.id,
+            NEW.id,
+            'member_status_change',
+            jsonb_build_object('fromStatus', OLD.membership_status, 'toStatus', NEW.membership_status)
+          );
+        END IF;
+
+      WHEN 'tag_added' THEN
+        IF v_config->>'tag' = ANY(COALESCE(NEW.tags, '{}'))
+          AND NOT v_config->>'tag' = ANY(COALESCE(OLD.tags, '{}'))
+        THEN
+          INSERT INTO automation_events (trigger_id, member_id, event_type, event_data)
+          VALUES (v_trigger.id, NEW.id, 'tag_added', jsonb_build_object('tag', v_config->>'tag'));
+        END IF;
+
+      WHEN 'tag_removed' THEN
+        IF v_config->>'tag' = ANY(COALESCE(OLD.tags, '{}'))
+          AND NOT v_config->>'tag' = ANY(COALESCE(NEW.tags, '{}'))
+        THEN
+          INSERT INTO automation_events (trigger_id, member_id, event_type, event_data)
+          VALUES (v_trigger.id, NEW.id, 'tag_removed', jsonb_build_object('tag', v_config->>'tag'));
+        END IF;
+
+      WHEN 'visit_milestone' THEN
+        INSERT INTO automation_events (trigger_id, member_id, event_type, event_data, event_key)
+        SELECT v_trigger.id, NEW.id, 'visit_milestone',
+          jsonb_build_object('threshold', t.threshold),
+          'visits:' || t.threshold
+        FROM jsonb_array_elements_text(COALESCE(v_config->'counts', '[]'::JSONB)) AS t(threshold)
+        WHERE t.threshold::NUMERIC > COALESCE(OLD.total_visits, 0)
+          AND t.threshold::NUMERIC <= COALESCE(NEW.total_visits, 0)
+        ON CONFLICT (trigger_id, member_id, event_key) WHERE event_key IS NOT NULL DO NOTHING;
+
+      WHEN 'ltv_milestone' THEN
+        INSERT INTO automation_events (trigger_id, member_id, event_type, event_data, event_key)
+        SELECT v_trigger.id, NEW.id, 'ltv_milestone',
+          jsonb_build_object('threshold', t.threshold),
+          'ltv:' || t.threshold
+        FROM jsonb_array_elements_text(COALESCE(v_config->'amounts', '[]'::JSONB)) AS t(threshold)
+        WHERE t.threshold::NUMERIC > COALESCE(OLD.lifetime_value, 0)
+          AND t.threshold::NUMERIC <= COALESCE(NEW.lifetime_value, 0)
+        ON CONFLICT (trigger_id, member_id, event_key) WHERE event_key IS NOT NULL DO NOTHING;
+
+      ELSE
+        NULL;
+    END CASE;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trigger_member_automation_events
+  AFTER INSERT OR UPDATE OF membership_status, tags, total_visits, lifetime_value
+  ON members
+  FOR EACH ROW EXECUTE FUNCTION enqueue_member_automation_events();
+
+-- =============================================================================
+-- Event Processing
+-- =============================================================================
+
+-- Function: Claim due automation events for run-automations
+-- Events of paused automations are skipped rather than held, so resuming an
+-- automation does not replay old changes. A claim abandoned by a failed run
+-- is taken over after 15 minutes, unless its action was already started
+-- (execution_id set), in which case it is closed so nothing is sent twice.
+CREATE OR REPLACE FUNCTION claim_automation_events(
+  p_limit INTEGER DEFAULT 100,
+  p_user_id UUID DEFAULT NULL,
+  p_trigger_id UUID DEFAULT NULL
+)
+RETURNS SETOF automation_events AS $$
+BEGIN
+  UPDATE automation_events e SET
+    status = 'skipped',
+    processed_at = NOW(),
+    result_message = 'Automation was paused'
+  FROM automation_triggers t
+  WHERE t.id = e.trigger_id
+    AND e.status = 'pending'
+    AND t.is_active = FALSE;
+
+  UPDATE automation_events SET
+    status = 'processed',
+    processed_at = NOW()
+  WHERE status = 'processing'
+    AND execution_id IS NOT NULL
+    AND claimed_at < NOW() - INTERVAL '15 minutes';
+
+  RETURN QUERY
+  UPDATE automation_events SET
+    status = 'processing',
+    claimed_at = NOW()
+  WHERE id IN (
+    SELECT e.id
+    FROM automation_events e
+    INNER JOIN automation_triggers t ON t.id = e.trigger_id
+    WHERE e.process_after <= NOW()
+      AND t.is_active = TRUE
+      AND (p_user_id IS NULL OR t.user_id = p_user_id)
+      AND (p_trigger_id IS NULL OR e.trigger_id = p_trigger_id)
+      AND (
+        e.status = 'pending'
+        OR (e.status = 'processing' AND e.claimed_at < NOW() - INTERVAL '15 minutes')
+      )
+    ORDER BY e.process_after
+    LIMIT p_limit
+    FOR UPDATE OF e SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Events are only claimed by run-automations (service role)
+REVOKE EXECUTE ON FUNCTION claim_automation_events(INTEGER, UUID, UUID) FROM PUBLIC, anon, authenticated;
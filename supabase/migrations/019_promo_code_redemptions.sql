@@ -0,0 +1,278 @@
+-- Promo Code Redemptions Migration
+-- Redeeming promo codes against members and transactions, bulk generation
+-- of single-use codes, and redemption / CAC reporting. Redemptions are
+-- recorded where the data already lives: member_transactions.promo_code and
+-- members.acquisition_promo_code (plus acquisition_campaign_id and
+-- acquisition_cost taken from the code).
+
+-- =============================================================================
+-- Redemption
+-- =============================================================================
+
+-- Function: Redeem a promo code for a member
+-- Validates the code (validate_promo_code) while holding a row lock, so
+-- max_uses holds under concurrent redemptions, then counts the use.
+-- - p_transaction_id: tag this member transaction with the code (and the
+--   code's campaign, if the transaction has none)
+-- - p_attribute_acquisition: attribute the member's acquisition to the
+--   code, its campaign and cost, unless already attributed to a code
+CREATE OR REPLACE FUNCTION redeem_promo_code(
+  p_code VARCHAR,
+  p_member_id UUID,
+  p_transaction_id UUID DEFAULT NULL,
+  p_attribute_acquisition BOOLEAN DEFAULT TRUE
+)
+RETURNS TABLE (
+  is_valid BOOLEAN,
+  promo_code_id UUID,
+  acquisition_cost NUMERIC(10, 2),
+  campaign_id UUID,
+  message TEXT
+) AS $$
+DECLARE
+  v_member RECORD;
+  v_promo RECORD;
+  v_result RECORD;
+BEGIN
+  SELECT id, user_id, site_id, acquisition_promo_code INTO v_member
+  FROM members
+  WHERE id = p_member_id;
+
+  IF v_member IS NULL OR v_member.user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT FALSE, NULL::UUID, NULL::NUMERIC, NULL::UUID, 'Member not found'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lock the code so concurrent redemptions see each other's uses
+  SELECT * INTO v_promo
+  FROM promo_codes pc
+  WHERE pc.user_id = v_member.user_id
+    AND UPPER(pc.code) = UPPER(p_code)
+    AND (pc.site_id IS NULL OR pc.site_id = v_member.site_id)
+  FOR UPDATE;
+
+  SELECT * INTO v_result
+  FROM validate_promo_code(p_code, v_member.user_id, v_member.site_id);
+
+  IF NOT v_result.is_valid THEN
+    RETURN QUERY SELECT v_result.is_valid, v_result.promo_code_id, v_result.acquisition_cost,
+      v_result.campaign_id, v_result.message;
+    RETURN;
+  END IF;
+
+  PERFORM use_promo_code(v_promo.id);
+
+  IF p_transaction_id IS NOT NULL THEN
+    UPDATE member_transactions mt SET
+      promo_code = v_promo.code,
+      campaign_id = COALESCE(mt.campaign_id, v_promo.campaign_id),
+      updated_at = NOW()
+    WHERE mt.id = p_transaction_id
+      AND mt.member_id = p_member_id;
+  END IF;
+
+  IF p_attribute_acquisition AND v_member.acquisition_promo_code IS NULL THEN
+    UPDATE members m SET
+      acquisition_source = 'promo_code',
+      acquisition_promo_code = v_promo.code,
+      acquisition_campaign_id = COALESCE(v_promo.campaign_id, m.acquisition_campaign_id),
+      acquisition_cost = COALESCE(v_promo.acquisition_cost, m.acquisition_cost)
+    WHERE m.id = p_member_id;
+  END IF;
+
+  PERFORM log_audit_event(
+    'PROMO_CODE_REDEEMED',
+    NULL,
+    NULL,
+    jsonb_build_object(
+      'promo_code_id', v_promo.id,
+      'code', v_promo.code,
+      'member_id', p_member_id,
+      'transaction_id', p_transaction_id
+    )
+  );
+
+  RETURN QUERY SELECT TRUE, v_promo.id, v_promo.acquisition_cost, v_promo.campaign_id, 'Redeemed'::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- Bulk Generation
+-- =============================================================================
+
+-- Function: Generate unique single-use promo codes
+-- Codes are p_prefix followed by 8 random hex characters (e.g. SPRING-3F9A1C07).
+-- Collisions with existing codes are retried, so exactly p_count codes
+-- are created.
+CREATE OR REPLACE FUNCTION generate_promo_codes(
+  p_count INTEGER,
+  p_prefix VARCHAR DEFAULT '',
+  p_site_id UUID DEFAULT NULL,
+  p_campaign_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_acquisition_cost NUMERIC DEFAULT NULL,
+  p_valid_from DATE DEFAULT NULL,
+  p_valid_until DATE DEFAULT NULL
+)
+RETURNS SETOF promo_codes AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_prefix VARCHAR := UPPER(COALESCE(p_prefix, ''));
+  v_created INTEGER := 0;
+  v_attempts INTEGER := 0;
+  v_row promo_codes;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_count IS NULL OR p_count < 1 OR p_count > 10000 THEN
+    RAISE EXCEPTION 'Count must be between 1 and 10000';
+  END IF;
+
+  IF LENGTH(v_prefix) > 40 THEN
+    RAISE EXCEPTION 'Prefix must be at most 40 characters';
+  END IF;
+
+  WHILE v_created < p_count LOOP
+    v_attempts := v_attempts + 1;
+    IF v_attempts > p_count * 2 + 100 THEN
+      RAISE EXCEPTION 'Could not generate enough unique codes';
+    END IF;
+
+    INSERT INTO promo_codes (
+      user_id, site_id, code, description, campaign_id, acquisition_cost,
+      valid_from, valid_until, max_uses
+    )
+    VALUES (
+      v_user_id,
+      p_site_id,
+      v_prefix || UPPER(SUBSTRING(REPLACE(gen_random_uuid()::TEXT, '-', '') FROM 1 FOR 8)),
+      p_description,
+      p_campaign_id,
+      p_acquisition_cost,
+      p_valid_from,
+      p_valid_until,
+      1
+    )
+    ON CONFLICT ON CONSTRAINT promo_codes_user_code_unique DO NOTHING
+    RETURNING * INTO v_row;
+
+    IF v_row.id IS NOT NULL THEN
+      v_created := v_created + 1;
+      RETURN NEXT v_row;
+      v_row := NULL;
+    END IF;
+  END LOOP;
+
+  PERFORM log_audit_event(
+    'PROMO_CODES_GENERATED',
+    NULL,
+    NULL,
+    jsonb_build_object('count', p_count, 'prefix', v_prefix, 'campaign_id', p_campaign_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- Reporting
+-- =============================================================================
+
+-- Function: Redemption report per promo code for the current user
+-- Members acquired are matched on members.acquisition_promo_code and
+-- transactions on member_transactions.promo_code (case-insensitive).
+CREATE OR REPLACE FUNCTION get_promo_code_report(p_site_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  promo_code_id UUID,
+  code VARCHAR(50),
+  site_id UUID,
+  campaign_id UUID,
+  current_uses INTEGER,
+  max_uses INTEGER,
+  members_acquired BIGINT,
+  acquisition_cost_total NUMERIC,
+  transaction_count BIGINT,
+  transaction_revenue NUMERIC,
+  last_used_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pc.id,
+    pc.code,
+    pc.site_id,
+    pc.campaign_id,
+    COALESCE(pc.current_uses, 0),
+    pc.max_uses,
+    COALESCE(acq.members_acquired, 0),
+    COALESCE(acq.cost_total, 0),
+    COALESCE(tx.transaction_count, 0),
+    COALESCE(tx.revenue, 0),
+    tx.last_used_at
+  FROM promo_codes pc
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS members_acquired,
+      SUM(COALESCE(m.acquisition_cost, pc.acquisition_cost, 0)) AS cost_total
+    FROM members m
+    WHERE m.user_id = pc.user_id
+      AND UPPER(m.acquisition_promo_code) = UPPER(pc.code)
+  ) acq ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS transaction_count,
+      SUM(mt.amount) AS revenue,
+      MAX(mt.transaction_date) AS last_used_at
+    FROM member_transactions mt
+    INNER JOIN members m ON m.id = mt.member_id
+    WHERE m.user_id = pc.user_id
+      AND UPPER(mt.promo_code) = UPPER(pc.code)
+  ) tx ON TRUE
+  WHERE pc.user_id = auth.uid()
+    AND (p_site_id IS NULL OR pc.site_id = p_site_id OR pc.site_id IS NULL)
+  ORDER BY pc.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Acquisition (CAC) summary for a campaign
+-- Members count toward the campaign when attributed to it directly
+-- (acquisition_campaign_id) or through one of its promo codes. A member's
+-- cost is their acquisition_cost, else the code's acquisition_cost.
+CREATE OR REPLACE FUNCTION get_campaign_acquisition(p_campaign_id UUID)
+RETURNS TABLE (
+  members_acquired BIGINT,
+  total_acquisition_cost NUMERIC,
+  avg_cac NUMERIC,
+  promo_code_count BIGINT,
+  promo_code_uses BIGINT
+) AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT user_id INTO v_user_id FROM campaigns WHERE id = p_campaign_id;
+
+  IF v_user_id IS NULL OR v_user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH codes AS (
+    SELECT UPPER(pc.code) AS code, pc.acquisition_cost, COALESCE(pc.current_uses, 0) AS uses
+    FROM promo_codes pc
+    WHERE pc.campaign_id = p_campaign_id
+  ),
+  acquired AS (
+    SELECT COALESCE(m.acquisition_cost, c.acquisition_cost, 0) AS cost
+    FROM members m
+    LEFT JOIN codes c ON c.code = UPPER(m.acquisition_promo_code)
+    WHERE m.user_id = v_user_id
+      AND (m.acquisition_campaign_id = p_campaign_id OR c.code IS NOT NULL)
+  )
+  SELECT
+    (SELECT COUNT(*) FROM acquired),
+    (SELECT COALESCE(SUM(cost), 0) FROM acquired),
+    (SELECT CASE WHEN COUNT(*) > 0 THEN ROUND(SUM(cost) / COUNT(*), 2) ELSE 0 END FROM acquired),
+    (SELECT COUNT(*) FROM codes),
+    (SELECT COALESCE(SUM(uses), 0)::BIGINT FROM codes);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
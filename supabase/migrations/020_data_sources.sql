@@ -0,0 +1,121 @@
+-- Data Sources Migration
+-- Saved import sources (recurring member imports and, later, external
+-- connectors) and the history of their syncs. memberImportDataSourceService
+-- stores member imports here with config.query_type = 'member_import'.
+
+-- =============================================================================
+-- Data Sources Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS data_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  type VARCHAR(50) NOT NULL CHECK (type IN (
+    'postgres', 'mysql', 'mssql', 'redshift', 'bigquery', 'snowflake',
+    'google_analytics', 'meta_pixel',
+    'csv_upload', 'csv_url', 'google_sheets', 'excel',
+    'rest_api', 'custom_database'
+  )),
+
+  -- Connection details (kept in Vault, see 025) and what to import
+  credentials JSONB DEFAULT '{}',
+  config JSONB DEFAULT '{}',
+  column_config JSONB DEFAULT '{}',
+
+  -- Scheduling
+  schedule_config JSONB DEFAULT '{}',
+  sync_schedule VARCHAR(20) DEFAULT 'manual'
+    CHECK (sync_schedule IN ('manual', 'hourly', 'daily', 'weekly', 'monthly', 'cron')),
+  last_sync_at TIMESTAMPTZ,
+  next_sync_at TIMESTAMPTZ,
+  last_sync_value TEXT,
+  sync_status VARCHAR(20) DEFAULT 'idle'
+    CHECK (sync_status IN ('idle', 'syncing', 'success', 'failed')),
+
+  table_name VARCHAR(255),
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_sources_user ON data_sources(user_id);
+CREATE INDEX IF NOT EXISTS idx_data_sources_next_sync
+  ON data_sources(next_sync_at)
+  WHERE is_active = TRUE AND sync_schedule <> 'manual';
+
+CREATE TRIGGER trigger_data_sources_updated_at
+  BEFORE UPDATE ON data_sources
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- Sync Logs Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS sync_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  data_source_id UUID NOT NULL REFERENCES data_sources(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'success', 'failed', 'cancelled')),
+  records_imported INTEGER DEFAULT 0,
+  records_skipped INTEGER DEFAULT 0,
+  error_message TEXT,
+  preview_data JSONB,
+  -- e.g. { "updated": 12, "failed": 1, "trigger": "manual" }
+  metadata JSONB DEFAULT '{}'
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_logs_source
+  ON sync_logs(data_source_id, started_at DESC);
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE data_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own data sources"
+  ON data_sources FOR ALL
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view sync logs for own data sources"
+  ON sync_logs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM data_sources
+      WHERE data_sources.id = sync_logs.data_source_id
+      AND data_sources.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can record sync logs for own data sources"
+  ON sync_logs FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM data_sources
+      WHERE data_sources.id = sync_logs.data_source_id
+      AND data_sources.user_id = auth.uid()
+    )
+  );
+
+-- Syncs run from the app close their own running log
+CREATE POLICY "Users can close sync logs for own data sources"
+  ON sync_logs FOR UPDATE
+  USING (
+    status = 'running'
+    AND EXISTS (
+      SELECT 1 FROM data_sources
+      WHERE data_sources.id = sync_logs.data_source_id
+      AND data_sources.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM data_sources
+      WHERE data_sources.id = sync_logs.data_source_id
+      AND data_sources.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,227 @@
+-- Member Bulk Import Migration
+-- Set-based member import: a batch of rows is staged, matched against
+-- existing members (and earlier rows of the same batch) on the configured
+-- identifiers, then inserted / updated with a handful of statements instead
+-- of one duplicate lookup and one write per row.
+
+-- =============================================================================
+-- Bulk Upsert
+-- =============================================================================
+
+-- Function: Import a batch of members into a site
+-- - p_rows: JSON array of member rows (members column names) with a
+--   row_index used to report the outcome of each row
+-- - p_match_fields: any of 'email', 'phone', 'externalId'; a row is a
+--   duplicate when ANY of them matches an active member of the site
+-- - p_duplicate_handling: 'skip' | 'update' | 'create_new'
+-- - p_update_columns: columns an update may change (the mapped ones)
+-- - p_merge_rules: { column: 'overwrite' | 'keep_existing' | 'fill_blanks' | 'union' }
+--   overwrite (default) takes the imported value unless it is empty,
+--   keep_existing never changes the column, fill_blanks only sets it when
+--   empty, union merges tags / custom_fields with the existing ones
+--
+-- Rows that duplicate an earlier row of the same batch are resolved against
+-- the member that row created, and several rows for one member are applied
+-- in file order. Constraint violations abort the whole batch; the caller
+-- splits the batch to find the failing rows.
+CREATE OR REPLACE FUNCTION bulk_upsert_members(
+  p_site_id UUID,
+  p_rows JSONB,
+  p_match_fields TEXT[] DEFAULT ARRAY['email'],
+  p_duplicate_handling TEXT DEFAULT 'skip',
+  p_update_columns TEXT[] DEFAULT ARRAY[]::TEXT[],
+  p_merge_rules JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  row_index INTEGER,
+  action TEXT,
+  member_id UUID
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_match_email BOOLEAN := 'email' = ANY(p_match_fields);
+  v_match_phone BOOLEAN := 'phone' = ANY(p_match_fields);
+  v_match_external BOOLEAN := 'externalId' = ANY(p_match_fields);
+  v_updatable TEXT[] := ARRAY[
+    'membership_level_id', 'external_id', 'first_name', 'last_name', 'email', 'phone',
+    'date_of_birth', 'gender', 'address_line1', 'address_line2', 'city', 'state',
+    'postal_code', 'country', 'membership_start_date', 'membership_expiry_date',
+    'membership_status', 'acquisition_source', 'acquisition_campaign_id',
+    'acquisition_promo_code', 'acquisition_cost', 'acquisition_date', 'tags', 'custom_fields'
+  ];
+  v_column TEXT;
+  v_rule TEXT;
+  v_set TEXT[] := ARRAY['source_import_id = COALESCE(s.source_import_id, m.source_import_id)'];
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM sites WHERE id = p_site_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Site not found';
+  END IF;
+
+  IF p_duplicate_handling NOT IN ('skip', 'update', 'create_new') THEN
+    RAISE EXCEPTION 'Invalid duplicate handling: %', p_duplicate_handling;
+  END IF;
+
+  -- Stage the batch as typed member rows. status: NULL (pending),
+  -- 'new' / 'inserted', 'matched' / 'applying' / 'updated'
+  DROP TABLE IF EXISTS member_import_staging;
+  CREATE TEMP TABLE member_import_staging ON COMMIT DROP AS
+  SELECT
+    (elem->>'row_index')::INTEGER AS row_index,
+    NULL::UUID AS match_id,
+    NULL::TEXT AS status,
+    r.*
+  FROM jsonb_array_elements(p_rows) AS elem,
+    LATERAL jsonb_populate_record(NULL::members, elem) AS r;
+
+  UPDATE member_import_staging SET
+    email = LOWER(NULLIF(TRIM(email), '')),
+    phone = NULLIF(TRIM(phone), ''),
+    external_id = NULLIF(TRIM(external_id), '');
+
+  IF p_duplicate_handling <> 'create_new' AND cardinality(p_match_fields) > 0 THEN
+    LOOP
+      -- Match pending rows to active members (including ones inserted by
+      -- earlier passes of this loop)
+      UPDATE member_import_staging s SET
+        match_id = (
+          SELECT m.id FROM members m
+          WHERE m.site_id = p_site_id
+            AND m.is_active = TRUE
+            AND (
+              (v_match_email AND m.email = s.email)
+              OR (v_match_phone AND m.phone = s.phone)
+              OR (v_match_external AND m.external_id = s.external_id)
+            )
+          ORDER BY m.created_at
+          LIMIT 1
+        )
+      WHERE s.status IS NULL;
+
+      UPDATE member_import_staging SET status = 'matched'
+      WHERE status IS NULL AND match_id IS NOT NULL;
+
+      -- Unmatched rows create a member unless an earlier pending row shares
+      -- an identifier; those wait for the next pass
+      UPDATE member_import_staging s SET status = 'new'
+      WHERE s.status IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM member_import_staging p
+          WHERE p.status IS NULL
+            AND p.row_index < s.row_index
+            AND (
+              (v_match_email AND p.email = s.email)
+              OR (v_match_phone AND p.phone = s.phone)
+              OR (v_match_external AND p.external_id = s.external_id)
+            )
+        );
+
+      PERFORM insert_staged_members(p_site_id, v_user_id);
+
+      EXIT WHEN NOT EXISTS (SELECT 1 FROM member_import_staging WHERE status IS NULL);
+    END LOOP;
+  ELSE
+    UPDATE member_import_staging SET status = 'new';
+    PERFORM insert_staged_members(p_site_id, v_user_id);
+  END IF;
+
+  IF p_duplicate_handling = 'update' THEN
+    FOREACH v_column IN ARRAY p_update_columns LOOP
+      CONTINUE WHEN NOT v_column = ANY(v_updatable);
+      v_rule := COALESCE(p_merge_rules->>v_column, 'overwrite');
+
+      IF v_rule = 'keep_existing' THEN
+        CONTINUE;
+      ELSIF v_rule = 'union' AND v_column = 'tags' THEN
+        v_set := v_set ||
+          'tags = ARRAY(SELECT DISTINCT t FROM unnest(COALESCE(m.tags, ''{}'') || COALESCE(s.tags, ''{}'')) AS t)';
+      ELSIF v_rule = 'union' AND v_column = 'custom_fields' THEN
+        v_set := v_set ||
+          'custom_fields = COALESCE(m.custom_fields, ''{}'') || COALESCE(s.custom_fields, ''{}'')';
+      ELSIF v_rule = 'fill_blanks' AND v_column = 'tags' THEN
+        v_set := v_set ||
+          'tags = CASE WHEN COALESCE(cardinality(m.tags), 0) = 0 THEN s.tags ELSE m.tags END';
+      ELSIF v_rule = 'fill_blanks' THEN
+        v_set := v_set || format('%1$I = COALESCE(m.%1$I, s.%1$I)', v_column);
+      ELSE
+        v_set := v_set || format('%1$I = COALESCE(s.%1$I, m.%1$I)', v_column);
+      END IF;
+    END LOOP;
+
+    -- One row per member per pass so repeated rows apply in file order
+    LOOP
+      UPDATE member_import_staging SET status = 'applying'
+      WHERE row_index IN (
+        SELECT DISTINCT ON (match_id) row_index
+        FROM member_import_staging
+        WHERE status = 'matched'
+        ORDER BY match_id, row_index
+      );
+      EXIT WHEN NOT FOUND;
+
+      EXECUTE format(
+        'UPDATE members m SET %s, updated_at = NOW()
+         FROM member_import_staging s
+         WHERE s.status = ''applying'' AND m.id = s.match_id',
+        array_to_string(v_set, ', ')
+      );
+
+      UPDATE member_import_staging SET status = 'updated' WHERE status = 'applying';
+    END LOOP;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.row_index,
+    CASE s.status
+      WHEN 'inserted' THEN 'inserted'
+      WHEN 'updated' THEN 'updated'
+      ELSE 'skipped'
+    END,
+    COALESCE(s.match_id, s.id)
+  FROM member_import_staging s
+  ORDER BY s.row_index;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Insert the staged rows marked 'new' (helper for bulk_upsert_members)
+CREATE OR REPLACE FUNCTION insert_staged_members(
+  p_site_id UUID,
+  p_user_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE member_import_staging SET id = gen_random_uuid() WHERE status = 'new';
+
+  INSERT INTO members (
+    id, user_id, site_id, membership_level_id, external_id,
+    first_name, last_name, email, phone, date_of_birth, gender,
+    address_line1, address_line2, city, state, postal_code, country,
+    membership_start_date, membership_expiry_date, membership_status,
+    acquisition_source, acquisition_campaign_id, acquisition_promo_code,
+    acquisition_cost, acquisition_date, tags, custom_fields, source_import_id
+  )
+  SELECT
+    s.id, p_user_id, p_site_id, s.membership_level_id, s.external_id,
+    s.first_name, s.last_name, s.email, s.phone, s.date_of_birth, s.gender,
+    s.address_line1, s.address_line2, s.city, s.state, s.postal_code, COALESCE(s.country, 'US'),
+    s.membership_start_date, s.membership_expiry_date, COALESCE(s.membership_status, 'active'),
+    COALESCE(s.acquisition_source, 'import'), s.acquisition_campaign_id, s.acquisition_promo_code,
+    s.acquisition_cost, COALESCE(s.acquisition_date, CURRENT_DATE), COALESCE(s.tags, '{}'),
+    COALESCE(s.custom_fields, '{}'), s.source_import_id
+  FROM member_import_staging s
+  WHERE s.status = 'new'
+  ORDER BY s.row_index;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE member_import_staging SET status = 'inserted' WHERE status = 'new';
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The helper only touches the caller's temp table; keep it off the API
+REVOKE EXECUTE ON FUNCTION insert_staged_members(UUID, UUID) FROM PUBLIC, anon, authenticated;
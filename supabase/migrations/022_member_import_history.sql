@@ -0,0 +1,344 @@
+-- Member Import History Migration
+-- One row per import run (keyed by the source_import_id stamped on the
+-- members, transactions and visits it wrote), the members each run created
+-- or updated with their prior values, and rollback of a run. Runs are only
+-- written through start_member_import / finish_member_import /
+-- rollback_member_import, so a run's status cannot be set by hand.
+
+-- =============================================================================
+-- Import Runs Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS member_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id VARCHAR(100) NOT NULL UNIQUE, -- source_import_id on imported rows
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  site_id UUID REFERENCES sites(id) ON DELETE CASCADE,
+  data_source_id UUID REFERENCES data_sources(id) ON DELETE SET NULL,
+
+  kind VARCHAR(20) NOT NULL DEFAULT 'members'
+    CHECK (kind IN ('members', 'transactions', 'visits')),
+  filename VARCHAR(255),
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed', 'rolled_back')),
+
+  -- Counts from MemberImportResult
+  total_rows INTEGER DEFAULT 0,
+  imported INTEGER DEFAULT 0,
+  updated INTEGER DEFAULT 0,
+  skipped INTEGER DEFAULT 0,
+  failed INTEGER DEFAULT 0,
+  errors JSONB DEFAULT '[]', -- First row errors: [{ row, field, message }]
+
+  -- e.g. { "members_deleted": 120, "members_restored": 8, "transactions_deleted": 0 }
+  rollback_summary JSONB,
+
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  rolled_back_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_imports_user
+  ON member_imports(user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_member_imports_site ON member_imports(site_id);
+
+-- =============================================================================
+-- Import Changes Table
+-- =============================================================================
+
+-- Members a run created or updated. member_id has no foreign key so the
+-- history survives members deleted by a rollback.
+CREATE TABLE IF NOT EXISTS member_import_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id VARCHAR(100) NOT NULL REFERENCES member_imports(import_id) ON DELETE CASCADE,
+  member_id UUID NOT NULL,
+  action VARCHAR(10) NOT NULL CHECK (action IN ('created', 'updated')),
+  previous_values JSONB, -- Member row before the first update by this run
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT member_import_changes_unique UNIQUE(import_id, member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_import_changes_member
+  ON member_import_changes(member_id);
+
+-- =============================================================================
+-- Change Tracking
+-- =============================================================================
+
+-- Function: Record members written by a running import
+-- Fires for rows stamped with a source_import_id that has a running
+-- member_imports row; only the first write of a member per run is kept,
+-- so previous_values is the member as it was before the run.
+CREATE OR REPLACE FUNCTION track_member_import_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.source_import_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.source_import_id IS NOT DISTINCT FROM OLD.source_import_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM member_imports
+    WHERE import_id = NEW.source_import_id AND status = 'running'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO member_import_changes (import_id, member_id, action, previous_values)
+  VALUES (
+    NEW.source_import_id,
+    NEW.id,
+    CASE TG_OP WHEN 'INSERT' THEN 'created' ELSE 'updated' END,
+    CASE TG_OP WHEN 'INSERT' THEN NULL ELSE to_jsonb(OLD) END
+  )
+  ON CONFLICT (import_id, member_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trigger_track_member_import_change
+  AFTER INSERT OR UPDATE OF source_import_id ON members
+  FOR EACH ROW EXECUTE FUNCTION track_member_import_change();
+
+-- =============================================================================
+-- Recording
+-- =============================================================================
+
+-- Function: Register a run before any rows are written, so
+-- track_member_import_change records the members it creates and updates
+CREATE OR REPLACE FUNCTION start_member_import(
+  p_import_id VARCHAR,
+  p_kind VARCHAR,
+  p_site_id UUID DEFAULT NULL,
+  p_data_source_id UUID DEFAULT NULL,
+  p_filename VARCHAR DEFAULT NULL,
+  p_total_rows INTEGER DEFAULT 0
+)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_site_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM sites WHERE id = p_site_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Site not found';
+  END IF;
+
+  IF p_data_source_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM data_sources WHERE id = p_data_source_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Data source not found';
+  END IF;
+
+  INSERT INTO member_imports (
+    import_id, user_id, site_id, data_source_id, kind, filename, status, total_rows
+  )
+  VALUES (
+    p_import_id, auth.uid(), p_site_id, p_data_source_id, p_kind, p_filename, 'running', p_total_rows
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Store the final counts of a running run
+-- p_result: { total_rows, imported, updated, skipped, failed, errors }
+CREATE OR REPLACE FUNCTION finish_member_import(
+  p_import_id VARCHAR,
+  p_status VARCHAR,
+  p_result JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  IF p_status NOT IN ('completed', 'failed') THEN
+    RAISE EXCEPTION 'Invalid import status: %', p_status;
+  END IF;
+
+  UPDATE member_imports SET
+    status = p_status,
+    total_rows = COALESCE((p_result->>'total_rows')::INTEGER, total_rows),
+    imported = COALESCE((p_result->>'imported')::INTEGER, 0),
+    updated = COALESCE((p_result->>'updated')::INTEGER, 0),
+    skipped = COALESCE((p_result->>'skipped')::INTEGER, 0),
+    failed = COALESCE((p_result->>'failed')::INTEGER, 0),
+    errors = COALESCE(p_result->'errors', '[]'::JSONB),
+    completed_at = NOW()
+  WHERE import_id = p_import_id
+    AND user_id = auth.uid()
+    AND status = 'running';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import not found or not running';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- Rollback
+-- =============================================================================
+
+-- Function: Roll back an import run
+-- Deletes the transactions and visits it imported and the members it
+-- created, and restores the prior values of members it updated. Refused
+-- while a later, not rolled back run has touched the same members, since
+-- restoring would discard that run's changes.
+CREATE OR REPLACE FUNCTION rollback_member_import(p_import_id VARCHAR)
+RETURNS JSONB AS $$
+DECLARE
+  v_run RECORD;
+  v_transactions INTEGER;
+  v_visits INTEGER;
+  v_restored INTEGER;
+  v_deleted INTEGER;
+  v_summary JSONB;
+BEGIN
+  SELECT * INTO v_run
+  FROM member_imports
+  WHERE import_id = p_import_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_run IS NULL THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  IF v_run.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import has already been rolled back';
+  END IF;
+
+  -- A run still running after an hour was abandoned (e.g. its tab was
+  -- closed mid-import) and can be rolled back
+  IF v_run.status = 'running' AND v_run.started_at > NOW() - INTERVAL '1 hour' THEN
+    RAISE EXCEPTION 'Import is still running';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM member_import_changes c
+    JOIN member_import_changes later ON later.member_id = c.member_id
+    JOIN member_imports later_run ON later_run.import_id = later.import_id
+    WHERE c.import_id = p_import_id
+      AND later_run.import_id <> p_import_id
+      AND later_run.started_at > v_run.started_at
+      AND later_run.status <> 'rolled_back'
+  ) THEN
+    RAISE EXCEPTION 'Members in this import were changed by a later import; roll that import back first';
+  END IF;
+
+  -- Only rows of the run's own members (and site): the import id alone
+  -- does not prove the rows came from this run
+  DELETE FROM member_transactions t
+  USING members m
+  WHERE t.source_import_id = p_import_id
+    AND m.id = t.member_id
+    AND m.user_id = v_run.user_id
+    AND (v_run.site_id IS NULL OR t.site_id = v_run.site_id);
+  GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+  DELETE FROM member_visits v
+  USING members m
+  WHERE v.source_import_id = p_import_id
+    AND m.id = v.member_id
+    AND m.user_id = v_run.user_id
+    AND (v_run.site_id IS NULL OR v.site_id = v_run.site_id);
+  GET DIAGNOSTICS v_visits = ROW_COUNT;
+
+  -- Restore the importable columns from the snapshot taken before the run
+  UPDATE members m SET
+    membership_level_id = prev.membership_level_id,
+    external_id = prev.external_id,
+    first_name = prev.first_name,
+    last_name = prev.last_name,
+    email = prev.email,
+    phone = prev.phone,
+    date_of_birth = prev.date_of_birth,
+    gender = prev.gender,
+    address_line1 = prev.address_line1,
+    address_line2 = prev.address_line2,
+    city = prev.city,
+    state = prev.state,
+    postal_code = prev.postal_code,
+    country = prev.country,
+    membership_start_date = prev.membership_start_date,
+    membership_expiry_date = prev.membership_expiry_date,
+    membership_status = prev.membership_status,
+    acquisition_source = prev.acquisition_source,
+    acquisition_campaign_id = prev.acquisition_campaign_id,
+    acquisition_promo_code = prev.acquisition_promo_code,
+    acquisition_cost = prev.acquisition_cost,
+    acquisition_date = prev.acquisition_date,
+    tags = prev.tags,
+    custom_fields = prev.custom_fields,
+    source_import_id = prev.source_import_id,
+    updated_at = NOW()
+  FROM member_import_changes c,
+    LATERAL jsonb_populate_record(NULL::members, c.previous_values) AS prev
+  WHERE c.import_id = p_import_id
+    AND c.action = 'updated'
+    AND m.id = c.member_id
+    AND m.user_id = v_run.user_id
+    AND (v_run.site_id IS NULL OR m.site_id = v_run.site_id);
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  DELETE FROM members m
+  USING member_import_changes c
+  WHERE c.import_id = p_import_id
+    AND c.action = 'created'
+    AND m.id = c.member_id
+    AND m.user_id = v_run.user_id
+    AND (v_run.site_id IS NULL OR m.site_id = v_run.site_id);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  v_summary := jsonb_build_object(
+    'members_deleted', v_deleted,
+    'members_restored', v_restored,
+    'transactions_deleted', v_transactions,
+    'visits_deleted', v_visits
+  );
+
+  UPDATE member_imports SET
+    status = 'rolled_back',
+    rolled_back_at = NOW(),
+    rollback_summary = v_summary
+  WHERE id = v_run.id;
+
+  PERFORM log_audit_event(
+    'MEMBER_IMPORT_ROLLED_BACK',
+    NULL,
+    NULL,
+    jsonb_build_object(
+      'import_id', p_import_id,
+      'site_id', v_run.site_id,
+      'filename', v_run.filename
+    ) || v_summary
+  );
+
+  RETURN v_summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+ALTER TABLE member_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE member_import_changes ENABLE ROW LEVEL SECURITY;
+
+-- Read only: runs are written by the functions above
+CREATE POLICY "Users can view own imports"
+  ON member_imports FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view changes for own imports"
+  ON member_import_changes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM member_imports
+      WHERE member_imports.import_id = member_import_changes.import_id
+      AND member_imports.user_id = auth.uid()
+    )
+  );
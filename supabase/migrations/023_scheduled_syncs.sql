@@ -0,0 +1,19 @@
+-- Scheduled Syncs Migration
+-- Support for the run-syncs Edge Function, which starts data source syncs
+-- when next_sync_at passes. The connectors claim a source by moving its
+-- sync_status to 'syncing'; the index below also keeps the database from
+-- ever holding two running syncs of the same source.
+
+-- =============================================================================
+-- Sync Logs
+-- =============================================================================
+
+-- At most one running sync per data source
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_logs_one_running
+  ON sync_logs(data_source_id)
+  WHERE status = 'running';
+
+-- Stale running syncs, closed by run-syncs
+CREATE INDEX IF NOT EXISTS idx_sync_logs_running_started
+  ON sync_logs(started_at)
+  WHERE status = 'running';
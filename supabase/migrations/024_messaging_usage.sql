@@ -0,0 +1,222 @@
+-- Messaging Usage Migration
+-- Enforces app_settings.monthly_sms_limit and monthly_email_limit
+-- (0 = unlimited). A usage ledger counts what send-sms and send-email hand
+-- to the providers per channel and calendar month (in the app timezone):
+-- SMS by segment, email by message. process-campaign fails a campaign whose
+-- estimate exceeds the remaining quota unless an admin allowed it to go
+-- over the limit.
+
+-- =============================================================================
+-- Usage Ledger
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS messaging_usage (
+  channel VARCHAR(10) NOT NULL CHECK (channel IN ('sms', 'email')),
+  period_start DATE NOT NULL, -- First day of the month in the app timezone
+  messages_sent INTEGER NOT NULL DEFAULT 0,
+  units_used INTEGER NOT NULL DEFAULT 0, -- SMS segments, or emails
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (channel, period_start)
+);
+
+ALTER TABLE messaging_usage ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the quota functions below
+CREATE POLICY "Admins can read messaging usage"
+  ON messaging_usage FOR SELECT
+  USING (is_admin());
+
+-- =============================================================================
+-- Campaign Override
+-- =============================================================================
+
+-- Set by an admin to send a campaign past the monthly limit
+ALTER TABLE campaigns
+  ADD COLUMN IF NOT EXISTS allow_over_limit BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE OR REPLACE FUNCTION check_campaign_limit_override()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- auth.uid() is NULL for the service role
+  IF NEW.allow_over_limit
+    AND (TG_OP = 'INSERT' OR NOT OLD.allow_over_limit)
+    AND auth.uid() IS NOT NULL
+    AND NOT is_admin()
+  THEN
+    RAISE EXCEPTION 'Only admins can allow a campaign to exceed the monthly sending limit';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_campaigns_limit_override ON campaigns;
+CREATE TRIGGER trigger_campaigns_limit_override
+  BEFORE INSERT OR UPDATE OF allow_over_limit ON campaigns
+  FOR EACH ROW EXECUTE FUNCTION check_campaign_limit_override();
+
+-- =============================================================================
+-- Usage Functions
+-- =============================================================================
+
+-- Function: First day of the current month in the app timezone
+CREATE OR REPLACE FUNCTION current_usage_period()
+RETURNS DATE AS $$
+  SELECT date_trunc(
+    'month',
+    NOW() AT TIME ZONE COALESCE((SELECT timezone FROM app_settings LIMIT 1), 'UTC')
+  )::DATE;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function: Monthly limit for a channel (NULL = unlimited)
+CREATE OR REPLACE FUNCTION get_messaging_limit(p_channel VARCHAR)
+RETURNS INTEGER AS $$
+  SELECT NULLIF(
+    CASE p_channel
+      WHEN 'sms' THEN monthly_sms_limit
+      ELSE monthly_email_limit
+    END,
+    0
+  )
+  FROM app_settings
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function: This month's usage and remaining quota per channel
+-- Readable by every user so the campaign form can estimate a campaign.
+CREATE OR REPLACE FUNCTION get_messaging_usage()
+RETURNS TABLE (
+  channel VARCHAR(10),
+  period_start DATE,
+  messages_sent INTEGER,
+  units_used INTEGER,
+  monthly_limit INTEGER,
+  remaining INTEGER
+) AS $$
+  SELECT
+    c.channel::VARCHAR(10),
+    current_usage_period(),
+    COALESCE(u.messages_sent, 0),
+    COALESCE(u.units_used, 0),
+    get_messaging_limit(c.channel),
+    -- GREATEST ignores NULLs, so keep unlimited channels NULL explicitly
+    CASE
+      WHEN get_messaging_limit(c.channel) IS NULL THEN NULL
+      ELSE GREATEST(get_messaging_limit(c.channel) - COALESCE(u.units_used, 0), 0)
+    END
+  FROM (VALUES ('sms'), ('email')) AS c(channel)
+  LEFT JOIN messaging_usage u
+    ON u.channel = c.channel
+    AND u.period_start = current_usage_period();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function: Take units from the current month's quota for one message
+-- Locks the month's row so concurrent sends can never overshoot the limit.
+-- Returns the month the units were counted in, or NULL (nothing counted)
+-- when they would exceed the limit and p_allow_over_limit is not set.
+CREATE OR REPLACE FUNCTION consume_messaging_quota(
+  p_channel VARCHAR,
+  p_units INTEGER,
+  p_allow_over_limit BOOLEAN DEFAULT FALSE
+)
+RETURNS DATE AS $$
+DECLARE
+  v_period DATE := current_usage_period();
+  v_limit INTEGER := get_messaging_limit(p_channel);
+  v_used INTEGER;
+BEGIN
+  INSERT INTO messaging_usage (channel, period_start)
+  VALUES (p_channel, v_period)
+  ON CONFLICT (channel, period_start) DO NOTHING;
+
+  SELECT units_used INTO v_used
+  FROM messaging_usage
+  WHERE channel = p_channel AND period_start = v_period
+  FOR UPDATE;
+
+  IF NOT p_allow_over_limit AND v_limit IS NOT NULL AND v_used + p_units > v_limit THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE messaging_usage SET
+    messages_sent = messages_sent + 1,
+    units_used = units_used + p_units,
+    updated_at = NOW()
+  WHERE channel = p_channel AND period_start = v_period;
+
+  RETURN v_period;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Give back units for a message the provider did not accept
+CREATE OR REPLACE FUNCTION release_messaging_quota(
+  p_channel VARCHAR,
+  p_period_start DATE,
+  p_units INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE messaging_usage SET
+    messages_sent = GREATEST(messages_sent - 1, 0),
+    units_used = GREATEST(units_used - p_units, 0),
+    updated_at = NOW()
+  WHERE channel = p_channel AND period_start = p_period_start;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The ledger is only written by the send functions (service role)
+REVOKE EXECUTE ON FUNCTION consume_messaging_quota(VARCHAR, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_messaging_quota(VARCHAR, DATE, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- Audience Estimate
+-- =============================================================================
+
+-- Function: Count the caller's members a campaign with these settings would
+-- reach. Mirrors the targeting and consent checks of get_campaign_recipients
+-- for campaigns that are not saved yet (the campaign form's usage estimate).
+CREATE OR REPLACE FUNCTION count_campaign_audience(
+  p_campaign_type VARCHAR,
+  p_site_id UUID DEFAULT NULL,
+  p_target_all_members BOOLEAN DEFAULT FALSE,
+  p_membership_statuses TEXT[] DEFAULT NULL,
+  p_membership_level_ids UUID[] DEFAULT NULL,
+  p_required_tags TEXT[] DEFAULT NULL,
+  p_excluded_tags TEXT[] DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM members m
+  INNER JOIN sites s ON m.site_id = s.id
+  LEFT JOIN member_consent mc ON m.id = mc.member_id
+  WHERE m.user_id = auth.uid()
+    AND m.is_active = TRUE
+    AND (p_site_id IS NULL OR m.site_id = p_site_id)
+    AND (
+      p_target_all_members = TRUE
+      OR (
+        (p_membership_level_ids IS NULL
+          OR m.membership_level_id = ANY(p_membership_level_ids))
+        AND (p_membership_statuses IS NULL
+          OR m.membership_status = ANY(p_membership_statuses))
+        AND (p_required_tags IS NULL
+          OR m.tags @> p_required_tags)
+        AND (p_excluded_tags IS NULL
+          OR NOT (m.tags && p_excluded_tags))
+      )
+    )
+    AND (
+      (p_campaign_type = 'sms'
+        AND m.phone IS NOT NULL
+        AND (mc.sms_consent = TRUE)
+        AND (mc.sms_opt_out_at IS NULL)
+        AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE))
+      OR
+      (p_campaign_type = 'email'
+        AND m.email IS NOT NULL
+        AND (mc.email_consent = TRUE OR mc.email_consent IS NULL)
+        AND (mc.email_unsubscribed_at IS NULL)
+        AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
@@ -0,0 +1,182 @@
+-- Provider Credentials Migration
+-- Keeps the Twilio auth token and SendGrid API key entered in the Settings
+-- page encrypted at rest in Supabase Vault. Writing twilio_auth_token or
+-- sendgrid_api_key stores the value as a Vault secret and clears the column,
+-- so app_settings only holds the secret's id. The edge functions read the
+-- decrypted credentials through get_provider_credentials() (service role
+-- only) and fall back to their TWILIO_* / SENDGRID_* environment variables.
+
+CREATE EXTENSION IF NOT EXISTS supabase_vault WITH SCHEMA vault;
+
+-- =============================================================================
+-- Secret References
+-- =============================================================================
+
+ALTER TABLE app_settings
+  ADD COLUMN IF NOT EXISTS twilio_auth_token_id UUID, -- vault.secrets id
+  ADD COLUMN IF NOT EXISTS sendgrid_api_key_id UUID; -- vault.secrets id
+
+-- Function: Create or replace a named Vault secret, returning its id
+CREATE OR REPLACE FUNCTION store_vault_secret(p_name TEXT, p_secret TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  SELECT id INTO v_id FROM vault.secrets WHERE name = p_name;
+
+  IF v_id IS NULL THEN
+    v_id := vault.create_secret(p_secret, p_name);
+  ELSE
+    PERFORM vault.update_secret(v_id, p_secret);
+  END IF;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger: Move secrets written to app_settings into Vault
+-- Empty values keep the stored secret (the Settings form leaves them blank).
+CREATE OR REPLACE FUNCTION store_provider_secrets()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.twilio_auth_token, '') <> '' THEN
+    NEW.twilio_auth_token_id := store_vault_secret('twilio_auth_token', NEW.twilio_auth_token);
+  END IF;
+
+  IF COALESCE(NEW.sendgrid_api_key, '') <> '' THEN
+    NEW.sendgrid_api_key_id := store_vault_secret('sendgrid_api_key', NEW.sendgrid_api_key);
+  END IF;
+
+  NEW.twilio_auth_token := NULL;
+  NEW.sendgrid_api_key := NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_app_settings_secrets ON app_settings;
+CREATE TRIGGER trigger_app_settings_secrets
+  BEFORE INSERT OR UPDATE ON app_settings
+  FOR EACH ROW EXECUTE FUNCTION store_provider_secrets();
+
+-- Move existing plain-text secrets into Vault
+UPDATE app_settings
+SET twilio_auth_token = twilio_auth_token
+WHERE twilio_auth_token IS NOT NULL OR sendgrid_api_key IS NOT NULL;
+
+-- The plain-text columns stay empty from now on
+ALTER TABLE app_settings DROP CONSTRAINT IF EXISTS app_settings_secrets_in_vault;
+ALTER TABLE app_settings
+  ADD CONSTRAINT app_settings_secrets_in_vault
+  CHECK (twilio_auth_token IS NULL AND sendgrid_api_key IS NULL);
+
+-- =============================================================================
+-- Credential Lookup
+-- =============================================================================
+
+-- Function: Provider credentials with the secrets decrypted
+CREATE OR REPLACE FUNCTION get_provider_credentials()
+RETURNS TABLE (
+  twilio_account_sid TEXT,
+  twilio_auth_token TEXT,
+  twilio_phone_number TEXT,
+  sendgrid_api_key TEXT,
+  sendgrid_from_email TEXT,
+  sendgrid_from_name TEXT
+) AS $$
+  SELECT
+    s.twilio_account_sid,
+    twilio.decrypted_secret,
+    s.twilio_phone_number,
+    sendgrid.decrypted_secret,
+    s.sendgrid_from_email,
+    s.sendgrid_from_name
+  FROM app_settings s
+  LEFT JOIN vault.decrypted_secrets twilio ON twilio.id = s.twilio_auth_token_id
+  LEFT JOIN vault.decrypted_secrets sendgrid ON sendgrid.id = s.sendgrid_api_key_id
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Secrets are only ever read by the edge functions (service role)
+REVOKE EXECUTE ON FUNCTION store_vault_secret(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_provider_credentials() FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- Data Source Credentials
+-- =============================================================================
+
+-- Connection details written to data_sources.credentials (database logins,
+-- API keys) are moved into Vault the same way, one secret per data source,
+-- so the column (readable by every organization member) stays empty. The
+-- connectors read them through get_data_source_credentials() (service role
+-- only). A Google Sheet's id is not a secret and is kept in config.sheet_id.
+
+ALTER TABLE data_sources
+  ADD COLUMN IF NOT EXISTS credentials_secret_id UUID; -- vault.secrets id
+
+-- Trigger: Move credentials written to data_sources into Vault
+-- Empty credentials keep the stored secret (updates that leave them out).
+CREATE OR REPLACE FUNCTION store_data_source_secrets()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.credentials, '{}'::jsonb) <> '{}'::jsonb THEN
+    NEW.credentials_secret_id := store_vault_secret(
+      'data_source_credentials_' || NEW.id,
+      NEW.credentials::TEXT
+    );
+  END IF;
+
+  NEW.credentials := '{}'::jsonb;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_data_sources_secrets ON data_sources;
+CREATE TRIGGER trigger_data_sources_secrets
+  BEFORE INSERT OR UPDATE ON data_sources
+  FOR EACH ROW EXECUTE FUNCTION store_data_source_secrets();
+
+-- Trigger: Delete a data source's secret with it
+CREATE OR REPLACE FUNCTION delete_data_source_secrets()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM vault.secrets WHERE id = OLD.credentials_secret_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_data_sources_delete_secrets ON data_sources;
+CREATE TRIGGER trigger_data_sources_delete_secrets
+  AFTER DELETE ON data_sources
+  FOR EACH ROW
+  WHEN (OLD.credentials_secret_id IS NOT NULL)
+  EXECUTE FUNCTION delete_data_source_secrets();
+
+-- Keep sheet ids in config, then move the remaining credentials into Vault
+UPDATE data_sources
+SET
+  config = config || jsonb_build_object('sheet_id', credentials->>'sheet_id'),
+  credentials = credentials - 'sheet_id'
+WHERE type = 'google_sheets' AND credentials ? 'sheet_id';
+
+UPDATE data_sources
+SET credentials = credentials
+WHERE credentials <> '{}'::jsonb;
+
+ALTER TABLE data_sources DROP CONSTRAINT IF EXISTS data_sources_credentials_in_vault;
+ALTER TABLE data_sources
+  ADD CONSTRAINT data_sources_credentials_in_vault
+  CHECK (credentials = '{}'::jsonb);
+
+-- Function: A data source's credentials, decrypted ('{}' when it has none)
+CREATE OR REPLACE FUNCTION get_data_source_credentials(p_data_source_id UUID)
+RETURNS JSONB AS $$
+  SELECT COALESCE(secret.decrypted_secret::jsonb, '{}'::jsonb)
+  FROM data_sources ds
+  LEFT JOIN vault.decrypted_secrets secret ON secret.id = ds.credentials_secret_id
+  WHERE ds.id = p_data_source_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Credentials are only ever read by the connectors (service role)
+REVOKE EXECUTE ON FUNCTION get_data_source_credentials(UUID) FROM PUBLIC, anon, authenticated;
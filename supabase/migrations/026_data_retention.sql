@@ -0,0 +1,311 @@
+-- Data Retention Migration
+-- Applies app_settings.data_retention_days and audit_retention_days. The
+-- run-retention Edge Function calls apply_data_retention() on a schedule:
+-- campaign messages are anonymized (their status and timestamps stay for
+-- campaign metrics), conversation messages, sync logs and import rollback
+-- snapshots are deleted, and audit logs past the audit window are deleted.
+-- Members and campaigns under a legal hold are exempt. Each run is recorded
+-- in retention_reports with what was removed.
+
+-- =============================================================================
+-- Legal Hold
+-- =============================================================================
+
+-- Set by an admin to keep a member's or campaign's data past retention
+ALTER TABLE members
+  ADD COLUMN IF NOT EXISTS legal_hold BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE campaigns
+  ADD COLUMN IF NOT EXISTS legal_hold BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_members_legal_hold ON members(id) WHERE legal_hold;
+CREATE INDEX IF NOT EXISTS idx_campaigns_legal_hold ON campaigns(id) WHERE legal_hold;
+
+CREATE OR REPLACE FUNCTION check_legal_hold_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- auth.uid() is NULL for the service role
+  IF NEW.legal_hold IS DISTINCT FROM (CASE WHEN TG_OP = 'INSERT' THEN FALSE ELSE OLD.legal_hold END)
+    AND auth.uid() IS NOT NULL
+    AND NOT is_admin()
+  THEN
+    RAISE EXCEPTION 'Only admins can place or release a legal hold';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_members_legal_hold ON members;
+CREATE TRIGGER trigger_members_legal_hold
+  BEFORE INSERT OR UPDATE OF legal_hold ON members
+  FOR EACH ROW EXECUTE FUNCTION check_legal_hold_change();
+
+DROP TRIGGER IF EXISTS trigger_campaigns_legal_hold ON campaigns;
+CREATE TRIGGER trigger_campaigns_legal_hold
+  BEFORE INSERT OR UPDATE OF legal_hold ON campaigns
+  FOR EACH ROW EXECUTE FUNCTION check_legal_hold_change();
+
+-- Function: Place or release a legal hold on a member (admins, any owner)
+CREATE OR REPLACE FUNCTION set_member_legal_hold(p_member_id UUID, p_hold BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can place or release a legal hold';
+  END IF;
+
+  UPDATE members SET legal_hold = p_hold WHERE id = p_member_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  PERFORM log_audit_event(
+    CASE WHEN p_hold THEN 'LEGAL_HOLD_PLACED' ELSE 'LEGAL_HOLD_RELEASED' END,
+    auth.email(),
+    NULL,
+    jsonb_build_object('memberId', p_member_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Place or release a legal hold on a campaign (admins, any owner)
+CREATE OR REPLACE FUNCTION set_campaign_legal_hold(p_campaign_id UUID, p_hold BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can place or release a legal hold';
+  END IF;
+
+  UPDATE campaigns SET legal_hold = p_hold WHERE id = p_campaign_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found';
+  END IF;
+
+  PERFORM log_audit_event(
+    CASE WHEN p_hold THEN 'LEGAL_HOLD_PLACED' ELSE 'LEGAL_HOLD_RELEASED' END,
+    auth.email(),
+    NULL,
+    jsonb_build_object('campaignId', p_campaign_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- Import Rollback Snapshots
+-- =============================================================================
+
+-- Set once retention removed an import's member_import_changes
+ALTER TABLE member_imports
+  ADD COLUMN IF NOT EXISTS changes_purged_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION check_import_rollback_available()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'rolled_back'
+    AND OLD.status <> 'rolled_back'
+    AND OLD.changes_purged_at IS NOT NULL
+  THEN
+    RAISE EXCEPTION 'Import can no longer be rolled back: its change history was removed by data retention';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_member_imports_rollback_available ON member_imports;
+CREATE TRIGGER trigger_member_imports_rollback_available
+  BEFORE UPDATE OF status ON member_imports
+  FOR EACH ROW EXECUTE FUNCTION check_import_rollback_available();
+
+-- =============================================================================
+-- Retention Reports
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS retention_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed')),
+  trigger_type VARCHAR(20) NOT NULL DEFAULT 'scheduled'
+    CHECK (trigger_type IN ('scheduled', 'manual')),
+
+  data_retention_days INTEGER,
+  audit_retention_days INTEGER,
+  -- e.g. { "campaign_messages_anonymized": 1200, "sync_logs_deleted": 40 }
+  removed JSONB NOT NULL DEFAULT '{}',
+  -- Rows past retention kept for a legal hold, e.g. { "campaign_messages": 12 }
+  held JSONB NOT NULL DEFAULT '{}',
+  error_message TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_retention_reports_started
+  ON retention_reports(started_at DESC);
+
+ALTER TABLE retention_reports ENABLE ROW LEVEL SECURITY;
+
+-- Written only by run-retention (service role)
+CREATE POLICY "Admins can read retention reports"
+  ON retention_reports FOR SELECT
+  USING (is_admin());
+
+-- =============================================================================
+-- Retention Functions
+-- =============================================================================
+
+-- The audit window now comes from app_settings, and held members' and
+-- campaigns' events are kept
+DROP FUNCTION IF EXISTS cleanup_old_audit_logs(INTEGER);
+
+-- Function: Remove audit logs older than days_to_keep
+-- (default: app_settings.audit_retention_days). Entries naming a held member
+-- or campaign are kept, whether logged by the app (memberId, campaignId) or
+-- by a trigger (member_id, campaign_id); see supabase/tests/database.
+CREATE OR REPLACE FUNCTION cleanup_old_audit_logs(days_to_keep INTEGER DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_days INTEGER := COALESCE(
+    days_to_keep,
+    (SELECT audit_retention_days FROM app_settings LIMIT 1),
+    90
+  );
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM audit_logs a
+  WHERE a.created_at < NOW() - make_interval(days => v_days)
+    AND NOT EXISTS (
+      SELECT 1 FROM members m
+      WHERE m.legal_hold
+        AND m.id::TEXT IN (a.metadata->>'memberId', a.metadata->>'member_id')
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM campaigns c
+      WHERE c.legal_hold
+        AND c.id::TEXT IN (a.metadata->>'campaignId', a.metadata->>'campaign_id')
+    );
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Apply the retention windows to the database tables
+-- Returns { data_retention_days, audit_retention_days, removed, held }.
+-- Import tables are cleared by run-retention itself.
+CREATE OR REPLACE FUNCTION apply_data_retention()
+RETURNS JSONB AS $$
+DECLARE
+  v_data_days INTEGER;
+  v_audit_days INTEGER;
+  v_cutoff TIMESTAMPTZ;
+  v_messages_anonymized INTEGER;
+  v_messages_held INTEGER;
+  v_conversations_deleted INTEGER;
+  v_conversations_held INTEGER;
+  v_sync_logs_deleted INTEGER;
+  v_import_changes_deleted INTEGER;
+  v_import_changes_held INTEGER;
+  v_audit_logs_deleted INTEGER;
+BEGIN
+  SELECT data_retention_days, audit_retention_days
+  INTO v_data_days, v_audit_days
+  FROM app_settings
+  LIMIT 1;
+
+  v_data_days := COALESCE(v_data_days, 30);
+  v_audit_days := COALESCE(v_audit_days, 30);
+  v_cutoff := NOW() - make_interval(days => v_data_days);
+
+  -- Campaign messages of finished campaigns: drop the recipient and provider
+  -- details, keep status and timestamps for metrics
+  UPDATE campaign_messages cm SET
+    recipient_address = '[redacted]',
+    external_id = NULL,
+    provider_status = NULL,
+    error_message = NULL,
+    metadata = '{}'
+  FROM campaigns c, members m
+  WHERE c.id = cm.campaign_id
+    AND m.id = cm.member_id
+    AND c.status IN ('sent', 'failed', 'cancelled')
+    AND cm.recipient_address <> '[redacted]'
+    AND COALESCE(cm.failed_at, cm.sent_at, cm.queued_at) < v_cutoff
+    AND NOT c.legal_hold
+    AND NOT m.legal_hold;
+  GET DIAGNOSTICS v_messages_anonymized = ROW_COUNT;
+
+  SELECT COUNT(*) INTO v_messages_held
+  FROM campaign_messages cm
+  JOIN campaigns c ON c.id = cm.campaign_id
+  JOIN members m ON m.id = cm.member_id
+  WHERE c.status IN ('sent', 'failed', 'cancelled')
+    AND cm.recipient_address <> '[redacted]'
+    AND COALESCE(cm.failed_at, cm.sent_at, cm.queued_at) < v_cutoff
+    AND (c.legal_hold OR m.legal_hold);
+
+  -- Conversation messages (inbound SMS and replies)
+  DELETE FROM sms_conversation_messages s
+  WHERE s.created_at < v_cutoff
+    AND NOT EXISTS (
+      SELECT 1 FROM members m WHERE m.id = s.member_id AND m.legal_hold
+    );
+  GET DIAGNOSTICS v_conversations_deleted = ROW_COUNT;
+
+  SELECT COUNT(*) INTO v_conversations_held
+  FROM sms_conversation_messages s
+  JOIN members m ON m.id = s.member_id
+  WHERE s.created_at < v_cutoff AND m.legal_hold;
+
+  -- Sync logs (running syncs are closed by run-syncs first)
+  DELETE FROM sync_logs
+  WHERE started_at < v_cutoff AND status <> 'running';
+  GET DIAGNOSTICS v_sync_logs_deleted = ROW_COUNT;
+
+  -- Import rollback snapshots (previous member values) of finished imports
+  WITH expired AS (
+    UPDATE member_imports SET changes_purged_at = NOW()
+    WHERE status IN ('completed', 'failed')
+      AND completed_at < v_cutoff
+      AND changes_purged_at IS NULL
+    RETURNING import_id
+  )
+  DELETE FROM member_import_changes mic
+  USING expired
+  WHERE mic.import_id = expired.import_id
+    AND NOT EXISTS (
+      SELECT 1 FROM members m WHERE m.id = mic.member_id AND m.legal_hold
+    );
+  GET DIAGNOSTICS v_import_changes_deleted = ROW_COUNT;
+
+  SELECT COUNT(*) INTO v_import_changes_held
+  FROM member_import_changes mic
+  JOIN member_imports mi ON mi.import_id = mic.import_id
+  JOIN members m ON m.id = mic.member_id
+  WHERE mi.changes_purged_at IS NOT NULL AND m.legal_hold;
+
+  v_audit_logs_deleted := cleanup_old_audit_logs(v_audit_days);
+
+  RETURN jsonb_build_object(
+    'data_retention_days', v_data_days,
+    'audit_retention_days', v_audit_days,
+    'removed', jsonb_build_object(
+      'campaign_messages_anonymized', v_messages_anonymized,
+      'conversation_messages_deleted', v_conversations_deleted,
+      'sync_logs_deleted', v_sync_logs_deleted,
+      'import_changes_deleted', v_import_changes_deleted,
+      'audit_logs_deleted', v_audit_logs_deleted
+    ),
+    'held', jsonb_build_object(
+      'campaign_messages', v_messages_held,
+      'conversation_messages', v_conversations_held,
+      'import_changes', v_import_changes_held
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Retention only runs from run-retention (service role)
+REVOKE EXECUTE ON FUNCTION cleanup_old_audit_logs(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_data_retention() FROM PUBLIC, anon, authenticated;
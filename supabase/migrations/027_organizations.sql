@@ -0,0 +1,1900 @@
+-- Organizations Migration
+-- Data is owned by an organization instead of the user who created it, so
+-- teammates share sites, members, campaigns, templates, promo codes,
+-- automations, data sources and imports. A profile belongs to one
+-- organization; its role applies within it (ROLE_HIERARCHY): viewers can
+-- read the organization's data, users and admins can also change it. The
+-- user_id columns remain as the creator and are cleared, not cascaded, when
+-- that account is deleted.
+--
+-- Existing installs get one organization (named after app_settings.company_name)
+-- that every profile joins, and existing rows move into their creator's
+-- organization. New users only join an organization through an invite (or an
+-- admin assigning one); self sign-ups have none and see no data. Site codes, template names and promo codes that are now
+-- duplicated within an organization get a numeric suffix on the newer rows.
+
+-- =============================================================================
+-- Organizations Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TRIGGER trigger_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The organization existing profiles and the first user join
+INSERT INTO organizations (name)
+SELECT COALESCE((SELECT company_name FROM app_settings ORDER BY created_at LIMIT 1), 'Company')
+WHERE NOT EXISTS (SELECT 1 FROM organizations);
+
+-- =============================================================================
+-- Profile Membership
+-- =============================================================================
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_organization ON profiles(organization_id);
+
+UPDATE profiles
+SET organization_id = (SELECT id FROM organizations ORDER BY created_at LIMIT 1)
+WHERE organization_id IS NULL;
+
+-- =============================================================================
+-- Helper Functions
+-- =============================================================================
+
+-- Function: Current user's organization (bypasses RLS); NULL when deactivated
+CREATE OR REPLACE FUNCTION get_my_organization_id()
+RETURNS UUID AS $$
+  SELECT organization_id FROM profiles
+  WHERE id = auth.uid() AND is_active IS NOT FALSE;
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+-- Function: Check the current user belongs to the organization with at
+-- least the given role (admin > user > viewer)
+CREATE OR REPLACE FUNCTION is_org_member(
+  p_organization_id UUID,
+  p_min_role TEXT DEFAULT 'viewer'
+)
+RETURNS BOOLEAN AS $$
+  SELECT p_organization_id IS NOT NULL
+    AND p_organization_id = get_my_organization_id()
+    AND has_role(p_min_role);
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+-- =============================================================================
+-- Organizations & Profiles Row Level Security
+-- =============================================================================
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read own organization"
+  ON organizations FOR SELECT
+  USING (id = get_my_organization_id());
+
+-- Admins manage their own organization; organizations are created by the
+-- service role
+CREATE POLICY "Admins can manage own organization"
+  ON organizations FOR ALL
+  USING (is_org_member(id, 'admin'));
+
+-- Teammates see each other (e.g. who created a campaign)
+CREATE POLICY "Members can read organization profiles"
+  ON profiles FOR SELECT
+  USING (organization_id = get_my_organization_id());
+
+-- Users can update their own profile, but not their role or organization
+DROP POLICY IF EXISTS "Users can update own profile" ON profiles;
+
+CREATE POLICY "Users can update own profile"
+  ON profiles FOR UPDATE
+  USING (auth.uid() = id)
+  WITH CHECK (
+    auth.uid() = id
+    AND role = get_my_role()
+    AND organization_id IS NOT DISTINCT FROM get_my_organization_id()
+  );
+
+-- =============================================================================
+-- New Users
+-- =============================================================================
+
+-- Function: Create the profile of a new user
+-- Replaces the 008 version. Role and organization come from app metadata,
+-- which only the service role can set (admin invites); user metadata is
+-- chosen by whoever signs up. The first user becomes the admin of the first
+-- organization; other users without an invite get no organization until an
+-- admin assigns one.
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_role TEXT;
+  v_display_name TEXT;
+  v_profile_count INTEGER;
+  v_organization_id UUID;
+BEGIN
+  -- Determine role: first user becomes admin, others become viewer
+  SELECT COUNT(*) INTO v_profile_count FROM profiles;
+
+  IF v_profile_count = 0 THEN
+    v_role := 'admin';
+    SELECT id INTO v_organization_id FROM organizations ORDER BY created_at LIMIT 1;
+  ELSE
+    v_role := CASE
+      WHEN NEW.raw_app_meta_data->>'role' IN ('admin', 'user', 'viewer')
+        THEN NEW.raw_app_meta_data->>'role'
+      ELSE 'viewer'
+    END;
+
+    -- Join the inviting organization, if any
+    SELECT id INTO v_organization_id
+    FROM organizations
+    WHERE id::TEXT = NEW.raw_app_meta_data->>'organization_id';
+  END IF;
+
+  -- Get display name from metadata or generate from email
+  v_display_name := COALESCE(
+    NEW.raw_user_meta_data->>'display_name',
+    split_part(NEW.email, '@', 1)
+  );
+
+  INSERT INTO public.profiles (id, email, role, display_name, organization_id)
+  VALUES (NEW.id, NEW.email, v_role, v_display_name, v_organization_id);
+
+  -- Log the new user creation
+  PERFORM log_audit_event(
+    'USER_CREATED',
+    NEW.email,
+    NULL,
+    jsonb_build_object(
+      'user_id', NEW.id,
+      'role', v_role,
+      'display_name', v_display_name,
+      'organization_id', v_organization_id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Audit profile changes
+-- Replaces the 008 version to also log organization changes.
+CREATE OR REPLACE FUNCTION log_profile_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- Log role changes
+    IF OLD.role != NEW.role THEN
+      PERFORM log_audit_event(
+        'ROLE_CHANGED',
+        NEW.email,
+        NULL,
+        jsonb_build_object(
+          'user_id', NEW.id,
+          'old_role', OLD.role,
+          'new_role', NEW.role
+        )
+      );
+    END IF;
+
+    -- Log organization changes
+    IF OLD.organization_id IS DISTINCT FROM NEW.organization_id THEN
+      PERFORM log_audit_event(
+        'ORGANIZATION_CHANGED',
+        NEW.email,
+        NULL,
+        jsonb_build_object(
+          'user_id', NEW.id,
+          'old_organization_id', OLD.organization_id,
+          'new_organization_id', NEW.organization_id
+        )
+      );
+    END IF;
+
+    -- Log activation/deactivation
+    IF OLD.is_active != NEW.is_active THEN
+      PERFORM log_audit_event(
+        CASE WHEN NEW.is_active THEN 'USER_ACTIVATED' ELSE 'USER_DEACTIVATED' END,
+        NEW.email,
+        NULL,
+        jsonb_build_object('user_id', NEW.id)
+      );
+    END IF;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- Data Ownership
+-- =============================================================================
+
+-- Function: Fill organization_id on insert from the creator's organization;
+-- rows inserted by a user without user_id (campaigns, templates) are theirs
+CREATE OR REPLACE FUNCTION set_organization_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS NULL AND auth.uid() IS NOT NULL THEN
+    NEW.user_id := auth.uid();
+  END IF;
+
+  IF NEW.organization_id IS NULL AND NEW.user_id IS NOT NULL THEN
+    SELECT organization_id INTO NEW.organization_id
+    FROM profiles
+    WHERE id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move each table to organization ownership. Conversation messages from
+-- unknown numbers have no organization.
+DO $$
+DECLARE
+  v_table TEXT;
+  v_default_organization_id UUID := (SELECT id FROM organizations ORDER BY created_at LIMIT 1);
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'sites',
+    'members',
+    'campaign_templates',
+    'campaigns',
+    'promo_codes',
+    'automation_triggers',
+    'data_sources',
+    'member_imports',
+    'sms_conversation_messages'
+  ] LOOP
+    EXECUTE format(
+      'ALTER TABLE %I ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id)',
+      v_table
+    );
+
+    -- Existing rows move into their creator's organization
+    EXECUTE format(
+      'UPDATE %I t SET organization_id = p.organization_id
+       FROM profiles p
+       WHERE p.id = t.user_id AND t.organization_id IS NULL',
+      v_table
+    );
+
+    IF v_table <> 'sms_conversation_messages' THEN
+      -- Creators without a profile
+      EXECUTE format('UPDATE %I SET organization_id = $1 WHERE organization_id IS NULL', v_table)
+        USING v_default_organization_id;
+      EXECUTE format('ALTER TABLE %I ALTER COLUMN organization_id SET NOT NULL', v_table);
+    END IF;
+
+    EXECUTE format(
+      'CREATE INDEX IF NOT EXISTS %I ON %I(organization_id)',
+      'idx_' || v_table || '_organization',
+      v_table
+    );
+
+    -- The creator's rows stay with the organization when they are deleted
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN user_id DROP NOT NULL', v_table);
+    EXECUTE format('ALTER TABLE %I DROP CONSTRAINT IF EXISTS %I', v_table, v_table || '_user_id_fkey');
+    EXECUTE format(
+      'ALTER TABLE %I ADD CONSTRAINT %I FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL',
+      v_table,
+      v_table || '_user_id_fkey'
+    );
+
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', 'trigger_' || v_table || '_organization', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER %I BEFORE INSERT ON %I FOR EACH ROW EXECUTE FUNCTION set_organization_id()',
+      'trigger_' || v_table || '_organization',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- =============================================================================
+-- Unique Per Organization
+-- =============================================================================
+
+-- Site codes
+ALTER TABLE sites DROP CONSTRAINT IF EXISTS sites_code_unique;
+
+UPDATE sites s SET code = LEFT(s.code, 45) || '-' || d.n
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY organization_id, code ORDER BY created_at, id) AS n
+  FROM sites
+) d
+WHERE d.id = s.id AND d.n > 1;
+
+ALTER TABLE sites ADD CONSTRAINT sites_code_unique UNIQUE(organization_id, code);
+
+-- Template names
+ALTER TABLE campaign_templates DROP CONSTRAINT IF EXISTS campaign_templates_user_name_unique;
+
+UPDATE campaign_templates t SET name = LEFT(t.name, 245) || ' (' || d.n || ')'
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY organization_id, name ORDER BY created_at, id) AS n
+  FROM campaign_templates
+) d
+WHERE d.id = t.id AND d.n > 1;
+
+ALTER TABLE campaign_templates
+  ADD CONSTRAINT campaign_templates_org_name_unique UNIQUE(organization_id, name);
+
+-- Promo codes
+ALTER TABLE promo_codes DROP CONSTRAINT IF EXISTS promo_codes_user_code_unique;
+
+UPDATE promo_codes pc SET code = LEFT(pc.code, 45) || '-' || d.n
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY organization_id, code ORDER BY created_at, id) AS n
+  FROM promo_codes
+) d
+WHERE d.id = pc.id AND d.n > 1;
+
+ALTER TABLE promo_codes ADD CONSTRAINT promo_codes_org_code_unique UNIQUE(organization_id, code);
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+-- Replace the per-user policies: every organization member can read,
+-- users and admins can also write.
+
+-- Sites
+DROP POLICY IF EXISTS "Users can manage own sites" ON sites;
+
+CREATE POLICY "Organization members can view sites"
+  ON sites FOR SELECT
+  USING (is_org_member(organization_id));
+
+CREATE POLICY "Organization users can manage sites"
+  ON sites FOR ALL
+  USING (is_org_member(organization_id, 'user'));
+
+-- Membership levels (via site)
+DROP POLICY IF EXISTS "Users can manage membership levels for own sites" ON membership_levels;
+
+CREATE POLICY "Organization members can view membership levels"
+  ON membership_levels FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM sites
+      WHERE sites.id = membership_levels.site_id
+      AND is_org_member(sites.organization_id)
+    )
+  );
+
+CREATE POLICY "Organization users can manage membership levels"
+  ON membership_levels FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM sites
+      WHERE sites.id = membership_levels.site_id
+      AND is_org_member(sites.organization_id, 'user')
+    )
+  );
+
+-- Members
+DROP POLICY IF EXISTS "Users can manage own members" ON members;
+
+CREATE POLICY "Organization members can view members"
+  ON members FOR SELECT
+  USING (is_org_member(organization_id));
+
+CREATE POLICY "Organization users can manage members"
+  ON members FOR ALL
+  USING (is_org_member(organization_id, 'user'));
+
+-- Member transactions, visits and consent (via member)
+DROP POLICY IF EXISTS "Users can manage transactions for own members" ON member_transactions;
+
+CREATE POLICY "Organization members can view transactions"
+  ON member_transactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = member_transactions.member_id
+      AND is_org_member(members.organization_id)
+    )
+  );
+
+CREATE POLICY "Organization users can manage transactions"
+  ON member_transactions FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = member_transactions.member_id
+      AND is_org_member(members.organization_id, 'user')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can manage visits for own members" ON member_visits;
+
+CREATE POLICY "Organization members can view visits"
+  ON member_visits FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = member_visits.member_id
+      AND is_org_member(members.organization_id)
+    )
+  );
+
+CREATE POLICY "Organization users can manage visits"
+  ON member_visits FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = member_visits.member_id
+      AND is_org_member(members.organization_id, 'user')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can manage consent for own members" ON member_consent;
+
+CREATE POLICY "Organization members can view consent"
+  ON member_consent FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = member_consent.member_id
+      AND is_org_member(members.organization_id)
+    )
+  );
+
+CREATE POLICY "Organization users can manage consent"
+  ON member_consent FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = member_consent.member_id
+      AND is_org_member(members.organization_id, 'user')
+    )
+  );
+
+-- Promo codes
+DROP POLICY IF EXISTS "Users can manage own promo codes" ON promo_codes;
+
+CREATE POLICY "Organization members can view promo codes"
+  ON promo_codes FOR SELECT
+  USING (is_org_member(organization_id));
+
+CREATE POLICY "Organization users can manage promo codes"
+  ON promo_codes FOR ALL
+  USING (is_org_member(organization_id, 'user'));
+
+-- Automations, their executions and events
+DROP POLICY IF EXISTS "Users can manage own automation triggers" ON automation_triggers;
+
+CREATE POLICY "Organization members can view automation triggers"
+  ON automation_triggers FOR SELECT
+  USING (is_org_member(organization_id));
+
+CREATE POLICY "Organization users can manage automation triggers"
+  ON automation_triggers FOR ALL
+  USING (is_org_member(organization_id, 'user'));
+
+DROP POLICY IF EXISTS "Users can view executions for own triggers" ON automation_executions;
+
+CREATE POLICY "Organization members can view executions"
+  ON automation_executions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM automation_triggers
+      WHERE automation_triggers.id = automation_executions.trigger_id
+      AND is_org_member(automation_triggers.organization_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view events for own triggers" ON automation_events;
+
+CREATE POLICY "Organization members can view automation events"
+  ON automation_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM automation_triggers
+      WHERE automation_triggers.id = automation_events.trigger_id
+      AND is_org_member(automation_triggers.organization_id)
+    )
+  );
+
+-- Templates
+DROP POLICY IF EXISTS "Users can manage own templates" ON campaign_templates;
+
+CREATE POLICY "Organization members can view templates"
+  ON campaign_templates FOR SELECT
+  USING (is_org_member(organization_id));
+
+CREATE POLICY "Organization users can manage templates"
+  ON campaign_templates FOR ALL
+  USING (is_org_member(organization_id, 'user'));
+
+-- Campaigns, their messages and variants
+DROP POLICY IF EXISTS "Users can manage own campaigns" ON campaigns;
+
+CREATE POLICY "Organization members can view campaigns"
+  ON campaigns FOR SELECT
+  USING (is_org_member(organization_id));
+
+CREATE POLICY "Organization users can manage campaigns"
+  ON campaigns FOR ALL
+  USING (is_org_member(organization_id, 'user'));
+
+DROP POLICY IF EXISTS "Users can view messages for own campaigns" ON campaign_messages;
+DROP POLICY IF EXISTS "Users can insert messages for own campaigns" ON campaign_messages;
+DROP POLICY IF EXISTS "Users can update messages for own campaigns" ON campaign_messages;
+
+CREATE POLICY "Organization members can view campaign messages"
+  ON campaign_messages FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM campaigns
+      WHERE campaigns.id = campaign_messages.campaign_id
+      AND is_org_member(campaigns.organization_id)
+    )
+  );
+
+CREATE POLICY "Organization users can insert campaign messages"
+  ON campaign_messages FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM campaigns
+      WHERE campaigns.id = campaign_messages.campaign_id
+      AND is_org_member(campaigns.organization_id, 'user')
+    )
+  );
+
+CREATE POLICY "Organization users can update campaign messages"
+  ON campaign_messages FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM campaigns
+      WHERE campaigns.id = campaign_messages.campaign_id
+      AND is_org_member(campaigns.organization_id, 'user')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can manage variants for own campaigns" ON campaign_variants;
+
+CREATE POLICY "Organization members can view variants"
+  ON campaign_variants FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM campaigns
+      WHERE campaigns.id = campaign_variants.campaign_id
+      AND is_org_member(campaigns.organization_id)
+    )
+  );
+
+CREATE POLICY "Organization users can manage variants"
+  ON campaign_variants FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM campaigns
+      WHERE campaigns.id = campaign_variants.campaign_id
+      AND is_org_member(campaigns.organization_id, 'user')
+    )
+  );
+
+-- SMS conversations
+DROP POLICY IF EXISTS "Users can manage conversations for own members" ON sms_conversation_messages;
+DROP POLICY IF EXISTS "Admins can view unmatched conversations" ON sms_conversation_messages;
+DROP POLICY IF EXISTS "Admins can update unmatched conversations" ON sms_conversation_messages;
+
+CREATE POLICY "Organization members can view conversations"
+  ON sms_conversation_messages FOR SELECT
+  USING (is_org_member(organization_id));
+
+CREATE POLICY "Organization users can manage conversations"
+  ON sms_conversation_messages FOR ALL
+  USING (is_org_member(organization_id, 'user'));
+
+-- Messages from unknown numbers are visible to admins so they can be triaged
+CREATE POLICY "Admins can view unmatched conversations"
+  ON sms_conversation_messages FOR SELECT
+  USING (organization_id IS NULL AND is_admin());
+
+CREATE POLICY "Admins can update unmatched conversations"
+  ON sms_conversation_messages FOR UPDATE
+  USING (organization_id IS NULL AND is_admin());
+
+-- Data sources and their sync logs
+DROP POLICY IF EXISTS "Users can manage own data sources" ON data_sources;
+
+CREATE POLICY "Organization members can view data sources"
+  ON data_sources FOR SELECT
+  USING (is_org_member(organization_id));
+
+CREATE POLICY "Organization users can manage data sources"
+  ON data_sources FOR ALL
+  USING (is_org_member(organization_id, 'user'));
+
+DROP POLICY IF EXISTS "Users can view sync logs for own data sources" ON sync_logs;
+DROP POLICY IF EXISTS "Users can record sync logs for own data sources" ON sync_logs;
+DROP POLICY IF EXISTS "Users can close sync logs for own data sources" ON sync_logs;
+
+CREATE POLICY "Organization members can view sync logs"
+  ON sync_logs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM data_sources
+      WHERE data_sources.id = sync_logs.data_source_id
+      AND is_org_member(data_sources.organization_id)
+    )
+  );
+
+CREATE POLICY "Organization users can record sync logs"
+  ON sync_logs FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM data_sources
+      WHERE data_sources.id = sync_logs.data_source_id
+      AND is_org_member(data_sources.organization_id, 'user')
+    )
+  );
+
+CREATE POLICY "Organization users can close sync logs"
+  ON sync_logs FOR UPDATE
+  USING (
+    status = 'running'
+    AND EXISTS (
+      SELECT 1 FROM data_sources
+      WHERE data_sources.id = sync_logs.data_source_id
+      AND is_org_member(data_sources.organization_id, 'user')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM data_sources
+      WHERE data_sources.id = sync_logs.data_source_id
+      AND is_org_member(data_sources.organization_id, 'user')
+    )
+  );
+
+-- Member imports and their change history
+DROP POLICY IF EXISTS "Users can view own imports" ON member_imports;
+
+-- Read only: runs are written by start_member_import, finish_member_import
+-- and rollback_member_import
+CREATE POLICY "Organization members can view imports"
+  ON member_imports FOR SELECT
+  USING (is_org_member(organization_id));
+
+DROP POLICY IF EXISTS "Users can view changes for own imports" ON member_import_changes;
+
+CREATE POLICY "Organization members can view import changes"
+  ON member_import_changes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM member_imports
+      WHERE member_imports.import_id = member_import_changes.import_id
+      AND is_org_member(member_imports.organization_id)
+    )
+  );
+
+-- =============================================================================
+-- Organization-Scoped Functions
+-- =============================================================================
+
+-- The functions below replace earlier versions that matched rows on
+-- user_id; they now match on the organization.
+
+-- Function: Search the current user's organization's members
+-- Replaces the 004 version, which took the user id as a parameter.
+DROP FUNCTION IF EXISTS search_members(UUID, UUID, TEXT, TEXT, UUID, TEXT[], INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_members(
+  p_site_id UUID DEFAULT NULL,
+  p_search_term TEXT DEFAULT NULL,
+  p_membership_status TEXT DEFAULT NULL,
+  p_membership_level_id UUID DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  first_name VARCHAR(100),
+  last_name VARCHAR(100),
+  email VARCHAR(255),
+  phone VARCHAR(20),
+  membership_status VARCHAR(20),
+  membership_level_name VARCHAR(100),
+  lifetime_value NUMERIC(12, 2),
+  total_visits INTEGER,
+  last_visit_at TIMESTAMPTZ,
+  site_name VARCHAR(255),
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.first_name,
+    m.last_name,
+    m.email,
+    m.phone,
+    m.membership_status,
+    ml.name AS membership_level_name,
+    m.lifetime_value,
+    m.total_visits,
+    m.last_visit_at,
+    s.name AS site_name,
+    m.created_at
+  FROM members m
+  LEFT JOIN membership_levels ml ON m.membership_level_id = ml.id
+  LEFT JOIN sites s ON m.site_id = s.id
+  WHERE m.organization_id = get_my_organization_id()
+    AND m.is_active = TRUE
+    AND (p_site_id IS NULL OR m.site_id = p_site_id)
+    AND (p_membership_status IS NULL OR m.membership_status = p_membership_status)
+    AND (p_membership_level_id IS NULL OR m.membership_level_id = p_membership_level_id)
+    AND (p_tags IS NULL OR m.tags && p_tags)
+    AND (
+      p_search_term IS NULL
+      OR m.first_name ILIKE '%' || p_search_term || '%'
+      OR m.last_name ILIKE '%' || p_search_term || '%'
+      OR m.email ILIKE '%' || p_search_term || '%'
+      OR m.phone ILIKE '%' || p_search_term || '%'
+    )
+  ORDER BY m.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Validate and look up a promo code
+-- Replaces the 006 version, which took the user id as a parameter.
+DROP FUNCTION IF EXISTS validate_promo_code(VARCHAR, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION validate_promo_code(
+  p_code VARCHAR,
+  p_site_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  is_valid BOOLEAN,
+  promo_code_id UUID,
+  acquisition_cost NUMERIC(10, 2),
+  campaign_id UUID,
+  message TEXT
+) AS $$
+DECLARE
+  v_promo RECORD;
+BEGIN
+  -- Find the promo code
+  SELECT * INTO v_promo
+  FROM promo_codes
+  WHERE organization_id = get_my_organization_id()
+    AND UPPER(code) = UPPER(p_code)
+    AND (site_id IS NULL OR site_id = p_site_id);
+
+  IF v_promo IS NULL THEN
+    RETURN QUERY SELECT FALSE, NULL::UUID, NULL::NUMERIC, NULL::UUID, 'Invalid promo code'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Check if active
+  IF NOT v_promo.is_active THEN
+    RETURN QUERY SELECT FALSE, NULL::UUID, NULL::NUMERIC, NULL::UUID, 'Promo code is inactive'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Check date validity
+  IF v_promo.valid_from IS NOT NULL AND CURRENT_DATE < v_promo.valid_from THEN
+    RETURN QUERY SELECT FALSE, NULL::UUID, NULL::NUMERIC, NULL::UUID, 'Promo code not yet valid'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_promo.valid_until IS NOT NULL AND CURRENT_DATE > v_promo.valid_until THEN
+    RETURN QUERY SELECT FALSE, NULL::UUID, NULL::NUMERIC, NULL::UUID, 'Promo code expired'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Check usage limit
+  IF v_promo.max_uses IS NOT NULL AND v_promo.current_uses >= v_promo.max_uses THEN
+    RETURN QUERY SELECT FALSE, NULL::UUID, NULL::NUMERIC, NULL::UUID, 'Promo code usage limit reached'::TEXT;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT TRUE, v_promo.id, v_promo.acquisition_cost, v_promo.campaign_id, 'Valid'::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Redeem a promo code for a member (see 019)
+CREATE OR REPLACE FUNCTION redeem_promo_code(
+  p_code VARCHAR,
+  p_member_id UUID,
+  p_transaction_id UUID DEFAULT NULL,
+  p_attribute_acquisition BOOLEAN DEFAULT TRUE
+)
+RETURNS TABLE (
+  is_valid BOOLEAN,
+  promo_code_id UUID,
+  acquisition_cost NUMERIC(10, 2),
+  campaign_id UUID,
+  message TEXT
+) AS $$
+DECLARE
+  v_member RECORD;
+  v_promo RECORD;
+  v_result RECORD;
+BEGIN
+  SELECT id, organization_id, site_id, acquisition_promo_code INTO v_member
+  FROM members
+  WHERE id = p_member_id;
+
+  IF v_member IS NULL OR NOT is_org_member(v_member.organization_id, 'user') THEN
+    RETURN QUERY SELECT FALSE, NULL::UUID, NULL::NUMERIC, NULL::UUID, 'Member not found'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lock the code so concurrent redemptions see each other's uses
+  SELECT * INTO v_promo
+  FROM promo_codes pc
+  WHERE pc.organization_id = v_member.organization_id
+    AND UPPER(pc.code) = UPPER(p_code)
+    AND (pc.site_id IS NULL OR pc.site_id = v_member.site_id)
+  FOR UPDATE;
+
+  SELECT * INTO v_result
+  FROM validate_promo_code(p_code, v_member.site_id);
+
+  IF NOT v_result.is_valid THEN
+    RETURN QUERY SELECT v_result.is_valid, v_result.promo_code_id, v_result.acquisition_cost,
+      v_result.campaign_id, v_result.message;
+    RETURN;
+  END IF;
+
+  PERFORM use_promo_code(v_promo.id);
+
+  IF p_transaction_id IS NOT NULL THEN
+    UPDATE member_transactions mt SET
+      promo_code = v_promo.code,
+      campaign_id = COALESCE(mt.campaign_id, v_promo.campaign_id),
+      updated_at = NOW()
+    WHERE mt.id = p_transaction_id
+      AND mt.member_id = p_member_id;
+  END IF;
+
+  IF p_attribute_acquisition AND v_member.acquisition_promo_code IS NULL THEN
+    UPDATE members m SET
+      acquisition_source = 'promo_code',
+      acquisition_promo_code = v_promo.code,
+      acquisition_campaign_id = COALESCE(v_promo.campaign_id, m.acquisition_campaign_id),
+      acquisition_cost = COALESCE(v_promo.acquisition_cost, m.acquisition_cost)
+    WHERE m.id = p_member_id;
+  END IF;
+
+  PERFORM log_audit_event(
+    'PROMO_CODE_REDEEMED',
+    NULL,
+    NULL,
+    jsonb_build_object(
+      'promo_code_id', v_promo.id,
+      'code', v_promo.code,
+      'member_id', p_member_id,
+      'transaction_id', p_transaction_id
+    )
+  );
+
+  RETURN QUERY SELECT TRUE, v_promo.id, v_promo.acquisition_cost, v_promo.campaign_id, 'Redeemed'::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Generate unique single-use promo codes (see 019)
+CREATE OR REPLACE FUNCTION generate_promo_codes(
+  p_count INTEGER,
+  p_prefix VARCHAR DEFAULT '',
+  p_site_id UUID DEFAULT NULL,
+  p_campaign_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_acquisition_cost NUMERIC DEFAULT NULL,
+  p_valid_from DATE DEFAULT NULL,
+  p_valid_until DATE DEFAULT NULL
+)
+RETURNS SETOF promo_codes AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_organization_id UUID := get_my_organization_id();
+  v_prefix VARCHAR := UPPER(COALESCE(p_prefix, ''));
+  v_created INTEGER := 0;
+  v_attempts INTEGER := 0;
+  v_row promo_codes;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_org_member(v_organization_id, 'user') THEN
+    RAISE EXCEPTION 'Not allowed to create promo codes';
+  END IF;
+
+  IF p_count IS NULL OR p_count < 1 OR p_count > 10000 THEN
+    RAISE EXCEPTION 'Count must be between 1 and 10000';
+  END IF;
+
+  IF LENGTH(v_prefix) > 40 THEN
+    RAISE EXCEPTION 'Prefix must be at most 40 characters';
+  END IF;
+
+  WHILE v_created < p_count LOOP
+    v_attempts := v_attempts + 1;
+    IF v_attempts > p_count * 2 + 100 THEN
+      RAISE EXCEPTION 'Could not generate enough unique codes';
+    END IF;
+
+    INSERT INTO promo_codes (
+      user_id, organization_id, site_id, code, description, campaign_id, acquisition_cost,
+      valid_from, valid_until, max_uses
+    )
+    VALUES (
+      v_user_id,
+      v_organization_id,
+      p_site_id,
+      v_prefix || UPPER(SUBSTRING(REPLACE(gen_random_uuid()::TEXT, '-', '') FROM 1 FOR 8)),
+      p_description,
+      p_campaign_id,
+      p_acquisition_cost,
+      p_valid_from,
+      p_valid_until,
+      1
+    )
+    ON CONFLICT ON CONSTRAINT promo_codes_org_code_unique DO NOTHING
+    RETURNING * INTO v_row;
+
+    IF v_row.id IS NOT NULL THEN
+      v_created := v_created + 1;
+      RETURN NEXT v_row;
+      v_row := NULL;
+    END IF;
+  END LOOP;
+
+  PERFORM log_audit_event(
+    'PROMO_CODES_GENERATED',
+    NULL,
+    NULL,
+    jsonb_build_object('count', p_count, 'prefix', v_prefix, 'campaign_id', p_campaign_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Redemption report per promo code for the current organization (see 019)
+CREATE OR REPLACE FUNCTION get_promo_code_report(p_site_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  promo_code_id UUID,
+  code VARCHAR(50),
+  site_id UUID,
+  campaign_id UUID,
+  current_uses INTEGER,
+  max_uses INTEGER,
+  members_acquired BIGINT,
+  acquisition_cost_total NUMERIC,
+  transaction_count BIGINT,
+  transaction_revenue NUMERIC,
+  last_used_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pc.id,
+    pc.code,
+    pc.site_id,
+    pc.campaign_id,
+    COALESCE(pc.current_uses, 0),
+    pc.max_uses,
+    COALESCE(acq.members_acquired, 0),
+    COALESCE(acq.cost_total, 0),
+    COALESCE(tx.transaction_count, 0),
+    COALESCE(tx.revenue, 0),
+    tx.last_used_at
+  FROM promo_codes pc
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS members_acquired,
+      SUM(COALESCE(m.acquisition_cost, pc.acquisition_cost, 0)) AS cost_total
+    FROM members m
+    WHERE m.organization_id = pc.organization_id
+      AND UPPER(m.acquisition_promo_code) = UPPER(pc.code)
+  ) acq ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS transaction_count,
+      SUM(mt.amount) AS revenue,
+      MAX(mt.transaction_date) AS last_used_at
+    FROM member_transactions mt
+    INNER JOIN members m ON m.id = mt.member_id
+    WHERE m.organization_id = pc.organization_id
+      AND UPPER(mt.promo_code) = UPPER(pc.code)
+  ) tx ON TRUE
+  WHERE pc.organization_id = get_my_organization_id()
+    AND (p_site_id IS NULL OR pc.site_id = p_site_id OR pc.site_id IS NULL)
+  ORDER BY pc.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Summary of deferred messages for a campaign (see 015)
+CREATE OR REPLACE FUNCTION get_campaign_deferred_stats(p_campaign_id UUID)
+RETURNS TABLE (
+  deferred_reason VARCHAR,
+  message_count INTEGER,
+  next_send_at TIMESTAMPTZ,
+  last_send_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM campaigns WHERE id = p_campaign_id AND is_org_member(organization_id)
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.deferred_reason,
+    COUNT(*)::INTEGER,
+    MIN(d.send_at),
+    MAX(d.send_at)
+  FROM (
+    SELECT
+      cm.deferred_reason,
+      CASE
+        WHEN cm.deferred_reason = 'ab_holdout'
+          THEN get_ab_winner_due_at(c.id)
+        ELSE cm.next_attempt_at
+      END AS send_at
+    FROM campaign_messages cm
+    INNER JOIN campaigns c ON c.id = cm.campaign_id
+    WHERE cm.campaign_id = p_campaign_id
+      AND cm.status = 'queued'
+      AND cm.deferred_reason IS NOT NULL
+      AND cm.next_attempt_at > NOW()
+  ) d
+  GROUP BY d.deferred_reason;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function: Acquisition (CAC) summary for a campaign (see 019)
+CREATE OR REPLACE FUNCTION get_campaign_acquisition(p_campaign_id UUID)
+RETURNS TABLE (
+  members_acquired BIGINT,
+  total_acquisition_cost NUMERIC,
+  avg_cac NUMERIC,
+  promo_code_count BIGINT,
+  promo_code_uses BIGINT
+) AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  SELECT organization_id INTO v_organization_id FROM campaigns WHERE id = p_campaign_id;
+
+  IF NOT is_org_member(v_organization_id) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH codes AS (
+    SELECT UPPER(pc.code) AS code, pc.acquisition_cost, COALESCE(pc.current_uses, 0) AS uses
+    FROM promo_codes pc
+    WHERE pc.campaign_id = p_campaign_id
+  ),
+  acquired AS (
+    SELECT COALESCE(m.acquisition_cost, c.acquisition_cost, 0) AS cost
+    FROM members m
+    LEFT JOIN codes c ON c.code = UPPER(m.acquisition_promo_code)
+    WHERE m.organization_id = v_organization_id
+      AND (m.acquisition_campaign_id = p_campaign_id OR c.code IS NOT NULL)
+  )
+  SELECT
+    (SELECT COUNT(*) FROM acquired),
+    (SELECT COALESCE(SUM(cost), 0) FROM acquired),
+    (SELECT CASE WHEN COUNT(*) > 0 THEN ROUND(SUM(cost) / COUNT(*), 2) ELSE 0 END FROM acquired),
+    (SELECT COUNT(*) FROM codes),
+    (SELECT COALESCE(SUM(uses), 0)::BIGINT FROM codes);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Get eligible recipients for a campaign (see 007)
+CREATE OR REPLACE FUNCTION get_campaign_recipients(p_campaign_id UUID)
+RETURNS TABLE (
+  member_id UUID,
+  first_name VARCHAR(100),
+  last_name VARCHAR(100),
+  email VARCHAR(255),
+  phone VARCHAR(20),
+  site_id UUID,
+  site_timezone VARCHAR(50)
+) AS $$
+DECLARE
+  v_campaign RECORD;
+BEGIN
+  -- Get campaign details
+  SELECT * INTO v_campaign FROM campaigns WHERE id = p_campaign_id;
+
+  -- The service role (auth.uid() NULL) may read any campaign
+  IF v_campaign IS NULL
+    OR (auth.uid() IS NOT NULL AND NOT is_org_member(v_campaign.organization_id))
+  THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id AS member_id,
+    m.first_name,
+    m.last_name,
+    m.email,
+    m.phone,
+    m.site_id,
+    s.timezone AS site_timezone
+  FROM members m
+  INNER JOIN sites s ON m.site_id = s.id
+  LEFT JOIN member_consent mc ON m.id = mc.member_id
+  WHERE m.organization_id = v_campaign.organization_id
+    AND m.is_active = TRUE
+    -- Site filter
+    AND (v_campaign.site_id IS NULL OR m.site_id = v_campaign.site_id)
+    -- Targeting filters
+    AND (
+      v_campaign.target_all_members = TRUE
+      OR (
+        (v_campaign.membership_level_ids IS NULL
+          OR m.membership_level_id = ANY(v_campaign.membership_level_ids))
+        AND (v_campaign.membership_statuses IS NULL
+          OR m.membership_status = ANY(v_campaign.membership_statuses))
+        AND (v_campaign.required_tags IS NULL
+          OR m.tags @> v_campaign.required_tags)
+        AND (v_campaign.excluded_tags IS NULL
+          OR NOT (m.tags && v_campaign.excluded_tags))
+      )
+    )
+    -- Consent checks based on campaign type
+    AND (
+      -- SMS: Requires consent, no opt-out, not DNC
+      (v_campaign.campaign_type = 'sms'
+        AND m.phone IS NOT NULL
+        AND (mc.sms_consent = TRUE)
+        AND (mc.sms_opt_out_at IS NULL)
+        AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE))
+      OR
+      -- Email: Default consent is true, check unsubscribe, not DNC
+      (v_campaign.campaign_type = 'email'
+        AND m.email IS NOT NULL
+        AND (mc.email_consent = TRUE OR mc.email_consent IS NULL)
+        AND (mc.email_unsubscribed_at IS NULL)
+        AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE))
+    )
+    -- Exclude members already messaged in this campaign
+    AND NOT EXISTS (
+      SELECT 1 FROM campaign_messages cm
+      WHERE cm.campaign_id = p_campaign_id
+      AND cm.member_id = m.id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Count the members of the current organization a campaign with
+-- these settings would reach (see 024)
+CREATE OR REPLACE FUNCTION count_campaign_audience(
+  p_campaign_type VARCHAR,
+  p_site_id UUID DEFAULT NULL,
+  p_target_all_members BOOLEAN DEFAULT FALSE,
+  p_membership_statuses TEXT[] DEFAULT NULL,
+  p_membership_level_ids UUID[] DEFAULT NULL,
+  p_required_tags TEXT[] DEFAULT NULL,
+  p_excluded_tags TEXT[] DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM members m
+  INNER JOIN sites s ON m.site_id = s.id
+  LEFT JOIN member_consent mc ON m.id = mc.member_id
+  WHERE m.organization_id = get_my_organization_id()
+    AND m.is_active = TRUE
+    AND (p_site_id IS NULL OR m.site_id = p_site_id)
+    AND (
+      p_target_all_members = TRUE
+      OR (
+        (p_membership_level_ids IS NULL
+          OR m.membership_level_id = ANY(p_membership_level_ids))
+        AND (p_membership_statuses IS NULL
+          OR m.membership_status = ANY(p_membership_statuses))
+        AND (p_required_tags IS NULL
+          OR m.tags @> p_required_tags)
+        AND (p_excluded_tags IS NULL
+          OR NOT (m.tags && p_excluded_tags))
+      )
+    )
+    AND (
+      (p_campaign_type = 'sms'
+        AND m.phone IS NOT NULL
+        AND (mc.sms_consent = TRUE)
+        AND (mc.sms_opt_out_at IS NULL)
+        AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE))
+      OR
+      (p_campaign_type = 'email'
+        AND m.email IS NOT NULL
+        AND (mc.email_consent = TRUE OR mc.email_consent IS NULL)
+        AND (mc.email_unsubscribed_at IS NULL)
+        AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function: Get members eligible for a trigger (see 017)
+CREATE OR REPLACE FUNCTION get_trigger_eligible_members(p_trigger_id UUID)
+RETURNS TABLE (
+  member_id UUID,
+  first_name VARCHAR(100),
+  last_name VARCHAR(100),
+  email VARCHAR(255),
+  phone VARCHAR(20),
+  site_id UUID,
+  site_timezone VARCHAR(50)
+) AS $$
+DECLARE
+  v_trigger RECORD;
+BEGIN
+  -- Get trigger configuration
+  SELECT * INTO v_trigger
+  FROM automation_triggers
+  WHERE id = p_trigger_id;
+
+  -- The service role (auth.uid() NULL) may read any trigger
+  IF v_trigger IS NULL
+    OR (auth.uid() IS NOT NULL AND NOT is_org_member(v_trigger.organization_id))
+  THEN
+    RETURN;
+  END IF;
+
+  -- Return eligible members based on trigger type
+  RETURN QUERY
+  SELECT
+    m.id AS member_id,
+    m.first_name,
+    m.last_name,
+    m.email,
+    m.phone,
+    m.site_id,
+    s.timezone AS site_timezone
+  FROM members m
+  INNER JOIN sites s ON m.site_id = s.id
+  LEFT JOIN member_consent mc ON m.id = mc.member_id
+  WHERE m.organization_id = v_trigger.organization_id
+    AND m.is_active = TRUE
+    AND (v_trigger.site_id IS NULL OR m.site_id = v_trigger.site_id)
+    AND (v_trigger.membership_level_ids IS NULL OR m.membership_level_id = ANY(v_trigger.membership_level_ids))
+    AND (v_trigger.membership_statuses IS NULL OR m.membership_status = ANY(v_trigger.membership_statuses))
+    AND (v_trigger.required_tags IS NULL OR m.tags @> v_trigger.required_tags)
+    AND (v_trigger.excluded_tags IS NULL OR NOT (m.tags && v_trigger.excluded_tags))
+    -- Check consent based on action type
+    AND (
+      (v_trigger.action_type != 'send_sms' OR (mc.sms_consent = TRUE AND mc.sms_opt_out_at IS NULL))
+      AND (v_trigger.action_type != 'send_email' OR (mc.email_consent = TRUE AND mc.email_unsubscribed_at IS NULL))
+    )
+    -- Check do not contact
+    AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE)
+    -- Check min interval
+    AND (
+      v_trigger.min_interval_days = 0
+      OR NOT EXISTS (
+        SELECT 1 FROM automation_executions ae
+        WHERE ae.trigger_id = p_trigger_id
+          AND ae.member_id = m.id
+          AND ae.executed_at > NOW() - (v_trigger.min_interval_days || ' days')::INTERVAL
+      )
+    )
+    -- Check max sends
+    AND (
+      v_trigger.max_sends_per_member IS NULL
+      OR (
+        SELECT COUNT(*) FROM automation_executions ae
+        WHERE ae.trigger_id = p_trigger_id AND ae.member_id = m.id
+      ) < v_trigger.max_sends_per_member
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Enqueue automation events for a member change (see 018)
+CREATE OR REPLACE FUNCTION enqueue_member_automation_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_trigger RECORD;
+  v_config JSONB;
+BEGIN
+  IF NOT COALESCE(NEW.is_active, TRUE) THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_trigger IN
+    SELECT id, trigger_type, trigger_config
+    FROM automation_triggers
+    WHERE organization_id = NEW.organization_id
+      AND is_active = TRUE
+      AND (site_id IS NULL OR site_id = NEW.site_id)
+      AND trigger_type IN (
+        'new_member',
+        'member_status_change',
+        'tag_added',
+        'tag_removed',
+        'visit_milestone',
+        'ltv_milestone'
+      )
+  LOOP
+    v_config := COALESCE(v_trigger.trigger_config, '{}'::JSONB);
+
+    IF TG_OP = 'INSERT' THEN
+      IF v_trigger.trigger_type = 'new_member'
+        AND (NEW.source_import_id IS NULL OR COALESCE((v_config->>'includeImported')::BOOLEAN, FALSE))
+      THEN
+        INSERT INTO automation_events (trigger_id, member_id, event_type, process_after)
+        VALUES (
+          v_trigger.id,
+          NEW.id,
+          'new_member',
+          NOW() + make_interval(hours => COALESCE((v_config->>'delayHours')::INTEGER, 0))
+        );
+      END IF;
+
+      CONTINUE;
+    END IF;
+
+    CASE v_trigger.trigger_type
+      WHEN 'member_status_change' THEN
+        IF NEW.membership_status IS DISTINCT FROM OLD.membership_status
+          AND (v_config->>'toStatus' IS NULL OR v_config->>'toStatus' = NEW.membership_status)
+        THEN
+          INSERT INTO automation_events (trigger_id, member_id, event_type, event_data)
+          VALUES (
+            v_trigger.id,
+            NEW.id,
+            'member_status_change',
+            jsonb_build_object('fromStatus', OLD.membership_status, 'toStatus', NEW.membership_status)
+          );
+        END IF;
+
+      WHEN 'tag_added' THEN
+        IF v_config->>'tag' = ANY(COALESCE(NEW.tags, '{}'))
+          AND NOT v_config->>'tag' = ANY(COALESCE(OLD.tags, '{}'))
+        THEN
+          INSERT INTO automation_events (trigger_id, member_id, event_type, event_data)
+          VALUES (v_trigger.id, NEW.id, 'tag_added', jsonb_build_object('tag', v_config->>'tag'));
+        END IF;
+
+      WHEN 'tag_removed' THEN
+        IF v_config->>'tag' = ANY(COALESCE(OLD.tags, '{}'))
+          AND NOT v_config->>'tag' = ANY(COALESCE(NEW.tags, '{}'))
+        THEN
+          INSERT INTO automation_events (trigger_id, member_id, event_type, event_data)
+          VALUES (v_trigger.id, NEW.id, 'tag_removed', jsonb_build_object('tag', v_config->>'tag'));
+        END IF;
+
+      WHEN 'visit_milestone' THEN
+        INSERT INTO automation_events (trigger_id, member_id, event_type, event_data, event_key)
+        SELECT v_trigger.id, NEW.id, 'visit_milestone',
+          jsonb_build_object('threshold', t.threshold),
+          'visits:' || t.threshold
+        FROM jsonb_array_elements_text(COALESCE(v_config->'counts', '[]'::JSONB)) AS t(threshold)
+        WHERE t.threshold::NUMERIC > COALESCE(OLD.total_visits, 0)
+          AND t.threshold::NUMERIC <= COALESCE(NEW.total_visits, 0)
+        ON CONFLICT (trigger_id, member_id, event_key) WHERE event_key IS NOT NULL DO NOTHING;
+
+      WHEN 'ltv_milestone' THEN
+        INSERT INTO automation_events (trigger_id, member_id, event_type, event_data, event_key)
+        SELECT v_trigger.id, NEW.id, 'ltv_milestone',
+          jsonb_build_object('threshold', t.threshold),
+          'ltv:' || t.threshold
+        FROM jsonb_array_elements_text(COALESCE(v_config->'amounts', '[]'::JSONB)) AS t(threshold)
+        WHERE t.threshold::NUMERIC > COALESCE(OLD.lifetime_value, 0)
+          AND t.threshold::NUMERIC <= COALESCE(NEW.lifetime_value, 0)
+        ON CONFLICT (trigger_id, member_id, event_key) WHERE event_key IS NOT NULL DO NOTHING;
+
+      ELSE
+        NULL;
+    END CASE;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Claim due automation events for run-automations (see 018)
+-- p_organization_id limits a user's run to their organization's automations.
+DROP FUNCTION IF EXISTS claim_automation_events(INTEGER, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION claim_automation_events(
+  p_limit INTEGER DEFAULT 100,
+  p_organization_id UUID DEFAULT NULL,
+  p_trigger_id UUID DEFAULT NULL
+)
+RETURNS SETOF automation_events AS $$
+BEGIN
+  UPDATE automation_events e SET
+    status = 'skipped',
+    processed_at = NOW(),
+    result_message = 'Automation was paused'
+  FROM automation_triggers t
+  WHERE t.id = e.trigger_id
+    AND e.status = 'pending'
+    AND t.is_active = FALSE;
+
+  UPDATE automation_events SET
+    status = 'processed',
+    processed_at = NOW()
+  WHERE status = 'processing'
+    AND execution_id IS NOT NULL
+    AND claimed_at < NOW() - INTERVAL '15 minutes';
+
+  RETURN QUERY
+  UPDATE automation_events SET
+    status = 'processing',
+    claimed_at = NOW()
+  WHERE id IN (
+    SELECT e.id
+    FROM automation_events e
+    INNER JOIN automation_triggers t ON t.id = e.trigger_id
+    WHERE e.process_after <= NOW()
+      AND t.is_active = TRUE
+      AND (p_organization_id IS NULL OR t.organization_id = p_organization_id)
+      AND (p_trigger_id IS NULL OR e.trigger_id = p_trigger_id)
+      AND (
+        e.status = 'pending'
+        OR (e.status = 'processing' AND e.claimed_at < NOW() - INTERVAL '15 minutes')
+      )
+    ORDER BY e.process_after
+    LIMIT p_limit
+    FOR UPDATE OF e SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recreated, so revoked again: only run-automations (service role) claims events
+REVOKE EXECUTE ON FUNCTION claim_automation_events(INTEGER, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function: Store an inbound SMS, linking it to every member with that phone (see 011)
+CREATE OR REPLACE FUNCTION record_inbound_sms(
+  p_external_id VARCHAR,
+  p_from VARCHAR,
+  p_body TEXT,
+  p_mark_read BOOLEAN DEFAULT FALSE
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_digits TEXT := regexp_replace(p_from, '\D', '', 'g');
+  v_count INTEGER;
+BEGIN
+  -- Twilio retries webhooks; ignore a MessageSid that is already stored
+  IF EXISTS (
+    SELECT 1 FROM sms_conversation_messages
+    WHERE external_id = p_external_id AND direction = 'inbound'
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO sms_conversation_messages (
+    user_id, organization_id, member_id, direction, phone, body,
+    status, external_id, is_read, read_at
+  )
+  SELECT
+    m.user_id, m.organization_id, m.id, 'inbound', p_from, p_body,
+    'received', p_external_id, p_mark_read, CASE WHEN p_mark_read THEN NOW() END
+  FROM members m
+  WHERE m.phone = p_from
+    OR regexp_replace(m.phone, '\D', '', 'g') = v_digits
+    OR '1' || regexp_replace(m.phone, '\D', '', 'g') = v_digits;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count = 0 THEN
+    INSERT INTO sms_conversation_messages (
+      direction, phone, body,
+      status, external_id, is_read, read_at
+    ) VALUES (
+      'inbound', p_from, p_body,
+      'received', p_external_id, p_mark_read, CASE WHEN p_mark_read THEN NOW() END
+    );
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Import a batch of members into a site (see 021)
+CREATE OR REPLACE FUNCTION bulk_upsert_members(
+  p_site_id UUID,
+  p_rows JSONB,
+  p_match_fields TEXT[] DEFAULT ARRAY['email'],
+  p_duplicate_handling TEXT DEFAULT 'skip',
+  p_update_columns TEXT[] DEFAULT ARRAY[]::TEXT[],
+  p_merge_rules JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  row_index INTEGER,
+  action TEXT,
+  member_id UUID
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_match_email BOOLEAN := 'email' = ANY(p_match_fields);
+  v_match_phone BOOLEAN := 'phone' = ANY(p_match_fields);
+  v_match_external BOOLEAN := 'externalId' = ANY(p_match_fields);
+  v_updatable TEXT[] := ARRAY[
+    'membership_level_id', 'external_id', 'first_name', 'last_name', 'email', 'phone',
+    'date_of_birth', 'gender', 'address_line1', 'address_line2', 'city', 'state',
+    'postal_code', 'country', 'membership_start_date', 'membership_expiry_date',
+    'membership_status', 'acquisition_source', 'acquisition_campaign_id',
+    'acquisition_promo_code', 'acquisition_cost', 'acquisition_date', 'tags', 'custom_fields'
+  ];
+  v_column TEXT;
+  v_rule TEXT;
+  v_set TEXT[] := ARRAY['source_import_id = COALESCE(s.source_import_id, m.source_import_id)'];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM sites WHERE id = p_site_id AND is_org_member(organization_id, 'user')
+  ) THEN
+    RAISE EXCEPTION 'Site not found';
+  END IF;
+
+  IF p_duplicate_handling NOT IN ('skip', 'update', 'create_new') THEN
+    RAISE EXCEPTION 'Invalid duplicate handling: %', p_duplicate_handling;
+  END IF;
+
+  -- Stage the batch as typed member rows. status: NULL (pending),
+  -- 'new' / 'inserted', 'matched' / 'applying' / 'updated'
+  DROP TABLE IF EXISTS member_import_staging;
+  CREATE TEMP TABLE member_import_staging ON COMMIT DROP AS
+  SELECT
+    (elem->>'row_index')::INTEGER AS row_index,
+    NULL::UUID AS match_id,
+    NULL::TEXT AS status,
+    r.*
+  FROM jsonb_array_elements(p_rows) AS elem,
+    LATERAL jsonb_populate_record(NULL::members, elem) AS r;
+
+  UPDATE member_import_staging SET
+    email = LOWER(NULLIF(TRIM(email), '')),
+    phone = NULLIF(TRIM(phone), ''),
+    external_id = NULLIF(TRIM(external_id), '');
+
+  IF p_duplicate_handling <> 'create_new' AND cardinality(p_match_fields) > 0 THEN
+    LOOP
+      -- Match pending rows to active members (including ones inserted by
+      -- earlier passes of this loop)
+      UPDATE member_import_staging s SET
+        match_id = (
+          SELECT m.id FROM members m
+          WHERE m.site_id = p_site_id
+            AND m.is_active = TRUE
+            AND (
+              (v_match_email AND m.email = s.email)
+              OR (v_match_phone AND m.phone = s.phone)
+              OR (v_match_external AND m.external_id = s.external_id)
+            )
+          ORDER BY m.created_at
+          LIMIT 1
+        )
+      WHERE s.status IS NULL;
+
+      UPDATE member_import_staging SET status = 'matched'
+      WHERE status IS NULL AND match_id IS NOT NULL;
+
+      -- Unmatched rows create a member unless an earlier pending row shares
+      -- an identifier; those wait for the next pass
+      UPDATE member_import_staging s SET status = 'new'
+      WHERE s.status IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM member_import_staging p
+          WHERE p.status IS NULL
+            AND p.row_index < s.row_index
+            AND (
+              (v_match_email AND p.email = s.email)
+              OR (v_match_phone AND p.phone = s.phone)
+              OR (v_match_external AND p.external_id = s.external_id)
+            )
+        );
+
+      PERFORM insert_staged_members(p_site_id, v_user_id);
+
+      EXIT WHEN NOT EXISTS (SELECT 1 FROM member_import_staging WHERE status IS NULL);
+    END LOOP;
+  ELSE
+    UPDATE member_import_staging SET status = 'new';
+    PERFORM insert_staged_members(p_site_id, v_user_id);
+  END IF;
+
+  IF p_duplicate_handling = 'update' THEN
+    FOREACH v_column IN ARRAY p_update_columns LOOP
+      CONTINUE WHEN NOT v_column = ANY(v_updatable);
+      v_rule := COALESCE(p_merge_rules->>v_column, 'overwrite');
+
+      IF v_rule = 'keep_existing' THEN
+        CONTINUE;
+      ELSIF v_rule = 'union' AND v_column = 'tags' THEN
+        v_set := v_set ||
+          'tags = ARRAY(SELECT DISTINCT t FROM unnest(COALESCE(m.tags, ''{}'') || COALESCE(s.tags, ''{}'')) AS t)';
+      ELSIF v_rule = 'union' AND v_column = 'custom_fields' THEN
+        v_set := v_set ||
+          'custom_fields = COALESCE(m.custom_fields, ''{}'') || COALESCE(s.custom_fields, ''{}'')';
+      ELSIF v_rule = 'fill_blanks' AND v_column = 'tags' THEN
+        v_set := v_set ||
+          'tags = CASE WHEN COALESCE(cardinality(m.tags), 0) = 0 THEN s.tags ELSE m.tags END';
+      ELSIF v_rule = 'fill_blanks' THEN
+        v_set := v_set || format('%1$I = COALESCE(m.%1$I, s.%1$I)', v_column);
+      ELSE
+        v_set := v_set || format('%1$I = COALESCE(s.%1$I, m.%1$I)', v_column);
+      END IF;
+    END LOOP;
+
+    -- One row per member per pass so repeated rows apply in file order
+    LOOP
+      UPDATE member_import_staging SET status = 'applying'
+      WHERE row_index IN (
+        SELECT DISTINCT ON (match_id) row_index
+        FROM member_import_staging
+        WHERE status = 'matched'
+        ORDER BY match_id, row_index
+      );
+      EXIT WHEN NOT FOUND;
+
+      EXECUTE format(
+        'UPDATE members m SET %s, updated_at = NOW()
+         FROM member_import_staging s
+         WHERE s.status = ''applying'' AND m.id = s.match_id',
+        array_to_string(v_set, ', ')
+      );
+
+      UPDATE member_import_staging SET status = 'updated' WHERE status = 'applying';
+    END LOOP;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.row_index,
+    CASE s.status
+      WHEN 'inserted' THEN 'inserted'
+      WHEN 'updated' THEN 'updated'
+      ELSE 'skipped'
+    END,
+    COALESCE(s.match_id, s.id)
+  FROM member_import_staging s
+  ORDER BY s.row_index;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Register an import run in the current organization (see 022)
+CREATE OR REPLACE FUNCTION start_member_import(
+  p_import_id VARCHAR,
+  p_kind VARCHAR,
+  p_site_id UUID DEFAULT NULL,
+  p_data_source_id UUID DEFAULT NULL,
+  p_filename VARCHAR DEFAULT NULL,
+  p_total_rows INTEGER DEFAULT 0
+)
+RETURNS VOID AS $$
+DECLARE
+  v_organization_id UUID := get_my_organization_id();
+BEGIN
+  IF NOT is_org_member(v_organization_id, 'user') THEN
+    RAISE EXCEPTION 'Not allowed to import';
+  END IF;
+
+  IF p_site_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM sites WHERE id = p_site_id AND organization_id = v_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Site not found';
+  END IF;
+
+  IF p_data_source_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM data_sources
+    WHERE id = p_data_source_id AND organization_id = v_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Data source not found';
+  END IF;
+
+  INSERT INTO member_imports (
+    import_id, user_id, organization_id, site_id, data_source_id, kind, filename, status, total_rows
+  )
+  VALUES (
+    p_import_id, auth.uid(), v_organization_id, p_site_id, p_data_source_id, p_kind,
+    p_filename, 'running', p_total_rows
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Roll back an import run (see 022)
+CREATE OR REPLACE FUNCTION rollback_member_import(p_import_id VARCHAR)
+RETURNS JSONB AS $$
+DECLARE
+  v_run RECORD;
+  v_transactions INTEGER;
+  v_visits INTEGER;
+  v_restored INTEGER;
+  v_deleted INTEGER;
+  v_summary JSONB;
+BEGIN
+  SELECT * INTO v_run
+  FROM member_imports
+  WHERE import_id = p_import_id AND is_org_member(organization_id, 'user')
+  FOR UPDATE;
+
+  IF v_run IS NULL THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  IF v_run.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import has already been rolled back';
+  END IF;
+
+  -- A run still running after an hour was abandoned (e.g. its tab was
+  -- closed mid-import) and can be rolled back
+  IF v_run.status = 'running' AND v_run.started_at > NOW() - INTERVAL '1 hour' THEN
+    RAISE EXCEPTION 'Import is still running';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM member_import_changes c
+    JOIN member_import_changes later ON later.member_id = c.member_id
+    JOIN member_imports later_run ON later_run.import_id = later.import_id
+    WHERE c.import_id = p_import_id
+      AND later_run.import_id <> p_import_id
+      AND later_run.started_at > v_run.started_at
+      AND later_run.status <> 'rolled_back'
+  ) THEN
+    RAISE EXCEPTION 'Members in this import were changed by a later import; roll that import back first';
+  END IF;
+
+  -- Only rows of the run's organization (and site): the import id alone
+  -- does not prove the rows came from this run
+  DELETE FROM member_transactions t
+  USING members m
+  WHERE t.source_import_id = p_import_id
+    AND m.id = t.member_id
+    AND m.organization_id = v_run.organization_id
+    AND (v_run.site_id IS NULL OR t.site_id = v_run.site_id);
+  GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+  DELETE FROM member_visits v
+  USING members m
+  WHERE v.source_import_id = p_import_id
+    AND m.id = v.member_id
+    AND m.organization_id = v_run.organization_id
+    AND (v_run.site_id IS NULL OR v.site_id = v_run.site_id);
+  GET DIAGNOSTICS v_visits = ROW_COUNT;
+
+  -- Restore the importable columns from the snapshot taken before the run
+  UPDATE members m SET
+    membership_level_id = prev.membership_level_id,
+    external_id = prev.external_id,
+    first_name = prev.first_name,
+    last_name = prev.last_name,
+    email = prev.email,
+    phone = prev.phone,
+    date_of_birth = prev.date_of_birth,
+    gender = prev.gender,
+    address_line1 = prev.address_line1,
+    address_line2 = prev.address_line2,
+    city = prev.city,
+    state = prev.state,
+    postal_code = prev.postal_code,
+    country = prev.country,
+    membership_start_date = prev.membership_start_date,
+    membership_expiry_date = prev.membership_expiry_date,
+    membership_status = prev.membership_status,
+    acquisition_source = prev.acquisition_source,
+    acquisition_campaign_id = prev.acquisition_campaign_id,
+    acquisition_promo_code = prev.acquisition_promo_code,
+    acquisition_cost = prev.acquisition_cost,
+    acquisition_date = prev.acquisition_date,
+    tags = prev.tags,
+    custom_fields = prev.custom_fields,
+    source_import_id = prev.source_import_id,
+    updated_at = NOW()
+  FROM member_import_changes c,
+    LATERAL jsonb_populate_record(NULL::members, c.previous_values) AS prev
+  WHERE c.import_id = p_import_id
+    AND c.action = 'updated'
+    AND m.id = c.member_id
+    AND m.organization_id = v_run.organization_id
+    AND (v_run.site_id IS NULL OR m.site_id = v_run.site_id);
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  DELETE FROM members m
+  USING member_import_changes c
+  WHERE c.import_id = p_import_id
+    AND c.action = 'created'
+    AND m.id = c.member_id
+    AND m.organization_id = v_run.organization_id
+    AND (v_run.site_id IS NULL OR m.site_id = v_run.site_id);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  v_summary := jsonb_build_object(
+    'members_deleted', v_deleted,
+    'members_restored', v_restored,
+    'transactions_deleted', v_transactions,
+    'visits_deleted', v_visits
+  );
+
+  UPDATE member_imports SET
+    status = 'rolled_back',
+    rolled_back_at = NOW(),
+    rollback_summary = v_summary
+  WHERE id = v_run.id;
+
+  PERFORM log_audit_event(
+    'MEMBER_IMPORT_ROLLED_BACK',
+    NULL,
+    NULL,
+    jsonb_build_object(
+      'import_id', p_import_id,
+      'site_id', v_run.site_id,
+      'filename', v_run.filename
+    ) || v_summary
+  );
+
+  RETURN v_summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Place or release a legal hold on a member of the admin's
+-- organization (see 026)
+CREATE OR REPLACE FUNCTION set_member_legal_hold(p_member_id UUID, p_hold BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  SELECT organization_id INTO v_organization_id FROM members WHERE id = p_member_id;
+
+  IF v_organization_id IS NULL THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  IF NOT is_org_member(v_organization_id, 'admin') THEN
+    RAISE EXCEPTION 'Only admins can place or release a legal hold';
+  END IF;
+
+  UPDATE members SET legal_hold = p_hold WHERE id = p_member_id;
+
+  PERFORM log_audit_event(
+    CASE WHEN p_hold THEN 'LEGAL_HOLD_PLACED' ELSE 'LEGAL_HOLD_RELEASED' END,
+    auth.email(),
+    NULL,
+    jsonb_build_object('memberId', p_member_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Place or release a legal hold on a campaign of the admin's
+-- organization (see 026)
+CREATE OR REPLACE FUNCTION set_campaign_legal_hold(p_campaign_id UUID, p_hold BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  SELECT organization_id INTO v_organization_id FROM campaigns WHERE id = p_campaign_id;
+
+  IF v_organization_id IS NULL THEN
+    RAISE EXCEPTION 'Campaign not found';
+  END IF;
+
+  IF NOT is_org_member(v_organization_id, 'admin') THEN
+    RAISE EXCEPTION 'Only admins can place or release a legal hold';
+  END IF;
+
+  UPDATE campaigns SET legal_hold = p_hold WHERE id = p_campaign_id;
+
+  PERFORM log_audit_event(
+    CASE WHEN p_hold THEN 'LEGAL_HOLD_PLACED' ELSE 'LEGAL_HOLD_RELEASED' END,
+    auth.email(),
+    NULL,
+    jsonb_build_object('campaignId', p_campaign_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,1431 @@
+-- Site Grants Migration
+-- Limits users to parts of the sites hierarchy. A grant gives a user a role
+-- (user or viewer) on a site and every site below it, e.g. a regional
+-- manager on their region. Users without grants keep access to all of
+-- their organization's sites; admins are never limited. The role a grant
+-- gives never exceeds the user's own role.
+--
+-- Site-bound data (sites, membership levels, members and their history,
+-- promo codes, automations, campaigns, conversations and imports) is only
+-- visible inside the granted subtrees. Rows not tied to a site (e.g. a
+-- campaign to all sites) need organization-wide access.
+
+-- =============================================================================
+-- Site Grants Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS user_site_grants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL DEFAULT 'viewer',
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  CONSTRAINT user_site_grants_user_site_unique UNIQUE(user_id, site_id),
+  CONSTRAINT user_site_grants_role_check CHECK (role IN ('user', 'viewer'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_site_grants_site ON user_site_grants(site_id);
+
+ALTER TABLE user_site_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own site grants"
+  ON user_site_grants FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Only for users and sites of the admin's own organization
+CREATE POLICY "Admins can manage site grants"
+  ON user_site_grants FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM profiles p
+      INNER JOIN sites s ON s.id = user_site_grants.site_id
+      WHERE p.id = user_site_grants.user_id
+        AND s.organization_id = p.organization_id
+        AND is_org_member(p.organization_id, 'admin')
+    )
+  );
+
+-- =============================================================================
+-- Helper Functions
+-- =============================================================================
+
+-- Function: Check the current user may act on a site with at least the given
+-- role, through a grant on the site or one above it. Users without grants
+-- and admins may act on every site; a NULL site (organization-wide) needs
+-- that unrestricted access. The user's own role is checked separately
+-- (is_org_member).
+CREATE OR REPLACE FUNCTION has_site_access(p_site_id UUID, p_min_role TEXT DEFAULT 'viewer')
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN is_admin() THEN TRUE
+    WHEN NOT EXISTS (SELECT 1 FROM user_site_grants WHERE user_id = auth.uid()) THEN TRUE
+    WHEN p_site_id IS NULL THEN FALSE
+    ELSE EXISTS (
+      WITH RECURSIVE ancestors AS (
+        SELECT s.id, s.parent_site_id FROM sites s WHERE s.id = p_site_id
+
+        UNION
+
+        SELECT s.id, s.parent_site_id
+        FROM sites s
+        INNER JOIN ancestors a ON s.id = a.parent_site_id
+      )
+      SELECT 1
+      FROM user_site_grants g
+      INNER JOIN ancestors a ON a.id = g.site_id
+      WHERE g.user_id = auth.uid()
+        AND CASE p_min_role
+          WHEN 'viewer' THEN TRUE
+          WHEN 'user' THEN g.role = 'user'
+          ELSE FALSE
+        END
+    )
+  END;
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+-- Function: Check the current user may act on a site of an organization
+CREATE OR REPLACE FUNCTION can_access_site(
+  p_organization_id UUID,
+  p_site_id UUID,
+  p_min_role TEXT DEFAULT 'viewer'
+)
+RETURNS BOOLEAN AS $$
+  SELECT is_org_member(p_organization_id, p_min_role)
+    AND has_site_access(p_site_id, p_min_role);
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+-- Function: Replace a user's site grants (admins of the user's organization)
+-- p_grants: [{ "site_id": "...", "role": "user" | "viewer" }]; an empty
+-- array gives the user all of their organization's sites again.
+CREATE OR REPLACE FUNCTION set_user_site_grants(p_user_id UUID, p_grants JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change site grants';
+  END IF;
+
+  SELECT organization_id INTO v_organization_id FROM profiles WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF NOT is_org_member(v_organization_id, 'admin') THEN
+    RAISE EXCEPTION 'Only admins of the user''s organization can change their site grants';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(p_grants, '[]'::JSONB)) AS g
+    LEFT JOIN sites s ON s.id = (g->>'site_id')::UUID
+    WHERE s.id IS NULL OR s.organization_id IS DISTINCT FROM v_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Sites must belong to the user''s organization';
+  END IF;
+
+  DELETE FROM user_site_grants WHERE user_id = p_user_id;
+
+  INSERT INTO user_site_grants (user_id, site_id, role, granted_by)
+  SELECT DISTINCT ON ((g->>'site_id')::UUID)
+    p_user_id,
+    (g->>'site_id')::UUID,
+    COALESCE(g->>'role', 'viewer'),
+    auth.uid()
+  FROM jsonb_array_elements(COALESCE(p_grants, '[]'::JSONB)) AS g;
+
+  PERFORM log_audit_event(
+    'SITE_GRANTS_CHANGED',
+    auth.email(),
+    NULL,
+    jsonb_build_object('userId', p_user_id, 'grants', COALESCE(p_grants, '[]'::JSONB))
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Drop a user's site grants when they move to another organization,
+-- since the granted sites belong to the old one
+CREATE OR REPLACE FUNCTION clear_site_grants_on_organization_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM user_site_grants WHERE user_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_profiles_clear_site_grants ON profiles;
+CREATE TRIGGER trigger_profiles_clear_site_grants
+  AFTER UPDATE OF organization_id ON profiles
+  FOR EACH ROW
+  WHEN (OLD.organization_id IS DISTINCT FROM NEW.organization_id)
+  EXECUTE FUNCTION clear_site_grants_on_organization_change();
+
+-- =============================================================================
+-- Row Level Security
+-- =============================================================================
+
+-- Replace the organization policies from 027 on site-bound tables
+
+-- Sites: a new site is checked through its parent
+DROP POLICY IF EXISTS "Organization members can view sites" ON sites;
+DROP POLICY IF EXISTS "Organization users can manage sites" ON sites;
+
+CREATE POLICY "Organization members can view sites"
+  ON sites FOR SELECT
+  USING (can_access_site(organization_id, id));
+
+CREATE POLICY "Organization users can manage sites"
+  ON sites FOR ALL
+  USING (can_access_site(organization_id, id, 'user'))
+  WITH CHECK (
+    can_access_site(organization_id, id, 'user')
+    OR can_access_site(organization_id, parent_site_id, 'user')
+  );
+
+-- Membership levels (via site)
+DROP POLICY IF EXISTS "Organization members can view membership levels" ON membership_levels;
+DROP POLICY IF EXISTS "Organization users can manage membership levels" ON membership_levels;
+
+CREATE POLICY "Organization members can view membership levels"
+  ON membership_levels FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM sites
+      WHERE sites.id = membership_levels.site_id
+      AND can_access_site(sites.organization_id, sites.id)
+    )
+  );
+
+CREATE POLICY "Organization users can manage membership levels"
+  ON membership_levels FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM sites
+      WHERE sites.id = membership_levels.site_id
+      AND can_access_site(sites.organization_id, sites.id, 'user')
+    )
+  );
+
+-- Members
+DROP POLICY IF EXISTS "Organization members can view members" ON members;
+DROP POLICY IF EXISTS "Organization users can manage members" ON members;
+
+CREATE POLICY "Organization members can view members"
+  ON members FOR SELECT
+  USING (can_access_site(organization_id, site_id));
+
+CREATE POLICY "Organization users can manage members"
+  ON members FOR ALL
+  USING (can_access_site(organization_id, site_id, 'user'));
+
+-- Member transactions, visits and consent (via member)
+DROP POLICY IF EXISTS "Organization members can view transactions" ON member_transactions;
+DROP POLICY IF EXISTS "Organization users can manage transactions" ON member_transactions;
+
+CREATE POLICY "Organization members can view transactions"
+  ON member_transactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = member_transactions.member_id
+      AND can_access_site(members.organization_id, members.site_id)
+    )
+  );
+
+CREATE POLICY "Organization users can manage transactions"
+  ON member_transactions FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = member_transactions.member_id
+      AND can_access_site(members.organization_id, members.site_id, 'user')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization members can view visits" ON member_visits;
+DROP POLICY IF EXISTS "Organization users can manage visits" ON member_visits;
+
+CREATE POLICY "Organization members can view visits"
+  ON member_visits FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = member_visits.member_id
+      AND can_access_site(members.organization_id, members.site_id)
+    )
+  );
+
+CREATE POLICY "Organization users can manage visits"
+  ON member_visits FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = member_visits.member_id
+      AND can_access_site(members.organization_id, members.site_id, 'user')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization members can view consent" ON member_consent;
+DROP POLICY IF EXISTS "Organization users can manage consent" ON member_consent;
+
+CREATE POLICY "Organization members can view consent"
+  ON member_consent FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = member_consent.member_id
+      AND can_access_site(members.organization_id, members.site_id)
+    )
+  );
+
+CREATE POLICY "Organization users can manage consent"
+  ON member_consent FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = member_consent.member_id
+      AND can_access_site(members.organization_id, members.site_id, 'user')
+    )
+  );
+
+-- Promo codes
+DROP POLICY IF EXISTS "Organization members can view promo codes" ON promo_codes;
+DROP POLICY IF EXISTS "Organization users can manage promo codes" ON promo_codes;
+
+CREATE POLICY "Organization members can view promo codes"
+  ON promo_codes FOR SELECT
+  USING (can_access_site(organization_id, site_id));
+
+CREATE POLICY "Organization users can manage promo codes"
+  ON promo_codes FOR ALL
+  USING (can_access_site(organization_id, site_id, 'user'));
+
+-- Automations, their executions and events
+DROP POLICY IF EXISTS "Organization members can view automation triggers" ON automation_triggers;
+DROP POLICY IF EXISTS "Organization users can manage automation triggers" ON automation_triggers;
+
+CREATE POLICY "Organization members can view automation triggers"
+  ON automation_triggers FOR SELECT
+  USING (can_access_site(organization_id, site_id));
+
+CREATE POLICY "Organization users can manage automation triggers"
+  ON automation_triggers FOR ALL
+  USING (can_access_site(organization_id, site_id, 'user'));
+
+DROP POLICY IF EXISTS "Organization members can view executions" ON automation_executions;
+
+CREATE POLICY "Organization members can view executions"
+  ON automation_executions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM automation_triggers
+      WHERE automation_triggers.id = automation_executions.trigger_id
+      AND can_access_site(automation_triggers.organization_id, automation_triggers.site_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization members can view automation events" ON automation_events;
+
+CREATE POLICY "Organization members can view automation events"
+  ON automation_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM automation_triggers
+      WHERE automation_triggers.id = automation_events.trigger_id
+      AND can_access_site(automation_triggers.organization_id, automation_triggers.site_id)
+    )
+  );
+
+-- Campaigns, their messages and variants
+DROP POLICY IF EXISTS "Organization members can view campaigns" ON campaigns;
+DROP POLICY IF EXISTS "Organization users can manage campaigns" ON campaigns;
+
+CREATE POLICY "Organization members can view campaigns"
+  ON campaigns FOR SELECT
+  USING (can_access_site(organization_id, site_id));
+
+CREATE POLICY "Organization users can manage campaigns"
+  ON campaigns FOR ALL
+  USING (can_access_site(organization_id, site_id, 'user'));
+
+DROP POLICY IF EXISTS "Organization members can view campaign messages" ON campaign_messages;
+DROP POLICY IF EXISTS "Organization users can insert campaign messages" ON campaign_messages;
+DROP POLICY IF EXISTS "Organization users can update campaign messages" ON campaign_messages;
+
+CREATE POLICY "Organization members can view campaign messages"
+  ON campaign_messages FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM campaigns
+      WHERE campaigns.id = campaign_messages.campaign_id
+      AND can_access_site(campaigns.organization_id, campaigns.site_id)
+    )
+  );
+
+CREATE POLICY "Organization users can insert campaign messages"
+  ON campaign_messages FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM campaigns
+      WHERE campaigns.id = campaign_messages.campaign_id
+      AND can_access_site(campaigns.organization_id, campaigns.site_id, 'user')
+    )
+  );
+
+CREATE POLICY "Organization users can update campaign messages"
+  ON campaign_messages FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM campaigns
+      WHERE campaigns.id = campaign_messages.campaign_id
+      AND can_access_site(campaigns.organization_id, campaigns.site_id, 'user')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization members can view variants" ON campaign_variants;
+DROP POLICY IF EXISTS "Organization users can manage variants" ON campaign_variants;
+
+CREATE POLICY "Organization members can view variants"
+  ON campaign_variants FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM campaigns
+      WHERE campaigns.id = campaign_variants.campaign_id
+      AND can_access_site(campaigns.organization_id, campaigns.site_id)
+    )
+  );
+
+CREATE POLICY "Organization users can manage variants"
+  ON campaign_variants FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM campaigns
+      WHERE campaigns.id = campaign_variants.campaign_id
+      AND can_access_site(campaigns.organization_id, campaigns.site_id, 'user')
+    )
+  );
+
+-- SMS conversations (via member)
+DROP POLICY IF EXISTS "Organization members can view conversations" ON sms_conversation_messages;
+DROP POLICY IF EXISTS "Organization users can manage conversations" ON sms_conversation_messages;
+
+CREATE POLICY "Organization members can view conversations"
+  ON sms_conversation_messages FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = sms_conversation_messages.member_id
+      AND can_access_site(sms_conversation_messages.organization_id, members.site_id)
+    )
+  );
+
+CREATE POLICY "Organization users can manage conversations"
+  ON sms_conversation_messages FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM members
+      WHERE members.id = sms_conversation_messages.member_id
+      AND can_access_site(sms_conversation_messages.organization_id, members.site_id, 'user')
+    )
+  );
+
+-- Member imports and their change history
+DROP POLICY IF EXISTS "Organization members can view imports" ON member_imports;
+
+CREATE POLICY "Organization members can view imports"
+  ON member_imports FOR SELECT
+  USING (can_access_site(organization_id, site_id));
+
+DROP POLICY IF EXISTS "Organization members can view import changes" ON member_import_changes;
+
+CREATE POLICY "Organization members can view import changes"
+  ON member_import_changes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM member_imports
+      WHERE member_imports.import_id = member_import_changes.import_id
+      AND can_access_site(member_imports.organization_id, member_imports.site_id)
+    )
+  );
+
+-- =============================================================================
+-- Site-Scoped Functions
+-- =============================================================================
+
+-- The functions below replace the 027 versions, which checked only the
+-- organization.
+
+-- Function: Search the members the current user can access
+CREATE OR REPLACE FUNCTION search_members(
+  p_site_id UUID DEFAULT NULL,
+  p_search_term TEXT DEFAULT NULL,
+  p_membership_status TEXT DEFAULT NULL,
+  p_membership_level_id UUID DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  first_name VARCHAR(100),
+  last_name VARCHAR(100),
+  email VARCHAR(255),
+  phone VARCHAR(20),
+  membership_status VARCHAR(20),
+  membership_level_name VARCHAR(100),
+  lifetime_value NUMERIC(12, 2),
+  total_visits INTEGER,
+  last_visit_at TIMESTAMPTZ,
+  site_name VARCHAR(255),
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.first_name,
+    m.last_name,
+    m.email,
+    m.phone,
+    m.membership_status,
+    ml.name AS membership_level_name,
+    m.lifetime_value,
+    m.total_visits,
+    m.last_visit_at,
+    s.name AS site_name,
+    m.created_at
+  FROM members m
+  LEFT JOIN membership_levels ml ON m.membership_level_id = ml.id
+  LEFT JOIN sites s ON m.site_id = s.id
+  WHERE m.organization_id = get_my_organization_id()
+    AND has_site_access(m.site_id)
+    AND m.is_active = TRUE
+    AND (p_site_id IS NULL OR m.site_id = p_site_id)
+    AND (p_membership_status IS NULL OR m.membership_status = p_membership_status)
+    AND (p_membership_level_id IS NULL OR m.membership_level_id = p_membership_level_id)
+    AND (p_tags IS NULL OR m.tags && p_tags)
+    AND (
+      p_search_term IS NULL
+      OR m.first_name ILIKE '%' || p_search_term || '%'
+      OR m.last_name ILIKE '%' || p_search_term || '%'
+      OR m.email ILIKE '%' || p_search_term || '%'
+      OR m.phone ILIKE '%' || p_search_term || '%'
+    )
+  ORDER BY m.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Count the members the current user can access that a campaign
+-- with these settings would reach
+CREATE OR REPLACE FUNCTION count_campaign_audience(
+  p_campaign_type VARCHAR,
+  p_site_id UUID DEFAULT NULL,
+  p_target_all_members BOOLEAN DEFAULT FALSE,
+  p_membership_statuses TEXT[] DEFAULT NULL,
+  p_membership_level_ids UUID[] DEFAULT NULL,
+  p_required_tags TEXT[] DEFAULT NULL,
+  p_excluded_tags TEXT[] DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM members m
+  INNER JOIN sites s ON m.site_id = s.id
+  LEFT JOIN member_consent mc ON m.id = mc.member_id
+  WHERE m.organization_id = get_my_organization_id()
+    AND has_site_access(m.site_id)
+    AND m.is_active = TRUE
+    AND (p_site_id IS NULL OR m.site_id = p_site_id)
+    AND (
+      p_target_all_members = TRUE
+      OR (
+        (p_membership_level_ids IS NULL
+          OR m.membership_level_id = ANY(p_membership_level_ids))
+        AND (p_membership_statuses IS NULL
+          OR m.membership_status = ANY(p_membership_statuses))
+        AND (p_required_tags IS NULL
+          OR m.tags @> p_required_tags)
+        AND (p_excluded_tags IS NULL
+          OR NOT (m.tags && p_excluded_tags))
+      )
+    )
+    AND (
+      (p_campaign_type = 'sms'
+        AND m.phone IS NOT NULL
+        AND (mc.sms_consent = TRUE)
+        AND (mc.sms_opt_out_at IS NULL)
+        AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE))
+      OR
+      (p_campaign_type = 'email'
+        AND m.email IS NOT NULL
+        AND (mc.email_consent = TRUE OR mc.email_consent IS NULL)
+        AND (mc.email_unsubscribed_at IS NULL)
+        AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function: Get eligible recipients for a campaign
+CREATE OR REPLACE FUNCTION get_campaign_recipients(p_campaign_id UUID)
+RETURNS TABLE (
+  member_id UUID,
+  first_name VARCHAR(100),
+  last_name VARCHAR(100),
+  email VARCHAR(255),
+  phone VARCHAR(20),
+  site_id UUID,
+  site_timezone VARCHAR(50)
+) AS $$
+DECLARE
+  v_campaign RECORD;
+BEGIN
+  -- Get campaign details
+  SELECT * INTO v_campaign FROM campaigns WHERE id = p_campaign_id;
+
+  -- The service role (auth.uid() NULL) may read any campaign
+  IF v_campaign IS NULL
+    OR (auth.uid() IS NOT NULL AND NOT can_access_site(v_campaign.organization_id, v_campaign.site_id))
+  THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id AS member_id,
+    m.first_name,
+    m.last_name,
+    m.email,
+    m.phone,
+    m.site_id,
+    s.timezone AS site_timezone
+  FROM members m
+  INNER JOIN sites s ON m.site_id = s.id
+  LEFT JOIN member_consent mc ON m.id = mc.member_id
+  WHERE m.organization_id = v_campaign.organization_id
+    AND m.is_active = TRUE
+    -- Site filter
+    AND (v_campaign.site_id IS NULL OR m.site_id = v_campaign.site_id)
+    -- Targeting filters
+    AND (
+      v_campaign.target_all_members = TRUE
+      OR (
+        (v_campaign.membership_level_ids IS NULL
+          OR m.membership_level_id = ANY(v_campaign.membership_level_ids))
+        AND (v_campaign.membership_statuses IS NULL
+          OR m.membership_status = ANY(v_campaign.membership_statuses))
+        AND (v_campaign.required_tags IS NULL
+          OR m.tags @> v_campaign.required_tags)
+        AND (v_campaign.excluded_tags IS NULL
+          OR NOT (m.tags && v_campaign.excluded_tags))
+      )
+    )
+    -- Consent checks based on campaign type
+    AND (
+      -- SMS: Requires consent, no opt-out, not DNC
+      (v_campaign.campaign_type = 'sms'
+        AND m.phone IS NOT NULL
+        AND (mc.sms_consent = TRUE)
+        AND (mc.sms_opt_out_at IS NULL)
+        AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE))
+      OR
+      -- Email: Default consent is true, check unsubscribe, not DNC
+      (v_campaign.campaign_type = 'email'
+        AND m.email IS NOT NULL
+        AND (mc.email_consent = TRUE OR mc.email_consent IS NULL)
+        AND (mc.email_unsubscribed_at IS NULL)
+        AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE))
+    )
+    -- Exclude members already messaged in this campaign
+    AND NOT EXISTS (
+      SELECT 1 FROM campaign_messages cm
+      WHERE cm.campaign_id = p_campaign_id
+      AND cm.member_id = m.id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Get members eligible for a trigger
+CREATE OR REPLACE FUNCTION get_trigger_eligible_members(p_trigger_id UUID)
+RETURNS TABLE (
+  member_id UUID,
+  first_name VARCHAR(100),
+  last_name VARCHAR(100),
+  email VARCHAR(255),
+  phone VARCHAR(20),
+  site_id UUID,
+  site_timezone VARCHAR(50)
+) AS $$
+DECLARE
+  v_trigger RECORD;
+BEGIN
+  -- Get trigger configuration
+  SELECT * INTO v_trigger
+  FROM automation_triggers
+  WHERE id = p_trigger_id;
+
+  -- The service role (auth.uid() NULL) may read any trigger
+  IF v_trigger IS NULL
+    OR (auth.uid() IS NOT NULL AND NOT can_access_site(v_trigger.organization_id, v_trigger.site_id))
+  THEN
+    RETURN;
+  END IF;
+
+  -- Return eligible members based on trigger type
+  RETURN QUERY
+  SELECT
+    m.id AS member_id,
+    m.first_name,
+    m.last_name,
+    m.email,
+    m.phone,
+    m.site_id,
+    s.timezone AS site_timezone
+  FROM members m
+  INNER JOIN sites s ON m.site_id = s.id
+  LEFT JOIN member_consent mc ON m.id = mc.member_id
+  WHERE m.organization_id = v_trigger.organization_id
+    AND m.is_active = TRUE
+    AND (v_trigger.site_id IS NULL OR m.site_id = v_trigger.site_id)
+    AND (v_trigger.membership_level_ids IS NULL OR m.membership_level_id = ANY(v_trigger.membership_level_ids))
+    AND (v_trigger.membership_statuses IS NULL OR m.membership_status = ANY(v_trigger.membership_statuses))
+    AND (v_trigger.required_tags IS NULL OR m.tags @> v_trigger.required_tags)
+    AND (v_trigger.excluded_tags IS NULL OR NOT (m.tags && v_trigger.excluded_tags))
+    -- Check consent based on action type
+    AND (
+      (v_trigger.action_type != 'send_sms' OR (mc.sms_consent = TRUE AND mc.sms_opt_out_at IS NULL))
+      AND (v_trigger.action_type != 'send_email' OR (mc.email_consent = TRUE AND mc.email_unsubscribed_at IS NULL))
+    )
+    -- Check do not contact
+    AND (mc.do_not_contact IS NULL OR mc.do_not_contact = FALSE)
+    -- Check min interval
+    AND (
+      v_trigger.min_interval_days = 0
+      OR NOT EXISTS (
+        SELECT 1 FROM automation_executions ae
+        WHERE ae.trigger_id = p_trigger_id
+          AND ae.member_id = m.id
+          AND ae.executed_at > NOW() - (v_trigger.min_interval_days || ' days')::INTERVAL
+      )
+    )
+    -- Check max sends
+    AND (
+      v_trigger.max_sends_per_member IS NULL
+      OR (
+        SELECT COUNT(*) FROM automation_executions ae
+        WHERE ae.trigger_id = p_trigger_id AND ae.member_id = m.id
+      ) < v_trigger.max_sends_per_member
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Summary of deferred messages for a campaign
+CREATE OR REPLACE FUNCTION get_campaign_deferred_stats(p_campaign_id UUID)
+RETURNS TABLE (
+  deferred_reason VARCHAR,
+  message_count INTEGER,
+  next_send_at TIMESTAMPTZ,
+  last_send_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM campaigns WHERE id = p_campaign_id AND can_access_site(organization_id, site_id)
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.deferred_reason,
+    COUNT(*)::INTEGER,
+    MIN(d.send_at),
+    MAX(d.send_at)
+  FROM (
+    SELECT
+      cm.deferred_reason,
+      CASE
+        WHEN cm.deferred_reason = 'ab_holdout'
+          THEN get_ab_winner_due_at(c.id)
+        ELSE cm.next_attempt_at
+      END AS send_at
+    FROM campaign_messages cm
+    INNER JOIN campaigns c ON c.id = cm.campaign_id
+    WHERE cm.campaign_id = p_campaign_id
+      AND cm.status = 'queued'
+      AND cm.deferred_reason IS NOT NULL
+      AND cm.next_attempt_at > NOW()
+  ) d
+  GROUP BY d.deferred_reason;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function: Acquisition (CAC) summary for a campaign
+CREATE OR REPLACE FUNCTION get_campaign_acquisition(p_campaign_id UUID)
+RETURNS TABLE (
+  members_acquired BIGINT,
+  total_acquisition_cost NUMERIC,
+  avg_cac NUMERIC,
+  promo_code_count BIGINT,
+  promo_code_uses BIGINT
+) AS $$
+DECLARE
+  v_organization_id UUID;
+  v_site_id UUID;
+BEGIN
+  SELECT organization_id, site_id INTO v_organization_id, v_site_id FROM campaigns WHERE id = p_campaign_id;
+
+  IF NOT can_access_site(v_organization_id, v_site_id) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH codes AS (
+    SELECT UPPER(pc.code) AS code, pc.acquisition_cost, COALESCE(pc.current_uses, 0) AS uses
+    FROM promo_codes pc
+    WHERE pc.campaign_id = p_campaign_id
+  ),
+  acquired AS (
+    SELECT COALESCE(m.acquisition_cost, c.acquisition_cost, 0) AS cost
+    FROM members m
+    LEFT JOIN codes c ON c.code = UPPER(m.acquisition_promo_code)
+    WHERE m.organization_id = v_organization_id
+      AND (m.acquisition_campaign_id = p_campaign_id OR c.code IS NOT NULL)
+  )
+  SELECT
+    (SELECT COUNT(*) FROM acquired),
+    (SELECT COALESCE(SUM(cost), 0) FROM acquired),
+    (SELECT CASE WHEN COUNT(*) > 0 THEN ROUND(SUM(cost) / COUNT(*), 2) ELSE 0 END FROM acquired),
+    (SELECT COUNT(*) FROM codes),
+    (SELECT COALESCE(SUM(uses), 0)::BIGINT FROM codes);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Redemption report per promo code the current user can access
+CREATE OR REPLACE FUNCTION get_promo_code_report(p_site_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  promo_code_id UUID,
+  code VARCHAR(50),
+  site_id UUID,
+  campaign_id UUID,
+  current_uses INTEGER,
+  max_uses INTEGER,
+  members_acquired BIGINT,
+  acquisition_cost_total NUMERIC,
+  transaction_count BIGINT,
+  transaction_revenue NUMERIC,
+  last_used_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pc.id,
+    pc.code,
+    pc.site_id,
+    pc.campaign_id,
+    COALESCE(pc.current_uses, 0),
+    pc.max_uses,
+    COALESCE(acq.members_acquired, 0),
+    COALESCE(acq.cost_total, 0),
+    COALESCE(tx.transaction_count, 0),
+    COALESCE(tx.revenue, 0),
+    tx.last_used_at
+  FROM promo_codes pc
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS members_acquired,
+      SUM(COALESCE(m.acquisition_cost, pc.acquisition_cost, 0)) AS cost_total
+    FROM members m
+    WHERE m.organization_id = pc.organization_id
+      AND UPPER(m.acquisition_promo_code) = UPPER(pc.code)
+  ) acq ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS transaction_count,
+      SUM(mt.amount) AS revenue,
+      MAX(mt.transaction_date) AS last_used_at
+    FROM member_transactions mt
+    INNER JOIN members m ON m.id = mt.member_id
+    WHERE m.organization_id = pc.organization_id
+      AND UPPER(mt.promo_code) = UPPER(pc.code)
+  ) tx ON TRUE
+  WHERE pc.organization_id = get_my_organization_id()
+    AND has_site_access(pc.site_id)
+    AND (p_site_id IS NULL OR pc.site_id = p_site_id OR pc.site_id IS NULL)
+  ORDER BY pc.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Generate unique single-use promo codes
+CREATE OR REPLACE FUNCTION generate_promo_codes(
+  p_count INTEGER,
+  p_prefix VARCHAR DEFAULT '',
+  p_site_id UUID DEFAULT NULL,
+  p_campaign_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_acquisition_cost NUMERIC DEFAULT NULL,
+  p_valid_from DATE DEFAULT NULL,
+  p_valid_until DATE DEFAULT NULL
+)
+RETURNS SETOF promo_codes AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_organization_id UUID := get_my_organization_id();
+  v_prefix VARCHAR := UPPER(COALESCE(p_prefix, ''));
+  v_created INTEGER := 0;
+  v_attempts INTEGER := 0;
+  v_row promo_codes;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT can_access_site(v_organization_id, p_site_id, 'user') THEN
+    RAISE EXCEPTION 'Not allowed to create promo codes';
+  END IF;
+
+  IF p_count IS NULL OR p_count < 1 OR p_count > 10000 THEN
+    RAISE EXCEPTION 'Count must be between 1 and 10000';
+  END IF;
+
+  IF LENGTH(v_prefix) > 40 THEN
+    RAISE EXCEPTION 'Prefix must be at most 40 characters';
+  END IF;
+
+  WHILE v_created < p_count LOOP
+    v_attempts := v_attempts + 1;
+    IF v_attempts > p_count * 2 + 100 THEN
+      RAISE EXCEPTION 'Could not generate enough unique codes';
+    END IF;
+
+    INSERT INTO promo_codes (
+      user_id, organization_id, site_id, code, description, campaign_id, acquisition_cost,
+      valid_from, valid_until, max_uses
+    )
+    VALUES (
+      v_user_id,
+      v_organization_id,
+      p_site_id,
+      v_prefix || UPPER(SUBSTRING(REPLACE(gen_random_uuid()::TEXT, '-', '') FROM 1 FOR 8)),
+      p_description,
+      p_campaign_id,
+      p_acquisition_cost,
+      p_valid_from,
+      p_valid_until,
+      1
+    )
+    ON CONFLICT ON CONSTRAINT promo_codes_org_code_unique DO NOTHING
+    RETURNING * INTO v_row;
+
+    IF v_row.id IS NOT NULL THEN
+      v_created := v_created + 1;
+      RETURN NEXT v_row;
+      v_row := NULL;
+    END IF;
+  END LOOP;
+
+  PERFORM log_audit_event(
+    'PROMO_CODES_GENERATED',
+    NULL,
+    NULL,
+    jsonb_build_object('count', p_count, 'prefix', v_prefix, 'campaign_id', p_campaign_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Redeem a promo code for a member
+CREATE OR REPLACE FUNCTION redeem_promo_code(
+  p_code VARCHAR,
+  p_member_id UUID,
+  p_transaction_id UUID DEFAULT NULL,
+  p_attribute_acquisition BOOLEAN DEFAULT TRUE
+)
+RETURNS TABLE (
+  is_valid BOOLEAN,
+  promo_code_id UUID,
+  acquisition_cost NUMERIC(10, 2),
+  campaign_id UUID,
+  message TEXT
+) AS $$
+DECLARE
+  v_member RECORD;
+  v_promo RECORD;
+  v_result RECORD;
+BEGIN
+  SELECT id, organization_id, site_id, acquisition_promo_code INTO v_member
+  FROM members
+  WHERE id = p_member_id;
+
+  IF v_member IS NULL OR NOT can_access_site(v_member.organization_id, v_member.site_id, 'user') THEN
+    RETURN QUERY SELECT FALSE, NULL::UUID, NULL::NUMERIC, NULL::UUID, 'Member not found'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lock the code so concurrent redemptions see each other's uses
+  SELECT * INTO v_promo
+  FROM promo_codes pc
+  WHERE pc.organization_id = v_member.organization_id
+    AND UPPER(pc.code) = UPPER(p_code)
+    AND (pc.site_id IS NULL OR pc.site_id = v_member.site_id)
+  FOR UPDATE;
+
+  SELECT * INTO v_result
+  FROM validate_promo_code(p_code, v_member.site_id);
+
+  IF NOT v_result.is_valid THEN
+    RETURN QUERY SELECT v_result.is_valid, v_result.promo_code_id, v_result.acquisition_cost,
+      v_result.campaign_id, v_result.message;
+    RETURN;
+  END IF;
+
+  PERFORM use_promo_code(v_promo.id);
+
+  IF p_transaction_id IS NOT NULL THEN
+    UPDATE member_transactions mt SET
+      promo_code = v_promo.code,
+      campaign_id = COALESCE(mt.campaign_id, v_promo.campaign_id),
+      updated_at = NOW()
+    WHERE mt.id = p_transaction_id
+      AND mt.member_id = p_member_id;
+  END IF;
+
+  IF p_attribute_acquisition AND v_member.acquisition_promo_code IS NULL THEN
+    UPDATE members m SET
+      acquisition_source = 'promo_code',
+      acquisition_promo_code = v_promo.code,
+      acquisition_campaign_id = COALESCE(v_promo.campaign_id, m.acquisition_campaign_id),
+      acquisition_cost = COALESCE(v_promo.acquisition_cost, m.acquisition_cost)
+    WHERE m.id = p_member_id;
+  END IF;
+
+  PERFORM log_audit_event(
+    'PROMO_CODE_REDEEMED',
+    NULL,
+    NULL,
+    jsonb_build_object(
+      'promo_code_id', v_promo.id,
+      'code', v_promo.code,
+      'member_id', p_member_id,
+      'transaction_id', p_transaction_id
+    )
+  );
+
+  RETURN QUERY SELECT TRUE, v_promo.id, v_promo.acquisition_cost, v_promo.campaign_id, 'Redeemed'::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Import a batch of members into a site
+CREATE OR REPLACE FUNCTION bulk_upsert_members(
+  p_site_id UUID,
+  p_rows JSONB,
+  p_match_fields TEXT[] DEFAULT ARRAY['email'],
+  p_duplicate_handling TEXT DEFAULT 'skip',
+  p_update_columns TEXT[] DEFAULT ARRAY[]::TEXT[],
+  p_merge_rules JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  row_index INTEGER,
+  action TEXT,
+  member_id UUID
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM sites WHERE id = p_site_id AND can_access_site(organization_id, id, 'user')
+  ) THEN
+    RAISE EXCEPTION 'Site not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM import_member_rows(
+    p_site_id, auth.uid(), p_rows, p_match_fields, p_duplicate_handling,
+    p_update_columns, p_merge_rules
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Import a batch of members into a site as p_user_id, with no
+-- access check (bulk_upsert_members for users; scheduled Google Sheets
+-- imports run by sheets-connector with the service role)
+CREATE OR REPLACE FUNCTION import_member_rows(
+  p_site_id UUID,
+  p_user_id UUID,
+  p_rows JSONB,
+  p_match_fields TEXT[] DEFAULT ARRAY['email'],
+  p_duplicate_handling TEXT DEFAULT 'skip',
+  p_update_columns TEXT[] DEFAULT ARRAY[]::TEXT[],
+  p_merge_rules JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  row_index INTEGER,
+  action TEXT,
+  member_id UUID
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id UUID := p_user_id;
+  v_match_email BOOLEAN := 'email' = ANY(p_match_fields);
+  v_match_phone BOOLEAN := 'phone' = ANY(p_match_fields);
+  v_match_external BOOLEAN := 'externalId' = ANY(p_match_fields);
+  v_updatable TEXT[] := ARRAY[
+    'membership_level_id', 'external_id', 'first_name', 'last_name', 'email', 'phone',
+    'date_of_birth', 'gender', 'address_line1', 'address_line2', 'city', 'state',
+    'postal_code', 'country', 'membership_start_date', 'membership_expiry_date',
+    'membership_status', 'acquisition_source', 'acquisition_campaign_id',
+    'acquisition_promo_code', 'acquisition_cost', 'acquisition_date', 'tags', 'custom_fields'
+  ];
+  v_column TEXT;
+  v_rule TEXT;
+  v_set TEXT[] := ARRAY['source_import_id = COALESCE(s.source_import_id, m.source_import_id)'];
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM sites WHERE id = p_site_id) THEN
+    RAISE EXCEPTION 'Site not found';
+  END IF;
+
+  IF p_duplicate_handling NOT IN ('skip', 'update', 'create_new') THEN
+    RAISE EXCEPTION 'Invalid duplicate handling: %', p_duplicate_handling;
+  END IF;
+
+  -- Stage the batch as typed member rows. status: NULL (pending),
+  -- 'new' / 'inserted', 'matched' / 'applying' / 'updated'
+  DROP TABLE IF EXISTS member_import_staging;
+  CREATE TEMP TABLE member_import_staging ON COMMIT DROP AS
+  SELECT
+    (elem->>'row_index')::INTEGER AS row_index,
+    NULL::UUID AS match_id,
+    NULL::TEXT AS status,
+    r.*
+  FROM jsonb_array_elements(p_rows) AS elem,
+    LATERAL jsonb_populate_record(NULL::members, elem) AS r;
+
+  UPDATE member_import_staging SET
+    email = LOWER(NULLIF(TRIM(email), '')),
+    phone = NULLIF(TRIM(phone), ''),
+    external_id = NULLIF(TRIM(external_id), '');
+
+  IF p_duplicate_handling <> 'create_new' AND cardinality(p_match_fields) > 0 THEN
+    LOOP
+      -- Match pending rows to active members (including ones inserted by
+      -- earlier passes of this loop)
+      UPDATE member_import_staging s SET
+        match_id = (
+          SELECT m.id FROM members m
+          WHERE m.site_id = p_site_id
+            AND m.is_active = TRUE
+            AND (
+              (v_match_email AND m.email = s.email)
+              OR (v_match_phone AND m.phone = s.phone)
+              OR (v_match_external AND m.external_id = s.external_id)
+            )
+          ORDER BY m.created_at
+          LIMIT 1
+        )
+      WHERE s.status IS NULL;
+
+      UPDATE member_import_staging SET status = 'matched'
+      WHERE status IS NULL AND match_id IS NOT NULL;
+
+      -- Unmatched rows create a member unless an earlier pending row shares
+      -- an identifier; those wait for the next pass
+      UPDATE member_import_staging s SET status = 'new'
+      WHERE s.status IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM member_import_staging p
+          WHERE p.status IS NULL
+            AND p.row_index < s.row_index
+            AND (
+              (v_match_email AND p.email = s.email)
+              OR (v_match_phone AND p.phone = s.phone)
+              OR (v_match_external AND p.external_id = s.external_id)
+            )
+        );
+
+      PERFORM insert_staged_members(p_site_id, v_user_id);
+
+      EXIT WHEN NOT EXISTS (SELECT 1 FROM member_import_staging WHERE status IS NULL);
+    END LOOP;
+  ELSE
+    UPDATE member_import_staging SET status = 'new';
+    PERFORM insert_staged_members(p_site_id, v_user_id);
+  END IF;
+
+  IF p_duplicate_handling = 'update' THEN
+    FOREACH v_column IN ARRAY p_update_columns LOOP
+      CONTINUE WHEN NOT v_column = ANY(v_updatable);
+      v_rule := COALESCE(p_merge_rules->>v_column, 'overwrite');
+
+      IF v_rule = 'keep_existing' THEN
+        CONTINUE;
+      ELSIF v_rule = 'union' AND v_column = 'tags' THEN
+        v_set := v_set ||
+          'tags = ARRAY(SELECT DISTINCT t FROM unnest(COALESCE(m.tags, ''{}'') || COALESCE(s.tags, ''{}'')) AS t)';
+      ELSIF v_rule = 'union' AND v_column = 'custom_fields' THEN
+        v_set := v_set ||
+          'custom_fields = COALESCE(m.custom_fields, ''{}'') || COALESCE(s.custom_fields, ''{}'')';
+      ELSIF v_rule = 'fill_blanks' AND v_column = 'tags' THEN
+        v_set := v_set ||
+          'tags = CASE WHEN COALESCE(cardinality(m.tags), 0) = 0 THEN s.tags ELSE m.tags END';
+      ELSIF v_rule = 'fill_blanks' THEN
+        v_set := v_set || format('%1$I = COALESCE(m.%1$I, s.%1$I)', v_column);
+      ELSE
+        v_set := v_set || format('%1$I = COALESCE(s.%1$I, m.%1$I)', v_column);
+      END IF;
+    END LOOP;
+
+    -- One row per member per pass so repeated rows apply in file order
+    LOOP
+      UPDATE member_import_staging SET status = 'applying'
+      WHERE row_index IN (
+        SELECT DISTINCT ON (match_id) row_index
+        FROM member_import_staging
+        WHERE status = 'matched'
+        ORDER BY match_id, row_index
+      );
+      EXIT WHEN NOT FOUND;
+
+      EXECUTE format(
+        'UPDATE members m SET %s, updated_at = NOW()
+         FROM member_import_staging s
+         WHERE s.status = ''applying'' AND m.id = s.match_id',
+        array_to_string(v_set, ', ')
+      );
+
+      UPDATE member_import_staging SET status = 'updated' WHERE status = 'applying';
+    END LOOP;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.row_index,
+    CASE s.status
+      WHEN 'inserted' THEN 'inserted'
+      WHEN 'updated' THEN 'updated'
+      ELSE 'skipped'
+    END,
+    COALESCE(s.match_id, s.id)
+  FROM member_import_staging s
+  ORDER BY s.row_index;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Users import through bulk_upsert_members
+REVOKE EXECUTE ON FUNCTION import_member_rows(UUID, UUID, JSONB, TEXT[], TEXT, TEXT[], JSONB)
+  FROM PUBLIC, anon, authenticated;
+
+-- Function: Insert the staged rows marked 'new' (helper for import_member_rows)
+-- Members belong to the site's organization, so rows imported by the
+-- service role, or for a creator who has left, land in the right one.
+CREATE OR REPLACE FUNCTION insert_staged_members(
+  p_site_id UUID,
+  p_user_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE member_import_staging SET id = gen_random_uuid() WHERE status = 'new';
+
+  INSERT INTO members (
+    id, user_id, organization_id, site_id, membership_level_id, external_id,
+    first_name, last_name, email, phone, date_of_birth, gender,
+    address_line1, address_line2, city, state, postal_code, country,
+    membership_start_date, membership_expiry_date, membership_status,
+    acquisition_source, acquisition_campaign_id, acquisition_promo_code,
+    acquisition_cost, acquisition_date, tags, custom_fields, source_import_id
+  )
+  SELECT
+    s.id, p_user_id, site.organization_id, p_site_id, s.membership_level_id, s.external_id,
+    s.first_name, s.last_name, s.email, s.phone, s.date_of_birth, s.gender,
+    s.address_line1, s.address_line2, s.city, s.state, s.postal_code, COALESCE(s.country, 'US'),
+    s.membership_start_date, s.membership_expiry_date, COALESCE(s.membership_status, 'active'),
+    COALESCE(s.acquisition_source, 'import'), s.acquisition_campaign_id, s.acquisition_promo_code,
+    s.acquisition_cost, COALESCE(s.acquisition_date, CURRENT_DATE), COALESCE(s.tags, '{}'),
+    COALESCE(s.custom_fields, '{}'), s.source_import_id
+  FROM member_import_staging s
+  JOIN sites site ON site.id = p_site_id
+  WHERE s.status = 'new'
+  ORDER BY s.row_index;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE member_import_staging SET status = 'inserted' WHERE status = 'new';
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function: Register an import run in a site the current user can manage
+CREATE OR REPLACE FUNCTION start_member_import(
+  p_import_id VARCHAR,
+  p_kind VARCHAR,
+  p_site_id UUID DEFAULT NULL,
+  p_data_source_id UUID DEFAULT NULL,
+  p_filename VARCHAR DEFAULT NULL,
+  p_total_rows INTEGER DEFAULT 0
+)
+RETURNS VOID AS $$
+DECLARE
+  v_organization_id UUID := get_my_organization_id();
+BEGIN
+  IF NOT can_access_site(v_organization_id, p_site_id, 'user') THEN
+    RAISE EXCEPTION 'Not allowed to import into this site';
+  END IF;
+
+  IF p_site_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM sites WHERE id = p_site_id AND organization_id = v_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Site not found';
+  END IF;
+
+  IF p_data_source_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM data_sources
+    WHERE id = p_data_source_id AND organization_id = v_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Data source not found';
+  END IF;
+
+  INSERT INTO member_imports (
+    import_id, user_id, organization_id, site_id, data_source_id, kind, filename, status, total_rows
+  )
+  VALUES (
+    p_import_id, auth.uid(), v_organization_id, p_site_id, p_data_source_id, p_kind,
+    p_filename, 'running', p_total_rows
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Roll back an import run
+CREATE OR REPLACE FUNCTION rollback_member_import(p_import_id VARCHAR)
+RETURNS JSONB AS $$
+DECLARE
+  v_run RECORD;
+  v_transactions INTEGER;
+  v_visits INTEGER;
+  v_restored INTEGER;
+  v_deleted INTEGER;
+  v_summary JSONB;
+BEGIN
+  SELECT * INTO v_run
+  FROM member_imports
+  WHERE import_id = p_import_id AND can_access_site(organization_id, site_id, 'user')
+  FOR UPDATE;
+
+  IF v_run IS NULL THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  IF v_run.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import has already been rolled back';
+  END IF;
+
+  -- A run still running after an hour was abandoned (e.g. its tab was
+  -- closed mid-import) and can be rolled back
+  IF v_run.status = 'running' AND v_run.started_at > NOW() - INTERVAL '1 hour' THEN
+    RAISE EXCEPTION 'Import is still running';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM member_import_changes c
+    JOIN member_import_changes later ON later.member_id = c.member_id
+    JOIN member_imports later_run ON later_run.import_id = later.import_id
+    WHERE c.import_id = p_import_id
+      AND later_run.import_id <> p_import_id
+      AND later_run.started_at > v_run.started_at
+      AND later_run.status <> 'rolled_back'
+  ) THEN
+    RAISE EXCEPTION 'Members in this import were changed by a later import; roll that import back first';
+  END IF;
+
+  -- Only rows of the run's organization (and site): the import id alone
+  -- does not prove the rows came from this run
+  DELETE FROM member_transactions t
+  USING members m
+  WHERE t.source_import_id = p_import_id
+    AND m.id = t.member_id
+    AND m.organization_id = v_run.organization_id
+    AND (v_run.site_id IS NULL OR t.site_id = v_run.site_id);
+  GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+  DELETE FROM member_visits v
+  USING members m
+  WHERE v.source_import_id = p_import_id
+    AND m.id = v.member_id
+    AND m.organization_id = v_run.organization_id
+    AND (v_run.site_id IS NULL OR v.site_id = v_run.site_id);
+  GET DIAGNOSTICS v_visits = ROW_COUNT;
+
+  -- Restore the importable columns from the snapshot taken before the run
+  UPDATE members m SET
+    membership_level_id = prev.membership_level_id,
+    external_id = prev.external_id,
+    first_name = prev.first_name,
+    last_name = prev.last_name,
+    email = prev.email,
+    phone = prev.phone,
+    date_of_birth = prev.date_of_birth,
+    gender = prev.gender,
+    address_line1 = prev.address_line1,
+    address_line2 = prev.address_line2,
+    city = prev.city,
+    state = prev.state,
+    postal_code = prev.postal_code,
+    country = prev.country,
+    membership_start_date = prev.membership_start_date,
+    membership_expiry_date = prev.membership_expiry_date,
+    membership_status = prev.membership_status,
+    acquisition_source = prev.acquisition_source,
+    acquisition_campaign_id = prev.acquisition_campaign_id,
+    acquisition_promo_code = prev.acquisition_promo_code,
+    acquisition_cost = prev.acquisition_cost,
+    acquisition_date = prev.acquisition_date,
+    tags = prev.tags,
+    custom_fields = prev.custom_fields,
+    source_import_id = prev.source_import_id,
+    updated_at = NOW()
+  FROM member_import_changes c,
+    LATERAL jsonb_populate_record(NULL::members, c.previous_values) AS prev
+  WHERE c.import_id = p_import_id
+    AND c.action = 'updated'
+    AND m.id = c.member_id
+    AND m.organization_id = v_run.organization_id
+    AND (v_run.site_id IS NULL OR m.site_id = v_run.site_id);
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  DELETE FROM members m
+  USING member_import_changes c
+  WHERE c.import_id = p_import_id
+    AND c.action = 'created'
+    AND m.id = c.member_id
+    AND m.organization_id = v_run.organization_id
+    AND (v_run.site_id IS NULL OR m.site_id = v_run.site_id);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  v_summary := jsonb_build_object(
+    'members_deleted', v_deleted,
+    'members_restored', v_restored,
+    'transactions_deleted', v_transactions,
+    'visits_deleted', v_visits
+  );
+
+  UPDATE member_imports SET
+    status = 'rolled_back',
+    rolled_back_at = NOW(),
+    rollback_summary = v_summary
+  WHERE id = v_run.id;
+
+  PERFORM log_audit_event(
+    'MEMBER_IMPORT_ROLLED_BACK',
+    NULL,
+    NULL,
+    jsonb_build_object(
+      'import_id', p_import_id,
+      'site_id', v_run.site_id,
+      'filename', v_run.filename
+    ) || v_summary
+  );
+
+  RETURN v_summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
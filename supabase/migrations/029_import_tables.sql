@@ -0,0 +1,192 @@
+-- Import Tables Migration
+-- Where the database and REST connectors copy a data source's rows. Each
+-- such source gets its own table in the imports schema (not exposed through
+-- the API), named in data_sources.table_name when the source is created and
+-- listed in import_tables with its row count. A row is one record of the
+-- source, cleaned with its column_config, stored as JSONB.
+--
+-- The connectors (service role) write the tables through
+-- truncate_import_table() and insert_import_rows(), which only accept
+-- registered import tables.
+
+CREATE SCHEMA IF NOT EXISTS imports;
+
+REVOKE ALL ON SCHEMA imports FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- Import Tables Registry
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS import_tables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  data_source_id UUID NOT NULL UNIQUE REFERENCES data_sources(id) ON DELETE CASCADE,
+  table_name VARCHAR(63) NOT NULL UNIQUE,
+  column_definitions JSONB DEFAULT '[]',
+  row_count INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE import_tables ENABLE ROW LEVEL SECURITY;
+
+-- Written by the connectors and the triggers below only
+CREATE POLICY "Organization members can view import tables"
+  ON import_tables FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM data_sources
+      WHERE data_sources.id = import_tables.data_source_id
+      AND is_org_member(data_sources.organization_id)
+    )
+  );
+
+-- =============================================================================
+-- Table Creation
+-- =============================================================================
+
+-- Function: Import table name for a data source, e.g. import_pos_sales_3f2a9c1d
+CREATE OR REPLACE FUNCTION import_table_name(p_source_name TEXT, p_data_source_id UUID)
+RETURNS TEXT AS $$
+  SELECT 'import_'
+    || COALESCE(
+      NULLIF(trim(BOTH '_' FROM left(regexp_replace(lower(p_source_name), '[^a-z0-9]+', '_', 'g'), 40)), '') || '_',
+      ''
+    )
+    || left(replace(p_data_source_id::TEXT, '-', ''), 8);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Function: Create and register a data source's import table
+CREATE OR REPLACE FUNCTION create_data_source_import_table(p_data_source_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_source RECORD;
+BEGIN
+  SELECT id, table_name, column_config INTO v_source
+  FROM data_sources
+  WHERE id = p_data_source_id;
+
+  IF v_source.table_name IS NULL THEN
+    RAISE EXCEPTION 'Data source has no import table name';
+  END IF;
+
+  EXECUTE format(
+    'CREATE TABLE IF NOT EXISTS imports.%I (
+      id BIGSERIAL PRIMARY KEY,
+      data JSONB NOT NULL,
+      imported_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )',
+    v_source.table_name
+  );
+
+  INSERT INTO import_tables (data_source_id, table_name, column_definitions)
+  VALUES (
+    v_source.id,
+    v_source.table_name,
+    COALESCE(v_source.column_config->'columns', '[]'::jsonb)
+  )
+  ON CONFLICT (data_source_id) DO NOTHING;
+
+  RETURN v_source.table_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger: Name the import table of a new connector source (database and
+-- REST sources; member imports write members instead)
+CREATE OR REPLACE FUNCTION name_data_source_import_table()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.table_name IS NULL AND NEW.type IN ('postgres', 'mysql', 'mssql', 'rest_api') THEN
+    NEW.table_name := import_table_name(NEW.name, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_data_sources_name_import_table ON data_sources;
+CREATE TRIGGER trigger_data_sources_name_import_table
+  BEFORE INSERT ON data_sources
+  FOR EACH ROW EXECUTE FUNCTION name_data_source_import_table();
+
+-- Trigger: Create the import table once the source exists
+CREATE OR REPLACE FUNCTION create_import_table_on_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM create_data_source_import_table(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_data_sources_create_import_table ON data_sources;
+CREATE TRIGGER trigger_data_sources_create_import_table
+  AFTER INSERT ON data_sources
+  FOR EACH ROW
+  WHEN (NEW.table_name IS NOT NULL)
+  EXECUTE FUNCTION create_import_table_on_insert();
+
+-- Trigger: Drop the import table with its data source
+CREATE OR REPLACE FUNCTION drop_import_table_on_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  EXECUTE format('DROP TABLE IF EXISTS imports.%I', OLD.table_name);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_data_sources_drop_import_table ON data_sources;
+CREATE TRIGGER trigger_data_sources_drop_import_table
+  AFTER DELETE ON data_sources
+  FOR EACH ROW
+  WHEN (OLD.table_name IS NOT NULL)
+  EXECUTE FUNCTION drop_import_table_on_delete();
+
+-- Existing connector sources get their tables too
+UPDATE data_sources
+SET table_name = import_table_name(name, id)
+WHERE table_name IS NULL AND type IN ('postgres', 'mysql', 'mssql', 'rest_api');
+
+SELECT create_data_source_import_table(id)
+FROM data_sources
+WHERE table_name IS NOT NULL AND type IN ('postgres', 'mysql', 'mssql', 'rest_api');
+
+-- =============================================================================
+-- Writing Rows
+-- =============================================================================
+
+-- Function: Empty an import table before a full sync
+CREATE OR REPLACE FUNCTION truncate_import_table(p_table_name TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM import_tables WHERE table_name = p_table_name) THEN
+    RAISE EXCEPTION 'Import table not found: %', p_table_name;
+  END IF;
+
+  EXECUTE format('TRUNCATE imports.%I', p_table_name);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Append rows (a JSON array of objects), returning how many were written
+CREATE OR REPLACE FUNCTION insert_import_rows(p_table_name TEXT, p_rows JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM import_tables WHERE table_name = p_table_name) THEN
+    RAISE EXCEPTION 'Import table not found: %', p_table_name;
+  END IF;
+
+  EXECUTE format(
+    'INSERT INTO imports.%I (data) SELECT value FROM jsonb_array_elements($1)',
+    p_table_name
+  )
+  USING p_rows;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Import tables are only ever written by the connectors (service role)
+REVOKE EXECUTE ON FUNCTION create_data_source_import_table(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION truncate_import_table(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION insert_import_rows(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,101 @@
+-- Legal Hold Audit Logs Tests
+-- cleanup_old_audit_logs() (026) keeps entries naming a held member or
+-- campaign under either key style. Run with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+-- =============================================================================
+-- Fixtures
+-- =============================================================================
+
+INSERT INTO organizations (id, name)
+VALUES ('a0000000-0000-0000-0000-000000000001', 'Legal Hold Test');
+
+INSERT INTO sites (id, organization_id, name, code)
+VALUES (
+  'b0000000-0000-0000-0000-000000000001',
+  'a0000000-0000-0000-0000-000000000001',
+  'Legal Hold Site',
+  'HOLD'
+);
+
+INSERT INTO members (id, organization_id, site_id, first_name, legal_hold)
+VALUES
+  (
+    'c0000000-0000-0000-0000-000000000001',
+    'a0000000-0000-0000-0000-000000000001',
+    'b0000000-0000-0000-0000-000000000001',
+    'Held',
+    TRUE
+  ),
+  (
+    'c0000000-0000-0000-0000-000000000002',
+    'a0000000-0000-0000-0000-000000000001',
+    'b0000000-0000-0000-0000-000000000001',
+    'Released',
+    FALSE
+  );
+
+INSERT INTO campaigns (id, organization_id, name, campaign_type, content, legal_hold)
+VALUES (
+  'd0000000-0000-0000-0000-000000000001',
+  'a0000000-0000-0000-0000-000000000001',
+  'Held Campaign',
+  'sms',
+  'Hello',
+  TRUE
+);
+
+-- Past any retention window
+INSERT INTO audit_logs (event_type, metadata, created_at)
+VALUES
+  ('TEST_HELD_MEMBER_APP', '{"memberId": "c0000000-0000-0000-0000-000000000001"}', NOW() - INTERVAL '400 days'),
+  ('TEST_HELD_MEMBER_TRIGGER', '{"member_id": "c0000000-0000-0000-0000-000000000001"}', NOW() - INTERVAL '400 days'),
+  ('TEST_HELD_CAMPAIGN_APP', '{"campaignId": "d0000000-0000-0000-0000-000000000001"}', NOW() - INTERVAL '400 days'),
+  ('TEST_HELD_CAMPAIGN_TRIGGER', '{"campaign_id": "d0000000-0000-0000-0000-000000000001"}', NOW() - INTERVAL '400 days'),
+  ('TEST_RELEASED_MEMBER', '{"member_id": "c0000000-0000-0000-0000-000000000002"}', NOW() - INTERVAL '400 days'),
+  ('TEST_NO_SUBJECT', '{}', NOW() - INTERVAL '400 days');
+
+SELECT cleanup_old_audit_logs(30);
+
+-- =============================================================================
+-- Tests
+-- =============================================================================
+
+SELECT ok(
+  EXISTS (SELECT 1 FROM audit_logs WHERE event_type = 'TEST_HELD_MEMBER_APP'),
+  'should keep memberId entries of a held member'
+);
+
+SELECT ok(
+  EXISTS (SELECT 1 FROM audit_logs WHERE event_type = 'TEST_HELD_MEMBER_TRIGGER'),
+  'should keep member_id entries of a held member'
+);
+
+SELECT ok(
+  EXISTS (SELECT 1 FROM audit_logs WHERE event_type = 'TEST_HELD_CAMPAIGN_APP'),
+  'should keep campaignId entries of a held campaign'
+);
+
+SELECT ok(
+  EXISTS (SELECT 1 FROM audit_logs WHERE event_type = 'TEST_HELD_CAMPAIGN_TRIGGER'),
+  'should keep campaign_id entries of a held campaign'
+);
+
+SELECT ok(
+  NOT EXISTS (SELECT 1 FROM audit_logs WHERE event_type = 'TEST_RELEASED_MEMBER'),
+  'should delete entries of a member without a hold'
+);
+
+SELECT ok(
+  NOT EXISTS (SELECT 1 FROM audit_logs WHERE event_type = 'TEST_NO_SUBJECT'),
+  'should delete entries that name no member or campaign'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;